@@ -52,14 +52,76 @@ function demoAccountIdFingerprint(subjectPubkey) {
   return 'sha256:' + hash;
 }
 
+/**
+ * POST /api/challenge
+ * Body: { subject_signer_public_key_b58: string }
+ * Proxies to registry POST /v1/anchors/challenge. The subject signs the challenge and sends the
+ * proof as possession_proof with its issue request.
+ */
+app.post('/api/challenge', async (req, res) => {
+  try {
+    const { subject_signer_public_key_b58 } = req.body || {};
+    if (!subject_signer_public_key_b58 || typeof subject_signer_public_key_b58 !== 'string') {
+      return res.status(400).json({ error: 'subject_signer_public_key_b58 is required' });
+    }
+    const regRes = await fetch(`${REGISTRY_URL}/v1/anchors/challenge`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': REGISTRY_API_KEY,
+      },
+      body: JSON.stringify({ subject_signer_public_key_b58: subject_signer_public_key_b58.trim() }),
+    });
+    const data = await regRes.json().catch(() => ({}));
+    if (!regRes.ok) {
+      return res.status(regRes.status).json({ error: data.error || 'Registry request failed', details: data });
+    }
+    return res.status(201).json(data);
+  } catch (e) {
+    console.error(e);
+    return res.status(500).json({ error: e.message || 'Server error' });
+  }
+});
+
+/**
+ * POST /api/domain-challenge
+ * Body: { subject_signer_public_key_b58: string, domain: string }
+ * Proxies to registry POST /v1/domains/challenge. Returns the token and where to publish it
+ * (.well-known/pact-anchor.json or a _pact-anchor TXT record) for a domain_verified anchor.
+ */
+app.post('/api/domain-challenge', async (req, res) => {
+  try {
+    const { subject_signer_public_key_b58, domain } = req.body || {};
+    if (!subject_signer_public_key_b58 || typeof subject_signer_public_key_b58 !== 'string' || !domain || typeof domain !== 'string') {
+      return res.status(400).json({ error: 'subject_signer_public_key_b58 and domain are required' });
+    }
+    const regRes = await fetch(`${REGISTRY_URL}/v1/domains/challenge`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': REGISTRY_API_KEY,
+      },
+      body: JSON.stringify({ subject_signer_public_key_b58: subject_signer_public_key_b58.trim(), domain: domain.trim() }),
+    });
+    const data = await regRes.json().catch(() => ({}));
+    if (!regRes.ok) {
+      return res.status(regRes.status).json({ error: data.error || 'Registry request failed', details: data });
+    }
+    return res.status(201).json(data);
+  } catch (e) {
+    console.error(e);
+    return res.status(500).json({ error: e.message || 'Server error' });
+  }
+});
+
 /**
  * POST /api/issue-demo
- * Body: { subject_signer_public_key_b58: string, display_name?: string }
+ * Body: { subject_signer_public_key_b58: string, display_name?: string, possession_proof: object }
  * Issues a platform_verified (Stripe) anchor with a demo fingerprint for testing.
  */
 app.post('/api/issue-demo', async (req, res) => {
   try {
-    const { subject_signer_public_key_b58, display_name } = req.body || {};
+    const { subject_signer_public_key_b58, display_name, possession_proof } = req.body || {};
     if (!subject_signer_public_key_b58 || typeof subject_signer_public_key_b58 !== 'string') {
       return res.status(400).json({ error: 'subject_signer_public_key_b58 is required' });
     }
@@ -78,6 +140,7 @@ app.post('/api/issue-demo', async (req, res) => {
         scope: ['payments'],
         region: 'US',
       },
+      possession_proof,
     };
 
     const regRes = await fetch(`${REGISTRY_URL}/v1/anchors/issue`, {
@@ -174,7 +237,8 @@ app.get('/api/config', (req, res) => {
 
 /**
  * GET /api/stripe/connect
- * Query: subject (required), return_url (required), display_name (optional)
+ * Query: subject (required), return_url (required), possession_proof (base64url JSON, signed challenge), display_name (optional)
+ * The proof travels in the OAuth state and is forwarded on issue; request the challenge just before connecting.
  * Returns redirect URL for Stripe Connect OAuth. Only available when STRIPE_CLIENT_ID + STRIPE_CLIENT_SECRET + STRIPE_CONNECT_REDIRECT_URI are set.
  */
 app.get('/api/stripe/connect', (req, res) => {
@@ -186,7 +250,18 @@ app.get('/api/stripe/connect', (req, res) => {
   if (!subject || !returnUrl) {
     return res.status(400).json({ error: 'subject and return_url query params are required' });
   }
-  const state = Buffer.from(JSON.stringify({ subject, return_url: returnUrl }), 'utf8').toString('base64url');
+  let possessionProof;
+  if (req.query.possession_proof) {
+    try {
+      possessionProof = JSON.parse(Buffer.from(req.query.possession_proof.toString(), 'base64url').toString('utf8'));
+    } catch {
+      return res.status(400).json({ error: 'possession_proof must be base64url-encoded JSON' });
+    }
+  }
+  const state = Buffer.from(
+    JSON.stringify({ subject, return_url: returnUrl, possession_proof: possessionProof }),
+    'utf8'
+  ).toString('base64url');
   const params = new URLSearchParams({
     response_type: 'code',
     client_id: STRIPE_CLIENT_ID,
@@ -200,7 +275,7 @@ app.get('/api/stripe/connect', (req, res) => {
 
 /**
  * GET /api/stripe/callback
- * Query: code (from Stripe), state (base64url JSON: { subject, return_url })
+ * Query: code (from Stripe), state (base64url JSON: { subject, return_url, possession_proof? })
  * Exchanges code for connected account ID, hashes to fingerprint, issues platform_verified anchor, redirects to return_url.
  */
 app.get('/api/stripe/callback', async (req, res) => {
@@ -218,7 +293,7 @@ app.get('/api/stripe/callback', async (req, res) => {
   } catch {
     return res.status(400).json({ error: 'Invalid state' });
   }
-  const { subject, return_url } = state;
+  const { subject, return_url, possession_proof } = state;
   if (!subject || !return_url) {
     return res.status(400).json({ error: 'Invalid state: subject and return_url required' });
   }
@@ -258,6 +333,7 @@ app.get('/api/stripe/callback', async (req, res) => {
         scope: ['payments'],
         region: 'US',
       },
+      possession_proof,
     };
     const regRes = await fetch(`${REGISTRY_URL}/v1/anchors/issue`, {
       method: 'POST',
@@ -332,7 +408,8 @@ app.post('/api/oidc/verify', async (req, res) => {
 
 /**
  * POST /api/issue
- * Forwards full issuance body to REGISTRY_URL/v1/anchors/issue. No server-side base58 validation of payload.
+ * Forwards full issuance body (including possession_proof) to REGISTRY_URL/v1/anchors/issue.
+ * No server-side base58 validation of payload.
  */
 app.post('/api/issue', async (req, res) => {
   try {
@@ -100,6 +100,8 @@ export default function App() {
     () => JSON.stringify(getPayloadTemplate(ANCHOR_TYPES[0]), null, 2)
   );
   const [issueEvidenceRefs, setIssueEvidenceRefs] = useState('');
+  const [issueChallenge, setIssueChallenge] = useState('');
+  const [issueProofRaw, setIssueProofRaw] = useState('');
   const [issueLoading, setIssueLoading] = useState(false);
   const [issueError, setIssueError] = useState<string | null>(null);
 
@@ -246,6 +248,14 @@ export default function App() {
           .map((s) => s.trim())
           .filter(Boolean);
         if (refs.length > 0) body.evidence_refs = refs;
+        if (issueProofRaw.trim()) {
+          try {
+            body.possession_proof = JSON.parse(issueProofRaw);
+          } catch {
+            setIssueError('Possession proof must be valid JSON.');
+            return;
+          }
+        }
 
         const res = await api('/api/issue', {
           method: 'POST',
@@ -259,6 +269,8 @@ export default function App() {
         }
         setBanner({ type: 'success', text: 'Anchor issued. Refreshing list.' });
         setTimeout(() => setBanner(null), 3000);
+        setIssueChallenge('');
+        setIssueProofRaw('');
         await fetchAnchors();
       } catch (err) {
         setIssueError(err instanceof Error ? err.message : 'Network error');
@@ -272,12 +284,35 @@ export default function App() {
       issueVerificationMethod,
       issueDisplayName,
       issueEvidenceRefs,
+      issueProofRaw,
       payloadValid,
       payloadValue,
       fetchAnchors,
     ]
   );
 
+  const handleRequestChallenge = useCallback(async () => {
+    const key = pubkey.trim();
+    if (!key) return;
+    setIssueError(null);
+    try {
+      const res = await api('/api/challenge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ subject_signer_public_key_b58: key }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setIssueError(data.error || data.details?.error || `Request failed (${res.status})`);
+        return;
+      }
+      setIssueChallenge(JSON.stringify(data.challenge, null, 2));
+      setIssueProofRaw('');
+    } catch (err) {
+      setIssueError(err instanceof Error ? err.message : 'Network error');
+    }
+  }, [pubkey]);
+
   const handleRevoke = useCallback(
     async (e: React.FormEvent) => {
       e.preventDefault();
@@ -485,7 +520,13 @@ export default function App() {
                 const key = pubkey.trim();
                 if (!key) return;
                 const returnUrl = `${window.location.origin}${window.location.pathname}?pubkey=${encodeURIComponent(key)}`;
-                const res = await api(`/api/stripe/connect?subject=${encodeURIComponent(key)}&return_url=${encodeURIComponent(returnUrl)}`);
+                const params = new URLSearchParams({ subject: key, return_url: returnUrl });
+                // Signed challenge from the possession proof field; forwarded with the Stripe issue request
+                if (issueProofRaw.trim()) {
+                  const encoded = btoa(issueProofRaw.trim()); // proof JSON is ASCII (hex, base58, numbers)
+                  params.set('possession_proof', encoded.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, ''));
+                }
+                const res = await api(`/api/stripe/connect?${params.toString()}`);
                 const data = await res.json().catch(() => ({}));
                 if (data.redirect_url) window.location.href = data.redirect_url;
                 else setBanner({ type: 'error', text: data.error || 'Could not get Stripe connect URL' });
@@ -625,6 +666,44 @@ export default function App() {
               style={{ width: '100%' }}
             />
           </div>
+          <div>
+            <label className="onboarding-label" htmlFor="issue_possession_proof">
+              Possession proof (required by the registry)
+            </label>
+            <p className="onboarding-note">
+              Request a challenge, sign it with the subject key (
+              <code>SUBJECT_SECRET_KEY_B58=… pact-registry sign-challenge --challenge challenge.json</code>) and paste the
+              resulting proof JSON.
+            </p>
+            <button
+              type="button"
+              className="onboarding-btn onboarding-btn-secondary"
+              disabled={!hasPubkey}
+              onClick={handleRequestChallenge}
+            >
+              Request challenge
+            </button>
+            {issueChallenge && (
+              <textarea
+                className="onboarding-textarea"
+                aria-label="Possession challenge"
+                value={issueChallenge}
+                readOnly
+                rows={8}
+                style={{ fontFamily: 'monospace', fontSize: '0.8rem' }}
+              />
+            )}
+            <textarea
+              id="issue_possession_proof"
+              className="onboarding-textarea"
+              placeholder='{ "challenge": { ... }, "signature_b58": "..." }'
+              value={issueProofRaw}
+              onChange={(e) => setIssueProofRaw(e.target.value)}
+              rows={4}
+              spellCheck={false}
+              style={{ fontFamily: 'monospace', fontSize: '0.85rem' }}
+            />
+          </div>
           <button
             type="submit"
             className="onboarding-btn"
@@ -52,7 +52,8 @@ export function getPayloadTemplate(anchorType: string): object {
         scope: ['procurement'],
       };
     case 'domain_verified':
-      return { domain: '', evidence_fingerprint: 'sha256:<hex>' };
+      // domain_token from POST /api/domain-challenge; the registry fetches the proof and builds the payload
+      return { domain: '', domain_token: '', method: 'well_known' };
     default:
       return {};
   }
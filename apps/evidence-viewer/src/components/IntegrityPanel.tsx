@@ -1,5 +1,5 @@
 import { useState, useCallback } from 'react';
-import type { GCView, AuditorPackData } from '../types';
+import type { GCView, AuditorPackData, PackVerifyResultView } from '../types';
 import { getBuyerPubkey, getProviderOfRecordPubkey, getRecordHash } from '../lib/summaryExtract';
 import { badgeToneToCssClass, getSubcheckStyle, getSignatureBadgeStyle } from '../lib/badgeSemantics';
 import PartyChip from './PartyChip';
@@ -29,6 +29,13 @@ function CopyableId({ value, length = 16 }: { value: string; length?: number })
   );
 }
 
+function sealStatus(seal: PackVerifyResultView['seal']): string {
+  if (!seal?.signed) return 'UNSIGNED';
+  if (seal.signature_ok === false) return 'INVALID';
+  if (seal.trusted === false) return 'UNTRUSTED';
+  return 'VALID';
+}
+
 function roundCountFromTranscript(transcriptJson: string | undefined): number {
   try {
     const t = transcriptJson ? JSON.parse(transcriptJson) : null;
@@ -50,7 +57,7 @@ interface IntegrityPanelProps {
 export default function IntegrityPanel({ gcView, packFileName: _packFileName, merkleDigest, packData, onOpenParty }: IntegrityPanelProps) {
   const int = gcView.integrity;
   const ir = packData.integrityResult;
-  const packVerify = packData.packVerifyResult as { ok?: boolean; recompute_ok?: boolean; checksums_ok?: boolean; mismatches?: string[] } | undefined;
+  const packVerify = packData.packVerifyResult as PackVerifyResultView | undefined;
 
   const checksumsOk = packVerify?.checksums_ok ?? ir?.checksums?.status === 'VALID';
   const checksumsStatus = checksumsOk ? 'VALID' : packVerify?.checksums_ok === false ? 'INVALID' : 'UNAVAILABLE';
@@ -72,6 +79,15 @@ export default function IntegrityPanel({ gcView, packFileName: _packFileName, me
   const sigClass = badgeToneToCssClass(getSignatureBadgeStyle(sigVerified, sigTotal));
   const checksumsClass = badgeToneToCssClass(getSubcheckStyle(checksumsStatus));
 
+  const seal = packVerify?.seal;
+  const sealStatusValue = sealStatus(seal);
+  const sealClass = badgeToneToCssClass(getSubcheckStyle(sealStatusValue));
+
+  // Leaf recomputed from the transcript and the proof path reaches the root (pack verifier)
+  const merkle = packVerify?.merkle;
+  const merkleStatusValue = !merkle ? 'UNCHECKED' : merkle.proof_ok && merkle.leaf_hash_ok !== false ? 'VALID' : 'INVALID';
+  const merkleClass = badgeToneToCssClass(getSubcheckStyle(merkleStatusValue));
+
   return (
     <div id="technical-verification" className="integrity-panel panel">
       <h3>Technical Verification</h3>
@@ -115,6 +131,30 @@ export default function IntegrityPanel({ gcView, packFileName: _packFileName, me
         </dd>
       </dl>
 
+      <h4 className="integrity-subheading">Pack Seal</h4>
+      <dl className="integrity-meta">
+        <dt>Status</dt>
+        <dd>
+          <span className={`badge ${sealClass}`}>{sealStatusValue}</span>
+        </dd>
+        {seal?.signer_public_key_b58 && (
+          <>
+            <dt>Sealed by</dt>
+            <dd>
+              <CopyableId value={seal.signer_public_key_b58} />
+            </dd>
+            <dt>Packer</dt>
+            <dd className="integrity-detail">
+              {seal.trusted === true
+                ? 'Trusted packer'
+                : seal.trusted === false
+                  ? 'Not in trusted packer list'
+                  : 'No trusted packer list configured'}
+            </dd>
+          </>
+        )}
+      </dl>
+
       <h4 className="integrity-subheading">Signatures</h4>
       <dl className="integrity-meta">
         <dt>Verified</dt>
@@ -185,9 +225,31 @@ export default function IntegrityPanel({ gcView, packFileName: _packFileName, me
       {merkleDigest && (
         <div className="merkle-digest">
           <h4 className="integrity-subheading">Merkle</h4>
-          <p>
-            Root: <code>{merkleDigest.root?.slice(0, 16)}...</code>
-          </p>
+          <dl className="integrity-meta">
+            <dt>Inclusion</dt>
+            <dd>
+              <span className={`badge ${merkleClass}`}>{merkleStatusValue}</span>
+            </dd>
+            <dt>Date (UTC)</dt>
+            <dd>{merkleDigest.date_utc}</dd>
+            <dt>Root</dt>
+            <dd>
+              <CopyableId value={merkleDigest.root} />
+            </dd>
+            <dt>Leaf</dt>
+            <dd className="integrity-detail">
+              {merkleDigest.leaf_index + 1} of {merkleDigest.tree_size}
+            </dd>
+            {merkleDigest.constitution_hash && (
+              <>
+                <dt>Constitution</dt>
+                <dd>
+                  <code>{merkleDigest.constitution_hash.slice(0, 16)}...</code>
+                </dd>
+              </>
+            )}
+          </dl>
+          <p className="integrity-detail">Compare the root with the digest your counterparty holds.</p>
         </div>
       )}
     </div>
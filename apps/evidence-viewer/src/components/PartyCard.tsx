@@ -9,7 +9,8 @@ interface PartyCardProps {
 
 function partyBadgesWithTitles(
   anchors: PartyViewModel['anchors'],
-  revokedAny: boolean
+  revokedAny: boolean,
+  rejectedAny: boolean
 ): Array<{ label: string; title?: string }> {
   const out: Array<{ label: string; title?: string }> = [];
   const seen = new Set<string>();
@@ -27,13 +28,14 @@ function partyBadgesWithTitles(
     }
   }
   if (revokedAny) out.push({ label: 'Revoked', title: 'Identity verification revoked after issuance' });
+  if (rejectedAny) out.push({ label: 'Rejected', title: 'Identity verification outside the issuer\'s trusted scope' });
   return out;
 }
 
 export default function PartyCard({ viewModel, onOpenParty }: PartyCardProps) {
   const [copied, setCopied] = useState(false);
-  const { pubkey, display_name, role, anchors, revoked_any, rounds_signed, domain_count } = viewModel;
-  const badges = partyBadgesWithTitles(anchors, revoked_any);
+  const { pubkey, display_name, role, anchors, revoked_any, rejected_any, rounds_signed, domain_count } = viewModel;
+  const badges = partyBadgesWithTitles(anchors, revoked_any, rejected_any);
 
   const handleCopy = useCallback(
     async (e: React.MouseEvent) => {
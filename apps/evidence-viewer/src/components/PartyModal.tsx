@@ -63,6 +63,13 @@ function CopyButton({ text, label = 'Copy', ariaLabel = 'Copy' }: { text: string
   );
 }
 
+/** Anchor status for badges: revocation wins over a trusted-issuer rejection. */
+function anchorStatusLabel(a: { revoked?: boolean; rejected?: boolean }): string {
+  if (a.revoked === true) return 'Revoked';
+  if (a.rejected === true) return 'Rejected';
+  return 'Active';
+}
+
 /** Anchor type to display label (KYB, Credential, Stripe Verified, Domain, Service Account, OIDC). */
 function anchorDisplayType(type: string | undefined, verificationMethod?: string | null): string {
   if (!type) return 'Anchor';
@@ -128,6 +135,7 @@ export default function PartyModal({
   const calibrationScore = firstDomain?.metrics?.calibration_score ?? null;
 
   const anchors = entity?.anchors ?? [];
+  const rejectedAnchor = anchors.find((a) => a.rejected === true);
   const credentialAnchors = anchors.filter((a) => (a.type ?? '').toLowerCase().includes('credential'));
   const stripeAnchors = anchors.filter(
     (a) => (a.type ?? '').toLowerCase().includes('platform') && (a.verification_method ?? '').toLowerCase() === 'stripe'
@@ -229,6 +237,12 @@ export default function PartyModal({
             This verification is no longer valid for future transactions.
           </div>
         )}
+        {rejectedAnchor && (
+          <div className="party-modal-warning party-modal-revoked-warning" role="alert">
+            This verification was rejected by trusted issuer policy
+            {rejectedAnchor?.rejection_reason ? ` (${rejectedAnchor.rejection_reason})` : ''}. Do not rely on it.
+          </div>
+        )}
 
         <div className="party-modal-body">
           {/* Identity */}
@@ -305,11 +319,11 @@ export default function PartyModal({
                       {anchors.map((a, i) => (
                         <span
                           key={i}
-                          className={`party-modal-anchor-badge ${a.revoked === true ? 'party-modal-anchor-revoked' : ''}`}
-                          title={[a.issuer, a.verification_method, a.revoked === true ? 'Revoked' : 'Active'].filter(Boolean).join(' · ') || a.type}
+                          className={`party-modal-anchor-badge ${a.revoked === true || a.rejected === true ? 'party-modal-anchor-revoked' : ''}`}
+                          title={[a.issuer, a.verification_method, anchorStatusLabel(a), a.rejection_error].filter(Boolean).join(' · ') || a.type}
                         >
                           {anchorDisplayType(a.type, a.verification_method) || (a.anchor_id ? truncate(a.anchor_id, 14) : 'Anchor')}
-                          <span className="party-modal-anchor-status">{a.revoked === true ? ' · Revoked' : ' · Active'}</span>
+                          <span className="party-modal-anchor-status">{' · ' + anchorStatusLabel(a)}</span>
                           {(a.verification_method || a.issuer) && (
                             <span className="party-modal-anchor-detail">
                               {[a.verification_method, a.issuer].filter(Boolean).join(' · ')}
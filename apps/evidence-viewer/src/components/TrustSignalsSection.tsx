@@ -59,10 +59,16 @@ function hasAnyRevokedAnchor(snapshot: PassportSnapshotView | null | undefined):
   return snapshot.entities.some((e) => e.anchors?.some((a) => a.revoked === true));
 }
 
+function hasAnyRejectedAnchor(snapshot: PassportSnapshotView | null | undefined): boolean {
+  if (!snapshot?.entities?.length) return false;
+  return snapshot.entities.some((e) => e.anchors?.some((a) => a.rejected === true));
+}
+
 export default function TrustSignalsSection({ boxerSnapshot, recommendations = [], isEvidenceUntrusted = false }: TrustSignalsSectionProps) {
   const reliability = useMemo(() => aggregateReliability(boxerSnapshot), [boxerSnapshot]);
   const gateTypes = useMemo(() => activeGateTypes(boxerSnapshot), [boxerSnapshot]);
   const anyRevoked = useMemo(() => hasAnyRevokedAnchor(boxerSnapshot), [boxerSnapshot]);
+  const anyRejected = useMemo(() => hasAnyRejectedAnchor(boxerSnapshot), [boxerSnapshot]);
   const pct = reliability != null ? (reliability <= 1 ? Math.round(reliability * 100) : Math.min(100, Math.max(0, reliability))) : null;
 
   return (
@@ -77,6 +83,11 @@ export default function TrustSignalsSection({ boxerSnapshot, recommendations = [
           </p>
         </>
       )}
+      {anyRejected && (
+        <p className="trust-signals-untrusted-warning" role="alert">
+          Warning: Identity attestation issued outside its issuer&apos;s trusted scope. Do not rely on it for trust decisions.
+        </p>
+      )}
       {isEvidenceUntrusted && (
         <p className="trust-signals-untrusted-warning" role="alert">
           Trust guidance shown despite untrusted evidence. Recommendations are advisory only.
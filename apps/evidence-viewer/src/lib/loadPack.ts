@@ -1,7 +1,17 @@
 import JSZip from "jszip";
 import { verifyAuditorPackFromBytes } from "@pact/verifier/core";
 import { STANDARD_CONSTITUTION } from "./standard_constitution";
-import type { AuditorPackData, IntegrityResult, Manifest, GCView, Judgment, InsurerSummary, PassportSnapshotView } from "../types";
+import type {
+  AuditorPackData,
+  IntegrityResult,
+  Manifest,
+  GCView,
+  Judgment,
+  InsurerSummary,
+  PassportSnapshotView,
+  PackVerifyResultView,
+  MerkleDigest,
+} from "../types";
 
 /** Canonical paths (preferred). */
 const CANONICAL = {
@@ -173,6 +183,16 @@ export async function loadPackFromFile(
     }
   }
 
+  let merkleDigest: MerkleDigest | undefined;
+  const merkleRes = getFile(map, "derived/merkle_digest.json");
+  if (merkleRes) {
+    try {
+      merkleDigest = JSON.parse(await merkleRes.async("string")) as MerkleDigest;
+    } catch {
+      // ignore
+    }
+  }
+
   let transcriptId = manifest.transcript_id;
   try {
     const transcriptJson = JSON.parse(transcriptContent);
@@ -198,12 +218,28 @@ export async function loadPackFromFile(
       .join("");
   };
 
-  let packVerifyResult: { ok?: boolean; checksums_ok?: boolean; recompute_ok?: boolean; mismatches?: string[]; tool_version?: string };
+  // Trusted packer keys (comma-separated base58) configured at build time; unset = show signer without trust check.
+  const trustedPackerKeys = (import.meta.env.VITE_TRUSTED_PACKER_KEYS ?? "")
+    .toString()
+    .split(",")
+    .map((k) => k.trim())
+    .filter((k) => k.length > 0);
+
+  // Trusted arbiter keys (comma-separated base58); unset = an included arbiter decision never shows as verified.
+  const trustedArbiterKeys = (import.meta.env.VITE_TRUSTED_ARBITER_KEYS ?? "")
+    .toString()
+    .split(",")
+    .map((k) => k.trim())
+    .filter((k) => k.length > 0);
+
+  let packVerifyResult: PackVerifyResultView & { tool_version?: string };
   try {
     packVerifyResult = await verifyAuditorPackFromBytes(zipBytes, {
       sha256Async,
       standardConstitutionContent: STANDARD_CONSTITUTION,
       allowNonstandard: false,
+      trustedPackerKeys: trustedPackerKeys.length > 0 ? trustedPackerKeys : undefined,
+      trustedArbiterKeys,
     });
   } catch (err) {
     packVerifyResult = {
@@ -269,5 +305,6 @@ export async function loadPackFromFile(
     packVerifyResult,
     integrityResult,
     boxerSnapshot: boxerSnapshot ?? undefined,
+    merkleDigest,
   };
 }
@@ -28,6 +28,9 @@ export interface AnchorView {
   revoked_at_ms?: number | null;
   reason?: string | null;
   revocation_ref?: string | null;
+  rejected?: boolean;
+  rejection_reason?: string;
+  rejection_error?: string;
 }
 
 export interface PartyTrust {
@@ -138,6 +141,9 @@ export function buildPartyIndex(
       revoked_at_ms: a.revoked_at_ms,
       reason: a.reason,
       revocation_ref: a.revocation_ref,
+      rejected: a.rejected,
+      rejection_reason: a.rejection_reason,
+      rejection_error: a.rejection_error,
     }));
     const hasCredentialVerified = anchors.some((a) => (a.type ?? '').toLowerCase().includes('credential'));
 
@@ -257,6 +263,11 @@ export function hasRevokedAnchor(anchors: AnchorView[]): boolean {
   return anchors.some((a) => a.revoked === true);
 }
 
+/** Whether the party has at least one anchor rejected by trusted-issuer policy. */
+export function hasRejectedAnchor(anchors: AnchorView[]): boolean {
+  return anchors.some((a) => a.rejected === true);
+}
+
 /** Contributor from transcript only: any signer that is not buyer or settlement provider. */
 export interface ContributorFromTranscript {
   pubkey: string;
@@ -335,6 +346,7 @@ export interface PartyViewModel {
   display_name: string;
   anchors: AnchorView[];
   revoked_any: boolean;
+  rejected_any: boolean;
   rounds_signed: number;
   domain_count: number;
 }
@@ -362,6 +374,9 @@ function getOrCreateEntry(
     revoked_at_ms: a.revoked_at_ms,
     reason: a.reason,
     revocation_ref: a.revocation_ref,
+    rejected: a.rejected,
+    rejection_reason: a.rejection_reason,
+    rejection_error: a.rejection_error,
   }));
   const display_name =
     anchors[0]?.display_name ?? anchors[0]?.issuer ?? truncatePubkey(pubkey, 12);
@@ -383,6 +398,7 @@ export function toPartyViewModel(entry: PartyEntry, domainCount = 0): PartyViewM
     display_name: entry.display_name,
     anchors: entry.anchors,
     revoked_any: hasRevokedAnchor(entry.anchors),
+    rejected_any: hasRejectedAnchor(entry.anchors),
     rounds_signed: entry.seen_in_rounds.length,
     domain_count: domainCount,
   };
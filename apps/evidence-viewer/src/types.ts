@@ -114,6 +114,7 @@ export interface MerkleDigest {
   version: string;
   date_utc: string;
   root: string;
+  transcript_id?: string;
   leaf_hash: string;
   proof: string[];
   leaf_index: number;
@@ -150,6 +151,20 @@ export interface PackVerifyResultView {
   recompute_ok?: boolean;
   checksums_ok?: boolean;
   mismatches?: string[];
+  /** Packer seal (manifest.sig.json); absent for unsigned packs when no trust list was configured. */
+  seal?: {
+    signed: boolean;
+    signer_public_key_b58?: string;
+    signature_ok?: boolean;
+    trusted?: boolean;
+  };
+  /** Merkle inclusion proof check (derived/merkle_digest.json); absent when the pack carries no proof. */
+  merkle?: {
+    root: string | null;
+    date_utc?: string;
+    leaf_hash_ok: boolean | null;
+    proof_ok: boolean;
+  };
 }
 
 /** Client-side integrity computed from pack contents only (no network). */
@@ -210,6 +225,10 @@ export interface PassportEntityView {
     revoked_at_ms?: number | null;
     reason?: string | null;
     revocation_ref?: string | null;
+    /** Set by Boxer when the anchor failed trusted-issuer verification (scope, validity window, subject domain). */
+    rejected?: boolean;
+    rejection_reason?: string;
+    rejection_error?: string;
   }>;
 }
 
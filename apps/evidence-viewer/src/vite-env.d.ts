@@ -3,6 +3,8 @@
 interface ImportMetaEnv {
   readonly VITE_ANCHOR_ONBOARDING_URL?: string;
   readonly VITE_BASE_PATH?: string;
+  readonly VITE_TRUSTED_PACKER_KEYS?: string;
+  readonly VITE_TRUSTED_ARBITER_KEYS?: string;
 }
 
 interface ImportMeta {
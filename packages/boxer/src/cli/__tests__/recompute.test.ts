@@ -4,7 +4,7 @@
  */
 
 import { describe, it, expect, beforeAll } from "vitest";
-import { readFileSync, existsSync, mkdirSync } from "node:fs";
+import { readFileSync, existsSync, mkdirSync, writeFileSync } from "node:fs";
 import { resolve, dirname } from "node:path";
 import { execSync } from "node:child_process";
 
@@ -15,6 +15,9 @@ const API_PACK = resolve(REPO_ROOT, "design_partner_bundle/packs/auditor_pack_ap
 const API_ANCHORS = resolve(REPO_ROOT, "fixtures/anchors/api_anchors.json");
 const OUT_ART = resolve(REPO_ROOT, "packages/boxer/.tmp-recompute-test/snapshot_art.json");
 const OUT_API = resolve(REPO_ROOT, "packages/boxer/.tmp-recompute-test/snapshot_api.json");
+const REJECTED_ANCHORS = resolve(REPO_ROOT, "packages/boxer/.tmp-recompute-test/api_anchors_rejected.json");
+const OUT_REJECTED = resolve(REPO_ROOT, "packages/boxer/.tmp-recompute-test/snapshot_api_rejected.json");
+const PROVIDER_B = "CACXbtJrzCQqTJ3Ms5EYjgmd4xccVm6uADUYLHZuMYLx";
 
 describe("Boxer recompute", () => {
   beforeAll(() => {
@@ -62,7 +65,7 @@ describe("Boxer recompute", () => {
     const snapshot = JSON.parse(readFileSync(OUT_API, "utf8"));
     expect(snapshot.version).toBe("pact-passport-snapshot/0.0");
     const providerB = snapshot.entities.find(
-      (e: { signer_public_key_b58?: string }) => e.signer_public_key_b58 === "CACXbtJrzCQqTJ3Ms5EYjgmd4xccVm6uADUYLHZuMYLx"
+      (e: { signer_public_key_b58?: string }) => e.signer_public_key_b58 === PROVIDER_B
     );
     expect(providerB).toBeDefined();
     const kybBadge = (providerB?.anchors ?? []).find((a: { type?: string }) => a.type === "kyb_verified");
@@ -76,4 +79,28 @@ describe("Boxer recompute", () => {
     expect(domainIds.has("api:reliability")).toBe(true);
     expect(domainIds.has("api:weather")).toBe(true);
   });
+
+  it("marks anchors rejected by pact-registry verify and adds an untrusted_identity recommendation", () => {
+    if (!existsSync(API_PACK) || !existsSync(API_ANCHORS)) {
+      console.warn("Skip: API pack or anchors not found");
+      return;
+    }
+    const anchorsFile = JSON.parse(readFileSync(API_ANCHORS, "utf8"));
+    anchorsFile.anchors = anchorsFile.anchors.map((a: { signer_public_key_b58?: string; anchor_type?: string }) =>
+      a.signer_public_key_b58 === PROVIDER_B && a.anchor_type === "kyb_verified"
+        ? { ...a, verification: { ok: false, reason: "ISSUER_SCOPE_DENIED", error: "Issuer is not trusted for kyb_verified" } }
+        : a
+    );
+    writeFileSync(REJECTED_ANCHORS, JSON.stringify(anchorsFile), "utf8");
+    execSync(
+      `node dist/cli/recompute.js --pack "${API_PACK}" --anchors "${REJECTED_ANCHORS}" --out "${OUT_REJECTED}"`,
+      { cwd: resolve(REPO_ROOT, "packages/boxer"), stdio: "pipe" }
+    );
+    const snapshot = JSON.parse(readFileSync(OUT_REJECTED, "utf8"));
+    const providerB = snapshot.entities.find((e: { signer_public_key_b58?: string }) => e.signer_public_key_b58 === PROVIDER_B);
+    const kybBadge = (providerB?.anchors ?? []).find((a: { type?: string }) => a.type === "kyb_verified");
+    expect(kybBadge).toMatchObject({ rejected: true, rejection_reason: "ISSUER_SCOPE_DENIED" });
+    const rec = snapshot.recommendations.find((r: { type?: string }) => r.type === "untrusted_identity");
+    expect(rec).toMatchObject({ reason: "ISSUER_SCOPE_DENIED" });
+  });
 });
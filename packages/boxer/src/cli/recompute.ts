@@ -31,6 +31,8 @@ interface AnchorEntry {
   revoked?: boolean;
   revoked_at_ms?: number | null;
   reason?: string | null;
+  /** Offline verification result annotated by `pact-registry verify` (issuer scopes, validity, subject domains). */
+  verification?: { ok: boolean; reason?: string; error?: string; issuer_name?: string };
 }
 
 interface AnchorsFile {
@@ -129,6 +131,16 @@ function loadAnchors(anchorsPath: string): AnchorsFile {
   return raw as AnchorsFile;
 }
 
+/** Badge fields for an anchor that failed trusted-issuer verification (absent when unverified or ok). */
+function rejectionFields(a: AnchorEntry): { rejected?: true; rejection_reason?: string; rejection_error?: string } {
+  if (a.verification?.ok !== false) return {};
+  return {
+    rejected: true,
+    ...(a.verification.reason && { rejection_reason: a.verification.reason }),
+    ...(a.verification.error && { rejection_error: a.verification.error }),
+  };
+}
+
 function getSignersFromTranscript(transcript: Transcript): string[] {
   const set = new Set<string>();
   for (const r of transcript.rounds ?? []) {
@@ -273,6 +285,8 @@ async function main(): Promise<void> {
       revoked?: boolean;
       revoked_at_ms?: number | null;
       reason?: string | null;
+      rejected?: boolean;
+      rejection_reason?: string;
       [k: string]: unknown;
     }>;
   }> = [];
@@ -282,10 +296,11 @@ async function main(): Promise<void> {
     const revokedCount = anchorList.filter((a) => a.revoked === true).length;
     const hasTrustAnchor = anchorList.some(
       (a) =>
-        a.anchor_type === "kyb_verified" ||
+        a.verification?.ok !== false &&
+        (a.anchor_type === "kyb_verified" ||
         a.anchor_type === "platform_verified" ||
         a.anchor_type === "service_account_verified" ||
-        a.anchor_type === "oidc_verified"
+        a.anchor_type === "oidc_verified")
     );
     let defaultReliability = hasTrustAnchor ? 55 : 50;
     if (revokedCount > 0) {
@@ -312,6 +327,7 @@ async function main(): Promise<void> {
       ...(a.revoked != null && { revoked: a.revoked }),
       ...(a.revoked_at_ms != null && { revoked_at_ms: a.revoked_at_ms }),
       ...(a.reason != null && a.reason !== "" && { reason: a.reason }),
+      ...rejectionFields(a),
     }));
     entities.push({
       entity_id: entityId(signer),
@@ -348,6 +364,7 @@ async function main(): Promise<void> {
         ...(a.revoked != null && { revoked: a.revoked }),
         ...(a.revoked_at_ms != null && { revoked_at_ms: a.revoked_at_ms }),
         ...(a.reason != null && a.reason !== "" && { reason: a.reason }),
+        ...rejectionFields(a),
       })),
     });
   }
@@ -373,6 +390,14 @@ async function main(): Promise<void> {
           magnitude: -1,
         });
       }
+      if (a.rejected === true) {
+        recommendations.push({
+          type: "untrusted_identity",
+          message: "Identity attestation rejected by trusted issuer policy. Do not rely on it.",
+          ...(a.anchor_id && { ref: a.anchor_id }),
+          ...(a.rejection_reason && { reason: a.rejection_reason }),
+        });
+      }
     }
   }
 
@@ -0,0 +1,222 @@
+/**
+ * Passport HTTP Server Tests
+ *
+ * Tests the HTTP surface over a memory-backed storage:
+ * - API key auth and JSON error codes
+ * - Ingestion, paginated event history and batch scores
+ * - Policy check and credit terms
+ * - Replay check before ingestion, dedupe on signed content and refusing to serve /ingest without API keys
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import { createHash } from "crypto";
+import bs58 from "bs58";
+import nacl from "tweetnacl";
+import { stableCanonicalize } from "../v1/canonical";
+import { PassportStorage } from "../storage";
+import { clearCache, requirePassport } from "../query";
+import { startPassportServer, type PassportServer } from "../server";
+import { signedContentHash } from "../ingestion";
+import type { TranscriptV4 } from "../types";
+
+const API_KEY = "test-key-1";
+
+function loadFixture(filename: string): TranscriptV4 {
+  const fixturePath = path.join(__dirname, "../../../..", "fixtures", filename);
+  return JSON.parse(fs.readFileSync(fixturePath, "utf-8")) as TranscriptV4;
+}
+
+const sha256Hex = (data: string) => createHash("sha256").update(data, "utf8").digest("hex");
+
+/** Ed25519 key pair derived from the agent id, so an agent signs every test transcript with one key. */
+function agentKeyPair(agentId: string): nacl.SignKeyPair {
+  return nacl.sign.keyPair.fromSeed(createHash("sha256").update(agentId, "utf8").digest());
+}
+
+/**
+ * Give a transcript transcript id and intent id i, timestamp it in the recent past and recompute the
+ * hash chain and final_hash. None of these are signed, so its signatures still verify.
+ */
+function reissue(transcript: TranscriptV4, i: number): TranscriptV4 {
+  const eventTime = Date.now() - 1000000 + i * 1000;
+  transcript.transcript_id = `transcript-server-${i}`;
+  transcript.intent_id = `intent-server-${i}`;
+  transcript.created_at_ms = eventTime;
+  let previousHash = sha256Hex(`${transcript.intent_id}:${transcript.created_at_ms}`);
+  transcript.rounds.forEach((r) => {
+    r.timestamp_ms = eventTime;
+    r.previous_round_hash = previousHash;
+    const { round_hash: _r, ...round } = r;
+    r.round_hash = previousHash = sha256Hex(stableCanonicalize(round));
+  });
+  const { final_hash: _f, ...rest } = transcript;
+  transcript.final_hash = sha256Hex(stableCanonicalize(rest));
+  return transcript;
+}
+
+/**
+ * SUCCESS-001 with every round signed over an envelope_hash unique to i, reissued as transcript i.
+ * edit runs after signing and before the hash chain and final_hash are recomputed, so only the
+ * signatures decide whether it replays VALID; they cover envelope_hash only.
+ */
+function successTranscript(i: number, edit?: (transcript: TranscriptV4) => void): TranscriptV4 {
+  const transcript = loadFixture("success/SUCCESS-001-simple.json");
+  transcript.rounds.forEach((r) => {
+    const keyPair = agentKeyPair(r.agent_id);
+    r.envelope_hash = sha256Hex(`envelope-server-${i}-${r.round_number}`);
+    r.public_key_b58 = r.signature.signer_public_key_b58 = bs58.encode(keyPair.publicKey);
+    r.signature.signature_b58 = bs58.encode(nacl.sign.detached(Buffer.from(r.envelope_hash, "hex"), keyPair.secretKey));
+  });
+  edit?.(transcript);
+  return reissue(transcript, i);
+}
+
+describe("Passport HTTP server", () => {
+  let storage: PassportStorage;
+  let server: PassportServer;
+
+  async function call(
+    method: string,
+    route: string,
+    body?: unknown,
+    headers: Record<string, string> = { Authorization: `Bearer ${API_KEY}` }
+  ): Promise<{ status: number; json: any }> {
+    const res = await fetch(`${server.url}${route}`, {
+      method,
+      headers: { "Content-Type": "application/json", ...headers },
+      body: body === undefined ? undefined : typeof body === "string" ? body : JSON.stringify(body),
+    });
+    return { status: res.status, json: await res.json() };
+  }
+
+  beforeEach(async () => {
+    storage = new PassportStorage(":memory:");
+    clearCache();
+    server = await startPassportServer({ storage, apiKeys: [API_KEY], maxBodyBytes: 64 * 1024 });
+  });
+
+  afterEach(() => {
+    server.close();
+    storage.close();
+    clearCache();
+  });
+
+  it("requires an API key except on /health and returns JSON error codes", async () => {
+    expect((await call("GET", "/health", undefined, {})).json).toEqual({ ok: true, service: "passport" });
+
+    expect(await call("GET", "/passport/buyer", undefined, {})).toEqual({
+      status: 401,
+      json: { error: "Missing or invalid API key", code: "UNAUTHORIZED" },
+    });
+    expect((await call("GET", "/passport/buyer", undefined, { Authorization: "Bearer wrong" })).status).toBe(401);
+    expect((await call("GET", "/passport/buyer", undefined, { "X-API-Key": API_KEY })).status).toBe(200);
+
+    expect((await call("GET", "/nope")).json.code).toBe("NOT_FOUND");
+    expect((await call("GET", "/ingest")).json.code).toBe("METHOD_NOT_ALLOWED");
+    expect((await call("POST", "/ingest", "{not json")).json).toEqual({ error: "Request body must be valid JSON", code: "INVALID_JSON" });
+    expect((await call("GET", "/passport/buyer?as_of=yesterday")).json.code).toBe("INVALID_PARAMETER");
+    expect((await call("POST", "/passport/batch", { agent_ids: [] })).status).toBe(400);
+    expect((await call("POST", "/ingest", { transcripts: ["x".repeat(70 * 1024)] })).json.code).toBe("PAYLOAD_TOO_LARGE");
+    expect(await call("GET", "/passport/%E0%A4%A")).toEqual({
+      status: 400,
+      json: { error: "Invalid percent-encoding in path: %E0%A4%A", code: "INVALID_PARAMETER" },
+    });
+    expect((await call("GET", "/credit/%zz/terms")).status).toBe(400);
+  });
+
+  it("only ingests transcripts that replay VALID", async () => {
+    const forged = successTranscript(0);
+    forged.rounds[2].content_summary = { price: 0.00001 };
+    // Consistent hash chain, but round 1 carries round 0's signature
+    const resealed = successTranscript(1, (t) => {
+      t.rounds[1].signature.signature_b58 = t.rounds[0].signature.signature_b58;
+    });
+
+    const result = await call("POST", "/ingest", { transcripts: [forged, resealed, successTranscript(2)] });
+    expect(result.json.ingested).toBe(1);
+    expect(result.json.results[0].ingested).toBe(false);
+    expect(result.json.results[0].reason).toMatch(/^Transcript failed replay \(TAMPERED\): Round hash mismatch at round 2/);
+    expect(result.json.results[1].reason).toContain("Signature verification failed for round 1");
+    expect(result.json.results[2]).toMatchObject({ transcript_id: "transcript-server-2", ingested: true });
+    expect((await call("GET", "/passport/buyer/events")).json.total).toBe(1);
+  });
+
+  it("rejects a reissued copy of an ingested transcript as a duplicate", async () => {
+    const original = successTranscript(0);
+    const reissued = reissue(structuredClone(original), 1);
+    expect(reissued.transcript_id).not.toBe(original.transcript_id);
+    expect(reissued.final_hash).not.toBe(original.final_hash);
+
+    const result = await call("POST", "/ingest", { transcripts: [original, reissued] });
+    expect(result.json.ingested).toBe(1);
+    expect(result.json.results[1]).toMatchObject({
+      transcript_id: "transcript-server-1",
+      ingested: false,
+      reason: "Transcript already ingested (idempotent)",
+    });
+    expect((await call("GET", "/passport/buyer/events")).json.total).toBe(1);
+  });
+
+  it("serves read-only routes without API keys and refuses to serve /ingest without them", async () => {
+    await expect(startPassportServer({ storage, ingest: true })).rejects.toThrow("POST /ingest requires apiKeys");
+
+    const readOnly = await startPassportServer({ storage });
+    try {
+      const ingest = await fetch(`${readOnly.url}/ingest`, { method: "POST", body: JSON.stringify(successTranscript(0)) });
+      expect(ingest.status).toBe(404);
+      expect((await fetch(`${readOnly.url}/passport/buyer`)).status).toBe(200);
+    } finally {
+      readOnly.close();
+    }
+  });
+
+  it("ingests transcripts and pages event history", async () => {
+    const single = await call("POST", "/ingest", successTranscript(0));
+    expect(single.status).toBe(200);
+    expect(single.json.ingested).toBe(1);
+    expect(single.json.results[0]).toMatchObject({ transcript_id: "transcript-server-0", ingested: true, event_type: "settlement_success" });
+
+    const batch = await call("POST", "/ingest", { transcripts: [1, 2, 3, 4].map((i) => successTranscript(i)).concat(successTranscript(0)) });
+    expect(batch.json.ingested).toBe(4);
+    expect(batch.json.results[4]).toMatchObject({ ingested: false, reason: "Transcript already ingested (idempotent)" });
+
+    const page1 = await call("GET", "/passport/buyer/events?limit=2");
+    expect(page1.json).toMatchObject({ agent_id: "buyer", total: 5, offset: 0, limit: 2, next_offset: 2 });
+    expect(page1.json.events).toHaveLength(2);
+    const page3 = await call("GET", "/passport/buyer/events?limit=2&offset=4");
+    expect(page3.json.events).toHaveLength(1);
+    expect(page3.json.next_offset).toBeNull();
+    expect(page1.json.events.concat(page3.json.events).map((e: any) => e.transcript_hash)).toEqual(
+      [0, 1, 4].map((i) => signedContentHash(successTranscript(i)))
+    );
+    expect((await call("GET", "/passport/buyer/events?limit=0")).json.code).toBe("INVALID_PARAMETER");
+  });
+
+  it("serves batch scores, policy checks and credit terms", async () => {
+    await call("POST", "/ingest", { transcripts: [0, 1, 2].map((i) => successTranscript(i)) });
+
+    const batch = await call("POST", "/passport/batch", { agent_ids: ["buyer", "seller", "unknown-agent"] });
+    expect(batch.json.results.map((r: any) => r.agent_id)).toEqual(["buyer", "seller", "unknown-agent"]);
+    const single = await call("GET", "/passport/buyer");
+    expect(batch.json.results[0].score).toBe(single.json.score);
+
+    const check = await call("POST", "/passport/policy-check", { agent_id: "buyer", min_score: 0 });
+    expect(check.status).toBe(200);
+    expect(check.json).toEqual({ agent_id: "buyer", ...requirePassport(storage, "buyer", 0) });
+    const invalid = await call("POST", "/passport/policy-check", { agent_id: "buyer", min_score: 150 });
+    expect(invalid.json).toMatchObject({ pass: false, reason: "INVALID_MIN_SCORE" });
+    expect((await call("POST", "/passport/policy-check", { agent_id: "buyer" })).json.code).toBe("INVALID_PARAMETER");
+
+    const credit = await call("GET", "/credit/buyer/terms");
+    expect(credit.status).toBe(200);
+    expect(credit.json.agent_id).toBe("buyer");
+    expect(credit.json.passport_score).toBe(single.json.score);
+    expect(["A", "B", "C"]).toContain(credit.json.terms.tier);
+    expect(typeof credit.json.terms.max_outstanding_exposure_usd).toBe("number");
+
+    const replay = await call("POST", "/passport/replay-context", { transcript: successTranscript(0), min_score: 0 });
+    expect(replay.json.agent_id).toBe("buyer");
+  });
+});
@@ -0,0 +1,136 @@
+#!/usr/bin/env node
+/**
+ * Credit Reconcile CLI
+ *
+ * Reconciles the credit ledger: matches CREDIT_EXTENDED events to their SETTLEMENT/FAILURE release,
+ * recomputes outstanding and per-counterparty exposure, and reports orphaned or double-released
+ * entries and drift against the recorded credit_exposure.
+ *
+ * Usage:
+ *   tsx src/cli/credit_reconcile.ts --db <passport.db> [--agent <id>]... [--out <file>]
+ *   tsx src/cli/credit_reconcile.ts --ledger <ledger.json> [--agent <id>]... [--out <file>]
+ *
+ * --ledger reads an export { "credit_events": [...], "credit_exposure": [...] } with the table columns.
+ * Exit code: 0 when the ledger reconciles, 1 when issues are found or on error.
+ */
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { PassportStorage } from "../storage";
+import { reconcileCreditEvents, reconcileCreditLedger, type CreditEventRow, type CreditExposureRow } from "../credit/reconcile";
+import type { CreditLedgerReconciliation } from "../credit/types";
+
+// EPIPE handler for pipe safety
+process.stdout.on("error", (err: NodeJS.ErrnoException) => {
+  if (err.code === "EPIPE") {
+    process.exit(0);
+  }
+});
+
+interface ReconcileArgs {
+  db?: string;
+  ledger?: string;
+  agents: string[];
+  out?: string;
+}
+
+function parseArgs(): ReconcileArgs {
+  const args: ReconcileArgs = { agents: [] };
+  let i = 2;
+  while (i < process.argv.length) {
+    const arg = process.argv[i];
+    if (arg === "--db" && i + 1 < process.argv.length) {
+      args.db = process.argv[++i];
+    } else if (arg === "--ledger" && i + 1 < process.argv.length) {
+      args.ledger = process.argv[++i];
+    } else if (arg === "--agent" && i + 1 < process.argv.length) {
+      args.agents.push(process.argv[++i]);
+    } else if (arg === "--out" && i + 1 < process.argv.length) {
+      args.out = process.argv[++i];
+    } else if (arg.startsWith("--")) {
+      throw new Error(`Unknown option: ${arg}`);
+    }
+    i++;
+  }
+  return args;
+}
+
+function printUsage(): void {
+  console.error("Usage: credit_reconcile (--db <passport.db> | --ledger <ledger.json>) [--agent <id>]... [--out <file>]");
+  console.error("");
+  console.error("Options:");
+  console.error("  --db <file>      Passport SQLite database (requires better-sqlite3)");
+  console.error("  --ledger <file>  JSON export { credit_events: [...], credit_exposure: [...] }");
+  console.error("  --agent <id>     Reconcile only this agent (repeatable; default: all agents)");
+  console.error("  --out <file>     Write JSON report to file instead of stdout");
+}
+
+async function reconcile(args: ReconcileArgs): Promise<CreditLedgerReconciliation> {
+  if (args.ledger) {
+    const ledger = JSON.parse(readFileSync(args.ledger, "utf8")) as {
+      credit_events?: CreditEventRow[];
+      credit_exposure?: CreditExposureRow[];
+    };
+    if (!Array.isArray(ledger.credit_events)) {
+      throw new Error(`${args.ledger}: credit_events must be an array`);
+    }
+    const selected = (agentId: string) => args.agents.length === 0 || args.agents.includes(agentId);
+    return reconcileCreditEvents(
+      ledger.credit_events.filter((e) => selected(e.agent_id)),
+      (ledger.credit_exposure ?? []).filter((e) => selected(e.agent_id))
+    );
+  }
+
+  const storage = await PassportStorage.create(args.db!);
+  try {
+    if (!storage.isPersistent()) {
+      throw new Error("better-sqlite3 is required to read --db (install it, or export the ledger and use --ledger)");
+    }
+    return reconcileCreditLedger(storage, args.agents.length > 0 ? args.agents : undefined);
+  } finally {
+    storage.close();
+  }
+}
+
+export async function main(): Promise<void> {
+  let args: ReconcileArgs;
+  try {
+    args = parseArgs();
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+    return;
+  }
+  if (!args.db === !args.ledger) {
+    printUsage();
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    const report = await reconcile(args);
+    const json = JSON.stringify(report, null, 2);
+    if (args.out) {
+      writeFileSync(args.out, json + "\n", "utf8");
+    } else {
+      console.log(json);
+    }
+
+    const issues = Object.entries(report.issue_counts).map(([code, count]) => `${code}=${count}`);
+    console.error(
+      `${report.ok ? "✅" : "❌"} ${report.agents.length} agent(s) reconciled` + (issues.length > 0 ? `; issues: ${issues.join(", ")}` : "")
+    );
+    if (!report.ok) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+  }
+}
+
+if (import.meta.url === `file://${process.argv[1]}` || process.argv[1]?.endsWith("credit_reconcile.ts")) {
+  main().catch((error) => {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,119 @@
+/**
+ * Credit Ledger Reconciliation Tests
+ *
+ * Tests extension/release matching, exposure release on settlement, and issue detection
+ * (orphaned and double releases, exposure drift).
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { PassportStorage } from "../../storage";
+import { applyCreditEventFromTranscript } from "../riskEngine";
+import { reconcileCreditLedger, reconcileCreditEvents } from "../reconcile";
+
+type LedgerTranscript = Parameters<typeof applyCreditEventFromTranscript>[0];
+
+const T0 = 1_700_000_000_000;
+
+function accepted(id: string): LedgerTranscript {
+  return { transcript_id: id, created_at_ms: T0, rounds: [{ round_type: "INTENT" }, { round_type: "ACCEPT" }] };
+}
+
+function settled(id: string): LedgerTranscript {
+  return { ...accepted(id), rounds: [...accepted(id).rounds!, { round_type: "SETTLEMENT_CONFIRMED" }], final_hash: `final-${id}` };
+}
+
+function failed(id: string): LedgerTranscript {
+  return { ...accepted(id), failure_event: { code: "PACT-404", transcript_hash: `failure-${id}` } };
+}
+
+describe("Credit Ledger Reconciliation", () => {
+  let storage: PassportStorage;
+
+  beforeEach(() => {
+    storage = new PassportStorage(":memory:");
+  });
+
+  it("releases exposure on settlement and matches it to the extension", () => {
+    applyCreditEventFromTranscript(accepted("t-1"), "agent-1", "cp-1", 100, 20, storage);
+    applyCreditEventFromTranscript(accepted("t-2"), "agent-1", "cp-2", 50, 25, storage);
+    expect(storage.getCreditExposure("agent-1")?.outstanding_usd).toBe(105);
+
+    applyCreditEventFromTranscript(settled("t-1"), "agent-1", "cp-1", 100, 20, storage);
+    applyCreditEventFromTranscript(settled("t-1"), "agent-1", "cp-1", 100, 20, storage); // idempotent
+    const exposure = storage.getCreditExposure("agent-1");
+    expect(exposure?.outstanding_usd).toBe(25);
+    expect(JSON.parse(exposure!.per_counterparty_json)).toEqual({ "cp-2": 25 });
+
+    const report = reconcileCreditLedger(storage);
+    expect(report.ok).toBe(true);
+    expect(report.issue_counts).toEqual({});
+    expect(report.agents).toHaveLength(1);
+    const agent = report.agents[0];
+    expect(agent).toMatchObject({
+      agent_id: "agent-1",
+      events: 3,
+      matched: 1,
+      recomputed_outstanding_usd: 25,
+      recorded_outstanding_usd: 25,
+      recomputed_per_counterparty: { "cp-2": 25 },
+    });
+    expect(agent.open.map((o) => o.transcript_hash)).toEqual(["t-2"]);
+  });
+
+  it("reports orphaned and double releases", () => {
+    // applyCreditEventFromTranscript refuses both, so write the rows a ledger recorded before it did
+    const release = (transcriptHash: string, deltaUsd: number, reasonCode: "SETTLEMENT" | "FAILURE") =>
+      storage.insertCreditEvent({
+        agent_id: "agent-1",
+        ts: T0,
+        transcript_hash: transcriptHash,
+        delta_usd: deltaUsd,
+        counterparty_agent_id: "cp-1",
+        reason_code: reasonCode,
+      });
+    // Failure with no prior extension
+    release("t-orphan", -80, "FAILURE");
+    // Extension released twice (settled, then a failure for the same transcript)
+    applyCreditEventFromTranscript(accepted("t-double"), "agent-1", "cp-1", 60, 30, storage);
+    release("t-double", -30, "SETTLEMENT");
+    release("t-double", -30, "FAILURE");
+    storage.upsertCreditExposure("agent-1", 0, "{}", T0);
+
+    const report = reconcileCreditLedger(storage, ["agent-1"]);
+    expect(report.ok).toBe(false);
+    expect(report.issue_counts).toEqual({ DOUBLE_RELEASE: 1, ORPHANED_RELEASE: 1 });
+    const [orphan, double] = report.agents[0].issues;
+    expect(orphan).toMatchObject({ code: "ORPHANED_RELEASE", transcript_hash: "t-orphan", actual_usd: -80 });
+    expect(double).toMatchObject({ code: "DOUBLE_RELEASE", transcript_hash: "t-double", expected_usd: -30, actual_usd: -60 });
+    expect(double.event_ids).toHaveLength(3);
+    // The recorded exposure was clamped at zero, as is the replayed one
+    expect(report.agents[0].recomputed_outstanding_usd).toBe(0);
+  });
+
+  it("detects drift between recorded and replayed exposure", () => {
+    applyCreditEventFromTranscript(accepted("t-1"), "agent-1", "cp-1", 100, 20, storage);
+    storage.upsertCreditExposure("agent-1", 120, JSON.stringify({ "cp-1": 80, "cp-9": 40 }), T0);
+
+    const report = reconcileCreditLedger(storage);
+    expect(report.issue_counts).toEqual({ COUNTERPARTY_DRIFT: 1, EXPOSURE_DRIFT: 1 });
+    expect(report.agents[0].issues).toEqual([
+      { code: "EXPOSURE_DRIFT", expected_usd: 80, actual_usd: 120, event_ids: [] },
+      { code: "COUNTERPARTY_DRIFT", counterparty_agent_id: "cp-9", expected_usd: 0, actual_usd: 40, event_ids: [] },
+    ]);
+  });
+
+  it("reconciles exported ledger rows identically", () => {
+    applyCreditEventFromTranscript(accepted("t-1"), "agent-1", "cp-1", 100, 20, storage);
+    applyCreditEventFromTranscript(accepted("t-2"), "agent-2", null, 10, 0, storage);
+    applyCreditEventFromTranscript(failed("t-2"), "agent-2", null, 10, 5, storage);
+
+    const events = ["agent-1", "agent-2"].flatMap((id) => storage.getCreditEventsByAgent(id));
+    const exposures = ["agent-1", "agent-2"].map((id) => ({ ...storage.getCreditExposure(id)! }));
+    const fromRows = reconcileCreditEvents(events, exposures);
+    expect(fromRows).toEqual(reconcileCreditLedger(storage));
+    expect(fromRows.agents[1].issues).toEqual([
+      { code: "RELEASE_AMOUNT_MISMATCH", transcript_hash: "t-2", counterparty_agent_id: null, expected_usd: -10, actual_usd: -5, event_ids: [2, 3] },
+      { code: "EXPOSURE_DRIFT", expected_usd: 0, actual_usd: 5, event_ids: [] },
+    ]);
+  });
+});
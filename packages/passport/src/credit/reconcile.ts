@@ -0,0 +1,216 @@
+/**
+ * Credit Ledger Reconciliation
+ *
+ * Replays credit_events per agent, matches each CREDIT_EXTENDED to the SETTLEMENT or FAILURE
+ * that released it (same transcript_hash), recomputes outstanding and per-counterparty exposure
+ * from the extensions still open, and compares them with the recorded credit_exposure.
+ */
+
+import type { PassportStorage } from "../storage";
+import type {
+  AgentCreditReconciliation,
+  CreditEvent,
+  CreditLedgerIssue,
+  CreditLedgerReconciliation,
+  OpenCreditExtension,
+  PerCounterpartyExposure,
+} from "./types";
+
+/** Credit event row as stored (reason_code is free text in storage). */
+export type CreditEventRow = Omit<CreditEvent, "reason_code"> & { reason_code: string };
+
+/** Credit exposure row as stored. */
+export interface CreditExposureRow {
+  agent_id: string;
+  outstanding_usd: number;
+  per_counterparty_json: string;
+}
+
+// Amounts closer than this are equal (float sums of USD amounts)
+const USD_TOLERANCE = 1e-6;
+
+function roundUsd(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+function differs(a: number, b: number): boolean {
+  return Math.abs(a - b) > USD_TOLERANCE;
+}
+
+function parsePerCounterparty(json: string): PerCounterpartyExposure {
+  try {
+    const parsed = JSON.parse(json);
+    return typeof parsed === "object" && parsed !== null ? (parsed as PerCounterpartyExposure) : {};
+  } catch {
+    return {};
+  }
+}
+
+function isRelease(event: CreditEventRow): boolean {
+  return (event.reason_code === "SETTLEMENT" || event.reason_code === "FAILURE") && event.delta_usd !== 0;
+}
+
+/**
+ * Reconcile one agent's ledger.
+ */
+function reconcileAgent(
+  agentId: string,
+  events: CreditEventRow[],
+  exposure: CreditExposureRow | null
+): AgentCreditReconciliation {
+  const ordered = [...events].sort((a, b) => a.ts - b.ts || a.id - b.id);
+  const issues: CreditLedgerIssue[] = [];
+  const open: OpenCreditExtension[] = [];
+  let matched = 0;
+
+  // Group by transcript_hash, in order of first appearance
+  const byHash = new Map<string, CreditEventRow[]>();
+  for (const event of ordered) {
+    const group = byHash.get(event.transcript_hash) ?? [];
+    group.push(event);
+    byHash.set(event.transcript_hash, group);
+  }
+
+  for (const [transcriptHash, group] of byHash) {
+    const extensions = group.filter((e) => e.reason_code === "CREDIT_EXTENDED");
+    const releases = group.filter(isRelease);
+
+    if (extensions.length > 1) {
+      issues.push({ code: "DUPLICATE_EXTENSION", transcript_hash: transcriptHash, event_ids: extensions.map((e) => e.id) });
+    }
+    const extension = extensions[0];
+
+    if (!extension) {
+      if (releases.length > 0) {
+        issues.push({
+          code: "ORPHANED_RELEASE",
+          transcript_hash: transcriptHash,
+          counterparty_agent_id: releases[0].counterparty_agent_id,
+          actual_usd: roundUsd(releases.reduce((sum, e) => sum + e.delta_usd, 0)),
+          event_ids: releases.map((e) => e.id),
+        });
+      }
+      continue;
+    }
+
+    if (releases.length === 0) {
+      open.push({
+        transcript_hash: transcriptHash,
+        counterparty_agent_id: extension.counterparty_agent_id,
+        amount_usd: extension.delta_usd,
+        ts: extension.ts,
+        event_id: extension.id,
+      });
+      continue;
+    }
+
+    matched++;
+    if (releases.length > 1) {
+      issues.push({
+        code: "DOUBLE_RELEASE",
+        transcript_hash: transcriptHash,
+        counterparty_agent_id: extension.counterparty_agent_id,
+        expected_usd: roundUsd(-extension.delta_usd),
+        actual_usd: roundUsd(releases.reduce((sum, e) => sum + e.delta_usd, 0)),
+        event_ids: [extension.id, ...releases.map((e) => e.id)],
+      });
+    } else if (differs(-releases[0].delta_usd, extension.delta_usd)) {
+      issues.push({
+        code: "RELEASE_AMOUNT_MISMATCH",
+        transcript_hash: transcriptHash,
+        counterparty_agent_id: extension.counterparty_agent_id,
+        expected_usd: roundUsd(-extension.delta_usd),
+        actual_usd: roundUsd(releases[0].delta_usd),
+        event_ids: [extension.id, releases[0].id],
+      });
+    }
+  }
+
+  // Recompute exposure from open extensions (counterparty exposure is only tracked when known)
+  let outstanding = 0;
+  const perCounterparty: PerCounterpartyExposure = {};
+  for (const ext of open) {
+    outstanding += ext.amount_usd;
+    if (ext.counterparty_agent_id) {
+      perCounterparty[ext.counterparty_agent_id] = roundUsd((perCounterparty[ext.counterparty_agent_id] || 0) + ext.amount_usd);
+    }
+  }
+  outstanding = roundUsd(outstanding);
+
+  const recordedOutstanding = exposure ? exposure.outstanding_usd : null;
+  const recordedPerCounterparty = exposure ? parsePerCounterparty(exposure.per_counterparty_json) : null;
+
+  if (differs(recordedOutstanding ?? 0, outstanding)) {
+    issues.push({ code: "EXPOSURE_DRIFT", expected_usd: outstanding, actual_usd: roundUsd(recordedOutstanding ?? 0), event_ids: [] });
+  }
+  const counterparties = new Set([...Object.keys(perCounterparty), ...Object.keys(recordedPerCounterparty ?? {})]);
+  for (const counterparty of [...counterparties].sort()) {
+    const expected = perCounterparty[counterparty] || 0;
+    const actual = recordedPerCounterparty?.[counterparty] || 0;
+    if (differs(actual, expected)) {
+      issues.push({
+        code: "COUNTERPARTY_DRIFT",
+        counterparty_agent_id: counterparty,
+        expected_usd: expected,
+        actual_usd: roundUsd(actual),
+        event_ids: open.filter((e) => e.counterparty_agent_id === counterparty).map((e) => e.event_id),
+      });
+    }
+  }
+
+  return {
+    agent_id: agentId,
+    events: ordered.length,
+    matched,
+    open,
+    recomputed_outstanding_usd: outstanding,
+    recorded_outstanding_usd: recordedOutstanding,
+    recomputed_per_counterparty: Object.fromEntries(Object.entries(perCounterparty).sort(([a], [b]) => (a < b ? -1 : 1))),
+    recorded_per_counterparty: recordedPerCounterparty,
+    issues,
+  };
+}
+
+/**
+ * Reconcile credit ledger rows (e.g. exported from a passport database).
+ * Agents are reported in sorted order; every agent with events or an exposure row is included.
+ */
+export function reconcileCreditEvents(events: CreditEventRow[], exposures: CreditExposureRow[]): CreditLedgerReconciliation {
+  const agentIds = [...new Set([...events.map((e) => e.agent_id), ...exposures.map((e) => e.agent_id)])].sort();
+  const agents = agentIds.map((agentId) =>
+    reconcileAgent(
+      agentId,
+      events.filter((e) => e.agent_id === agentId),
+      exposures.find((e) => e.agent_id === agentId) ?? null
+    )
+  );
+  return buildReconciliation(agents);
+}
+
+/**
+ * Reconcile the credit ledger in storage.
+ *
+ * @param storage Passport storage instance
+ * @param agentIds Agents to reconcile (default: every agent with credit events or exposure)
+ * @returns Per-agent reconciliation; ok is false if any issue was found
+ */
+export function reconcileCreditLedger(storage: PassportStorage, agentIds?: string[]): CreditLedgerReconciliation {
+  const ids = [...new Set(agentIds ?? storage.getCreditAgentIds())].sort();
+  const agents = ids.map((agentId) =>
+    reconcileAgent(agentId, storage.getCreditEventsByAgent(agentId), storage.getCreditExposure(agentId))
+  );
+  return buildReconciliation(agents);
+}
+
+function buildReconciliation(agents: AgentCreditReconciliation[]): CreditLedgerReconciliation {
+  const issueCounts: CreditLedgerReconciliation["issue_counts"] = {};
+  for (const issue of agents.flatMap((a) => a.issues)) {
+    issueCounts[issue.code] = (issueCounts[issue.code] ?? 0) + 1;
+  }
+  return {
+    version: "credit_reconciliation/1.0",
+    ok: Object.keys(issueCounts).length === 0,
+    agents,
+    issue_counts: Object.fromEntries(Object.entries(issueCounts).sort(([a], [b]) => (a < b ? -1 : 1))),
+  };
+}
@@ -311,11 +311,22 @@ export function canExtendCredit(
 }
 
 /**
- * Apply credit event from transcript (idempotent).
+ * Ledger key for a transcript's credit events. The extension (at ACCEPT) and its release
+ * (settlement or failure) must share it, so it is stable across the transcript's lifecycle:
+ * final_hash and failure_event.transcript_hash only exist once the transcript has ended.
+ */
+export function creditLedgerKey(transcript: { transcript_id: string; transcript_hash?: string }): string {
+  return transcript.transcript_hash || transcript.transcript_id;
+}
+
+/**
+ * Apply credit event from transcript (idempotent per transcript, agent and event kind).
  * 
  * This function extracts credit-relevant information from a transcript and updates
- * credit exposure. It should be called after a commitment is formed (ACCEPT) or
- * after a failure occurs.
+ * credit exposure. It should be called after a commitment is formed (ACCEPT), and again
+ * once the transcript settles (SETTLEMENT_CONFIRMED round) or fails (failure_event) to
+ * release the exposure extended for it. A release without a prior CREDIT_EXTENDED for the
+ * transcript, or after one was already recorded, is ignored.
  */
 export function applyCreditEventFromTranscript(
   transcript: {
@@ -341,17 +352,9 @@ export function applyCreditEventFromTranscript(
   collateralAmountUsd: number,
   storage: PassportStorage
 ): void {
-  // Use transcript_hash if available, otherwise use final_hash or transcript_id
-  const transcriptHash =
-    transcript.failure_event?.transcript_hash ||
-    transcript.transcript_hash ||
-    transcript.final_hash ||
-    transcript.transcript_id;
-
-  // Check idempotency (skip if already processed)
-  if (storage.hasCreditEvent(transcriptHash, agentId)) {
-    return; // Already processed
-  }
+  const transcriptHash = creditLedgerKey(transcript);
+
+  const creditExposureUsd = commitmentAmountUsd - collateralAmountUsd;
 
   // Determine credit event type and delta
   let deltaUsd = 0;
@@ -359,17 +362,21 @@ export function applyCreditEventFromTranscript(
     "CREDIT_DENIED";
 
   if (transcript.failure_event) {
-    // Failure event - credit exposure is released (negative delta)
-    // The credit exposure that was extended is now lost
-    const creditExposureUsd = commitmentAmountUsd - collateralAmountUsd;
-    deltaUsd = -creditExposureUsd; // Negative: exposure released
+    // Failure event - the exposure extended at ACCEPT is released (negative delta)
+    deltaUsd = -creditExposureUsd;
     reasonCode = "FAILURE";
+  } else if (transcript.rounds?.some((r) => r.round_type === "SETTLEMENT_CONFIRMED")) {
+    // Settlement confirmed - the exposure extended at ACCEPT is released
+    if (creditExposureUsd <= 0) {
+      return; // Nothing was extended
+    }
+    deltaUsd = -creditExposureUsd;
+    reasonCode = "SETTLEMENT";
   } else {
     // Check if there's an ACCEPT round (commitment formed)
     const acceptRound = transcript.rounds?.find((r) => r.round_type === "ACCEPT");
     if (acceptRound && commitmentAmountUsd > 0) {
       // Commitment formed - credit extended (positive delta)
-      const creditExposureUsd = commitmentAmountUsd - collateralAmountUsd;
       if (creditExposureUsd > 0) {
         deltaUsd = creditExposureUsd; // Positive: credit extended
         reasonCode = "CREDIT_EXTENDED";
@@ -380,12 +387,26 @@ export function applyCreditEventFromTranscript(
     } else {
       // Settlement completed (no failure, no new commitment)
       // Credit exposure is released (negative delta)
-      const creditExposureUsd = commitmentAmountUsd - collateralAmountUsd;
-      if (creditExposureUsd > 0) {
-        deltaUsd = -creditExposureUsd; // Negative: exposure released
-        reasonCode = "SETTLEMENT";
+      if (creditExposureUsd <= 0) {
+        return; // Nothing was extended
       }
+      deltaUsd = -creditExposureUsd; // Negative: exposure released
+      reasonCode = "SETTLEMENT";
+    }
+  }
+
+  if (reasonCode === "SETTLEMENT" || reasonCode === "FAILURE") {
+    // Only release what was extended for this transcript, and only once (settlement or failure)
+    if (
+      !storage.hasCreditEvent(transcriptHash, agentId, "CREDIT_EXTENDED") ||
+      storage.hasCreditEvent(transcriptHash, agentId, "SETTLEMENT") ||
+      storage.hasCreditEvent(transcriptHash, agentId, "FAILURE")
+    ) {
+      return;
     }
+  } else if (storage.hasCreditEvent(transcriptHash, agentId, reasonCode)) {
+    // Check idempotency (skip if this kind of event was already recorded for the transcript)
+    return; // Already processed
   }
 
   // Insert credit event (idempotent)
@@ -58,3 +58,47 @@ export interface CreditExposure {
 export interface PerCounterpartyExposure {
   [counterparty_id: string]: number;
 }
+
+export type CreditLedgerIssueCode =
+  | "ORPHANED_RELEASE" // SETTLEMENT/FAILURE with no CREDIT_EXTENDED for its transcript_hash
+  | "DOUBLE_RELEASE" // more than one release for the same extension
+  | "DUPLICATE_EXTENSION" // more than one CREDIT_EXTENDED for the same transcript_hash
+  | "RELEASE_AMOUNT_MISMATCH" // release amount differs from the extension it closes
+  | "EXPOSURE_DRIFT" // recorded outstanding_usd differs from the replayed ledger
+  | "COUNTERPARTY_DRIFT"; // recorded per-counterparty exposure differs from the replayed ledger
+
+export interface CreditLedgerIssue {
+  code: CreditLedgerIssueCode;
+  transcript_hash?: string;
+  counterparty_agent_id?: string | null;
+  expected_usd?: number;
+  actual_usd?: number;
+  event_ids: number[];
+}
+
+export interface OpenCreditExtension {
+  transcript_hash: string;
+  counterparty_agent_id: string | null;
+  amount_usd: number;
+  ts: number;
+  event_id: number;
+}
+
+export interface AgentCreditReconciliation {
+  agent_id: string;
+  events: number;
+  matched: number; // extensions closed by a settlement or failure
+  open: OpenCreditExtension[];
+  recomputed_outstanding_usd: number;
+  recorded_outstanding_usd: number | null; // null when no credit_exposure row exists
+  recomputed_per_counterparty: PerCounterpartyExposure;
+  recorded_per_counterparty: PerCounterpartyExposure | null;
+  issues: CreditLedgerIssue[];
+}
+
+export interface CreditLedgerReconciliation {
+  version: "credit_reconciliation/1.0";
+  ok: boolean;
+  agents: AgentCreditReconciliation[];
+  issue_counts: Partial<Record<CreditLedgerIssueCode, number>>;
+}
@@ -6,10 +6,10 @@
 
 export { PassportStorage } from "./storage";
 export { MemoryPassportStorage } from "./storage-memory";
-export { ingestTranscriptOutcome, ingestDisputeOutcome, type IngestionResult } from "./ingestion";
+export { ingestTranscriptOutcome, ingestDisputeOutcome, signedContentHash, type IngestionResult } from "./ingestion";
 export { computePassportScore, type ScoreResult, type ScoreBreakdown } from "./scoring";
 export { queryPassport, requirePassport, clearCache, type PassportQueryResponse, type PassportPolicyResult, type PassportDenialReason } from "./query";
-export { startPassportServer, type PassportServer } from "./server";
+export { startPassportServer, type PassportServer, type PassportServerOptions, type PassportServerErrorCode } from "./server";
 export { getPassportReplayContext, narratePassportDenial, narrateCreditDecision, type PassportReplayContext, type CreditReplayContext } from "./replayer";
 export type { TranscriptV4, PassportEvent, PassportScore, PassportEventType } from "./types";
 
@@ -18,7 +18,14 @@ export {
   computeCreditTerms,
   canExtendCredit,
   applyCreditEventFromTranscript,
+  creditLedgerKey,
 } from "./credit/riskEngine";
+export {
+  reconcileCreditLedger,
+  reconcileCreditEvents,
+  type CreditEventRow,
+  type CreditExposureRow,
+} from "./credit/reconcile";
 export {
   mapCreditDenialToFailureEvent,
   shouldTriggerCreditKillSwitch,
@@ -32,6 +39,11 @@ export type {
   CreditExposure,
   PerCounterpartyExposure,
   CreditEventReasonCode,
+  CreditLedgerIssue,
+  CreditLedgerIssueCode,
+  CreditLedgerReconciliation,
+  AgentCreditReconciliation,
+  OpenCreditExtension,
 } from "./credit/types";
 
 // Passport v1 exports
@@ -4,6 +4,8 @@
  * Ingests Pact v4 transcripts and stores passport events.
  */
 
+import { createHash } from "node:crypto";
+import { stableCanonicalize } from "./v1/canonical";
 import type { TranscriptV4, FailureEvent } from "./types";
 import type { PassportStorage } from "./storage";
 
@@ -13,6 +15,16 @@ export type IngestionResult = {
   reason?: string;
 };
 
+/**
+ * Hash of what the round signatures cover: each round's envelope_hash, signer and signature.
+ * transcript_id, intent_id, timestamps and final_hash are unsigned, so a reissued copy of a
+ * signed transcript keeps this hash.
+ */
+export function signedContentHash(transcript: TranscriptV4): string {
+  const signed = transcript.rounds.map((r) => [r.envelope_hash, r.signature.signer_public_key_b58, r.signature.signature_b58]);
+  return `signed-${createHash("sha256").update(stableCanonicalize(signed), "utf8").digest("hex")}`;
+}
+
 /**
  * Extract agent IDs from transcript rounds.
  */
@@ -92,9 +104,10 @@ function extractTimestamp(transcript: TranscriptV4): number {
  * 
  * @param storage Passport storage instance
  * @param transcript Pact v4 transcript
+ * @param idempotencyKey transcript_hash to record events under (default: transcript_id, else final_hash)
  * @returns Ingestion result
  */
-export function ingestTranscriptOutcome(storage: PassportStorage, transcript: TranscriptV4): IngestionResult {
+export function ingestTranscriptOutcome(storage: PassportStorage, transcript: TranscriptV4, idempotencyKey?: string): IngestionResult {
   // Validate transcript version
   if (transcript.transcript_version !== "pact-transcript/4.0") {
     return {
@@ -105,7 +118,7 @@ export function ingestTranscriptOutcome(storage: PassportStorage, transcript: Tr
   }
 
   // Use transcript_hash for idempotency check
-  const transcriptHash = transcript.transcript_id || transcript.final_hash || JSON.stringify(transcript);
+  const transcriptHash = idempotencyKey || transcript.transcript_id || transcript.final_hash || JSON.stringify(transcript);
 
   // Check idempotency (if transcript_hash already exists, skip)
   if (storage.hasTranscriptHash(transcriptHash)) {
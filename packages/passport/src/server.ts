@@ -1,17 +1,47 @@
 /**
  * Passport HTTP Server
- * 
- * Optional HTTP server for querying Passport scores.
+ *
+ * Optional HTTP server for querying Passport scores, checking policy gates and credit terms,
+ * and ingesting transcripts.
+ *
+ * Routes:
+ * - GET  /health                        (never requires an API key)
+ * - GET  /passport/:agent_id            score (?as_of=)
+ * - GET  /passport/:agent_id/events     event history (?limit=&offset=)
+ * - POST /passport/batch                scores for { agent_ids, as_of? }
+ * - POST /passport/policy-check         requirePassport for { agent_id, min_score, min_confidence?, as_of? }
+ * - POST /passport/replay-context       getPassportReplayContext for { transcript, min_score?, min_confidence? }
+ * - GET  /credit/:agent_id/terms        computeCreditTerms from the agent's score (?as_of=)
+ * - POST /ingest                        ingest a transcript, or { transcripts: [...] } (replay-VALID only)
+ *
+ * /ingest mutates scores, so it is off unless API keys are given, and the server refuses to start
+ * with it explicitly enabled and no API keys.
+ * Errors are JSON: { error: <message>, code: <PassportServerErrorCode> }.
  */
 
 import http from "node:http";
+import { createHash, timingSafeEqual } from "node:crypto";
 import type { IncomingMessage, ServerResponse } from "node:http";
-import { queryPassport } from "./query";
+import { queryPassport, requirePassport, clearCache } from "./query";
+import { replayTranscriptV4, type TranscriptV4 as VerifierTranscriptV4 } from "@pact/verifier/replay";
+import { ingestTranscriptOutcome, signedContentHash, type IngestionResult } from "./ingestion";
+import { getPassportReplayContext } from "./replayer";
+import { computeCreditTerms } from "./credit/riskEngine";
 import type { PassportStorage } from "./storage";
+import type { TranscriptV4 } from "./types";
 
 export interface PassportServerOptions {
   port?: number; // 0 for random port
   storage: PassportStorage;
+  /**
+   * API keys accepted via `Authorization: Bearer <key>` or `X-API-Key`.
+   * When empty or omitted, the server is open (local use only) and ingest must be disabled.
+   */
+  apiKeys?: string[];
+  /** Serve POST /ingest (default: true when apiKeys are given, else false). Requires apiKeys. */
+  ingest?: boolean;
+  /** Maximum request body size in bytes (default: 1 MiB). */
+  maxBodyBytes?: number;
 }
 
 export interface PassportServer {
@@ -20,17 +50,299 @@ export interface PassportServer {
   close(): void;
 }
 
+/**
+ * Stable error codes returned in the `code` field of error responses.
+ */
+export type PassportServerErrorCode =
+  | "UNAUTHORIZED"
+  | "NOT_FOUND"
+  | "METHOD_NOT_ALLOWED"
+  | "INVALID_JSON"
+  | "INVALID_REQUEST"
+  | "INVALID_PARAMETER"
+  | "PAYLOAD_TOO_LARGE"
+  | "INTERNAL_ERROR";
+
+const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+const DEFAULT_EVENTS_LIMIT = 50;
+const MAX_EVENTS_LIMIT = 500;
+const MAX_BATCH_AGENTS = 100;
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: PassportServerErrorCode,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(res: ServerResponse, error: HttpError): void {
+  sendJson(res, error.status, { error: error.message, code: error.code });
+}
+
+function sha256(value: string): Buffer {
+  return createHash("sha256").update(value, "utf8").digest();
+}
+
+/**
+ * Constant-time API key check (keys are hashed first so lengths never leak).
+ */
+function isAuthorized(req: IncomingMessage, apiKeys: string[]): boolean {
+  const auth = req.headers.authorization;
+  const header = req.headers["x-api-key"];
+  const presented =
+    auth && auth.startsWith("Bearer ") ? auth.slice("Bearer ".length).trim() : typeof header === "string" ? header : undefined;
+  if (!presented) {
+    return false;
+  }
+  const presentedHash = sha256(presented);
+  return apiKeys.some((key) => timingSafeEqual(sha256(key), presentedHash));
+}
+
+function readJsonBody(req: IncomingMessage, maxBytes: number): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let tooLarge = false;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        tooLarge = true;
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      if (tooLarge) {
+        reject(new HttpError(413, "PAYLOAD_TOO_LARGE", `Request body exceeds ${maxBytes} bytes`));
+        return;
+      }
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString("utf8")));
+      } catch {
+        reject(new HttpError(400, "INVALID_JSON", "Request body must be valid JSON"));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+function requireObject(body: unknown): Record<string, unknown> {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new HttpError(400, "INVALID_REQUEST", "Request body must be a JSON object");
+  }
+  return body as Record<string, unknown>;
+}
+
+function optionalNumber(body: Record<string, unknown>, field: string): number | undefined {
+  const value = body[field];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new HttpError(400, "INVALID_PARAMETER", `${field} must be a number`);
+  }
+  return value;
+}
+
+function requiredString(body: Record<string, unknown>, field: string): string {
+  const value = body[field];
+  if (typeof value !== "string" || value.length === 0) {
+    throw new HttpError(400, "INVALID_PARAMETER", `${field} must be a non-empty string`);
+  }
+  return value;
+}
+
+function decodePathParam(raw: string): string {
+  try {
+    return decodeURIComponent(raw);
+  } catch {
+    throw new HttpError(400, "INVALID_PARAMETER", `Invalid percent-encoding in path: ${raw}`);
+  }
+}
+
+function parseAsOf(url: URL): number | undefined {
+  const asOfParam = url.searchParams.get("as_of");
+  if (asOfParam === null) {
+    return undefined;
+  }
+  const asOf = Number(asOfParam);
+  if (!Number.isInteger(asOf)) {
+    throw new HttpError(400, "INVALID_PARAMETER", "Invalid as_of parameter (must be timestamp)");
+  }
+  return asOf;
+}
+
+function parseIntParam(url: URL, name: string, defaultValue: number, min: number, max: number): number {
+  const raw = url.searchParams.get(name);
+  if (raw === null) {
+    return defaultValue;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new HttpError(400, "INVALID_PARAMETER", `Invalid ${name} parameter (must be an integer in [${min}, ${max}])`);
+  }
+  return value;
+}
+
+/**
+ * Ingest one transcript that replays VALID, then drop cached scores of every agent it names.
+ * Events are keyed on signedContentHash, so a reissued copy of an ingested transcript is a duplicate.
+ */
+async function ingestOne(storage: PassportStorage, transcript: unknown): Promise<IngestionResult & { transcript_id: string | null }> {
+  if (typeof transcript !== "object" || transcript === null || !Array.isArray((transcript as TranscriptV4).rounds)) {
+    return { transcript_id: null, ingested: false, event_type: null, reason: "Transcript must be an object with rounds" };
+  }
+  const t = transcript as TranscriptV4;
+  const transcriptId = typeof t.transcript_id === "string" ? t.transcript_id : null;
+  try {
+    const replay = await replayTranscriptV4(t as unknown as VerifierTranscriptV4);
+    if (replay.integrity_status !== "VALID") {
+      return {
+        transcript_id: transcriptId,
+        ingested: false,
+        event_type: null,
+        reason: `Transcript failed replay (${replay.integrity_status}): ${replay.errors.map((e) => e.message).join("; ")}`,
+      };
+    }
+    const result = ingestTranscriptOutcome(storage, t, signedContentHash(t));
+    if (result.ingested) {
+      for (const agentId of new Set(t.rounds.map((r) => r.agent_id))) {
+        clearCache(agentId);
+      }
+    }
+    return { transcript_id: transcriptId, ...result };
+  } catch (error: unknown) {
+    return {
+      transcript_id: transcriptId,
+      ingested: false,
+      event_type: null,
+      reason: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
 /**
  * Start Passport HTTP server.
  */
 export function startPassportServer(opts: PassportServerOptions): Promise<PassportServer> {
-  const { port = 0, storage } = opts;
+  const { port = 0, storage, apiKeys = [], maxBodyBytes = DEFAULT_MAX_BODY_BYTES } = opts;
+  const ingest = opts.ingest ?? apiKeys.length > 0;
+  if (ingest && apiKeys.length === 0) {
+    return Promise.reject(new Error("POST /ingest requires apiKeys; omit ingest to serve read-only routes without keys"));
+  }
+
+  async function route(req: IncomingMessage, url: URL): Promise<unknown> {
+    const path = url.pathname;
+    const method = req.method;
+
+    // GET /passport/:agent_id/events
+    const eventsMatch = path.match(/^\/passport\/([^/]+)\/events$/);
+    if (eventsMatch) {
+      if (method !== "GET") throw new HttpError(405, "METHOD_NOT_ALLOWED", `${method} not allowed on ${path}`);
+      const agentId = decodePathParam(eventsMatch[1]);
+      const limit = parseIntParam(url, "limit", DEFAULT_EVENTS_LIMIT, 1, MAX_EVENTS_LIMIT);
+      const offset = parseIntParam(url, "offset", 0, 0, Number.MAX_SAFE_INTEGER);
+      const events = storage.getEventsByAgent(agentId);
+      const page = events.slice(offset, offset + limit);
+      return {
+        agent_id: agentId,
+        total: events.length,
+        offset,
+        limit,
+        next_offset: offset + page.length < events.length ? offset + page.length : null,
+        events: page,
+      };
+    }
+
+    // POST /passport/batch
+    if (path === "/passport/batch") {
+      if (method !== "POST") throw new HttpError(405, "METHOD_NOT_ALLOWED", `${method} not allowed on ${path}`);
+      const body = requireObject(await readJsonBody(req, maxBodyBytes));
+      const agentIds = body.agent_ids;
+      if (!Array.isArray(agentIds) || agentIds.length === 0 || !agentIds.every((id) => typeof id === "string" && id.length > 0)) {
+        throw new HttpError(400, "INVALID_PARAMETER", "agent_ids must be a non-empty array of strings");
+      }
+      if (agentIds.length > MAX_BATCH_AGENTS) {
+        throw new HttpError(400, "INVALID_PARAMETER", `agent_ids is limited to ${MAX_BATCH_AGENTS} per request`);
+      }
+      const asOf = optionalNumber(body, "as_of");
+      return { results: (agentIds as string[]).map((agentId) => queryPassport(storage, agentId, asOf)) };
+    }
+
+    // POST /passport/policy-check
+    if (path === "/passport/policy-check") {
+      if (method !== "POST") throw new HttpError(405, "METHOD_NOT_ALLOWED", `${method} not allowed on ${path}`);
+      const body = requireObject(await readJsonBody(req, maxBodyBytes));
+      const agentId = requiredString(body, "agent_id");
+      const minScore = optionalNumber(body, "min_score");
+      if (minScore === undefined) {
+        throw new HttpError(400, "INVALID_PARAMETER", "min_score must be a number");
+      }
+      const result = requirePassport(storage, agentId, minScore, optionalNumber(body, "min_confidence"), optionalNumber(body, "as_of"));
+      return { agent_id: agentId, ...result };
+    }
+
+    // POST /passport/replay-context
+    if (path === "/passport/replay-context") {
+      if (method !== "POST") throw new HttpError(405, "METHOD_NOT_ALLOWED", `${method} not allowed on ${path}`);
+      const body = requireObject(await readJsonBody(req, maxBodyBytes));
+      const transcript = body.transcript as TranscriptV4 | undefined;
+      if (typeof transcript !== "object" || transcript === null || !Array.isArray(transcript.rounds)) {
+        throw new HttpError(400, "INVALID_PARAMETER", "transcript must be an object with rounds");
+      }
+      return getPassportReplayContext(storage, transcript, optionalNumber(body, "min_score"), optionalNumber(body, "min_confidence"));
+    }
+
+    // GET /passport/:agent_id
+    const passportMatch = path.match(/^\/passport\/([^/]+)$/);
+    if (passportMatch) {
+      if (method !== "GET") throw new HttpError(405, "METHOD_NOT_ALLOWED", `${method} not allowed on ${path}`);
+      return queryPassport(storage, decodePathParam(passportMatch[1]), parseAsOf(url));
+    }
+
+    // GET /credit/:agent_id/terms
+    const creditMatch = path.match(/^\/credit\/([^/]+)\/terms$/);
+    if (creditMatch) {
+      if (method !== "GET") throw new HttpError(405, "METHOD_NOT_ALLOWED", `${method} not allowed on ${path}`);
+      const agentId = decodePathParam(creditMatch[1]);
+      const asOf = parseAsOf(url);
+      const passport = queryPassport(storage, agentId, asOf);
+      return {
+        agent_id: agentId,
+        passport_score: passport.score,
+        passport_confidence: passport.confidence,
+        terms: computeCreditTerms(agentId, storage, passport.score, passport.confidence, asOf ?? Date.now()),
+      };
+    }
+
+    // POST /ingest
+    if (path === "/ingest" && ingest) {
+      if (method !== "POST") throw new HttpError(405, "METHOD_NOT_ALLOWED", `${method} not allowed on ${path}`);
+      const body = requireObject(await readJsonBody(req, maxBodyBytes));
+      const transcripts = Array.isArray(body.transcripts) ? body.transcripts : [body];
+      const results: Awaited<ReturnType<typeof ingestOne>>[] = [];
+      for (const t of transcripts) {
+        results.push(await ingestOne(storage, t));
+      }
+      return { ingested: results.filter((r) => r.ingested).length, results };
+    }
+
+    throw new HttpError(404, "NOT_FOUND", "Not found");
+  }
 
   const server = http.createServer(async (req: IncomingMessage, res: ServerResponse) => {
     // CORS headers
     res.setHeader("Access-Control-Allow-Origin", "*");
-    res.setHeader("Access-Control-Allow-Methods", "GET, OPTIONS");
-    res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+    res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization, X-API-Key");
 
     if (req.method === "OPTIONS") {
       res.writeHead(200);
@@ -38,45 +350,29 @@ export function startPassportServer(opts: PassportServerOptions): Promise<Passpo
       return;
     }
 
+    const url = new URL(req.url || "/", `http://${req.headers.host || "localhost"}`);
+
     // Health check
-    if (req.method === "GET" && req.url === "/health") {
-      res.writeHead(200, { "Content-Type": "application/json" });
-      res.end(JSON.stringify({ ok: true, service: "passport" }));
+    if (req.method === "GET" && url.pathname === "/health") {
+      sendJson(res, 200, { ok: true, service: "passport" });
       return;
     }
 
-    // GET /passport/:agent_id
-    const match = req.url?.match(/^\/passport\/([^/]+)$/);
-    if (req.method === "GET" && match && req.url) {
-      const agentId = match[1];
-      const host = req.headers.host || "localhost";
-      const url = new URL(req.url, `http://${host}`);
-
-      // Parse optional as_of query parameter
-      const asOfParam = url.searchParams.get("as_of");
-      const asOf = asOfParam ? parseInt(asOfParam, 10) : undefined;
-
-      if (isNaN(asOf || 0) && asOfParam) {
-        res.writeHead(400, { "Content-Type": "application/json" });
-        res.end(JSON.stringify({ error: "Invalid as_of parameter (must be timestamp)" }));
-        return;
-      }
+    if (apiKeys.length > 0 && !isAuthorized(req, apiKeys)) {
+      sendError(res, new HttpError(401, "UNAUTHORIZED", "Missing or invalid API key"));
+      return;
+    }
 
-      try {
-        const result = queryPassport(storage, agentId, asOf);
-        res.writeHead(200, { "Content-Type": "application/json" });
-        res.end(JSON.stringify(result));
-      } catch (error: unknown) {
-        res.writeHead(500, { "Content-Type": "application/json" });
+    try {
+      sendJson(res, 200, await route(req, url));
+    } catch (error: unknown) {
+      if (error instanceof HttpError) {
+        sendError(res, error);
+      } else {
         const msg = error instanceof Error ? error.message : "Internal server error";
-        res.end(JSON.stringify({ error: msg }));
+        sendError(res, new HttpError(500, "INTERNAL_ERROR", msg));
       }
-      return;
     }
-
-    // 404 for unknown routes
-    res.writeHead(404, { "Content-Type": "application/json" });
-    res.end(JSON.stringify({ error: "Not found" }));
   });
 
   return new Promise<PassportServer>((resolve) => {
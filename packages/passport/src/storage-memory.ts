@@ -163,7 +163,7 @@ export class MemoryPassportStorage {
   }
 
   /**
-   * Insert credit event (idempotent on transcript_hash + agent_id).
+   * Insert credit event (idempotent on transcript_hash + agent_id + reason_code).
    */
   insertCreditEvent(event: {
     agent_id: string;
@@ -175,7 +175,10 @@ export class MemoryPassportStorage {
   }): boolean {
     // Check if already exists (idempotency)
     const exists = this.creditEvents.some(
-      e => e.transcript_hash === event.transcript_hash && e.agent_id === event.agent_id
+      e =>
+        e.transcript_hash === event.transcript_hash &&
+        e.agent_id === event.agent_id &&
+        e.reason_code === event.reason_code
     );
     if (exists) {
       return false; // Already exists
@@ -209,16 +212,27 @@ export class MemoryPassportStorage {
   /**
    * Check if credit event exists for transcript_hash (idempotency check).
    */
-  hasCreditEvent(transcriptHash: string, agentId?: string): boolean {
+  hasCreditEvent(transcriptHash: string, agentId?: string, reasonCode?: string): boolean {
     if (agentId) {
       return this.creditEvents.some(
-        e => e.transcript_hash === transcriptHash && e.agent_id === agentId
+        e =>
+          e.transcript_hash === transcriptHash &&
+          e.agent_id === agentId &&
+          (reasonCode === undefined || e.reason_code === reasonCode)
       );
     } else {
       return this.creditEvents.some(e => e.transcript_hash === transcriptHash);
     }
   }
 
+  /**
+   * Get agent IDs with credit events or a credit exposure record (for reconciliation).
+   */
+  getCreditAgentIds(): string[] {
+    const ids = new Set([...this.creditEvents.map(e => e.agent_id), ...this.creditExposure.keys()]);
+    return [...ids].sort();
+  }
+
   /**
    * Get recent failure events for kill switch checks.
    */
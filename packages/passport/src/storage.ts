@@ -8,6 +8,24 @@
 import type { PassportEvent, PassportScore } from "./types";
 import { MemoryPassportStorage } from "./storage-memory";
 
+/**
+ * credit_events schema. An extension and its later release share a transcript_hash,
+ * so idempotency is per (transcript_hash, agent_id, reason_code).
+ */
+const CREDIT_EVENTS_TABLE_SQL = `
+      CREATE TABLE IF NOT EXISTS credit_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        agent_id TEXT NOT NULL,
+        ts INTEGER NOT NULL,
+        transcript_hash TEXT NOT NULL,
+        delta_usd REAL NOT NULL,
+        counterparty_agent_id TEXT,
+        reason_code TEXT NOT NULL,
+        FOREIGN KEY (agent_id) REFERENCES agents(agent_id),
+        UNIQUE(transcript_hash, agent_id, reason_code)
+      )
+    `;
+
 export class PassportStorage {
   /* eslint-disable @typescript-eslint/no-explicit-any */
   private db: any | null = null;
@@ -131,19 +149,23 @@ export class PassportStorage {
     `);
 
     // Credit events table
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS credit_events (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        agent_id TEXT NOT NULL,
-        ts INTEGER NOT NULL,
-        transcript_hash TEXT NOT NULL,
-        delta_usd REAL NOT NULL,
-        counterparty_agent_id TEXT,
-        reason_code TEXT NOT NULL,
-        FOREIGN KEY (agent_id) REFERENCES agents(agent_id),
-        UNIQUE(transcript_hash, agent_id)
-      )
-    `);
+    this.db.exec(CREDIT_EVENTS_TABLE_SQL);
+
+    // Migrate credit_events created with UNIQUE(transcript_hash, agent_id), which dropped releases
+    const creditEvents = this.db
+      .prepare(`SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'credit_events'`)
+      .get() as { sql: string } | undefined;
+    if (creditEvents && !creditEvents.sql.includes("UNIQUE(transcript_hash, agent_id, reason_code)")) {
+      this.db.exec(`
+        BEGIN;
+        ALTER TABLE credit_events RENAME TO credit_events_v0;
+        ${CREDIT_EVENTS_TABLE_SQL};
+        INSERT INTO credit_events (id, agent_id, ts, transcript_hash, delta_usd, counterparty_agent_id, reason_code)
+          SELECT id, agent_id, ts, transcript_hash, delta_usd, counterparty_agent_id, reason_code FROM credit_events_v0;
+        DROP TABLE credit_events_v0;
+        COMMIT;
+      `);
+    }
 
     // Create indexes for credit events
     this.db.exec(`
@@ -424,7 +446,7 @@ export class PassportStorage {
   }
 
   /**
-   * Insert credit event (idempotent on transcript_hash + agent_id).
+   * Insert credit event (idempotent on transcript_hash + agent_id + reason_code).
    */
   insertCreditEvent(event: {
     agent_id: string;
@@ -451,7 +473,7 @@ export class PassportStorage {
         agent_id, ts, transcript_hash, delta_usd, counterparty_agent_id, reason_code
       )
       VALUES (?, ?, ?, ?, ?, ?)
-      ON CONFLICT(transcript_hash, agent_id) DO NOTHING
+      ON CONFLICT(transcript_hash, agent_id, reason_code) DO NOTHING
     `);
 
     const result = stmt.run(
@@ -499,13 +521,20 @@ export class PassportStorage {
 
   /**
    * Check if credit event exists for transcript_hash (idempotency check).
+   * With reasonCode, only an event of that reason counts (an extension does not block its release).
    */
-  hasCreditEvent(transcriptHash: string, agentId?: string): boolean {
+  hasCreditEvent(transcriptHash: string, agentId?: string, reasonCode?: string): boolean {
     if (this.useMemory && this.memoryStorage) {
-      return this.memoryStorage.hasCreditEvent(transcriptHash, agentId);
+      return this.memoryStorage.hasCreditEvent(transcriptHash, agentId, reasonCode);
     }
     if (!this.db) throw new Error("Database not initialized");
-    if (agentId) {
+    if (agentId && reasonCode) {
+      const stmt = this.db.prepare(`
+        SELECT 1 FROM credit_events WHERE transcript_hash = ? AND agent_id = ? AND reason_code = ? LIMIT 1
+      `);
+      const result = stmt.get(transcriptHash, agentId, reasonCode);
+      return result !== undefined;
+    } else if (agentId) {
       const stmt = this.db.prepare(`
         SELECT 1 FROM credit_events WHERE transcript_hash = ? AND agent_id = ? LIMIT 1
       `);
@@ -520,6 +549,23 @@ export class PassportStorage {
     }
   }
 
+  /**
+   * Get agent IDs with credit events or a credit exposure record (for reconciliation).
+   */
+  getCreditAgentIds(): string[] {
+    if (this.useMemory && this.memoryStorage) {
+      return this.memoryStorage.getCreditAgentIds();
+    }
+    if (!this.db) throw new Error("Database not initialized");
+    const stmt = this.db.prepare(`
+      SELECT agent_id FROM credit_events
+      UNION
+      SELECT agent_id FROM credit_exposure
+      ORDER BY agent_id ASC
+    `);
+    return (stmt.all() as Array<{ agent_id: string }>).map((r) => r.agent_id);
+  }
+
   /**
    * Get recent failure events for kill switch checks.
    */
@@ -598,6 +644,13 @@ export class PassportStorage {
     }>;
   }
 
+  /**
+   * True when backed by SQLite; false when better-sqlite3 is unavailable and data lives in memory only.
+   */
+  isPersistent(): boolean {
+    return !this.useMemory;
+  }
+
   /**
    * Close database connection.
    */
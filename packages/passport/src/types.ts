@@ -17,11 +17,24 @@ export type TranscriptV4 = {
   failure_event?: FailureEvent;
   final_hash?: string;
   metadata?: Record<string, unknown>;
+  /** "field-commitments/1": round and final hashes are field commitments (see integrity.ts). */
+  hash_scheme?: "field-commitments/1";
+  field_salts?: Record<string, unknown>;
 };
 
 export type TranscriptRound = {
   round_number: number;
-  round_type: "INTENT" | "ASK" | "BID" | "COUNTER" | "ACCEPT" | "REJECT" | "ABORT";
+  round_type:
+    | "INTENT"
+    | "ASK"
+    | "BID"
+    | "COUNTER"
+    | "ACCEPT"
+    | "REJECT"
+    | "ABORT"
+    | "SETTLEMENT_ATTEMPT"
+    | "SETTLEMENT_CONFIRMED"
+    | "REFUND";
   message_hash: string;
   envelope_hash: string;
   signature: {
@@ -6,7 +6,7 @@ import { describe, it, expect } from "vitest";
 import { readFileSync } from "node:fs";
 import { join } from "node:path";
 import type { TranscriptV4 } from "../../../sdk/src/transcript/v4/replay";
-import { getTranscriptSigners, getRoundSignerKey } from "../identity";
+import { getTranscriptSigners, getRoundSignerKey, getRoleBoundSigner } from "../identity";
 import { recomputeFromTranscripts } from "../recompute";
 import { computePassportDelta } from "../compute";
 import { applyDelta } from "../apply";
@@ -57,6 +57,26 @@ describe("Passport v1", () => {
       const signerKey = getRoundSignerKey(roundWithoutSig);
       expect(signerKey).toBe("21wxunPRWgrzXqK48yeE1aEZtfpFU2AwY8odDiGgBT4J");
     });
+    
+    it("getRoleBoundSigner resolves INTENT role_bindings and ignores unknown roles", () => {
+      const transcript = loadFixture("success/SUCCESS-001-simple.json");
+      const buyer = "21wxunPRWgrzXqK48yeE1aEZtfpFU2AwY8odDiGgBT4J";
+      const seller = "HBUkwmmQVFX3mGF6ris1mWDATY27nAupX6wQNXgJD9j9";
+      const rounds = transcript.rounds.map((r, i) =>
+        i === 0
+          ? { ...r, content_summary: { ...r.content_summary, role_bindings: { [seller]: "PROVIDER", [buyer]: "ADMIN" } } }
+          : r
+      );
+      const bound = { ...transcript, rounds } as unknown as TranscriptV4;
+      
+      expect(getRoleBoundSigner(bound, "PROVIDER")).toBe(seller);
+      expect(getRoleBoundSigner(bound, "BUYER")).toBeNull();
+    });
+    
+    it("getRoleBoundSigner rejects roles outside BUYER/PROVIDER", () => {
+      const transcript = loadFixture("success/SUCCESS-001-simple.json");
+      expect(() => getRoleBoundSigner(transcript, "ADMIN" as "BUYER")).toThrow(/Unknown party role/);
+    });
   });
   
   describe("recomputeFromTranscripts", () => {
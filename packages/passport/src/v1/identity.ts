@@ -50,3 +50,81 @@ export function getTranscriptSigners(transcript: TranscriptV4): string[] {
   // Return in stable lexicographic order
   return Array.from(signerSet).sort();
 }
+
+export type ActorRole = "BUYER" | "PROVIDER";
+
+/** Map of signer pubkey (base58) to role, declared in the INTENT round. */
+export type RoleBindings = Record<string, ActorRole>;
+
+export function isActorRole(value: unknown): value is ActorRole {
+  return value === "BUYER" || value === "PROVIDER";
+}
+
+/**
+ * Read role bindings from the first INTENT round. Entries with unknown roles are ignored.
+ * Same resolution rules as the verifier's util/actor_roles.ts.
+ * 
+ * @param transcript TranscriptV4
+ * @returns Role bindings, or null when absent
+ */
+export function getRoleBindings(transcript: TranscriptV4): RoleBindings | null {
+  const intentRound = transcript.rounds.find((r) => r.round_type === "INTENT");
+  const raw: unknown = intentRound?.content_summary?.role_bindings;
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return null;
+  }
+  const bindings: RoleBindings = {};
+  for (const [pubkey, role] of Object.entries(raw as Record<string, unknown>)) {
+    if (isActorRole(role)) {
+      bindings[pubkey] = role;
+    }
+  }
+  return Object.keys(bindings).length > 0 ? bindings : null;
+}
+
+/**
+ * Role of a round from explicit sources only (actor_role declared in the signed envelope body, then role binding).
+ * round.actor_role is an unsigned copy and only counts when it matches the envelope.
+ * Null when absent, unknown, or when the sources disagree.
+ * 
+ * @param round Transcript round
+ * @param bindings Role bindings from getRoleBindings
+ * @returns Actor role, or null
+ */
+export function explicitActorRole(round: TranscriptRound, bindings: RoleBindings | null): ActorRole | null {
+  const signed = round.envelope?.actor_role;
+  if (isActorRole(signed) && round.actor_role !== undefined && round.actor_role !== signed) {
+    return null;
+  }
+  const declared = isActorRole(signed) ? signed : null;
+  const signerKey = getRoundSignerKey(round);
+  const bound = bindings && signerKey ? bindings[signerKey] ?? null : null;
+  if (declared && bound && declared !== bound) {
+    return null;
+  }
+  return declared ?? bound;
+}
+
+/**
+ * Get the signer key explicitly bound to a role, if any.
+ * The first round whose explicitActorRole matches wins.
+ * 
+ * @param transcript TranscriptV4
+ * @param role Party role ("BUYER" or "PROVIDER")
+ * @returns Signer public key in base58, or null if no explicit binding exists
+ * @throws Error if role is not a known party role
+ */
+export function getRoleBoundSigner(transcript: TranscriptV4, role: ActorRole): string | null {
+  if (!isActorRole(role)) {
+    throw new Error(`Unknown party role: ${String(role)}`);
+  }
+  const bindings = getRoleBindings(transcript);
+  
+  for (const round of transcript.rounds) {
+    if (explicitActorRole(round, bindings) === role) {
+      return getRoundSignerKey(round);
+    }
+  }
+  
+  return null;
+}
@@ -5,7 +5,7 @@
  */
 
 import type { TranscriptV4, TranscriptSummary } from "./types";
-import { getRoundSignerKey } from "./identity";
+import { getRoundSignerKey, getRoleBoundSigner } from "./identity";
 
 /**
  * Extract transcript summary from a TranscriptV4.
@@ -14,9 +14,10 @@ import { getRoundSignerKey } from "./identity";
  * @returns Transcript summary
  */
 export function extractTranscriptSummary(transcript: TranscriptV4): TranscriptSummary {
-  // Extract buyer and seller IDs (using signer keys, not agent_id)
+  // Extract buyer and seller IDs (using signer keys, not agent_id).
+  // Explicit role bindings win over protocol position.
   const intentRound = transcript.rounds.find((r) => r.round_type === "INTENT");
-  const buyerKey = intentRound ? getRoundSignerKey(intentRound) : null;
+  const buyerKey = getRoleBoundSigner(transcript, "BUYER") ?? (intentRound ? getRoundSignerKey(intentRound) : null);
   
   // Find seller (first ASK, COUNTER, or ACCEPT from a different agent)
   const sellerRound = transcript.rounds.find(
@@ -26,7 +27,7 @@ export function extractTranscriptSummary(transcript: TranscriptV4): TranscriptSu
              (r.round_type === "ASK" || r.round_type === "COUNTER" || r.round_type === "ACCEPT");
     }
   );
-  const sellerKey = sellerRound ? getRoundSignerKey(sellerRound) : null;
+  const sellerKey = getRoleBoundSigner(transcript, "PROVIDER") ?? (sellerRound ? getRoundSignerKey(sellerRound) : null);
   
   // Determine outcome
   let outcome: "success" | "abort" | "timeout" | "dispute" | "failure";
@@ -33,7 +33,17 @@ export type TranscriptV4 = {
 
 export type TranscriptRound = {
   round_number: number;
-  round_type: "INTENT" | "ASK" | "BID" | "COUNTER" | "ACCEPT" | "REJECT" | "ABORT";
+  round_type:
+    | "INTENT"
+    | "ASK"
+    | "BID"
+    | "COUNTER"
+    | "ACCEPT"
+    | "REJECT"
+    | "ABORT"
+    | "SETTLEMENT_ATTEMPT"
+    | "SETTLEMENT_CONFIRMED"
+    | "REFUND";
   message_hash: string;
   envelope_hash: string;
   signature: Signature;
@@ -42,10 +52,15 @@ export type TranscriptRound = {
   round_hash?: string;
   agent_id: string;
   public_key_b58: string;
+  /** Copy of the party role declared in the signed envelope (envelope.actor_role); not trusted on its own. */
+  actor_role?: "BUYER" | "PROVIDER";
+  /** Optional inline signed envelope body; canonical SHA-256 equals envelope_hash. */
+  envelope?: Record<string, unknown>;
   content_summary?: Record<string, unknown> & {
     contention_key?: string;
     contention_scope?: "EXCLUSIVE" | "NON_EXCLUSIVE";
     contention_window_ms?: number;
+    role_bindings?: Record<string, "BUYER" | "PROVIDER">;
   };
 };
 
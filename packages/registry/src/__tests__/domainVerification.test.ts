@@ -0,0 +1,119 @@
+/**
+ * Unit tests: domain token -> published proof (.well-known or DNS TXT) -> verified payload with proof fingerprint.
+ */
+
+import { describe, it, expect } from "vitest";
+import { createHash } from "node:crypto";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  createDomainChallenge,
+  createHttpDomainResolver,
+  verifyDomainControl,
+  type DomainProofResolver,
+} from "../domainVerification.js";
+
+const SUBJECT = "J16RoSSAux4rQsUjnynHcNjx6tAo2v6T2efvwNdZeREN";
+const OTHER_SUBJECT = "DCi6DFQteG5nfh8bTsZpcuEtqPVBSDqBDaZL2PKqbmoS";
+
+function sha256(raw: string): string {
+  return "sha256:" + createHash("sha256").update(raw, "utf8").digest("hex");
+}
+
+/** Local stand-in for the web and DNS. */
+function stubResolver(wellKnown: Record<string, string>, txt: Record<string, string[][]> = {}): DomainProofResolver {
+  return {
+    fetchWellKnown: async (domain) => wellKnown[domain] ?? null,
+    resolveTxt: async (name) => txt[name] ?? [],
+  };
+}
+
+describe("Domain control verification", () => {
+  const challenge = createDomainChallenge("example.com", SUBJECT, 1000);
+
+  it("issues a token with publication instructions", () => {
+    expect(challenge.token).toMatch(/^pact-domain-[0-9a-f]{48}$/);
+    expect(challenge.well_known_url).toBe("https://example.com/.well-known/pact-anchor.json");
+    expect(challenge.well_known_body).toEqual({
+      version: "pact-anchor-domain/1",
+      token: challenge.token,
+      subject_signer_public_key_b58: SUBJECT,
+    });
+    expect(challenge.dns_txt_name).toBe("_pact-anchor.example.com");
+    expect(challenge.dns_txt_value).toBe(`pact-anchor-token=${challenge.token} subject=${SUBJECT}`);
+    expect(challenge.expires_at_ms).toBe(1000 + 24 * 60 * 60 * 1000);
+  });
+
+  it("verifies a .well-known proof and fingerprints the fetched document", async () => {
+    const doc = JSON.stringify([{ token: "old", subject_signer_public_key_b58: OTHER_SUBJECT }, challenge.well_known_body]);
+    const req = { domain: "example.com", method: "well_known" as const, token: challenge.token, subject_signer_public_key_b58: SUBJECT };
+    const result = await verifyDomainControl(req, stubResolver({ "example.com": doc }), 5000);
+    expect(result).toEqual({
+      ok: true,
+      payload: {
+        domain: "example.com",
+        method: "well_known",
+        proof_location: "https://example.com/.well-known/pact-anchor.json",
+        proof_fingerprint: sha256(doc),
+        verified_at_ms: 5000,
+      },
+    });
+
+    // Token published for another subject key, nothing published, not JSON
+    const otherKey = await verifyDomainControl({ ...req, subject_signer_public_key_b58: OTHER_SUBJECT }, stubResolver({ "example.com": doc }));
+    expect(otherKey).toEqual({ ok: false, error: "https://example.com/.well-known/pact-anchor.json does not publish this token for the subject key" });
+    expect((await verifyDomainControl(req, stubResolver({}))).ok).toBe(false);
+    expect(await verifyDomainControl(req, stubResolver({ "example.com": "<html>" }))).toEqual({
+      ok: false,
+      error: "https://example.com/.well-known/pact-anchor.json is not valid JSON",
+    });
+  });
+
+  it("verifies a DNS TXT proof (chunked record) and rejects a wrong token", async () => {
+    const value = challenge.dns_txt_value;
+    const txt = { "_pact-anchor.example.com": [["v=spf1 -all"], [value.slice(0, 40), value.slice(40)]] };
+    const req = { domain: "example.com", method: "dns_txt" as const, token: challenge.token, subject_signer_public_key_b58: SUBJECT };
+    const result = await verifyDomainControl(req, stubResolver({}, txt), 5000);
+    expect(result.ok && result.payload).toEqual({
+      domain: "example.com",
+      method: "dns_txt",
+      proof_location: "_pact-anchor.example.com",
+      proof_fingerprint: sha256(value),
+      verified_at_ms: 5000,
+    });
+    const wrong = await verifyDomainControl({ ...req, token: "pact-domain-other" }, stubResolver({}, txt));
+    expect(wrong).toEqual({ ok: false, error: "No TXT record on _pact-anchor.example.com publishes this token for the subject key" });
+
+    const failing: DomainProofResolver = {
+      fetchWellKnown: async () => null,
+      resolveTxt: async () => {
+        throw new Error("SERVFAIL");
+      },
+    };
+    expect(await verifyDomainControl(req, failing)).toEqual({ ok: false, error: "Could not resolve TXT _pact-anchor.example.com: SERVFAIL" });
+  });
+
+  it("HTTP resolver fetches the well-known document from a local stand-in", async () => {
+    const body = JSON.stringify(challenge.well_known_body);
+    const server = createServer((req, res) => {
+      if (req.url === "/.well-known/pact-anchor.json") {
+        res.writeHead(200, { "Content-Type": "application/json" }).end(body);
+      } else {
+        res.writeHead(404).end();
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    try {
+      const { port } = server.address() as AddressInfo;
+      const resolver = createHttpDomainResolver({ wellKnownBaseUrl: `http://127.0.0.1:${port}/`, timeoutMs: 2000 });
+      expect(await resolver.fetchWellKnown("example.com")).toBe(body);
+      const result = await verifyDomainControl(
+        { domain: "example.com", method: "well_known", token: challenge.token, subject_signer_public_key_b58: SUBJECT },
+        resolver
+      );
+      expect(result.ok && result.payload.proof_fingerprint).toBe(sha256(body));
+    } finally {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  });
+});
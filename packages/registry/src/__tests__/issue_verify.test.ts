@@ -89,6 +89,16 @@ describe("Anchor attestation issue and verify", () => {
     expect(result.expired).toBe(true);
   });
 
+  it("attestation without optional fields still verifies after a JSON round trip", () => {
+    const att = issue(
+      { subject_signer_public_key_b58: "subject-key-b58", anchor_type: "kyb_verified", payload: {} },
+      issuer.publicKeyB58,
+      issuer.secretKeyB58
+    );
+    const stored = JSON.parse(JSON.stringify(att));
+    expect(verifyAttestationOffline(stored, trustedIssuers).ok).toBe(true);
+  });
+
   it("verifyAnchorId rejects tampered anchor_id", () => {
     const att = issue(
       {
@@ -216,3 +226,67 @@ describe("platform_verified (Stripe) issuance", () => {
     expect(att.evidence_refs).toEqual(["oidc:id_token:demo:buyer"]);
   });
 });
+
+describe("trusted issuer constraints", () => {
+  const issuer = generateKeypair();
+
+  function issueAt(anchorType: string, payload: Record<string, unknown>, issuedAtMs = 5000) {
+    return issue(
+      { subject_signer_public_key_b58: "subject-key-b58", anchor_type: anchorType, payload },
+      issuer.publicKeyB58,
+      issuer.secretKeyB58,
+      issuedAtMs
+    );
+  }
+
+  it("enforces anchor-type scopes", () => {
+    const svcOnly: TrustedIssuer[] = [
+      { issuer_public_key_b58: issuer.publicKeyB58, name: "Cloud Attestor", scopes: ["service_account_verified"] },
+    ];
+    expect(verifyAttestationOffline(issueAt("kyb_verified", {}), svcOnly)).toEqual({
+      ok: false,
+      reason: "ISSUER_SCOPE_DENIED",
+      issuerTrusted: false,
+      error: 'Issuer "Cloud Attestor" is not trusted for kyb_verified',
+    });
+    expect(verifyAttestationOffline(issueAt("service_account_verified", {}), svcOnly)).toEqual({
+      ok: true,
+      issuerTrusted: true,
+      issuerName: "Cloud Attestor",
+    });
+    // A second entry for the same key can widen trust
+    const widened = [...svcOnly, { issuer_public_key_b58: issuer.publicKeyB58, name: "KYB Desk", scopes: ["kyb_verified"] }];
+    expect(verifyAttestationOffline(issueAt("kyb_verified", {}), widened).issuerName).toBe("KYB Desk");
+  });
+
+  it("enforces validity windows against issued_at_ms", () => {
+    const windowed: TrustedIssuer[] = [
+      { issuer_public_key_b58: issuer.publicKeyB58, name: "Registry 2025", valid_from_ms: 1000, valid_until_ms: 9000 },
+    ];
+    expect(verifyAttestationOffline(issueAt("kyb_verified", {}, 5000), windowed).ok).toBe(true);
+    expect(verifyAttestationOffline(issueAt("kyb_verified", {}, 500), windowed).reason).toBe("ISSUER_NOT_YET_VALID");
+    expect(verifyAttestationOffline(issueAt("kyb_verified", {}, 9001), windowed).reason).toBe("ISSUER_VALIDITY_ENDED");
+  });
+
+  it("enforces subject-domain constraints", () => {
+    const acmeOnly: TrustedIssuer[] = [
+      { issuer_public_key_b58: issuer.publicKeyB58, name: "Acme IdP", subject_domains: ["acme.com"] },
+    ];
+    expect(verifyAttestationOffline(issueAt("domain_verified", { domain: "api.acme.com" }), acmeOnly).ok).toBe(true);
+    expect(verifyAttestationOffline(issueAt("oidc_verified", { email: "buyer@ACME.com" }), acmeOnly).ok).toBe(true);
+    expect(verifyAttestationOffline(issueAt("domain_verified", { domain: "notacme.com" }), acmeOnly)).toMatchObject({
+      ok: false,
+      reason: "SUBJECT_DOMAIN_DENIED",
+      error: 'Issuer "Acme IdP" is not trusted for domain notacme.com',
+    });
+    expect(verifyAttestationOffline(issueAt("kyb_verified", {}), acmeOnly).reason).toBe("SUBJECT_DOMAIN_MISSING");
+  });
+
+  it("reports reasons for structural rejections", () => {
+    const trusted: TrustedIssuer[] = [{ issuer_public_key_b58: issuer.publicKeyB58, name: "Registry" }];
+    const att = issueAt("kyb_verified", {});
+    expect(verifyAttestationOffline({ ...att, payload: { x: 1 } }, trusted).reason).toBe("ANCHOR_ID_MISMATCH");
+    expect(verifyAttestationOffline({ ...att, signature_b58: "" }, trusted).reason).toBe("MALFORMED");
+    expect(verifyAttestationOffline(att, []).reason).toBe("ISSUER_NOT_TRUSTED");
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Unit tests: registry key set, signed rotation statements and offline verification across rotations.
+ */
+
+import { describe, it, expect } from "vitest";
+import nacl from "tweetnacl";
+import bs58 from "bs58";
+import { issue } from "../issue.js";
+import { verifyAttestationOffline } from "../verify.js";
+import {
+  activeSigningKey,
+  computeKid,
+  createRotationStatement,
+  keySetFromEnv,
+  publicKeySet,
+  resolveKeyChain,
+  rotateKeySet,
+  verifyRotationStatement,
+} from "../keys.js";
+import type { TrustedIssuer } from "../types.js";
+
+function generateKeypair(): { publicKeyB58: string; secretKeyB58: string } {
+  const kp = nacl.sign.keyPair();
+  return {
+    publicKeyB58: bs58.encode(Buffer.from(kp.publicKey)),
+    secretKeyB58: bs58.encode(Buffer.from(kp.secretKey)),
+  };
+}
+
+const T_ROTATE = 10_000;
+const T_ROTATE_2 = 20_000;
+
+describe("Registry key rotation", () => {
+  const root = generateKeypair();
+  const trustedIssuers: TrustedIssuer[] = [{ issuer_public_key_b58: root.publicKeyB58, name: "Test Registry" }];
+
+  function rotatedTwice() {
+    const first = rotateKeySet(keySetFromEnv(root.publicKeyB58, root.secretKeyB58), T_ROTATE, "k2");
+    return rotateKeySet(first.keySet, T_ROTATE_2, "k3").keySet;
+  }
+
+  function issueWith(keySet: ReturnType<typeof rotatedTwice>, issuedAtMs: number) {
+    const key = activeSigningKey(keySet, issuedAtMs);
+    return issue(
+      { subject_signer_public_key_b58: "subject-key-b58", anchor_type: "kyb_verified", payload: {} },
+      key.publicKey,
+      key.secretKey,
+      issuedAtMs,
+      key.kid
+    );
+  }
+
+  it("rotates the active key with a statement signed by the outgoing key", () => {
+    const initial = keySetFromEnv(root.publicKeyB58, root.secretKeyB58);
+    expect(initial.keys[0]!.kid).toBe(computeKid(root.publicKeyB58));
+    expect(activeSigningKey(initial, 5000).publicKey).toBe(root.publicKeyB58);
+
+    const { keySet, statement } = rotateKeySet(initial, T_ROTATE, "k2");
+    expect(statement).toMatchObject({ previous_public_key_b58: root.publicKeyB58, next_kid: "k2", rotated_at_ms: T_ROTATE });
+    expect(verifyRotationStatement(statement)).toEqual({ ok: true });
+    expect(activeSigningKey(keySet, T_ROTATE - 1).publicKey).toBe(root.publicKeyB58);
+    expect(activeSigningKey(keySet, T_ROTATE).kid).toBe("k2");
+    expect(keySet.keys[0]!.retired_at_ms).toBe(T_ROTATE);
+    expect(JSON.stringify(publicKeySet(keySet))).not.toContain("secret_key_b58");
+    expect(() => rotateKeySet(keySet, T_ROTATE_2, "k2")).toThrow("already in the key set");
+
+    // A statement naming a successor but signed by another key is not a valid rotation
+    const forged = createRotationStatement(
+      { kid: statement.previous_kid, public_key_b58: root.publicKeyB58 },
+      generateKeypair().secretKeyB58,
+      { kid: "evil", public_key_b58: generateKeypair().publicKeyB58 },
+      T_ROTATE
+    );
+    expect(verifyRotationStatement(forged).error).toBe("Invalid rotation statement signature");
+    expect(resolveKeyChain(root.publicKeyB58, [forged])).toHaveLength(1);
+  });
+
+  it("resolves the rotation chain from the trusted root key", () => {
+    const keySet = rotatedTwice();
+    const chain = resolveKeyChain(root.publicKeyB58, keySet.rotations);
+    expect(chain.map((k) => [k.kid, k.valid_from_ms, k.valid_until_ms])).toEqual([
+      [computeKid(root.publicKeyB58), null, T_ROTATE],
+      ["k2", T_ROTATE, T_ROTATE_2],
+      ["k3", T_ROTATE_2, null],
+    ]);
+    // Statements are taken in log order: k2 -> k3 logged before k2 was named is ignored
+    expect(resolveKeyChain(root.publicKeyB58, [...keySet.rotations].reverse()).map((k) => k.kid)).toEqual([
+      computeKid(root.publicKeyB58),
+      "k2",
+    ]);
+  });
+
+  it("ignores backdated statements signed by a retired or newly activated key", () => {
+    const keySet = rotatedTwice();
+    const rootKey = keySet.keys[0]!;
+    const k2 = keySet.keys.find((k) => k.kid === "k2")!;
+    const evil = generateKeypair();
+    // A compromised retired root key signs a successor dated before its real rotation
+    const backdatedFork = createRotationStatement(
+      { kid: rootKey.kid, public_key_b58: rootKey.public_key_b58 },
+      root.secretKeyB58,
+      { kid: "evil", public_key_b58: evil.publicKeyB58 },
+      T_ROTATE - 5000
+    );
+    const chain = resolveKeyChain(root.publicKeyB58, [...keySet.rotations, backdatedFork]);
+    expect(chain.map((k) => k.kid)).toEqual([rootKey.kid, "k2", "k3"]);
+
+    const forgedAnchor = issue(
+      { subject_signer_public_key_b58: "subject-key-b58", anchor_type: "kyb_verified", payload: {} },
+      evil.publicKeyB58,
+      evil.secretKeyB58,
+      T_ROTATE - 1000,
+      "evil"
+    );
+    expect(
+      verifyAttestationOffline(forgedAnchor, trustedIssuers, { keyRotations: [...keySet.rotations, backdatedFork] }).reason
+    ).toBe("ISSUER_NOT_TRUSTED");
+
+    // The current key cannot rotate to a time before its own activation (the last logged rotation)
+    const beforeActivation = createRotationStatement(
+      { kid: "k2", public_key_b58: k2.public_key_b58 },
+      k2.secret_key_b58!,
+      { kid: "evil", public_key_b58: evil.publicKeyB58 },
+      T_ROTATE - 1
+    );
+    expect(resolveKeyChain(root.publicKeyB58, [keySet.rotations[0]!, beforeActivation]).map((k) => k.kid)).toEqual([
+      rootKey.kid,
+      "k2",
+    ]);
+    expect(() => rotateKeySet(keySet, T_ROTATE_2 - 1)).toThrow("precedes the last rotation");
+  });
+
+  it("accepts anchors signed by the key valid at issued_at_ms under the trusted chain", () => {
+    const keySet = rotatedTwice();
+    const options = { keyRotations: keySet.rotations };
+    const beforeRotation = issueWith(keySet, 5000);
+    const afterRotation = issueWith(keySet, T_ROTATE + 5000);
+    const latest = issueWith(keySet, T_ROTATE_2 + 5000);
+    expect(beforeRotation.kid).toBe(computeKid(root.publicKeyB58));
+    expect(afterRotation.kid).toBe("k2");
+
+    for (const att of [beforeRotation, afterRotation, latest]) {
+      expect(verifyAttestationOffline(att, trustedIssuers, options)).toEqual({
+        ok: true,
+        issuerTrusted: true,
+        issuerName: "Test Registry",
+      });
+    }
+    // Anchors issued before key sets (no kid) by the root key still verify
+    const legacy = issue(
+      { subject_signer_public_key_b58: "subject-key-b58", anchor_type: "kyb_verified", payload: {} },
+      root.publicKeyB58,
+      root.secretKeyB58,
+      5000
+    );
+    expect(verifyAttestationOffline(legacy, trustedIssuers, options).ok).toBe(true);
+    // Without the rotation statements a successor key is unknown
+    expect(verifyAttestationOffline(afterRotation, trustedIssuers).reason).toBe("ISSUER_NOT_TRUSTED");
+  });
+
+  it("rejects anchors signed by a retired key or naming the wrong kid", () => {
+    const keySet = rotatedTwice();
+    const options = { keyRotations: keySet.rotations };
+    const retiredKey = keySet.keys.find((k) => k.kid === "k2")!;
+    const late = issue(
+      { subject_signer_public_key_b58: "subject-key-b58", anchor_type: "kyb_verified", payload: {} },
+      retiredKey.public_key_b58,
+      retiredKey.secret_key_b58!,
+      T_ROTATE_2 + 1,
+      "k2"
+    );
+    expect(verifyAttestationOffline(late, trustedIssuers, options)).toMatchObject({
+      ok: false,
+      reason: "KEY_NOT_VALID_AT_ISSUANCE",
+      issuerTrusted: false,
+    });
+
+    const wrongKid = issue(
+      { subject_signer_public_key_b58: "subject-key-b58", anchor_type: "kyb_verified", payload: {} },
+      retiredKey.public_key_b58,
+      retiredKey.secret_key_b58!,
+      T_ROTATE + 1,
+      "k3"
+    );
+    expect(verifyAttestationOffline(wrongKid, trustedIssuers, options).reason).toBe("KEY_ID_MISMATCH");
+  });
+});
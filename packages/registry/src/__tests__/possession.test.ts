@@ -0,0 +1,124 @@
+/**
+ * Unit tests: possession challenge -> subject signs -> hash in evidence_refs -> offline recheck.
+ */
+
+import { describe, it, expect } from "vitest";
+import nacl from "tweetnacl";
+import bs58 from "bs58";
+import { issue } from "../issue.js";
+import { verifyAttestationOffline } from "../verify.js";
+import {
+  createPossessionChallenge,
+  signPossessionChallenge,
+  verifyPossessionProof,
+  possessionProofRef,
+  type PossessionProof,
+} from "../possession.js";
+import type { AnchorAttestation, TrustedIssuer } from "../types.js";
+
+function generateKeypair(): { publicKeyB58: string; secretKeyB58: string } {
+  const kp = nacl.sign.keyPair();
+  return {
+    publicKeyB58: bs58.encode(Buffer.from(kp.publicKey)),
+    secretKeyB58: bs58.encode(Buffer.from(kp.secretKey)),
+  };
+}
+
+describe("Proof of possession", () => {
+  const issuer = generateKeypair();
+  const subject = generateKeypair();
+  const registryKey = { kid: "kid-test", publicKey: issuer.publicKeyB58 };
+  const trustedIssuers: TrustedIssuer[] = [{ issuer_public_key_b58: issuer.publicKeyB58, name: "Test Registry" }];
+
+  function issueWithProof(proof: PossessionProof, issuedAtMs: number): AnchorAttestation {
+    return issue(
+      {
+        subject_signer_public_key_b58: subject.publicKeyB58,
+        anchor_type: "kyb_verified",
+        payload: {},
+        evidence_refs: ["kyb:case-1", possessionProofRef(proof)],
+      },
+      issuer.publicKeyB58,
+      issuer.secretKeyB58,
+      issuedAtMs
+    );
+  }
+
+  it("verifies a proof signed by the subject key and rejects other keys or subjects", () => {
+    const challenge = createPossessionChallenge(subject.publicKeyB58, registryKey, 1000);
+    expect(challenge.nonce).toMatch(/^[0-9a-f]{64}$/);
+    expect(challenge.expires_at_ms).toBe(1000 + 5 * 60 * 1000);
+
+    const proof = signPossessionChallenge(challenge, subject.secretKeyB58);
+    expect(verifyPossessionProof(proof, subject.publicKeyB58)).toEqual({ ok: true });
+
+    const other = generateKeypair();
+    const forged = signPossessionChallenge(challenge, other.secretKeyB58);
+    expect(verifyPossessionProof(forged, subject.publicKeyB58).error).toBe("Invalid possession proof signature");
+    expect(verifyPossessionProof(proof, other.publicKeyB58).error).toBe("Possession proof is for a different subject key");
+
+    const tampered = { ...proof, challenge: { ...challenge, nonce: "00".repeat(32) } };
+    expect(verifyPossessionProof(tampered, subject.publicKeyB58).ok).toBe(false);
+    expect(verifyPossessionProof({} as PossessionProof, subject.publicKeyB58).error).toBe("Malformed possession proof");
+  });
+
+  it("verifyAttestationOffline rechecks the proof against evidence_refs", () => {
+    const challenge = createPossessionChallenge(subject.publicKeyB58, registryKey, 1000);
+    const proof = signPossessionChallenge(challenge, subject.secretKeyB58);
+    const att = issueWithProof(proof, 2000);
+
+    expect(verifyAttestationOffline(att, trustedIssuers, { possessionProof: proof })).toEqual({
+      ok: true,
+      issuerTrusted: true,
+      issuerName: "Test Registry",
+      possessionVerified: true,
+    });
+    // Without options the proof is not checked
+    expect(verifyAttestationOffline(att, trustedIssuers)).toEqual({ ok: true, issuerTrusted: true, issuerName: "Test Registry" });
+
+    // A different (validly signed) proof is not the one recorded in evidence_refs
+    const otherProof = signPossessionChallenge(
+      createPossessionChallenge(subject.publicKeyB58, registryKey, 1000),
+      subject.secretKeyB58
+    );
+    expect(verifyAttestationOffline(att, trustedIssuers, { possessionProof: otherProof })).toMatchObject({
+      ok: false,
+      reason: "POSSESSION_PROOF_INVALID",
+      possessionVerified: false,
+      error: "Possession proof hash not in evidence_refs",
+    });
+    expect(verifyAttestationOffline(att, trustedIssuers, { requirePossessionProof: true }).error).toBe(
+      "Possession proof required but not provided"
+    );
+  });
+
+  it("rejects proofs outside the challenge window or from another registry", () => {
+    const challenge = createPossessionChallenge(subject.publicKeyB58, registryKey, 1000, 500);
+    const proof = signPossessionChallenge(challenge, subject.secretKeyB58);
+    const late = issueWithProof(proof, 2000);
+    expect(verifyAttestationOffline(late, trustedIssuers, { possessionProof: proof }).error).toBe(
+      "Anchor was not issued within the possession challenge window"
+    );
+
+    const otherRegistry = generateKeypair();
+    const foreign = signPossessionChallenge(
+      createPossessionChallenge(subject.publicKeyB58, { kid: "other", publicKey: otherRegistry.publicKeyB58 }, 1000),
+      subject.secretKeyB58
+    );
+    expect(verifyAttestationOffline(issueWithProof(foreign, 2000), trustedIssuers, { possessionProof: foreign }).error).toBe(
+      "Possession challenge was issued by a different registry key"
+    );
+
+    const unproven = issue(
+      { subject_signer_public_key_b58: subject.publicKeyB58, anchor_type: "kyb_verified", payload: {} },
+      issuer.publicKeyB58,
+      issuer.secretKeyB58
+    );
+    expect(verifyAttestationOffline(unproven, trustedIssuers, { requirePossessionProof: true })).toMatchObject({
+      ok: false,
+      reason: "POSSESSION_PROOF_MISSING",
+      possessionVerified: false,
+      error: "Anchor has no possession proof",
+    });
+  });
+});
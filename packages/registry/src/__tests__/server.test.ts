@@ -0,0 +1,182 @@
+/**
+ * HTTP tests: POST /v1/anchors/challenge -> subject signs -> POST /v1/anchors/issue.
+ * The server app is imported in process (listening on an ephemeral port) with a temp data dir; the key set file
+ * (REGISTRY_KEYSET_PATH) is only written to rotate keys.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import nacl from "tweetnacl";
+import bs58 from "bs58";
+import { signPossessionChallenge, possessionProofRef, type PossessionChallenge } from "../possession.js";
+import { verifyAttestationOffline, verifyAttestationPossession } from "../verify.js";
+import { getPossessionProof } from "../store.js";
+import { computeKid, keySetFromEnv, resolveKeyChain, rotateKeySet, writeKeySet } from "../keys.js";
+import type { AnchorAttestation } from "../types.js";
+
+function generateKeypair(): { publicKeyB58: string; secretKeyB58: string } {
+  const kp = nacl.sign.keyPair();
+  return {
+    publicKeyB58: bs58.encode(Buffer.from(kp.publicKey)),
+    secretKeyB58: bs58.encode(Buffer.from(kp.secretKey)),
+  };
+}
+
+const API_KEY = "test-api-key";
+
+describe("registry server: challenge -> sign -> issue", () => {
+  const issuer = generateKeypair();
+  const subject = generateKeypair();
+  let dataDir: string;
+  let keySetPath: string;
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    dataDir = mkdtempSync(join(tmpdir(), "registry-server-"));
+    keySetPath = join(dataDir, "keyset.json");
+    process.env.REGISTRY_KEYSET_PATH = keySetPath;
+    process.env.REGISTRY_DATA_DIR = dataDir;
+    process.env.REGISTRY_API_KEY = API_KEY;
+    process.env.REGISTRY_ISSUER_PUBLIC_KEY_B58 = issuer.publicKeyB58;
+    process.env.REGISTRY_ISSUER_SECRET_KEY_B58 = issuer.secretKeyB58;
+    const { app } = await import("../server.js");
+    server = await new Promise<Server>((resolve) => {
+      const s = app.listen(0, "127.0.0.1", () => resolve(s));
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  async function post(path: string, body: unknown): Promise<{ status: number; json: any }> {
+    const res = await fetch(baseUrl + path, {
+      method: "POST",
+      headers: { "content-type": "application/json", "x-api-key": API_KEY },
+      body: JSON.stringify(body),
+    });
+    return { status: res.status, json: await res.json() };
+  }
+
+  async function requestChallenge(subjectKey: string = subject.publicKeyB58): Promise<PossessionChallenge> {
+    const { status, json } = await post("/v1/anchors/challenge", { subject_signer_public_key_b58: subjectKey });
+    expect(status).toBe(201);
+    return json.challenge as PossessionChallenge;
+  }
+
+  function issueBody(possession_proof?: unknown) {
+    return {
+      subject_signer_public_key_b58: subject.publicKeyB58,
+      anchor_type: "kyb_verified",
+      payload: {},
+      display_name: "Acme LLC",
+      evidence_refs: ["kyb:case-1"],
+      possession_proof,
+    };
+  }
+
+  it("issues an anchor for a signed challenge and stores the proof", async () => {
+    const challenge = await requestChallenge();
+    expect(challenge).toMatchObject({
+      subject_signer_public_key_b58: subject.publicKeyB58,
+      registry_kid: computeKid(issuer.publicKeyB58),
+      registry_public_key_b58: issuer.publicKeyB58,
+    });
+    const proof = signPossessionChallenge(challenge, subject.secretKeyB58);
+
+    const { status, json } = await post("/v1/anchors/issue", issueBody(proof));
+    expect(status).toBe(201);
+    const attestation = json.anchor_attestation as AnchorAttestation;
+    expect(attestation.evidence_refs).toEqual(["kyb:case-1", possessionProofRef(proof)]);
+
+    const trusted = [{ issuer_public_key_b58: issuer.publicKeyB58, name: "Test Registry" }];
+    expect(verifyAttestationOffline(attestation, trusted).ok).toBe(true);
+    const stored = getPossessionProof(attestation.anchor_id, dataDir);
+    expect(stored?.proof).toEqual(proof);
+    expect(verifyAttestationPossession(attestation, stored!.proof).ok).toBe(true);
+
+    // Single use: the same proof cannot issue a second anchor
+    const replay = await post("/v1/anchors/issue", issueBody(proof));
+    expect(replay.status).toBe(400);
+    expect(replay.json.error).toBe("Unknown or already used possession challenge");
+  });
+
+  it("rejects issuance without a proof or with a proof not signed by the subject key", async () => {
+    const missing = await post("/v1/anchors/issue", issueBody());
+    expect(missing.status).toBe(400);
+    expect(missing.json.error).toMatch(/^Missing possession_proof/);
+
+    const challenge = await requestChallenge();
+    const wrongKey = signPossessionChallenge(challenge, generateKeypair().secretKeyB58);
+    const badSignature = await post("/v1/anchors/issue", issueBody(wrongKey));
+    expect(badSignature.status).toBe(400);
+    expect(badSignature.json.error).toBe("Invalid possession proof signature");
+
+    // Altering the challenge (here: its expiry) makes it unknown to the registry
+    const altered = signPossessionChallenge({ ...challenge, expires_at_ms: challenge.expires_at_ms + 60_000 }, subject.secretKeyB58);
+    const unknown = await post("/v1/anchors/issue", issueBody(altered));
+    expect(unknown.status).toBe(400);
+    expect(unknown.json.error).toBe("Unknown or already used possession challenge");
+
+    // A challenge issued to another subject does not prove possession of this one
+    const other = generateKeypair();
+    const otherProof = signPossessionChallenge(await requestChallenge(other.publicKeyB58), other.secretKeyB58);
+    const mismatch = await post("/v1/anchors/issue", issueBody(otherProof));
+    expect(mismatch.status).toBe(400);
+    expect(mismatch.json.error).toBe("Possession proof is for a different subject key");
+
+    // A rejected proof does not consume the challenge: the subject can still sign it
+    const ok = await post("/v1/anchors/issue", issueBody(signPossessionChallenge(challenge, subject.secretKeyB58)));
+    expect(ok.status).toBe(201);
+  });
+
+  it("issues for a challenge from the previous key after a rotation in between", async () => {
+    const challenge = await requestChallenge();
+    const proof = signPossessionChallenge(challenge, subject.secretKeyB58);
+    // Rotate strictly after the challenge was issued
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const { keySet } = rotateKeySet(keySetFromEnv(issuer.publicKeyB58, issuer.secretKeyB58), Date.now(), "k2");
+    writeKeySet(keySetPath, keySet);
+    try {
+      const { status, json } = await post("/v1/anchors/issue", issueBody(proof));
+      expect(status).toBe(201);
+      const attestation = json.anchor_attestation as AnchorAttestation;
+      expect(attestation.kid).toBe("k2");
+
+      // Trusted through the chain: the challenge's key was active when the challenge was issued
+      const trusted = [{ issuer_public_key_b58: issuer.publicKeyB58, name: "Test Registry" }];
+      expect(verifyAttestationOffline(attestation, trusted, { possessionProof: proof, keyRotations: keySet.rotations })).toEqual({
+        ok: true,
+        issuerTrusted: true,
+        issuerName: "Test Registry",
+        possessionVerified: true,
+      });
+      const chain = resolveKeyChain(issuer.publicKeyB58, keySet.rotations);
+      expect(verifyAttestationPossession(attestation, proof, chain).ok).toBe(true);
+      expect(verifyAttestationPossession(attestation, proof).error).toBe("Possession challenge was issued by a different registry key");
+      // A challenge naming another kid for the key is not bound to it
+      const relabeled = signPossessionChallenge({ ...challenge, registry_kid: "k2" }, subject.secretKeyB58);
+      expect(verifyAttestationPossession(attestation, relabeled, chain).error).toBe(
+        "Possession challenge was issued by a different registry key"
+      );
+    } finally {
+      rmSync(keySetPath, { force: true });
+    }
+  });
+
+  it("requires the API key", async () => {
+    const res = await fetch(baseUrl + "/v1/anchors/challenge", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ subject_signer_public_key_b58: subject.publicKeyB58 }),
+    });
+    expect(res.status).toBe(401);
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Unit tests: transparency log Merkle proofs, signed tree heads and store logging of issue/revoke events.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { createHash } from "node:crypto";
+import nacl from "tweetnacl";
+import bs58 from "bs58";
+import { issue } from "../issue.js";
+import { appendAnchor, appendLogEntry, appendRevocation, getLogPath, readLogEntries } from "../store.js";
+import { activeSigningKey, keySetFromEnv, rotateKeySet } from "../keys.js";
+import {
+  consistencyProof,
+  inclusionProof,
+  leafHash,
+  loggedRotations,
+  merkleRoot,
+  signTreeHead,
+  verifyAnchorInclusion,
+  verifyConsistency,
+  verifyInclusion,
+  verifyTreeHead,
+  verifyTreeHeadConsistency,
+  type InclusionProofResponse,
+  type LogEntry,
+} from "../transparencyLog.js";
+
+function generateKeypair(): { publicKeyB58: string; secretKeyB58: string } {
+  const kp = nacl.sign.keyPair();
+  return {
+    publicKeyB58: bs58.encode(Buffer.from(kp.publicKey)),
+    secretKeyB58: bs58.encode(Buffer.from(kp.secretKey)),
+  };
+}
+
+const hex = (hashes: Buffer[]): string[] => hashes.map((h) => h.toString("hex"));
+
+function leaves(n: number): Buffer[] {
+  return Array.from({ length: n }, (_, i) => createHash("sha256").update(`leaf-${i}`).digest());
+}
+
+function inclusionFor(anchorId: string, entries: LogEntry[], treeSize: number): InclusionProofResponse {
+  const hashes = entries.slice(0, treeSize).map(leafHash);
+  return {
+    anchor_id: anchorId,
+    tree_size: treeSize,
+    proofs: entries
+      .slice(0, treeSize)
+      .filter((e) => e.anchor_id === anchorId)
+      .map((entry) => ({ leaf_index: entry.index, entry, audit_path: hex(inclusionProof(entry.index, hashes)) })),
+  };
+}
+
+describe("Transparency log", () => {
+  const registry = generateKeypair();
+
+  it("inclusion and consistency proofs verify for every leaf and tree size", () => {
+    const all = leaves(9);
+    for (let n = 1; n <= all.length; n++) {
+      const tree = all.slice(0, n);
+      const root = merkleRoot(tree).toString("hex");
+      for (let i = 0; i < n; i++) {
+        const path = hex(inclusionProof(i, tree));
+        expect(verifyInclusion(tree[i], i, n, path, root)).toBe(true);
+        expect(verifyInclusion(all[(i + 1) % 9], i, n, path, root)).toBe(false);
+      }
+      for (let m = 0; m <= n; m++) {
+        const oldRoot = merkleRoot(all.slice(0, m)).toString("hex");
+        expect(verifyConsistency(m, n, hex(consistencyProof(m, tree)), oldRoot, root)).toBe(true);
+      }
+    }
+  });
+
+  it("detects a rewritten history through the consistency proof", () => {
+    const original = leaves(5);
+    const oldRoot = merkleRoot(original).toString("hex");
+    const rewritten = [...original.slice(0, 2), createHash("sha256").update("forged").digest(), ...leaves(8).slice(3)];
+    const newRoot = merkleRoot(rewritten).toString("hex");
+    expect(verifyConsistency(5, 8, hex(consistencyProof(5, rewritten)), oldRoot, newRoot)).toBe(false);
+  });
+
+  it("signs tree heads and rejects tampered or foreign heads", () => {
+    const head = signTreeHead(3, "ab".repeat(32), registry.publicKeyB58, registry.secretKeyB58, 1000);
+    expect(verifyTreeHead(head)).toEqual({ ok: true });
+    expect(verifyTreeHead(head, registry.publicKeyB58)).toEqual({ ok: true });
+    expect(verifyTreeHead({ ...head, tree_size: 2 }).error).toBe("Invalid tree head signature");
+    expect(verifyTreeHead(head, generateKeypair().publicKeyB58).error).toBe("Tree head was signed by a different log key");
+  });
+
+  describe("store logging", () => {
+    let dataDir: string;
+
+    beforeEach(() => {
+      dataDir = mkdtempSync(join(tmpdir(), "registry-log-"));
+    });
+
+    afterEach(() => {
+      rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    function issueAnchor(type: string): ReturnType<typeof issue> {
+      const att = issue(
+        { subject_signer_public_key_b58: "subject-key-b58", anchor_type: type, payload: {} },
+        registry.publicKeyB58,
+        registry.secretKeyB58
+      );
+      appendAnchor(att, dataDir);
+      return att;
+    }
+
+    function headFor(entries: LogEntry[], size: number) {
+      const root = merkleRoot(entries.slice(0, size).map(leafHash)).toString("hex");
+      return signTreeHead(size, root, registry.publicKeyB58, registry.secretKeyB58);
+    }
+
+    it("logs issue and revoke events and proves an anchor's inclusion against a saved head", () => {
+      const a1 = issueAnchor("kyb_verified");
+      const a2 = issueAnchor("credential_verified");
+      const savedHead = headFor(readLogEntries(dataDir), 2);
+
+      appendRevocation({ anchor_id: a1.anchor_id, revoked_at_ms: 5000, reason: undefined }, dataDir);
+      const entries = readLogEntries(dataDir);
+      expect(entries.map((e) => [e.index, e.type, e.anchor_id])).toEqual([
+        [0, "issue", a1.anchor_id],
+        [1, "issue", a2.anchor_id],
+        [2, "revoke", a1.anchor_id],
+      ]);
+
+      expect(verifyAnchorInclusion(a1, inclusionFor(a1.anchor_id, entries, 2), savedHead, registry.publicKeyB58)).toEqual({
+        ok: true,
+        issue_leaf_index: 0,
+      });
+      const currentHead = headFor(entries, 3);
+      expect(verifyAnchorInclusion(a1, inclusionFor(a1.anchor_id, entries, 3), currentHead, registry.publicKeyB58)).toEqual({
+        ok: true,
+        issue_leaf_index: 0,
+        revoked: true,
+      });
+      expect(verifyAnchorInclusion(a1, inclusionFor(a1.anchor_id, entries, 3), savedHead, registry.publicKeyB58).error).toMatch(
+        /not for the saved tree head/
+      );
+      expect(verifyAnchorInclusion(a2, inclusionFor(a1.anchor_id, entries, 2), savedHead, registry.publicKeyB58).error).toBe(
+        "Anchor issuance is not included in the tree"
+      );
+
+      const consistency = { first: 2, second: 3, proof: hex(consistencyProof(2, entries.map(leafHash))) };
+      expect(verifyTreeHeadConsistency(savedHead, currentHead, consistency, registry.publicKeyB58)).toEqual({ ok: true });
+    });
+
+    it("rejects tree heads not signed by the pinned log key", () => {
+      const a1 = issueAnchor("kyb_verified");
+      const entries = readLogEntries(dataDir);
+      const head = headFor(entries, 1);
+      const inclusion = inclusionFor(a1.anchor_id, entries, 1);
+
+      // A head forged with another key is self-consistent, so only the pinned key catches it
+      const forger = generateKeypair();
+      const forged = signTreeHead(1, head.root_hash, forger.publicKeyB58, forger.secretKeyB58);
+      expect(verifyTreeHead(forged).ok).toBe(true);
+      expect(verifyAnchorInclusion(a1, inclusion, forged, registry.publicKeyB58).error).toBe(
+        "Tree head was signed by a different log key"
+      );
+      expect(verifyAnchorInclusion(a1, inclusion, head, "").error).toBe("A pinned log key is required to trust a tree head");
+
+      const consistency = { first: 1, second: 1, proof: [] };
+      expect(verifyTreeHeadConsistency(head, forged, consistency, registry.publicKeyB58).error).toBe(
+        "Tree head was signed by a different log key"
+      );
+      expect(verifyTreeHeadConsistency(forged, forged, consistency, forger.publicKeyB58)).toEqual({ ok: true });
+    });
+
+    it("verifies heads on either side of a logged key rotation against the key chain", () => {
+      const T_ROTATE = 10_000;
+      const a1 = issueAnchor("kyb_verified");
+      const { keySet, statement } = rotateKeySet(keySetFromEnv(registry.publicKeyB58, registry.secretKeyB58), T_ROTATE, "k2");
+      appendLogEntry("rotate", statement, dataDir);
+      const entries = readLogEntries(dataDir);
+      expect(entries[1]).toMatchObject({ index: 1, type: "rotate", record: statement });
+      expect(entries[1]!.anchor_id).toBeUndefined();
+      const rotations = loggedRotations(entries);
+      expect(rotations).toEqual([statement]);
+
+      const rootOf = (size: number) => merkleRoot(entries.slice(0, size).map(leafHash)).toString("hex");
+      const k2 = activeSigningKey(keySet, T_ROTATE);
+      const oldHead = signTreeHead(1, rootOf(1), registry.publicKeyB58, registry.secretKeyB58, T_ROTATE - 1);
+      const newHead = signTreeHead(2, rootOf(2), k2.publicKey, k2.secretKey, T_ROTATE + 1);
+      const consistency = { first: 1, second: 2, proof: hex(consistencyProof(1, entries.map(leafHash))) };
+      expect(verifyTreeHeadConsistency(oldHead, newHead, consistency, registry.publicKeyB58, rotations)).toEqual({ ok: true });
+      expect(verifyAnchorInclusion(a1, inclusionFor(a1.anchor_id, entries, 2), newHead, registry.publicKeyB58, rotations)).toEqual({
+        ok: true,
+        issue_leaf_index: 0,
+      });
+      // Without the rotation the successor key is unknown
+      expect(verifyTreeHeadConsistency(oldHead, newHead, consistency, registry.publicKeyB58).error).toBe(
+        "Tree head was signed by a different log key"
+      );
+
+      // Each head's key must be the one active at its timestamp
+      const retiredHead = signTreeHead(2, rootOf(2), registry.publicKeyB58, registry.secretKeyB58, T_ROTATE + 1);
+      expect(verifyTreeHeadConsistency(oldHead, retiredHead, consistency, registry.publicKeyB58, rotations).error).toMatch(
+        /outside its active period/
+      );
+      const earlyHead = signTreeHead(1, rootOf(1), k2.publicKey, k2.secretKey, T_ROTATE - 1);
+      expect(verifyTreeHeadConsistency(earlyHead, newHead, consistency, registry.publicKeyB58, rotations).error).toBe(
+        "Tree head was signed by log key k2 outside its active period"
+      );
+    });
+
+    it("appends at the next leaf index after another writer appended to the log", () => {
+      issueAnchor("kyb_verified");
+      // Another process (e.g. the CLI next to the server) appends an event
+      const external = readFileSync(getLogPath(dataDir), "utf8").trim().split("\n")[0]!;
+      writeFileSync(getLogPath(dataDir), JSON.stringify({ ...JSON.parse(external), index: 1 }) + "\n", { flag: "a" });
+      issueAnchor("credential_verified");
+      expect(readLogEntries(dataDir).map((e) => e.index)).toEqual([0, 1, 2]);
+    });
+
+    it("fails verification after the log file is rewritten", () => {
+      const a1 = issueAnchor("kyb_verified");
+      issueAnchor("credential_verified");
+      const savedHead = headFor(readLogEntries(dataDir), 2);
+
+      // Drop the first event and re-append it: same records, different history
+      const lines = readFileSync(getLogPath(dataDir), "utf8").trim().split("\n");
+      writeFileSync(getLogPath(dataDir), [lines[1], lines[0]].join("\n") + "\n");
+      const rewritten = readLogEntries(dataDir);
+      const result = verifyAnchorInclusion(a1, inclusionFor(a1.anchor_id, rewritten, 2), savedHead, registry.publicKeyB58);
+      expect(result.ok).toBe(false);
+
+      const tamperedHead = headFor(rewritten, 2);
+      const consistency = { first: 2, second: 2, proof: [] };
+      expect(verifyTreeHeadConsistency(savedHead, tamperedHead, consistency, registry.publicKeyB58).error).toBe(
+        "Tree heads are not consistent: log history was rewritten"
+      );
+    });
+  });
+});
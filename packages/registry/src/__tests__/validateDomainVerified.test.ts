@@ -0,0 +1,37 @@
+/**
+ * Unit tests: domain_verified issue request validation.
+ */
+
+import { describe, it, expect } from "vitest";
+import { validateDomainVerifiedPayload, normalizeDomain } from "../validateDomainVerified.js";
+
+describe("validateDomainVerifiedPayload", () => {
+  const validPayload = { domain: "api.example.com", domain_token: "pact-domain-abc", method: "well_known" };
+
+  it("does not throw for non-domain_verified anchor_type", () => {
+    expect(() => validateDomainVerifiedPayload("kyb_verified", { foo: "bar" })).not.toThrow();
+  });
+
+  it("accepts valid payloads with either method or none", () => {
+    expect(() => validateDomainVerifiedPayload("domain_verified", validPayload)).not.toThrow();
+    expect(() => validateDomainVerifiedPayload("domain_verified", { ...validPayload, method: "dns_txt" })).not.toThrow();
+    expect(() => validateDomainVerifiedPayload("domain_verified", { ...validPayload, method: undefined })).not.toThrow();
+  });
+
+  it("rejects missing token and unknown method", () => {
+    expect(() => validateDomainVerifiedPayload("domain_verified", { domain: "example.com" })).toThrow(/domain_token/);
+    expect(() => validateDomainVerifiedPayload("domain_verified", { ...validPayload, method: "email" })).toThrow(
+      /payload.method must be one of well_known, dns_txt/
+    );
+  });
+
+  it("normalizes domains and rejects non-DNS names", () => {
+    expect(normalizeDomain(" API.Example.COM. ")).toBe("api.example.com");
+    for (const bad of ["", "localhost", "example", "10.0.0.1", "example.com:8443", "https://example.com", "a..com", "foo.localhost"]) {
+      expect(() => normalizeDomain(bad)).toThrow();
+    }
+    expect(() => validateDomainVerifiedPayload("domain_verified", { ...validPayload, domain: undefined })).toThrow(
+      /requires payload.domain/
+    );
+  });
+});
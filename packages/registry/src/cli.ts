@@ -6,6 +6,23 @@
  *   pact-registry issue --subject <pubkey> --type <anchor_type> [--display-name "Acme LLC"] [--method kyb] [--payload payload.json]
  *   pact-registry revoke --anchor-id <anchor_id> [--reason "KYB expired"]
  *   pact-registry list --subject <pubkey>
+ *   pact-registry sign-challenge --challenge challenge.json [--out proof.json]
+ *   pact-registry verify --anchors anchors.json --trusted-issuers configs/trusted_issuers.json [--out verified.json]
+ *   pact-registry verify-inclusion --anchor anchor.json --proof inclusion.json --head head.json (--log-key <pubkey> [--rotations keys.json] | --trusted-issuers trusted_issuers.json)
+ *   pact-registry verify-consistency --old-head old.json --new-head new.json --proof consistency.json (--log-key <pubkey> [--rotations keys.json] | --trusted-issuers trusted_issuers.json)
+ *   pact-registry rotate-key [--keyset keyset.json] [--kid <new kid>] [--at <ms>]
+ *
+ * sign-challenge signs a possession challenge (from POST /v1/anchors/challenge) with the subject key in
+ * SUBJECT_SECRET_KEY_B58 and prints the possession_proof to send with POST /v1/anchors/issue.
+ * verify checks each anchor in a Boxer anchors file offline (signature, expiry, issuer scopes, validity
+ * window, subject domains) and writes the file back with a verification result per anchor.
+ * verify-inclusion and verify-consistency check transparency log proofs (GET /v1/log/*) offline against saved
+ * signed tree heads. Each head must be signed by the log key active at its timestamp: the pinned --log-key or one
+ * of its successors through --rotations (GET /v1/keys), or a key chain from trusted_issuers.json (issuer keys and
+ * .rotations).
+ * rotate-key generates a new registry key, signs a rotation statement with the active key and retires it. The key
+ * set file (default REGISTRY_KEYSET_PATH) is created from the env key on first rotation, and the statement is
+ * appended to the transparency log.
  */
 
 import "dotenv/config";
@@ -14,22 +31,47 @@ import { resolve } from "node:path";
 import { issue } from "./issue.js";
 import {
   appendAnchor,
+  appendLogEntry,
   appendRevocation,
   findAnchorsBySubject,
   readRevocations,
 } from "./store.js";
-import type { IssueRequest } from "./types.js";
+import { signPossessionChallenge, verifyPossessionProof, type PossessionChallenge } from "./possession.js";
+import { verifyAttestationOffline } from "./verify.js";
+import {
+  activeSigningKey,
+  keySetFromEnv,
+  loadRegistryKeySet,
+  publicKeySet,
+  readKeySet,
+  rotateKeySet,
+  writeKeySet,
+  type KeyRotationStatement,
+  type RegistryKeySet,
+  type SigningKey,
+} from "./keys.js";
+import {
+  verifyAnchorInclusion,
+  verifyTreeHeadConsistency,
+  type ConsistencyProofResponse,
+  type InclusionProofResponse,
+  type LogVerifyResult,
+  type SignedTreeHead,
+} from "./transparencyLog.js";
+import type { AnchorAttestation, IssueRequest, TrustedIssuersConfig } from "./types.js";
 
 const ISSUER_SECRET = process.env.REGISTRY_ISSUER_SECRET_KEY_B58;
 const ISSUER_PUBLIC = process.env.REGISTRY_ISSUER_PUBLIC_KEY_B58;
+const KEYSET_PATH = process.env.REGISTRY_KEYSET_PATH;
 const DATA_DIR = process.env.REGISTRY_DATA_DIR;
 
-function getIssuerKeys(): { publicKey: string; secretKey: string } {
-  if (!ISSUER_SECRET || !ISSUER_PUBLIC) {
-    console.error("Set REGISTRY_ISSUER_SECRET_KEY_B58 and REGISTRY_ISSUER_PUBLIC_KEY_B58");
+function getIssuerKeys(): SigningKey {
+  const keySet = loadRegistryKeySet();
+  if (!keySet) {
+    console.error("Set REGISTRY_ISSUER_SECRET_KEY_B58 and REGISTRY_ISSUER_PUBLIC_KEY_B58 (or REGISTRY_KEYSET_PATH)");
     process.exit(1);
   }
-  return { publicKey: ISSUER_PUBLIC, secretKey: ISSUER_SECRET };
+  return activeSigningKey(keySet);
 }
 
 function parseArgs(): Record<string, string> {
@@ -63,7 +105,7 @@ function cmdIssue(): void {
     }
     payload = JSON.parse(readFileSync(p, "utf8"));
   }
-  const { publicKey, secretKey } = getIssuerKeys();
+  const { kid, publicKey, secretKey } = getIssuerKeys();
   const req: IssueRequest = {
     subject_signer_public_key_b58: subject,
     anchor_type: type,
@@ -71,7 +113,7 @@ function cmdIssue(): void {
     display_name: displayName,
     verification_method: method,
   };
-  const attestation = issue(req, publicKey, secretKey);
+  const attestation = issue(req, publicKey, secretKey, Date.now(), kid);
   appendAnchor(attestation, DATA_DIR);
   console.log(JSON.stringify(attestation, null, 2));
 }
@@ -103,11 +145,218 @@ function cmdList(): void {
   console.log(JSON.stringify({ anchors: withFlag }, null, 2));
 }
 
+function cmdSignChallenge(): void {
+  const a = parseArgs();
+  const challengePath = a["challenge"];
+  const secretKey = process.env.SUBJECT_SECRET_KEY_B58;
+  if (!challengePath || !secretKey) {
+    console.error("Usage: SUBJECT_SECRET_KEY_B58=... pact-registry sign-challenge --challenge challenge.json [--out proof.json]");
+    process.exit(1);
+  }
+  const p = resolve(process.cwd(), challengePath);
+  if (!existsSync(p)) {
+    console.error("Challenge file not found:", p);
+    process.exit(1);
+  }
+  // Accept the raw challenge or the { challenge } response body
+  const parsed = JSON.parse(readFileSync(p, "utf8"));
+  const challenge = (parsed.challenge ?? parsed) as PossessionChallenge;
+  const proof = signPossessionChallenge(challenge, secretKey);
+  const check = verifyPossessionProof(proof, challenge.subject_signer_public_key_b58);
+  if (!check.ok) {
+    console.error(`Cannot sign challenge: ${check.error} (is SUBJECT_SECRET_KEY_B58 the subject's key?)`);
+    process.exit(1);
+  }
+  const json = JSON.stringify(proof, null, 2);
+  if (a["out"]) {
+    writeFileSync(resolve(process.cwd(), a["out"]), json + "\n", "utf8");
+  } else {
+    console.log(json);
+  }
+}
+
+// Fields signed by the registry; by-subject / Boxer files add others (revoked, reason, ...) that are not signed
+const ATTESTATION_FIELDS = [
+  "anchor_id",
+  "subject_signer_public_key_b58",
+  "anchor_type",
+  "issuer_public_key_b58",
+  "issued_at_ms",
+  "payload",
+  "signature_b58",
+  "scheme",
+  "display_name",
+  "verification_method",
+  "expires_at_ms",
+  "revocation_ref",
+  "evidence_refs",
+  "kid",
+] as const;
+
+function toAttestation(entry: Record<string, unknown>): AnchorAttestation {
+  const att: Record<string, unknown> = {};
+  for (const field of ATTESTATION_FIELDS) {
+    if (entry[field] !== undefined) att[field] = entry[field];
+  }
+  return att as unknown as AnchorAttestation;
+}
+
+function readJsonFile(path: string, label: string): unknown {
+  const p = resolve(process.cwd(), path);
+  if (!existsSync(p)) {
+    console.error(`${label} not found:`, p);
+    process.exit(1);
+  }
+  return JSON.parse(readFileSync(p, "utf8"));
+}
+
+function cmdVerify(): void {
+  const a = parseArgs();
+  if (!a["anchors"] || !a["trusted-issuers"]) {
+    console.error("Usage: pact-registry verify --anchors anchors.json --trusted-issuers trusted_issuers.json [--out verified.json]");
+    process.exit(1);
+  }
+  const file = readJsonFile(a["anchors"], "Anchors file") as { anchors?: Record<string, unknown>[] };
+  const config = readJsonFile(a["trusted-issuers"], "Trusted issuers file") as TrustedIssuersConfig;
+  if (!Array.isArray(file.anchors) || !Array.isArray(config.issuers)) {
+    console.error("Anchors file must have .anchors array and trusted issuers file must have .issuers array");
+    process.exit(1);
+  }
+  let rejected = 0;
+  const anchors = file.anchors.map((entry) => {
+    const result = verifyAttestationOffline(toAttestation(entry), config.issuers, { keyRotations: config.rotations });
+    if (!result.ok) rejected++;
+    const verification = result.ok
+      ? { ok: true, issuer_name: result.issuerName }
+      : { ok: false, reason: result.reason, error: result.error };
+    return { ...entry, verification };
+  });
+  const json = JSON.stringify({ ...file, anchors }, null, 2);
+  if (a["out"]) {
+    writeFileSync(resolve(process.cwd(), a["out"]), json + "\n", "utf8");
+  } else {
+    console.log(json);
+  }
+  console.error(`${anchors.length - rejected} of ${anchors.length} anchor(s) verified; ${rejected} rejected`);
+}
+
+/**
+ * Log root keys and rotations to check tree heads against: --log-key [--rotations], or the issuer keys and
+ * .rotations of --trusted-issuers. Exits with usage when neither is given.
+ */
+function logKeyChains(a: Record<string, string>, usage: string): Array<{ root: string; rotations: KeyRotationStatement[] }> {
+  if (a["log-key"]) {
+    // Accept a rotations array, GET /v1/keys or trusted_issuers.json
+    const parsed = a["rotations"] ? readJsonFile(a["rotations"], "Rotations file") : [];
+    const rotations = Array.isArray(parsed) ? parsed : (parsed as { rotations?: KeyRotationStatement[] }).rotations;
+    return [{ root: a["log-key"], rotations: rotations ?? [] }];
+  }
+  if (a["trusted-issuers"]) {
+    const config = readJsonFile(a["trusted-issuers"], "Trusted issuers file") as TrustedIssuersConfig;
+    if (!Array.isArray(config.issuers) || config.issuers.length === 0) {
+      console.error("Trusted issuers file must have a non-empty .issuers array");
+      process.exit(1);
+    }
+    return config.issuers.map((issuer) => ({ root: issuer.issuer_public_key_b58, rotations: config.rotations ?? [] }));
+  }
+  console.error(usage);
+  console.error("A pinned --log-key or a --trusted-issuers key chain is required: a head signed by any other key proves nothing");
+  process.exit(1);
+}
+
+/** First passing result across the key chains, else the first failure. */
+function checkAgainstChains<T extends LogVerifyResult>(
+  chains: Array<{ root: string; rotations: KeyRotationStatement[] }>,
+  check: (root: string, rotations: KeyRotationStatement[]) => T
+): T {
+  const results = chains.map(({ root, rotations }) => check(root, rotations));
+  return results.find((r) => r.ok) ?? results[0]!;
+}
+
+function cmdVerifyInclusion(): void {
+  const a = parseArgs();
+  const usage =
+    "Usage: pact-registry verify-inclusion --anchor anchor.json --proof inclusion.json --head head.json (--log-key <pubkey> [--rotations keys.json] | --trusted-issuers trusted_issuers.json)";
+  if (!a["anchor"] || !a["proof"] || !a["head"]) {
+    console.error(usage);
+    process.exit(1);
+  }
+  const chains = logKeyChains(a, usage);
+  // Accept the raw attestation or the { anchor_attestation } issue response
+  const parsed = readJsonFile(a["anchor"], "Anchor file") as Record<string, unknown>;
+  const anchor = toAttestation((parsed.anchor_attestation ?? parsed) as Record<string, unknown>);
+  const inclusion = readJsonFile(a["proof"], "Inclusion proof file") as InclusionProofResponse;
+  const head = readJsonFile(a["head"], "Tree head file") as SignedTreeHead;
+  const result = checkAgainstChains(chains, (root, rotations) => verifyAnchorInclusion(anchor, inclusion, head, root, rotations));
+  console.log(JSON.stringify({ anchor_id: anchor.anchor_id, tree_size: head.tree_size, root_hash: head.root_hash, ...result }, null, 2));
+  if (!result.ok) process.exit(1);
+}
+
+function cmdVerifyConsistency(): void {
+  const a = parseArgs();
+  const usage =
+    "Usage: pact-registry verify-consistency --old-head old.json --new-head new.json --proof consistency.json (--log-key <pubkey> [--rotations keys.json] | --trusted-issuers trusted_issuers.json)";
+  if (!a["old-head"] || !a["new-head"] || !a["proof"]) {
+    console.error(usage);
+    process.exit(1);
+  }
+  const chains = logKeyChains(a, usage);
+  const oldHead = readJsonFile(a["old-head"], "Old tree head file") as SignedTreeHead;
+  const newHead = readJsonFile(a["new-head"], "New tree head file") as SignedTreeHead;
+  const consistency = readJsonFile(a["proof"], "Consistency proof file") as ConsistencyProofResponse;
+  const result = checkAgainstChains(chains, (root, rotations) =>
+    verifyTreeHeadConsistency(oldHead, newHead, consistency, root, rotations)
+  );
+  console.log(JSON.stringify({ old_tree_size: oldHead.tree_size, new_tree_size: newHead.tree_size, ...result }, null, 2));
+  if (!result.ok) process.exit(1);
+}
+
+function cmdRotateKey(): void {
+  const a = parseArgs();
+  const path = a["keyset"] ?? KEYSET_PATH;
+  if (!path) {
+    console.error("Usage: pact-registry rotate-key [--keyset keyset.json] [--kid <new kid>] [--at <ms>] (or set REGISTRY_KEYSET_PATH)");
+    process.exit(1);
+  }
+  const p = resolve(process.cwd(), path);
+  let keySet: RegistryKeySet;
+  if (existsSync(p)) {
+    keySet = readKeySet(p);
+  } else if (ISSUER_PUBLIC && ISSUER_SECRET) {
+    keySet = keySetFromEnv(ISSUER_PUBLIC, ISSUER_SECRET);
+  } else {
+    console.error(`Key set ${p} not found and REGISTRY_ISSUER_*_KEY_B58 not set`);
+    process.exit(1);
+  }
+  const rotatedAtMs = a["at"] ? Number(a["at"]) : Date.now();
+  if (!Number.isInteger(rotatedAtMs)) {
+    console.error("--at must be a timestamp in milliseconds");
+    process.exit(1);
+  }
+  let rotated: ReturnType<typeof rotateKeySet>;
+  try {
+    rotated = rotateKeySet(keySet, rotatedAtMs, a["kid"]);
+  } catch (e) {
+    console.error(e instanceof Error ? e.message : e);
+    process.exit(1);
+  }
+  writeKeySet(p, rotated.keySet);
+  // Logging fixes the statement's position, so a later backdated statement from the retired key is ignored
+  appendLogEntry("rotate", rotated.statement, DATA_DIR);
+  console.log(JSON.stringify({ keyset_path: p, rotation: rotated.statement, ...publicKeySet(rotated.keySet) }, null, 2));
+  console.error("Publish the rotation (GET /v1/keys) so verifiers can add it to trusted_issuers.json .rotations");
+}
+
 const cmd = process.argv[2];
 if (cmd === "issue") cmdIssue();
 else if (cmd === "revoke") cmdRevoke();
 else if (cmd === "list") cmdList();
+else if (cmd === "sign-challenge") cmdSignChallenge();
+else if (cmd === "verify") cmdVerify();
+else if (cmd === "verify-inclusion") cmdVerifyInclusion();
+else if (cmd === "verify-consistency") cmdVerifyConsistency();
+else if (cmd === "rotate-key") cmdRotateKey();
 else {
-  console.error("Usage: pact-registry <issue|revoke|list> ...");
+  console.error("Usage: pact-registry <issue|revoke|list|sign-challenge|verify|verify-inclusion|verify-consistency|rotate-key> ...");
   process.exit(1);
 }
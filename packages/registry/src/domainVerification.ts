@@ -0,0 +1,219 @@
+/**
+ * Domain control verification for domain_verified anchors.
+ *
+ * The registry issues a token bound to (domain, subject key). The domain owner publishes it either at
+ * https://<domain>/.well-known/pact-anchor.json or as a TXT record on _pact-anchor.<domain>; the registry
+ * fetches the proof through a resolver (injectable for tests and local stand-ins) and only issues when the
+ * published token and subject key match. The anchor payload carries a sha256 fingerprint of the fetched proof.
+ */
+
+import { createHash, randomBytes } from "node:crypto";
+import { resolveTxt } from "node:dns/promises";
+import type { DomainVerificationMethod } from "./validateDomainVerified.js";
+
+export const DOMAIN_PROOF_VERSION = "pact-anchor-domain/1";
+export const WELL_KNOWN_PATH = "/.well-known/pact-anchor.json";
+export const DNS_TXT_PREFIX = "_pact-anchor.";
+export const DEFAULT_DOMAIN_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+const MAX_WELL_KNOWN_BYTES = 16 * 1024;
+const DEFAULT_RESOLVER_TIMEOUT_MS = 5000;
+
+export interface DomainChallenge {
+  domain: string;
+  subject_signer_public_key_b58: string;
+  token: string;
+  issued_at_ms: number;
+  expires_at_ms: number;
+  well_known_url: string;
+  /** JSON document to serve at well_known_url (a list of such entries is also accepted). */
+  well_known_body: { version: typeof DOMAIN_PROOF_VERSION; token: string; subject_signer_public_key_b58: string };
+  dns_txt_name: string;
+  dns_txt_value: string;
+}
+
+/**
+ * Fetches published proofs. Return null / [] when nothing is published; throw on transport errors.
+ */
+export interface DomainProofResolver {
+  /** Raw body of https://<domain>/.well-known/pact-anchor.json. */
+  fetchWellKnown(domain: string): Promise<string | null>;
+  /** TXT records for a DNS name, each as its character-string chunks (as node:dns returns them). */
+  resolveTxt(name: string): Promise<string[][]>;
+}
+
+export interface DomainVerificationRequest {
+  domain: string;
+  method: DomainVerificationMethod;
+  token: string;
+  subject_signer_public_key_b58: string;
+}
+
+/** Payload of an issued domain_verified anchor. */
+export interface DomainVerifiedPayload {
+  [key: string]: unknown;
+  domain: string;
+  method: DomainVerificationMethod;
+  proof_location: string;
+  proof_fingerprint: string;
+  verified_at_ms: number;
+}
+
+export type DomainVerificationResult = { ok: true; payload: DomainVerifiedPayload } | { ok: false; error: string };
+
+export function wellKnownUrl(domain: string): string {
+  return `https://${domain}${WELL_KNOWN_PATH}`;
+}
+
+export function dnsTxtValue(token: string, subjectPublicKeyB58: string): string {
+  return `pact-anchor-token=${token} subject=${subjectPublicKeyB58}`;
+}
+
+export function createDomainChallenge(
+  domain: string,
+  subjectPublicKeyB58: string,
+  nowMs: number = Date.now(),
+  ttlMs: number = DEFAULT_DOMAIN_TOKEN_TTL_MS
+): DomainChallenge {
+  const token = "pact-domain-" + randomBytes(24).toString("hex");
+  return {
+    domain,
+    subject_signer_public_key_b58: subjectPublicKeyB58,
+    token,
+    issued_at_ms: nowMs,
+    expires_at_ms: nowMs + ttlMs,
+    well_known_url: wellKnownUrl(domain),
+    well_known_body: { version: DOMAIN_PROOF_VERSION, token, subject_signer_public_key_b58: subjectPublicKeyB58 },
+    dns_txt_name: DNS_TXT_PREFIX + domain,
+    dns_txt_value: dnsTxtValue(token, subjectPublicKeyB58),
+  };
+}
+
+function fingerprint(raw: string): string {
+  return "sha256:" + createHash("sha256").update(raw, "utf8").digest("hex");
+}
+
+function wellKnownEntryMatches(entry: unknown, token: string, subject: string): boolean {
+  if (entry == null || typeof entry !== "object") return false;
+  const e = entry as Record<string, unknown>;
+  return e.token === token && e.subject_signer_public_key_b58 === subject;
+}
+
+/** Parse "pact-anchor-token=<token> subject=<pubkey>" (space or semicolon separated). */
+function parseTxtValue(value: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const part of value.split(/[\s;]+/)) {
+    const eq = part.indexOf("=");
+    if (eq > 0) fields[part.slice(0, eq)] = part.slice(eq + 1);
+  }
+  return fields;
+}
+
+/**
+ * Fetch the published proof and check that it carries the token for this subject key.
+ */
+export async function verifyDomainControl(
+  req: DomainVerificationRequest,
+  resolver: DomainProofResolver,
+  nowMs: number = Date.now()
+): Promise<DomainVerificationResult> {
+  if (req.method === "well_known") {
+    const location = wellKnownUrl(req.domain);
+    let raw: string | null;
+    try {
+      raw = await resolver.fetchWellKnown(req.domain);
+    } catch (e) {
+      return { ok: false, error: `Could not fetch ${location}: ${e instanceof Error ? e.message : String(e)}` };
+    }
+    if (raw == null) {
+      return { ok: false, error: `No proof published at ${location}` };
+    }
+    let doc: unknown;
+    try {
+      doc = JSON.parse(raw);
+    } catch {
+      return { ok: false, error: `${location} is not valid JSON` };
+    }
+    const entries = Array.isArray(doc) ? doc : [doc];
+    if (!entries.some((e) => wellKnownEntryMatches(e, req.token, req.subject_signer_public_key_b58))) {
+      return { ok: false, error: `${location} does not publish this token for the subject key` };
+    }
+    return {
+      ok: true,
+      payload: {
+        domain: req.domain,
+        method: "well_known",
+        proof_location: location,
+        proof_fingerprint: fingerprint(raw),
+        verified_at_ms: nowMs,
+      },
+    };
+  }
+
+  const name = DNS_TXT_PREFIX + req.domain;
+  let records: string[][];
+  try {
+    records = await resolver.resolveTxt(name);
+  } catch (e) {
+    return { ok: false, error: `Could not resolve TXT ${name}: ${e instanceof Error ? e.message : String(e)}` };
+  }
+  const match = records
+    .map((chunks) => chunks.join(""))
+    .find((value) => {
+      const fields = parseTxtValue(value);
+      return fields["pact-anchor-token"] === req.token && fields["subject"] === req.subject_signer_public_key_b58;
+    });
+  if (!match) {
+    return { ok: false, error: `No TXT record on ${name} publishes this token for the subject key` };
+  }
+  return {
+    ok: true,
+    payload: {
+      domain: req.domain,
+      method: "dns_txt",
+      proof_location: name,
+      proof_fingerprint: fingerprint(match),
+      verified_at_ms: nowMs,
+    },
+  };
+}
+
+export interface HttpDomainResolverOptions {
+  /** Fetch the well-known document from this base URL instead of https://<domain> (local stand-ins). */
+  wellKnownBaseUrl?: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Default resolver: HTTPS fetch (no redirects, size-capped) and node:dns TXT lookup.
+ */
+export function createHttpDomainResolver(options: HttpDomainResolverOptions = {}): DomainProofResolver {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_RESOLVER_TIMEOUT_MS;
+  return {
+    async fetchWellKnown(domain: string): Promise<string | null> {
+      const url = options.wellKnownBaseUrl
+        ? options.wellKnownBaseUrl.replace(/\/$/, "") + WELL_KNOWN_PATH
+        : wellKnownUrl(domain);
+      const res = await fetch(url, { redirect: "error", signal: AbortSignal.timeout(timeoutMs) });
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      if (Number(res.headers.get("content-length")) > MAX_WELL_KNOWN_BYTES) {
+        throw new Error(`proof document exceeds ${MAX_WELL_KNOWN_BYTES} bytes`);
+      }
+      const body = await res.text();
+      if (Buffer.byteLength(body, "utf8") > MAX_WELL_KNOWN_BYTES) {
+        throw new Error(`proof document exceeds ${MAX_WELL_KNOWN_BYTES} bytes`);
+      }
+      return body;
+    },
+    async resolveTxt(name: string): Promise<string[][]> {
+      try {
+        return await resolveTxt(name);
+      } catch (e) {
+        const code = (e as NodeJS.ErrnoException).code;
+        if (code === "ENOTFOUND" || code === "ENODATA") return [];
+        throw e;
+      }
+    },
+  };
+}
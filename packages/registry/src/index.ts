@@ -1,6 +1,100 @@
 export { issue, computeAnchorId } from "./issue.js";
-export { verifyAttestationOffline, verifyAnchorId, computeExpectedAnchorId } from "./verify.js";
+export {
+  verifyAttestationOffline,
+  verifyAttestationPossession,
+  checkIssuerConstraints,
+  checkKeyPeriod,
+  anchorSubjectDomain,
+  verifyAnchorId,
+  computeExpectedAnchorId,
+} from "./verify.js";
+export type { VerifyResult, VerifyOptions } from "./verify.js";
+export {
+  createPossessionChallenge,
+  signPossessionChallenge,
+  verifyPossessionProof,
+  computePossessionProofHash,
+  possessionProofRef,
+  POSSESSION_CHALLENGE_VERSION,
+  POSSESSION_PROOF_REF_PREFIX,
+} from "./possession.js";
+export type { PossessionChallenge, PossessionProof, PossessionVerifyResult } from "./possession.js";
+export {
+  createDomainChallenge,
+  createHttpDomainResolver,
+  verifyDomainControl,
+  wellKnownUrl,
+  dnsTxtValue,
+  DOMAIN_PROOF_VERSION,
+} from "./domainVerification.js";
+export type {
+  DomainChallenge,
+  DomainProofResolver,
+  DomainVerificationRequest,
+  DomainVerificationResult,
+  DomainVerifiedPayload,
+  HttpDomainResolverOptions,
+} from "./domainVerification.js";
+export { validateDomainVerifiedPayload, normalizeDomain, DOMAIN_VERIFICATION_METHODS } from "./validateDomainVerified.js";
+export type { DomainVerificationMethod } from "./validateDomainVerified.js";
+export {
+  createLogEntry,
+  leafHash,
+  merkleRoot,
+  inclusionProof,
+  consistencyProof,
+  verifyInclusion,
+  verifyConsistency,
+  signTreeHead,
+  verifyTreeHead,
+  verifyAnchorInclusion,
+  verifyTreeHeadConsistency,
+  TREE_HEAD_VERSION,
+} from "./transparencyLog.js";
+export type {
+  AnchorInclusionResult,
+  ConsistencyProofResponse,
+  InclusionProofResponse,
+  LogEntry,
+  LogEventType,
+  LogVerifyResult,
+  SignedTreeHead,
+} from "./transparencyLog.js";
+export {
+  computeKid,
+  createRotationStatement,
+  verifyRotationStatement,
+  resolveKeyChain,
+  rotateKeySet,
+  activeSigningKey,
+  loadRegistryKeySet,
+  publicKeySet,
+  KEY_ROTATION_VERSION,
+} from "./keys.js";
+export type {
+  KeyRotationStatement,
+  RegistryKey,
+  RegistryKeySet,
+  SigningKey,
+  TrustedKeyPeriod,
+} from "./keys.js";
 export { fetchRevocationStatus } from "./revocation_check.js";
-export type { AnchorAttestation, IssueRequest, RevokeRequest, TrustedIssuer, TrustedIssuersConfig } from "./types.js";
+export { ANCHOR_REJECTION_REASONS } from "./types.js";
+export type {
+  AnchorAttestation,
+  AnchorRejectionReason,
+  IssueRequest,
+  PossessionProofRecord,
+  RevokeRequest,
+  TrustedIssuer,
+  TrustedIssuersConfig,
+} from "./types.js";
 export type { RevocationStatus } from "./revocation_check.js";
-export { readAnchors, findAnchorsBySubject, readRevocations, getRevocation } from "./store.js";
+export {
+  readAnchors,
+  findAnchorsBySubject,
+  readRevocations,
+  getRevocation,
+  getPossessionProof,
+  readLogEntries,
+} from "./store.js";
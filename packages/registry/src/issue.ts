@@ -17,9 +17,10 @@ export function issue(
   req: IssueRequest,
   issuerPublicKeyB58: string,
   issuerSecretKeyB58: string,
-  issuedAtMs: number = Date.now()
+  issuedAtMs: number = Date.now(),
+  kid?: string
 ): AnchorAttestation {
-  const attWithoutIdAndSig: Omit<AnchorAttestation, "anchor_id" | "signature_b58"> = {
+  const fields: Omit<AnchorAttestation, "anchor_id" | "signature_b58"> = {
     subject_signer_public_key_b58: req.subject_signer_public_key_b58,
     anchor_type: req.anchor_type as AnchorAttestation["anchor_type"],
     issuer_public_key_b58: issuerPublicKeyB58,
@@ -31,7 +32,12 @@ export function issue(
     expires_at_ms: req.expires_at_ms ?? null,
     revocation_ref: null,
     evidence_refs: req.evidence_refs ?? null,
+    kid,
   };
+  // Drop unset optional fields so the stored (JSON) attestation hashes and verifies the same
+  const attWithoutIdAndSig = Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => value !== undefined)
+  ) as Omit<AnchorAttestation, "anchor_id" | "signature_b58">;
   const canonicalForHash = stableCanonicalize(attWithoutIdAndSig);
   const anchor_id = computeAnchorId(canonicalForHash);
   const revocation_ref: string | null = `revocation:${anchor_id}`;
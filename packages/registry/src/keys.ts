@@ -0,0 +1,248 @@
+/**
+ * Registry signing keys: a key set with key IDs and activation/retirement times, and rotation statements.
+ *
+ * On rotation the outgoing key signs a statement naming its successor and the rotation time. Verifiers pin
+ * only the first (root) key in trusted_issuers.json and follow the statement chain to learn which key was
+ * valid when an anchor was issued.
+ */
+
+import { createHash } from "node:crypto";
+import { readFileSync, writeFileSync, existsSync } from "node:fs";
+import nacl from "tweetnacl";
+import bs58 from "bs58";
+import { stableCanonicalize } from "./canonical.js";
+import { signPayload } from "./sign.js";
+
+export const KEY_ROTATION_VERSION = "pact-registry-rotation/1";
+
+export interface RegistryKey {
+  kid: string;
+  public_key_b58: string;
+  activated_at_ms: number;
+  /** Set when the key was rotated out; null while it is the active signing key. */
+  retired_at_ms?: number | null;
+}
+
+/** Key set entry as stored on the registry host (secret present for keys this registry can sign with). */
+export interface RegistryKeyWithSecret extends RegistryKey {
+  secret_key_b58?: string;
+}
+
+export interface KeyRotationStatement {
+  version: typeof KEY_ROTATION_VERSION;
+  previous_kid: string;
+  previous_public_key_b58: string;
+  next_kid: string;
+  next_public_key_b58: string;
+  /** The previous key retires and the next key activates at this time. */
+  rotated_at_ms: number;
+  /** Previous key's Ed25519 signature over stableCanonicalize(statement without signature_b58). */
+  signature_b58: string;
+}
+
+export interface RegistryKeySet {
+  keys: RegistryKeyWithSecret[];
+  rotations: KeyRotationStatement[];
+}
+
+/** A key and the issuance window in which a verifier trusts it. Bounds are [from, until); null is open. */
+export interface TrustedKeyPeriod {
+  /** Null for the root key until a rotation statement names it. */
+  kid: string | null;
+  public_key_b58: string;
+  valid_from_ms: number | null;
+  valid_until_ms: number | null;
+}
+
+export interface SigningKey {
+  kid: string;
+  publicKey: string;
+  secretKey: string;
+}
+
+/** Default key ID: "kid-" + first 16 hex chars of sha256(public key bytes). */
+export function computeKid(publicKeyB58: string): string {
+  return "kid-" + createHash("sha256").update(bs58.decode(publicKeyB58)).digest("hex").slice(0, 16);
+}
+
+export function createRotationStatement(
+  previous: { kid: string; public_key_b58: string },
+  previousSecretKeyB58: string,
+  next: { kid: string; public_key_b58: string },
+  rotatedAtMs: number = Date.now()
+): KeyRotationStatement {
+  const statement = {
+    version: KEY_ROTATION_VERSION,
+    previous_kid: previous.kid,
+    previous_public_key_b58: previous.public_key_b58,
+    next_kid: next.kid,
+    next_public_key_b58: next.public_key_b58,
+    rotated_at_ms: rotatedAtMs,
+  } as const;
+  return { ...statement, signature_b58: signPayload(stableCanonicalize(statement), previousSecretKeyB58) };
+}
+
+/** Check a rotation statement's shape and that the previous key signed it. */
+export function verifyRotationStatement(statement: KeyRotationStatement): { ok: boolean; error?: string } {
+  if (
+    !statement ||
+    statement.version !== KEY_ROTATION_VERSION ||
+    typeof statement.previous_kid !== "string" ||
+    typeof statement.previous_public_key_b58 !== "string" ||
+    typeof statement.next_kid !== "string" ||
+    typeof statement.next_public_key_b58 !== "string" ||
+    typeof statement.rotated_at_ms !== "number" ||
+    typeof statement.signature_b58 !== "string"
+  ) {
+    return { ok: false, error: "Malformed rotation statement" };
+  }
+  try {
+    const { signature_b58, ...unsigned } = statement;
+    const msg = new TextEncoder().encode(stableCanonicalize(unsigned));
+    const valid = nacl.sign.detached.verify(
+      msg,
+      bs58.decode(signature_b58),
+      bs58.decode(statement.previous_public_key_b58)
+    );
+    return valid ? { ok: true } : { ok: false, error: "Invalid rotation statement signature" };
+  } catch {
+    return { ok: false, error: "Invalid rotation statement signature" };
+  }
+}
+
+/**
+ * Follow validly signed rotation statements from a trusted root key. Each key is trusted from its activation until
+ * the next rotation. Statements are taken in log order (as appended to the transparency log and served by
+ * GET /v1/keys): only the current key can rotate, and not to a time before its own activation (the last logged
+ * rotation). A retired key cannot fork the chain with a later or backdated statement; such statements are ignored.
+ */
+export function resolveKeyChain(rootPublicKeyB58: string, rotations: KeyRotationStatement[] = []): TrustedKeyPeriod[] {
+  const chain: TrustedKeyPeriod[] = [
+    { kid: null, public_key_b58: rootPublicKeyB58, valid_from_ms: null, valid_until_ms: null },
+  ];
+  const seen = new Set([rootPublicKeyB58]);
+  for (const r of rotations) {
+    const current = chain[chain.length - 1]!;
+    if (
+      !verifyRotationStatement(r).ok ||
+      r.previous_public_key_b58 !== current.public_key_b58 ||
+      (current.kid !== null && r.previous_kid !== current.kid) ||
+      (current.valid_from_ms !== null && r.rotated_at_ms < current.valid_from_ms) ||
+      seen.has(r.next_public_key_b58)
+    ) {
+      continue;
+    }
+    current.kid = r.previous_kid;
+    current.valid_until_ms = r.rotated_at_ms;
+    seen.add(r.next_public_key_b58);
+    chain.push({
+      kid: r.next_kid,
+      public_key_b58: r.next_public_key_b58,
+      valid_from_ms: r.rotated_at_ms,
+      valid_until_ms: null,
+    });
+  }
+  return chain;
+}
+
+/** The chain key that was active at timestampMs ([valid_from, valid_until)), or null. */
+export function keyActiveAt(chain: TrustedKeyPeriod[], timestampMs: number): TrustedKeyPeriod | null {
+  return (
+    chain.find(
+      (k) =>
+        (k.valid_from_ms === null || timestampMs >= k.valid_from_ms) &&
+        (k.valid_until_ms === null || timestampMs < k.valid_until_ms)
+    ) ?? null
+  );
+}
+
+/** Single-key set from REGISTRY_ISSUER_PUBLIC_KEY_B58 / REGISTRY_ISSUER_SECRET_KEY_B58. */
+export function keySetFromEnv(publicKeyB58: string, secretKeyB58: string): RegistryKeySet {
+  return {
+    keys: [{ kid: computeKid(publicKeyB58), public_key_b58: publicKeyB58, secret_key_b58: secretKeyB58, activated_at_ms: 0 }],
+    rotations: [],
+  };
+}
+
+export function readKeySet(path: string): RegistryKeySet {
+  const parsed = JSON.parse(readFileSync(path, "utf8")) as Partial<RegistryKeySet>;
+  if (!Array.isArray(parsed.keys) || parsed.keys.length === 0) {
+    throw new Error(`Key set ${path} must have a non-empty .keys array`);
+  }
+  return { keys: parsed.keys, rotations: parsed.rotations ?? [] };
+}
+
+export function writeKeySet(path: string, keySet: RegistryKeySet): void {
+  writeFileSync(path, JSON.stringify(keySet, null, 2) + "\n", { encoding: "utf8", mode: 0o600 });
+}
+
+/**
+ * Key set from REGISTRY_KEYSET_PATH when that file exists, else the single env key. Null if neither is configured.
+ */
+export function loadRegistryKeySet(env: NodeJS.ProcessEnv = process.env): RegistryKeySet | null {
+  const path = env.REGISTRY_KEYSET_PATH;
+  if (path && existsSync(path)) return readKeySet(path);
+  if (env.REGISTRY_ISSUER_PUBLIC_KEY_B58 && env.REGISTRY_ISSUER_SECRET_KEY_B58) {
+    return keySetFromEnv(env.REGISTRY_ISSUER_PUBLIC_KEY_B58, env.REGISTRY_ISSUER_SECRET_KEY_B58);
+  }
+  return null;
+}
+
+/** The key to sign with at nowMs: the latest-activated, unretired key with a secret. */
+export function activeSigningKey(keySet: RegistryKeySet, nowMs: number = Date.now()): SigningKey {
+  const active = keySet.keys
+    .filter(
+      (k) => k.secret_key_b58 && k.activated_at_ms <= nowMs && (k.retired_at_ms == null || k.retired_at_ms > nowMs)
+    )
+    .sort((a, b) => b.activated_at_ms - a.activated_at_ms)[0];
+  if (!active) {
+    throw new Error("No active signing key in the registry key set");
+  }
+  return { kid: active.kid, publicKey: active.public_key_b58, secretKey: active.secret_key_b58! };
+}
+
+/** Key set without secrets, as served by GET /v1/keys. */
+export function publicKeySet(keySet: RegistryKeySet): { keys: RegistryKey[]; rotations: KeyRotationStatement[] } {
+  return {
+    keys: keySet.keys.map(({ secret_key_b58: _secret, ...key }) => key),
+    rotations: keySet.rotations,
+  };
+}
+
+/**
+ * Rotate to a new keypair at rotatedAtMs: the active key signs a rotation statement and is retired.
+ * rotatedAtMs may not precede the active key's activation or the last rotation, which verifiers would ignore.
+ * Returns the updated key set and the statement.
+ */
+export function rotateKeySet(
+  keySet: RegistryKeySet,
+  rotatedAtMs: number = Date.now(),
+  nextKid?: string
+): { keySet: RegistryKeySet; statement: KeyRotationStatement } {
+  const lastRotationMs = keySet.rotations.reduce((max, r) => Math.max(max, r.rotated_at_ms), -Infinity);
+  if (rotatedAtMs < lastRotationMs) {
+    throw new Error(`Rotation time ${rotatedAtMs} precedes the last rotation at ${lastRotationMs}`);
+  }
+  const previous = activeSigningKey(keySet, rotatedAtMs);
+  const kp = nacl.sign.keyPair();
+  const nextPublic = bs58.encode(Buffer.from(kp.publicKey));
+  const kid = nextKid ?? computeKid(nextPublic);
+  if (keySet.keys.some((k) => k.kid === kid)) {
+    throw new Error(`Key ID ${kid} is already in the key set`);
+  }
+  const statement = createRotationStatement(
+    { kid: previous.kid, public_key_b58: previous.publicKey },
+    previous.secretKey,
+    { kid, public_key_b58: nextPublic },
+    rotatedAtMs
+  );
+  const keys = keySet.keys.map((k) => (k.kid === previous.kid ? { ...k, retired_at_ms: rotatedAtMs } : k));
+  keys.push({
+    kid,
+    public_key_b58: nextPublic,
+    secret_key_b58: bs58.encode(Buffer.from(kp.secretKey)),
+    activated_at_ms: rotatedAtMs,
+    retired_at_ms: null,
+  });
+  return { keySet: { keys, rotations: [...keySet.rotations, statement] }, statement };
+}
@@ -0,0 +1,105 @@
+/**
+ * Proof of possession: the subject signs a registry-issued nonce with its Ed25519 key
+ * before an anchor is issued for that key.
+ *
+ * The signed message is the canonical challenge. The proof hash is recorded in the anchor's
+ * evidence_refs as "possession_proof:sha256:<hex>" so the proof can be rechecked offline.
+ * The challenge names the registry key (kid and public key) active when it was issued; if the registry rotates
+ * before issuance, verifiers accept it through the key chain (verifyAttestationPossession).
+ */
+
+import { createHash, randomBytes } from "node:crypto";
+import nacl from "tweetnacl";
+import bs58 from "bs58";
+import { stableCanonicalize } from "./canonical.js";
+import { signPayload } from "./sign.js";
+import type { SigningKey } from "./keys.js";
+
+export const POSSESSION_CHALLENGE_VERSION = "pact-anchor-pop/1";
+export const POSSESSION_PROOF_REF_PREFIX = "possession_proof:";
+export const DEFAULT_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+export interface PossessionChallenge {
+  version: typeof POSSESSION_CHALLENGE_VERSION;
+  nonce: string;
+  subject_signer_public_key_b58: string;
+  registry_kid: string;
+  registry_public_key_b58: string;
+  issued_at_ms: number;
+  expires_at_ms: number;
+}
+
+export interface PossessionProof {
+  challenge: PossessionChallenge;
+  /** Subject's Ed25519 signature over stableCanonicalize(challenge). */
+  signature_b58: string;
+}
+
+export interface PossessionVerifyResult {
+  ok: boolean;
+  error?: string;
+}
+
+export function createPossessionChallenge(
+  subjectPublicKeyB58: string,
+  registryKey: Pick<SigningKey, "kid" | "publicKey">,
+  nowMs: number = Date.now(),
+  ttlMs: number = DEFAULT_CHALLENGE_TTL_MS
+): PossessionChallenge {
+  return {
+    version: POSSESSION_CHALLENGE_VERSION,
+    nonce: randomBytes(32).toString("hex"),
+    subject_signer_public_key_b58: subjectPublicKeyB58,
+    registry_kid: registryKey.kid,
+    registry_public_key_b58: registryKey.publicKey,
+    issued_at_ms: nowMs,
+    expires_at_ms: nowMs + ttlMs,
+  };
+}
+
+/** Sign a challenge with the subject's secret key (subject side). */
+export function signPossessionChallenge(challenge: PossessionChallenge, subjectSecretKeyB58: string): PossessionProof {
+  return { challenge, signature_b58: signPayload(stableCanonicalize(challenge), subjectSecretKeyB58) };
+}
+
+/**
+ * Verify a proof for a subject key: version, subject match and signature.
+ * Nonce freshness and single use are checked by the registry at issuance, not here.
+ */
+export function verifyPossessionProof(proof: PossessionProof, subjectPublicKeyB58: string): PossessionVerifyResult {
+  const challenge = proof?.challenge;
+  if (
+    !challenge ||
+    typeof challenge !== "object" ||
+    challenge.version !== POSSESSION_CHALLENGE_VERSION ||
+    typeof challenge.nonce !== "string" ||
+    !challenge.nonce ||
+    typeof challenge.registry_kid !== "string" ||
+    typeof challenge.registry_public_key_b58 !== "string" ||
+    typeof challenge.issued_at_ms !== "number" ||
+    typeof challenge.expires_at_ms !== "number" ||
+    typeof proof.signature_b58 !== "string"
+  ) {
+    return { ok: false, error: "Malformed possession proof" };
+  }
+  if (challenge.subject_signer_public_key_b58 !== subjectPublicKeyB58) {
+    return { ok: false, error: "Possession proof is for a different subject key" };
+  }
+  try {
+    const msg = new TextEncoder().encode(stableCanonicalize(challenge));
+    const valid = nacl.sign.detached.verify(msg, bs58.decode(proof.signature_b58), bs58.decode(subjectPublicKeyB58));
+    return valid ? { ok: true } : { ok: false, error: "Invalid possession proof signature" };
+  } catch {
+    return { ok: false, error: "Invalid possession proof signature" };
+  }
+}
+
+export function computePossessionProofHash(proof: PossessionProof): string {
+  const canonical = stableCanonicalize({ challenge: proof.challenge, signature_b58: proof.signature_b58 });
+  return "sha256:" + createHash("sha256").update(canonical, "utf8").digest("hex");
+}
+
+/** evidence_refs entry for a proof: "possession_proof:sha256:<hex>". */
+export function possessionProofRef(proof: PossessionProof): string {
+  return POSSESSION_PROOF_REF_PREFIX + computePossessionProofHash(proof);
+}
@@ -1,10 +1,15 @@
 #!/usr/bin/env node
 /**
  * Pact Registry HTTP service: issue and revoke anchor attestations.
+ * Issuance requires a proof of possession: the subject signs a nonce from POST /v1/anchors/challenge.
+ * domain_verified anchors additionally require a token from POST /v1/domains/challenge published on the domain.
+ * Issue and revoke events are appended to a Merkle transparency log with signed tree heads (GET /v1/log/*).
+ * Signing keys come from a rotatable key set (REGISTRY_KEYSET_PATH) or the single env key; see GET /v1/keys.
  */
 
 import { config } from "dotenv";
 import { resolve } from "node:path";
+import { pathToFileURL } from "node:url";
 // Load .env then .env.registry (repo root when run from packages/registry)
 config();
 if (!process.env.REGISTRY_ISSUER_SECRET_KEY_B58 || !process.env.REGISTRY_ISSUER_PUBLIC_KEY_B58) {
@@ -23,15 +28,34 @@ import {
   findAnchorsBySubject,
   getRevocation,
   getAnchorsPath,
+  appendPossessionProof,
+  getPossessionProof,
+  readLogEntries,
 } from "./store.js";
 import { issue } from "./issue.js";
+import {
+  createPossessionChallenge,
+  possessionProofRef,
+  verifyPossessionProof,
+  type PossessionChallenge,
+} from "./possession.js";
+import { stableCanonicalize } from "./canonical.js";
+import {
+  createDomainChallenge,
+  createHttpDomainResolver,
+  verifyDomainControl,
+  type DomainChallenge,
+} from "./domainVerification.js";
+import { activeSigningKey, loadRegistryKeySet, publicKeySet, type RegistryKeySet, type SigningKey } from "./keys.js";
+import { consistencyProof, inclusionProof, leafHash, merkleRoot, signTreeHead } from "./transparencyLog.js";
 import { validatePlatformVerifiedPayload } from "./validatePlatformVerified.js";
 import { validateServiceAccountPayload } from "./validateServiceAccount.js";
 import { validateOidcPayload } from "./validateOidc.js";
+import { validateDomainVerifiedPayload, normalizeDomain, type DomainVerificationMethod } from "./validateDomainVerified.js";
 import { validateBase58Field } from "./validateBase58.js";
 import type { IssueRequest, RevokeRequest } from "./types.js";
 
-const app = express();
+export const app = express();
 app.use(express.json({ limit: "64kb" }));
 
 // Root: minimal response when opening the registry URL in a browser (no CSP to avoid blocking DevTools)
@@ -40,7 +64,19 @@ app.get("/", (_req, res) => {
     service: "Pact Registry",
     version: "0.1.0",
     docs: "See docs/IDENTITY_LAYER_MVP.md",
-    endpoints: ["POST /v1/anchors/issue", "POST /v1/anchors/revoke", "GET /v1/anchors/by-subject/:key", "GET /v1/revocations/:anchor_id"],
+    endpoints: [
+      "POST /v1/anchors/challenge",
+      "POST /v1/domains/challenge",
+      "POST /v1/anchors/issue",
+      "POST /v1/anchors/revoke",
+      "GET /v1/anchors/by-subject/:key",
+      "GET /v1/revocations/:anchor_id",
+      "GET /v1/possession-proofs/:anchor_id",
+      "GET /v1/log/head",
+      "GET /v1/log/inclusion/:anchor_id",
+      "GET /v1/log/consistency",
+      "GET /v1/keys",
+    ],
   });
 });
 
@@ -52,16 +88,39 @@ app.get("/.well-known/appspecific/com.chrome.devtools.json", (_req, res) => {
 const API_KEY = process.env.REGISTRY_API_KEY || "dev-api-key";
 const DATA_DIR = process.env.REGISTRY_DATA_DIR || undefined; // uses default in store
 
-function getIssuerKeys(): { publicKey: string; secretKey: string } {
-  const secret = process.env.REGISTRY_ISSUER_SECRET_KEY_B58;
-  const publicKey = process.env.REGISTRY_ISSUER_PUBLIC_KEY_B58;
-  if (!secret || !publicKey) {
+// Open possession challenges by nonce (in memory; single use, expire after the challenge TTL)
+const pendingChallenges = new Map<string, PossessionChallenge>();
+
+// Open domain tokens by token (in memory; single use). REGISTRY_DOMAIN_WELL_KNOWN_BASE_URL points the
+// well-known fetch at a local stand-in instead of https://<domain> (dev/test only).
+const pendingDomainChallenges = new Map<string, DomainChallenge>();
+const domainResolver = createHttpDomainResolver({
+  wellKnownBaseUrl: process.env.REGISTRY_DOMAIN_WELL_KNOWN_BASE_URL || undefined,
+});
+
+function pruneExpiredChallenges(now: number): void {
+  for (const [nonce, challenge] of pendingChallenges) {
+    if (challenge.expires_at_ms < now) pendingChallenges.delete(nonce);
+  }
+  for (const [token, challenge] of pendingDomainChallenges) {
+    if (challenge.expires_at_ms < now) pendingDomainChallenges.delete(token);
+  }
+}
+
+// Read per call so a rotation written by `pact-registry rotate-key` takes effect without a restart
+function getKeySet(): RegistryKeySet {
+  const keySet = loadRegistryKeySet();
+  if (!keySet) {
     throw new Error(
-      "REGISTRY_ISSUER_SECRET_KEY_B58 and REGISTRY_ISSUER_PUBLIC_KEY_B58 must be set. " +
+      "REGISTRY_ISSUER_SECRET_KEY_B58 and REGISTRY_ISSUER_PUBLIC_KEY_B58 (or REGISTRY_KEYSET_PATH) must be set. " +
         "From repo root run: node scripts/gen_registry_keys.mjs (creates .env.registry)"
     );
   }
-  return { publicKey, secretKey: secret };
+  return keySet;
+}
+
+function getIssuerKeys(): SigningKey {
+  return activeSigningKey(getKeySet());
 }
 
 function requireApiKey(req: express.Request, res: express.Response, next: express.NextFunction): void {
@@ -73,10 +132,65 @@ function requireApiKey(req: express.Request, res: express.Response, next: expres
   next();
 }
 
+// POST /v1/anchors/challenge
+// Body: { subject_signer_public_key_b58 }. The subject signs the returned challenge (canonical JSON) and
+// sends { challenge, signature_b58 } as possession_proof to POST /v1/anchors/issue.
+app.post("/v1/anchors/challenge", requireApiKey, (req, res) => {
+  try {
+    const issuerKey = getIssuerKeys();
+    const subject = (req.body as { subject_signer_public_key_b58?: unknown })?.subject_signer_public_key_b58;
+    if (typeof subject !== "string" || !subject) {
+      res.status(400).json({ error: "Missing required field: subject_signer_public_key_b58" });
+      return;
+    }
+    try {
+      validateBase58Field(subject, "subject_signer_public_key_b58");
+    } catch (e) {
+      res.status(400).json({ error: e instanceof Error ? e.message : String(e) });
+      return;
+    }
+    const now = Date.now();
+    pruneExpiredChallenges(now);
+    const challenge = createPossessionChallenge(subject, issuerKey, now);
+    pendingChallenges.set(challenge.nonce, challenge);
+    res.status(201).json({ challenge });
+  } catch (e) {
+    res.status(500).json({ error: String(e instanceof Error ? e.message : e) });
+  }
+});
+
+// POST /v1/domains/challenge
+// Body: { subject_signer_public_key_b58, domain }. Returns a token and where to publish it
+// (well_known_url + well_known_body, or dns_txt_name + dns_txt_value); valid 24 hours.
+app.post("/v1/domains/challenge", requireApiKey, (req, res) => {
+  try {
+    const { subject_signer_public_key_b58: subject, domain } = (req.body ?? {}) as Record<string, unknown>;
+    if (typeof subject !== "string" || !subject || domain == null) {
+      res.status(400).json({ error: "Missing required fields: subject_signer_public_key_b58, domain" });
+      return;
+    }
+    let normalized: string;
+    try {
+      validateBase58Field(subject, "subject_signer_public_key_b58");
+      normalized = normalizeDomain(domain);
+    } catch (e) {
+      res.status(400).json({ error: e instanceof Error ? e.message : String(e) });
+      return;
+    }
+    const now = Date.now();
+    pruneExpiredChallenges(now);
+    const challenge = createDomainChallenge(normalized, subject, now);
+    pendingDomainChallenges.set(challenge.token, challenge);
+    res.status(201).json({ domain_challenge: challenge });
+  } catch (e) {
+    res.status(500).json({ error: String(e instanceof Error ? e.message : e) });
+  }
+});
+
 // POST /v1/anchors/issue
-app.post("/v1/anchors/issue", requireApiKey, (req, res) => {
+app.post("/v1/anchors/issue", requireApiKey, async (req, res) => {
   try {
-    const { publicKey, secretKey } = getIssuerKeys();
+    const { kid, publicKey, secretKey } = getIssuerKeys();
     const body = req.body as IssueRequest;
     if (!body.subject_signer_public_key_b58 || !body.anchor_type || !body.payload) {
       res.status(400).json({
@@ -94,24 +208,99 @@ app.post("/v1/anchors/issue", requireApiKey, (req, res) => {
       validatePlatformVerifiedPayload(body.anchor_type, body.payload as Record<string, unknown>);
       validateServiceAccountPayload(body.anchor_type, body.payload as Record<string, unknown>);
       validateOidcPayload(body.anchor_type, body.payload as Record<string, unknown>);
+      validateDomainVerifiedPayload(body.anchor_type, body.payload as Record<string, unknown>);
     } catch (e) {
       res.status(400).json({ error: e instanceof Error ? e.message : String(e) });
       return;
     }
+    const proof = body.possession_proof;
+    if (!proof) {
+      res.status(400).json({
+        error: "Missing possession_proof: request a challenge from POST /v1/anchors/challenge and sign it with the subject key",
+      });
+      return;
+    }
+    const pending = proof.challenge?.nonce ? pendingChallenges.get(proof.challenge.nonce) : undefined;
+    if (!pending || stableCanonicalize(pending) !== stableCanonicalize(proof.challenge)) {
+      res.status(400).json({ error: "Unknown or already used possession challenge" });
+      return;
+    }
+    if (pending.expires_at_ms < Date.now()) {
+      pendingChallenges.delete(pending.nonce);
+      res.status(400).json({ error: "Possession challenge expired; request a new one" });
+      return;
+    }
+    const proofResult = verifyPossessionProof(proof, body.subject_signer_public_key_b58);
+    if (!proofResult.ok) {
+      res.status(400).json({ error: proofResult.error });
+      return;
+    }
+    const evidenceRefs = [...(body.evidence_refs ?? []), possessionProofRef(proof)];
+
+    // domain_verified: fetch the published token; the registry builds the payload from the verified proof
+    let payload = body.payload;
+    let domainChallenge: DomainChallenge | undefined;
+    if (body.anchor_type === "domain_verified") {
+      const token = String(body.payload.domain_token).trim();
+      domainChallenge = pendingDomainChallenges.get(token);
+      const domain = normalizeDomain(body.payload.domain);
+      if (
+        !domainChallenge ||
+        domainChallenge.domain !== domain ||
+        domainChallenge.subject_signer_public_key_b58 !== body.subject_signer_public_key_b58
+      ) {
+        res.status(400).json({ error: "Unknown or already used domain token for this domain and subject" });
+        return;
+      }
+      if (domainChallenge.expires_at_ms < Date.now()) {
+        pendingDomainChallenges.delete(token);
+        res.status(400).json({ error: "Domain token expired; request a new one" });
+        return;
+      }
+      const verification = await verifyDomainControl(
+        {
+          domain,
+          method: (body.payload.method as DomainVerificationMethod | undefined) ?? "well_known",
+          token,
+          subject_signer_public_key_b58: body.subject_signer_public_key_b58,
+        },
+        domainResolver
+      );
+      if (!verification.ok) {
+        res.status(400).json({ error: verification.error });
+        return;
+      }
+      payload = verification.payload;
+    }
+
+    // Consume the challenge and token only once everything verified (and not used while awaiting the fetch)
+    if (
+      pendingChallenges.get(pending.nonce) !== pending ||
+      (domainChallenge && pendingDomainChallenges.get(domainChallenge.token) !== domainChallenge)
+    ) {
+      res.status(400).json({ error: "Challenge already used" });
+      return;
+    }
+    pendingChallenges.delete(pending.nonce);
+    if (domainChallenge) pendingDomainChallenges.delete(domainChallenge.token);
+
     const attestation = issue(
       {
         subject_signer_public_key_b58: body.subject_signer_public_key_b58,
         anchor_type: body.anchor_type,
-        payload: body.payload,
+        payload,
         display_name: body.display_name,
         verification_method: body.verification_method,
         expires_at_ms: body.expires_at_ms,
-        evidence_refs: body.evidence_refs,
+        evidence_refs: evidenceRefs,
       },
       publicKey,
-      secretKey
+      secretKey,
+      Date.now(),
+      kid
     );
     appendAnchor(attestation, DATA_DIR);
+    appendPossessionProof({ anchor_id: attestation.anchor_id, proof_ref: possessionProofRef(proof), proof }, DATA_DIR);
     res.status(201).json({ anchor_attestation: attestation });
   } catch (e) {
     const msg = e instanceof Error ? e.message : String(e);
@@ -184,6 +373,99 @@ app.get("/v1/revocations/:anchor_id", (req, res) => {
   }
 });
 
+// GET /v1/possession-proofs/:anchor_id
+// Returns the subject's signed proof so verifiers can recheck it offline against evidence_refs.
+app.get("/v1/possession-proofs/:anchor_id", (req, res) => {
+  try {
+    const anchor_id = decodeURIComponent(req.params.anchor_id);
+    const record = getPossessionProof(anchor_id, DATA_DIR);
+    if (!record) {
+      res.status(404).json({ error: "No possession proof for anchor" });
+      return;
+    }
+    res.json(record);
+  } catch (e) {
+    res.status(500).json({ error: String(e instanceof Error ? e.message : e) });
+  }
+});
+
+// GET /v1/keys
+// Public key set (kid, activation/retirement) and signed rotation statements. Verifiers pin the first key in
+// trusted_issuers.json and pass the rotations to verifyAttestationOffline.
+app.get("/v1/keys", (_req, res) => {
+  try {
+    res.json(publicKeySet(getKeySet()));
+  } catch (e) {
+    res.status(500).json({ error: String(e instanceof Error ? e.message : e) });
+  }
+});
+
+/** Parse a tree size query parameter (0..max); absent means max. Returns null if invalid. */
+function parseTreeSize(value: unknown, max: number): number | null {
+  if (value === undefined) return max;
+  const n = Number(value);
+  return Number.isInteger(n) && n >= 0 && n <= max ? n : null;
+}
+
+// GET /v1/log/head
+// Signed tree head over all logged issue/revoke events. Relying parties save it to check inclusion and consistency later.
+app.get("/v1/log/head", (_req, res) => {
+  try {
+    const { publicKey, secretKey } = getIssuerKeys();
+    const leaves = readLogEntries(DATA_DIR).map(leafHash);
+    res.json(signTreeHead(leaves.length, merkleRoot(leaves).toString("hex"), publicKey, secretKey));
+  } catch (e) {
+    res.status(500).json({ error: String(e instanceof Error ? e.message : e) });
+  }
+});
+
+// GET /v1/log/inclusion/:anchor_id?tree_size=N
+// Audit paths for the anchor's issue (and revoke) events in the tree of size N (default: current size).
+app.get("/v1/log/inclusion/:anchor_id", (req, res) => {
+  try {
+    const anchor_id = decodeURIComponent(req.params.anchor_id);
+    const entries = readLogEntries(DATA_DIR);
+    const treeSize = parseTreeSize(req.query.tree_size, entries.length);
+    if (treeSize === null) {
+      res.status(400).json({ error: `tree_size must be an integer between 0 and ${entries.length}` });
+      return;
+    }
+    const logged = entries.slice(0, treeSize);
+    const leaves = logged.map(leafHash);
+    // Leaf index is the position in the log file; verifiers also check it against entry.index
+    const proofs = logged.flatMap((entry, i) =>
+      entry.anchor_id === anchor_id
+        ? [{ leaf_index: i, entry, audit_path: inclusionProof(i, leaves).map((h) => h.toString("hex")) }]
+        : []
+    );
+    if (proofs.length === 0) {
+      res.status(404).json({ error: "Anchor not found in log", tree_size: treeSize });
+      return;
+    }
+    res.json({ anchor_id, tree_size: treeSize, proofs });
+  } catch (e) {
+    res.status(500).json({ error: String(e instanceof Error ? e.message : e) });
+  }
+});
+
+// GET /v1/log/consistency?first=M&second=N
+// Proof that the tree of size M is a prefix of the tree of size N (default: current size).
+app.get("/v1/log/consistency", (req, res) => {
+  try {
+    const entries = readLogEntries(DATA_DIR);
+    const second = parseTreeSize(req.query.second, entries.length);
+    const first = second === null || req.query.first === undefined ? null : parseTreeSize(req.query.first, second);
+    if (second === null || first === null) {
+      res.status(400).json({ error: `Require 0 <= first <= second <= ${entries.length}` });
+      return;
+    }
+    const leaves = entries.slice(0, second).map(leafHash);
+    res.json({ first, second, proof: consistencyProof(first, leaves).map((h) => h.toString("hex")) });
+  } catch (e) {
+    res.status(500).json({ error: String(e instanceof Error ? e.message : e) });
+  }
+});
+
 const DEFAULT_PORT = 3099;
 const PORT = Number(process.env.PORT) || DEFAULT_PORT;
 
@@ -218,4 +500,7 @@ function main(): void {
   tryListen(PORT);
 }
 
-main();
+// Listen only when run directly (node dist/server.js, tsx src/server.ts); tests import app
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main();
+}
@@ -1,11 +1,14 @@
 /**
- * File-backed store: JSONL for anchors and revocations.
+ * File-backed store: JSONL for anchors, revocations and possession proofs.
+ * Every anchor and revocation append also appends an event to the transparency log (log.jsonl), as does each
+ * key rotation (appendLogEntry("rotate", statement)).
  */
 
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from "node:fs";
+import { readFileSync, writeFileSync, existsSync, mkdirSync, statSync } from "node:fs";
 import { dirname, join } from "node:path";
 import { fileURLToPath } from "node:url";
-import type { AnchorAttestation, RevocationRecord } from "./types.js";
+import { createLogEntry, type LogEntry, type LogEventType, type LogRecord } from "./transparencyLog.js";
+import type { AnchorAttestation, PossessionProofRecord, RevocationRecord } from "./types.js";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
@@ -27,10 +30,21 @@ export function getRevocationsPath(dataDir: string = DEFAULT_DATA_DIR): string {
   return join(dataDir, "revocations.jsonl");
 }
 
+export function getPossessionProofsPath(dataDir: string = DEFAULT_DATA_DIR): string {
+  ensureDataDir(dataDir);
+  return join(dataDir, "possession_proofs.jsonl");
+}
+
+export function getLogPath(dataDir: string = DEFAULT_DATA_DIR): string {
+  ensureDataDir(dataDir);
+  return join(dataDir, "log.jsonl");
+}
+
 export function appendAnchor(attestation: AnchorAttestation, dataDir: string = DEFAULT_DATA_DIR): void {
   const path = getAnchorsPath(dataDir);
   const line = JSON.stringify(attestation) + "\n";
   writeFileSync(path, line, { flag: "a" });
+  appendLogEntry("issue", attestation, dataDir);
 }
 
 export function readAnchors(dataDir: string = DEFAULT_DATA_DIR): AnchorAttestation[] {
@@ -57,6 +71,7 @@ export function appendRevocation(record: RevocationRecord, dataDir: string = DEF
   const path = getRevocationsPath(dataDir);
   const line = JSON.stringify(record) + "\n";
   writeFileSync(path, line, { flag: "a" });
+  appendLogEntry("revoke", record, dataDir);
 }
 
 export function readRevocations(dataDir: string = DEFAULT_DATA_DIR): RevocationRecord[] {
@@ -82,3 +97,54 @@ export function getAnchorById(
   const all = readAnchors(dataDir);
   return all.find((a) => a.anchor_id === anchorId) ?? null;
 }
+
+export function appendPossessionProof(record: PossessionProofRecord, dataDir: string = DEFAULT_DATA_DIR): void {
+  const path = getPossessionProofsPath(dataDir);
+  const line = JSON.stringify(record) + "\n";
+  writeFileSync(path, line, { flag: "a" });
+}
+
+export function getPossessionProof(
+  anchorId: string,
+  dataDir: string = DEFAULT_DATA_DIR
+): PossessionProofRecord | null {
+  const path = getPossessionProofsPath(dataDir);
+  if (!existsSync(path)) return null;
+  const content = readFileSync(path, "utf8");
+  const lines = content.trim().split("\n").filter(Boolean);
+  const records = lines.map((line) => JSON.parse(line) as PossessionProofRecord);
+  return records.find((r) => r.anchor_id === anchorId) ?? null;
+}
+
+export function readLogEntries(dataDir: string = DEFAULT_DATA_DIR): LogEntry[] {
+  const path = getLogPath(dataDir);
+  if (!existsSync(path)) return [];
+  const content = readFileSync(path, "utf8");
+  const lines = content.trim().split("\n").filter(Boolean);
+  return lines.map((line) => JSON.parse(line) as LogEntry);
+}
+
+// Tree size per log file, with the file length it was counted at; a mismatch (another process appended) recounts
+const logSizeCache = new Map<string, { treeSize: number; bytes: number }>();
+
+function logSize(path: string, dataDir: string): { treeSize: number; bytes: number } {
+  const bytes = existsSync(path) ? statSync(path).size : 0;
+  const cached = logSizeCache.get(path);
+  if (cached && cached.bytes === bytes) return cached;
+  return { treeSize: readLogEntries(dataDir).length, bytes };
+}
+
+/** Append an event at the next leaf index. The tree size is cached, so the log is not re-read per append. */
+export function appendLogEntry(
+  type: LogEventType,
+  record: LogRecord,
+  dataDir: string = DEFAULT_DATA_DIR
+): LogEntry {
+  const path = getLogPath(dataDir);
+  const { treeSize, bytes } = logSize(path, dataDir);
+  const entry = createLogEntry(treeSize, type, record);
+  const line = JSON.stringify(entry) + "\n";
+  writeFileSync(path, line, { flag: "a" });
+  logSizeCache.set(path, { treeSize: treeSize + 1, bytes: bytes + Buffer.byteLength(line, "utf8") });
+  return entry;
+}
@@ -0,0 +1,358 @@
+/**
+ * Append-only transparency log for issue, revoke and key rotation events.
+ *
+ * Every event is a leaf of an RFC 6962 / RFC 9162 Merkle tree (leaf hash = sha256(0x00 || canonical entry),
+ * node hash = sha256(0x01 || left || right)). The registry signs tree heads; relying parties keep a head and
+ * later check inclusion of an anchor and consistency with newer heads, so a rewritten or truncated log is
+ * detectable without trusting the registry's disk. Logging rotation statements fixes their order, which is how
+ * verifiers resolve the key chain that signed each head (see resolveKeyChain).
+ */
+
+import { createHash } from "node:crypto";
+import nacl from "tweetnacl";
+import bs58 from "bs58";
+import { stableCanonicalize } from "./canonical.js";
+import { signPayload } from "./sign.js";
+import { keyActiveAt, resolveKeyChain, type KeyRotationStatement } from "./keys.js";
+import type { AnchorAttestation, RevocationRecord } from "./types.js";
+
+export const TREE_HEAD_VERSION = "pact-registry-log/1";
+
+export type LogEventType = "issue" | "revoke" | "rotate";
+
+export type LogRecord = AnchorAttestation | RevocationRecord | KeyRotationStatement;
+
+export interface LogEntry {
+  /** Position in the log (leaf index); not part of the leaf hash. */
+  index: number;
+  type: LogEventType;
+  /** Set for issue and revoke events. */
+  anchor_id?: string;
+  logged_at_ms: number;
+  /** The attestation (issue), revocation record (revoke) or rotation statement (rotate) as stored. */
+  record: LogRecord;
+}
+
+export interface SignedTreeHead {
+  version: typeof TREE_HEAD_VERSION;
+  tree_size: number;
+  /** Hex Merkle root over the first tree_size leaves. */
+  root_hash: string;
+  timestamp_ms: number;
+  log_public_key_b58: string;
+  /** Ed25519 signature over stableCanonicalize(head without signature_b58). */
+  signature_b58: string;
+}
+
+/** Response of GET /v1/log/inclusion/:anchor_id. */
+export interface InclusionProofResponse {
+  anchor_id: string;
+  tree_size: number;
+  proofs: Array<{ leaf_index: number; entry: LogEntry; audit_path: string[] }>;
+}
+
+/** Response of GET /v1/log/consistency. */
+export interface ConsistencyProofResponse {
+  first: number;
+  second: number;
+  proof: string[];
+}
+
+export interface LogVerifyResult {
+  ok: boolean;
+  error?: string;
+}
+
+export interface AnchorInclusionResult extends LogVerifyResult {
+  issue_leaf_index?: number;
+  /** A revoke event for the anchor is also included in the tree. */
+  revoked?: boolean;
+}
+
+const EMPTY_ROOT = createHash("sha256").digest();
+
+function sha256(...parts: Buffer[]): Buffer {
+  const h = createHash("sha256");
+  for (const p of parts) h.update(p);
+  return h.digest();
+}
+
+function nodeHash(left: Buffer, right: Buffer): Buffer {
+  return sha256(Buffer.from([0x01]), left, right);
+}
+
+/** Largest power of two strictly less than n (n > 1). */
+function splitPoint(n: number): number {
+  let k = 1;
+  while (k * 2 < n) k *= 2;
+  return k;
+}
+
+/** Build a log entry; the record is JSON-normalized so the stored line hashes the same after reading it back. */
+export function createLogEntry(index: number, type: LogEventType, record: LogRecord, nowMs: number = Date.now()): LogEntry {
+  return {
+    index,
+    type,
+    ...("anchor_id" in record && { anchor_id: record.anchor_id }),
+    logged_at_ms: nowMs,
+    record: JSON.parse(JSON.stringify(record)),
+  };
+}
+
+/** Rotation statements in log order, for resolveKeyChain. */
+export function loggedRotations(entries: LogEntry[]): KeyRotationStatement[] {
+  return entries.filter((e) => e.type === "rotate").map((e) => e.record as KeyRotationStatement);
+}
+
+export function leafHash(entry: LogEntry): Buffer {
+  const { index: _index, ...leaf } = entry;
+  return sha256(Buffer.from([0x00]), Buffer.from(stableCanonicalize(leaf), "utf8"));
+}
+
+export function merkleRoot(leaves: Buffer[]): Buffer {
+  if (leaves.length === 0) return EMPTY_ROOT;
+  if (leaves.length === 1) return leaves[0];
+  const k = splitPoint(leaves.length);
+  return nodeHash(merkleRoot(leaves.slice(0, k)), merkleRoot(leaves.slice(k)));
+}
+
+/** RFC 6962 PATH(m, D[n]): audit path for leaf m. */
+export function inclusionProof(leafIndex: number, leaves: Buffer[]): Buffer[] {
+  if (leafIndex < 0 || leafIndex >= leaves.length) {
+    throw new Error(`Leaf index ${leafIndex} is outside a tree of size ${leaves.length}`);
+  }
+  if (leaves.length === 1) return [];
+  const k = splitPoint(leaves.length);
+  return leafIndex < k
+    ? [...inclusionProof(leafIndex, leaves.slice(0, k)), merkleRoot(leaves.slice(k))]
+    : [...inclusionProof(leafIndex - k, leaves.slice(k)), merkleRoot(leaves.slice(0, k))];
+}
+
+function subproof(m: number, leaves: Buffer[], complete: boolean): Buffer[] {
+  const n = leaves.length;
+  if (m === n) return complete ? [] : [merkleRoot(leaves)];
+  const k = splitPoint(n);
+  return m <= k
+    ? [...subproof(m, leaves.slice(0, k), complete), merkleRoot(leaves.slice(k))]
+    : [...subproof(m - k, leaves.slice(k), false), merkleRoot(leaves.slice(0, k))];
+}
+
+/** RFC 6962 PROOF(m, D[n]): proves the first m leaves are a prefix of the n-leaf tree. */
+export function consistencyProof(first: number, leaves: Buffer[]): Buffer[] {
+  if (first < 0 || first > leaves.length) {
+    throw new Error(`Tree size ${first} is outside a tree of size ${leaves.length}`);
+  }
+  if (first === 0 || first === leaves.length) return [];
+  return subproof(first, leaves, true);
+}
+
+function decodeHashes(hexes: string[]): Buffer[] | null {
+  if (!Array.isArray(hexes) || !hexes.every((h) => typeof h === "string" && /^[0-9a-f]{64}$/.test(h))) {
+    return null;
+  }
+  return hexes.map((h) => Buffer.from(h, "hex"));
+}
+
+/** RFC 9162 section 2.1.3.2 inclusion verification. */
+export function verifyInclusion(
+  leaf: Buffer,
+  leafIndex: number,
+  treeSize: number,
+  auditPath: string[],
+  rootHash: string
+): boolean {
+  const path = decodeHashes(auditPath);
+  if (!path || leafIndex < 0 || leafIndex >= treeSize) return false;
+  let fn = leafIndex;
+  let sn = treeSize - 1;
+  let r = leaf;
+  for (const p of path) {
+    if (sn === 0) return false;
+    if (fn % 2 === 1 || fn === sn) {
+      r = nodeHash(p, r);
+      while (fn % 2 === 0 && fn !== 0) {
+        fn = Math.floor(fn / 2);
+        sn = Math.floor(sn / 2);
+      }
+    } else {
+      r = nodeHash(r, p);
+    }
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+  return sn === 0 && r.toString("hex") === rootHash;
+}
+
+/** RFC 9162 section 2.1.4.2 consistency verification. */
+export function verifyConsistency(
+  first: number,
+  second: number,
+  proof: string[],
+  firstRoot: string,
+  secondRoot: string
+): boolean {
+  const path = decodeHashes(proof);
+  if (!path || first < 0 || first > second) return false;
+  if (first === 0) return path.length === 0;
+  if (first === second) return path.length === 0 && firstRoot === secondRoot;
+  if (path.length === 0) return false;
+  // A power-of-two first tree is a complete subtree: its root starts the path
+  if ((first & (first - 1)) === 0) path.unshift(Buffer.from(firstRoot, "hex"));
+  let fn = first - 1;
+  let sn = second - 1;
+  while (fn % 2 === 1) {
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+  let fr = path[0];
+  let sr = path[0];
+  for (const c of path.slice(1)) {
+    if (sn === 0) return false;
+    if (fn % 2 === 1 || fn === sn) {
+      fr = nodeHash(c, fr);
+      sr = nodeHash(c, sr);
+      while (fn % 2 === 0 && fn !== 0) {
+        fn = Math.floor(fn / 2);
+        sn = Math.floor(sn / 2);
+      }
+    } else {
+      sr = nodeHash(sr, c);
+    }
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+  return sn === 0 && fr.toString("hex") === firstRoot && sr.toString("hex") === secondRoot;
+}
+
+export function signTreeHead(
+  treeSize: number,
+  rootHash: string,
+  logPublicKeyB58: string,
+  logSecretKeyB58: string,
+  nowMs: number = Date.now()
+): SignedTreeHead {
+  const head = {
+    version: TREE_HEAD_VERSION,
+    tree_size: treeSize,
+    root_hash: rootHash,
+    timestamp_ms: nowMs,
+    log_public_key_b58: logPublicKeyB58,
+  } as const;
+  return { ...head, signature_b58: signPayload(stableCanonicalize(head), logSecretKeyB58) };
+}
+
+/** Check a tree head's signature; with logPublicKeyB58, also that it was signed by that key. */
+export function verifyTreeHead(head: SignedTreeHead, logPublicKeyB58?: string): LogVerifyResult {
+  if (
+    !head ||
+    head.version !== TREE_HEAD_VERSION ||
+    !Number.isInteger(head.tree_size) ||
+    head.tree_size < 0 ||
+    typeof head.root_hash !== "string" ||
+    typeof head.log_public_key_b58 !== "string" ||
+    typeof head.signature_b58 !== "string"
+  ) {
+    return { ok: false, error: "Malformed tree head" };
+  }
+  if (logPublicKeyB58 && head.log_public_key_b58 !== logPublicKeyB58) {
+    return { ok: false, error: "Tree head was signed by a different log key" };
+  }
+  try {
+    const { signature_b58, ...unsigned } = head;
+    const msg = new TextEncoder().encode(stableCanonicalize(unsigned));
+    const valid = nacl.sign.detached.verify(msg, bs58.decode(signature_b58), bs58.decode(head.log_public_key_b58));
+    return valid ? { ok: true } : { ok: false, error: "Invalid tree head signature" };
+  } catch {
+    return { ok: false, error: "Invalid tree head signature" };
+  }
+}
+
+/**
+ * Check that a head was signed by the log key active at its timestamp_ms: the pinned root key, or a successor
+ * through the rotation statements (in log order).
+ */
+export function verifyTreeHeadKey(
+  head: SignedTreeHead,
+  logRootKeyB58: string,
+  rotations: KeyRotationStatement[] = []
+): LogVerifyResult {
+  if (!logRootKeyB58) return { ok: false, error: "A pinned log key is required to trust a tree head" };
+  const check = verifyTreeHead(head);
+  if (!check.ok) return check;
+  const chain = resolveKeyChain(logRootKeyB58, rotations);
+  const key = chain.find((k) => k.public_key_b58 === head.log_public_key_b58);
+  if (!key) return { ok: false, error: "Tree head was signed by a different log key" };
+  if (typeof head.timestamp_ms !== "number" || keyActiveAt(chain, head.timestamp_ms) !== key) {
+    return { ok: false, error: `Tree head was signed by log key ${key.kid ?? key.public_key_b58} outside its active period` };
+  }
+  return { ok: true };
+}
+
+/**
+ * Offline check that an anchor's issue event is in the tree described by a saved head, signed by the log key
+ * (pinned root or its rotation chain) active at the head's timestamp.
+ * The inclusion response must have been fetched for the head's tree_size (GET /v1/log/inclusion/:id?tree_size=).
+ */
+export function verifyAnchorInclusion(
+  anchor: AnchorAttestation,
+  inclusion: InclusionProofResponse,
+  head: SignedTreeHead,
+  logRootKeyB58: string,
+  rotations: KeyRotationStatement[] = []
+): AnchorInclusionResult {
+  const headCheck = verifyTreeHeadKey(head, logRootKeyB58, rotations);
+  if (!headCheck.ok) return headCheck;
+  if (!inclusion || !Array.isArray(inclusion.proofs) || inclusion.tree_size !== head.tree_size) {
+    return { ok: false, error: `Inclusion proof is not for the saved tree head (size ${head.tree_size})` };
+  }
+  let issueLeafIndex: number | undefined;
+  let revoked = false;
+  for (const { leaf_index, entry, audit_path } of inclusion.proofs) {
+    if (entry?.anchor_id !== anchor.anchor_id || entry.index !== leaf_index) continue;
+    if (!verifyInclusion(leafHash(entry), leaf_index, head.tree_size, audit_path, head.root_hash)) {
+      return { ok: false, error: `Audit path for leaf ${leaf_index} does not match the tree head` };
+    }
+    if (entry.type === "issue") {
+      const logged = entry.record as AnchorAttestation;
+      if (logged.signature_b58 !== anchor.signature_b58) {
+        return { ok: false, error: "Logged attestation differs from the anchor" };
+      }
+      issueLeafIndex = leaf_index;
+    } else if (entry.type === "revoke") {
+      revoked = true;
+    }
+  }
+  if (issueLeafIndex === undefined) {
+    return { ok: false, error: "Anchor issuance is not included in the tree" };
+  }
+  return { ok: true, issue_leaf_index: issueLeafIndex, ...(revoked && { revoked }) };
+}
+
+/**
+ * Offline check that a newer saved head extends an older one (no history rewrite or truncation in between).
+ * Each head must be signed by the log key active at its timestamp_ms, resolved from the pinned root key and the
+ * rotation statements, so heads on either side of a rotation verify but a head from a retired key does not.
+ */
+export function verifyTreeHeadConsistency(
+  oldHead: SignedTreeHead,
+  newHead: SignedTreeHead,
+  consistency: ConsistencyProofResponse,
+  logRootKeyB58: string,
+  rotations: KeyRotationStatement[] = []
+): LogVerifyResult {
+  for (const head of [oldHead, newHead]) {
+    const check = verifyTreeHeadKey(head, logRootKeyB58, rotations);
+    if (!check.ok) return check;
+  }
+  if (!consistency || consistency.first !== oldHead.tree_size || consistency.second !== newHead.tree_size) {
+    return { ok: false, error: `Consistency proof is not for sizes ${oldHead.tree_size} -> ${newHead.tree_size}` };
+  }
+  const consistent = verifyConsistency(
+    oldHead.tree_size,
+    newHead.tree_size,
+    consistency.proof,
+    oldHead.root_hash,
+    newHead.root_hash
+  );
+  return consistent ? { ok: true } : { ok: false, error: "Tree heads are not consistent: log history was rewritten" };
+}
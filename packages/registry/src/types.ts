@@ -2,6 +2,9 @@
  * Anchor attestation and registry types.
  */
 
+import type { KeyRotationStatement } from "./keys.js";
+import type { PossessionProof } from "./possession.js";
+
 export const ANCHOR_TYPES = [
   "kyb_verified",
   "credential_verified",
@@ -27,6 +30,8 @@ export interface AnchorAttestation {
   expires_at_ms?: number | null;
   revocation_ref?: string | null;
   evidence_refs?: string[] | null;
+  /** ID of the registry key that signed the attestation (see keys.ts). Absent on anchors issued before key sets. */
+  kid?: string;
 }
 
 export interface IssueRequest {
@@ -37,6 +42,14 @@ export interface IssueRequest {
   verification_method?: string;
   expires_at_ms?: number | null;
   evidence_refs?: string[] | null;
+  /** Required by POST /v1/anchors/issue; its hash is appended to evidence_refs. issue() ignores it. */
+  possession_proof?: PossessionProof;
+}
+
+export interface PossessionProofRecord {
+  anchor_id: string;
+  proof_ref: string;
+  proof: PossessionProof;
 }
 
 export interface RevokeRequest {
@@ -54,9 +67,38 @@ export interface RevocationRecord {
 export interface TrustedIssuer {
   issuer_public_key_b58: string;
   name: string;
+  /** Anchor types this issuer may attest; absent means all types. */
   scopes?: string[];
+  /** Only anchors issued at or after this time are trusted from this issuer. */
+  valid_from_ms?: number | null;
+  /** Only anchors issued at or before this time are trusted from this issuer. */
+  valid_until_ms?: number | null;
+  /** Subject domains this issuer may attest (each entry matches itself and its subdomains); absent means any. */
+  subject_domains?: string[];
 }
 
+/** Why verifyAttestationOffline rejected an anchor. */
+export const ANCHOR_REJECTION_REASONS = [
+  "MALFORMED",
+  "ANCHOR_ID_MISMATCH",
+  "INVALID_SIGNATURE",
+  "EXPIRED",
+  "ISSUER_NOT_TRUSTED",
+  "KEY_ID_MISMATCH",
+  "KEY_NOT_VALID_AT_ISSUANCE",
+  "ISSUER_SCOPE_DENIED",
+  "ISSUER_NOT_YET_VALID",
+  "ISSUER_VALIDITY_ENDED",
+  "SUBJECT_DOMAIN_MISSING",
+  "SUBJECT_DOMAIN_DENIED",
+  "POSSESSION_PROOF_INVALID",
+  "POSSESSION_PROOF_MISSING",
+] as const;
+
+export type AnchorRejectionReason = (typeof ANCHOR_REJECTION_REASONS)[number];
+
 export interface TrustedIssuersConfig {
   issuers: TrustedIssuer[];
+  /** Rotation statements (GET /v1/keys) extending trust from each issuer key to its successors. */
+  rotations?: KeyRotationStatement[];
 }
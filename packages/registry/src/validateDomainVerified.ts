@@ -0,0 +1,46 @@
+/**
+ * Server-side validation for domain_verified issue requests.
+ * The request names the domain, the registry-issued token and how it was published; the registry
+ * fetches the proof and replaces the payload with the verified one (see domainVerification.ts).
+ */
+
+export const DOMAIN_VERIFICATION_METHODS = ["well_known", "dns_txt"] as const;
+
+export type DomainVerificationMethod = (typeof DOMAIN_VERIFICATION_METHODS)[number];
+
+// Lowercase DNS name with at least two labels; no IP literals, ports or paths
+const DOMAIN_REGEX = /^(?=.{1,253}$)(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z][a-z0-9-]{0,61}[a-z0-9]$/;
+
+/**
+ * Normalize a domain (trim, lowercase, drop trailing dot). Throws if it is not a public DNS name.
+ */
+export function normalizeDomain(domain: unknown): string {
+  if (typeof domain !== "string" || !domain.trim()) {
+    throw new Error("domain_verified requires payload.domain");
+  }
+  const normalized = domain.trim().toLowerCase().replace(/\.$/, "");
+  if (!DOMAIN_REGEX.test(normalized) || normalized === "localhost" || normalized.endsWith(".localhost")) {
+    throw new Error(`payload.domain must be a DNS name (e.g. "example.com"), got: ${JSON.stringify(domain)}`);
+  }
+  return normalized;
+}
+
+export function validateDomainVerifiedPayload(anchorType: string, payload: Record<string, unknown>): void {
+  if (anchorType !== "domain_verified") return;
+
+  normalizeDomain(payload.domain);
+
+  const token = payload.domain_token;
+  if (typeof token !== "string" || !token.trim()) {
+    throw new Error(
+      "domain_verified requires payload.domain_token (request one from POST /v1/domains/challenge)"
+    );
+  }
+
+  const method = payload.method;
+  if (method != null && !DOMAIN_VERIFICATION_METHODS.includes(method as DomainVerificationMethod)) {
+    throw new Error(
+      `domain_verified payload.method must be one of ${DOMAIN_VERIFICATION_METHODS.join(", ")}, got: ${JSON.stringify(method)}`
+    );
+  }
+}
@@ -1,18 +1,37 @@
 /**
- * Offline verification of anchor attestations: schema, signature, expiry, trusted issuer.
+ * Offline verification of anchor attestations: schema, signature, expiry, trusted issuer (directly or
+ * through its key rotation chain) and its constraints (anchor-type scopes, validity window, subject
+ * domains), and optionally the subject's proof of possession. Rejections carry a reason code.
  */
 
 import { createHash } from "node:crypto";
 import { stableCanonicalize } from "./canonical.js";
 import { verifySignature } from "./sign.js";
-import type { AnchorAttestation, TrustedIssuer } from "./types.js";
+import { keyActiveAt, resolveKeyChain, type KeyRotationStatement, type TrustedKeyPeriod } from "./keys.js";
+import { POSSESSION_PROOF_REF_PREFIX, possessionProofRef, verifyPossessionProof, type PossessionProof } from "./possession.js";
+import type { AnchorAttestation, AnchorRejectionReason, TrustedIssuer } from "./types.js";
 
 export interface VerifyResult {
   ok: boolean;
   error?: string;
+  /** Set on rejection. */
+  reason?: AnchorRejectionReason;
   expired?: boolean;
   revoked?: boolean;
   issuerTrusted?: boolean;
+  /** Name of the trusted issuer entry that accepted the anchor. */
+  issuerName?: string;
+  /** Set when a possession proof was checked (or required and missing). */
+  possessionVerified?: boolean;
+}
+
+export interface VerifyOptions {
+  /** Proof of possession (e.g. from GET /v1/possession-proofs/:anchor_id) to recheck against evidence_refs. */
+  possessionProof?: PossessionProof;
+  /** Reject anchors without a proof of possession (no proof given, or none referenced in evidence_refs). */
+  requirePossessionProof?: boolean;
+  /** Rotation statements; anchors signed by a successor of a trusted key are accepted for its key period. */
+  keyRotations?: KeyRotationStatement[];
 }
 
 /**
@@ -37,12 +56,140 @@ export function verifyAnchorId(att: AnchorAttestation): boolean {
 }
 
 /**
- * Verify attestation: schema (required fields), anchor_id, signature, expiry, trusted issuer.
+ * Domain the anchor attests for its subject: payload.domain, else the domain of payload.email.
+ */
+export function anchorSubjectDomain(att: AnchorAttestation): string | null {
+  const payload = att.payload ?? {};
+  if (typeof payload.domain === "string" && payload.domain.trim()) {
+    return payload.domain.trim().toLowerCase().replace(/\.$/, "");
+  }
+  if (typeof payload.email === "string" && payload.email.includes("@")) {
+    return payload.email.split("@").pop()!.trim().toLowerCase() || null;
+  }
+  return null;
+}
+
+function domainAllowed(domain: string, allowed: string[]): boolean {
+  return allowed.some((entry) => {
+    const base = entry.trim().toLowerCase().replace(/^\*\./, "").replace(/\.$/, "");
+    return domain === base || domain.endsWith("." + base);
+  });
+}
+
+/**
+ * Check a trusted issuer's constraints for an attestation: anchor-type scope, validity window
+ * (against issued_at_ms) and subject domains. Returns null when the issuer may attest this anchor.
+ */
+export function checkIssuerConstraints(
+  att: AnchorAttestation,
+  issuer: TrustedIssuer
+): { reason: AnchorRejectionReason; error: string } | null {
+  if (issuer.scopes && !issuer.scopes.includes(att.anchor_type)) {
+    return { reason: "ISSUER_SCOPE_DENIED", error: `Issuer "${issuer.name}" is not trusted for ${att.anchor_type}` };
+  }
+  if (issuer.valid_from_ms != null && att.issued_at_ms < issuer.valid_from_ms) {
+    return { reason: "ISSUER_NOT_YET_VALID", error: `Issued before issuer "${issuer.name}" was trusted` };
+  }
+  if (issuer.valid_until_ms != null && att.issued_at_ms > issuer.valid_until_ms) {
+    return { reason: "ISSUER_VALIDITY_ENDED", error: `Issued after issuer "${issuer.name}" stopped being trusted` };
+  }
+  if (issuer.subject_domains) {
+    const domain = anchorSubjectDomain(att);
+    if (!domain) {
+      return { reason: "SUBJECT_DOMAIN_MISSING", error: `Issuer "${issuer.name}" is domain-constrained but the anchor names no domain` };
+    }
+    if (!domainAllowed(domain, issuer.subject_domains)) {
+      return { reason: "SUBJECT_DOMAIN_DENIED", error: `Issuer "${issuer.name}" is not trusted for domain ${domain}` };
+    }
+  }
+  return null;
+}
+
+/**
+ * Check that the signing key was valid when the anchor was issued and, when both are known, that the
+ * anchor's kid names that key. Returns null when the key may have signed this anchor.
+ */
+export function checkKeyPeriod(
+  att: AnchorAttestation,
+  key: TrustedKeyPeriod
+): { reason: AnchorRejectionReason; error: string } | null {
+  if (att.kid != null && key.kid != null && att.kid !== key.kid) {
+    return { reason: "KEY_ID_MISMATCH", error: `Anchor kid ${att.kid} does not match signing key ${key.kid}` };
+  }
+  if (
+    (key.valid_from_ms != null && att.issued_at_ms < key.valid_from_ms) ||
+    (key.valid_until_ms != null && att.issued_at_ms >= key.valid_until_ms)
+  ) {
+    return {
+      reason: "KEY_NOT_VALID_AT_ISSUANCE",
+      error: `Signing key ${key.kid ?? att.issuer_public_key_b58} was not active at issued_at_ms`,
+    };
+  }
+  return null;
+}
+
+/**
+ * Recheck a proof of possession against an attestation: the subject signed the registry's
+ * challenge, the challenge was open when the anchor was issued, and its hash is in evidence_refs.
+ * The challenge must name the attestation's signing key or, when the registry rotated between challenge and
+ * issuance, a key of the issuer's chain (keyChain, from resolveKeyChain) that was active when it was issued.
+ */
+export function verifyAttestationPossession(
+  att: AnchorAttestation,
+  proof: PossessionProof,
+  keyChain: TrustedKeyPeriod[] = []
+): VerifyResult {
+  const proofResult = verifyPossessionProof(proof, att.subject_signer_public_key_b58);
+  if (!proofResult.ok) {
+    return { ok: false, reason: "POSSESSION_PROOF_INVALID", possessionVerified: false, error: proofResult.error };
+  }
+  const { challenge } = proof;
+  const sameKey =
+    challenge.registry_public_key_b58 === att.issuer_public_key_b58 && (att.kid == null || challenge.registry_kid === att.kid);
+  if (!sameKey) {
+    const challengeKey = keyActiveAt(keyChain, challenge.issued_at_ms);
+    if (
+      !challengeKey ||
+      challengeKey.public_key_b58 !== challenge.registry_public_key_b58 ||
+      (challengeKey.kid !== null && challengeKey.kid !== challenge.registry_kid) ||
+      !keyChain.some((k) => k.public_key_b58 === att.issuer_public_key_b58)
+    ) {
+      return {
+        ok: false,
+        reason: "POSSESSION_PROOF_INVALID",
+        possessionVerified: false,
+        error: "Possession challenge was issued by a different registry key",
+      };
+    }
+  }
+  if (att.issued_at_ms < challenge.issued_at_ms || att.issued_at_ms > challenge.expires_at_ms) {
+    return {
+      ok: false,
+      reason: "POSSESSION_PROOF_INVALID",
+      possessionVerified: false,
+      error: "Anchor was not issued within the possession challenge window",
+    };
+  }
+  if (!(att.evidence_refs ?? []).includes(possessionProofRef(proof))) {
+    return {
+      ok: false,
+      reason: "POSSESSION_PROOF_INVALID",
+      possessionVerified: false,
+      error: "Possession proof hash not in evidence_refs",
+    };
+  }
+  return { ok: true, possessionVerified: true };
+}
+
+/**
+ * Verify attestation: schema (required fields), anchor_id, signature, expiry, trusted issuer and its
+ * constraints, and the proof of possession when given or required.
  * Offline-only; does not check revocation.
  */
 export function verifyAttestationOffline(
   att: AnchorAttestation,
-  trustedIssuers: TrustedIssuer[]
+  trustedIssuers: TrustedIssuer[],
+  options: VerifyOptions = {}
 ): VerifyResult {
   if (
     !att.anchor_id ||
@@ -55,21 +202,50 @@ export function verifyAttestationOffline(
     !att.signature_b58 ||
     att.scheme !== "ed25519"
   ) {
-    return { ok: false, error: "Missing or invalid required fields" };
+    return { ok: false, reason: "MALFORMED", error: "Missing or invalid required fields" };
   }
   if (!verifyAnchorId(att)) {
-    return { ok: false, error: "anchor_id mismatch" };
+    return { ok: false, reason: "ANCHOR_ID_MISMATCH", error: "anchor_id mismatch" };
   }
   if (!verifySignature(att)) {
-    return { ok: false, error: "Invalid signature" };
+    return { ok: false, reason: "INVALID_SIGNATURE", error: "Invalid signature" };
   }
   const now = Date.now();
   if (att.expires_at_ms != null && att.expires_at_ms < now) {
-    return { ok: false, expired: true, error: "Attestation expired" };
+    return { ok: false, reason: "EXPIRED", expired: true, error: "Attestation expired" };
+  }
+  // Each trusted entry vouches for its own key and, via rotation statements, for its successors
+  const candidates = trustedIssuers.flatMap((issuer) => {
+    const chain = resolveKeyChain(issuer.issuer_public_key_b58, options.keyRotations);
+    const key = chain.find((k) => k.public_key_b58 === att.issuer_public_key_b58);
+    return key ? [{ issuer, key, chain }] : [];
+  });
+  if (candidates.length === 0) {
+    return { ok: false, reason: "ISSUER_NOT_TRUSTED", issuerTrusted: false, error: "Issuer not in trusted set" };
+  }
+  // Several entries may list the same key (e.g. different scopes per period); any one may accept
+  const violations = candidates.map(({ issuer, key }) => checkKeyPeriod(att, key) ?? checkIssuerConstraints(att, issuer));
+  const acceptedIndex = violations.findIndex((v) => v === null);
+  if (acceptedIndex === -1) {
+    const violation = violations[0]!;
+    return { ok: false, reason: violation.reason, issuerTrusted: false, error: violation.error };
+  }
+  const { issuer, chain } = candidates[acceptedIndex]!;
+  const issuerName = issuer.name;
+  if (options.possessionProof) {
+    const possession = verifyAttestationPossession(att, options.possessionProof, chain);
+    return { ...possession, issuerTrusted: true, issuerName };
   }
-  const trusted = trustedIssuers.some((i) => i.issuer_public_key_b58 === att.issuer_public_key_b58);
-  if (!trusted) {
-    return { ok: false, issuerTrusted: false, error: "Issuer not in trusted set" };
+  if (options.requirePossessionProof) {
+    const referenced = (att.evidence_refs ?? []).some((ref) => ref.startsWith(POSSESSION_PROOF_REF_PREFIX));
+    return {
+      ok: false,
+      reason: "POSSESSION_PROOF_MISSING",
+      issuerTrusted: true,
+      issuerName,
+      possessionVerified: false,
+      error: referenced ? "Possession proof required but not provided" : "Anchor has no possession proof",
+    };
   }
-  return { ok: true, issuerTrusted: true };
+  return { ok: true, issuerTrusted: true, issuerName };
 }
@@ -2,26 +2,85 @@
  * Pact v4 Transcript Redaction
  * 
  * Structural redaction of transcripts for cross-trust-boundary sharing.
+ * Redaction policies, redactTranscript / createTranscriptView and createDisclosure live in the verifier
+ * (packages/verifier/src/redaction/redact.ts), next to the view and disclosure checks, and are re-exported here.
  */
 
 import * as crypto from "node:crypto";
 import { stableCanonicalize } from "../../protocol/canonical";
 import type { TranscriptV4, TranscriptRound, FailureEvent } from "./replay";
 
+export {
+  REDACTION_POLICY_VERSION,
+  DISCLOSURE_VERSION,
+  DEFAULT_REDACTION_POLICY,
+  type RedactionPolicy,
+  resolvePointerPattern,
+  validateRedactionPolicy,
+  parseRedactionPolicy,
+  saltedPathsForPolicy,
+  generateFieldSalt,
+  newFieldSalts,
+  redactTranscript,
+  createTranscriptView,
+  createDisclosure,
+} from "../../../../verifier/src/redaction/redact";
+export { checkDisclosure, verifyTranscriptView } from "../../../../verifier/src/redaction/transcript_view";
+
 export type TranscriptView = "INTERNAL" | "PARTNER" | "AUDITOR";
 
 export type RedactedField = {
   redacted: true;
   hash: string;
   view: TranscriptView;
+  // Hash is a salted commitment; the value can only be checked with the field's salt (see DisclosureV1)
+  salted?: true;
+};
+
+/**
+ * Hash scheme under which round_hash and final_hash are computed over field commitments
+ * (see computeFieldCommitment). Transcripts opt in via transcript.hash_scheme.
+ */
+export const FIELD_COMMITMENTS_SCHEME = "field-commitments/1";
+
+/**
+ * Redacted transcript view (schemas/pact_transcript_view_v1.json).
+ */
+export type TranscriptViewV1 = {
+  kind: "view";
+  source_transcript_hash: string;
+  view: TranscriptView;
+  transcript: RedactedTranscriptV4;
+};
+
+/**
+ * Per-field salts keyed by JSON pointer. In a view, salts of redacted fields are themselves redacted.
+ */
+export type FieldSalts = Record<string, string | RedactedField>;
+
+/**
+ * Selective disclosure: reveals chosen redacted fields (value + salts) of a transcript to one recipient.
+ * Checked against the markers of a view with checkDisclosure / verifyRedactedField.
+ */
+export type DisclosureV1 = {
+  version: "pact-disclosure/1";
+  source_transcript_hash: string;
+  recipient: string;
+  fields: Array<{
+    path: string;
+    value: unknown;
+    // Salts for path and any salted field below it
+    salts?: Record<string, string>;
+  }>;
 };
 
-export type RedactedTranscriptV4 = Omit<TranscriptV4, "policy_hash" | "strategy_hash" | "rounds" | "failure_event"> & {
+export type RedactedTranscriptV4 = Omit<TranscriptV4, "policy_hash" | "strategy_hash" | "rounds" | "failure_event" | "field_salts"> & {
   // Fields may be redacted (replaced with RedactedField)
   policy_hash?: string | RedactedField;
   strategy_hash?: string | RedactedField;
   rounds?: Array<TranscriptRound | RedactedRound>;
   failure_event?: FailureEvent | RedactedFailureEvent;
+  field_salts?: FieldSalts;
 };
 
 export type RedactedRound = TranscriptRound & {
@@ -41,160 +100,74 @@ function computeContentHash(content: any): string {
   return hash;
 }
 
-/**
- * Create redacted field replacement.
- */
-function createRedactedField(original: any, view: TranscriptView): RedactedField {
-  const hash = computeContentHash(original);
-  return {
-    redacted: true,
-    hash,
-    view,
-  };
+function escapePointerToken(token: string): string {
+  return token.replace(/~/g, "~0").replace(/\//g, "~1");
 }
 
 /**
- * Redact transcript according to view.
- * 
- * Requirements:
- * - Deterministic (same transcript + view → same output)
- * - Preserves cryptographic invariants (transcript_id, signatures)
- * - Replaces sensitive fields with redacted markers
- * 
- * @param transcript Original transcript
- * @param view View type (INTERNAL, PARTNER, AUDITOR)
- * @returns Redacted transcript
+ * Compute the field commitment of a value.
+ *
+ * Objects and arrays commit to the commitments of their children; scalars commit to their
+ * canonical hash; a RedactedField commits to its hash. Replacing any field with
+ * { redacted: true, hash: computeFieldCommitment(field) } leaves the commitment of every
+ * enclosing value unchanged, so round and final hashes survive redaction.
+ *
+ * A field whose pointer (path) has a salt commits to sha256(canonical({ commitment, salt })),
+ * so small values such as prices cannot be recovered by hashing candidates.
  */
-export function redactTranscript(
-  transcript: TranscriptV4,
-  view: TranscriptView
-): RedactedTranscriptV4 {
-  // INTERNAL view: no redaction
-  if (view === "INTERNAL") {
-    return transcript as RedactedTranscriptV4;
+export function computeFieldCommitment(value: unknown, salts?: FieldSalts, path = ""): string {
+  if (isRedacted(value)) {
+    return value.hash;
   }
-
-  // Clone transcript (deep copy)
-  const redacted: RedactedTranscriptV4 = {
-    ...transcript,
-    rounds: transcript.rounds.map((round) => ({ ...round })),
-  };
-
-  // PARTNER view redaction
-  if (view === "PARTNER") {
-    // Redact policy hash (if sensitive)
-    // Note: We preserve policy_hash for now, but could redact if policy content is sensitive
-    // For MVP, we'll preserve policy_hash but redact strategy details
-
-    // Redact strategy hash (if sensitive)
-    if (transcript.strategy_hash) {
-      redacted.strategy_hash = createRedactedField(transcript.strategy_hash, view);
-    }
-
-    // Redact proprietary pricing logic in rounds
-    redacted.rounds = transcript.rounds.map((round) => {
-      const redactedRound: RedactedRound = { ...round };
-      
-      if (round.content_summary) {
-        // Redact pricing_logic if present
-        if ("pricing_logic" in round.content_summary) {
-          const summary = { ...round.content_summary };
-          const pricingLogic = summary.pricing_logic;
-          delete summary.pricing_logic;
-          summary.pricing_logic = createRedactedField(pricingLogic, view);
-          redactedRound.content_summary = summary;
-        }
-
-        // Redact strategy_details if present
-        if ("strategy_details" in round.content_summary) {
-          const summary = { ...round.content_summary };
-          const strategyDetails = summary.strategy_details;
-          delete summary.strategy_details;
-          summary.strategy_details = createRedactedField(strategyDetails, view);
-          redactedRound.content_summary = summary;
-        }
+  let commitment: string;
+  if (Array.isArray(value)) {
+    commitment = computeContentHash(value.map((item, i) => computeFieldCommitment(item, salts, `${path}/${i}`)));
+  } else if (typeof value === "object" && value !== null) {
+    const committed: Record<string, string> = {};
+    for (const [key, child] of Object.entries(value)) {
+      if (child !== undefined) {
+        committed[key] = computeFieldCommitment(child, salts, `${path}/${escapePointerToken(key)}`);
       }
-
-      return redactedRound;
-    });
-
-    // Redact evidence content (structure preserved)
-    if (transcript.failure_event) {
-      const redactedFailure: RedactedFailureEvent = {
-        ...transcript.failure_event,
-        evidence_refs: transcript.failure_event.evidence_refs.map((ref) => {
-          // Preserve structure, redact content if proprietary
-          // For MVP, preserve all evidence_refs
-          return ref;
-        }),
-      };
-      redacted.failure_event = redactedFailure;
     }
+    commitment = computeContentHash(committed);
+  } else {
+    commitment = computeContentHash(value);
   }
-
-  // AUDITOR view redaction
-  if (view === "AUDITOR") {
-    // Redact policy hash
-    if (transcript.policy_hash) {
-      redacted.policy_hash = createRedactedField(transcript.policy_hash, view);
-    }
-
-    // Redact strategy hash
-    if (transcript.strategy_hash) {
-      redacted.strategy_hash = createRedactedField(transcript.strategy_hash, view);
-    }
-
-    // Redact negotiation detail (content_summary)
-    redacted.rounds = transcript.rounds.map((round) => {
-      const redactedRound: RedactedRound = { ...round };
-      
-      if (round.content_summary) {
-        // Redact entire content_summary (negotiation detail)
-        redactedRound.content_summary = createRedactedField(round.content_summary, view);
-      }
-
-      return redactedRound;
-    });
-
-    // Redact evidence content (structure preserved)
-    if (transcript.failure_event) {
-      const redactedFailure: RedactedFailureEvent = {
-        ...transcript.failure_event,
-        evidence_refs: transcript.failure_event.evidence_refs.map((ref) => {
-          // Redact evidence content if proprietary
-          // For MVP, preserve structure but could redact content
-          return ref;
-        }),
-      };
-      redacted.failure_event = redactedFailure;
-    }
-  }
-
-  // Ensure transcript_id is preserved (invariant)
-  redacted.transcript_id = transcript.transcript_id;
-
-  return redacted;
+  const salt = salts?.[path];
+  return typeof salt === "string" ? computeContentHash({ commitment, salt }) : commitment;
 }
 
 /**
  * Verify redacted field hash matches original content.
+ * Accepts either the canonical content hash or the field commitment (FIELD_COMMITMENTS_SCHEME).
+ * Salted fields need the opening from a disclosure: the field's pointer and salts.
  * 
  * @param redactedField Redacted field
  * @param originalContent Original content
+ * @param opening Pointer of the field and salts for it and its children (from DisclosureV1)
  * @returns true if hash matches
  */
 export function verifyRedactedField(
   redactedField: RedactedField,
-  originalContent: any
+  originalContent: unknown,
+  opening?: { path: string; salts?: Record<string, string> }
 ): boolean {
-  const computedHash = computeContentHash(originalContent);
-  return computedHash === redactedField.hash;
+  if (opening && computeFieldCommitment(originalContent, opening.salts ?? {}, opening.path) === redactedField.hash) {
+    return true;
+  }
+  if (redactedField.salted) {
+    return false;
+  }
+  return (
+    computeContentHash(originalContent) === redactedField.hash ||
+    computeFieldCommitment(originalContent) === redactedField.hash
+  );
 }
 
 /**
  * Check if field is redacted.
  */
-export function isRedacted(field: any): field is RedactedField {
+export function isRedacted(field: unknown): field is RedactedField {
   return (
     typeof field === "object" &&
     field !== null &&
@@ -10,6 +10,7 @@ import bs58 from "bs58";
 import nacl from "tweetnacl";
 import { stableCanonicalize } from "../../protocol/canonical";
 import { computeInitialHash } from "./genesis";
+import { FIELD_COMMITMENTS_SCHEME, computeFieldCommitment } from "./redaction";
 
 export type TranscriptV4 = {
   transcript_version: "pact-transcript/4.0";
@@ -24,6 +25,9 @@ export type TranscriptV4 = {
   failure_event?: FailureEvent;
   final_hash?: string;
   arbiter_decision_ref?: string | null; // Decision artifact hash (added after arbitration)
+  hash_scheme?: "field-commitments/1"; // round_hash / final_hash over field commitments (redaction-safe)
+  salted_paths?: string[]; // Pointer patterns that get a per-field salt (from the redaction policy)
+  field_salts?: Record<string, string>; // Per-field salts keyed by JSON pointer (field-commitments/1 only)
   metadata?: Record<string, unknown> & {
     // Optional contention fields (see PACT_CONSTITUTION_V1.md Section 6)
     contention_key?: string; // hash(intent_type, resource_id, scope, time_window)
@@ -37,7 +41,17 @@ export type TranscriptV4 = {
 
 export type TranscriptRound = {
   round_number: number;
-  round_type: "INTENT" | "ASK" | "BID" | "COUNTER" | "ACCEPT" | "REJECT" | "ABORT";
+  round_type:
+    | "INTENT"
+    | "ASK"
+    | "BID"
+    | "COUNTER"
+    | "ACCEPT"
+    | "REJECT"
+    | "ABORT"
+    | "SETTLEMENT_ATTEMPT"
+    | "SETTLEMENT_CONFIRMED"
+    | "REFUND";
   message_hash: string;
   envelope_hash: string;
   signature: Signature;
@@ -52,6 +66,13 @@ export type TranscriptRound = {
     contention_scope?: "EXCLUSIVE" | "NON_EXCLUSIVE";
     contention_window_ms?: number; // Claim window for exclusivity
   };
+  // Required on SETTLEMENT_ATTEMPT / SETTLEMENT_CONFIRMED / REFUND rounds (covered by round_hash)
+  settlement?: {
+    rail: string; // e.g. "stripe", "x402", "escrow"
+    rail_ref: string; // Rail-side transaction or handle id
+    amount?: number;
+    asset?: string;
+  };
 };
 
 export type Signature = {
@@ -94,13 +115,21 @@ function sha256(canonical: string): string {
   return hash.digest("hex");
 }
 
+/**
+ * Hash a value at path (JSON pointer) of transcript under the transcript's hash scheme.
+ */
+function hashForScheme(value: unknown, transcript: TranscriptV4, path: string): string {
+  return transcript.hash_scheme === FIELD_COMMITMENTS_SCHEME
+    ? computeFieldCommitment(value, transcript.field_salts, path)
+    : sha256(stableCanonicalize(value));
+}
+
 /**
  * Compute round hash (excluding round_hash field itself).
  */
-function computeRoundHash(round: TranscriptRound): string {
+function computeRoundHash(round: TranscriptRound, transcript: TranscriptV4, index: number): string {
   const { round_hash, ...roundWithoutHash } = round;
-  const canonical = stableCanonicalize(roundWithoutHash);
-  return sha256(canonical);
+  return hashForScheme(roundWithoutHash, transcript, `/rounds/${index}`);
 }
 
 /**
@@ -108,8 +137,7 @@ function computeRoundHash(round: TranscriptRound): string {
  */
 function computeTranscriptHash(transcript: TranscriptV4): string {
   const { final_hash, ...transcriptWithoutHash } = transcript;
-  const canonical = stableCanonicalize(transcriptWithoutHash);
-  return sha256(canonical);
+  return hashForScheme(transcriptWithoutHash, transcript, "");
 }
 
 /**
@@ -235,7 +263,7 @@ export async function replayTranscriptV4(transcript: TranscriptV4): Promise<Repl
     }
 
     // Compute and verify round_hash
-    const computedRoundHash = computeRoundHash(round);
+    const computedRoundHash = computeRoundHash(round, transcript, i);
     if (round.round_hash) {
       if (round.round_hash !== computedRoundHash) {
         result.ok = false;
@@ -287,7 +315,7 @@ export async function replayTranscriptV4(transcript: TranscriptV4): Promise<Repl
     // Compute transcript hash up to failure point
     // For MVP, we'll compute hash of transcript excluding failure_event and final_hash
     const { failure_event, final_hash, ...transcriptUpToFailure } = transcript;
-    const computedFailureHash = sha256(stableCanonicalize(transcriptUpToFailure));
+    const computedFailureHash = hashForScheme(transcriptUpToFailure, transcript, "");
 
     if (transcript.failure_event.transcript_hash !== computedFailureHash) {
       result.warnings.push(
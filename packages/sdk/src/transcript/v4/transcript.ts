@@ -6,6 +6,13 @@ import * as crypto from "node:crypto";
 import type { TranscriptV4, TranscriptRound } from "./replay";
 import { computeInitialHash } from "./genesis";
 import { stableCanonicalize } from "../../protocol/canonical";
+import {
+  FIELD_COMMITMENTS_SCHEME,
+  computeFieldCommitment,
+  newFieldSalts,
+  saltedPathsForPolicy,
+  type RedactionPolicy,
+} from "./redaction";
 
 /**
  * Create a new v4 transcript.
@@ -17,7 +24,14 @@ export function createTranscriptV4(params: {
   policy_hash: string;
   strategy_hash?: string;
   identity_snapshot_hash?: string;
+  /** Opt in to redaction-safe hashing (round_hash / final_hash over field commitments). */
+  hash_scheme?: TranscriptV4["hash_scheme"];
+  /** Salt every field this policy may redact (requires hash_scheme field-commitments/1). */
+  redaction_policy?: RedactionPolicy;
 }): TranscriptV4 {
+  if (params.redaction_policy && params.hash_scheme !== FIELD_COMMITMENTS_SCHEME) {
+    throw new Error(`redaction_policy salts require hash_scheme "${FIELD_COMMITMENTS_SCHEME}"`);
+  }
   const transcript: Omit<TranscriptV4, "transcript_id" | "transcript_version"> = {
     intent_id: params.intent_id,
     intent_type: params.intent_type,
@@ -27,7 +41,13 @@ export function createTranscriptV4(params: {
     identity_snapshot_hash: params.identity_snapshot_hash || "",
     rounds: [],
     arbiter_decision_ref: null,
+    // Only present when opted in, so transcript_id of existing transcripts is unchanged
+    ...(params.hash_scheme ? { hash_scheme: params.hash_scheme } : {}),
   };
+  if (params.redaction_policy) {
+    transcript.salted_paths = saltedPathsForPolicy(params.redaction_policy);
+    transcript.field_salts = newFieldSalts(transcript, transcript.salted_paths);
+  }
 
   // Compute transcript ID from canonical hash
   const canonical = stableCanonicalize(transcript);
@@ -56,28 +76,45 @@ export function addRoundToTranscript(
     ? computeInitialHash(transcript.intent_id, transcript.created_at_ms)
     : (previousRound?.round_hash || "0".repeat(64));
 
-  // Compute round hash
-  const roundWithHash: TranscriptRound = {
+  const roundWithoutHash: Omit<TranscriptRound, "round_hash"> = {
     ...round,
     round_number: roundNumber,
     previous_round_hash: previousRoundHash,
-    round_hash: computeRoundHash({
-      ...round,
-      round_number: roundNumber,
-      previous_round_hash: previousRoundHash,
-    }),
+  };
+
+  // Salt the new round's fields matched by the transcript's salted paths
+  let fieldSalts = transcript.field_salts;
+  if (transcript.salted_paths && transcript.salted_paths.length > 0) {
+    const withRound = { ...transcript, rounds: [...transcript.rounds, roundWithoutHash] };
+    fieldSalts = { ...fieldSalts, ...newFieldSalts(withRound, transcript.salted_paths, `/rounds/${roundNumber}`) };
+  }
+
+  // Compute round hash
+  const roundWithHash: TranscriptRound = {
+    ...roundWithoutHash,
+    round_hash: computeRoundHash(roundWithoutHash, transcript.hash_scheme, fieldSalts, `/rounds/${roundNumber}`),
   };
 
   return {
     ...transcript,
+    ...(fieldSalts ? { field_salts: fieldSalts } : {}),
     rounds: [...transcript.rounds, roundWithHash],
   };
 }
 
 /**
  * Compute round hash (excluding round_hash field itself).
+ * Under FIELD_COMMITMENTS_SCHEME the hash is the round's field commitment at path.
  */
-function computeRoundHash(round: Omit<TranscriptRound, "round_hash">): string {
+function computeRoundHash(
+  round: Omit<TranscriptRound, "round_hash">,
+  hashScheme: TranscriptV4["hash_scheme"],
+  fieldSalts: Record<string, string> | undefined,
+  path: string
+): string {
+  if (hashScheme === FIELD_COMMITMENTS_SCHEME) {
+    return computeFieldCommitment(round, fieldSalts, path);
+  }
   const canonical = stableCanonicalize(round);
   const hash = crypto.createHash("sha256").update(canonical, "utf8").digest("hex");
   return hash;
@@ -0,0 +1,166 @@
+/**
+ * Tests for pact-arbiter-decision/4.0 creation, verification and DBL / GC view resolution.
+ */
+
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "fs";
+import { resolve, dirname } from "path";
+import { fileURLToPath } from "url";
+import nacl from "tweetnacl";
+import bs58 from "bs58";
+import type { TranscriptV4 } from "../../util/transcript_types.js";
+import { resolveBlameV1 } from "../../dbl/blame_resolver_v1.js";
+import { renderGCView } from "../../gc_view/renderer.js";
+import { replayTranscriptV4 } from "../../util/replay.js";
+import {
+  computeDecisionId,
+  createArbiterDecision,
+  resolveArbiterDecision,
+  validateArbiterDecisionSchema,
+  verifyArbiterDecision,
+  type ArbiterDecisionV4,
+} from "../decision.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const repoRoot = resolve(__dirname, "../../../../..");
+
+function loadFixture(fixturePath: string): TranscriptV4 {
+  return JSON.parse(readFileSync(resolve(repoRoot, fixturePath), "utf8"));
+}
+
+const transcript = loadFixture("fixtures/success/SUCCESS-001-simple.json");
+const arbiterKeyPair = nacl.sign.keyPair.fromSeed(new Uint8Array(32).fill(7));
+const arbiterKey = bs58.encode(arbiterKeyPair.secretKey);
+const arbiterPub = bs58.encode(arbiterKeyPair.publicKey);
+const issuedAt = transcript.created_at_ms + 60_000;
+const lastRoundHash = transcript.rounds[transcript.rounds.length - 1].round_hash!;
+
+function decide(overrides: Partial<Parameters<typeof createArbiterDecision>[0]> = {}): Promise<ArbiterDecisionV4> {
+  return createArbiterDecision({
+    transcript,
+    decision: "REFUND",
+    reasonCodes: ["PROVIDER_NON_DELIVERY"],
+    evidenceRefs: [{ type: "round_hash", ref: lastRoundHash }],
+    arbiterId: "arbiter-1",
+    signingKeyB58: arbiterKey,
+    issuedAt,
+    ...overrides,
+  });
+}
+
+describe("Arbiter decisions", () => {
+  it("derives decision_id from transcript_hash + arbiter_id + issued_at", async () => {
+    const decision = await decide();
+    expect(decision.decision_id).toBe(await computeDecisionId(transcript.transcript_id, "arbiter-1", issuedAt));
+    expect((await decide({ decision: "RELEASE", reasonCodes: ["QUALITY_MISMATCH"] })).decision_id).toBe(decision.decision_id);
+    expect((await decide({ issuedAt: issuedAt + 1 })).decision_id).not.toBe(decision.decision_id);
+    expect(validateArbiterDecisionSchema(decision)).toEqual([]);
+  });
+
+  it("verifies schema, signature and transcript linkage", async () => {
+    const decision = await decide();
+    const linked = { ...transcript, arbiter_decision_ref: decision.decision_id };
+    const result = await verifyArbiterDecision(decision, { transcript: linked });
+    expect(result).toMatchObject({
+      ok: true,
+      schema_ok: true,
+      decision_id_ok: true,
+      signature_ok: true,
+      trusted: null,
+      transcript_link_ok: true,
+      amounts_ok: null,
+    });
+    expect(result.errors).toEqual([]);
+  });
+
+  it("fails decisions signed by a key outside the trusted arbiter list", async () => {
+    const decision = await decide();
+    const trusted = await verifyArbiterDecision(decision, { trustedArbiterKeys: [arbiterPub] });
+    expect(trusted).toMatchObject({ ok: true, trusted: true });
+
+    // A self-signed decision from any other key has a valid signature but is not trusted
+    const rogueKey = bs58.encode(nacl.sign.keyPair.fromSeed(new Uint8Array(32).fill(8)).secretKey);
+    const rogue = await decide({ signingKeyB58: rogueKey });
+    const result = await verifyArbiterDecision(rogue, { trustedArbiterKeys: [arbiterPub] });
+    expect(result.signature_ok).toBe(true);
+    expect(result.trusted).toBe(false);
+    expect(result.ok).toBe(false);
+    expect(result.errors.some((e) => e.includes("not a trusted arbiter"))).toBe(true);
+  });
+
+  it("rejects tampered decisions and foreign transcripts", async () => {
+    const decision = await decide();
+    const tampered = { ...decision, decision: "RELEASE" as const };
+    const tamperedResult = await verifyArbiterDecision(tampered);
+    expect(tamperedResult.ok).toBe(false);
+    expect(tamperedResult.signature_ok).toBe(false);
+
+    const other = loadFixture("fixtures/success/SUCCESS-002-negotiated.json");
+    const linkResult = await verifyArbiterDecision(decision, { transcript: other });
+    expect(linkResult.ok).toBe(false);
+    expect(linkResult.transcript_link_ok).toBe(false);
+    expect(linkResult.errors.some((e) => e.includes("does not match transcript_id"))).toBe(true);
+  });
+
+  it("checks SPLIT amounts against the agreed price", async () => {
+    const split = await decide({
+      decision: "SPLIT",
+      reasonCodes: ["QUALITY_MISMATCH"],
+      amounts: { buyer_amount: 0.00002, provider_amount: 0.00003 },
+    });
+    expect((await verifyArbiterDecision(split, { transcript })).amounts_ok).toBe(true);
+
+    await expect(
+      decide({ decision: "SPLIT", reasonCodes: ["QUALITY_MISMATCH"], amounts: { buyer_amount: 1, provider_amount: 1 } })
+    ).rejects.toThrow("does not equal agreed amount");
+    await expect(decide({ decision: "SPLIT", reasonCodes: ["QUALITY_MISMATCH"] })).rejects.toThrow(
+      "amounts: required when decision is SPLIT"
+    );
+  });
+
+  it("resolves arbiter_decision_ref in DBL and the GC view", async () => {
+    const decision = await decide();
+    const linked: TranscriptV4 = { ...transcript, arbiter_decision_ref: decision.decision_id };
+    const trust = { arbiterDecisions: [decision], trustedArbiterKeys: [arbiterPub] };
+
+    const replay = await replayTranscriptV4(linked, trust);
+    expect(replay.ok).toBe(true);
+
+    expect(await resolveArbiterDecision(transcript, [decision])).toBeNull();
+    const judgment = await resolveBlameV1(linked, trust);
+    expect(judgment.arbiterDecision).toMatchObject({
+      decision_id: decision.decision_id,
+      decision: "REFUND",
+      verified: true,
+      errors: [],
+    });
+
+    const gcView = await renderGCView(linked, trust);
+    expect(gcView.responsibility.arbiter_decision?.verified).toBe(true);
+
+    const unresolved = await renderGCView(linked);
+    expect(unresolved.responsibility.arbiter_decision).toBeUndefined();
+  });
+
+  it("does not verify an untrusted decision or let its ref skip the final_hash check", async () => {
+    const rogueKey = bs58.encode(nacl.sign.keyPair.fromSeed(new Uint8Array(32).fill(8)).secretKey);
+    const rogue = await decide({ signingKeyB58: rogueKey });
+    const linked: TranscriptV4 = { ...transcript, arbiter_decision_ref: rogue.decision_id };
+
+    const untrusted = await resolveArbiterDecision(linked, [rogue], { trustedArbiterKeys: [arbiterPub] });
+    expect(untrusted?.verified).toBe(false);
+    const noList = await resolveArbiterDecision(linked, [rogue]);
+    expect(noList?.verified).toBe(false);
+
+    const replay = await replayTranscriptV4(linked, { arbiterDecisions: [rogue], trustedArbiterKeys: [arbiterPub] });
+    expect(replay.ok).toBe(false);
+    expect(replay.errors.some((e) => e.type === "FINAL_HASH_MISMATCH")).toBe(true);
+
+    const bare = await replayTranscriptV4(linked);
+    expect(bare.errors.some((e) => e.type === "FINAL_HASH_MISMATCH")).toBe(true);
+
+    const judgment = await resolveBlameV1(linked, { arbiterDecisions: [rogue], trustedArbiterKeys: [arbiterPub] });
+    expect(judgment.arbiterDecision?.verified).toBe(false);
+  });
+});
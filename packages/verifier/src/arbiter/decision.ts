@@ -0,0 +1,506 @@
+/**
+ * Arbiter decision artifacts (pact-arbiter-decision/4.0), no Node deps.
+ *
+ * - decision_id = "decision-" + sha256(stableCanonicalize({ arbiter_id, issued_at, transcript_hash }))
+ * - signature: Ed25519 over SHA256(stableCanonicalize(decision without signature)) digest bytes
+ *   (docs/versions/v4/ARBITRATION.md §3), signer MUST be arbiter_pubkey, signed_at_ms MUST equal issued_at
+ * - transcript_hash is the transcript's transcript_id; transcript.arbiter_decision_ref points back at decision_id
+ * - arbiter_pubkey is self-declared: a decision only counts as verified when that key is on the caller's
+ *   trusted arbiter list
+ */
+
+import nacl from "tweetnacl";
+import bs58 from "bs58";
+import type { TranscriptV4 } from "../util/transcript_types.js";
+import type { Sha256Async } from "../util/replay.js";
+import { stableCanonicalize } from "../util/canonical_pure.js";
+import { keyPairFromB58 } from "../util/signing_key.js";
+
+export const ARBITER_DECISION_SCHEMA_VERSION = "pact-arbiter-decision/4.0";
+
+export const ARBITER_DECISIONS = ["RELEASE", "REFUND", "SPLIT", "REJECT_ARBITRATION"] as const;
+
+export type ArbiterDecisionType = (typeof ARBITER_DECISIONS)[number];
+
+export const ARBITER_REASON_CODES = [
+  "QUALITY_MISMATCH",
+  "SLA_VIOLATION",
+  "POLICY_VIOLATION_CONFIRMED",
+  "PROVIDER_NON_DELIVERY",
+  "BUYER_NON_PAYMENT",
+  "RAIL_TIMEOUT_CONFIRMED",
+  "INSUFFICIENT_EVIDENCE",
+  "IDENTITY_SNAPSHOT_INVALID",
+  "DEADLOCK_CONFIRMED",
+  "RECURSIVE_DEPENDENCY_FAILURE",
+] as const;
+
+export type ArbiterReasonCode = (typeof ARBITER_REASON_CODES)[number];
+
+export type ArbiterEvidenceRef =
+  | { type: "round_hash"; ref: string }
+  | { type: "receipt_hash"; ref: string }
+  | { type: "policy_section"; ref: string; section: string }
+  | { type: "evidence_bundle"; bundle_id: string; entry_refs?: number[] };
+
+export type ArbiterAmounts = {
+  buyer_amount: number;
+  provider_amount: number;
+  currency?: string;
+};
+
+export type ArbiterDecisionV4 = {
+  decision_id: string;
+  transcript_hash: string;
+  decision: ArbiterDecisionType;
+  amounts?: ArbiterAmounts;
+  reason_codes: ArbiterReasonCode[];
+  evidence_refs: ArbiterEvidenceRef[];
+  arbiter_id: string;
+  arbiter_pubkey: string;
+  issued_at: number;
+  signature: {
+    signer_public_key_b58: string;
+    signature_b58: string;
+    signed_at_ms: number;
+    scheme: "ed25519";
+  };
+  schema_version: typeof ARBITER_DECISION_SCHEMA_VERSION;
+  notes?: string;
+};
+
+export type ArbiterDecisionVerification = {
+  version: "arbiter_verify/1.0";
+  ok: boolean;
+  decision_id: string | null;
+  schema_ok: boolean;
+  decision_id_ok: boolean;
+  signature_ok: boolean;
+  /** arbiter_pubkey is in the trusted arbiter key list (null when no list was supplied). */
+  trusted: boolean | null;
+  /** null when no transcript was supplied. */
+  transcript_link_ok: boolean | null;
+  /** null when the decision is not SPLIT. */
+  amounts_ok: boolean | null;
+  errors: string[];
+};
+
+/** Decision as surfaced in DBL judgments and GC views when arbiter_decision_ref resolves. */
+export type ArbiterDecisionSummary = {
+  decision_id: string;
+  decision: ArbiterDecisionType;
+  reason_codes: ArbiterReasonCode[];
+  arbiter_id: string;
+  arbiter_pubkey: string;
+  issued_at: number;
+  amounts?: ArbiterAmounts;
+  /** Decision verifies and arbiter_pubkey is a trusted arbiter key. */
+  verified: boolean;
+  errors: string[];
+};
+
+export type ArbiterVerifyOptions = {
+  transcript?: TranscriptV4;
+  sha256Async?: Sha256Async;
+  /** Trusted arbiter public keys (base58). When set, arbiter_pubkey must be one of them. */
+  trustedArbiterKeys?: string[];
+};
+
+/** Tolerance for comparing SPLIT amounts against the agreed amount (floating point currency units). */
+const AMOUNT_EPSILON = 1e-9;
+
+async function defaultSha256(data: string): Promise<string> {
+  const crypto = await import("node:crypto");
+  return crypto.createHash("sha256").update(data, "utf8").digest("hex");
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  const out = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < out.length; i++) out[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  return out;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+function checkKeys(obj: Record<string, unknown>, allowed: string[], path: string, errors: string[]): void {
+  const extra = Object.keys(obj).filter((k) => !allowed.includes(k));
+  if (extra.length > 0) errors.push(`${path}: unexpected keys ${extra.join(", ")}`);
+}
+
+function validateEvidenceRef(ref: unknown, path: string, errors: string[]): void {
+  if (!isObject(ref)) {
+    errors.push(`${path}: must be an object`);
+    return;
+  }
+  switch (ref.type) {
+    case "round_hash":
+      checkKeys(ref, ["type", "ref"], path, errors);
+      if (typeof ref.ref !== "string" || !/^[a-f0-9]{64}$/.test(ref.ref)) errors.push(`${path}.ref: must be a 64-hex round hash`);
+      return;
+    case "receipt_hash":
+      checkKeys(ref, ["type", "ref"], path, errors);
+      if (typeof ref.ref !== "string" || ref.ref.length === 0) errors.push(`${path}.ref: must be a non-empty string`);
+      return;
+    case "policy_section":
+      checkKeys(ref, ["type", "ref", "section"], path, errors);
+      if (typeof ref.ref !== "string" || !/^[a-f0-9]{64}$/.test(ref.ref)) errors.push(`${path}.ref: must be a 64-hex policy hash`);
+      if (typeof ref.section !== "string" || ref.section.length === 0) errors.push(`${path}.section: must be a non-empty string`);
+      return;
+    case "evidence_bundle":
+      checkKeys(ref, ["type", "bundle_id", "entry_refs"], path, errors);
+      if (typeof ref.bundle_id !== "string" || !/^bundle-[a-f0-9]{64}$/.test(ref.bundle_id)) {
+        errors.push(`${path}.bundle_id: must match ^bundle-[a-f0-9]{64}$`);
+      }
+      if (ref.entry_refs !== undefined && (!Array.isArray(ref.entry_refs) || !ref.entry_refs.every(isNonNegativeInteger))) {
+        errors.push(`${path}.entry_refs: must be an array of non-negative integers`);
+      }
+      return;
+    default:
+      errors.push(`${path}.type: unknown evidence ref type ${JSON.stringify(ref.type)}`);
+  }
+}
+
+/**
+ * Validate a decision against schemas/pact_arbiter_decision_v4.json. Returns one message per violation.
+ */
+export function validateArbiterDecisionSchema(decision: unknown): string[] {
+  const errors: string[] = [];
+  if (!isObject(decision)) {
+    return ["decision: must be an object"];
+  }
+  checkKeys(
+    decision,
+    [
+      "decision_id", "transcript_hash", "decision", "amounts", "reason_codes", "evidence_refs",
+      "arbiter_id", "arbiter_pubkey", "issued_at", "signature", "schema_version", "notes",
+    ],
+    "decision",
+    errors
+  );
+  if (typeof decision.decision_id !== "string" || !/^decision-[a-f0-9]{64}$/.test(decision.decision_id)) {
+    errors.push("decision_id: must match ^decision-[a-f0-9]{64}$");
+  }
+  if (typeof decision.transcript_hash !== "string" || !/^transcript-[a-f0-9]{64}$/.test(decision.transcript_hash)) {
+    errors.push("transcript_hash: must match ^transcript-[a-f0-9]{64}$");
+  }
+  if (!(ARBITER_DECISIONS as readonly unknown[]).includes(decision.decision)) {
+    errors.push(`decision: must be one of ${ARBITER_DECISIONS.join(", ")}`);
+  }
+  if (decision.amounts !== undefined) {
+    const amounts = decision.amounts;
+    if (!isObject(amounts)) {
+      errors.push("amounts: must be an object");
+    } else {
+      checkKeys(amounts, ["buyer_amount", "provider_amount", "currency"], "amounts", errors);
+      for (const key of ["buyer_amount", "provider_amount"]) {
+        if (typeof amounts[key] !== "number" || !Number.isFinite(amounts[key]) || (amounts[key] as number) < 0) {
+          errors.push(`amounts.${key}: must be a number >= 0`);
+        }
+      }
+      if (amounts.currency !== undefined && (typeof amounts.currency !== "string" || amounts.currency.length === 0)) {
+        errors.push("amounts.currency: must be a non-empty string");
+      }
+    }
+  } else if (decision.decision === "SPLIT") {
+    errors.push("amounts: required when decision is SPLIT");
+  }
+  if (!Array.isArray(decision.reason_codes) || decision.reason_codes.length === 0) {
+    errors.push("reason_codes: must be a non-empty array");
+  } else {
+    decision.reason_codes.forEach((code, i) => {
+      if (!(ARBITER_REASON_CODES as readonly unknown[]).includes(code)) {
+        errors.push(`reason_codes[${i}]: unknown reason code ${JSON.stringify(code)}`);
+      }
+    });
+  }
+  if (!Array.isArray(decision.evidence_refs)) {
+    errors.push("evidence_refs: must be an array");
+  } else {
+    decision.evidence_refs.forEach((ref, i) => validateEvidenceRef(ref, `evidence_refs[${i}]`, errors));
+  }
+  if (typeof decision.arbiter_id !== "string" || decision.arbiter_id.length === 0) {
+    errors.push("arbiter_id: must be a non-empty string");
+  }
+  if (typeof decision.arbiter_pubkey !== "string" || decision.arbiter_pubkey.length === 0) {
+    errors.push("arbiter_pubkey: must be a non-empty string");
+  }
+  if (!isNonNegativeInteger(decision.issued_at)) {
+    errors.push("issued_at: must be an integer >= 0");
+  }
+  const sig = decision.signature;
+  if (!isObject(sig)) {
+    errors.push("signature: must be an object");
+  } else {
+    checkKeys(sig, ["signer_public_key_b58", "signature_b58", "signed_at_ms", "scheme"], "signature", errors);
+    if (typeof sig.signer_public_key_b58 !== "string" || sig.signer_public_key_b58.length === 0) {
+      errors.push("signature.signer_public_key_b58: must be a non-empty string");
+    }
+    if (typeof sig.signature_b58 !== "string" || sig.signature_b58.length === 0) {
+      errors.push("signature.signature_b58: must be a non-empty string");
+    }
+    if (!isNonNegativeInteger(sig.signed_at_ms)) errors.push("signature.signed_at_ms: must be an integer >= 0");
+    if (sig.scheme !== "ed25519") errors.push('signature.scheme: must be "ed25519"');
+  }
+  if (decision.schema_version !== ARBITER_DECISION_SCHEMA_VERSION) {
+    errors.push(`schema_version: must be ${ARBITER_DECISION_SCHEMA_VERSION}`);
+  }
+  if (decision.notes !== undefined && typeof decision.notes !== "string") {
+    errors.push("notes: must be a string");
+  }
+  return errors;
+}
+
+/**
+ * Deterministic decision_id from transcript_hash + arbiter_id + issued_at.
+ */
+export async function computeDecisionId(
+  transcriptHash: string,
+  arbiterId: string,
+  issuedAt: number,
+  sha256Async: Sha256Async = defaultSha256
+): Promise<string> {
+  const hash = await sha256Async(
+    stableCanonicalize({ arbiter_id: arbiterId, issued_at: issuedAt, transcript_hash: transcriptHash })
+  );
+  return `decision-${hash}`;
+}
+
+/**
+ * Agreed amount/asset from the last ACCEPT round (content_summary.amount, else price).
+ */
+function agreedAmount(transcript: TranscriptV4): { amount: number | null; asset: string | null } {
+  const accept = [...transcript.rounds].reverse().find((r) => r.round_type === "ACCEPT");
+  const summary = accept?.content_summary ?? {};
+  const raw = summary.amount ?? summary.price;
+  const amount = typeof raw === "number" ? raw : typeof raw === "string" && raw.trim() !== "" ? Number(raw) : NaN;
+  return {
+    amount: Number.isFinite(amount) ? amount : null,
+    asset: typeof summary.asset === "string" ? summary.asset : null,
+  };
+}
+
+function checkSplitAmounts(decision: ArbiterDecisionV4, transcript: TranscriptV4 | undefined, errors: string[]): boolean {
+  const amounts = decision.amounts;
+  if (!amounts) return false;
+  let ok = true;
+  const total = amounts.buyer_amount + amounts.provider_amount;
+  if (!(total > 0)) {
+    errors.push("SPLIT amounts must allocate a positive total");
+    ok = false;
+  }
+  if (transcript) {
+    const agreed = agreedAmount(transcript);
+    if (agreed.amount !== null && Math.abs(total - agreed.amount) > AMOUNT_EPSILON) {
+      errors.push(`SPLIT amounts total ${total} does not equal agreed amount ${agreed.amount}`);
+      ok = false;
+    }
+    if (agreed.asset !== null && amounts.currency !== undefined && amounts.currency !== agreed.asset) {
+      errors.push(`SPLIT currency ${amounts.currency} does not match agreed asset ${agreed.asset}`);
+      ok = false;
+    }
+  }
+  return ok;
+}
+
+function checkTranscriptLink(decision: ArbiterDecisionV4, transcript: TranscriptV4, errors: string[]): boolean {
+  const before = errors.length;
+  if (decision.transcript_hash !== transcript.transcript_id) {
+    errors.push(`transcript_hash ${decision.transcript_hash} does not match transcript_id ${transcript.transcript_id}`);
+  }
+  if (typeof transcript.created_at_ms === "number" && decision.issued_at <= transcript.created_at_ms) {
+    errors.push(`issued_at ${decision.issued_at} is not after transcript created_at_ms ${transcript.created_at_ms}`);
+  }
+  const roundHashes = new Set(transcript.rounds.map((r) => r.round_hash).filter((h): h is string => !!h));
+  for (const ref of decision.evidence_refs) {
+    if (ref.type === "round_hash" && !roundHashes.has(ref.ref)) {
+      errors.push(`evidence_refs round_hash ${ref.ref.substring(0, 16)}... not found in transcript`);
+    }
+    if (ref.type === "policy_section" && ref.ref !== transcript.policy_hash) {
+      errors.push(`evidence_refs policy_section ${ref.section} references policy ${ref.ref.substring(0, 16)}..., not transcript policy_hash`);
+    }
+  }
+  const decisionRef = transcript.arbiter_decision_ref;
+  if (decisionRef && !decisionRefMatches(decisionRef, decision.decision_id)) {
+    errors.push(`transcript arbiter_decision_ref ${decisionRef} does not reference ${decision.decision_id}`);
+  }
+  return errors.length === before;
+}
+
+/**
+ * Whether an arbiter_decision_ref points at decision_id (accepts "decision-<hex>" or bare hex).
+ */
+export function decisionRefMatches(ref: string, decisionId: string): boolean {
+  return ref === decisionId || `decision-${ref}` === decisionId;
+}
+
+/**
+ * Verify a decision: schema, deterministic decision_id, signature, trusted arbiter key (when a list is
+ * supplied) and (when a transcript is supplied) transcript linkage; SPLIT amounts are checked against the
+ * transcript's agreed amount.
+ */
+export async function verifyArbiterDecision(
+  decision: unknown,
+  options: ArbiterVerifyOptions = {}
+): Promise<ArbiterDecisionVerification> {
+  const sha256Async = options.sha256Async ?? defaultSha256;
+  const errors = validateArbiterDecisionSchema(decision);
+  const result: ArbiterDecisionVerification = {
+    version: "arbiter_verify/1.0",
+    ok: false,
+    decision_id: isObject(decision) && typeof decision.decision_id === "string" ? decision.decision_id : null,
+    schema_ok: errors.length === 0,
+    decision_id_ok: false,
+    signature_ok: false,
+    trusted: null,
+    transcript_link_ok: null,
+    amounts_ok: null,
+    errors,
+  };
+  if (!result.schema_ok) {
+    return result;
+  }
+  const d = decision as ArbiterDecisionV4;
+
+  const expectedId = await computeDecisionId(d.transcript_hash, d.arbiter_id, d.issued_at, sha256Async);
+  result.decision_id_ok = expectedId === d.decision_id;
+  if (!result.decision_id_ok) {
+    errors.push(`decision_id mismatch: expected ${expectedId}`);
+  }
+
+  if (d.signature.signer_public_key_b58 !== d.arbiter_pubkey) {
+    errors.push("signature.signer_public_key_b58 does not match arbiter_pubkey");
+  }
+  if (d.signature.signed_at_ms !== d.issued_at) {
+    errors.push("signature.signed_at_ms does not equal issued_at");
+  }
+  const { signature, ...unsigned } = d;
+  const digest = await sha256Async(stableCanonicalize(unsigned));
+  try {
+    result.signature_ok =
+      signature.signer_public_key_b58 === d.arbiter_pubkey &&
+      signature.signed_at_ms === d.issued_at &&
+      nacl.sign.detached.verify(hexToBytes(digest), bs58.decode(signature.signature_b58), bs58.decode(d.arbiter_pubkey));
+  } catch {
+    result.signature_ok = false;
+  }
+  if (!result.signature_ok) {
+    errors.push("Arbiter signature invalid");
+  }
+
+  if (options.trustedArbiterKeys) {
+    result.trusted = options.trustedArbiterKeys.includes(d.arbiter_pubkey);
+    if (!result.trusted) {
+      errors.push(`Arbiter key ${d.arbiter_pubkey} is not a trusted arbiter`);
+    }
+  }
+
+  if (options.transcript) {
+    result.transcript_link_ok = checkTranscriptLink(d, options.transcript, errors);
+  }
+  if (d.decision === "SPLIT") {
+    result.amounts_ok = checkSplitAmounts(d, options.transcript, errors);
+  }
+
+  result.ok =
+    result.decision_id_ok &&
+    result.signature_ok &&
+    result.trusted !== false &&
+    result.transcript_link_ok !== false &&
+    result.amounts_ok !== false;
+  return result;
+}
+
+/**
+ * Build and sign a decision for a transcript. Throws when the result would not verify.
+ */
+export async function createArbiterDecision(params: {
+  transcript: TranscriptV4;
+  decision: ArbiterDecisionType;
+  reasonCodes: ArbiterReasonCode[];
+  evidenceRefs: ArbiterEvidenceRef[];
+  arbiterId: string;
+  /** base58 Ed25519 secret key (64 bytes) or seed (32 bytes) */
+  signingKeyB58: string;
+  issuedAt: number;
+  amounts?: ArbiterAmounts;
+  notes?: string;
+  sha256Async?: Sha256Async;
+}): Promise<ArbiterDecisionV4> {
+  const sha256Async = params.sha256Async ?? defaultSha256;
+  const keypair = keyPairFromB58(params.signingKeyB58);
+  const arbiterPubkey = bs58.encode(keypair.publicKey);
+  const unsigned: Omit<ArbiterDecisionV4, "signature"> = {
+    decision_id: await computeDecisionId(params.transcript.transcript_id, params.arbiterId, params.issuedAt, sha256Async),
+    transcript_hash: params.transcript.transcript_id,
+    decision: params.decision,
+    ...(params.amounts ? { amounts: params.amounts } : {}),
+    reason_codes: params.reasonCodes,
+    evidence_refs: params.evidenceRefs,
+    arbiter_id: params.arbiterId,
+    arbiter_pubkey: arbiterPubkey,
+    issued_at: params.issuedAt,
+    schema_version: ARBITER_DECISION_SCHEMA_VERSION,
+    ...(params.notes !== undefined ? { notes: params.notes } : {}),
+  };
+  const digest = await sha256Async(stableCanonicalize(unsigned));
+  const decision: ArbiterDecisionV4 = {
+    ...unsigned,
+    signature: {
+      signer_public_key_b58: arbiterPubkey,
+      signature_b58: bs58.encode(nacl.sign.detached(hexToBytes(digest), keypair.secretKey)),
+      signed_at_ms: params.issuedAt,
+      scheme: "ed25519",
+    },
+  };
+
+  // The transcript being decided on has no arbiter_decision_ref yet; link it to this decision
+  const verification = await verifyArbiterDecision(decision, {
+    transcript: { ...params.transcript, arbiter_decision_ref: decision.decision_id },
+    sha256Async,
+  });
+  if (!verification.ok) {
+    throw new Error(`Arbiter decision would not verify: ${verification.errors.join("; ")}`);
+  }
+  return decision;
+}
+
+/**
+ * Resolve transcript.arbiter_decision_ref against candidate decisions and verify the match.
+ * The summary is only verified when arbiter_pubkey is in trustedArbiterKeys (no list: never verified).
+ * Returns null when the transcript has no ref or no candidate matches.
+ */
+export async function resolveArbiterDecision(
+  transcript: TranscriptV4,
+  candidates: unknown[],
+  options: Omit<ArbiterVerifyOptions, "transcript"> = {}
+): Promise<ArbiterDecisionSummary | null> {
+  const ref = transcript.arbiter_decision_ref;
+  if (!ref) return null;
+  const match = candidates.find(
+    (c): c is ArbiterDecisionV4 => isObject(c) && typeof c.decision_id === "string" && decisionRefMatches(ref, c.decision_id)
+  );
+  if (!match) return null;
+  const trustedArbiterKeys = options.trustedArbiterKeys ?? [];
+  const verification = await verifyArbiterDecision(match, {
+    transcript,
+    sha256Async: options.sha256Async,
+    trustedArbiterKeys,
+  });
+  return {
+    decision_id: match.decision_id,
+    decision: match.decision,
+    reason_codes: match.reason_codes,
+    arbiter_id: match.arbiter_id,
+    arbiter_pubkey: match.arbiter_pubkey,
+    issued_at: match.issued_at,
+    ...(match.amounts ? { amounts: match.amounts } : {}),
+    verified: verification.ok,
+    errors: verification.errors,
+  };
+}
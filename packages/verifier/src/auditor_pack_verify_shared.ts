@@ -5,6 +5,14 @@
 import type { TranscriptV4 } from "./util/transcript_types.js";
 import type { GCView } from "./gc_view/renderer.js";
 import type { JudgmentArtifact } from "./dbl/blame_resolver_v1.js";
+import { findExplicitSigner } from "./util/actor_roles.js";
+import { isAcceptedConstitutionHash } from "./util/constitution_hashes.js";
+import {
+  DEFAULT_UNDERWRITING_RULEBOOK,
+  detectDoubleCommit,
+  evaluateRulebook,
+  type UnderwritingRulebookV1,
+} from "./underwriting/rulebook.js";
 
 type ArtifactKind = "gc_view" | "judgment" | "insurer_summary";
 
@@ -31,6 +39,7 @@ function extractDeterministicJudgment(obj: Record<string, unknown>): Record<stri
     "version", "status", "failureCode", "lastValidRound", "lastValidSummary", "lastValidHash",
     "requiredNextActor", "requiredAction", "terminal", "dblDetermination", "passportImpact",
     "confidence", "recommendation", "evidenceRefs", "claimedEvidenceRefs", "notes", "recommendedActions",
+    "arbiterDecision",
   ];
   for (const field of deterministicFields) {
     if (field in obj && obj[field] !== undefined) result[field] = obj[field];
@@ -53,28 +62,43 @@ export function stripNondeterministic(obj: Record<string, unknown>, kind: Artifa
   return normalized;
 }
 
+/** Underwriting rulebook sealed in a pack, with its hash (computeRulebookHash). */
+export interface SealedRulebook {
+  rulebook: UnderwritingRulebookV1;
+  hash: string;
+}
+
+/**
+ * Full public keys of the buyer and provider an insurer summary is about (the summary shows them truncated).
+ */
+export function extractInsurerSigners(t: TranscriptV4): { buyer: string | null; provider: string | null } {
+  // Explicit roles (actor_role / INTENT role_bindings) win over protocol position
+  const explicitBuyer = findExplicitSigner(t.rounds, "BUYER");
+  const explicitProvider = findExplicitSigner(t.rounds, "PROVIDER");
+  if (explicitBuyer && explicitProvider) return { buyer: explicitBuyer, provider: explicitProvider };
+  const intentRound = t.rounds.find((r) => r.round_type === "INTENT");
+  const buyerKey = explicitBuyer || intentRound?.signature?.signer_public_key_b58 || intentRound?.public_key_b58 || null;
+  const providerRound = t.rounds.find((r) => {
+    const roundKey = r.signature?.signer_public_key_b58 || r.public_key_b58;
+    return roundKey && roundKey !== buyerKey &&
+      (r.round_type === "ASK" || r.round_type === "COUNTER" || r.round_type === "ACCEPT");
+  });
+  const providerKey =
+    explicitProvider || providerRound?.signature?.signer_public_key_b58 || providerRound?.public_key_b58 || null;
+  return { buyer: buyerKey, provider: providerKey };
+}
+
+/**
+ * Derived insurer summary of a pack. Tiers, risk factors, surcharges and coverage come from evaluating the
+ * sealed rulebook, whose id and hash are recorded; without one, from DEFAULT_UNDERWRITING_RULEBOOK (packs
+ * created before rulebooks were sealed keep re-deriving identically).
+ */
 export async function generateInsurerSummary(
   transcript: TranscriptV4,
   gcView: GCView,
-  judgment: JudgmentArtifact
+  judgment: JudgmentArtifact,
+  sealedRulebook?: SealedRulebook
 ): Promise<Record<string, unknown>> {
-  type Tier = "A" | "B" | "C";
-  function tierFromPassport(score: number): Tier {
-    if (score >= 0.20) return "A";
-    if (score >= -0.10) return "B";
-    return "C";
-  }
-  function extractSigners(t: TranscriptV4): { buyer: string | null; provider: string | null } {
-    const intentRound = t.rounds.find((r) => r.round_type === "INTENT");
-    const buyerKey = intentRound?.signature?.signer_public_key_b58 || intentRound?.public_key_b58 || null;
-    const providerRound = t.rounds.find((r) => {
-      const roundKey = r.signature?.signer_public_key_b58 || r.public_key_b58;
-      return roundKey && roundKey !== buyerKey &&
-        (r.round_type === "ASK" || r.round_type === "COUNTER" || r.round_type === "ACCEPT");
-    });
-    const providerKey = providerRound?.signature?.signer_public_key_b58 || providerRound?.public_key_b58 || null;
-    return { buyer: buyerKey, provider: providerKey };
-  }
   function computePassportScoreDelta(faultDomain: string, outcome: string, isProvider: boolean): number {
     if (outcome === "COMPLETED" || outcome.includes("SUCCESS")) return 0.01;
     if (faultDomain === "NO_FAULT") return 0.01;
@@ -83,39 +107,44 @@ export async function generateInsurerSummary(
     if (!isProvider && (faultDomain === "BUYER_AT_FAULT" || faultDomain === "BUYER_RAIL_AT_FAULT")) return -0.05;
     return 0;
   }
-  const signers = extractSigners(transcript);
+  const signers = extractInsurerSigners(transcript);
   const outcome = gcView.executive_summary.status;
   const faultDomain = gcView.responsibility.judgment.fault_domain ?? "NO_FAULT";
   const confidence = judgment.confidence;
   const buyerScore = computePassportScoreDelta(faultDomain, outcome, false);
   const providerScore = computePassportScoreDelta(faultDomain, outcome, true);
-  const riskFactors: string[] = [];
-  const surcharges: string[] = [];
-  if (outcome.includes("FAILED") || outcome.includes("TIMEOUT")) riskFactors.push(outcome);
-  if (faultDomain !== "NO_FAULT") riskFactors.push(faultDomain);
-  if (confidence < 0.7) surcharges.push("LOW_CONFIDENCE");
   const auditTier = transcript.metadata?.audit_tier as "T1" | "T2" | "T3" | undefined;
-  if (auditTier === "T2") riskFactors.push("TIER_T2");
-  if (auditTier === "T3") riskFactors.push("TIER_T3");
-  const buyerTier = tierFromPassport(buyerScore);
-  const providerTier = tierFromPassport(providerScore);
-  let coverage: "COVERED" | "COVERED_WITH_SURCHARGE" | "ESCROW_REQUIRED" | "EXCLUDED" = "COVERED";
-  if (gcView.integrity.hash_chain === "INVALID") coverage = "EXCLUDED";
-  else if (buyerTier === "C" || providerTier === "C") coverage = "ESCROW_REQUIRED";
-  else if (surcharges.length > 0 || buyerTier === "B" || providerTier === "B") coverage = "COVERED_WITH_SURCHARGE";
+  const integrity = gcView.integrity.hash_chain === "VALID" ? "VALID" : "INVALID";
+  const decision = evaluateRulebook(sealedRulebook?.rulebook ?? DEFAULT_UNDERWRITING_RULEBOOK, {
+    integrity,
+    outcome,
+    fault_domain: faultDomain,
+    failure_code: transcript.failure_event?.code ?? null,
+    intent_type: transcript.intent_type ?? null,
+    confidence,
+    audit_tier: auditTier ?? null,
+    double_commit: detectDoubleCommit(transcript),
+    nonstandard_constitution: !isAcceptedConstitutionHash(gcView.constitution.hash),
+    buyer_score: buyerScore,
+    provider_score: providerScore,
+  });
   const result: Record<string, unknown> = {
     version: "insurer_summary/1.0",
     constitution_hash: gcView.constitution.hash.substring(0, 16) + "...",
-    integrity: gcView.integrity.hash_chain === "VALID" ? "VALID" : "INVALID",
+    integrity,
     outcome,
     fault_domain: faultDomain,
     confidence,
-    buyer: signers.buyer ? { signer: signers.buyer.substring(0, 12) + "...", passport_score: buyerScore, tier: buyerTier } : null,
-    provider: signers.provider ? { signer: signers.provider.substring(0, 12) + "...", passport_score: providerScore, tier: providerTier } : null,
-    risk_factors: riskFactors,
-    surcharges,
-    coverage,
+    buyer: signers.buyer ? { signer: signers.buyer.substring(0, 12) + "...", passport_score: buyerScore, tier: decision.buyer_tier } : null,
+    provider: signers.provider ? { signer: signers.provider.substring(0, 12) + "...", passport_score: providerScore, tier: decision.provider_tier } : null,
+    risk_factors: decision.risk_factors,
+    surcharges: decision.surcharges,
+    coverage: decision.coverage,
   };
+  if (sealedRulebook) {
+    result.rulebook_id = sealedRulebook.rulebook.rulebook_id;
+    result.rulebook_hash = sealedRulebook.hash;
+  }
   if (auditTier != null) result.audit_tier = auditTier;
   if (transcript.metadata?.audit_sla != null) result.audit_sla = transcript.metadata.audit_sla;
   // Economic details from last ACCEPT round (deterministic for pack verify recompute)
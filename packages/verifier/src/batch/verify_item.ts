@@ -0,0 +1,194 @@
+/**
+ * Batch verification: per-item checks and aggregate counts for `pact-verifier batch`.
+ *
+ * Items are transcripts (*.json, envelope sidecars excluded) and auditor packs (*.zip).
+ * Every item gets replay + DBL; packs additionally get full pack verification
+ * (checksums, recompute, seal) against the standard constitution loaded once per worker.
+ */
+
+import { readFileSync, readdirSync, statSync } from "node:fs";
+import { join, relative } from "node:path";
+import { createHash } from "node:crypto";
+import JSZip from "jszip";
+import type { TranscriptV4 } from "../util/transcript_types.js";
+import { replayTranscriptV4 } from "../util/replay.js";
+import { resolveBlameV1 } from "../dbl/blame_resolver_v1.js";
+import { verifyAuditorPackFromBytes } from "../verify_auditor_pack_core.js";
+
+export type BatchItemKind = "transcript" | "pack";
+
+export interface BatchItemResult {
+  type: "item";
+  /** Position in the sorted input list (output order). */
+  index: number;
+  file: string;
+  kind: BatchItemKind;
+  transcript_id: string | null;
+  status: "PASS" | "FAIL";
+  /** Replay integrity status, or "ERROR" when the item could not be loaded. */
+  integrity_status: "VALID" | "TAMPERED" | "INVALID" | "PARTIAL" | "ERROR";
+  /** DBL determination from the judgment (NO_FAULT, BUYER_AT_FAULT, ...). */
+  dbl_determination: string | null;
+  failure_code: string | null;
+  terminal: boolean | null;
+  /** Pack verification result (packs only). */
+  pack_ok?: boolean;
+  errors: string[];
+}
+
+export interface BatchSummary {
+  type: "summary";
+  version: "batch_verify/1.0";
+  ok: boolean;
+  items: number;
+  transcripts: number;
+  packs: number;
+  passed: number;
+  failed: number;
+  by_integrity_status: Record<string, number>;
+  by_dbl_determination: Record<string, number>;
+  by_failure_code: Record<string, number>;
+}
+
+export interface BatchContext {
+  /** Standard constitution content for pack recompute (loaded once by the caller). */
+  constitutionContent: string;
+}
+
+function sha256Async(data: string | Uint8Array): Promise<string> {
+  const hash = createHash("sha256");
+  if (typeof data === "string") {
+    hash.update(data, "utf8");
+  } else {
+    hash.update(data);
+  }
+  return Promise.resolve(hash.digest("hex"));
+}
+
+/**
+ * Sorted list of batch inputs under dir (one level, or all levels with recursive).
+ * Paths are absolute; envelope sidecars are not transcripts.
+ */
+export function collectBatchFiles(dir: string, recursive = false): string[] {
+  const files: string[] = [];
+  const walk = (current: string) => {
+    for (const name of readdirSync(current).sort()) {
+      const full = join(current, name);
+      const stat = statSync(full);
+      if (stat.isDirectory()) {
+        if (recursive) walk(full);
+      } else if (stat.isFile() && (name.endsWith(".zip") || (name.endsWith(".json") && !name.endsWith(".envelopes.json")))) {
+        files.push(full);
+      }
+    }
+  };
+  walk(dir);
+  return files;
+}
+
+async function checkTranscript(transcript: TranscriptV4, item: BatchItemResult): Promise<boolean> {
+  if (!transcript || typeof transcript !== "object" || !Array.isArray(transcript.rounds)) {
+    item.errors.push("Not a transcript: missing rounds");
+    return false;
+  }
+  item.transcript_id = typeof transcript.transcript_id === "string" ? transcript.transcript_id : null;
+  item.failure_code = transcript.failure_event?.code ?? null;
+
+  const replay = await replayTranscriptV4(transcript);
+  item.integrity_status = replay.integrity_status;
+  item.errors.push(...replay.errors.map((e) => `${e.type}: ${e.message}`));
+
+  const judgment = await resolveBlameV1(transcript);
+  item.dbl_determination = judgment.dblDetermination;
+  item.terminal = judgment.terminal;
+  return replay.ok;
+}
+
+/**
+ * FAIL item with integrity_status ERROR (nothing verified yet).
+ */
+export function failedBatchItem(filePath: string, index: number, baseDir: string, errors: string[] = []): BatchItemResult {
+  return {
+    type: "item",
+    index,
+    file: relative(baseDir, filePath),
+    kind: filePath.endsWith(".zip") ? "pack" : "transcript",
+    transcript_id: null,
+    status: "FAIL",
+    integrity_status: "ERROR",
+    dbl_determination: null,
+    failure_code: null,
+    terminal: null,
+    errors,
+  };
+}
+
+/**
+ * Verify one batch input. Never throws; load errors become FAIL items with integrity_status ERROR.
+ */
+export async function verifyBatchItem(
+  filePath: string,
+  index: number,
+  baseDir: string,
+  context: BatchContext
+): Promise<BatchItemResult> {
+  const item = failedBatchItem(filePath, index, baseDir);
+  const kind = item.kind;
+
+  try {
+    if (kind === "transcript") {
+      const transcript = JSON.parse(readFileSync(filePath, "utf8")) as TranscriptV4;
+      item.status = (await checkTranscript(transcript, item)) ? "PASS" : "FAIL";
+      return item;
+    }
+
+    const zipBytes = new Uint8Array(readFileSync(filePath));
+    const zip = await JSZip.loadAsync(zipBytes);
+    const transcriptFile = zip.file("input/transcript.json");
+    if (!transcriptFile) {
+      item.errors.push("Pack has no input/transcript.json");
+      return item;
+    }
+    const replayOk = await checkTranscript(JSON.parse(await transcriptFile.async("string")), item);
+    const pack = await verifyAuditorPackFromBytes(zipBytes, {
+      sha256Async,
+      standardConstitutionContent: context.constitutionContent,
+    });
+    item.pack_ok = pack.ok;
+    item.errors.push(...pack.mismatches);
+    item.status = replayOk && pack.ok ? "PASS" : "FAIL";
+  } catch (error) {
+    item.errors.push(`Failed to verify: ${error instanceof Error ? error.message : String(error)}`);
+    item.status = "FAIL";
+  }
+  return item;
+}
+
+function countBy(results: BatchItemResult[], key: (r: BatchItemResult) => string): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const r of results) {
+    const k = key(r);
+    counts[k] = (counts[k] ?? 0) + 1;
+  }
+  return Object.fromEntries(Object.entries(counts).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)));
+}
+
+/**
+ * Aggregate counts over item results (keys sorted for stable output).
+ */
+export function summarizeBatch(results: BatchItemResult[]): BatchSummary {
+  const failed = results.filter((r) => r.status === "FAIL").length;
+  return {
+    type: "summary",
+    version: "batch_verify/1.0",
+    ok: failed === 0,
+    items: results.length,
+    transcripts: results.filter((r) => r.kind === "transcript").length,
+    packs: results.filter((r) => r.kind === "pack").length,
+    passed: results.length - failed,
+    failed,
+    by_integrity_status: countBy(results, (r) => r.integrity_status),
+    by_dbl_determination: countBy(results, (r) => r.dbl_determination ?? "UNKNOWN"),
+    by_failure_code: countBy(results, (r) => r.failure_code ?? "NONE"),
+  };
+}
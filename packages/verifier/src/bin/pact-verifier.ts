@@ -9,9 +9,18 @@
  *   pact-verifier gc-view --transcript <path>
  *   pact-verifier gc-summary --transcript <path>
  *   pact-verifier insurer-summary --transcript <path>
+ *   pact-verifier insurer-portfolio --packs-dir <dir>
  *   pact-verifier judge-v4 --transcript <path>
  *   pact-verifier passport-v1-recompute --transcripts-dir <dir>
  *   pact-verifier contention-scan --transcripts-dir <dir>
+ *   pact-verifier replay-verify [--strict] [--terminal-only] [--reconciled-only] [--no-historical] <dir>
+ *   pact-verifier replay-v4 --transcript <path>
+ *   pact-verifier arbiter-decide --transcript <path> --decision <type> --reason <code> --arbiter-id <id> --sign-key <file>
+ *   pact-verifier arbiter-verify --decision <path> [--transcript <path>]
+ *   pact-verifier merkle-digest --transcripts-dir <dir>
+ *   pact-verifier merkle-verify-inclusion --zip <pack.zip> --digest <digest.json>
+ *   pact-verifier batch --dir <dir> [--jobs N]
+ *   pact-verifier view-verify --view <view.json>
  */
 
 // EPIPE handler for pipe safety
@@ -26,6 +35,14 @@ const subcommand = process.argv[2];
 const PACKAGE_VERSION = "0.2.1";
 
 const subcommands: Record<string, () => Promise<void>> = {
+  "arbiter-decide": async () => {
+    const { main } = await import("../cli/arbiter_decide.js");
+    await main();
+  },
+  "arbiter-verify": async () => {
+    const { main } = await import("../cli/arbiter_verify.js");
+    await main();
+  },
   "auditor-pack": async () => {
     const { main } = await import("../cli/auditor_pack.js");
     await main();
@@ -34,6 +51,10 @@ const subcommands: Record<string, () => Promise<void>> = {
     const { main } = await import("../cli/auditor_pack_verify.js");
     await main();
   },
+  "batch": async () => {
+    const { main } = await import("../cli/batch.js");
+    await main();
+  },
   "gc-view": async () => {
     const { main } = await import("../cli/gc_view.js");
     await main();
@@ -46,18 +67,42 @@ const subcommands: Record<string, () => Promise<void>> = {
     const { main } = await import("../cli/insurer_summary.js");
     await main();
   },
+  "insurer-portfolio": async () => {
+    const { main } = await import("../cli/insurer_portfolio.js");
+    await main();
+  },
   "judge-v4": async () => {
     // judge_v4 uses IIFE pattern, import will execute it
     await import("../cli/judge_v4.js");
   },
+  "merkle-digest": async () => {
+    const { main } = await import("../cli/merkle_digest.js");
+    await main();
+  },
+  "merkle-verify-inclusion": async () => {
+    const { main } = await import("../cli/merkle_verify_inclusion.js");
+    await main();
+  },
   "passport-v1-recompute": async () => {
     const { main } = await import("../cli/passport_v1_recompute.js");
     await main();
   },
+  "replay-verify": async () => {
+    const { main } = await import("../cli/replay_verify.js");
+    await main();
+  },
+  "replay-v4": async () => {
+    const { main } = await import("../cli/replay_v4.js");
+    await main();
+  },
   "contention-scan": async () => {
     // contention_scan uses IIFE pattern, import will execute it
     await import("../cli/contention_scan.js");
   },
+  "view-verify": async () => {
+    const { main } = await import("../cli/view_verify.js");
+    await main();
+  },
   "version": async () => {
     console.log(PACKAGE_VERSION);
   },
@@ -75,11 +120,20 @@ function printUsage(): void {
   console.error("  pact-verifier gc-view --transcript transcript.json");
   console.error("  pact-verifier gc-summary --transcript transcript.json");
   console.error("  pact-verifier insurer-summary --transcript transcript.json");
+  console.error("  pact-verifier insurer-portfolio --packs-dir ./packs --csv portfolio.csv > portfolio.json");
   console.error("  pact-verifier judge-v4 --transcript transcript.json");
   console.error("  pact-verifier passport-v1-recompute --transcripts-dir ./transcripts");
   console.error("  pact-verifier contention-scan --transcripts-dir ./transcripts");
+  console.error("  pact-verifier replay-verify --strict --terminal-only -- .pact/transcripts");
+  console.error("  pact-verifier replay-v4 --transcript transcript.json");
   console.error("  pact-verifier auditor-pack --transcript transcript.json --out evidence.zip");
   console.error("  pact-verifier auditor-pack-verify --zip evidence.zip");
+  console.error("  pact-verifier arbiter-decide --transcript tx.json --decision REFUND --reason PROVIDER_NON_DELIVERY --arbiter-id arbiter-1 --sign-key arbiter.key");
+  console.error("  pact-verifier arbiter-verify --decision decision.json --transcript tx.json");
+  console.error("  pact-verifier merkle-digest --transcripts-dir ./transcripts --out digest.json --proofs-dir ./proofs");
+  console.error("  pact-verifier merkle-verify-inclusion --zip evidence.zip --digest digest.json");
+  console.error("  pact-verifier batch --dir ./transcripts --jobs 8 > nightly.ndjson");
+  console.error("  pact-verifier view-verify --view auditor_view.json");
   console.error("  pact-verifier version");
 }
 
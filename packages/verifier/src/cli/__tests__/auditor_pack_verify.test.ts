@@ -10,8 +10,11 @@ import { join, resolve, dirname } from "path";
 import { fileURLToPath } from "url";
 import { createHash } from "crypto";
 import JSZip from "jszip";
+import nacl from "tweetnacl";
+import bs58 from "bs58";
 import { verifyAuditorPackFromBytes, findConstitutionInZip } from "../../verify_auditor_pack_core.js";
 import { getConstitutionContent } from "../../load_constitution_node.js";
+import { stableCanonicalize } from "../../util/canonical_pure.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -196,6 +199,26 @@ describe("Auditor Pack Verify CLI", () => {
       expect(report.ok).toBe(false);
     });
 
+    it("should fail when a file not listed in checksums is added", async () => {
+      const zipPath = join(tempDir, "unlisted.zip");
+      const transcriptPath = join(repoRoot, "fixtures/success/SUCCESS-001-simple.json");
+
+      runAuditorPack(["--transcript", transcriptPath, "--out", zipPath]);
+
+      // An optional input slipped in after packing is outside the sealed checksums
+      const zip = await JSZip.loadAsync(readFileSync(zipPath));
+      zip.file("input/arbiter_decision.json", JSON.stringify({ decision: "REFUND" }));
+      writeFileSync(zipPath, await zip.generateAsync({ type: "nodebuffer" }));
+
+      const verifyResult = runAuditorPackVerify(["--zip", zipPath]);
+      expect(verifyResult.exitCode).toBe(1);
+
+      const report = JSON.parse(verifyResult.stdout);
+      expect(report.ok).toBe(false);
+      expect(report.checksums_ok).toBe(false);
+      expect(report.mismatches).toContain("File in ZIP not listed in checksums: input/arbiter_decision.json");
+    });
+
     it("should fail when a required file is missing", async () => {
       const zipPath = join(tempDir, "incomplete.zip");
       const transcriptPath = join(repoRoot, "fixtures/success/SUCCESS-001-simple.json");
@@ -661,6 +684,176 @@ describe("Auditor Pack Verify CLI", () => {
     });
   });
 
+  describe("Arbiter decision", () => {
+    const arbiterKeys = nacl.sign.keyPair.fromSeed(new Uint8Array(32).fill(9));
+    const arbiterPub = bs58.encode(arbiterKeys.publicKey);
+
+    function buildPackWithDecision(zipPath: string): void {
+      const keyPath = join(tempDir, "arbiter.key");
+      writeFileSync(keyPath, bs58.encode(arbiterKeys.secretKey) + "\n");
+      const decisionPath = join(tempDir, "decision.json");
+      const linkedPath = join(tempDir, "linked.json");
+      const decideCli = resolve(__dirname, "../../cli/arbiter_decide.ts");
+      execSync(
+        `npx tsx "${decideCli}" --transcript fixtures/success/SUCCESS-001-simple.json --decision REFUND --reason PROVIDER_NON_DELIVERY --arbiter-id arbiter-1 --sign-key "${keyPath}" --issued-at 1000000060000 --out "${decisionPath}" --linked-transcript-out "${linkedPath}"`,
+        { cwd: repoRoot, stdio: "pipe", timeout: 30000 }
+      );
+      const packResult = runAuditorPack([
+        "--transcript", linkedPath, "--out", zipPath, "--arbiter-decision", decisionPath, "--trusted-arbiter", arbiterPub,
+      ]);
+      expect(packResult.exitCode).toBe(0);
+    }
+
+    it("should include the decision and surface it as verified in judgment and gc_view", async () => {
+      const zipPath = join(tempDir, "arbiter.zip");
+      buildPackWithDecision(zipPath);
+
+      const zip = await JSZip.loadAsync(readFileSync(zipPath));
+      const manifest = JSON.parse(await zip.file("manifest.json")!.async("string"));
+      expect(manifest.included_artifacts).toContain("input/arbiter_decision.json");
+      const judgment = JSON.parse(await zip.file("derived/judgment.json")!.async("string"));
+      expect(judgment.arbiterDecision).toMatchObject({ decision: "REFUND", verified: true });
+      const gcView = JSON.parse(await zip.file("derived/gc_view.json")!.async("string"));
+      expect(gcView.responsibility.arbiter_decision.verified).toBe(true);
+
+      const verifyResult = runAuditorPackVerify(["--zip", zipPath, "--trusted-arbiter", arbiterPub]);
+      expect(verifyResult.exitCode).toBe(0);
+      expect(JSON.parse(verifyResult.stdout).recompute_ok).toBe(true);
+
+      // Without trusting the arbiter the packed "verified" decision does not re-derive
+      const untrusted = runAuditorPackVerify(["--zip", zipPath]);
+      expect(untrusted.exitCode).toBe(1);
+      expect(JSON.parse(untrusted.stdout).recompute_ok).toBe(false);
+    });
+
+    it("should fail recompute when the decision is swapped and checksums regenerated", async () => {
+      const zipPath = join(tempDir, "arbiter-tampered.zip");
+      buildPackWithDecision(zipPath);
+
+      const zip = await JSZip.loadAsync(readFileSync(zipPath));
+      const decision = JSON.parse(await zip.file("input/arbiter_decision.json")!.async("string"));
+      decision.decision = "RELEASE";
+      zip.file("input/arbiter_decision.json", JSON.stringify(decision, null, 2));
+      const newChecksums: string[] = [];
+      const files = Object.keys(zip.files).filter((f) => !f.endsWith("/") && f !== "checksums.sha256");
+      for (const file of files.sort()) {
+        const content = await zip.file(file)!.async("nodebuffer");
+        newChecksums.push(`${createHash("sha256").update(content).digest("hex")}  ${file}`);
+      }
+      zip.file("checksums.sha256", newChecksums.join("\n") + "\n");
+      writeFileSync(zipPath, await zip.generateAsync({ type: "nodebuffer" }));
+
+      const verifyResult = runAuditorPackVerify(["--zip", zipPath, "--trusted-arbiter", arbiterPub]);
+      expect(verifyResult.exitCode).toBe(1);
+      const report = JSON.parse(verifyResult.stdout);
+      expect(report.checksums_ok).toBe(true);
+      expect(report.recompute_ok).toBe(false);
+    });
+  });
+
+  describe("Packer seal", () => {
+    const packerKeys = nacl.sign.keyPair.fromSeed(createHash("sha256").update("packer-seal-test").digest());
+    const packerPub = bs58.encode(packerKeys.publicKey);
+    const sha256Async = async (data: string | Uint8Array): Promise<string> =>
+      createHash("sha256").update(typeof data === "string" ? Buffer.from(data, "utf8") : Buffer.from(data)).digest("hex");
+
+    function buildSignedPack(zipPath: string): void {
+      const keyPath = join(tempDir, "packer.key");
+      writeFileSync(keyPath, bs58.encode(packerKeys.secretKey) + "\n");
+      const transcriptPath = join(repoRoot, "fixtures/success/SUCCESS-001-simple.json");
+      const packResult = runAuditorPack(["--transcript", transcriptPath, "--out", zipPath, "--sign-key", keyPath]);
+      expect(packResult.exitCode).toBe(0);
+    }
+
+    async function verifyBytes(zipPath: string, opts: { trustedPackerKeys?: string[]; requireSignature?: boolean } = {}) {
+      return verifyAuditorPackFromBytes(new Uint8Array(readFileSync(zipPath)), {
+        sha256Async,
+        standardConstitutionContent: getConstitutionContent(),
+        ...opts,
+      });
+    }
+
+    it("should seal the pack with manifest.sig.json and verify against a trusted packer", async () => {
+      const zipPath = join(tempDir, "signed.zip");
+      buildSignedPack(zipPath);
+
+      const zip = await JSZip.loadAsync(readFileSync(zipPath));
+      const seal = JSON.parse(await zip.file("manifest.sig.json")!.async("string"));
+      expect(seal.version).toBe("pact-pack-signature/1");
+      expect(seal.signer_public_key_b58).toBe(packerPub);
+      const checksums = await zip.file("checksums.sha256")!.async("string");
+      expect(checksums).not.toContain("manifest.sig.json");
+      expect(seal.checksums_hash).toBe(await sha256Async(checksums));
+
+      const verifyResult = runAuditorPackVerify(["--zip", zipPath, "--trusted-packer", packerPub, "--require-signature"]);
+      expect(verifyResult.exitCode).toBe(0);
+      const report = JSON.parse(verifyResult.stdout);
+      expect(report.ok).toBe(true);
+      expect(report.seal).toEqual({ signed: true, signer_public_key_b58: packerPub, signature_ok: true, trusted: true });
+    });
+
+    it("should fail when the signer is not a trusted packer", async () => {
+      const zipPath = join(tempDir, "signed.zip");
+      buildSignedPack(zipPath);
+
+      const otherPub = bs58.encode(nacl.sign.keyPair.fromSeed(new Uint8Array(32).fill(7)).publicKey);
+      const report = await verifyBytes(zipPath, { trustedPackerKeys: [otherPub] });
+      expect(report.ok).toBe(false);
+      expect(report.checksums_ok).toBe(true);
+      expect(report.recompute_ok).toBe(true);
+      expect(report.seal?.signature_ok).toBe(true);
+      expect(report.seal?.trusted).toBe(false);
+      expect(report.mismatches.some((m) => m.includes("not a trusted packer"))).toBe(true);
+    });
+
+    it("should fail when manifest.json is altered after sealing, even with regenerated checksums", async () => {
+      const zipPath = join(tempDir, "signed.zip");
+      buildSignedPack(zipPath);
+
+      const zip = await JSZip.loadAsync(readFileSync(zipPath));
+      const manifest = JSON.parse(await zip.file("manifest.json")!.async("string"));
+      manifest.created_at_ms = manifest.created_at_ms + 1;
+      zip.file("manifest.json", JSON.stringify(manifest, null, 2));
+      const newChecksums: string[] = [];
+      const files = Object.keys(zip.files).filter(
+        (f) => !f.endsWith("/") && f !== "checksums.sha256" && f !== "manifest.sig.json"
+      );
+      for (const file of files.sort()) {
+        const content = await zip.file(file)!.async("nodebuffer");
+        newChecksums.push(`${createHash("sha256").update(content).digest("hex")}  ${file}`);
+      }
+      zip.file("checksums.sha256", newChecksums.join("\n") + "\n");
+      writeFileSync(zipPath, await zip.generateAsync({ type: "nodebuffer" }));
+
+      const report = await verifyBytes(zipPath, { trustedPackerKeys: [packerPub] });
+      expect(report.ok).toBe(false);
+      expect(report.checksums_ok).toBe(true);
+      expect(report.seal?.signature_ok).toBe(false);
+      expect(report.mismatches.some((m) => m.includes("manifest_hash mismatch"))).toBe(true);
+      expect(report.mismatches.some((m) => m.includes("checksums_hash mismatch"))).toBe(true);
+    });
+
+    it("should fail an unsigned pack when a signature or trusted packer is required", async () => {
+      const zipPath = join(tempDir, "unsigned.zip");
+      const transcriptPath = join(repoRoot, "fixtures/success/SUCCESS-001-simple.json");
+      expect(runAuditorPack(["--transcript", transcriptPath, "--out", zipPath]).exitCode).toBe(0);
+
+      const plain = await verifyBytes(zipPath);
+      expect(plain.ok).toBe(true);
+      expect(plain.seal).toBeUndefined();
+
+      const required = await verifyBytes(zipPath, { trustedPackerKeys: [packerPub], requireSignature: true });
+      expect(required.ok).toBe(false);
+      expect(required.seal).toEqual({ signed: false });
+      expect(required.mismatches.some((m) => m.includes("pack signature required"))).toBe(true);
+
+      const trustedOnly = await verifyBytes(zipPath, { trustedPackerKeys: [packerPub] });
+      expect(trustedOnly.ok).toBe(false);
+      expect(trustedOnly.seal).toEqual({ signed: false });
+      expect(trustedOnly.mismatches.some((m) => m.includes("pack signature required"))).toBe(true);
+    });
+  });
+
   describe("Constitution lookup (normalized zip names)", () => {
     it("findConstitutionInZip finds constitution at primary path constitution/CONSTITUTION_v1.md", async () => {
       const zip = new JSZip();
@@ -694,6 +887,74 @@ describe("Auditor Pack Verify CLI", () => {
     });
   });
 
+  describe("Sealed constitution", () => {
+    it("re-derives under the constitution sealed in the pack, not the verifier's current standard", async () => {
+      const zipPath = join(tempDir, "sealed.zip");
+      const packResult = runAuditorPack(["--transcript", "fixtures/success/SUCCESS-001-simple.json", "--out", zipPath]);
+      expect(packResult.exitCode).toBe(0);
+      const manifest = JSON.parse(await (await JSZip.loadAsync(readFileSync(zipPath))).file("manifest.json")!.async("string"));
+
+      // A verifier whose shipped constitution moved on (e.g. to a later version) still verifies v1.0 packs
+      const report = await verifyAuditorPackFromBytes(new Uint8Array(readFileSync(zipPath)), {
+        sha256Async: async (data) => createHash("sha256").update(typeof data === "string" ? Buffer.from(data, "utf8") : Buffer.from(data)).digest("hex"),
+        standardConstitutionContent: getConstitutionContent().replace(/constitution\/1\.0/g, "constitution/1.1"),
+      });
+      expect(report.mismatches).toEqual([]);
+      expect(report.ok).toBe(true);
+      expect(report.constitution).toEqual({ hash: manifest.constitution_hash, version: "constitution/1.0", accepted: true });
+    });
+  });
+
+  describe("Underwriting rulebook", () => {
+    const rulebook = {
+      version: "pact-underwriting-rulebook/1",
+      rulebook_id: "test-no-weather/1.0",
+      tiers: [
+        { tier: "A", min_score: 0.2 },
+        { tier: "B", min_score: -0.1 },
+        { tier: "C", min_score: null },
+      ],
+      risk_factors: [{ id: "WEATHER_INTENT", when: { intent_type: ["weather.data"] } }],
+      surcharges: [],
+      exclusions: [{ id: "NO_WEATHER", when: { risk_factor: ["WEATHER_INTENT"] } }],
+      escrow: [],
+    };
+
+    it("derives the insurer summary under the sealed rulebook and re-derives it on verify", async () => {
+      const rulebookPath = join(tempDir, "rulebook.json");
+      writeFileSync(rulebookPath, JSON.stringify(rulebook));
+      const zipPath = join(tempDir, "rulebook.zip");
+      const packResult = runAuditorPack(["--transcript", "fixtures/success/SUCCESS-001-simple.json", "--out", zipPath, "--rulebook", rulebookPath]);
+      expect(packResult.exitCode).toBe(0);
+
+      const zip = await JSZip.loadAsync(readFileSync(zipPath));
+      const summary = JSON.parse(await zip.file("derived/insurer_summary.json")!.async("string"));
+      const rulebookHash = createHash("sha256").update(stableCanonicalize(rulebook)).digest("hex");
+      expect(summary).toMatchObject({ rulebook_id: "test-no-weather/1.0", rulebook_hash: rulebookHash, coverage: "EXCLUDED" });
+      expect(summary.risk_factors).toEqual(["WEATHER_INTENT"]);
+
+      const verifyResult = runAuditorPackVerify(["--zip", zipPath]);
+      expect(verifyResult.exitCode).toBe(0);
+      expect(JSON.parse(verifyResult.stdout).rulebook).toEqual({ id: "test-no-weather/1.0", hash: rulebookHash });
+
+      // Loosening the sealed rulebook (checksums regenerated) no longer reproduces the summary
+      zip.file("underwriting/rulebook.json", JSON.stringify({ ...rulebook, exclusions: [] }, null, 2));
+      const newChecksums: string[] = [];
+      const files = Object.keys(zip.files).filter((f) => !f.endsWith("/") && f !== "checksums.sha256");
+      for (const file of files.sort()) {
+        const content = await zip.file(file)!.async("nodebuffer");
+        newChecksums.push(`${createHash("sha256").update(content).digest("hex")}  ${file}`);
+      }
+      zip.file("checksums.sha256", newChecksums.join("\n") + "\n");
+      writeFileSync(zipPath, await zip.generateAsync({ type: "nodebuffer" }));
+
+      const tampered = JSON.parse(runAuditorPackVerify(["--zip", zipPath]).stdout);
+      expect(tampered.checksums_ok).toBe(true);
+      expect(tampered.recompute_ok).toBe(false);
+      expect(tampered.mismatches[0]).toContain("derived/insurer_summary.json mismatch");
+    });
+  });
+
   describe("Design partner bundle pack", () => {
     it("loads auditor_pack_success.zip, finds constitution, and hash matches manifest", async () => {
       const packPath = resolve(__dirname, "../../../../../..", "design_partner_bundle", "packs", "auditor_pack_success.zip");
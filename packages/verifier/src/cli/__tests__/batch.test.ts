@@ -0,0 +1,138 @@
+/**
+ * Batch CLI tests: worker-thread verification over a mixed directory of transcripts and packs,
+ * NDJSON in input order, aggregate counts and exit code.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { execSync } from "child_process";
+import { mkdtempSync, rmSync, readFileSync, existsSync, writeFileSync, copyFileSync, mkdirSync } from "fs";
+import { tmpdir } from "os";
+import { join, resolve, dirname } from "path";
+import { fileURLToPath } from "url";
+import { Worker } from "worker_threads";
+import { runPool } from "../batch.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const repoRoot = resolve(__dirname, "../../../../..");
+
+function runCLI(cli: string, args: string[]): { stdout: string; stderr: string; exitCode: number } {
+  const cliPath = resolve(__dirname, `../../cli/${cli}.ts`);
+  try {
+    const stdout = execSync(`npx tsx "${cliPath}" ${args.join(" ")}`, {
+      cwd: repoRoot,
+      encoding: "utf8",
+      stdio: ["ignore", "pipe", "pipe"],
+      timeout: 120000,
+    });
+    return { stdout, stderr: "", exitCode: 0 };
+  } catch (error: any) {
+    return {
+      stdout: error.stdout?.toString() || "",
+      stderr: error.stderr?.toString() || "",
+      exitCode: error.status || 1,
+    };
+  }
+}
+
+function parseNdjson(text: string): any[] {
+  return text
+    .split("\n")
+    .filter((line) => line.trim().length > 0)
+    .map((line) => JSON.parse(line));
+}
+
+describe("batch CLI", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "batch-test-"));
+  });
+
+  afterEach(() => {
+    if (existsSync(tempDir)) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("verifies transcripts and packs across workers and aggregates the results", () => {
+    copyFileSync(join(repoRoot, "fixtures/success/SUCCESS-002-negotiated.json"), join(tempDir, "a-success.json"));
+    copyFileSync(join(repoRoot, "fixtures/failures/PACT-101-policy-violation.json"), join(tempDir, "b-pact101.json"));
+    const tampered = JSON.parse(readFileSync(join(repoRoot, "fixtures/success/SUCCESS-002-negotiated.json"), "utf8"));
+    tampered.rounds[0].timestamp_ms += 1;
+    writeFileSync(join(tempDir, "c-tampered.json"), JSON.stringify(tampered));
+    mkdirSync(join(tempDir, "packs"));
+    const pack = runCLI("auditor_pack", [
+      "--transcript",
+      "fixtures/success/SUCCESS-001-simple.json",
+      "--out",
+      join(tempDir, "packs/d-pack.zip"),
+    ]);
+    expect(pack.exitCode).toBe(0);
+
+    const result = runCLI("batch", ["--dir", tempDir, "--recursive", "--jobs", "2"]);
+    expect(result.exitCode).toBe(1);
+
+    const lines = parseNdjson(result.stdout);
+    expect(lines).toHaveLength(5);
+    const items = lines.slice(0, 4);
+    expect(items.map((l) => l.index)).toEqual([0, 1, 2, 3]);
+    expect(items.map((l) => l.file)).toEqual(["a-success.json", "b-pact101.json", "c-tampered.json", join("packs", "d-pack.zip")]);
+    expect(items[0]).toMatchObject({ status: "PASS", integrity_status: "VALID", dbl_determination: "NO_FAULT" });
+    expect(items[1]).toMatchObject({ status: "PASS", failure_code: "PACT-101", dbl_determination: "BUYER_AT_FAULT" });
+    expect(items[2]).toMatchObject({ status: "FAIL", integrity_status: "TAMPERED" });
+    expect(items[3]).toMatchObject({ kind: "pack", status: "PASS", pack_ok: true });
+
+    expect(lines[4]).toEqual({
+      type: "summary",
+      version: "batch_verify/1.0",
+      ok: false,
+      items: 4,
+      transcripts: 3,
+      packs: 1,
+      passed: 3,
+      failed: 1,
+      by_integrity_status: { TAMPERED: 1, VALID: 3 },
+      by_dbl_determination: { BUYER_AT_FAULT: 1, INDETERMINATE_TAMPER: 1, NO_FAULT: 2 },
+      by_failure_code: { NONE: 3, "PACT-101": 1 },
+    });
+  }, 180000);
+
+  it("produces the same report regardless of --jobs and exits 0 when all items pass", () => {
+    for (const name of ["SUCCESS-001-simple", "SUCCESS-002-negotiated"]) {
+      copyFileSync(join(repoRoot, `fixtures/success/${name}.json`), join(tempDir, `${name}.json`));
+    }
+    const outPath = join(tempDir, "..", `${tempDir.split("/").pop()}.ndjson`);
+    try {
+      const serial = runCLI("batch", ["--dir", tempDir, "--jobs", "1", "--out", outPath]);
+      expect(serial.exitCode).toBe(0);
+      const parallel = runCLI("batch", ["--dir", tempDir, "--jobs", "2"]);
+      expect(parallel.exitCode).toBe(0);
+      expect(parallel.stdout).toBe(readFileSync(outPath, "utf8"));
+      expect(parseNdjson(parallel.stdout).pop()).toMatchObject({ ok: true, items: 2, passed: 2, failed: 0 });
+    } finally {
+      rmSync(outPath, { force: true });
+    }
+  }, 180000);
+
+  it("records a FAIL item and keeps going when a worker exits mid-task", async () => {
+    // Fake worker: answers every task except index 1, on which it exits without a message or error
+    const script = `
+      const { parentPort } = require("node:worker_threads");
+      parentPort.on("message", (task) => {
+        if (task.index === 1) process.exit(3);
+        parentPort.postMessage({ type: "item", index: task.index, file: task.file, kind: "transcript", status: "PASS", errors: [] });
+      });
+    `;
+    const files = ["a.json", "b.json", "c.json", "d.json"].map((f) => join(tempDir, f));
+    const emitted: number[] = [];
+    const results = await runPool(files, tempDir, 2, { constitutionContent: "" }, (r) => emitted.push(r.index), () =>
+      new Worker(script, { eval: true })
+    );
+
+    expect(emitted).toEqual([0, 1, 2, 3]);
+    expect(results.map((r) => r.status)).toEqual(["PASS", "FAIL", "PASS", "PASS"]);
+    expect(results[1]).toMatchObject({ file: "b.json", integrity_status: "ERROR" });
+    expect(results[1].errors[0]).toContain("exit code 3");
+  }, 30000);
+});
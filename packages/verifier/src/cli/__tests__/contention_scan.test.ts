@@ -9,6 +9,7 @@ import { execSync } from "node:child_process";
 import { readFileSync, writeFileSync, mkdirSync, rmSync, existsSync } from "node:fs";
 import { join, resolve, dirname } from "node:path";
 import { fileURLToPath } from "node:url";
+import { hashCanonicalHex } from "../../util/canonical.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -264,4 +265,109 @@ describe("contention_scan CLI", () => {
     // Verify report stats
     expect(report.double_commits).toBeGreaterThanOrEqual(1);
   });
+
+  describe("EXCLUSIVE contention windows (PACT-330)", () => {
+    /**
+     * SUCCESS-001 copy claiming an EXCLUSIVE contention_key, with its ACCEPT (last round) shifted by
+     * acceptShiftMs. The ACCEPT round_hash and final_hash are recomputed so the copy replays VALID.
+     */
+    function exclusiveClaim(transcriptId: string, acceptShiftMs: number, scope = "EXCLUSIVE"): any {
+      const transcript = loadFixture("success/SUCCESS-001-simple.json");
+      transcript.transcript_id = transcriptId;
+      transcript.metadata = { contention_key: "GPU_SLOT_17", contention_scope: scope, contention_window_ms: 60000 };
+      const accept = transcript.rounds[transcript.rounds.length - 1];
+      accept.timestamp_ms += acceptShiftMs;
+      const { round_hash: _r, ...acceptWithoutHash } = accept;
+      accept.round_hash = hashCanonicalHex(acceptWithoutHash);
+      const { final_hash: _f, ...rest } = transcript;
+      transcript.final_hash = hashCanonicalHex(rest);
+      return transcript;
+    }
+
+    it("reports overlapping exclusive claims on the same contention_key as PACT-330 evidence", () => {
+      writeFileSync(join(tempDir, "a.json"), JSON.stringify(exclusiveClaim("transcript-a", 0)));
+      writeFileSync(join(tempDir, "b.json"), JSON.stringify(exclusiveClaim("transcript-b", 1000)));
+      // Outside the winner's 60s window: wins the next window
+      writeFileSync(join(tempDir, "c.json"), JSON.stringify(exclusiveClaim("transcript-c", 120000)));
+
+      const result = runCLI(["--transcripts-dir", tempDir]);
+      expect(result.exitCode).toBe(0);
+      const report = JSON.parse(result.stdout);
+
+      expect(report.exclusivity_violations).toBe(1);
+      expect(report.evidence).toHaveLength(1);
+      const evidence = report.evidence[0];
+      expect(evidence.code).toBe("PACT-330");
+      expect(evidence.contention_key).toBe("GPU_SLOT_17");
+      expect(evidence.winner.transcript_id).toBe("transcript-a");
+      expect(evidence.violator.transcript_id).toBe("transcript-b");
+      expect(evidence.violator.file).toBe("b.json");
+      expect(evidence.window.end_ms - evidence.window.start_ms).toBe(60000);
+      expect(evidence.violator.accept_timestamp_ms).toBeLessThan(evidence.window.end_ms);
+      // Same provider on both accepts: provider double-sell (Constitution §6.4)
+      expect(evidence.rule).toBe("PROVIDER_DOUBLE_SELL");
+      expect(evidence.fault_domain).toBe("PROVIDER_AT_FAULT");
+    });
+
+    it("lists claims from transcripts that fail replay as unverified, without evidence or blame", () => {
+      writeFileSync(join(tempDir, "a.json"), JSON.stringify(exclusiveClaim("transcript-a", 0)));
+      // Forged file: ACCEPT moved into a's window without resealing the hash chain
+      const forged = exclusiveClaim("transcript-b", 0);
+      forged.rounds[forged.rounds.length - 1].timestamp_ms += 1000;
+      writeFileSync(join(tempDir, "b.json"), JSON.stringify(forged));
+
+      const result = runCLI(["--transcripts-dir", tempDir]);
+      expect(result.exitCode).toBe(0);
+      const report = JSON.parse(result.stdout);
+      expect(report.exclusivity_violations).toBe(0);
+      expect(report.evidence).toEqual([]);
+      expect(report.unverified_claims).toEqual([
+        { transcript_id: "transcript-b", file: "b.json", contention_key: "GPU_SLOT_17", integrity_status: "TAMPERED" },
+      ]);
+    });
+
+    it("ignores NON_EXCLUSIVE claims and repeated copies of the same ACCEPT", () => {
+      writeFileSync(join(tempDir, "a.json"), JSON.stringify(exclusiveClaim("transcript-a", 0, "NON_EXCLUSIVE")));
+      writeFileSync(join(tempDir, "b.json"), JSON.stringify(exclusiveClaim("transcript-b", 1000, "NON_EXCLUSIVE")));
+      writeFileSync(join(tempDir, "c.json"), JSON.stringify(exclusiveClaim("transcript-c", 0)));
+      writeFileSync(join(tempDir, "c-copy.json"), JSON.stringify(exclusiveClaim("transcript-c", 0)));
+
+      const report = JSON.parse(runCLI(["--transcripts-dir", tempDir]).stdout);
+      expect(report.exclusivity_violations).toBe(0);
+      expect(report.evidence).toEqual([]);
+    });
+
+    it("persists an index and only processes new or changed files", () => {
+      const indexPath = `${tempDir}.index.json`;
+      try {
+        writeFileSync(join(tempDir, "a.json"), JSON.stringify(exclusiveClaim("transcript-a", 0)));
+        writeFileSync(join(tempDir, "b.json"), JSON.stringify(exclusiveClaim("transcript-b", 1000)));
+
+        const first = JSON.parse(runCLI(["--transcripts-dir", tempDir, "--index", indexPath]).stdout);
+        expect(first.scanned.from_index).toBe(0);
+        expect(existsSync(indexPath)).toBe(true);
+
+        writeFileSync(join(tempDir, "c.json"), JSON.stringify(exclusiveClaim("transcript-c", 2000)));
+        const second = JSON.parse(runCLI(["--transcripts-dir", tempDir, "--index", indexPath]).stdout);
+        expect(second.scanned.files).toBe(3);
+        expect(second.scanned.from_index).toBe(2);
+        expect(second.exclusivity_violations).toBe(2);
+
+        // Same report as a full scan (apart from the index counter)
+        const full = JSON.parse(runCLI(["--transcripts-dir", tempDir]).stdout);
+        const { from_index: _fromIndex, ...scanned } = second.scanned;
+        expect({ ...second, scanned }).toEqual(full);
+
+        // A changed file is re-read; a removed file drops out of the index
+        writeFileSync(join(tempDir, "c.json"), JSON.stringify(exclusiveClaim("transcript-c", 300000)));
+        rmSync(join(tempDir, "b.json"));
+        const third = JSON.parse(runCLI(["--transcripts-dir", tempDir, "--index", indexPath]).stdout);
+        expect(third.scanned.from_index).toBe(1);
+        expect(third.exclusivity_violations).toBe(0);
+        expect(Object.keys(JSON.parse(readFileSync(indexPath, "utf-8")).files)).toEqual(["a.json", "c.json"]);
+      } finally {
+        rmSync(indexPath, { force: true });
+      }
+    });
+  });
 });
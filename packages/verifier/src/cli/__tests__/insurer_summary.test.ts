@@ -14,6 +14,8 @@ import JSZip from "jszip";
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 const repoRoot = resolve(__dirname, "../../../../..");
+/** Named risk factors and surcharges (PROVIDER_OPS, DOUBLE_COMMIT exclusion, ...) beyond the default rulebook. */
+const EXTENDED_RULEBOOK = resolve(repoRoot, "packages/verifier/resources/rulebooks/pact-extended-1.0.json");
 
 function loadFixture(filename: string): any {
   const fixturePath = resolve(repoRoot, "fixtures", filename);
@@ -83,6 +85,9 @@ describe("Insurer Summary CLI", () => {
         expect(["COVERED", "COVERED_WITH_SURCHARGE"]).toContain(output.coverage);
         expect(output.risk_factors).toEqual([]);
         expect(output.constitution_hash).toBeDefined();
+        expect(output.constitution_version).toBe("constitution/1.0");
+        expect(output.rulebook_id).toBe("pact-default/2.0");
+        expect(output.rulebook_hash).toMatch(/^[a-f0-9]{64}$/);
       } finally {
         if (existsSync(tempDir)) {
           rmSync(tempDir, { recursive: true, force: true });
@@ -137,7 +142,7 @@ describe("Insurer Summary CLI", () => {
       writeFileSync(transcriptPath, JSON.stringify(fixture, null, 2));
       
       try {
-        const result = await runCLI(["--transcript", transcriptPath]);
+        const result = await runCLI(["--transcript", transcriptPath, "--rulebook", EXTENDED_RULEBOOK]);
         
         expect(result.exitCode).toBe(0);
         const output = JSON.parse(result.stdout);
@@ -172,7 +177,7 @@ describe("Insurer Summary CLI", () => {
       writeFileSync(transcriptPath, JSON.stringify(fixture, null, 2));
       
       try {
-        const result = await runCLI(["--transcript", transcriptPath]);
+        const result = await runCLI(["--transcript", transcriptPath, "--rulebook", EXTENDED_RULEBOOK]);
         
         expect(result.exitCode).toBe(0);
         const output = JSON.parse(result.stdout);
@@ -308,7 +313,7 @@ describe("Insurer Summary CLI", () => {
         execSync(packCommand, { cwd: repoRoot, stdio: "pipe" });
         
         // Run insurer-summary on the pack
-        const result = await runCLI(["--pack", packPath]);
+        const result = await runCLI(["--pack", packPath, "--rulebook", EXTENDED_RULEBOOK]);
         
         expect(result.exitCode).toBe(0);
         const output = JSON.parse(result.stdout);
@@ -390,7 +395,7 @@ describe("Insurer Summary CLI", () => {
         writeFileSync(packPath, tamperedBuffer);
         
         // Run insurer-summary on tampered pack - should return EXCLUDED
-        const result = await runCLI(["--pack", packPath]);
+        const result = await runCLI(["--pack", packPath, "--rulebook", EXTENDED_RULEBOOK]);
         
         expect(result.exitCode).toBe(0);
         const output = JSON.parse(result.stdout);
@@ -468,7 +473,7 @@ describe("Insurer Summary CLI", () => {
         writeFileSync(packPath, tamperedBuffer);
         
         // Run insurer-summary with --allow-nonstandard flag
-        const result = await runCLI(["--pack", packPath, "--allow-nonstandard"]);
+        const result = await runCLI(["--pack", packPath, "--allow-nonstandard", "--rulebook", EXTENDED_RULEBOOK]);
         
         expect(result.exitCode).toBe(0);
         const output = JSON.parse(result.stdout);
@@ -489,4 +494,114 @@ describe("Insurer Summary CLI", () => {
       }
     });
   });
+
+  describe("underwriting rulebook", () => {
+    it("should decide coverage under --rulebook and record its hash", async () => {
+      const tempDir = join(repoRoot, "tmp_test_insurer_rulebook");
+      if (existsSync(tempDir)) {
+        rmSync(tempDir, { recursive: true, force: true });
+      }
+      mkdirSync(tempDir, { recursive: true });
+      const rulebook = {
+        version: "pact-underwriting-rulebook/1",
+        rulebook_id: "strict-weather/1.0",
+        tiers: [
+          { tier: "GOLD", min_score: 0.5 },
+          { tier: "BASIC", min_score: null },
+        ],
+        risk_factors: [{ id: "POLICY_ABORT", when: { failure_code: ["PACT-101"] } }],
+        surcharges: [],
+        exclusions: [],
+        escrow: [{ id: "NEW_WEATHER_PARTY", when: { intent_type: ["weather.data"], party_tier: ["BASIC"] } }],
+      };
+      const rulebookPath = join(tempDir, "rulebook.json");
+      writeFileSync(rulebookPath, JSON.stringify(rulebook, null, 2));
+
+      try {
+        const result = await runCLI(["--transcript", resolve(repoRoot, "fixtures/failures/PACT-101-policy-violation.json"), "--rulebook", rulebookPath]);
+        expect(result.exitCode).toBe(0);
+        const output = JSON.parse(result.stdout);
+        expect(output.rulebook_id).toBe("strict-weather/1.0");
+        expect(output.rulebook_hash).not.toBe(
+          JSON.parse((await runCLI(["--transcript", resolve(repoRoot, "fixtures/failures/PACT-101-policy-violation.json")])).stdout).rulebook_hash
+        );
+        expect(output.buyer.tier).toBe("BASIC");
+        expect(output.risk_factors).toEqual(["POLICY_ABORT"]);
+        expect(output.coverage).toBe("ESCROW_REQUIRED");
+
+        writeFileSync(rulebookPath, JSON.stringify({ ...rulebook, tiers: [] }));
+        const invalid = await runCLI(["--transcript", resolve(repoRoot, "fixtures/failures/PACT-101-policy-violation.json"), "--rulebook", rulebookPath]);
+        expect(invalid.exitCode).toBe(1);
+        expect(invalid.stderr).toContain("tiers must be a non-empty array");
+      } finally {
+        if (existsSync(tempDir)) {
+          rmSync(tempDir, { recursive: true, force: true });
+        }
+      }
+    });
+  });
+
+  describe("cumulative passport history", () => {
+    it("should tier parties on the same cumulative state from --transcripts-dir and --passport", async () => {
+      const tempDir = join(repoRoot, "tmp_test_insurer_history");
+      if (existsSync(tempDir)) {
+        rmSync(tempDir, { recursive: true, force: true });
+      }
+      const historyDir = join(tempDir, "history");
+      mkdirSync(historyDir, { recursive: true });
+      for (const file of ["success/SUCCESS-001-simple.json", "success/SUCCESS-002-negotiated.json", "failures/PACT-101-policy-violation.json"]) {
+        copyFileSync(resolve(repoRoot, "fixtures", file), join(historyDir, file.split("/")[1]));
+      }
+      // Tampered transcript: quarantined, never counted
+      const forged = loadFixture("success/SUCCESS-002-negotiated.json");
+      forged.rounds[1].content_summary.price = 999;
+      writeFileSync(join(historyDir, "forged.json"), JSON.stringify(forged));
+      const transcriptPath = resolve(repoRoot, "fixtures", "success", "SUCCESS-001-simple.json");
+      const registryPath = join(tempDir, "registry.json");
+
+      try {
+        const fromDir = await runCLI(["--transcript", transcriptPath, "--transcripts-dir", historyDir]);
+        expect(fromDir.exitCode).toBe(0);
+        const dirOutput = JSON.parse(fromDir.stdout);
+        expect(dirOutput.passport_source).toBe("transcripts_dir");
+        expect(dirOutput.buyer.sample_size).toBe(3);
+        expect(dirOutput.buyer.counters).toMatchObject({ total_settlements: 2, successful_settlements: 2, policy_aborts: 1 });
+        expect(dirOutput.buyer.tier).toBe("B");
+
+        execSync(
+          `node "${resolve(repoRoot, "packages/verifier/dist/cli/passport_v1_recompute.js")}" --transcripts-dir "${historyDir}" --out "${registryPath}"`,
+          { cwd: repoRoot, stdio: "pipe" }
+        );
+        const fromRegistry = await runCLI(["--transcript", transcriptPath, "--passport", registryPath]);
+        expect(fromRegistry.exitCode).toBe(0);
+        const registryOutput = JSON.parse(fromRegistry.stdout);
+        expect(registryOutput.passport_source).toBe("registry");
+        expect(registryOutput.buyer).toEqual(dirOutput.buyer);
+        expect(registryOutput.provider).toEqual(dirOutput.provider);
+
+        // A malformed entry is an error, not a crash
+        const registry = JSON.parse(readFileSync(registryPath, "utf-8"));
+        const signerKey = Object.keys(registry.states)[0];
+        delete registry.states[signerKey].included_transcripts;
+        const malformedPath = join(tempDir, "malformed.json");
+        writeFileSync(malformedPath, JSON.stringify(registry));
+        const malformed = await runCLI(["--transcript", transcriptPath, "--passport", malformedPath]);
+        expect(malformed.exitCode).toBe(1);
+        expect(malformed.stderr).toContain(`Invalid registry entry for signer ${signerKey}: included_transcripts must be an array`);
+
+        // A party without history starts from a zero state
+        const emptyDir = join(tempDir, "empty");
+        mkdirSync(emptyDir);
+        const noHistory = JSON.parse((await runCLI(["--transcript", transcriptPath, "--transcripts-dir", emptyDir])).stdout);
+        expect(noHistory.provider).toMatchObject({ passport_score: 0, tier: "B", sample_size: 0 });
+
+        const both = await runCLI(["--transcript", transcriptPath, "--passport", registryPath, "--transcripts-dir", historyDir]);
+        expect(both.exitCode).toBe(1);
+      } finally {
+        if (existsSync(tempDir)) {
+          rmSync(tempDir, { recursive: true, force: true });
+        }
+      }
+    });
+  });
 });
@@ -6,8 +6,9 @@
 
 import { describe, it, expect } from "vitest";
 import { execSync } from "node:child_process";
-import { readFileSync } from "node:fs";
-import { resolve, dirname } from "node:path";
+import { readFileSync, writeFileSync, mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { resolve, dirname, join } from "node:path";
 import { fileURLToPath } from "node:url";
 
 const __filename = fileURLToPath(import.meta.url);
@@ -347,4 +348,35 @@ describe("judge_v4 CLI", () => {
       expect(output.judgment.terminal).toBe(false);
     });
   });
+
+  describe("--policy", () => {
+    it("adds a rule-by-rule policyEvaluation without changing the judgment", () => {
+      const dir = mkdtempSync(join(tmpdir(), "judge-policy-"));
+      try {
+        const policyPath = join(dir, "policy.json");
+        writeFileSync(
+          policyPath,
+          JSON.stringify({
+            policy_version: "pact-policy/4.0",
+            policy_id: "policy-cafe01",
+            rules: [{ name: "max_price", condition: { field: "offer_price", operator: "<=", value: 0.05 } }],
+          })
+        );
+        const base = JSON.parse(runCLI(["fixtures/success/SUCCESS-001-simple.json"]).stdout);
+        const result = runCLI(["fixtures/success/SUCCESS-001-simple.json", "--policy", policyPath]);
+
+        expect(result.exitCode).toBe(0);
+        const { policyEvaluation, ...judgment } = JSON.parse(result.stdout);
+        expect(judgment).toEqual(base);
+        expect(policyEvaluation.version).toBe("policy_eval/1.0");
+        expect(policyEvaluation.policy_hash_match).toBe(false);
+        expect(policyEvaluation.status).toBe("SATISFIED");
+        expect(policyEvaluation.rules).toEqual([
+          expect.objectContaining({ name: "max_price", result: "PASS", evaluated_rounds: [1, 2] }),
+        ]);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
 });
@@ -0,0 +1,123 @@
+/**
+ * Merkle digest / inclusion CLI tests: digest a transcript directory, pack one transcript with its
+ * proof, and prove the pack belongs to the digest.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { execSync } from "child_process";
+import { mkdtempSync, rmSync, readFileSync, existsSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join, resolve, dirname } from "path";
+import { fileURLToPath } from "url";
+import JSZip from "jszip";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const repoRoot = resolve(__dirname, "../../../../..");
+const fixturesDir = join(repoRoot, "fixtures/success");
+
+function runCLI(cli: string, args: string[]): { stdout: string; stderr: string; exitCode: number } {
+  const cliPath = resolve(__dirname, `../../cli/${cli}.ts`);
+  try {
+    const stdout = execSync(`npx tsx "${cliPath}" ${args.join(" ")}`, {
+      cwd: repoRoot,
+      encoding: "utf8",
+      stdio: ["ignore", "pipe", "pipe"],
+      timeout: 60000,
+    });
+    return { stdout, stderr: "", exitCode: 0 };
+  } catch (error: any) {
+    return {
+      stdout: error.stdout?.toString() || "",
+      stderr: error.stderr?.toString() || "",
+      exitCode: error.status || 1,
+    };
+  }
+}
+
+describe("merkle-digest / merkle-verify-inclusion CLI", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "merkle-digest-test-"));
+  });
+
+  afterEach(() => {
+    if (existsSync(tempDir)) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("builds a deterministic digest with per-transcript proofs", () => {
+    const proofsDir = join(tempDir, "proofs");
+    const first = runCLI("merkle_digest", ["--transcripts-dir", fixturesDir, "--proofs-dir", proofsDir]);
+    expect(first.exitCode).toBe(0);
+    const second = runCLI("merkle_digest", ["--transcripts-dir", fixturesDir]);
+    expect(second.stdout).toBe(first.stdout);
+
+    const digest = JSON.parse(first.stdout);
+    expect(digest.version).toBe("pact-merkle-digest/1");
+    expect(digest.date_utc).toBe("2001-09-09");
+    expect(digest.root).toMatch(/^[a-f0-9]{64}$/);
+    expect(digest.constitution_hash).toMatch(/^[a-f0-9]{64}$/);
+    // SUCCESS-001-simple and SUCCESS-001-tier3 share a transcript_id but differ in content
+    expect(digest.tree_size).toBe(3);
+    for (const name of ["SUCCESS-001-simple", "SUCCESS-001-tier3", "SUCCESS-002-negotiated"]) {
+      const proof = JSON.parse(readFileSync(join(proofsDir, `${name}.merkle_proof.json`), "utf8"));
+      expect(proof).toMatchObject({ root: digest.root, tree_size: 3 });
+      expect(digest.leaves.map((l: { leaf_hash: string }) => l.leaf_hash)).toContain(proof.leaf_hash);
+    }
+  });
+
+  it("proves an auditor pack belongs to the digest a counterparty holds", async () => {
+    const digestPath = join(tempDir, "digest.json");
+    expect(runCLI("merkle_digest", ["--transcripts-dir", fixturesDir, "--out", digestPath]).exitCode).toBe(0);
+    const digest = JSON.parse(readFileSync(digestPath, "utf8"));
+
+    const zipPath = join(tempDir, "pack.zip");
+    const pack = runCLI("auditor_pack", [
+      "--transcript",
+      "fixtures/success/SUCCESS-001-simple.json",
+      "--out",
+      zipPath,
+      "--merkle-proof",
+      digestPath,
+    ]);
+    expect(pack.exitCode).toBe(0);
+
+    const zip = await JSZip.loadAsync(readFileSync(zipPath));
+    expect(zip.file("derived/merkle_digest.json")).not.toBeNull();
+
+    const byRoot = runCLI("merkle_verify_inclusion", ["--zip", zipPath, "--root", digest.root]);
+    expect(byRoot.exitCode).toBe(0);
+    expect(JSON.parse(byRoot.stdout)).toMatchObject({ ok: true, leaf_hash_ok: true, proof_ok: true, root_ok: true, constitution_hash_ok: true });
+
+    expect(runCLI("merkle_verify_inclusion", ["--zip", zipPath, "--digest", digestPath]).exitCode).toBe(0);
+
+    const verify = runCLI("auditor_pack_verify", ["--zip", zipPath]);
+    expect(verify.exitCode).toBe(0);
+    expect(JSON.parse(verify.stdout).merkle).toMatchObject({ root: digest.root, leaf_hash_ok: true, proof_ok: true });
+
+    const wrongRoot = runCLI("merkle_verify_inclusion", ["--zip", zipPath, "--root", "0".repeat(64)]);
+    expect(wrongRoot.exitCode).toBe(1);
+    expect(JSON.parse(wrongRoot.stdout).root_ok).toBe(false);
+  });
+
+  it("rejects a proof for a different transcript", () => {
+    const proofsDir = join(tempDir, "proofs");
+    expect(runCLI("merkle_digest", ["--transcripts-dir", fixturesDir, "--proofs-dir", proofsDir]).exitCode).toBe(0);
+    const proofPath = join(tempDir, "other.merkle_proof.json");
+    writeFileSync(proofPath, readFileSync(join(proofsDir, "SUCCESS-002-negotiated.merkle_proof.json")));
+
+    const pack = runCLI("auditor_pack", [
+      "--transcript",
+      "fixtures/success/SUCCESS-001-simple.json",
+      "--out",
+      join(tempDir, "pack.zip"),
+      "--merkle-proof",
+      proofPath,
+    ]);
+    expect(pack.exitCode).toBe(1);
+    expect(pack.stderr).toContain("Merkle proof does not prove this transcript");
+  });
+});
@@ -537,5 +537,41 @@ describe("Passport v1 Recompute CLI", () => {
         });
       }
     });
+
+    it("should exclude transcripts that fail replay and record replay result hashes", async () => {
+      const tempDir = join(repoRoot, "tmp_test_excluded");
+      if (existsSync(tempDir)) rmSync(tempDir, { recursive: true, force: true });
+      mkdirSync(tempDir, { recursive: true });
+
+      try {
+        writeFileSync(join(tempDir, "a-valid.json"), JSON.stringify(loadFixture("success/SUCCESS-001-simple.json"), null, 2));
+        // Forged outcome: content changed without re-signing
+        const forged = loadFixture("success/SUCCESS-002-negotiated.json");
+        forged.rounds[1].content_summary = { ...forged.rounds[1].content_summary, price: 999 };
+        writeFileSync(join(tempDir, "b-forged.json"), JSON.stringify(forged, null, 2));
+        writeFileSync(join(tempDir, "c-broken.json"), "{ not json");
+
+        const result = await runCLI([`--transcripts-dir`, tempDir]);
+        expect(result.exitCode).toBe(0);
+        const output = JSON.parse(result.stdout);
+
+        expect(output.generated_from.count).toBe(1);
+        expect(output.excluded.map((e: any) => [e.file, e.integrity_status])).toEqual([
+          ["b-forged.json", "TAMPERED"],
+          ["c-broken.json", "UNREADABLE"],
+        ]);
+        expect(output.excluded[0].transcript_id).toBe(forged.transcript_id);
+        expect(output.excluded[0].reasons[0]).toContain("HASH_CHAIN_BROKEN");
+
+        // Only the valid transcript is scored
+        expect(Object.keys(output.records).length).toBeGreaterThan(0);
+        for (const record of Object.values(output.records) as any[]) {
+          expect(record.history).toHaveLength(1);
+          expect(record.history[0].replay_result_hash).toMatch(/^[a-f0-9]{64}$/);
+        }
+      } finally {
+        if (existsSync(tempDir)) rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
   });
 });
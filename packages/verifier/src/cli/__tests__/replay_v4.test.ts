@@ -0,0 +1,65 @@
+/**
+ * Tests for replay_v4 CLI
+ *
+ * Single-transcript exhaustive replay with human and JSON output.
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import { execSync } from "node:child_process";
+import { readFileSync, writeFileSync, rmSync, existsSync } from "node:fs";
+import { resolve, dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const repoRoot = resolve(__dirname, "../../../../../");
+const cliPath = resolve(repoRoot, "packages/verifier/dist/cli/replay_v4.js");
+
+function runCLI(args: string[]): { stdout: string; stderr: string; exitCode: number } {
+  try {
+    const cmd = `node ${cliPath} ${args.join(" ")}`;
+    const stdout = execSync(cmd, {
+      cwd: repoRoot,
+      encoding: "utf-8",
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+    return { stdout, stderr: "", exitCode: 0 };
+  } catch (error: any) {
+    return {
+      stdout: error.stdout?.toString() || "",
+      stderr: error.stderr?.toString() || "",
+      exitCode: error.status || 1,
+    };
+  }
+}
+
+describe("replay_v4 CLI", () => {
+  const tmpFile = "/tmp/replay_v4_test_tampered.json";
+
+  afterEach(() => {
+    if (existsSync(tmpFile)) rmSync(tmpFile);
+  });
+
+  it("prints INTEGRITY VALID and per-round status for a valid transcript", () => {
+    const result = runCLI(["fixtures/success/SUCCESS-001-simple.json"]);
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain("INTEGRITY VALID");
+    expect(result.stdout).toContain("Round 2 (ACCEPT)");
+    expect(result.stdout).toContain("Agreement reached");
+  });
+
+  it("reports every broken round and exits 1 when tampered", () => {
+    const transcript = JSON.parse(readFileSync(resolve(repoRoot, "fixtures/success/SUCCESS-001-simple.json"), "utf-8"));
+    transcript.rounds[0].content_summary = { intent_type: "other" };
+    transcript.rounds[2].content_summary = { price: 1 };
+    writeFileSync(tmpFile, JSON.stringify(transcript));
+
+    const result = runCLI(["--transcript", tmpFile, "--json"]);
+
+    expect(result.exitCode).toBe(1);
+    const replay = JSON.parse(result.stdout);
+    expect(replay.integrity_status).toBe("TAMPERED");
+    expect(replay.round_statuses.map((r: any) => r.round_hash_ok)).toEqual([false, true, false]);
+  });
+});
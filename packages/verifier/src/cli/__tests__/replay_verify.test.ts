@@ -0,0 +1,169 @@
+/**
+ * Tests for replay_verify CLI
+ *
+ * Verifies directories of transcripts with the native replay verifier.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { execSync } from "node:child_process";
+import { readFileSync, writeFileSync, mkdirSync, rmSync, existsSync } from "node:fs";
+import { join, resolve, dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const repoRoot = resolve(__dirname, "../../../../../");
+const cliPath = resolve(repoRoot, "packages/verifier/dist/cli/replay_verify.js");
+const binPath = resolve(repoRoot, "packages/verifier/dist/bin/pact-verifier.js");
+
+function runCLI(args: string[], entry: string[] = [cliPath]): { stdout: string; stderr: string; exitCode: number } {
+  try {
+    const cmd = `node ${entry.join(" ")} ${args.join(" ")}`;
+    const stdout = execSync(cmd, {
+      cwd: repoRoot,
+      encoding: "utf-8",
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+    return { stdout, stderr: "", exitCode: 0 };
+  } catch (error: any) {
+    return {
+      stdout: error.stdout?.toString() || "",
+      stderr: error.stderr?.toString() || "",
+      exitCode: error.status || 1,
+    };
+  }
+}
+
+function loadFixture(filename: string): any {
+  const fixturePath = resolve(repoRoot, "fixtures", filename);
+  return JSON.parse(readFileSync(fixturePath, "utf-8"));
+}
+
+describe("replay_verify CLI", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = join(repoRoot, "tmp", `replay_verify_test_${Date.now()}`);
+    mkdirSync(tempDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(tempDir)) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  function writeTranscript(name: string, transcript: unknown): void {
+    writeFileSync(join(tempDir, name), JSON.stringify(transcript, null, 2));
+  }
+
+  it("passes a directory of valid terminal transcripts", () => {
+    writeTranscript("success1.json", loadFixture("success/SUCCESS-001-simple.json"));
+    writeTranscript("success2.json", loadFixture("success/SUCCESS-002-negotiated.json"));
+
+    const result = runCLI(["--", tempDir]);
+
+    expect(result.exitCode).toBe(0);
+    const report = JSON.parse(result.stdout);
+    expect(report.version).toBe("replay_verify_report/1.0");
+    expect(report.ok).toBe(true);
+    expect(report.summary).toMatchObject({ files: 2, verified: 2, passed: 2, failed: 0, skipped: 0 });
+    expect(report.results.map((r: any) => r.status)).toEqual(["PASS", "PASS"]);
+  });
+
+  it("fails with nonzero exit when a transcript is tampered", () => {
+    const tampered = loadFixture("success/SUCCESS-001-simple.json");
+    tampered.rounds[1].content_summary = { price: 1 };
+    writeTranscript("ok.json", loadFixture("success/SUCCESS-002-negotiated.json"));
+    writeTranscript("tampered.json", tampered);
+
+    const result = runCLI(["--transcripts-dir", tempDir]);
+
+    expect(result.exitCode).toBe(1);
+    const report = JSON.parse(result.stdout);
+    expect(report.ok).toBe(false);
+    const item = report.results.find((r: any) => r.file === "tampered.json");
+    expect(item.status).toBe("FAIL");
+    expect(item.integrity_status).toBe("TAMPERED");
+    expect(item.errors[0]).toContain("HASH_CHAIN_BROKEN");
+  });
+
+  it("warns on non-terminal transcripts by default and fails them under --strict", () => {
+    writeTranscript("pending.json", loadFixture("failures/PACT-404-settlement-timeout.json"));
+
+    const lenient = runCLI(["--", tempDir]);
+    expect(lenient.exitCode).toBe(0);
+    const lenientItem = JSON.parse(lenient.stdout).results[0];
+    expect(lenientItem.status).toBe("PASS");
+    expect(lenientItem.terminal).toBe(false);
+    expect(lenientItem.warnings.some((w: string) => w.startsWith("PENDING"))).toBe(true);
+
+    const strict = runCLI(["--strict", "--", tempDir]);
+    expect(strict.exitCode).toBe(1);
+    expect(JSON.parse(strict.stdout).results[0].errors.some((e: string) => e.startsWith("UNRECONCILED"))).toBe(true);
+  });
+
+  it("skips non-terminal transcripts with --terminal-only", () => {
+    writeTranscript("pending.json", loadFixture("failures/PACT-404-settlement-timeout.json"));
+    writeTranscript("success.json", loadFixture("success/SUCCESS-001-simple.json"));
+
+    const result = runCLI(["--strict", "--terminal-only", "--", tempDir]);
+
+    expect(result.exitCode).toBe(0);
+    const report = JSON.parse(result.stdout);
+    expect(report.summary).toMatchObject({ verified: 1, passed: 1, skipped: 1 });
+    expect(report.results.find((r: any) => r.file === "pending.json").skip_reason).toBe("non_terminal");
+  });
+
+  it("skips transcripts awaiting settlement with --reconciled-only", () => {
+    writeTranscript("pending.json", loadFixture("failures/PACT-404-settlement-timeout.json"));
+    writeTranscript("policy.json", loadFixture("failures/PACT-101-policy-violation.json"));
+
+    const result = runCLI(["--reconciled-only", "--", tempDir]);
+
+    const report = JSON.parse(result.stdout);
+    expect(report.results.find((r: any) => r.file === "pending.json").skip_reason).toBe("unreconciled");
+    expect(report.results.find((r: any) => r.file === "policy.json").status).not.toBe("SKIPPED");
+  });
+
+  it("filters old and non-v4 transcripts with --no-historical", () => {
+    // Fixtures are dated 2001, so they are historical under any threshold
+    writeTranscript("old.json", loadFixture("success/SUCCESS-001-simple.json"));
+    writeTranscript("legacy.json", { transcript_version: "pact-transcript/1.0", transcript_id: "legacy" });
+    const recent = loadFixture("success/SUCCESS-001-simple.json");
+    recent.transcript_version = "pact-transcript/1.0";
+    writeTranscript("recent-legacy.json", recent);
+
+    const result = runCLI(["--no-historical", "--historical-days", "7", "--", tempDir]);
+
+    expect(result.exitCode).toBe(0);
+    const report = JSON.parse(result.stdout);
+    expect(report.summary).toMatchObject({ files: 3, verified: 0, skipped_historical: 3 });
+  });
+
+  it("ignores envelope sidecars when collecting transcripts", () => {
+    writeTranscript("success.json", loadFixture("success/SUCCESS-001-simple.json"));
+    writeFileSync(join(tempDir, "success.envelopes.json"), JSON.stringify({ version: "pact-envelopes/1", transcript_id: "x", rounds: [] }));
+
+    const result = runCLI(["--verify-envelopes", "--", tempDir]);
+
+    expect(result.exitCode).toBe(0);
+    expect(JSON.parse(result.stdout).summary.files).toBe(1);
+  });
+
+  it("is registered as a pact-verifier subcommand", () => {
+    writeTranscript("success.json", loadFixture("success/SUCCESS-001-simple.json"));
+
+    const result = runCLI(["replay-verify", "--strict", "--", tempDir], [binPath]);
+
+    expect(result.exitCode).toBe(0);
+    expect(JSON.parse(result.stdout).ok).toBe(true);
+  });
+
+  it("fails with usage message if no path provided", () => {
+    const result = runCLI([]);
+
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr).toContain("Usage:");
+  });
+});
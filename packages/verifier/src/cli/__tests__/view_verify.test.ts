@@ -0,0 +1,193 @@
+/**
+ * Tests for view_verify CLI
+ *
+ * Round trip of a transcript salted for a redaction policy: redact (PARTNER / AUDITOR view) →
+ * disclose selected fields → pact-verifier view-verify --view ... --disclosure ...
+ * Views and disclosures are built with redaction/redact.ts (re-exported by the SDK).
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { execSync } from "node:child_process";
+import { writeFileSync, mkdirSync, rmSync, existsSync } from "node:fs";
+import { join, resolve, dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+import { createHash } from "node:crypto";
+import nacl from "tweetnacl";
+import bs58 from "bs58";
+import type { TranscriptV4, TranscriptRound } from "../../util/transcript_types.js";
+import { stableCanonicalize } from "../../util/canonical_pure.js";
+import { FIELD_COMMITMENTS_SCHEME, computeFieldCommitment } from "../../util/field_commitments.js";
+import { verifyTranscriptView } from "../../redaction/transcript_view.js";
+import { createDisclosure, createTranscriptView, saltedPathsForPolicy, type RedactionPolicy } from "../../redaction/redact.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const repoRoot = resolve(__dirname, "../../../../../");
+const binPath = resolve(repoRoot, "packages/verifier/dist/bin/pact-verifier.js");
+
+const sha256Async = async (data: string): Promise<string> => createHash("sha256").update(data, "utf8").digest("hex");
+const commit = (value: unknown, salts?: Record<string, string>, path?: string) =>
+  computeFieldCommitment(value, sha256Async, salts, path);
+
+const buyer = nacl.sign.keyPair.fromSeed(new Uint8Array(32).fill(1));
+const provider = nacl.sign.keyPair.fromSeed(new Uint8Array(32).fill(2));
+
+/** Redaction policy the transcript is salted for (SDK createTranscriptV4 redaction_policy). */
+const POLICY: RedactionPolicy = {
+  version: "pact-redaction-policy/1",
+  views: {
+    PARTNER: ["/rounds/*/content_summary/pricing_logic"],
+    AUDITOR: ["/policy_hash", "/rounds/*/content_summary"],
+  },
+};
+const SALTS: Record<string, string> = Object.fromEntries(
+  ["/rounds/1/content_summary/pricing_logic", "/policy_hash", "/rounds/0/content_summary", "/rounds/1/content_summary", "/rounds/2/content_summary"].map((path, i) => [path, createHash("sha256").update(`salt-${i}`).digest("hex")])
+);
+
+function runCLI(args: string[]): { stdout: string; stderr: string; exitCode: number } {
+  try {
+    const stdout = execSync(`node ${binPath} view-verify ${args.join(" ")}`, {
+      cwd: repoRoot,
+      encoding: "utf-8",
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+    return { stdout, stderr: "", exitCode: 0 };
+  } catch (error: any) {
+    return {
+      stdout: error.stdout?.toString() || "",
+      stderr: error.stderr?.toString() || "",
+      exitCode: error.status || 1,
+    };
+  }
+}
+
+async function signedRound(
+  transcript: TranscriptV4,
+  roundType: TranscriptRound["round_type"],
+  keyPair: nacl.SignKeyPair,
+  agentId: string,
+  contentSummary: Record<string, unknown>
+): Promise<TranscriptRound> {
+  const roundNumber = transcript.rounds.length;
+  const timestamp = transcript.created_at_ms + roundNumber * 1000;
+  const envelopeHash = await sha256Async(stableCanonicalize({ roundType, roundNumber, contentSummary }));
+  const publicKey = bs58.encode(keyPair.publicKey);
+  const round: TranscriptRound = {
+    round_number: roundNumber,
+    round_type: roundType,
+    message_hash: envelopeHash,
+    envelope_hash: envelopeHash,
+    signature: {
+      signer_public_key_b58: publicKey,
+      signature_b58: bs58.encode(nacl.sign.detached(Buffer.from(envelopeHash, "hex"), keyPair.secretKey)),
+      signed_at_ms: timestamp,
+      scheme: "ed25519",
+    },
+    timestamp_ms: timestamp,
+    previous_round_hash:
+      roundNumber === 0
+        ? await sha256Async(`${transcript.intent_id}:${transcript.created_at_ms}`)
+        : transcript.rounds[roundNumber - 1].round_hash!,
+    agent_id: agentId,
+    public_key_b58: publicKey,
+    content_summary: contentSummary,
+  };
+  round.round_hash = await commit(round, SALTS, `/rounds/${roundNumber}`);
+  return round;
+}
+
+async function buildTranscript(): Promise<TranscriptV4> {
+  const transcript: TranscriptV4 = {
+    transcript_version: "pact-transcript/4.0",
+    transcript_id: `transcript-${"cd".repeat(32)}`,
+    intent_id: "intent-view-roundtrip",
+    intent_type: "weather.data",
+    created_at_ms: 1_700_000_000_000,
+    policy_hash: "c".repeat(64),
+    strategy_hash: "d".repeat(64),
+    identity_snapshot_hash: "",
+    rounds: [],
+    arbiter_decision_ref: null,
+    hash_scheme: FIELD_COMMITMENTS_SCHEME,
+    salted_paths: saltedPathsForPolicy(POLICY),
+    field_salts: SALTS,
+  };
+  transcript.rounds.push(await signedRound(transcript, "INTENT", buyer, "buyer", { intent_type: "weather.data" }));
+  transcript.rounds.push(await signedRound(transcript, "ASK", provider, "provider", { price: 0.05, pricing_logic: "cost-plus-12%" }));
+  transcript.rounds.push(await signedRound(transcript, "ACCEPT", buyer, "buyer", { price: 0.05 }));
+  const { final_hash: _f, ...rest } = transcript;
+  transcript.final_hash = await commit(rest, SALTS);
+  return transcript;
+}
+
+describe("view_verify CLI", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = join(repoRoot, "tmp", `view_verify_test_${Date.now()}`);
+    mkdirSync(tempDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(tempDir)) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  function writeJson(name: string, doc: unknown): string {
+    const path = join(tempDir, name);
+    writeFileSync(path, JSON.stringify(doc, null, 2));
+    return path;
+  }
+
+  it("verifies a redacted AUDITOR view and opens a disclosed content_summary with nested salts", async () => {
+    const transcript = await buildTranscript();
+    const view = await createTranscriptView(transcript, "AUDITOR", POLICY);
+    const disclosure = createDisclosure(transcript, { recipient: "insurer-1", paths: ["/rounds/1/content_summary"] });
+    expect(Object.keys(disclosure.fields[0].salts ?? {}).sort()).toEqual([
+      "/rounds/1/content_summary",
+      "/rounds/1/content_summary/pricing_logic",
+    ]);
+
+    const { stdout, exitCode } = runCLI(["--view", writeJson("view.json", view), "--disclosure", writeJson("disclosure.json", disclosure)]);
+    expect(exitCode).toBe(0);
+    const result = JSON.parse(stdout);
+    expect(result).toMatchObject({ ok: true, view: "AUDITOR", integrity_status: "VALID", rounds_verified: 3 });
+    expect(result.disclosure).toEqual({
+      recipient: "insurer-1",
+      ok: true,
+      fields: [{ path: "/rounds/1/content_summary", ok: true }],
+    });
+  });
+
+  it("opens a PARTNER view field and rejects disclosures that do not match the view", async () => {
+    const transcript = await buildTranscript();
+    const view = await createTranscriptView(transcript, "PARTNER", POLICY);
+    const viewPath = writeJson("partner_view.json", view);
+
+    const pricing = createDisclosure(transcript, { recipient: "insurer-1", paths: ["/rounds/1/content_summary/pricing_logic"] });
+    expect(runCLI(["--view", viewPath, "--disclosure", writeJson("pricing.json", pricing)]).exitCode).toBe(0);
+
+    // content_summary is in the clear in a PARTNER view, so there is nothing to open
+    const summary = createDisclosure(transcript, { recipient: "insurer-1", paths: ["/rounds/1/content_summary"] });
+    const notRedacted = runCLI(["--view", viewPath, "--disclosure", writeJson("summary.json", summary)]);
+    expect(notRedacted.exitCode).toBe(1);
+    expect(JSON.parse(notRedacted.stdout).errors).toContain("Disclosure /rounds/1/content_summary: Field is not redacted in this view");
+
+    const forged = { ...pricing, fields: [{ ...pricing.fields[0], value: "cost-plus-5%" }] };
+    const forgedResult = runCLI(["--view", viewPath, "--disclosure", writeJson("forged.json", forged)]);
+    expect(forgedResult.exitCode).toBe(1);
+    expect(JSON.parse(forgedResult.stdout).disclosure.ok).toBe(false);
+  });
+
+  it("does not open a parent field without the salts of its salted children", async () => {
+    const transcript = await buildTranscript();
+    const view = await createTranscriptView(transcript, "AUDITOR", POLICY);
+    const disclosure = createDisclosure(transcript, { recipient: "insurer-1", paths: ["/rounds/1/content_summary"] });
+    delete (disclosure.fields[0].salts as Record<string, string>)["/rounds/1/content_summary/pricing_logic"];
+
+    const result = await verifyTranscriptView(view, { disclosure });
+    expect(result.ok).toBe(false);
+    expect(result.errors).toContain("Disclosure /rounds/1/content_summary: Disclosed value does not match the redacted hash");
+  });
+});
@@ -0,0 +1,242 @@
+#!/usr/bin/env node
+/**
+ * Arbiter Decide CLI
+ *
+ * Builds and signs a pact-arbiter-decision/4.0 artifact for a v4 transcript.
+ * decision_id is derived deterministically from transcript_hash + arbiter_id + issued_at.
+ *
+ * Usage:
+ *   pact-verifier arbiter-decide --transcript <path> --decision <RELEASE|REFUND|SPLIT|REJECT_ARBITRATION> \
+ *     --reason <CODE> --arbiter-id <id> --sign-key <file> [--out <decision.json>]
+ *
+ * Exit code: 0 when the decision was written, 1 otherwise.
+ */
+
+import { readFileSync, writeFileSync, existsSync } from "node:fs";
+import { resolve, isAbsolute, dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { TranscriptV4 } from "../util/transcript_types.js";
+import {
+  ARBITER_DECISIONS,
+  ARBITER_REASON_CODES,
+  createArbiterDecision,
+  type ArbiterDecisionType,
+  type ArbiterReasonCode,
+  type ArbiterEvidenceRef,
+  type ArbiterAmounts,
+} from "../arbiter/decision.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const repoRoot = resolve(__dirname, "../../../..");
+
+// Handle EPIPE gracefully (e.g., when piping to head/jq)
+process.stdout.on("error", (err: NodeJS.ErrnoException) => {
+  if (err.code === "EPIPE") {
+    process.exit(0);
+  }
+});
+
+interface ArbiterDecideArgs {
+  transcript?: string;
+  decision?: string;
+  reasons: string[];
+  arbiterId?: string;
+  signKey?: string;
+  buyerAmount?: string;
+  providerAmount?: string;
+  currency?: string;
+  evidenceRounds: string[];
+  policySection?: string;
+  issuedAt?: string;
+  notes?: string;
+  out?: string;
+  linkedTranscriptOut?: string;
+}
+
+function parseArgs(): ArbiterDecideArgs {
+  const args: ArbiterDecideArgs = { reasons: [], evidenceRounds: [] };
+  let i = 2;
+  while (i < process.argv.length) {
+    const arg = process.argv[i];
+    const next = i + 1 < process.argv.length ? process.argv[i + 1] : undefined;
+    if (arg === "--transcript" && next !== undefined) {
+      args.transcript = process.argv[++i];
+    } else if (arg === "--decision" && next !== undefined) {
+      args.decision = process.argv[++i];
+    } else if (arg === "--reason" && next !== undefined) {
+      args.reasons.push(process.argv[++i]);
+    } else if (arg === "--arbiter-id" && next !== undefined) {
+      args.arbiterId = process.argv[++i];
+    } else if (arg === "--sign-key" && next !== undefined) {
+      args.signKey = process.argv[++i];
+    } else if (arg === "--buyer-amount" && next !== undefined) {
+      args.buyerAmount = process.argv[++i];
+    } else if (arg === "--provider-amount" && next !== undefined) {
+      args.providerAmount = process.argv[++i];
+    } else if (arg === "--currency" && next !== undefined) {
+      args.currency = process.argv[++i];
+    } else if (arg === "--evidence-round" && next !== undefined) {
+      args.evidenceRounds.push(process.argv[++i]);
+    } else if (arg === "--policy-section" && next !== undefined) {
+      args.policySection = process.argv[++i];
+    } else if (arg === "--issued-at" && next !== undefined) {
+      args.issuedAt = process.argv[++i];
+    } else if (arg === "--notes" && next !== undefined) {
+      args.notes = process.argv[++i];
+    } else if (arg === "--out" && next !== undefined) {
+      args.out = process.argv[++i];
+    } else if (arg === "--linked-transcript-out" && next !== undefined) {
+      args.linkedTranscriptOut = process.argv[++i];
+    } else if (arg === "--") {
+      // Separator from pnpm scripts
+    } else if (arg.startsWith("--")) {
+      throw new Error(`Unknown option: ${arg}`);
+    }
+    i++;
+  }
+  return args;
+}
+
+function printUsage(): void {
+  console.error("Usage: pact-verifier arbiter-decide --transcript <path> --decision <type> --reason <code> --arbiter-id <id> --sign-key <file>");
+  console.error("");
+  console.error("Options:");
+  console.error("  --transcript <path>             Transcript JSON file (required)");
+  console.error(`  --decision <type>               ${ARBITER_DECISIONS.join(" | ")} (required)`);
+  console.error("  --reason <code>                 Reason code, repeatable (required; e.g. QUALITY_MISMATCH)");
+  console.error("  --arbiter-id <id>               Arbiter identifier (required)");
+  console.error("  --sign-key <file>               File with base58 Ed25519 secret key (64 bytes) or seed (32 bytes) (required)");
+  console.error("  --buyer-amount <n>              SPLIT: amount returned to the buyer");
+  console.error("  --provider-amount <n>           SPLIT: amount released to the provider");
+  console.error("  --currency <code>               SPLIT: currency (must match the agreed asset when present)");
+  console.error("  --evidence-round <hash>         round_hash evidence ref, repeatable (default: last round)");
+  console.error("  --policy-section <name>         Add a policy_section evidence ref against transcript.policy_hash");
+  console.error("  --issued-at <ms>                Issue time in epoch ms (default: now)");
+  console.error("  --notes <text>                  Free-text notes (not used for fault determination)");
+  console.error("  --out <file>                    Write the decision here instead of stdout");
+  console.error("  --linked-transcript-out <file>  Also write the transcript with arbiter_decision_ref set");
+  console.error("");
+  console.error("Examples:");
+  console.error("  pact-verifier arbiter-decide --transcript tx.json --decision REFUND --reason PROVIDER_NON_DELIVERY \\");
+  console.error("    --arbiter-id arbiter-1 --sign-key arbiter.key --out decision.json");
+  console.error("  pact-verifier arbiter-decide --transcript tx.json --decision SPLIT --reason QUALITY_MISMATCH \\");
+  console.error("    --arbiter-id arbiter-1 --sign-key arbiter.key --buyer-amount 0.4 --provider-amount 0.6");
+}
+
+function resolvePath(path: string, label: string): string {
+  if (isAbsolute(path)) {
+    if (!existsSync(path)) throw new Error(`${label} file not found: ${path}`);
+    return path;
+  }
+  if (existsSync(path)) return resolve(process.cwd(), path);
+  const fromRoot = resolve(repoRoot, path);
+  if (!existsSync(fromRoot)) {
+    throw new Error(`${label} file not found: ${path}\n  Tried: ${resolve(process.cwd(), path)}\n  Tried: ${fromRoot}`);
+  }
+  return fromRoot;
+}
+
+function parseNumber(value: string, label: string): number {
+  const n = Number(value);
+  if (value.trim() === "" || !Number.isFinite(n)) {
+    throw new Error(`${label} must be a number, got "${value}"`);
+  }
+  return n;
+}
+
+function buildAmounts(args: ArbiterDecideArgs): ArbiterAmounts | undefined {
+  if (args.buyerAmount === undefined && args.providerAmount === undefined) {
+    if (args.currency !== undefined) throw new Error("--currency requires --buyer-amount and --provider-amount");
+    return undefined;
+  }
+  if (args.buyerAmount === undefined || args.providerAmount === undefined) {
+    throw new Error("--buyer-amount and --provider-amount must be given together");
+  }
+  return {
+    buyer_amount: parseNumber(args.buyerAmount, "--buyer-amount"),
+    provider_amount: parseNumber(args.providerAmount, "--provider-amount"),
+    ...(args.currency !== undefined ? { currency: args.currency } : {}),
+  };
+}
+
+function buildEvidenceRefs(args: ArbiterDecideArgs, transcript: TranscriptV4): ArbiterEvidenceRef[] {
+  const roundHashes = args.evidenceRounds.length > 0
+    ? args.evidenceRounds
+    : [transcript.rounds[transcript.rounds.length - 1]?.round_hash].filter((h): h is string => typeof h === "string");
+  const refs: ArbiterEvidenceRef[] = roundHashes.map((ref) => ({ type: "round_hash", ref }));
+  if (args.policySection !== undefined) {
+    if (!transcript.policy_hash) throw new Error("--policy-section requires a transcript with policy_hash");
+    refs.push({ type: "policy_section", ref: transcript.policy_hash, section: args.policySection });
+  }
+  return refs;
+}
+
+export async function main(): Promise<void> {
+  let args: ArbiterDecideArgs;
+  try {
+    args = parseArgs();
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    printUsage();
+    process.exitCode = 1;
+    return;
+  }
+
+  if (!args.transcript || !args.decision || args.reasons.length === 0 || !args.arbiterId || !args.signKey) {
+    printUsage();
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    if (!(ARBITER_DECISIONS as readonly string[]).includes(args.decision)) {
+      throw new Error(`--decision must be one of ${ARBITER_DECISIONS.join(", ")}`);
+    }
+    const unknownReasons = args.reasons.filter((r) => !(ARBITER_REASON_CODES as readonly string[]).includes(r));
+    if (unknownReasons.length > 0) {
+      throw new Error(`Unknown reason code(s): ${unknownReasons.join(", ")}`);
+    }
+
+    const transcriptPath = resolvePath(args.transcript, "Transcript");
+    const transcript = JSON.parse(readFileSync(transcriptPath, "utf-8")) as TranscriptV4;
+    const signingKey = readFileSync(resolvePath(args.signKey, "Sign key"), "utf-8");
+    const issuedAt = args.issuedAt !== undefined ? parseNumber(args.issuedAt, "--issued-at") : Date.now();
+
+    const decision = await createArbiterDecision({
+      transcript,
+      decision: args.decision as ArbiterDecisionType,
+      reasonCodes: args.reasons as ArbiterReasonCode[],
+      evidenceRefs: buildEvidenceRefs(args, transcript),
+      arbiterId: args.arbiterId,
+      signingKeyB58: signingKey,
+      issuedAt,
+      amounts: buildAmounts(args),
+      notes: args.notes,
+    });
+
+    const json = JSON.stringify(decision, null, 2);
+    if (args.out) {
+      writeFileSync(args.out, json + "\n", "utf-8");
+      console.error(`Wrote ${decision.decision_id} to ${args.out}`);
+    } else {
+      console.log(json);
+    }
+
+    if (args.linkedTranscriptOut) {
+      const linked: TranscriptV4 = { ...transcript, arbiter_decision_ref: decision.decision_id };
+      writeFileSync(args.linkedTranscriptOut, JSON.stringify(linked, null, 2) + "\n", "utf-8");
+      console.error(`Wrote transcript with arbiter_decision_ref to ${args.linkedTranscriptOut}`);
+    }
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+  }
+}
+
+if (import.meta.url === `file://${process.argv[1]}` || process.argv[1]?.endsWith("arbiter_decide.ts")) {
+  main().catch((error) => {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+  });
+}
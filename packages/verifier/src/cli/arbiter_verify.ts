@@ -0,0 +1,117 @@
+#!/usr/bin/env node
+/**
+ * Arbiter Verify CLI
+ *
+ * Verifies a pact-arbiter-decision/4.0 artifact: schema, deterministic decision_id, signature,
+ * trusted arbiter key (with --trusted-arbiter / --trusted-arbiters), and (with --transcript)
+ * transcript linkage and SPLIT amounts. Prints an arbiter_verify/1.0 report.
+ *
+ * Usage:
+ *   pact-verifier arbiter-verify --decision <decision.json> [--transcript <path>] [--trusted-arbiter <key>]
+ *
+ * Exit code: 0 when the decision verifies, 1 otherwise.
+ */
+
+import { readFileSync, existsSync } from "node:fs";
+import { resolve, isAbsolute, dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { TranscriptV4 } from "../util/transcript_types.js";
+import { verifyArbiterDecision } from "../arbiter/decision.js";
+import { loadTrustedKeys } from "../util/load_trusted_keys_node.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const repoRoot = resolve(__dirname, "../../../..");
+
+// Handle EPIPE gracefully (e.g., when piping to head/jq)
+process.stdout.on("error", (err: NodeJS.ErrnoException) => {
+  if (err.code === "EPIPE") {
+    process.exit(0);
+  }
+});
+
+interface ArbiterVerifyArgs {
+  decision?: string;
+  transcript?: string;
+  trustedArbiters?: string[];
+  trustedArbitersFile?: string;
+}
+
+function parseArgs(): ArbiterVerifyArgs {
+  const args: ArbiterVerifyArgs = {};
+  let i = 2;
+  while (i < process.argv.length) {
+    const arg = process.argv[i];
+    if (arg === "--decision" && i + 1 < process.argv.length) {
+      args.decision = process.argv[++i];
+    } else if (arg === "--transcript" && i + 1 < process.argv.length) {
+      args.transcript = process.argv[++i];
+    } else if (arg === "--trusted-arbiter" && i + 1 < process.argv.length) {
+      (args.trustedArbiters ??= []).push(process.argv[++i]);
+    } else if (arg === "--trusted-arbiters" && i + 1 < process.argv.length) {
+      args.trustedArbitersFile = process.argv[++i];
+    }
+    i++;
+  }
+  return args;
+}
+
+function printUsage(): void {
+  console.error("Usage: pact-verifier arbiter-verify --decision <decision.json> [--transcript <path>] [--trusted-arbiter <key>]");
+  console.error("");
+  console.error("Options:");
+  console.error("  --decision <file>          pact-arbiter-decision/4.0 JSON file (required)");
+  console.error("  --transcript <path>        Transcript to check linkage and SPLIT amounts against");
+  console.error("  --trusted-arbiter <key>    Trusted arbiter public key (base58); repeatable");
+  console.error("  --trusted-arbiters <file>  JSON array of trusted arbiter public keys (base58)");
+  console.error("");
+  console.error("Examples:");
+  console.error("  pact-verifier arbiter-verify --decision decision.json");
+  console.error("  pact-verifier arbiter-verify --decision decision.json --transcript tx.json");
+  console.error("  pact-verifier arbiter-verify --decision decision.json --trusted-arbiters arbiters.json");
+}
+
+function loadJsonFile(path: string, label: string): unknown {
+  let resolvedPath: string;
+  if (isAbsolute(path)) {
+    resolvedPath = path;
+  } else if (existsSync(path)) {
+    resolvedPath = resolve(process.cwd(), path);
+  } else {
+    resolvedPath = resolve(repoRoot, path);
+  }
+  if (!existsSync(resolvedPath)) {
+    throw new Error(`${label} file not found: ${path}`);
+  }
+  return JSON.parse(readFileSync(resolvedPath, "utf-8"));
+}
+
+export async function main(): Promise<void> {
+  const args = parseArgs();
+  if (!args.decision) {
+    printUsage();
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    const decision = loadJsonFile(args.decision, "Decision");
+    const transcript = args.transcript ? (loadJsonFile(args.transcript, "Transcript") as TranscriptV4) : undefined;
+    const trustedArbiterKeys = loadTrustedKeys(args.trustedArbiters, args.trustedArbitersFile, "arbiters");
+    const report = await verifyArbiterDecision(decision, { transcript, trustedArbiterKeys });
+    console.log(JSON.stringify(report, null, 2));
+    if (!report.ok) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+  }
+}
+
+if (import.meta.url === `file://${process.argv[1]}` || process.argv[1]?.endsWith("arbiter_verify.ts")) {
+  main().catch((error) => {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+  });
+}
@@ -9,6 +9,8 @@
  *   pact-verifier auditor-pack --transcript <path> --out <file.zip>
  *   pact-verifier auditor-pack --transcript <path> --out <file.zip> --include-passport --transcripts-dir <dir>
  *   pact-verifier auditor-pack --transcript <path> --out <file.zip> --include-contention --transcripts-dir <dir>
+ *   pact-verifier auditor-pack --transcript <path> --out <file.zip> --sign-key <packer.key>
+ *   pact-verifier auditor-pack --transcript <path> --out <file.zip> --rulebook <rulebook.json>
  */
 
 import { readFileSync, writeFileSync, existsSync, readdirSync, statSync } from "node:fs";
@@ -18,7 +20,14 @@ import { fileURLToPath } from "node:url";
 import JSZip from "jszip";
 import { renderGCView } from "../gc_view/renderer.js";
 import { resolveBlameV1 } from "../dbl/blame_resolver_v1.js";
+import {
+  MERKLE_PROOF_PACK_PATH,
+  inclusionProofFor,
+  verifyInclusionProof,
+  type MerkleInclusionProof,
+} from "../merkle/digest.js";
 import type { TranscriptV4 } from "../util/transcript_types.js";
+import { computeTranscriptHash } from "../util/replay.js";
 import { stableCanonicalize } from "../util/canonical.js";
 import {
   getTranscriptSigners,
@@ -29,6 +38,15 @@ import {
   type PassportState,
 } from "../util/passport_v1.js";
 import { generateInsurerSummary } from "../auditor_pack_verify_shared.js";
+import { PACK_SIGNATURE_PATH, signPackManifest, type PackSignature } from "../util/pack_signature.js";
+import { constitutionVersionForHash } from "../util/constitution_hashes.js";
+import { loadTrustedKeys } from "../util/load_trusted_keys_node.js";
+import {
+  RULEBOOK_PACK_PATH,
+  computeRulebookHash,
+  validateRulebook,
+  type UnderwritingRulebookV1,
+} from "../underwriting/rulebook.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -50,6 +68,12 @@ interface AuditorPackArgs {
   includePassport?: boolean;
   includeContention?: boolean;
   transcriptsDir?: string;
+  signKey?: string;
+  arbiterDecision?: string;
+  trustedArbiters?: string[];
+  trustedArbitersFile?: string;
+  merkleProof?: string;
+  rulebook?: string;
 }
 
 function parseArgs(): AuditorPackArgs {
@@ -67,6 +91,18 @@ function parseArgs(): AuditorPackArgs {
       args.includeContention = true;
     } else if (arg === "--transcripts-dir" && i + 1 < process.argv.length) {
       args.transcriptsDir = process.argv[++i];
+    } else if (arg === "--sign-key" && i + 1 < process.argv.length) {
+      args.signKey = process.argv[++i];
+    } else if (arg === "--arbiter-decision" && i + 1 < process.argv.length) {
+      args.arbiterDecision = process.argv[++i];
+    } else if (arg === "--trusted-arbiter" && i + 1 < process.argv.length) {
+      (args.trustedArbiters ??= []).push(process.argv[++i]);
+    } else if (arg === "--trusted-arbiters" && i + 1 < process.argv.length) {
+      args.trustedArbitersFile = process.argv[++i];
+    } else if (arg === "--merkle-proof" && i + 1 < process.argv.length) {
+      args.merkleProof = process.argv[++i];
+    } else if (arg === "--rulebook" && i + 1 < process.argv.length) {
+      args.rulebook = process.argv[++i];
     }
     i++;
   }
@@ -82,10 +118,17 @@ function printUsage(): void {
   console.error("  --include-passport       Include passport snapshot (requires --transcripts-dir)");
   console.error("  --include-contention     Include contention report (requires --transcripts-dir)");
   console.error("  --transcripts-dir <dir>  Directory containing transcripts for passport/contention");
+  console.error("  --sign-key <file>        Seal the pack: file holds a base58 Ed25519 secret key (64 bytes) or seed (32 bytes)");
+  console.error("  --arbiter-decision <file> Include a pact-arbiter-decision/4.0 document (input/arbiter_decision.json)");
+  console.error("  --trusted-arbiter <key>  Trusted arbiter public key (base58); repeatable. Without one the decision is not verified");
+  console.error("  --trusted-arbiters <file> JSON array of trusted arbiter public keys (base58)");
+  console.error("  --merkle-proof <file>    Include this transcript's Merkle inclusion proof (proof or full digest from merkle-digest)");
+  console.error("  --rulebook <file>        Derive the insurer summary under this underwriting rulebook and seal it in the pack");
   console.error("");
   console.error("Examples:");
   console.error("  pact-verifier auditor-pack --transcript tx.json --out evidence.zip");
   console.error("  pact-verifier auditor-pack --transcript tx.json --out evidence.zip --include-passport --transcripts-dir ./transcripts");
+  console.error("  pact-verifier auditor-pack --transcript tx.json --out evidence.zip --sign-key packer.key");
 }
 
 function loadTranscript(path: string): TranscriptV4 {
@@ -128,7 +171,7 @@ function loadConstitution(): { content: string; version: string; hash: string }
       const content = readFileSync(p, "utf8");
       const canonical = content.replace(/\r\n/g, "\n").replace(/[ \t]+$/gm, "");
       const hash = sha256File(canonical);
-      return { content: canonical, version: "constitution/1.0", hash };
+      return { content: canonical, version: constitutionVersionForHash(hash), hash };
     }
   }
 
@@ -291,7 +334,13 @@ function generateContentionReport(
 /**
  * Generate README.txt content
  */
-function generateReadme(transcript: TranscriptV4): string {
+function generateReadme(transcript: TranscriptV4, signed: boolean, withRulebook: boolean): string {
+  const sealLine = signed
+    ? "- manifest.sig.json     Packer seal (Ed25519 over manifest + checksums)\n"
+    : "";
+  const rulebookLine = withRulebook
+    ? "- underwriting/         Underwriting rulebook the insurer summary was derived under\n"
+    : "";
   return `PACT AUDITOR PACK
 =================
 
@@ -302,9 +351,9 @@ CONTENTS
 --------
 - manifest.json         Package metadata and integrity summary
 - checksums.sha256      SHA-256 checksums for all files
-- constitution/         The rulebook (CONSTITUTION_v1.md)
-- input/                Original transcript
-- derived/              Computed artifacts (GC view, judgment, etc.)
+${sealLine}- constitution/         The rulebook (CONSTITUTION_v1.md)
+- input/                Original transcript (and arbiter decision, if any)
+${rulebookLine}- derived/              Computed artifacts (GC view, judgment, etc.)
 
 HOW TO VERIFY
 -------------
@@ -363,10 +412,60 @@ export async function main(): Promise<void> {
     // Load constitution
     const constitution = loadConstitution();
 
+    // Optional arbiter decision (resolved against arbiter_decision_ref in DBL / GC view)
+    let arbiterDecisionJson: string | null = null;
+    if (args.arbiterDecision) {
+      const decisionPath = isAbsolute(args.arbiterDecision) ? args.arbiterDecision : resolve(process.cwd(), args.arbiterDecision);
+      if (!existsSync(decisionPath)) {
+        throw new Error(`Arbiter decision file not found: ${args.arbiterDecision}`);
+      }
+      arbiterDecisionJson = JSON.stringify(JSON.parse(readFileSync(decisionPath, "utf8")), null, 2);
+    }
+    const arbiterDecisions = arbiterDecisionJson ? [JSON.parse(arbiterDecisionJson)] : undefined;
+    const trustedArbiterKeys = loadTrustedKeys(args.trustedArbiters, args.trustedArbitersFile, "arbiters");
+
+    // Optional Merkle inclusion proof (must prove this transcript's content hash)
+    let merkleProof: MerkleInclusionProof | null = null;
+    if (args.merkleProof) {
+      const proofPath = isAbsolute(args.merkleProof) ? args.merkleProof : resolve(process.cwd(), args.merkleProof);
+      if (!existsSync(proofPath)) {
+        throw new Error(`Merkle proof file not found: ${args.merkleProof}`);
+      }
+      const parsed = JSON.parse(readFileSync(proofPath, "utf8"));
+      merkleProof = Array.isArray(parsed.leaves) ? inclusionProofFor(parsed, await computeTranscriptHash(transcript)) : parsed;
+      if (!merkleProof) {
+        throw new Error(`Merkle digest ${args.merkleProof} has no leaf for this transcript's content`);
+      }
+      const inclusion = await verifyInclusionProof(merkleProof, { transcript, expectedConstitutionHash: constitution.hash });
+      if (!inclusion.ok) {
+        throw new Error(`Merkle proof does not prove this transcript: ${inclusion.errors.join("; ")}`);
+      }
+    }
+
+    // Optional underwriting rulebook (sealed; the insurer summary is derived under it)
+    let rulebookJson: string | null = null;
+    let rulebook: UnderwritingRulebookV1 | null = null;
+    if (args.rulebook) {
+      const rulebookPath = isAbsolute(args.rulebook) ? args.rulebook : resolve(process.cwd(), args.rulebook);
+      if (!existsSync(rulebookPath)) {
+        throw new Error(`Rulebook file not found: ${args.rulebook}`);
+      }
+      const parsed = JSON.parse(readFileSync(rulebookPath, "utf8"));
+      const rulebookErrors = validateRulebook(parsed);
+      if (rulebookErrors.length > 0) {
+        throw new Error(`Invalid underwriting rulebook ${args.rulebook}: ${rulebookErrors.join("; ")}`);
+      }
+      rulebook = parsed as UnderwritingRulebookV1;
+      rulebookJson = JSON.stringify(rulebook, null, 2);
+    }
+
     // Generate derived artifacts
-    const gcView = await renderGCView(transcript);
-    const judgment = await resolveBlameV1(transcript);
-    const insurerSummary = await generateInsurerSummary(transcript, gcView, judgment);
+    const gcView = await renderGCView(transcript, { arbiterDecisions, trustedArbiterKeys });
+    const judgment = await resolveBlameV1(transcript, { arbiterDecisions, trustedArbiterKeys });
+    const sealedRulebook = rulebook
+      ? { rulebook, hash: await computeRulebookHash(rulebook, async (data) => sha256File(data)) }
+      : undefined;
+    const insurerSummary = await generateInsurerSummary(transcript, gcView, judgment, sealedRulebook);
 
     // Outcome events for art.acquisition or api.procurement COMPLETED
     let outcomeEvents: Record<string, unknown> | null = null;
@@ -419,6 +518,8 @@ export async function main(): Promise<void> {
     const includedArtifacts = [
       "constitution/CONSTITUTION_v1.md",
       "input/transcript.json",
+      ...(arbiterDecisionJson ? ["input/arbiter_decision.json"] : []),
+      ...(rulebookJson ? [RULEBOOK_PACK_PATH] : []),
       "derived/gc_view.json",
       "derived/judgment.json",
       "derived/insurer_summary.json",
@@ -426,6 +527,7 @@ export async function main(): Promise<void> {
     if (passportSnapshot) includedArtifacts.push("derived/passport_snapshot.json");
     if (contentionReport) includedArtifacts.push("derived/contention_report.json");
     if (outcomeEvents) includedArtifacts.push("derived/outcome_events.json");
+    if (merkleProof) includedArtifacts.push(MERKLE_PROOF_PACK_PATH);
     includedArtifacts.push("README.txt");
 
     // Build manifest (audit_tier/audit_sla only when present in transcript metadata; backward compatible)
@@ -464,10 +566,16 @@ export async function main(): Promise<void> {
       { path: "derived/gc_view.json", content: JSON.stringify(gcView, null, 2) },
       { path: "derived/judgment.json", content: JSON.stringify(judgment, null, 2) },
       { path: "derived/insurer_summary.json", content: JSON.stringify(insurerSummary, null, 2) },
-      { path: "README.txt", content: generateReadme(transcript) },
+      { path: "README.txt", content: generateReadme(transcript, !!args.signKey, !!rulebookJson) },
       { path: "manifest.json", content: JSON.stringify(manifest, null, 2) },
     ];
 
+    if (arbiterDecisionJson) {
+      files.push({ path: "input/arbiter_decision.json", content: arbiterDecisionJson });
+    }
+    if (rulebookJson) {
+      files.push({ path: RULEBOOK_PACK_PATH, content: rulebookJson });
+    }
     if (passportSnapshot) {
       files.push({ path: "derived/passport_snapshot.json", content: JSON.stringify(passportSnapshot, null, 2) });
     }
@@ -477,6 +585,9 @@ export async function main(): Promise<void> {
     if (outcomeEvents) {
       files.push({ path: "derived/outcome_events.json", content: JSON.stringify(outcomeEvents, null, 2) });
     }
+    if (merkleProof) {
+      files.push({ path: MERKLE_PROOF_PACK_PATH, content: JSON.stringify(merkleProof, null, 2) });
+    }
 
     // Compute checksums and add files
     const checksums: Array<{ hash: string; path: string }> = [];
@@ -499,6 +610,19 @@ export async function main(): Promise<void> {
     // But that's circular. Let's add checksums file without its own hash.
     zip.file("checksums.sha256", checksumsContent);
 
+    // Seal: detached signature over manifest + checksums (verified separately, not listed in checksums)
+    let seal: PackSignature | null = null;
+    if (args.signKey) {
+      const keyPath = isAbsolute(args.signKey) ? args.signKey : resolve(process.cwd(), args.signKey);
+      if (!existsSync(keyPath)) {
+        throw new Error(`Sign key file not found: ${args.signKey}`);
+      }
+      seal = await signPackManifest(manifest, checksumsContent, readFileSync(keyPath, "utf8"), (s) =>
+        Promise.resolve(sha256File(s))
+      );
+      zip.file(PACK_SIGNATURE_PATH, JSON.stringify(seal, null, 2));
+    }
+
     // Generate ZIP buffer
     const zipBuffer = await zip.generateAsync({ type: "nodebuffer" });
 
@@ -511,6 +635,9 @@ export async function main(): Promise<void> {
     console.error(`  Transcript: ${transcript.transcript_id}`);
     console.error(`  Outcome: ${gcView.executive_summary.status}`);
     console.error(`  Integrity: hash_chain=${gcView.integrity.hash_chain}, signatures=${gcView.integrity.signatures_verified.verified}/${gcView.integrity.signatures_verified.total}`);
+    if (seal) {
+      console.error(`  Sealed by: ${seal.signer_public_key_b58}`);
+    }
 
   } catch (error) {
     console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
@@ -6,6 +6,8 @@
  *
  * Usage:
  *   pact-verifier auditor-pack-verify --zip <path.zip> [--out <report.json>]
+ *   pact-verifier auditor-pack-verify --zip <path.zip> --trusted-packers <keys.json> [--require-signature]
+ *   pact-verifier auditor-pack-verify --zip <path.zip> --trusted-arbiter <base58 pubkey>
  */
 
 import { readFileSync, writeFileSync, existsSync } from "node:fs";
@@ -14,6 +16,7 @@ import { createHash } from "node:crypto";
 import { fileURLToPath } from "node:url";
 import { verifyAuditorPackFromBytes, type VerifyReport } from "../verify_auditor_pack_core.js";
 import { getConstitutionContent } from "../load_constitution_node.js";
+import { loadTrustedKeys } from "../util/load_trusted_keys_node.js";
 
 // Version constants
 const PACKAGE_VERSION = "auditor_pack_verify/1.0";
@@ -30,6 +33,11 @@ interface VerifyArgs {
   zip?: string;
   out?: string;
   allowNonstandard?: boolean;
+  trustedPackers?: string[];
+  trustedPackersFile?: string;
+  requireSignature?: boolean;
+  trustedArbiters?: string[];
+  trustedArbitersFile?: string;
 }
 
 function parseArgs(): VerifyArgs {
@@ -43,6 +51,16 @@ function parseArgs(): VerifyArgs {
       args.out = process.argv[++i];
     } else if (arg === "--allow-nonstandard") {
       args.allowNonstandard = true;
+    } else if (arg === "--trusted-packer" && i + 1 < process.argv.length) {
+      (args.trustedPackers ??= []).push(process.argv[++i]);
+    } else if (arg === "--trusted-packers" && i + 1 < process.argv.length) {
+      args.trustedPackersFile = process.argv[++i];
+    } else if (arg === "--require-signature") {
+      args.requireSignature = true;
+    } else if (arg === "--trusted-arbiter" && i + 1 < process.argv.length) {
+      (args.trustedArbiters ??= []).push(process.argv[++i]);
+    } else if (arg === "--trusted-arbiters" && i + 1 < process.argv.length) {
+      args.trustedArbitersFile = process.argv[++i];
     }
     i++;
   }
@@ -56,11 +74,17 @@ function printUsage(): void {
   console.error("  --zip <path>              Path to auditor pack ZIP file (required)");
   console.error("  --out <path>              Optional path to write verification report");
   console.error("  --allow-nonstandard       Allow non-standard constitution hashes (not recommended)");
+  console.error("  --trusted-packer <key>    Trusted packer public key (base58); repeatable; implies a required seal");
+  console.error("  --trusted-packers <file>  JSON array of trusted packer public keys (base58)");
+  console.error("  --require-signature       Fail when the pack has no manifest.sig.json seal");
+  console.error("  --trusted-arbiter <key>   Trusted arbiter public key (base58); repeatable");
+  console.error("  --trusted-arbiters <file> JSON array of trusted arbiter public keys (base58)");
   console.error("");
   console.error("Examples:");
   console.error("  pact-verifier auditor-pack-verify --zip evidence.zip");
   console.error("  pact-verifier auditor-pack-verify --zip evidence.zip --out report.json");
   console.error("  pact-verifier auditor-pack-verify --zip evidence.zip --allow-nonstandard");
+  console.error("  pact-verifier auditor-pack-verify --zip evidence.zip --trusted-packers packers.json --require-signature");
 }
 
 function sha256Node(content: string | Buffer): string {
@@ -116,6 +140,9 @@ export async function main(): Promise<void> {
       sha256Async,
       standardConstitutionContent,
       allowNonstandard: args.allowNonstandard,
+      trustedPackerKeys: loadTrustedKeys(args.trustedPackers, args.trustedPackersFile, "packers"),
+      requireSignature: args.requireSignature,
+      trustedArbiterKeys: loadTrustedKeys(args.trustedArbiters, args.trustedArbitersFile, "arbiters"),
     });
     Object.assign(report, result);
     outputReport(report, args.out);
@@ -0,0 +1,246 @@
+#!/usr/bin/env node
+/**
+ * Batch Verify CLI
+ *
+ * Runs replay, DBL and (for *.zip) auditor pack verification over every item in a directory
+ * using worker threads. Streams one NDJSON line per item (in input order) and ends with an
+ * aggregate summary line (counts by integrity status, DBL determination and failure code).
+ *
+ * Usage:
+ *   pact-verifier batch --dir <dir> [--jobs N] [--recursive] [--out <file.ndjson>]
+ *
+ * Exit code: 0 when every item passes, 1 otherwise.
+ */
+
+import { writeFileSync, appendFileSync, existsSync } from "node:fs";
+import { resolve, isAbsolute } from "node:path";
+import { availableParallelism } from "node:os";
+import { Worker, isMainThread, parentPort, workerData } from "node:worker_threads";
+import { getConstitutionContent } from "../load_constitution_node.js";
+import {
+  collectBatchFiles,
+  failedBatchItem,
+  summarizeBatch,
+  verifyBatchItem,
+  type BatchContext,
+  type BatchItemResult,
+} from "../batch/verify_item.js";
+
+const WORKER_ROLE = "pact-batch-worker";
+
+// EPIPE handler for pipe safety
+process.stdout.on("error", (err: NodeJS.ErrnoException) => {
+  if (err.code === "EPIPE") {
+    process.exit(0);
+  }
+});
+
+interface BatchArgs {
+  dir?: string;
+  jobs?: number;
+  recursive?: boolean;
+  out?: string;
+}
+
+type WorkerTask = { index: number; file: string };
+
+function parseArgs(): BatchArgs {
+  const args: BatchArgs = {};
+  let i = 2;
+  while (i < process.argv.length) {
+    const arg = process.argv[i];
+    if (arg === "--dir" && i + 1 < process.argv.length) {
+      args.dir = process.argv[++i];
+    } else if (arg === "--jobs" && i + 1 < process.argv.length) {
+      const jobs = Number(process.argv[++i]);
+      if (!Number.isInteger(jobs) || jobs < 1) {
+        throw new Error(`Invalid --jobs: ${process.argv[i]} (must be a positive integer)`);
+      }
+      args.jobs = jobs;
+    } else if (arg === "--recursive") {
+      args.recursive = true;
+    } else if (arg === "--out" && i + 1 < process.argv.length) {
+      args.out = process.argv[++i];
+    } else if (arg.startsWith("--")) {
+      throw new Error(`Unknown option: ${arg}`);
+    }
+    i++;
+  }
+  return args;
+}
+
+function printUsage(): void {
+  console.error("Usage: pact-verifier batch --dir <dir> [--jobs N] [--recursive] [--out <file.ndjson>]");
+  console.error("");
+  console.error("Options:");
+  console.error("  --dir <dir>     Directory of transcripts (*.json) and auditor packs (*.zip) (required)");
+  console.error(`  --jobs N        Worker threads (default: ${defaultJobs()})`);
+  console.error("  --recursive     Include subdirectories");
+  console.error("  --out <file>    Write NDJSON here instead of stdout");
+  console.error("");
+  console.error("Examples:");
+  console.error("  pact-verifier batch --dir ./transcripts --jobs 8 > nightly.ndjson");
+  console.error("  pact-verifier batch --dir ./packs --recursive --out packs.ndjson");
+}
+
+function defaultJobs(): number {
+  return Math.max(1, Math.min(8, availableParallelism() - 1));
+}
+
+/**
+ * Spawn this module as a worker. Loader hooks (tsx) are per-thread, so when running from
+ * source the worker registers tsx before importing the module.
+ */
+function spawnWorker(data: unknown): Worker {
+  if (import.meta.url.endsWith(".ts")) {
+    const bootstrap = `import("tsx/esm/api").then((m) => m.register()).then(() => import(${JSON.stringify(import.meta.url)}))`;
+    return new Worker(bootstrap, { eval: true, workerData: data });
+  }
+  return new Worker(new URL(import.meta.url), { workerData: data });
+}
+
+/**
+ * Verify files with a pool of worker threads. onResult is called in input order.
+ * A worker that dies mid-task records a FAIL item for that task and is replaced.
+ */
+export async function runPool(
+  files: string[],
+  baseDir: string,
+  jobs: number,
+  context: BatchContext,
+  onResult: (result: BatchItemResult) => void,
+  spawn: (data: unknown) => Worker = spawnWorker
+): Promise<BatchItemResult[]> {
+  const results: BatchItemResult[] = new Array(files.length);
+  let nextToEmit = 0;
+  const emitReady = () => {
+    while (nextToEmit < files.length && results[nextToEmit] !== undefined) {
+      onResult(results[nextToEmit++]);
+    }
+  };
+
+  if (jobs === 1 || files.length <= 1) {
+    for (let index = 0; index < files.length; index++) {
+      results[index] = await verifyBatchItem(files[index], index, baseDir, context);
+      emitReady();
+    }
+    return results;
+  }
+
+  const workers: Worker[] = [];
+  try {
+    await new Promise<void>((resolvePool) => {
+      let nextTask = 0;
+      let done = 0;
+      const record = (result: BatchItemResult) => {
+        results[result.index] = result;
+        emitReady();
+        if (++done === files.length) {
+          resolvePool();
+        }
+      };
+      const dispatch = (worker: Worker, inFlight: { task?: WorkerTask }) => {
+        if (nextTask < files.length) {
+          inFlight.task = { index: nextTask, file: files[nextTask] };
+          nextTask++;
+          worker.postMessage(inFlight.task);
+        }
+      };
+      const startWorker = () => {
+        const worker = spawn({ role: WORKER_ROLE, baseDir, context });
+        const inFlight: { task?: WorkerTask; error?: Error } = {};
+        workers.push(worker);
+        worker.on("message", (result: BatchItemResult) => {
+          inFlight.task = undefined;
+          record(result);
+          dispatch(worker, inFlight);
+        });
+        worker.on("error", (error) => {
+          inFlight.error = error;
+        });
+        worker.on("exit", (code) => {
+          const task = inFlight.task;
+          if (!task) return;
+          inFlight.task = undefined;
+          const reason = inFlight.error ? inFlight.error.message : `exit code ${code}`;
+          record(failedBatchItem(task.file, task.index, baseDir, [`Worker exited before finishing: ${reason}`]));
+          if (nextTask < files.length) {
+            startWorker();
+          }
+        });
+        dispatch(worker, inFlight);
+      };
+      for (let w = 0; w < Math.min(jobs, files.length); w++) {
+        startWorker();
+      }
+    });
+  } finally {
+    await Promise.all(workers.map((w) => w.terminate()));
+  }
+  return results;
+}
+
+export async function main(): Promise<void> {
+  let args: BatchArgs;
+  try {
+    args = parseArgs();
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+    return;
+  }
+  if (!args.dir) {
+    printUsage();
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    const dir = isAbsolute(args.dir) ? args.dir : resolve(process.cwd(), args.dir);
+    if (!existsSync(dir)) {
+      throw new Error(`Directory not found: ${args.dir}`);
+    }
+    const files = collectBatchFiles(dir, args.recursive);
+    const jobs = args.jobs ?? defaultJobs();
+    const context: BatchContext = { constitutionContent: getConstitutionContent() };
+
+    const out = args.out ? (isAbsolute(args.out) ? args.out : resolve(process.cwd(), args.out)) : undefined;
+    if (out) writeFileSync(out, "", "utf8");
+    const emit = (line: unknown) => {
+      const json = JSON.stringify(line);
+      if (out) {
+        appendFileSync(out, json + "\n", "utf8");
+      } else {
+        console.log(json);
+      }
+    };
+
+    const results = await runPool(files, dir, jobs, context, emit);
+    const summary = summarizeBatch(results);
+    emit(summary);
+    console.error(
+      `${summary.ok ? "✅" : "❌"} ${summary.passed}/${summary.items} passed (${summary.transcripts} transcript(s), ${summary.packs} pack(s), ${Math.min(jobs, Math.max(files.length, 1))} job(s))`
+    );
+
+    if (!summary.ok) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+  }
+}
+
+// Worker thread: verify tasks posted by runPool (same module, spawned via import.meta.url)
+if (!isMainThread && workerData?.role === WORKER_ROLE && parentPort) {
+  const port = parentPort;
+  const { baseDir, context } = workerData as { baseDir: string; context: BatchContext };
+  port.on("message", async (task: WorkerTask) => {
+    port.postMessage(await verifyBatchItem(task.file, task.index, baseDir, context));
+  });
+} else if (isMainThread && (import.meta.url === `file://${process.argv[1]}` || process.argv[1]?.endsWith("batch.ts"))) {
+  main().catch((error) => {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+  });
+}
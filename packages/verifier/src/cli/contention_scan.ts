@@ -5,19 +5,28 @@
  * Scans a directory of transcripts and detects contention:
  * - Multiple terminal transcripts with same intent_fingerprint
  * - Multiple settlements for same LVSH
+ * - Overlapping EXCLUSIVE claims (ACCEPTs) on the same contention_key inside contention_window_ms,
+ *   reported as PACT-330 evidence (Constitution §6: first valid accept wins)
+ *
+ * Only replay-VALID transcripts contribute EXCLUSIVE claims; claims from transcripts that fail
+ * replay are listed under unverified_claims and never attributed to a party.
+ * 
+ * With --index <file>, per-file scan results are persisted (keyed by file name, size and mtime) so
+ * later scans of the same directory only process new or changed files.
  * 
  * Usage:
- *   node dist/cli/contention_scan.js --transcripts-dir <dir> [--out <file>]
+ *   node dist/cli/contention_scan.js --transcripts-dir <dir> [--out <file>] [--index <file>]
  */
 
-import { readFileSync, readdirSync, statSync, writeFileSync, existsSync } from "node:fs";
+import { readFileSync, readdirSync, statSync, writeFileSync, existsSync, renameSync } from "node:fs";
 import { resolve, isAbsolute, join } from "node:path";
 import { fileURLToPath } from "node:url";
 import { dirname } from "node:path";
 import { createHash } from "node:crypto";
 import { stableCanonicalize } from "../util/canonical.js";
-import type { TranscriptV4 } from "../util/transcript_types.js";
+import type { TranscriptV4, ReplayResult } from "../util/transcript_types.js";
 import { resolveBlameV1 } from "../dbl/blame_resolver_v1.js";
+import { replayTranscriptV4 } from "../util/replay.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -33,6 +42,7 @@ process.stdout.on("error", (err) => {
 interface ParsedArgs {
   transcriptsDir?: string;
   out?: string;
+  index?: string;
   human?: boolean;
   debug?: boolean;
 }
@@ -48,6 +58,8 @@ function parseArgs(): ParsedArgs {
       args.transcriptsDir = process.argv[++i];
     } else if (arg === "--out" && i + 1 < process.argv.length) {
       args.out = process.argv[++i];
+    } else if (arg === "--index" && i + 1 < process.argv.length) {
+      args.index = process.argv[++i];
     } else if (arg === "--human") {
       args.human = true;
     } else if (arg === "--debug") {
@@ -145,15 +157,86 @@ interface ContentionGroup {
   };
 }
 
+/**
+ * An EXCLUSIVE claim: the transcript's last ACCEPT on a contention_key.
+ */
+interface ExclusiveClaim {
+  transcript_id: string;
+  file: string;
+  contention_key: string;
+  contention_window_ms: number;
+  accept_round_hash: string;
+  accept_timestamp_ms: number;
+  buyer?: string;
+  provider?: string;
+}
+
+/**
+ * PACT-330 evidence: a claim accepted inside the window opened by an earlier (winning) claim.
+ */
+interface ContentionEvidence {
+  code: "PACT-330";
+  contention_key: string;
+  window: {
+    start_ms: number;
+    end_ms: number;
+    window_ms: number;
+  };
+  winner: Omit<ExclusiveClaim, "contention_key" | "contention_window_ms">;
+  violator: Omit<ExclusiveClaim, "contention_key" | "contention_window_ms">;
+  /** §6.4 provider double-sell, §6.5 buyer race, §6.8 otherwise (non-winner provider). */
+  rule: "PROVIDER_DOUBLE_SELL" | "BUYER_RACE" | "NON_WINNER_PROVIDER";
+  fault_domain: "PROVIDER_AT_FAULT" | "BUYER_AT_FAULT";
+}
+
+/**
+ * An EXCLUSIVE claim from a transcript that did not replay VALID: reported, never used as evidence.
+ */
+interface UnverifiedClaim {
+  transcript_id: string;
+  file: string;
+  contention_key: string;
+  integrity_status: ReplayResult["integrity_status"];
+}
+
 interface ContentionReport {
   version: "contention_report/1.0";
   scanned: {
     files: number;
     transcripts_loaded: number;
+    /** Files whose results came from --index without re-reading them. */
+    from_index?: number;
   };
   unique_intents: number;
   double_commits: number;
+  exclusivity_violations: number;
   groups: ContentionGroup[];
+  evidence: ContentionEvidence[];
+  unverified_claims: UnverifiedClaim[];
+}
+
+/**
+ * Per-file scan result; everything the report needs, so indexed files are never re-read.
+ */
+type ScanRecord =
+  | { error: string }
+  | {
+      transcript_id: string;
+      integrity_status: ReplayResult["integrity_status"];
+      intent_fingerprint: string | null;
+      terminal: boolean;
+      buyer?: string;
+      provider?: string;
+      claim: ExclusiveClaim | null;
+    };
+
+/** Bump when ScanRecord semantics change; older indexes are discarded. */
+const CONTENTION_INDEX_VERSION = "contention_index/1.1";
+
+interface ContentionIndex {
+  version: typeof CONTENTION_INDEX_VERSION;
+  transcripts_dir: string;
+  files: Record<string, { size: number; mtime_ms: number; record: ScanRecord }>;
 }
 
 /**
@@ -184,19 +267,191 @@ function resolveTranscriptsDir(transcriptsDir: string): string {
   return resolvedDir;
 }
 
+/**
+ * Extract the EXCLUSIVE claim of a transcript, if any.
+ * Contention fields come from metadata, else the ACCEPT round, else the INTENT round content_summary.
+ * Transcripts without an ACCEPT, a contention_key or a positive contention_window_ms make no claim.
+ */
+function extractExclusiveClaim(
+  transcript: TranscriptV4,
+  file: string,
+  parties: { buyer?: string; provider?: string }
+): ExclusiveClaim | null {
+  const accept = [...transcript.rounds].reverse().find((r) => r.round_type === "ACCEPT");
+  if (!accept) {
+    return null;
+  }
+  const intentRound = transcript.rounds.find((r) => r.round_type === "INTENT");
+  const sources = [transcript.metadata, accept.content_summary, intentRound?.content_summary];
+  const source = sources.find((s) => s?.contention_scope !== undefined || s?.contention_key !== undefined);
+  if (
+    !source ||
+    source.contention_scope !== "EXCLUSIVE" ||
+    typeof source.contention_key !== "string" ||
+    typeof source.contention_window_ms !== "number" ||
+    source.contention_window_ms <= 0
+  ) {
+    return null;
+  }
+
+  return {
+    transcript_id: transcript.transcript_id,
+    file,
+    contention_key: source.contention_key,
+    contention_window_ms: source.contention_window_ms,
+    accept_round_hash: accept.round_hash || accept.envelope_hash,
+    accept_timestamp_ms: accept.timestamp_ms,
+    ...parties,
+  };
+}
+
+/**
+ * Read and classify one transcript file.
+ */
+async function scanFile(filePath: string, file: string): Promise<ScanRecord> {
+  try {
+    const content = readFileSync(filePath, "utf-8");
+    const transcript: TranscriptV4 = JSON.parse(content);
+
+    // Extract parties (buyer/provider signer keys) from INTENT round
+    const intentRound = transcript.rounds.find((r) => r.round_type === "INTENT");
+    const buyerPubkey = intentRound?.signature?.signer_public_key_b58;
+    const providerRound = transcript.rounds.find((r) => r.round_type === "ASK" || r.round_type === "ACCEPT");
+    const providerPubkey = providerRound?.signature?.signer_public_key_b58;
+    const parties = {
+      ...(buyerPubkey ? { buyer: buyerPubkey } : {}),
+      ...(providerPubkey ? { provider: providerPubkey } : {}),
+    };
+
+    const intentFingerprint = computeIntentFingerprint(transcript);
+    const replay = await replayTranscriptV4(transcript);
+    return {
+      transcript_id: transcript.transcript_id,
+      integrity_status: replay.integrity_status,
+      intent_fingerprint: intentFingerprint,
+      // Only fingerprinted transcripts join a group, so only they need the (costly) DBL judgment
+      terminal: intentFingerprint ? await isTerminal(transcript) : false,
+      ...parties,
+      claim: extractExclusiveClaim(transcript, file, parties),
+    };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Load a persisted index. A missing, unreadable or foreign (other version or directory) index starts empty.
+ */
+function loadIndex(indexPath: string, transcriptsDir: string): ContentionIndex {
+  const empty: ContentionIndex = { version: CONTENTION_INDEX_VERSION, transcripts_dir: transcriptsDir, files: {} };
+  if (!existsSync(indexPath)) {
+    return empty;
+  }
+  try {
+    const index = JSON.parse(readFileSync(indexPath, "utf-8")) as ContentionIndex;
+    if (index.version !== CONTENTION_INDEX_VERSION || index.transcripts_dir !== transcriptsDir || typeof index.files !== "object") {
+      console.error(`Warning: ignoring index ${indexPath} (different version or transcripts-dir); rebuilding`);
+      return empty;
+    }
+    return index;
+  } catch {
+    console.error(`Warning: could not read index ${indexPath}; rebuilding`);
+    return empty;
+  }
+}
+
+/**
+ * Write the index atomically (temp file + rename) so an interrupted scan never leaves it truncated.
+ */
+function saveIndex(indexPath: string, index: ContentionIndex): void {
+  const tmpPath = `${indexPath}.tmp`;
+  writeFileSync(tmpPath, JSON.stringify(index), "utf-8");
+  renameSync(tmpPath, indexPath);
+}
+
+function claimRef(claim: ExclusiveClaim): ContentionEvidence["winner"] {
+  const { contention_key: _key, contention_window_ms: _window, ...ref } = claim;
+  return ref;
+}
+
+/**
+ * Apply first-valid-accept-wins per contention_key (Constitution §6.3).
+ *
+ * Claims are ordered by ACCEPT timestamp, then ACCEPT round hash. The earliest claim wins and opens
+ * [accept_timestamp_ms, accept_timestamp_ms + contention_window_ms); every later claim accepted inside
+ * that window is a violation. The first claim after the window wins the next one. Copies of the same
+ * ACCEPT (same round hash) are one claim.
+ */
+function detectExclusivityViolations(claims: ExclusiveClaim[]): ContentionEvidence[] {
+  const byKey = new Map<string, ExclusiveClaim[]>();
+  for (const claim of claims) {
+    const list = byKey.get(claim.contention_key) ?? [];
+    list.push(claim);
+    byKey.set(claim.contention_key, list);
+  }
+
+  const evidence: ContentionEvidence[] = [];
+  for (const key of [...byKey.keys()].sort()) {
+    const ordered = byKey
+      .get(key)!
+      .sort(
+        (a, b) =>
+          a.accept_timestamp_ms - b.accept_timestamp_ms ||
+          (a.accept_round_hash < b.accept_round_hash ? -1 : a.accept_round_hash > b.accept_round_hash ? 1 : 0)
+      );
+
+    let winner: ExclusiveClaim | null = null;
+    for (const claim of ordered) {
+      const windowEnd: number = winner ? winner.accept_timestamp_ms + winner.contention_window_ms : -Infinity;
+      if (!winner || claim.accept_timestamp_ms >= windowEnd) {
+        winner = claim;
+        continue;
+      }
+      if (claim.accept_round_hash === winner.accept_round_hash) {
+        continue;
+      }
+
+      const sameProvider = claim.provider !== undefined && claim.provider === winner.provider;
+      const sameBuyer = claim.buyer !== undefined && claim.buyer === winner.buyer;
+      const rule = sameProvider ? "PROVIDER_DOUBLE_SELL" : sameBuyer ? "BUYER_RACE" : "NON_WINNER_PROVIDER";
+      evidence.push({
+        code: "PACT-330",
+        contention_key: key,
+        window: {
+          start_ms: winner.accept_timestamp_ms,
+          end_ms: windowEnd,
+          window_ms: winner.contention_window_ms,
+        },
+        winner: claimRef(winner),
+        violator: claimRef(claim),
+        rule,
+        fault_domain: rule === "BUYER_RACE" ? "BUYER_AT_FAULT" : "PROVIDER_AT_FAULT",
+      });
+    }
+  }
+  return evidence;
+}
+
 /**
  * Scan transcripts directory and generate contention report.
  */
-async function scanContention(transcriptsDir: string): Promise<ContentionReport> {
+async function scanContention(transcriptsDir: string, indexPath?: string): Promise<ContentionReport> {
   const groups: Map<string, ContentionGroup> = new Map();
+  const claims: ExclusiveClaim[] = [];
+  const unverifiedClaims: UnverifiedClaim[] = [];
   let filesScanned = 0;
   let transcriptsLoaded = 0;
+  let fromIndex = 0;
 
   // Resolve and validate transcripts directory
   const resolvedDir = resolveTranscriptsDir(transcriptsDir);
+  const index = indexPath ? loadIndex(indexPath, resolvedDir) : null;
+  const nextFiles: ContentionIndex["files"] = {};
 
-  // Read all JSON files in directory
-  const files = readdirSync(resolvedDir).filter((f) => f.endsWith(".json"));
+  // Read all JSON files in directory (sorted, so reports do not depend on directory order)
+  const files = readdirSync(resolvedDir)
+    .filter((f) => f.endsWith(".json"))
+    .sort();
   filesScanned = files.length;
 
   for (const file of files) {
@@ -206,54 +461,67 @@ async function scanContention(transcriptsDir: string): Promise<ContentionReport>
       continue;
     }
 
-    try {
-      const content = readFileSync(filePath, "utf-8");
-      const transcript: TranscriptV4 = JSON.parse(content);
-      transcriptsLoaded++;
+    const cached = index?.files[file];
+    let record: ScanRecord;
+    if (cached && cached.size === stat.size && cached.mtime_ms === stat.mtimeMs) {
+      record = cached.record;
+      fromIndex++;
+    } else {
+      record = await scanFile(filePath, file);
+    }
+    nextFiles[file] = { size: stat.size, mtime_ms: stat.mtimeMs, record };
 
-      // Compute intent_fingerprint
-      const intentFingerprint = computeIntentFingerprint(transcript);
-      if (!intentFingerprint) {
-        console.error(`Warning: Could not compute intent_fingerprint for ${file}`);
-        continue;
-      }
+    if ("error" in record) {
+      console.error(`Error processing ${file}: ${record.error}`);
+      continue;
+    }
+    transcriptsLoaded++;
+
+    if (record.claim && record.integrity_status === "VALID") {
+      claims.push(record.claim);
+    } else if (record.claim) {
+      unverifiedClaims.push({
+        transcript_id: record.claim.transcript_id,
+        file: record.claim.file,
+        contention_key: record.claim.contention_key,
+        integrity_status: record.integrity_status,
+      });
+    }
 
-      // Check if terminal
-      const terminal = await isTerminal(transcript);
-
-      // Extract parties (buyer/provider signer keys) from INTENT round
-      const intentRound = transcript.rounds.find((r) => r.round_type === "INTENT");
-      const buyerPubkey = intentRound?.signature?.signer_public_key_b58;
-      const providerRound = transcript.rounds.find((r) => r.round_type === "ASK" || r.round_type === "ACCEPT");
-      const providerPubkey = providerRound?.signature?.signer_public_key_b58;
-
-      // Add to group
-      if (!groups.has(intentFingerprint)) {
-        groups.set(intentFingerprint, {
-          intent_fingerprint: intentFingerprint,
-          status: "SINGLE",
-          terminal_count: 0,
-          transcripts: [],
-          parties: buyerPubkey || providerPubkey ? {
-            buyer: buyerPubkey,
-            provider: providerPubkey,
-          } : undefined,
-        });
-      }
+    const intentFingerprint = record.intent_fingerprint;
+    if (!intentFingerprint) {
+      console.error(`Warning: Could not compute intent_fingerprint for ${file}`);
+      continue;
+    }
 
-      const group = groups.get(intentFingerprint)!;
-      // Use transcript_id as stable identifier (even if duplicate, count separately for contention)
-      group.transcripts.push(transcript.transcript_id);
+    // Add to group
+    if (!groups.has(intentFingerprint)) {
+      groups.set(intentFingerprint, {
+        intent_fingerprint: intentFingerprint,
+        status: "SINGLE",
+        terminal_count: 0,
+        transcripts: [],
+        parties: record.buyer || record.provider ? {
+          buyer: record.buyer,
+          provider: record.provider,
+        } : undefined,
+      });
+    }
 
-      if (terminal) {
-        group.terminal_count++;
-      }
-    } catch (error) {
-      console.error(`Error processing ${file}: ${error instanceof Error ? error.message : String(error)}`);
-      continue;
+    const group = groups.get(intentFingerprint)!;
+    // Use transcript_id as stable identifier (even if duplicate, count separately for contention)
+    group.transcripts.push(record.transcript_id);
+
+    if (record.terminal) {
+      group.terminal_count++;
     }
   }
 
+  // Files no longer in the directory drop out of the index
+  if (index && indexPath) {
+    saveIndex(indexPath, { version: CONTENTION_INDEX_VERSION, transcripts_dir: resolvedDir, files: nextFiles });
+  }
+
   // Determine status for each group
   let doubleCommits = 0;
   for (const group of groups.values()) {
@@ -263,35 +531,43 @@ async function scanContention(transcriptsDir: string): Promise<ContentionReport>
     }
   }
 
+  const evidence = detectExclusivityViolations(claims);
+
   return {
     version: "contention_report/1.0",
     scanned: {
       files: filesScanned,
       transcripts_loaded: transcriptsLoaded,
+      ...(index ? { from_index: fromIndex } : {}),
     },
     unique_intents: groups.size,
     double_commits: doubleCommits,
+    exclusivity_violations: evidence.length,
     groups: Array.from(groups.values()),
+    evidence,
+    unverified_claims: unverifiedClaims,
   };
 }
 
 (async () => {
+  let args: ParsedArgs = {};
   try {
-    const args = parseArgs();
+    args = parseArgs();
 
     if (!args.transcriptsDir) {
-      console.error("Usage: contention_scan.js --transcripts-dir <dir> [--out <file>] [--human] [--debug]");
+      console.error("Usage: contention_scan.js --transcripts-dir <dir> [--out <file>] [--index <file>] [--human] [--debug]");
       console.error("");
       console.error("Options:");
       console.error("  --transcripts-dir <dir>  Directory containing transcript JSON files (required)");
       console.error("  --out <file>             Write JSON to file instead of stdout");
+      console.error("  --index <file>           Persisted scan index; only new or changed files are processed");
       console.error("  --human                  Print human-readable summary to stderr");
       console.error("  --debug                  Show stack traces for errors");
       process.exit(1);
     }
 
     // Scan for contention
-    const report = await scanContention(args.transcriptsDir);
+    const report = await scanContention(args.transcriptsDir, args.index);
 
     // Output JSON (stdout only)
     const jsonOutput = JSON.stringify(report, null, 2);
@@ -307,6 +583,13 @@ async function scanContention(transcriptsDir: string): Promise<ContentionReport>
       console.error(`\nScanned ${report.scanned.files} files, loaded ${report.scanned.transcripts_loaded} transcripts`);
       console.error(`Found ${report.unique_intents} unique intent fingerprints`);
       console.error(`Double commits detected: ${report.double_commits}`);
+      console.error(`Exclusivity violations (PACT-330): ${report.exclusivity_violations}`);
+      if (report.unverified_claims.length > 0) {
+        console.error(`Unverified EXCLUSIVE claims (failed replay, not attributed): ${report.unverified_claims.length}`);
+      }
+      if (report.scanned.from_index !== undefined) {
+        console.error(`Reused ${report.scanned.from_index} file(s) from index`);
+      }
     }
   } catch (error) {
     if (error instanceof Error) {
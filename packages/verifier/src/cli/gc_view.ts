@@ -9,6 +9,9 @@
  *   pnpm -C packages/verifier gc-view --transcript <path> [--out <file>]
  *   pnpm -C packages/verifier gc-view --bundle <dir> [--out <file>]
  *   pnpm -C packages/verifier gc-view --bundle-id <id> [--out <file>]
+ *
+ * --strict-roles: party roles come only from actor_role / INTENT role_bindings and round type.
+ * --policy <file>: re-evaluate a pact-policy/4.0 document against the transcript (adds policy.evaluation).
  * 
  * Bundle resolution:
  *   - If --bundle is provided and exists, use it (takes precedence).
@@ -32,6 +35,8 @@ interface ParsedArgs {
   bundleId?: string;
   out?: string;
   constitutionPath?: string;
+  strictRoles?: boolean;
+  policy?: string;
 }
 
 function parseArgs(): ParsedArgs {
@@ -51,6 +56,10 @@ function parseArgs(): ParsedArgs {
       args.out = process.argv[++i];
     } else if (arg === "--constitution-path" && i + 1 < process.argv.length) {
       args.constitutionPath = process.argv[++i];
+    } else if (arg === "--strict-roles") {
+      args.strictRoles = true;
+    } else if (arg === "--policy" && i + 1 < process.argv.length) {
+      args.policy = process.argv[++i];
     } else if (arg.startsWith("--")) {
       console.error(`Unknown option: ${arg}`);
       process.exit(1);
@@ -294,6 +303,17 @@ function normalizePath(path: string): string {
   return path;
 }
 
+/**
+ * Load a policy document (JSON) for --policy.
+ */
+function loadPolicyFile(path: string): unknown {
+  const resolvedPath = isAbsolute(path) ? path : existsSync(path) ? resolve(process.cwd(), path) : resolve(repoRoot, path);
+  if (!existsSync(resolvedPath)) {
+    throw new Error(`Policy file not found: ${path}`);
+  }
+  return JSON.parse(readFileSync(resolvedPath, "utf-8"));
+}
+
 // Handle EPIPE gracefully (e.g., when piping to head/jq)
 process.stdout.on("error", (err) => {
   if (err.code === "EPIPE") {
@@ -330,6 +350,8 @@ export async function main(): Promise<void> {
       transcriptPath,
       bundlePath,
       constitutionPath: args.constitutionPath,
+      strictRoles: args.strictRoles,
+      policy: args.policy ? loadPolicyFile(args.policy) : undefined,
     });
 
     const jsonOutput = JSON.stringify(gcView, null, 2);
@@ -0,0 +1,145 @@
+#!/usr/bin/env node
+/**
+ * Insurer Portfolio CLI
+ *
+ * Verifies every auditor pack (*.zip) in a directory and aggregates the verified insurer summaries into
+ * a deterministic portfolio report: exposure by coverage decision, fault domain distribution, provider
+ * concentration and worst-tier counterparties. Packs that fail verification are listed, not counted.
+ *
+ * Usage:
+ *   pact-verifier insurer-portfolio --packs-dir <dir> [--recursive] [--top N] [--out <report.json>] [--csv <packs.csv>]
+ *
+ * Exit code: 0 when every pack verifies, 1 otherwise (the report is written either way).
+ */
+
+import { writeFileSync, existsSync } from "node:fs";
+import { resolve, isAbsolute } from "node:path";
+import { getConstitutionContent } from "../load_constitution_node.js";
+import { collectBatchFiles } from "../batch/verify_item.js";
+import {
+  buildPortfolioReport,
+  portfolioCsv,
+  readPortfolioPack,
+  type PortfolioPackEntry,
+} from "../portfolio/insurer_portfolio.js";
+
+// EPIPE handler for pipe safety
+process.stdout.on("error", (err: NodeJS.ErrnoException) => {
+  if (err.code === "EPIPE") {
+    process.exit(0);
+  }
+});
+
+interface PortfolioArgs {
+  packsDir?: string;
+  recursive?: boolean;
+  top?: number;
+  out?: string;
+  csv?: string;
+}
+
+function parseArgs(): PortfolioArgs {
+  const args: PortfolioArgs = {};
+  let i = 2;
+  while (i < process.argv.length) {
+    const arg = process.argv[i];
+    if (arg === "--packs-dir" && i + 1 < process.argv.length) {
+      args.packsDir = process.argv[++i];
+    } else if (arg === "--recursive") {
+      args.recursive = true;
+    } else if (arg === "--top" && i + 1 < process.argv.length) {
+      const top = Number(process.argv[++i]);
+      if (!Number.isInteger(top) || top < 1) {
+        throw new Error(`Invalid --top: ${process.argv[i]} (must be a positive integer)`);
+      }
+      args.top = top;
+    } else if (arg === "--out" && i + 1 < process.argv.length) {
+      args.out = process.argv[++i];
+    } else if (arg === "--csv" && i + 1 < process.argv.length) {
+      args.csv = process.argv[++i];
+    } else if (arg.startsWith("--")) {
+      throw new Error(`Unknown option: ${arg}`);
+    }
+    i++;
+  }
+  return args;
+}
+
+function printUsage(): void {
+  console.error("Usage: pact-verifier insurer-portfolio --packs-dir <dir> [--recursive] [--top N] [--out <report.json>] [--csv <packs.csv>]");
+  console.error("");
+  console.error("Options:");
+  console.error("  --packs-dir <dir>  Directory of auditor packs (*.zip) (required)");
+  console.error("  --recursive        Include subdirectories");
+  console.error("  --top N            Worst-tier counterparties to list (default: 10)");
+  console.error("  --out <file>       Write the JSON report here instead of stdout");
+  console.error("  --csv <file>       Also write one CSV row per pack (status, coverage, parties, amount, errors)");
+  console.error("");
+  console.error("Examples:");
+  console.error("  pact-verifier insurer-portfolio --packs-dir ./packs > portfolio.json");
+  console.error("  pact-verifier insurer-portfolio --packs-dir ./packs --recursive --out portfolio.json --csv portfolio.csv");
+}
+
+function resolvePath(path: string): string {
+  return isAbsolute(path) ? path : resolve(process.cwd(), path);
+}
+
+export async function main(): Promise<void> {
+  let args: PortfolioArgs;
+  try {
+    args = parseArgs();
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+    return;
+  }
+  if (!args.packsDir) {
+    printUsage();
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    const dir = resolvePath(args.packsDir);
+    if (!existsSync(dir)) {
+      throw new Error(`Directory not found: ${args.packsDir}`);
+    }
+    const packs = collectBatchFiles(dir, args.recursive).filter((f) => f.endsWith(".zip"));
+    const context = { constitutionContent: getConstitutionContent() };
+
+    const entries: PortfolioPackEntry[] = [];
+    for (const pack of packs) {
+      entries.push(await readPortfolioPack(pack, dir, context));
+    }
+    const report = buildPortfolioReport(entries, args.top);
+
+    const json = JSON.stringify(report, null, 2);
+    if (args.out) {
+      writeFileSync(resolvePath(args.out), json + "\n", "utf8");
+    } else {
+      console.log(json);
+    }
+    if (args.csv) {
+      writeFileSync(resolvePath(args.csv), portfolioCsv(entries), "utf8");
+    }
+
+    console.error(
+      `${report.failed === 0 ? "✅" : "❌"} ${report.verified}/${report.packs} pack(s) verified` +
+        (report.failed > 0 ? `; failed: ${report.failed_packs.map((p) => p.file).join(", ")}` : "") +
+        (report.duplicates > 0 ? `; duplicates counted once: ${report.duplicate_packs.map((p) => p.file).join(", ")}` : "")
+    );
+    if (report.failed > 0) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+  }
+}
+
+if (import.meta.url === `file://${process.argv[1]}` || process.argv[1]?.endsWith("insurer_portfolio.ts")) {
+  main().catch((error) => {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+  });
+}
@@ -4,24 +4,53 @@
  * 
  * Generates a deterministic underwriter-focused summary from a v4 transcript.
  * Combines GC View, DBL judgment, passport data, and contention detection.
+ *
+ * Passport tiers come from the single transcript's delta unless a history is given:
+ * --transcripts-dir recomputes the cumulative PassportState of buyer and provider from replay-verified
+ * transcripts; --passport reads it from a passport-v1-recompute registry.
+ *
+ * Tiers, risk factors, surcharges and coverage come from an underwriting rulebook (--rulebook, else the one
+ * sealed in the pack, else the default) whose hash is recorded in the output.
  * 
  * Usage:
- *   pact-verifier insurer-summary --transcript <path>
+ *   pact-verifier insurer-summary --transcript <path> [--strict-roles]
+ *   pact-verifier insurer-summary --transcript <path> --transcripts-dir <dir> [--transcripts-dir <dir>...]
+ *   pact-verifier insurer-summary --transcript <path> --passport <registry.json>
  * 
  * Output: JSON with version "insurer_summary/1.0"
  */
 
-import { readFileSync, existsSync, readdirSync, statSync } from "node:fs";
-import { resolve, isAbsolute, join, dirname, extname } from "node:path";
+import { readFileSync, existsSync } from "node:fs";
+import { resolve, isAbsolute, dirname, extname } from "node:path";
 import { fileURLToPath } from "node:url";
 import { createHash } from "node:crypto";
 import JSZip from "jszip";
 import type { TranscriptV4 } from "../util/transcript_types.js";
 import { renderGCView } from "../gc_view/renderer.js";
 import { resolveBlameV1 } from "../dbl/blame_resolver_v1.js";
-import { stableCanonicalize } from "../util/canonical.js";
-import { isAcceptedConstitutionHash } from "../util/constitution_hashes.js";
+import type { RoleResolutionOptions } from "../util/actor_roles.js";
+import { findExplicitSigner } from "../util/actor_roles.js";
+import { hashCanonicalHex } from "../util/canonical.js";
+import { isAcceptedConstitutionHash, getConstitutionEntry } from "../util/constitution_hashes.js";
 import { findConstitutionInZip } from "../verify_auditor_pack_core.js";
+import { loadTranscriptsFromMultipleDirs } from "../util/verified_transcripts.js";
+import {
+  DEFAULT_UNDERWRITING_RULEBOOK,
+  RULEBOOK_PACK_PATH,
+  computeRulebookHash,
+  detectDoubleCommit,
+  evaluateRulebook,
+  validateRulebook,
+  type CoverageDecision,
+  type UnderwritingRulebookV1,
+} from "../underwriting/rulebook.js";
+import {
+  getTranscriptSigners,
+  getTranscriptStableId,
+  recomputeFromTranscripts,
+  type JudgmentArtifact,
+  type PassportState,
+} from "../util/passport_v1.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -38,22 +67,34 @@ process.stdout.on("error", (err: NodeJS.ErrnoException) => {
 // Types
 // ============================================================================
 
-type Tier = "A" | "B" | "C";
-type CoverageDecision = "COVERED" | "COVERED_WITH_SURCHARGE" | "ESCROW_REQUIRED" | "EXCLUDED";
+/** Tier name declared by the underwriting rulebook (default: A | B | C). */
+type Tier = string;
 
 interface SignerInfo {
   signer: string;
   passport_score: number;
   tier: Tier;
+  /** Transcripts the cumulative score is based on (history mode only; 0 = no history). */
+  sample_size?: number;
+  counters?: PassportState["counters"];
 }
 
+type PassportSource = "transcripts_dir" | "registry";
+
 interface InsurerSummary {
   version: "insurer_summary/1.0";
   constitution_hash: string;
+  /** Constitution version the summary was derived under (registry version of constitution_hash). */
+  constitution_version: string;
   integrity: string;
   outcome: string;
   fault_domain: string;
   confidence: number;
+  /** Underwriting rulebook the decision was made under (sha256 of the canonical rulebook). */
+  rulebook_id: string;
+  rulebook_hash: string;
+  /** Where cumulative passport states came from; absent in single-transcript mode. */
+  passport_source?: PassportSource;
   buyer?: SignerInfo;
   provider?: SignerInfo;
   risk_factors: string[];
@@ -65,16 +106,6 @@ interface InsurerSummary {
   audit_sla?: string;
 }
 
-// ============================================================================
-// Tier Logic (deterministic)
-// ============================================================================
-
-function tierFromPassport(score: number): Tier {
-  if (score >= 0.20) return "A";
-  if (score >= -0.10) return "B";
-  return "C";
-}
-
 // ============================================================================
 // Signer Extraction
 // ============================================================================
@@ -84,14 +115,24 @@ interface ExtractedSigners {
   provider?: { signer: string; role: string };
 }
 
-function extractSigners(transcript: TranscriptV4): ExtractedSigners {
+function extractSigners(transcript: TranscriptV4, roleOptions: RoleResolutionOptions = {}): ExtractedSigners {
   const result: ExtractedSigners = {};
+
+  // Explicit roles (actor_role / INTENT role_bindings) take precedence over agent_id and round type
+  const explicitBuyer = findExplicitSigner(transcript.rounds, "BUYER");
+  const explicitProvider = findExplicitSigner(transcript.rounds, "PROVIDER");
+  if (explicitBuyer) {
+    result.buyer = { signer: explicitBuyer, role: "buyer" };
+  }
+  if (explicitProvider) {
+    result.provider = { signer: explicitProvider, role: "provider" };
+  }
   
   for (const round of transcript.rounds) {
     const signerKey = round.signature?.signer_public_key_b58 || round.public_key_b58;
     if (!signerKey) continue;
     
-    const role = round.agent_id?.toLowerCase() || "";
+    const role = roleOptions.strictRoles ? "" : round.agent_id?.toLowerCase() || "";
     
     if ((role === "buyer" || round.round_type === "INTENT") && !result.buyer) {
       result.buyer = { signer: signerKey, role: "buyer" };
@@ -150,169 +191,168 @@ function computePassportDelta(
 }
 
 // ============================================================================
-// Contention Detection (single transcript)
+// Cumulative Passport (history mode)
 // ============================================================================
 
+interface CumulativePassport {
+  state: PassportState;
+  sample_size: number;
+}
+
+type PassportLookup = (signer: string) => CumulativePassport;
+
+function emptyPassportState(signer: string): PassportState {
+  return {
+    version: "passport/1.0",
+    agent_id: signer,
+    score: 0,
+    counters: {
+      total_settlements: 0,
+      successful_settlements: 0,
+      disputes_lost: 0,
+      disputes_won: 0,
+      sla_violations: 0,
+      policy_aborts: 0,
+    },
+  };
+}
+
 /**
- * Check if transcript indicates a DOUBLE_COMMIT scenario.
- * 
- * For single transcript context, we check:
- * - failure_event.code === "PACT-331"
- * - Or if contention is indicated in evidence_refs
+ * Recompute cumulative states from transcript directories, the same way passport-v1-recompute does:
+ * only replay-VALID transcripts are scored, each with its DBL judgment.
  */
-function detectDoubleCommit(transcript: TranscriptV4): boolean {
-  if (transcript.failure_event?.code === "PACT-331") {
-    return true;
+async function passportsFromTranscripts(dirs: string[], roleOptions: RoleResolutionOptions): Promise<PassportLookup> {
+  const loaded = await loadTranscriptsFromMultipleDirs(dirs, false);
+  for (const msg of loaded.duplicateWarnings) {
+    console.error(`Warning: ${msg}`);
   }
-  
-  // Check evidence refs for contention indicators
-  const evidenceRefs = transcript.failure_event?.evidence_refs || [];
-  for (const ref of evidenceRefs) {
-    if (typeof ref === "string" && ref.toLowerCase().includes("double")) {
-      return true;
-    }
+  if (loaded.excluded.length > 0) {
+    console.error(`Warning: ${loaded.excluded.length} transcript(s) excluded from passport history (failed verification)`);
   }
-  
-  return false;
-}
-
-// ============================================================================
-// Integrity Status
-// ============================================================================
 
-function determineIntegrityStatus(gcView: Awaited<ReturnType<typeof renderGCView>>): string {
-  const integrity = gcView.integrity;
-  
-  if (integrity.hash_chain !== "VALID") {
-    return "INVALID";
-  }
-  
-  if (integrity.signatures_verified.verified !== integrity.signatures_verified.total) {
-    return "INVALID";
+  const history = loaded.transcripts.map((t) => t.transcript);
+  const judgments = new Map<TranscriptV4, JudgmentArtifact | null>();
+  for (const transcript of history) {
+    try {
+      // Passport scoring only reads status / dblDetermination / passportImpact / confidence of the DBL artifact
+      const judgment = await resolveBlameV1(transcript, roleOptions);
+      judgments.set(transcript, {
+        version: judgment.version,
+        transcript_id: transcript.transcript_id,
+        status: judgment.status,
+        dblDetermination: judgment.dblDetermination,
+        passportImpact: judgment.passportImpact,
+        confidence: judgment.confidence,
+        ...(judgment.notes !== undefined ? { notes: judgment.notes } : {}),
+      });
+    } catch {
+      judgments.set(transcript, null);
+    }
   }
-  
-  return "VALID";
+
+  return (signer) => {
+    const involved = history.filter((t) => getTranscriptSigners(t).includes(signer));
+    if (involved.length === 0) {
+      return { state: emptyPassportState(signer), sample_size: 0 };
+    }
+    return {
+      state: recomputeFromTranscripts(involved, { forSigner: signer, judgments }),
+      sample_size: new Set(involved.map(getTranscriptStableId)).size,
+    };
+  };
 }
 
-// ============================================================================
-// Risk Factors & Surcharges
-// ============================================================================
+interface RegistryState {
+  agent_id: string;
+  score: number;
+  counters: PassportState["counters"];
+  included_transcripts: string[];
+  state_hash: string;
+}
 
-function computeRiskFactors(
-  outcome: string,
-  faultDomain: string,
-  hasDoubleCommit: boolean,
-  integrityValid: boolean
-): string[] {
-  const factors: string[] = [];
-  
-  if (!integrityValid) {
-    factors.push("INTEGRITY_FAILURE");
-  }
-  
-  if (hasDoubleCommit) {
-    factors.push("DOUBLE_COMMIT");
-  }
-  
-  if (outcome === "FAILED_PROVIDER_UNREACHABLE") {
-    factors.push("PROVIDER_UNREACHABLE");
-  }
-  
-  if (outcome === "FAILED_PROVIDER_API_MISMATCH") {
-    factors.push("PROVIDER_API_MISMATCH");
-  }
-  
-  if (outcome === "FAILED_TIMEOUT") {
-    factors.push("SLA_TIMEOUT");
-  }
-  
-  if (faultDomain === "PROVIDER_AT_FAULT") {
-    factors.push("PROVIDER_FAULT");
-  }
-  
-  if (faultDomain === "BUYER_AT_FAULT") {
-    factors.push("BUYER_FAULT");
-  }
-  
-  if (faultDomain === "INDETERMINATE_TAMPER") {
-    factors.push("INDETERMINATE_TAMPER");
-  }
-  
-  return factors;
+/**
+ * Shape errors of a registry entry (empty when it has every field passportsFromRegistry reads).
+ */
+function validateRegistryEntry(entry: unknown): string[] {
+  if (typeof entry !== "object" || entry === null || Array.isArray(entry)) {
+    return ["entry must be an object"];
+  }
+  const e = entry as Record<string, unknown>;
+  const errors: string[] = [];
+  if (typeof e.agent_id !== "string") errors.push("agent_id must be a string");
+  if (typeof e.score !== "number") errors.push("score must be a number");
+  if (typeof e.counters !== "object" || e.counters === null || Array.isArray(e.counters)) {
+    errors.push("counters must be an object");
+  }
+  if (!Array.isArray(e.included_transcripts) || !e.included_transcripts.every((id) => typeof id === "string")) {
+    errors.push("included_transcripts must be an array of transcript ids");
+  }
+  if (typeof e.state_hash !== "string") errors.push("state_hash must be a string");
+  return errors;
 }
 
-function computeSurcharges(
-  riskFactors: string[],
-  confidence: number,
-  buyerTier?: Tier,
-  providerTier?: Tier,
-  hasNonStandardConstitution?: boolean
-): string[] {
-  const surcharges: string[] = [];
-  
-  if (riskFactors.includes("PROVIDER_UNREACHABLE")) {
-    surcharges.push("PROVIDER_OPS");
-  }
-  
-  if (riskFactors.includes("PROVIDER_API_MISMATCH")) {
-    surcharges.push("INTEGRATION");
-  }
-  
-  if (riskFactors.includes("SLA_TIMEOUT")) {
-    surcharges.push("SLA");
-  }
-  
-  if (riskFactors.includes("INDETERMINATE_TAMPER")) {
-    surcharges.push("TAMPER_SCRUTINY");
-  }
-  
-  if (hasNonStandardConstitution) {
-    surcharges.push("NON_STANDARD_CONSTITUTION");
+/**
+ * Read cumulative states from a passport-v1-recompute registry. Each used state must be well-formed
+ * and match its state_hash.
+ */
+function passportsFromRegistry(registryPath: string): PassportLookup {
+  const filePath = isAbsolute(registryPath) ? registryPath : resolve(process.cwd(), registryPath);
+  if (!existsSync(filePath)) {
+    console.error(`Error: Registry file not found: ${filePath}`);
+    process.exit(1);
   }
-  
-  if (confidence < 0.7) {
-    surcharges.push("LOW_CONFIDENCE_50PCT");
-  } else if (confidence < 0.9) {
-    surcharges.push("REDUCED_CONFIDENCE_25PCT");
+
+  let registry: { version?: string; states?: Record<string, unknown> };
+  try {
+    registry = JSON.parse(readFileSync(filePath, "utf-8"));
+  } catch (error) {
+    console.error(`Error: Failed to load registry: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
   }
-  
-  if (buyerTier === "B" || providerTier === "B") {
-    surcharges.push("TIER_B_PARTY");
+  if (registry.version !== "passport/1.0" || typeof registry.states !== "object" || registry.states === null) {
+    console.error(`Error: Invalid registry version: ${registry.version}`);
+    process.exit(1);
   }
-  
-  return surcharges;
+  const states = registry.states;
+
+  return (signer) => {
+    const entry = Object.prototype.hasOwnProperty.call(states, signer) ? states[signer] : undefined;
+    if (!entry) {
+      return { state: emptyPassportState(signer), sample_size: 0 };
+    }
+    const entryErrors = validateRegistryEntry(entry);
+    if (entryErrors.length > 0) {
+      console.error(`Error: Invalid registry entry for signer ${signer}: ${entryErrors.join("; ")}`);
+      process.exit(1);
+    }
+    const { agent_id, score, counters, included_transcripts, state_hash } = entry as RegistryState;
+    if (hashCanonicalHex({ agent_id, score, counters }) !== state_hash) {
+      console.error(`Error: Registry state_hash mismatch for signer ${signer}`);
+      process.exit(1);
+    }
+    return {
+      state: { version: "passport/1.0", agent_id, score, counters },
+      sample_size: included_transcripts.length,
+    };
+  };
 }
 
 // ============================================================================
-// Coverage Decision
+// Integrity Status
 // ============================================================================
 
-function determineCoverage(
-  riskFactors: string[],
-  surcharges: string[],
-  buyerTier?: Tier,
-  providerTier?: Tier
-): CoverageDecision {
-  // Exclusions (hard stops)
-  if (riskFactors.includes("INTEGRITY_FAILURE")) {
-    return "EXCLUDED";
-  }
-  
-  if (riskFactors.includes("DOUBLE_COMMIT")) {
-    return "EXCLUDED";
-  }
+function determineIntegrityStatus(gcView: Awaited<ReturnType<typeof renderGCView>>): "VALID" | "INVALID" {
+  const integrity = gcView.integrity;
   
-  // Tier C requires escrow or exclusion
-  if (buyerTier === "C" || providerTier === "C") {
-    return "ESCROW_REQUIRED";
+  if (integrity.hash_chain !== "VALID") {
+    return "INVALID";
   }
   
-  // Surcharges present
-  if (surcharges.length > 0) {
-    return "COVERED_WITH_SURCHARGE";
+  if (integrity.signatures_verified.verified !== integrity.signatures_verified.total) {
+    return "INVALID";
   }
   
-  return "COVERED";
+  return "VALID";
 }
 
 // ============================================================================
@@ -323,10 +363,14 @@ interface ParsedArgs {
   transcript?: string;
   pack?: string;
   allowNonstandard?: boolean;
+  strictRoles?: boolean;
+  transcriptsDirs: string[];
+  passport?: string;
+  rulebook?: string;
 }
 
 function parseArgs(): ParsedArgs {
-  const args: ParsedArgs = {};
+  const args: ParsedArgs = { transcriptsDirs: [] };
   let i = 2;
 
   while (i < process.argv.length) {
@@ -336,8 +380,16 @@ function parseArgs(): ParsedArgs {
       args.transcript = process.argv[++i];
     } else if ((arg === "--pack" || arg === "--zip") && i + 1 < process.argv.length) {
       args.pack = process.argv[++i];
+    } else if (arg === "--transcripts-dir" && i + 1 < process.argv.length) {
+      args.transcriptsDirs.push(process.argv[++i]);
+    } else if (arg === "--passport" && i + 1 < process.argv.length) {
+      args.passport = process.argv[++i];
+    } else if (arg === "--rulebook" && i + 1 < process.argv.length) {
+      args.rulebook = process.argv[++i];
     } else if (arg === "--allow-nonstandard") {
       args.allowNonstandard = true;
+    } else if (arg === "--strict-roles") {
+      args.strictRoles = true;
     } else if (arg === "-h" || arg === "--help") {
       printUsage();
       process.exit(0);
@@ -355,12 +407,18 @@ function printUsage(): void {
   console.error("  pact-verifier insurer-summary --transcript <path> [--allow-nonstandard]");
   console.error("  pact-verifier insurer-summary --pack <path.zip> [--allow-nonstandard]");
   console.error("  pact-verifier insurer-summary --zip <path.zip> [--allow-nonstandard]");
+  console.error("  pact-verifier insurer-summary --transcript <path> --transcripts-dir <dir> [--transcripts-dir <dir>...]");
+  console.error("  pact-verifier insurer-summary --transcript <path> --passport <registry.json>");
   console.error("");
   console.error("Options:");
   console.error("  --transcript <path>        Path to transcript JSON file");
   console.error("  --pack <path>              Path to auditor pack ZIP file");
   console.error("  --zip <path>               Path to auditor pack ZIP file (alias for --pack)");
   console.error("  --allow-nonstandard        Allow non-standard constitution hashes (not recommended)");
+  console.error("  --strict-roles             Resolve party roles only from actor_role / INTENT role_bindings (no agent_id guessing)");
+  console.error("  --transcripts-dir <dir>    Tier parties on cumulative passports recomputed from this history (repeatable)");
+  console.error("  --passport <path>          Tier parties on cumulative passports from a passport-v1-recompute registry");
+  console.error("  --rulebook <path>          Underwriting rulebook JSON (default: rulebook sealed in the pack, else pact-default/2.0)");
   console.error("");
   console.error("Output: JSON with version insurer_summary/1.0");
 }
@@ -380,6 +438,31 @@ function sha256(content: string | Buffer): string {
   return hash.digest("hex");
 }
 
+function parseRulebook(content: string, source: string): UnderwritingRulebookV1 {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(content);
+  } catch (error) {
+    console.error(`Error: Failed to parse rulebook ${source}: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+  const errors = validateRulebook(doc);
+  if (errors.length > 0) {
+    console.error(`Error: Invalid underwriting rulebook ${source}: ${errors.join("; ")}`);
+    process.exit(1);
+  }
+  return doc as UnderwritingRulebookV1;
+}
+
+function loadRulebook(rulebookPath: string): UnderwritingRulebookV1 {
+  const resolved = isAbsolute(rulebookPath) ? rulebookPath : resolve(process.cwd(), rulebookPath);
+  if (!existsSync(resolved)) {
+    console.error(`Error: Rulebook file not found: ${resolved}`);
+    process.exit(1);
+  }
+  return parseRulebook(readFileSync(resolved, "utf-8"), rulebookPath);
+}
+
 /**
  * Extract and compute constitution hash from auditor pack
  */
@@ -420,7 +503,9 @@ async function computeConstitutionHashFromPack(packPath: string): Promise<string
 /**
  * Load transcript from either a JSON file or an auditor pack ZIP
  */
-async function loadTranscriptOrPack(inputPath: string): Promise<{ transcript: TranscriptV4; constitutionHash?: string }> {
+async function loadTranscriptOrPack(
+  inputPath: string
+): Promise<{ transcript: TranscriptV4; constitutionHash?: string; rulebook?: UnderwritingRulebookV1 }> {
   const resolved = isAbsolute(inputPath) ? inputPath : resolve(process.cwd(), inputPath);
   
   if (!existsSync(resolved)) {
@@ -445,8 +530,12 @@ async function loadTranscriptOrPack(inputPath: string): Promise<{ transcript: Tr
       
       // Compute constitution hash from pack
       const constitutionHash = await computeConstitutionHashFromPack(resolved);
+
+      // Rulebook the pack's insurer summary was derived under (optional)
+      const rulebookFile = zip.file(RULEBOOK_PACK_PATH);
+      const rulebook = rulebookFile ? parseRulebook(await rulebookFile.async("string"), RULEBOOK_PACK_PATH) : undefined;
       
-      return { transcript, constitutionHash: constitutionHash || undefined };
+      return { transcript, constitutionHash: constitutionHash || undefined, rulebook };
     } catch (error: unknown) {
       const message = error instanceof Error ? error.message : String(error);
       console.error(`Error reading auditor pack: ${message}`);
@@ -474,52 +563,54 @@ export async function main(): Promise<void> {
     printUsage();
     process.exit(1);
   }
+  if (args.passport && args.transcriptsDirs.length > 0) {
+    console.error("Error: use either --transcripts-dir or --passport, not both");
+    process.exit(1);
+  }
 
   // Load transcript (and constitution hash if from pack)
-  const { transcript, constitutionHash: packConstitutionHash } = await loadTranscriptOrPack(inputPath);
+  const { transcript, constitutionHash: packConstitutionHash, rulebook: packRulebook } = await loadTranscriptOrPack(inputPath);
+  const rulebook = args.rulebook ? loadRulebook(args.rulebook) : packRulebook ?? DEFAULT_UNDERWRITING_RULEBOOK;
+  const rulebookHash = await computeRulebookHash(rulebook, async (data) => sha256(data));
   
   // Run GC View
-  const gcView = await renderGCView(transcript);
+  const roleOptions: RoleResolutionOptions = { strictRoles: args.strictRoles };
+  const gcView = await renderGCView(transcript, roleOptions);
   
   // Run DBL judgment
-  const judgment = await resolveBlameV1(transcript);
+  const judgment = await resolveBlameV1(transcript, roleOptions);
   
   // Extract signers
-  const signers = extractSigners(transcript);
+  const signers = extractSigners(transcript, roleOptions);
   
   // Determine integrity
   const integrityStatus = determineIntegrityStatus(gcView);
-  const integrityValid = integrityStatus === "VALID";
   
   // Get outcome and fault domain
   const outcome = gcView.executive_summary.status;
   const faultDomain = judgment.dblDetermination;
   let confidence = judgment.confidence;
   
-  // Detect DOUBLE_COMMIT
-  const hasDoubleCommit = detectDoubleCommit(transcript);
-  
-  // Compute passport scores and tiers (single transcript context)
-  let buyerInfo: SignerInfo | undefined;
-  let providerInfo: SignerInfo | undefined;
-  
-  if (signers.buyer) {
-    const score = computePassportDelta(faultDomain, outcome, false);
-    buyerInfo = {
-      signer: truncateHash(signers.buyer.signer, 12),
-      passport_score: score,
-      tier: tierFromPassport(score),
-    };
-  }
-  
-  if (signers.provider) {
-    const score = computePassportDelta(faultDomain, outcome, true);
-    providerInfo = {
-      signer: truncateHash(signers.provider.signer, 12),
-      passport_score: score,
-      tier: tierFromPassport(score),
-    };
+  // Compute passport scores (cumulative history when given, else single transcript context)
+  let passportSource: PassportSource | undefined;
+  let lookupPassport: PassportLookup | undefined;
+  if (args.transcriptsDirs.length > 0) {
+    passportSource = "transcripts_dir";
+    lookupPassport = await passportsFromTranscripts(args.transcriptsDirs, roleOptions);
+  } else if (args.passport) {
+    passportSource = "registry";
+    lookupPassport = passportsFromRegistry(args.passport);
   }
+
+  const partyPassport = (signer: string, isProvider: boolean): CumulativePassport | { score: number } => {
+    if (!lookupPassport) {
+      return { score: computePassportDelta(faultDomain, outcome, isProvider) };
+    }
+    return lookupPassport(signer);
+  };
+  const buyerPassport = signers.buyer ? partyPassport(signers.buyer.signer, false) : undefined;
+  const providerPassport = signers.provider ? partyPassport(signers.provider.signer, true) : undefined;
+  const scoreOf = (p: CumulativePassport | { score: number }) => ("state" in p ? p.state.score : p.score);
   
   // Check constitution hash
   // If we have a pack hash (from --zip/--pack), use it; otherwise use the hash from GC View
@@ -528,14 +619,6 @@ export async function main(): Promise<void> {
   const isStandardConstitution = packConstitutionHash ? isAcceptedConstitutionHash(packConstitutionHash) : null;
   const canVerifyConstitution = packConstitutionHash !== undefined;
   
-  // Compute risk factors and surcharges
-  const riskFactors = computeRiskFactors(outcome, faultDomain, hasDoubleCommit, integrityValid);
-
-  // Informational audit tier (only when present in transcript; does not affect verification)
-  const auditTier = transcript.metadata?.audit_tier as "T1" | "T2" | "T3" | undefined;
-  if (auditTier === "T2") riskFactors.push("TIER_T2");
-  if (auditTier === "T3") riskFactors.push("TIER_T3");
-  
   // Handle constitution verification
   let constitutionWarning: string | undefined;
   const hasNonStandardConstitution = isStandardConstitution === false;
@@ -545,23 +628,47 @@ export async function main(): Promise<void> {
     constitutionWarning = "UNVERIFIABLE (transcript-only mode)";
   } else if (hasNonStandardConstitution) {
     // Pack mode: constitution hash is non-standard
-    riskFactors.push("NON_STANDARD_RULES");
     constitutionWarning = "Verifier detected non-standard constitution rules";
   }
-  
-  const surcharges = computeSurcharges(riskFactors, confidence, buyerInfo?.tier, providerInfo?.tier, hasNonStandardConstitution);
+
+  // Tiers, risk factors, surcharges and coverage from the underwriting rulebook
+  // (audit tier is informational: only present when set in the transcript; does not affect verification)
+  const auditTier = transcript.metadata?.audit_tier as "T1" | "T2" | "T3" | undefined;
+  const decision = evaluateRulebook(rulebook, {
+    integrity: integrityStatus,
+    outcome,
+    fault_domain: faultDomain,
+    failure_code: transcript.failure_event?.code ?? null,
+    intent_type: transcript.intent_type ?? null,
+    confidence,
+    audit_tier: auditTier ?? null,
+    double_commit: detectDoubleCommit(transcript),
+    nonstandard_constitution: hasNonStandardConstitution,
+    buyer_score: buyerPassport ? scoreOf(buyerPassport) : null,
+    provider_score: providerPassport ? scoreOf(providerPassport) : null,
+  });
+
+  const signerInfo = (signer: string, passport: CumulativePassport | { score: number }, tier: Tier): SignerInfo =>
+    "state" in passport
+      ? {
+          signer: truncateHash(signer, 12),
+          passport_score: passport.state.score,
+          tier,
+          sample_size: passport.sample_size,
+          counters: passport.state.counters,
+        }
+      : { signer: truncateHash(signer, 12), passport_score: passport.score, tier };
+  const buyerInfo = signers.buyer && buyerPassport ? signerInfo(signers.buyer.signer, buyerPassport, decision.buyer_tier!) : undefined;
+  const providerInfo =
+    signers.provider && providerPassport ? signerInfo(signers.provider.signer, providerPassport, decision.provider_tier!) : undefined;
+  const riskFactors = decision.risk_factors;
+  const surcharges = decision.surcharges;
+  let coverage: CoverageDecision = decision.coverage;
   
   // CRITICAL: Non-standard constitution hash forces EXCLUDED coverage unless --allow-nonstandard
   // Also set confidence to 0 if non-standard (unless flag is set)
   if (hasNonStandardConstitution && !args.allowNonstandard) {
     confidence = 0;
-  }
-  
-  // Determine coverage
-  let coverage = determineCoverage(riskFactors, surcharges, buyerInfo?.tier, providerInfo?.tier);
-  
-  // CRITICAL: Non-standard constitution hash forces EXCLUDED coverage unless --allow-nonstandard
-  if (hasNonStandardConstitution && !args.allowNonstandard) {
     coverage = "EXCLUDED";
   }
   
@@ -569,10 +676,13 @@ export async function main(): Promise<void> {
   const output: InsurerSummary = {
     version: "insurer_summary/1.0",
     constitution_hash: truncateHash(constitutionHash),
+    constitution_version: getConstitutionEntry(constitutionHash)?.version ?? gcView.constitution.version,
     integrity: integrityStatus,
     outcome,
     fault_domain: faultDomain,
     confidence,
+    rulebook_id: rulebook.rulebook_id,
+    rulebook_hash: rulebookHash,
     risk_factors: riskFactors,
     surcharges,
     coverage,
@@ -585,6 +695,10 @@ export async function main(): Promise<void> {
     output.constitution_warning = constitutionWarning;
   }
   
+  if (passportSource) {
+    output.passport_source = passportSource;
+  }
+
   if (buyerInfo) {
     output.buyer = buyerInfo;
   }
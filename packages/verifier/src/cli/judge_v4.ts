@@ -7,9 +7,16 @@
  * Usage:
  *   node dist/cli/judge_v4.js --transcript <path> [--out <file>]
  *   node dist/cli/judge_v4.js <path> [--out <file>]
+ *
+ * --strict-roles: resolve BUYER/PROVIDER only from round actor_role or INTENT role_bindings
+ * (no agent_id name inference); unresolvable roles yield INDETERMINATE.
+ *
+ * --policy <file>: re-evaluate a pact-policy/4.0 document against the transcript and add
+ * policyEvaluation (hash check, rule-by-rule results, PACT-101 confirmation) to the output.
  */
 
 import { resolveBlameV1 } from "../dbl/blame_resolver_v1.js";
+import { evaluatePolicyForTranscript } from "../policy/evaluator.js";
 import { readFileSync, existsSync, writeFileSync } from "node:fs";
 import { resolve, isAbsolute } from "node:path";
 import { fileURLToPath } from "node:url";
@@ -32,6 +39,8 @@ interface ParsedArgs {
   out?: string;
   json?: boolean;
   human?: boolean;
+  strictRoles?: boolean;
+  policy?: string;
 }
 
 function parseArgs(): ParsedArgs {
@@ -52,6 +61,10 @@ function parseArgs(): ParsedArgs {
       args.json = true;
     } else if (arg === "--human") {
       args.human = true;
+    } else if (arg === "--strict-roles") {
+      args.strictRoles = true;
+    } else if (arg === "--policy" && i + 1 < process.argv.length) {
+      args.policy = process.argv[++i];
     } else if (arg.startsWith("--")) {
       console.error(`Unknown option: ${arg}`);
       process.exit(1);
@@ -71,9 +84,9 @@ function parseArgs(): ParsedArgs {
 }
 
 /**
- * Load transcript from file.
+ * Load a JSON file (transcript or policy), resolving relative paths against cwd then repo root.
  */
-function loadTranscript(path: string): any {
+function loadJsonFile(path: string, label = "Transcript"): any {
   let resolvedPath: string;
   if (isAbsolute(path)) {
     resolvedPath = path;
@@ -83,7 +96,7 @@ function loadTranscript(path: string): any {
     resolvedPath = resolve(repoRoot, path);
     if (!existsSync(resolvedPath)) {
       throw new Error(
-        `Transcript file not found: ${path}\n  Tried: ${resolve(process.cwd(), path)}\n  Tried: ${resolvedPath}`
+        `${label} file not found: ${path}\n  Tried: ${resolve(process.cwd(), path)}\n  Tried: ${resolvedPath}`
       );
     }
   }
@@ -202,18 +215,26 @@ function normalizeDblV2Fields(artifact: any, transcript: any): any {
       console.error("  --out <file>         Write JSON to file instead of stdout");
       console.error("  --human              Print human-readable summary to stderr");
       console.error("  --json               Output JSON (default: true)");
+      console.error("  --strict-roles       Resolve roles only from actor_role / INTENT role_bindings");
+      console.error("  --policy <file>      Re-evaluate a pact-policy/4.0 document against the transcript");
       process.exit(1);
     }
 
     // Load transcript
-    const transcript = loadTranscript(args.transcript);
+    const transcript = loadJsonFile(args.transcript);
 
     // Resolve blame (async)
-    const judgment = await resolveBlameV1(transcript);
+    const judgment = await resolveBlameV1(transcript, { strictRoles: args.strictRoles });
 
     // Normalize dbl/2.0 fields to ensure they are never null (enforce at FINAL output assembly point)
     const normalizedJudgment = normalizeDblV2Fields(judgment, transcript);
 
+    // Optional policy re-evaluation (additive field; absent without --policy)
+    if (args.policy) {
+      const policy = loadJsonFile(args.policy, "Policy");
+      normalizedJudgment.policyEvaluation = await evaluatePolicyForTranscript(transcript, policy);
+    }
+
     // Output JSON (stdout only) - default behavior
     if (args.json !== false) {
       const jsonOutput = JSON.stringify(normalizedJudgment, null, 2);
@@ -237,6 +258,9 @@ function normalizeDblV2Fields(artifact: any, transcript: any): any {
         `Passport: ${normalizedJudgment.passportImpact >= 0 ? '+' : ''}${normalizedJudgment.passportImpact}`,
         `Confidence: ${(normalizedJudgment.confidence * 100).toFixed(0)}%`,
         normalizedJudgment.recommendation ? `→ ${normalizedJudgment.recommendation}` : null,
+        normalizedJudgment.policyEvaluation
+          ? `Policy: ${normalizedJudgment.policyEvaluation.status}${normalizedJudgment.policyEvaluation.policy_hash_match ? "" : " (hash mismatch)"}`
+          : null,
       ]
         .filter(Boolean)
         .join(" | ");
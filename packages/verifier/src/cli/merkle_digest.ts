@@ -0,0 +1,157 @@
+#!/usr/bin/env node
+/**
+ * Merkle Digest CLI
+ *
+ * Builds a deterministic pact-merkle-digest/1 root over a directory of v4 transcripts
+ * (leaves = computeTranscriptHash, sorted) and emits per-transcript inclusion proofs.
+ *
+ * Usage:
+ *   pact-verifier merkle-digest --transcripts-dir <dir> [--date YYYY-MM-DD] [--out <digest.json>] [--proofs-dir <dir>]
+ *
+ * Exit code: 0 when the digest was written, 1 otherwise.
+ */
+
+import { readFileSync, writeFileSync, existsSync, readdirSync, statSync, mkdirSync } from "node:fs";
+import { resolve, isAbsolute, join, basename } from "node:path";
+import type { TranscriptV4 } from "../util/transcript_types.js";
+import { computeTranscriptHash } from "../util/replay.js";
+import { loadConstitution } from "../load_constitution_node.js";
+import { buildMerkleDigest, inclusionProofFor } from "../merkle/digest.js";
+
+// EPIPE handler for pipe safety
+process.stdout.on("error", (err: NodeJS.ErrnoException) => {
+  if (err.code === "EPIPE") {
+    process.exit(0);
+  }
+});
+
+interface MerkleDigestArgs {
+  transcriptsDir?: string;
+  date?: string;
+  out?: string;
+  proofsDir?: string;
+}
+
+function parseArgs(): MerkleDigestArgs {
+  const args: MerkleDigestArgs = {};
+  let i = 2;
+  while (i < process.argv.length) {
+    const arg = process.argv[i];
+    if (arg === "--transcripts-dir" && i + 1 < process.argv.length) {
+      args.transcriptsDir = process.argv[++i];
+    } else if (arg === "--date" && i + 1 < process.argv.length) {
+      args.date = process.argv[++i];
+    } else if (arg === "--out" && i + 1 < process.argv.length) {
+      args.out = process.argv[++i];
+    } else if (arg === "--proofs-dir" && i + 1 < process.argv.length) {
+      args.proofsDir = process.argv[++i];
+    }
+    i++;
+  }
+  return args;
+}
+
+function printUsage(): void {
+  console.error("Usage: pact-verifier merkle-digest --transcripts-dir <dir> [--date YYYY-MM-DD] [--out <digest.json>] [--proofs-dir <dir>]");
+  console.error("");
+  console.error("Options:");
+  console.error("  --transcripts-dir <dir>  Directory of v4 transcript JSON files (required)");
+  console.error("  --date <YYYY-MM-DD>      Digest date (UTC); default: date of the latest transcript created_at_ms");
+  console.error("  --out <file>             Write the digest here instead of stdout");
+  console.error("  --proofs-dir <dir>       Also write <file>.merkle_proof.json per transcript file (for auditor-pack --merkle-proof)");
+  console.error("");
+  console.error("Examples:");
+  console.error("  pact-verifier merkle-digest --transcripts-dir ./transcripts --out digest.json");
+  console.error("  pact-verifier merkle-digest --transcripts-dir ./transcripts --date 2026-01-31 --proofs-dir ./proofs");
+}
+
+function loadTranscriptsFromDir(dir: string): { transcripts: Array<{ file: string; transcript: TranscriptV4 }>; skipped: number } {
+  const transcripts: Array<{ file: string; transcript: TranscriptV4 }> = [];
+  let skipped = 0;
+  for (const file of readdirSync(dir).sort()) {
+    if (!file.endsWith(".json")) continue;
+    const filePath = join(dir, file);
+    try {
+      if (!statSync(filePath).isFile()) continue;
+      const parsed = JSON.parse(readFileSync(filePath, "utf8"));
+      if (parsed.transcript_version === "pact-transcript/4.0") {
+        transcripts.push({ file, transcript: parsed });
+      } else {
+        skipped++;
+      }
+    } catch {
+      skipped++;
+    }
+  }
+  return { transcripts, skipped };
+}
+
+function defaultDate(transcripts: TranscriptV4[]): string {
+  const latest = Math.max(...transcripts.map((t) => (typeof t.created_at_ms === "number" ? t.created_at_ms : 0)));
+  return new Date(latest).toISOString().slice(0, 10);
+}
+
+export async function main(): Promise<void> {
+  const args = parseArgs();
+  if (!args.transcriptsDir) {
+    printUsage();
+    process.exitCode = 1;
+    return;
+  }
+  if (args.date !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(args.date)) {
+    console.error(`Error: --date must be YYYY-MM-DD, got "${args.date}"`);
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    const dir = isAbsolute(args.transcriptsDir) ? args.transcriptsDir : resolve(process.cwd(), args.transcriptsDir);
+    if (!existsSync(dir)) {
+      throw new Error(`Transcripts directory not found: ${args.transcriptsDir}`);
+    }
+    const { transcripts: loaded, skipped } = loadTranscriptsFromDir(dir);
+    const transcripts = loaded.map((l) => l.transcript);
+    if (transcripts.length === 0) {
+      throw new Error(`No v4 transcripts found in ${args.transcriptsDir}`);
+    }
+
+    const digest = await buildMerkleDigest(transcripts, {
+      dateUtc: args.date ?? defaultDate(transcripts),
+      constitutionHash: loadConstitution().hash,
+    });
+
+    const json = JSON.stringify(digest, null, 2);
+    if (args.out) {
+      writeFileSync(args.out, json + "\n", "utf8");
+    } else {
+      console.log(json);
+    }
+
+    if (args.proofsDir) {
+      mkdirSync(args.proofsDir, { recursive: true });
+      // Named after the source file: transcript_id alone need not be unique across a batch
+      for (const { file, transcript } of loaded) {
+        const proof = inclusionProofFor(digest, await computeTranscriptHash(transcript))!;
+        const name = `${basename(file, ".json")}.merkle_proof.json`;
+        writeFileSync(join(args.proofsDir, name), JSON.stringify(proof, null, 2) + "\n", "utf8");
+      }
+    }
+
+    const duplicates = transcripts.length - digest.tree_size;
+    console.error(
+      `Merkle root ${digest.root} over ${digest.tree_size} transcript(s) for ${digest.date_utc}` +
+        (duplicates > 0 ? `, ${duplicates} duplicate(s) collapsed` : "") +
+        (skipped > 0 ? `, ${skipped} non-v4 file(s) skipped` : "")
+    );
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+  }
+}
+
+if (import.meta.url === `file://${process.argv[1]}` || process.argv[1]?.endsWith("merkle_digest.ts")) {
+  main().catch((error) => {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+  });
+}
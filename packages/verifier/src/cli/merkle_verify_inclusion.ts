@@ -0,0 +1,157 @@
+#!/usr/bin/env node
+/**
+ * Merkle Verify Inclusion CLI
+ *
+ * Proves that an auditor pack (or a transcript + proof) belongs to a pact-merkle-digest/1 root
+ * the caller already holds. The leaf is recomputed from the transcript content.
+ *
+ * Usage:
+ *   pact-verifier merkle-verify-inclusion --zip <pack.zip> --root <hex>
+ *   pact-verifier merkle-verify-inclusion --zip <pack.zip> --digest <digest.json>
+ *   pact-verifier merkle-verify-inclusion --transcript <path> --proof <proof.json> --root <hex>
+ *
+ * Exit code: 0 when inclusion is proven, 1 otherwise.
+ */
+
+import { readFileSync, existsSync } from "node:fs";
+import { resolve, isAbsolute } from "node:path";
+import JSZip from "jszip";
+import type { TranscriptV4 } from "../util/transcript_types.js";
+import { computeTranscriptHash } from "../util/replay.js";
+import {
+  MERKLE_PROOF_PACK_PATH,
+  inclusionProofFor,
+  verifyInclusionProof,
+  type MerkleDigestV1,
+} from "../merkle/digest.js";
+
+// EPIPE handler for pipe safety
+process.stdout.on("error", (err: NodeJS.ErrnoException) => {
+  if (err.code === "EPIPE") {
+    process.exit(0);
+  }
+});
+
+interface MerkleVerifyArgs {
+  zip?: string;
+  transcript?: string;
+  proof?: string;
+  root?: string;
+  digest?: string;
+}
+
+function parseArgs(): MerkleVerifyArgs {
+  const args: MerkleVerifyArgs = {};
+  let i = 2;
+  while (i < process.argv.length) {
+    const arg = process.argv[i];
+    if (arg === "--zip" && i + 1 < process.argv.length) {
+      args.zip = process.argv[++i];
+    } else if (arg === "--transcript" && i + 1 < process.argv.length) {
+      args.transcript = process.argv[++i];
+    } else if (arg === "--proof" && i + 1 < process.argv.length) {
+      args.proof = process.argv[++i];
+    } else if (arg === "--root" && i + 1 < process.argv.length) {
+      args.root = process.argv[++i];
+    } else if (arg === "--digest" && i + 1 < process.argv.length) {
+      args.digest = process.argv[++i];
+    }
+    i++;
+  }
+  return args;
+}
+
+function printUsage(): void {
+  console.error("Usage: pact-verifier merkle-verify-inclusion (--zip <pack.zip> | --transcript <path> --proof <file>) (--root <hex> | --digest <file>)");
+  console.error("");
+  console.error("Options:");
+  console.error("  --zip <pack.zip>     Auditor pack carrying derived/merkle_digest.json");
+  console.error("  --transcript <path>  Transcript JSON (instead of --zip)");
+  console.error("  --proof <file>       Inclusion proof JSON (required with --transcript; overrides the pack's proof)");
+  console.error("  --root <hex>         Expected digest root");
+  console.error("  --digest <file>      Digest JSON held by the counterparty (root and proof taken from it)");
+  console.error("");
+  console.error("Examples:");
+  console.error("  pact-verifier merkle-verify-inclusion --zip evidence.zip --digest digest-2026-01-31.json");
+  console.error("  pact-verifier merkle-verify-inclusion --transcript tx.json --proof tx.merkle_proof.json --root <hex>");
+}
+
+function readJson(path: string, label: string): unknown {
+  const resolvedPath = isAbsolute(path) ? path : resolve(process.cwd(), path);
+  if (!existsSync(resolvedPath)) {
+    throw new Error(`${label} file not found: ${path}`);
+  }
+  return JSON.parse(readFileSync(resolvedPath, "utf8"));
+}
+
+export async function main(): Promise<void> {
+  const args = parseArgs();
+  if ((!args.zip && !args.transcript) || (args.transcript && !args.proof && !args.digest) || (!args.root && !args.digest)) {
+    printUsage();
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    let transcript: TranscriptV4;
+    let proof: unknown = args.proof ? readJson(args.proof, "Proof") : undefined;
+    let expectedConstitutionHash: string | undefined;
+
+    if (args.zip) {
+      const zipPath = isAbsolute(args.zip) ? args.zip : resolve(process.cwd(), args.zip);
+      if (!existsSync(zipPath)) {
+        throw new Error(`ZIP file not found: ${args.zip}`);
+      }
+      const zip = await JSZip.loadAsync(readFileSync(zipPath));
+      const transcriptFile = zip.file("input/transcript.json");
+      if (!transcriptFile) {
+        throw new Error("Pack has no input/transcript.json");
+      }
+      transcript = JSON.parse(await transcriptFile.async("string"));
+      const manifestFile = zip.file("manifest.json");
+      if (manifestFile) {
+        expectedConstitutionHash = JSON.parse(await manifestFile.async("string")).constitution_hash;
+      }
+      const proofFile = zip.file(MERKLE_PROOF_PACK_PATH);
+      if (proof === undefined && proofFile) {
+        proof = JSON.parse(await proofFile.async("string"));
+      }
+    } else {
+      transcript = readJson(args.transcript!, "Transcript") as TranscriptV4;
+    }
+
+    let expectedRoot = args.root;
+    if (args.digest) {
+      const digest = readJson(args.digest, "Digest") as MerkleDigestV1;
+      if (expectedRoot !== undefined && expectedRoot !== digest.root) {
+        throw new Error(`--root ${expectedRoot} does not match digest root ${digest.root}`);
+      }
+      expectedRoot = digest.root;
+      // The digest lists every leaf with its proof; prefer it over a proof shipped in the pack
+      const fromDigest = Array.isArray(digest.leaves)
+        ? inclusionProofFor(digest, await computeTranscriptHash(transcript))
+        : null;
+      if (fromDigest && !args.proof) proof = fromDigest;
+    }
+
+    if (proof === undefined) {
+      throw new Error(`No inclusion proof: pack has no ${MERKLE_PROOF_PACK_PATH} and no --proof / --digest entry was found`);
+    }
+
+    const result = await verifyInclusionProof(proof, { transcript, expectedRoot, expectedConstitutionHash });
+    console.log(JSON.stringify(result, null, 2));
+    if (!result.ok) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+  }
+}
+
+if (import.meta.url === `file://${process.argv[1]}` || process.argv[1]?.endsWith("merkle_verify_inclusion.ts")) {
+  main().catch((error) => {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+  });
+}
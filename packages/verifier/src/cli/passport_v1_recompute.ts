@@ -9,13 +9,18 @@
  *   rounds[].signature.signer_public_key_b58
  *   fallback rounds[].public_key_b58
  * - NEVER group by rounds[].agent_id (that is role/display only).
+ *
+ * Integrity Rule:
+ * - Every transcript is replayed (signatures + hash chain + final_hash) with replayTranscriptV4.
+ * - Only VALID transcripts are scored; the rest are quarantined in the `excluded` section with reasons.
+ * - Each history entry records replay_result_hash: sha256 of the canonical replay result it was scored on.
  * 
  * Usage: pnpm -w verifier passport:v1:recompute --transcripts-dir <dir> [--signer <pubkey>] [--out <file>]
  */
 
 import { resolveBlameV1 } from "../dbl/blame_resolver_v1.js";
-import { verifyTranscriptV4 } from "../util/transcript_verify.js";
 import type { TranscriptV4 } from "../util/transcript_types.js";
+import { loadTranscriptsFromMultipleDirs, normalizeDir, type ExcludedTranscript } from "../util/verified_transcripts.js";
 import {
   getTranscriptSigners,
   extractTranscriptSummary,
@@ -26,14 +31,13 @@ import {
   type PassportState,
 } from "../util/passport_v1.js";
 import { stableCanonicalize, hashCanonicalHex } from "../util/canonical.js";
-import { isAcceptedConstitutionHash, ACCEPTED_CONSTITUTION_HASHES } from "../util/constitution_hashes.js";
-import { readdir, readFileSync, writeFileSync, statSync } from "node:fs";
-import { resolve, isAbsolute, join } from "node:path";
+import { explicitActorRole, getRoleBindings } from "../util/actor_roles.js";
+import { DEFAULT_CONSTITUTION } from "../util/constitution_hashes.js";
+import { writeFileSync } from "node:fs";
+import { resolve, isAbsolute } from "node:path";
 import { fileURLToPath } from "node:url";
 import { dirname } from "node:path";
-import { promisify } from "node:util";
 
-const readdirAsync = promisify(readdir);
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 const repoRoot = resolve(__dirname, "../../../..");
@@ -86,11 +90,15 @@ interface RecomputeOutput {
         delta: number;
         confidence: number;
         timestamp: string;
+        replay_result_hash: string;
       }>;
       last_updated: string;
       constitution_hash: string;
+      constitution_version: string;
     }
   >;
+  /** Transcripts not scored, in directory then file order. */
+  excluded: ExcludedTranscript[];
 }
 
 function parseArgs(): {
@@ -98,12 +106,14 @@ function parseArgs(): {
   signer?: string;
   outFile?: string;
   human?: boolean;
+  strictRoles?: boolean;
 } {
   const args = process.argv.slice(2);
   const transcriptsDirs: string[] = [];
   let signer: string | undefined;
   let outFile: string | undefined;
   let human = false;
+  let strictRoles = false;
 
   for (let i = 0; i < args.length; i++) {
     if (args[i] === "--transcripts-dir" && i + 1 < args.length) {
@@ -117,6 +127,8 @@ function parseArgs(): {
       i++;
     } else if (args[i] === "--human") {
       human = true;
+    } else if (args[i] === "--strict-roles") {
+      strictRoles = true;
     } else if (args[i] === "--help" || args[i] === "-h") {
       printHelp();
       process.exit(0);
@@ -129,7 +141,7 @@ function parseArgs(): {
     process.exit(1);
   }
 
-  return { transcriptsDirs, signer, outFile, human };
+  return { transcriptsDirs, signer, outFile, human, strictRoles };
 }
 
 function printHelp(): void {
@@ -143,11 +155,16 @@ Identity Rule:
     rounds[].signature.signer_public_key_b58 (fallback: rounds[].public_key_b58)
   - NEVER group by rounds[].agent_id (that is role/display only).
 
+Integrity Rule:
+  - Transcripts are replayed (signatures, hash chain, final_hash). Only VALID ones are scored;
+    the others are listed under "excluded" with their integrity status and reasons.
+
 Options:
   --transcripts-dir <dir>  Directory containing transcript JSON files (repeatable; at least one required)
   --signer <pubkey>        Output only this signer's PassportState (optional)
   --out <file>             Output file path (optional, defaults to stdout)
   --human                  Print human-readable summary to stderr (optional)
+  --strict-roles           Resolve DBL roles only from actor_role / INTENT role_bindings (optional)
   --help, -h               Show this help message
 
 Multiple sources:
@@ -168,89 +185,6 @@ Examples:
 `);
 }
 
-async function loadTranscripts(dir: string): Promise<TranscriptV4[]> {
-  const transcripts: TranscriptV4[] = [];
-  const resolvedDir = isAbsolute(dir) ? dir : resolve(process.cwd(), dir);
-
-  if (!statSync(resolvedDir).isDirectory()) {
-    throw new Error(`Not a directory: ${resolvedDir}`);
-  }
-
-  const files = await readdirAsync(resolvedDir);
-  const jsonFiles = files.filter((f) => f.endsWith(".json")).sort(); // Sort for deterministic order
-
-  for (const file of jsonFiles) {
-    const filePath = join(resolvedDir, file);
-    try {
-      const content = readFileSync(filePath, "utf-8");
-      const transcript = JSON.parse(content) as TranscriptV4;
-
-      // Verify integrity (basic structure validation)
-      const replayResult = await verifyTranscriptV4(transcript);
-      if (!replayResult.ok) {
-        // Check if the only errors are FINAL_HASH_MISMATCH (common in fixtures)
-        const nonHashErrors = replayResult.errors.filter((e) => e.type !== "FINAL_HASH_MISMATCH");
-        if (nonHashErrors.length > 0) {
-          // Warning to stderr only (not stdout)
-          console.error(`Warning: Skipping ${file} - integrity check failed: ${nonHashErrors.map((e) => e.message).join("; ")}`);
-          continue;
-        }
-        // If only FINAL_HASH_MISMATCH, allow it (fixtures may have incorrect final_hash)
-        if (replayResult.rounds_verified === 0) {
-          // Warning to stderr only (not stdout)
-          console.error(`Warning: Skipping ${file} - no valid rounds verified`);
-          continue;
-        }
-      }
-
-      transcripts.push(transcript);
-    } catch (error) {
-      // Warning to stderr only (not stdout)
-      console.error(`Warning: Skipping ${file} - ${error instanceof Error ? error.message : String(error)}`);
-      continue;
-    }
-  }
-
-  return transcripts;
-}
-
-/**
- * Load transcripts from multiple directories, merge deterministically, and detect duplicates.
- * If the same transcript (by stable ID) appears in more than one directory, a warning is emitted
- * and the first occurrence (by order of dirs, then by stable ID) is kept.
- */
-async function loadTranscriptsFromMultipleDirs(
-  dirs: string[],
-  human: boolean
-): Promise<{ transcripts: TranscriptV4[]; duplicateWarnings: string[] }> {
-  const duplicateWarnings: string[] = [];
-  const byStableId = new Map<string, { transcript: TranscriptV4; sourceDir: string }>();
-
-  for (const dir of dirs) {
-    if (human) {
-      console.error(`Loading transcripts from: ${dir}`);
-    }
-    const fromDir = await loadTranscripts(dir);
-
-    for (const transcript of fromDir) {
-      const stableId = getTranscriptStableId(transcript);
-      const existing = byStableId.get(stableId);
-      if (existing) {
-        duplicateWarnings.push(
-          `Duplicate transcript ${stableId} (also in ${existing.sourceDir}); keeping first occurrence, skipping from ${dir}`
-        );
-        continue;
-      }
-      byStableId.set(stableId, { transcript, sourceDir: dir });
-    }
-  }
-
-  // Deterministic order: sort by stable ID
-  const stableIds = Array.from(byStableId.keys()).sort();
-  const transcripts = stableIds.map((id) => byStableId.get(id)!.transcript);
-  return { transcripts, duplicateWarnings };
-}
-
 function computeStateHash(state: {
   agent_id: string;
   score: number;
@@ -271,16 +205,22 @@ const RUNNER = import.meta.url.includes('/dist/') ? 'dist' : 'tsx';
 
 export async function main(): Promise<void> {
   try {
-    const { transcriptsDirs, signer, outFile, human } = parseArgs();
+    const { transcriptsDirs, signer, outFile, human, strictRoles } = parseArgs();
 
     // Load from all directories, merge deterministically, detect duplicates
-    const { transcripts, duplicateWarnings } = await loadTranscriptsFromMultipleDirs(transcriptsDirs, human);
+    const loaded = await loadTranscriptsFromMultipleDirs(transcriptsDirs, human);
+    const { excluded, duplicateWarnings } = loaded;
+    const transcripts = loaded.transcripts.map((t) => t.transcript);
+    const replayResultHashes = new Map(loaded.transcripts.map((t) => [t.transcript, t.replayResultHash]));
 
     for (const msg of duplicateWarnings) {
       console.error(`Warning: ${msg}`);
     }
     if (human) {
       console.error(`Loaded ${transcripts.length} unique transcripts from ${transcriptsDirs.length} director${transcriptsDirs.length === 1 ? "y" : "ies"}`);
+      if (excluded.length > 0) {
+        console.error(`Excluded ${excluded.length} transcript(s) that failed verification`);
+      }
     }
 
     if (transcripts.length === 0) {
@@ -310,12 +250,7 @@ export async function main(): Promise<void> {
     }
 
     // Build output (normalize transcripts_dirs to relative paths for deterministic output)
-    const normalizedDirs = transcriptsDirs.map((d) => {
-      if (!isAbsolute(d)) return d;
-      if (d.startsWith(repoRoot + "/")) return d.slice(repoRoot.length + 1);
-      if (d.startsWith(process.cwd() + "/")) return d.slice(process.cwd().length + 1);
-      return d;
-    }).sort(); // Deterministic order for output
+    const normalizedDirs = transcriptsDirs.map(normalizeDir).sort(); // Deterministic order for output
 
     const output: RecomputeOutput = {
       version: "passport/1.0",
@@ -325,6 +260,7 @@ export async function main(): Promise<void> {
       },
       states: {},
       records: {},
+      excluded,
     };
 
     // Helper to determine tier from score
@@ -337,6 +273,15 @@ export async function main(): Promise<void> {
 
     // Helper to determine role from transcript
     function determineRole(transcript: TranscriptV4, signer: string): "BUYER" | "PROVIDER" | "UNKNOWN" {
+      // Explicit roles (actor_role / INTENT role_bindings) take precedence over protocol position
+      const bindings = getRoleBindings(transcript.rounds);
+      for (const r of transcript.rounds) {
+        const explicitRole = getRoundSignerKey(r) === signer ? explicitActorRole(r, bindings) : null;
+        if (explicitRole) {
+          return explicitRole;
+        }
+      }
+
       const intentRound = transcript.rounds.find((r) => r.round_type === "INTENT");
       const intentSigner = intentRound ? getRoundSignerKey(intentRound) : null;
       
@@ -365,7 +310,7 @@ export async function main(): Promise<void> {
     const transcriptJudgments = new Map<TranscriptV4, Awaited<ReturnType<typeof resolveBlameV1>>>();
     for (const transcript of transcripts) {
       try {
-        const judgment = await resolveBlameV1(transcript);
+        const judgment = await resolveBlameV1(transcript, { strictRoles });
         transcriptJudgments.set(transcript, judgment);
       } catch (error) {
         // Warning to stderr only (not stdout)
@@ -432,10 +377,11 @@ export async function main(): Promise<void> {
         delta: number;
         confidence: number;
         timestamp: string;
+        replay_result_hash: string;
       }> = [];
       
       let primaryRole: "BUYER" | "PROVIDER" | "UNKNOWN" = "UNKNOWN";
-      let constitutionHash = ACCEPTED_CONSTITUTION_HASHES[0]; // Default to standard
+      let constitution = DEFAULT_CONSTITUTION; // Default to standard
       let lastUpdated = "";
 
       // Process each deduplicated transcript with DBL judgment
@@ -449,10 +395,10 @@ export async function main(): Promise<void> {
           primaryRole = role;
         }
 
-        // Use standard constitution hash by default
+        // Use standard constitution by default
         // In a full implementation, we'd check each transcript's constitution hash
-        // For now, we use the standard hash and mark as NON_STANDARD if issues are detected
-        constitutionHash = ACCEPTED_CONSTITUTION_HASHES[0];
+        // For now, we use the standard constitution and mark as NON_STANDARD if issues are detected
+        constitution = DEFAULT_CONSTITUTION;
 
         // Compute delta
         const delta = computePassportDelta({
@@ -486,6 +432,7 @@ export async function main(): Promise<void> {
           delta: delta.score_delta,
           confidence,
           timestamp,
+          replay_result_hash: replayResultHashes.get(transcript)!,
         });
 
         // Track last updated
@@ -524,7 +471,8 @@ export async function main(): Promise<void> {
         tier: tierFromScore(state.score),
         history: history,
         last_updated: lastUpdated || new Date().toISOString(),
-        constitution_hash: constitutionHash,
+        constitution_hash: constitution.hash,
+        constitution_version: constitution.version,
       };
     }
 
@@ -1,21 +1,27 @@
 #!/usr/bin/env node
 /**
- * Wrapper CLI for v4 replay verification
- * 
- * Delegates to the SDK's replay_v4 implementation at
- * packages/sdk/src/cli/replay_v4.ts
- * 
- * This wrapper exists to maintain compatibility with scripts
- * that reference packages/verifier/src/cli/replay_v4.ts
+ * Replay v4 CLI
+ *
+ * Replays a single v4 transcript with the canonical replay verifier in exhaustive mode
+ * and prints per-round hash chain / signature status.
+ *
+ * Usage:
+ *   node dist/cli/replay_v4.js <transcript.json> [--json] [--verify-envelopes]
+ *   node dist/cli/replay_v4.js --transcript <path> [--json] [--verify-envelopes]
+ *
+ * Exit code: 0 when integrity is VALID, 1 otherwise.
  */
 
-import { fileURLToPath } from "url";
-import { dirname, resolve } from "path";
-import { spawn } from "child_process";
+import { readFileSync, existsSync } from "node:fs";
+import { resolve, isAbsolute, dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { TranscriptV4, ReplayResult } from "../util/transcript_types.js";
+import { replayTranscriptV4 } from "../util/replay.js";
+import { findEnvelopeSidecar } from "../util/load_envelope_sidecar_node.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
-const sdkPath = resolve(__dirname, "../../../sdk/src/cli/replay_v4.ts");
+const repoRoot = resolve(__dirname, "../../../..");
 
 // Handle EPIPE gracefully (e.g., when piping to head/jq)
 process.stdout.on("error", (err) => {
@@ -24,18 +30,175 @@ process.stdout.on("error", (err) => {
   }
 });
 
-// Forward all arguments to the SDK implementation
-// This wrapper is run via: pnpm --filter @pact/sdk exec tsx src/cli/replay_v4.ts
-// So we spawn tsx from the SDK directory where dependencies are installed
-const args = process.argv.slice(2);
-const workspaceRoot = resolve(__dirname, "../../..");
-const sdkDir = resolve(workspaceRoot, "packages/sdk");
-const child = spawn("tsx", ["src/cli/replay_v4.ts", ...args], {
-  stdio: "inherit",
-  shell: false,
-  cwd: sdkDir, // Run from SDK directory so Node can resolve dependencies
-});
+interface ParsedArgs {
+  transcript?: string;
+  json?: boolean;
+  verifyEnvelopes?: boolean;
+}
 
-child.on("exit", (code) => {
-  process.exit(code ?? 0);
-});
+function parseArgs(): ParsedArgs {
+  const args: ParsedArgs = {};
+  const positionalArgs: string[] = [];
+  let i = 2;
+
+  while (i < process.argv.length) {
+    const arg = process.argv[i];
+
+    if (arg === "--transcript" && i + 1 < process.argv.length) {
+      args.transcript = process.argv[++i];
+    } else if (arg === "--json") {
+      args.json = true;
+    } else if (arg === "--verify-envelopes") {
+      args.verifyEnvelopes = true;
+    } else if (arg === "--") {
+      // Separator from pnpm scripts; remaining args are positional
+    } else if (arg.startsWith("--")) {
+      console.error(`Unknown option: ${arg}`);
+      process.exit(1);
+    } else {
+      positionalArgs.push(arg);
+    }
+    i++;
+  }
+
+  if (!args.transcript && positionalArgs.length > 0) {
+    args.transcript = positionalArgs[0];
+  }
+
+  return args;
+}
+
+function resolveTranscriptPath(path: string): string {
+  if (isAbsolute(path)) return path;
+  if (existsSync(path)) return resolve(process.cwd(), path);
+  const fromRoot = resolve(repoRoot, path);
+  if (!existsSync(fromRoot)) {
+    throw new Error(
+      `Transcript file not found: ${path}\n  Tried: ${resolve(process.cwd(), path)}\n  Tried: ${fromRoot}`
+    );
+  }
+  return fromRoot;
+}
+
+function shortHash(hash: string | undefined): string {
+  return hash ? `${hash.slice(0, 12)}...` : "(none)";
+}
+
+function printHuman(transcript: TranscriptV4, result: ReplayResult): void {
+  console.log(result.ok ? "🟢 INTEGRITY VALID" : `🔴 INTEGRITY FAIL (${result.integrity_status})`);
+  console.log("");
+  console.log("📋 Intent:");
+  console.log(`   ID: ${transcript.intent_id}`);
+  console.log(`   Type: ${transcript.intent_type}`);
+  if (typeof transcript.created_at_ms === "number") {
+    console.log(`   Created: ${new Date(transcript.created_at_ms).toISOString()}`);
+  }
+  console.log("");
+
+  const statuses = result.round_statuses ?? [];
+  if (statuses.length > 0) {
+    console.log("🔗 Hash Chain:");
+    for (const s of statuses) {
+      const round = transcript.rounds[s.round_number];
+      const linked = s.round_number === 0 ? "genesis" : `linked to round ${s.round_number - 1}`;
+      const hashMark = s.round_hash_ok === false ? "✗ round_hash mismatch" : s.round_hash_ok ? "✓" : "- (no round_hash)";
+      console.log(
+        `   Round ${s.round_number} (${s.round_type}): ${shortHash(round?.round_hash)} ${hashMark} (${s.chain_link_ok ? "" : "✗ "}${linked})`
+      );
+    }
+    console.log("");
+    console.log("✍️  Signatures:");
+    for (const s of statuses) {
+      const round = transcript.rounds[s.round_number];
+      const envelopeMark =
+        s.envelope_hash_ok === undefined || s.envelope_hash_ok === null
+          ? ""
+          : s.envelope_hash_ok
+            ? ", envelope ✓"
+            : ", envelope ✗";
+      console.log(
+        `   Round ${s.round_number}: ${s.signature_ok ? "✓ Verified" : "✗ Invalid"} (${round?.agent_id ?? "unknown"}${envelopeMark})`
+      );
+    }
+    console.log("");
+  }
+
+  if (result.errors.length > 0) {
+    console.log("❌ Errors:");
+    for (const e of result.errors) {
+      console.log(`   ${e.type}${e.round_number !== undefined ? ` (round ${e.round_number})` : ""}: ${e.message}`);
+    }
+    console.log("");
+  }
+  if (result.warnings.length > 0) {
+    console.log("⚠️  Warnings:");
+    for (const w of result.warnings) {
+      console.log(`   ${w}`);
+    }
+    console.log("");
+  }
+
+  if (transcript.failure_event) {
+    const fe = transcript.failure_event;
+    console.log(`⛔ Outcome: ${fe.code} at ${fe.stage} (${fe.fault_domain}, ${fe.terminality})`);
+  } else {
+    const last = transcript.rounds[transcript.rounds.length - 1];
+    if (last?.round_type === "ACCEPT") {
+      console.log("✅ Outcome: Agreement reached");
+    } else if (last?.round_type === "SETTLEMENT_CONFIRMED" || last?.round_type === "REFUND") {
+      const verb = last.round_type === "REFUND" ? "Refunded" : "Settlement confirmed";
+      console.log(`✅ Outcome: ${verb} (${last.settlement?.rail}:${last.settlement?.rail_ref})`);
+    } else {
+      console.log(`ℹ️  Outcome: last round ${last?.round_type ?? "none"}`);
+    }
+  }
+  console.log(
+    `   Signatures verified: ${result.signature_verifications}, hash links verified: ${result.hash_chain_verifications}, LVSH rounds: ${result.rounds_verified}`
+  );
+}
+
+export async function main(): Promise<void> {
+  const args = parseArgs();
+
+  if (!args.transcript) {
+    console.error("Usage: replay_v4.js <transcript.json> [--json] [--verify-envelopes]");
+    console.error("   or: replay_v4.js --transcript <path> [--json] [--verify-envelopes]");
+    console.error("");
+    console.error("Options:");
+    console.error("  --transcript <path>  Transcript file path (required)");
+    console.error("  --json               Print the ReplayResult as JSON instead of the human report");
+    console.error("  --verify-envelopes   Recompute envelope/message hashes from bodies or <transcript>.envelopes.json");
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    const transcriptPath = resolveTranscriptPath(args.transcript);
+    const transcript = JSON.parse(readFileSync(transcriptPath, "utf-8")) as TranscriptV4;
+    const result = await replayTranscriptV4(transcript, {
+      mode: "exhaustive",
+      verifyEnvelopes: args.verifyEnvelopes,
+      envelopeSidecar: args.verifyEnvelopes ? findEnvelopeSidecar(transcriptPath) : undefined,
+    });
+
+    if (args.json) {
+      console.log(JSON.stringify(result, null, 2));
+    } else {
+      printHuman(transcript, result);
+    }
+
+    if (!result.ok) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+  }
+}
+
+if (import.meta.url === `file://${process.argv[1]}` || process.argv[1]?.endsWith("replay_v4.ts")) {
+  main().catch((error) => {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+  });
+}
@@ -1,29 +1,367 @@
 #!/usr/bin/env node
 /**
- * Wrapper CLI for replay verification
- * 
- * Delegates to the SDK's replay_verify implementation at
- * packages/sdk/src/cli/replay_verify.ts
- * 
- * This wrapper exists to maintain compatibility with scripts
- * that reference packages/verifier/src/cli/replay_verify.ts
+ * Replay Verify CLI
+ *
+ * Verifies every v4 transcript in one or more files/directories with the canonical
+ * replay verifier (replayTranscriptV4) and emits a JSON report.
+ *
+ * Usage:
+ *   node dist/cli/replay_verify.js [options] [--] <dir|file>...
+ *   node dist/cli/replay_verify.js --transcripts-dir <dir> [options]
+ *
+ * Options:
+ *   --strict             Non-terminal and unreconciled transcripts fail instead of warn
+ *   --terminal-only      Skip transcripts that are not terminal (DBL terminal=false)
+ *   --reconciled-only    Skip transcripts awaiting settlement (DBL required_action COMPLETE_SETTLEMENT_OR_REFUND)
+ *   --no-historical      Skip non-v4 transcripts and transcripts older than --historical-days
+ *   --historical-days N  Age threshold for --no-historical (default: 30)
+ *   --verify-envelopes   Recompute envelope/message hashes from inline bodies or *.envelopes.json sidecars
+ *   --out <file>         Write JSON report to file instead of stdout
+ *
+ * Exit code: 0 when every verified transcript passes, 1 otherwise.
  */
 
-import { fileURLToPath } from "url";
-import { dirname, resolve } from "path";
-import { spawn } from "child_process";
+import { readFileSync, readdirSync, statSync, writeFileSync, existsSync } from "node:fs";
+import { resolve, isAbsolute, join, basename, dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { TranscriptV4 } from "../util/transcript_types.js";
+import { replayTranscriptV4 } from "../util/replay.js";
+import { findEnvelopeSidecar } from "../util/load_envelope_sidecar_node.js";
+import { resolveBlameV1 } from "../dbl/blame_resolver_v1.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
-const sdkPath = resolve(__dirname, "../../../sdk/src/cli/replay_verify.ts");
+const repoRoot = resolve(__dirname, "../../../..");
 
-// Forward all arguments to the SDK implementation
-const args = process.argv.slice(2);
-const child = spawn("tsx", [sdkPath, ...args], {
-  stdio: "inherit",
-  shell: false,
-});
+const DEFAULT_HISTORICAL_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
 
-child.on("exit", (code) => {
-  process.exit(code ?? 0);
+// Handle EPIPE gracefully (e.g., when piping to head/jq)
+process.stdout.on("error", (err) => {
+  if (err.code === "EPIPE") {
+    process.exit(0);
+  }
 });
+
+export interface ReplayVerifyOptions {
+  strict: boolean;
+  terminalOnly: boolean;
+  reconciledOnly: boolean;
+  noHistorical: boolean;
+  historicalDays: number;
+  verifyEnvelopes: boolean;
+  /** Reference time for --no-historical (default: Date.now()). */
+  nowMs?: number;
+}
+
+export interface ReplayVerifyItem {
+  file: string;
+  transcript_id: string | null;
+  status: "PASS" | "FAIL" | "SKIPPED";
+  skip_reason?: "historical" | "non_terminal" | "unreconciled";
+  integrity_status?: "VALID" | "TAMPERED" | "INVALID" | "PARTIAL";
+  terminal?: boolean;
+  reconciled?: boolean;
+  rounds_verified?: number;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ReplayVerifyReport {
+  version: "replay_verify_report/1.0";
+  ok: boolean;
+  options: {
+    strict: boolean;
+    terminal_only: boolean;
+    reconciled_only: boolean;
+    no_historical: boolean;
+    historical_days: number;
+    verify_envelopes: boolean;
+  };
+  summary: {
+    files: number;
+    verified: number;
+    passed: number;
+    failed: number;
+    skipped: number;
+    skipped_historical: number;
+    with_warnings: number;
+  };
+  results: ReplayVerifyItem[];
+}
+
+interface ParsedArgs extends ReplayVerifyOptions {
+  paths: string[];
+  out?: string;
+}
+
+function parseArgs(): ParsedArgs {
+  const args: ParsedArgs = {
+    strict: false,
+    terminalOnly: false,
+    reconciledOnly: false,
+    noHistorical: false,
+    historicalDays: DEFAULT_HISTORICAL_DAYS,
+    verifyEnvelopes: false,
+    paths: [],
+  };
+  let i = 2;
+  let positionalOnly = false;
+
+  while (i < process.argv.length) {
+    const arg = process.argv[i];
+
+    if (positionalOnly) {
+      args.paths.push(arg);
+    } else if (arg === "--") {
+      positionalOnly = true;
+    } else if (arg === "--strict") {
+      args.strict = true;
+    } else if (arg === "--terminal-only") {
+      args.terminalOnly = true;
+    } else if (arg === "--reconciled-only") {
+      args.reconciledOnly = true;
+    } else if (arg === "--no-historical") {
+      args.noHistorical = true;
+    } else if (arg === "--historical-days" && i + 1 < process.argv.length) {
+      const days = Number(process.argv[++i]);
+      if (!Number.isFinite(days) || days < 0) {
+        console.error(`Invalid --historical-days: ${process.argv[i]}`);
+        process.exit(1);
+      }
+      args.historicalDays = days;
+    } else if (arg === "--verify-envelopes") {
+      args.verifyEnvelopes = true;
+    } else if (arg === "--transcripts-dir" && i + 1 < process.argv.length) {
+      args.paths.push(process.argv[++i]);
+    } else if (arg === "--out" && i + 1 < process.argv.length) {
+      args.out = process.argv[++i];
+    } else if (arg.startsWith("--")) {
+      console.error(`Unknown option: ${arg}`);
+      process.exit(1);
+    } else {
+      args.paths.push(arg);
+    }
+    i++;
+  }
+
+  return args;
+}
+
+function resolveInputPath(path: string): string {
+  if (isAbsolute(path)) return path;
+  if (existsSync(path)) return resolve(process.cwd(), path);
+  const fromRoot = resolve(repoRoot, path);
+  if (!existsSync(fromRoot)) {
+    throw new Error(`Path not found: ${path}`);
+  }
+  return fromRoot;
+}
+
+/**
+ * Expand inputs to a sorted list of transcript files.
+ * Directories are scanned one level deep; envelope sidecars are not transcripts.
+ */
+export function collectTranscriptFiles(paths: string[]): string[] {
+  const files: string[] = [];
+  for (const p of paths) {
+    const resolved = resolveInputPath(p);
+    if (statSync(resolved).isDirectory()) {
+      for (const name of readdirSync(resolved).sort()) {
+        const full = join(resolved, name);
+        if (name.endsWith(".json") && !name.endsWith(".envelopes.json") && statSync(full).isFile()) {
+          files.push(full);
+        }
+      }
+    } else {
+      files.push(resolved);
+    }
+  }
+  return files;
+}
+
+function isHistorical(transcript: TranscriptV4, options: ReplayVerifyOptions): boolean {
+  if (transcript.transcript_version !== "pact-transcript/4.0") return true;
+  const nowMs = options.nowMs ?? Date.now();
+  return typeof transcript.created_at_ms === "number" && transcript.created_at_ms < nowMs - options.historicalDays * DAY_MS;
+}
+
+/**
+ * Verify a single transcript file. Never throws; load/parse errors become FAIL items.
+ */
+export async function verifyTranscriptFile(filePath: string, options: ReplayVerifyOptions): Promise<ReplayVerifyItem> {
+  const item: ReplayVerifyItem = {
+    file: basename(filePath),
+    transcript_id: null,
+    status: "FAIL",
+    errors: [],
+    warnings: [],
+  };
+
+  let transcript: TranscriptV4;
+  try {
+    transcript = JSON.parse(readFileSync(filePath, "utf-8")) as TranscriptV4;
+  } catch (error) {
+    item.errors.push(`Failed to load transcript: ${error instanceof Error ? error.message : String(error)}`);
+    return item;
+  }
+  if (!transcript || typeof transcript !== "object") {
+    item.errors.push("Failed to load transcript: file does not contain a JSON object");
+    return item;
+  }
+  item.transcript_id = typeof transcript.transcript_id === "string" ? transcript.transcript_id : null;
+
+  if (options.noHistorical && isHistorical(transcript, options)) {
+    item.status = "SKIPPED";
+    item.skip_reason = "historical";
+    return item;
+  }
+
+  try {
+    const judgment = await resolveBlameV1(transcript);
+    item.terminal = judgment.terminal;
+    item.reconciled = judgment.requiredAction !== "COMPLETE_SETTLEMENT_OR_REFUND";
+
+    if (options.terminalOnly && !item.terminal) {
+      item.status = "SKIPPED";
+      item.skip_reason = "non_terminal";
+      return item;
+    }
+    if (options.reconciledOnly && !item.reconciled) {
+      item.status = "SKIPPED";
+      item.skip_reason = "unreconciled";
+      return item;
+    }
+
+    const envelopeSidecar = options.verifyEnvelopes ? findEnvelopeSidecar(filePath) : undefined;
+    const replay = await replayTranscriptV4(transcript, {
+      verifyEnvelopes: options.verifyEnvelopes,
+      envelopeSidecar,
+    });
+    item.integrity_status = replay.integrity_status;
+    item.rounds_verified = replay.rounds_verified;
+    item.errors.push(...replay.errors.map((e) => `${e.type}: ${e.message}`));
+    item.warnings.push(...replay.warnings);
+
+    const pending: string[] = [];
+    if (!item.terminal) pending.push("PENDING: transcript is not terminal");
+    if (!item.reconciled) pending.push("UNRECONCILED: settlement completion or refund outstanding");
+    if (options.strict) {
+      item.errors.push(...pending);
+    } else {
+      item.warnings.push(...pending);
+    }
+
+    item.status = replay.ok && item.errors.length === 0 ? "PASS" : "FAIL";
+  } catch (error) {
+    item.errors.push(`Verification error: ${error instanceof Error ? error.message : String(error)}`);
+    item.status = "FAIL";
+  }
+
+  return item;
+}
+
+export async function runReplayVerify(paths: string[], options: ReplayVerifyOptions): Promise<ReplayVerifyReport> {
+  const files = collectTranscriptFiles(paths);
+  const results: ReplayVerifyItem[] = [];
+  for (const file of files) {
+    results.push(await verifyTranscriptFile(file, options));
+  }
+
+  const passed = results.filter((r) => r.status === "PASS").length;
+  const failed = results.filter((r) => r.status === "FAIL").length;
+  const skipped = results.filter((r) => r.status === "SKIPPED").length;
+
+  return {
+    version: "replay_verify_report/1.0",
+    ok: failed === 0,
+    options: {
+      strict: options.strict,
+      terminal_only: options.terminalOnly,
+      reconciled_only: options.reconciledOnly,
+      no_historical: options.noHistorical,
+      historical_days: options.historicalDays,
+      verify_envelopes: options.verifyEnvelopes,
+    },
+    summary: {
+      files: files.length,
+      verified: passed + failed,
+      passed,
+      failed,
+      skipped,
+      skipped_historical: results.filter((r) => r.skip_reason === "historical").length,
+      with_warnings: results.filter((r) => r.status !== "SKIPPED" && r.warnings.length > 0).length,
+    },
+    results,
+  };
+}
+
+function printHumanSummary(report: ReplayVerifyReport): void {
+  if (report.summary.skipped_historical > 0) {
+    console.error(
+      `ℹ️  Filtered out ${report.summary.skipped_historical} historical transcript(s) due to --no-historical (non-v4 or older than ${report.options.historical_days} days)`
+    );
+  }
+  console.error(`\nVerifying ${report.summary.verified} transcript(s)...\n`);
+  for (const r of report.results) {
+    if (r.status === "PASS") {
+      console.error(`${r.file}: ✅ PASS${r.warnings.length > 0 ? ` (${r.warnings.length} warning(s))` : ""}`);
+    } else if (r.status === "FAIL") {
+      console.error(`${r.file}: ❌ FAIL (${r.errors[0] ?? "verification failed"})`);
+    } else if (r.skip_reason !== "historical") {
+      console.error(`${r.file}: ⏭️  SKIPPED (${r.skip_reason})`);
+    }
+  }
+  console.error("");
+  if (report.ok) {
+    console.error(`✅ ${report.summary.passed} of ${report.summary.verified} transcripts verified successfully`);
+  } else {
+    console.error(`❌ ${report.summary.failed} of ${report.summary.verified} transcripts failed verification`);
+  }
+}
+
+export async function main(): Promise<void> {
+  const args = parseArgs();
+
+  if (args.paths.length === 0) {
+    console.error("Usage: replay_verify.js [options] [--] <dir|file>...");
+    console.error("   or: replay_verify.js --transcripts-dir <dir> [options]");
+    console.error("");
+    console.error("Options:");
+    console.error("  --strict             Non-terminal/unreconciled transcripts fail instead of warn");
+    console.error("  --terminal-only      Skip non-terminal transcripts");
+    console.error("  --reconciled-only    Skip transcripts awaiting settlement or refund");
+    console.error("  --no-historical      Skip non-v4 transcripts and transcripts older than --historical-days");
+    console.error(`  --historical-days N  Threshold for --no-historical (default: ${DEFAULT_HISTORICAL_DAYS})`);
+    console.error("  --verify-envelopes   Recompute envelope/message hashes from bodies or *.envelopes.json sidecars");
+    console.error("  --out <file>         Write JSON report to file instead of stdout");
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    const report = await runReplayVerify(args.paths, args);
+    const jsonOutput = JSON.stringify(report, null, 2);
+
+    if (args.out) {
+      writeFileSync(args.out, jsonOutput, "utf-8");
+    } else {
+      console.log(jsonOutput);
+    }
+    printHumanSummary(report);
+
+    if (!report.ok) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+  }
+}
+
+if (import.meta.url === `file://${process.argv[1]}` || process.argv[1]?.endsWith("replay_verify.ts")) {
+  main().catch((error) => {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+  });
+}
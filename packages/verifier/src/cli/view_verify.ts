@@ -0,0 +1,99 @@
+#!/usr/bin/env node
+/**
+ * View Verify CLI
+ *
+ * Verifies a pact-transcript-view/1 document (redacted PARTNER / AUDITOR / INTERNAL view):
+ * schema, binding to source_transcript_hash, and signatures + hash chain through redacted fields.
+ * With --disclosure, also opens the fields revealed by a pact-disclosure/1 document against the view.
+ *
+ * Usage:
+ *   pact-verifier view-verify --view <view.json> [--disclosure <disclosure.json>]
+ *
+ * Exit code: 0 when the view (and disclosure, if given) verifies, 1 otherwise.
+ */
+
+import { readFileSync, existsSync } from "node:fs";
+import { resolve, isAbsolute } from "node:path";
+import { verifyTranscriptView } from "../redaction/transcript_view.js";
+
+// EPIPE handler for pipe safety
+process.stdout.on("error", (err: NodeJS.ErrnoException) => {
+  if (err.code === "EPIPE") {
+    process.exit(0);
+  }
+});
+
+interface ViewVerifyArgs {
+  view?: string;
+  disclosure?: string;
+}
+
+function parseArgs(): ViewVerifyArgs {
+  const args: ViewVerifyArgs = {};
+  let i = 2;
+  while (i < process.argv.length) {
+    const arg = process.argv[i];
+    if (arg === "--view" && i + 1 < process.argv.length) {
+      args.view = process.argv[++i];
+    } else if (arg === "--disclosure" && i + 1 < process.argv.length) {
+      args.disclosure = process.argv[++i];
+    }
+    i++;
+  }
+  return args;
+}
+
+function readJsonFile(path: string, label: string): unknown {
+  const fullPath = isAbsolute(path) ? path : resolve(process.cwd(), path);
+  if (!existsSync(fullPath)) {
+    throw new Error(`${label} file not found: ${path}`);
+  }
+  return JSON.parse(readFileSync(fullPath, "utf8"));
+}
+
+function printUsage(): void {
+  console.error("Usage: pact-verifier view-verify --view <view.json> [--disclosure <disclosure.json>]");
+  console.error("");
+  console.error("Options:");
+  console.error("  --view <file>        pact-transcript-view/1 document (required)");
+  console.error("  --disclosure <file>  pact-disclosure/1 document revealing redacted fields of the view");
+  console.error("");
+  console.error("Examples:");
+  console.error("  pact-verifier view-verify --view auditor_view.json");
+  console.error("  pact-verifier view-verify --view partner_view.json --disclosure disclosure_to_insurer.json");
+}
+
+export async function main(): Promise<void> {
+  const args = parseArgs();
+  if (!args.view) {
+    printUsage();
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    const view = readJsonFile(args.view, "View");
+    const disclosure = args.disclosure ? readJsonFile(args.disclosure, "Disclosure") : undefined;
+    const result = await verifyTranscriptView(view, { disclosure });
+    console.log(JSON.stringify(result, null, 2));
+    console.error(
+      result.ok
+        ? `✅ ${result.view} view of ${result.source_transcript_hash} verifies (${result.redacted_fields.length} redacted field(s))` +
+            (result.disclosure ? `; ${result.disclosure.fields.length} field(s) disclosed to ${result.disclosure.recipient}` : "")
+        : `❌ View verification failed: ${result.errors[0]}`
+    );
+    if (!result.ok) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+  }
+}
+
+if (import.meta.url === `file://${process.argv[1]}` || process.argv[1]?.endsWith("view_verify.ts")) {
+  main().catch((error) => {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+  });
+}
@@ -6,7 +6,13 @@
 
 import { describe, it, expect } from "vitest";
 import { resolveBlameV1 } from "../blame_resolver_v1.js";
+import { replayTranscriptV4 } from "../../util/replay.js";
 import { readFileSync } from "node:fs";
+import { createHash } from "node:crypto";
+import nacl from "tweetnacl";
+import bs58 from "bs58";
+import { stableCanonicalize } from "../../util/canonical_pure.js";
+import type { TranscriptV4, TranscriptRound } from "../../util/transcript_types.js";
 import { fileURLToPath } from "url";
 import { dirname, resolve as resolvePath } from "path";
 
@@ -23,6 +29,87 @@ function loadFixture(name: string): any {
   return JSON.parse(content);
 }
 
+const sha256 = (s: string) => createHash("sha256").update(s, "utf8").digest("hex");
+const buyerKeys = nacl.sign.keyPair.fromSeed(new Uint8Array(createHash("sha256").update("role-buyer").digest()));
+const providerKeys = nacl.sign.keyPair.fromSeed(new Uint8Array(createHash("sha256").update("role-provider").digest()));
+const buyerPub = bs58.encode(Buffer.from(buyerKeys.publicKey));
+const providerPub = bs58.encode(Buffer.from(providerKeys.publicKey));
+
+type RoundPlan = {
+  type: TranscriptRound["round_type"];
+  agent: string;
+  keys: nacl.SignKeyPair;
+  role: "BUYER" | "PROVIDER";
+  settlement?: TranscriptRound["settlement"];
+};
+
+// Build a correctly hash-linked and signed transcript from a round plan
+function buildSignedTranscript(
+  plan: RoundPlan[],
+  extra: {
+    roleBindings?: Record<string, "BUYER" | "PROVIDER">;
+    actorRoles?: boolean;
+    failureCode?: string;
+  } = {}
+): TranscriptV4 {
+  const intentId = "intent-roles-test";
+  const createdAt = 1000000000000;
+  const rounds: TranscriptRound[] = [];
+  let previous = sha256(`${intentId}:${createdAt}`);
+  plan.forEach((step, i) => {
+    // Signed roles live in the envelope body that envelope_hash commits to
+    const envelope = extra.actorRoles ? { round_number: i, round_type: step.type, actor_role: step.role } : undefined;
+    const envelopeHash = envelope ? sha256(stableCanonicalize(envelope)) : sha256(`envelope-${i}`);
+    const pub = bs58.encode(Buffer.from(step.keys.publicKey));
+    const round: TranscriptRound = {
+      round_number: i,
+      round_type: step.type,
+      message_hash: envelopeHash,
+      envelope_hash: envelopeHash,
+      signature: {
+        signer_public_key_b58: pub,
+        signature_b58: bs58.encode(nacl.sign.detached(Buffer.from(envelopeHash, "hex"), step.keys.secretKey)),
+        signed_at_ms: createdAt + i * 1000,
+        scheme: "ed25519",
+      },
+      timestamp_ms: createdAt + i * 1000,
+      previous_round_hash: previous,
+      agent_id: step.agent,
+      public_key_b58: pub,
+      ...(envelope ? { actor_role: step.role, envelope } : {}),
+      ...(i === 0 && extra.roleBindings ? { content_summary: { role_bindings: extra.roleBindings } } : {}),
+      ...(step.settlement ? { settlement: step.settlement } : {}),
+    };
+    round.round_hash = sha256(stableCanonicalize(round));
+    previous = round.round_hash;
+    rounds.push(round);
+  });
+  return {
+    transcript_version: "pact-transcript/4.0",
+    transcript_id: "transcript-roles-test",
+    intent_id: intentId,
+    intent_type: "weather.data",
+    created_at_ms: createdAt,
+    policy_hash: sha256("policy"),
+    strategy_hash: sha256("strategy"),
+    identity_snapshot_hash: sha256("identity"),
+    rounds,
+    ...(extra.failureCode
+      ? {
+          failure_event: {
+            code: extra.failureCode,
+            stage: "settlement",
+            fault_domain: "settlement",
+            terminality: "non_terminal" as const,
+            evidence_refs: [previous],
+            timestamp: createdAt + 10000,
+            transcript_hash: "transcript-roles-test",
+          },
+        }
+      : {}),
+  };
+}
+
 describe("resolveBlameV1", () => {
   describe("Terminal Success", () => {
     it("should return NO_FAULT for terminal success (SUCCESS-001)", async () => {
@@ -942,4 +1029,179 @@ describe("resolveBlameV1", () => {
       expect(judgment.terminal).toBe(true);
     });
   });
+
+  describe("Explicit Actor Roles", () => {
+    // PACT-404 after buyer ACCEPT, with agent_ids that carry no role hint
+    function buildSettlementTimeout(extra: {
+      roleBindings?: Record<string, "BUYER" | "PROVIDER">;
+      actorRoles?: boolean;
+    } = {}): TranscriptV4 {
+      return buildSignedTranscript(
+        [
+          { type: "INTENT", agent: "acme-procurement", keys: buyerKeys, role: "BUYER" },
+          { type: "ASK", agent: "weather-co", keys: providerKeys, role: "PROVIDER" },
+          { type: "ACCEPT", agent: "acme-procurement", keys: buyerKeys, role: "BUYER" },
+        ],
+        { ...extra, failureCode: "PACT-404" }
+      );
+    }
+
+    it("returns INDETERMINATE when agent_ids carry no role and no binding exists", async () => {
+      const judgment = await resolveBlameV1(buildSettlementTimeout());
+
+      expect(judgment.dblDetermination).toBe("INDETERMINATE");
+    });
+
+    it("resolves settlement responsibility from INTENT role_bindings", async () => {
+      const transcript = buildSettlementTimeout({ roleBindings: { [buyerPub]: "BUYER", [providerPub]: "PROVIDER" } });
+      const judgment = await resolveBlameV1(transcript, { strictRoles: true });
+
+      expect(judgment.dblDetermination).toBe("PROVIDER_AT_FAULT");
+    });
+
+    it("resolves settlement responsibility from round actor_role", async () => {
+      const judgment = await resolveBlameV1(buildSettlementTimeout({ actorRoles: true }), { strictRoles: true });
+
+      expect(judgment.dblDetermination).toBe("PROVIDER_AT_FAULT");
+    });
+
+    // Rewrite a round and recompute the (unkeyed) round hash chain, as anyone holding the transcript can
+    function reseal(transcript: TranscriptV4, roundNumber: number, change: (round: TranscriptRound) => TranscriptRound): TranscriptV4 {
+      const rounds: TranscriptRound[] = [];
+      let previous = sha256(`${transcript.intent_id}:${transcript.created_at_ms}`);
+      for (const original of transcript.rounds) {
+        const { round_hash: _r, ...rest } = original.round_number === roundNumber ? change(original) : original;
+        const round: TranscriptRound = { ...rest, previous_round_hash: previous };
+        round.round_hash = sha256(stableCanonicalize(round));
+        previous = round.round_hash;
+        rounds.push(round);
+      }
+      return { ...transcript, rounds };
+    }
+
+    it("rejects an actor_role rewritten after signing", async () => {
+      const transcript = buildSettlementTimeout({ actorRoles: true });
+      expect((await replayTranscriptV4(transcript)).integrity_status).toBe("VALID");
+
+      // Swapping the provider's role in its envelope body breaks the signed envelope_hash
+      const rewritten = reseal(transcript, 1, (round) => ({
+        ...round,
+        actor_role: "BUYER",
+        envelope: { ...round.envelope, actor_role: "BUYER" },
+      }));
+      const replay = await replayTranscriptV4(rewritten);
+      expect(replay.integrity_status).toBe("TAMPERED");
+      expect(replay.errors[0]).toMatchObject({ type: "ENVELOPE_HASH_MISMATCH", round_number: 1 });
+      expect((await resolveBlameV1(rewritten, { strictRoles: true })).dblDetermination).not.toBe("PROVIDER_AT_FAULT");
+
+      // Changing only the unsigned copy is reported as well
+      const relabeled = reseal(transcript, 1, (round) => ({ ...round, actor_role: "BUYER" }));
+      const relabeledReplay = await replayTranscriptV4(relabeled);
+      expect(relabeledReplay.integrity_status).toBe("TAMPERED");
+      expect(relabeledReplay.errors[0].message).toMatch(/^actor_role mismatch at round 1/);
+    });
+
+    it("ignores an actor_role that is not in a signed envelope", async () => {
+      const transcript = buildSettlementTimeout();
+      const unsigned = {
+        ...transcript,
+        rounds: transcript.rounds.map((round, i) => ({ ...round, actor_role: i === 1 ? ("PROVIDER" as const) : ("BUYER" as const) })),
+      };
+      const resealed = reseal(unsigned, 0, (round) => round);
+
+      const replay = await replayTranscriptV4(resealed);
+      expect(replay.integrity_status).toBe("VALID");
+      expect(replay.warnings).toContain("actor_role at round 1 is not declared in a signed envelope and is ignored");
+      expect((await resolveBlameV1(resealed, { strictRoles: true })).dblDetermination).toBe("INDETERMINATE");
+    });
+
+    it("treats conflicting actor_role and binding as undeterminable", async () => {
+      const transcript = buildSettlementTimeout({
+        actorRoles: true,
+        roleBindings: { [buyerPub]: "PROVIDER", [providerPub]: "BUYER" },
+      });
+      const judgment = await resolveBlameV1(transcript);
+
+      expect(judgment.dblDetermination).toBe("INDETERMINATE");
+    });
+
+    it("drops agent_id name inference under strictRoles", async () => {
+      const transcript = loadFixture("compromised/PACT-404-settlement-timeout-finalhash-mismatch.json");
+
+      expect((await resolveBlameV1(transcript)).dblDetermination).toBe("PROVIDER_AT_FAULT");
+      expect((await resolveBlameV1(transcript, { strictRoles: true })).dblDetermination).toBe("INDETERMINATE");
+    });
+  });
+
+  describe("Settlement Rounds", () => {
+    const rail = { rail: "escrow", rail_ref: "esc-001", amount: 0.05, asset: "USDC" };
+    const negotiated: RoundPlan[] = [
+      { type: "INTENT", agent: "buyer", keys: buyerKeys, role: "BUYER" },
+      { type: "ASK", agent: "seller", keys: providerKeys, role: "PROVIDER" },
+      { type: "ACCEPT", agent: "buyer", keys: buyerKeys, role: "BUYER" },
+    ];
+    const attempt: RoundPlan = { type: "SETTLEMENT_ATTEMPT", agent: "buyer", keys: buyerKeys, role: "BUYER", settlement: rail };
+
+    it("treats SETTLEMENT_CONFIRMED as terminal success", async () => {
+      const transcript = buildSignedTranscript([
+        ...negotiated,
+        attempt,
+        { type: "SETTLEMENT_CONFIRMED", agent: "seller", keys: providerKeys, role: "PROVIDER", settlement: rail },
+      ]);
+      const judgment = await resolveBlameV1(transcript);
+
+      expect(judgment.status).toBe("OK");
+      expect(judgment.dblDetermination).toBe("NO_FAULT");
+      expect(judgment.terminal).toBe(true);
+    });
+
+    it("requires RAIL next after an unconfirmed SETTLEMENT_ATTEMPT", async () => {
+      const judgment = await resolveBlameV1(buildSignedTranscript([...negotiated, attempt]));
+
+      expect(judgment.dblDetermination).toBe("INDETERMINATE");
+      expect(judgment.requiredNextActor).toBe("RAIL");
+      expect(judgment.requiredAction).toBe("COMPLETE_SETTLEMENT_OR_REFUND");
+      expect(judgment.terminal).toBe(false);
+    });
+
+    it("applies the PACT-505 infra exception with a signed proof-of-attempt", async () => {
+      const transcript = buildSignedTranscript([...negotiated, attempt], { failureCode: "PACT-505" });
+      const judgment = await resolveBlameV1(transcript);
+
+      expect(judgment.dblDetermination).toBe("BUYER_RAIL_AT_FAULT");
+      expect(judgment.passportImpact).toBe(0.0);
+      expect(judgment.notes).toContain("SETTLEMENT_ATTEMPT at round 3");
+      expect(judgment.evidenceRefs).toContain(transcript.rounds[3].round_hash);
+    });
+
+    it("attributes PACT-404 after an unconfirmed attempt to the attempting party's rail", async () => {
+      const transcript = buildSignedTranscript([...negotiated, attempt], { failureCode: "PACT-404" });
+      const judgment = await resolveBlameV1(transcript);
+
+      expect(judgment.dblDetermination).toBe("BUYER_RAIL_AT_FAULT");
+      expect(judgment.requiredNextActor).toBe("RAIL");
+    });
+
+    it("does not treat a refunded attempt as proof-of-attempt", async () => {
+      const transcript = buildSignedTranscript(
+        [...negotiated, attempt, { type: "REFUND", agent: "seller", keys: providerKeys, role: "PROVIDER", settlement: rail }],
+        { failureCode: "PACT-505" }
+      );
+      const judgment = await resolveBlameV1(transcript);
+
+      expect(judgment.dblDetermination).toBe("INDETERMINATE");
+      expect(judgment.requiredNextActor).toBe("NONE");
+    });
+
+    it("rejects settlement rounds without a rail reference", async () => {
+      const transcript = buildSignedTranscript([
+        ...negotiated,
+        { type: "SETTLEMENT_ATTEMPT", agent: "buyer", keys: buyerKeys, role: "BUYER" },
+      ]);
+      const judgment = await resolveBlameV1(transcript);
+
+      expect(judgment.dblDetermination).toBe("INDETERMINATE");
+      expect(judgment.lastValidSummary).toContain("missing settlement rail reference");
+    });
+  });
 });
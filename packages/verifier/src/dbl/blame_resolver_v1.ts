@@ -24,8 +24,12 @@ import type {
   TranscriptRound,
   ReplayResult,
 } from "../util/transcript_types.js";
-import type { Sha256Async } from "../util/replay.js";
+import type { ReplayOptions } from "../util/replay.js";
 import { replayTranscriptV4 } from "../util/replay.js";
+import type { RoleBindings, RoleResolutionOptions } from "../util/actor_roles.js";
+import { getRoleBindings, resolveActorRole } from "../util/actor_roles.js";
+import type { ArbiterDecisionSummary } from "../arbiter/decision.js";
+import { resolveArbiterDecision } from "../arbiter/decision.js";
 
 // Use local ReplayResult type
 type ReplayResultV4 = ReplayResult;
@@ -71,6 +75,7 @@ export type JudgmentArtifact = {
     evidenceRefs: string[]; // trusted LVSH refs only
     claimedEvidenceRefs?: string[]; // untrusted refs, if needed
   }>;
+  arbiterDecision?: ArbiterDecisionSummary; // Present when arbiter_decision_ref resolves to a supplied decision
 };
 
 /**
@@ -188,33 +193,22 @@ function extractLVSH(
   };
 }
 
+/**
+ * Role context derived from the LVSH: INTENT role bindings plus the strictness flag.
+ */
+type RoleContext = {
+  bindings: RoleBindings | null;
+  options: RoleResolutionOptions;
+};
+
 /**
  * Determine actor role from transcript round.
- * Returns explicit role if present, otherwise attempts safe inference for fixtures.
+ * Prefers explicit sources (round actor_role, INTENT role_bindings); falls back to
+ * agent_id inference for fixture compatibility unless strictRoles is set.
  * Returns null if role cannot be determined (should result in INDETERMINATE).
- * 
- * NOTE: v4 schema currently only has agent_id (string), not explicit role fields.
- * This uses minimal inference for fixture compatibility but should return null
- * in production deployments where explicit role fields are required.
  */
-function getActorRole(round: TranscriptRound): "BUYER" | "PROVIDER" | null {
-  // TODO: Check if TranscriptRound schema has explicit role field (actor_role, party, side, etc.)
-  // For now, v4 schema only has agent_id, so we have minimal inference for fixture compatibility
-  // In production, this should require explicit role fields or return null
-  
-  const agentId = round.agent_id.toLowerCase();
-  
-  // Conservative inference for fixtures only
-  // Production deployments should require explicit role fields
-  if (agentId === "buyer" || agentId.includes("buyer")) {
-    return "BUYER";
-  }
-  if (agentId === "seller" || agentId === "provider" || 
-      agentId.includes("seller") || agentId.includes("provider")) {
-    return "PROVIDER";
-  }
-  
-  return null; // Cannot determine role
+function getActorRole(round: TranscriptRound, roles: RoleContext): "BUYER" | "PROVIDER" | null {
+  return resolveActorRole(round, roles.bindings, roles.options);
 }
 
 /**
@@ -306,6 +300,15 @@ function determineStateMachineFields(
     };
   }
 
+  // Settlement attempt awaiting rail confirmation => required_next_actor=RAIL, terminal=false
+  if (requiredNextActor === "RAIL") {
+    return {
+      requiredNextActor: "RAIL",
+      requiredAction: "COMPLETE_SETTLEMENT_OR_REFUND",
+      terminal: false,
+    };
+  }
+
   // Other failures => terminal=false, use state machine requiredNextActor
   if (requiredNextActor) {
     return {
@@ -328,7 +331,8 @@ function determineStateMachineFields(
  * Returns null if roles cannot be determined (should result in INDETERMINATE).
  */
 function determineNextRequiredActor(
-  validRounds: TranscriptRound[]
+  validRounds: TranscriptRound[],
+  roles: RoleContext
 ): "BUYER" | "PROVIDER" | "RAIL" | null {
   if (validRounds.length === 0) {
     return null;
@@ -336,7 +340,7 @@ function determineNextRequiredActor(
 
   const lastRound = validRounds[validRounds.length - 1];
   const lastRoundType = lastRound.round_type;
-  const lastRole = getActorRole(lastRound);
+  const lastRole = getActorRole(lastRound, roles);
 
   // State machine rules
   switch (lastRoundType) {
@@ -372,8 +376,14 @@ function determineNextRequiredActor(
       }
       return null; // Cannot determine without role
 
+    case "SETTLEMENT_ATTEMPT":
+      // Signed attempt submitted; the rail must confirm or refund
+      return "RAIL";
+
     case "REJECT":
     case "ABORT":
+    case "SETTLEMENT_CONFIRMED":
+    case "REFUND":
       // Terminal states
       return null;
 
@@ -391,27 +401,41 @@ function hasValidAccept(validRounds: TranscriptRound[]): boolean {
 
 /**
  * Check for proof of attempt (signed attempt artifact).
- * 
- * IMPORTANT: v4 schema does not include SETTLEMENT_ATTEMPT / WALLET_INTENT round types.
- * This means infra exception for PACT-505 cannot be constitutionally verified.
- * 
- * Returns false and notes should indicate infra exception not applicable.
+ *
+ * Proof-of-attempt is the last SETTLEMENT_ATTEMPT in the LVSH whose rail reference has
+ * not been resolved by a later SETTLEMENT_CONFIRMED or REFUND. The attempting party's
+ * role is resolved like any other round; without it the rail cannot be attributed.
  */
 function hasProofOfAttempt(
-  _lvsh: LVSHState
-): { hasProof: boolean; note?: string } {
-  // v4 schema round types: INTENT | ASK | BID | COUNTER | ACCEPT | REJECT | ABORT
-  // No settlement attempt types exist, so we cannot constitutionally verify proof-of-attempt
-  
+  lvsh: LVSHState,
+  roles: RoleContext
+): { hasProof: boolean; attemptRound?: TranscriptRound; attemptRole?: "BUYER" | "PROVIDER" | null; note?: string } {
+  const resolved = new Set<string>();
+  for (let i = lvsh.validRounds.length - 1; i >= 0; i--) {
+    const round = lvsh.validRounds[i];
+    const key = `${round.settlement?.rail}:${round.settlement?.rail_ref}`;
+    if (round.round_type === "SETTLEMENT_CONFIRMED" || round.round_type === "REFUND") {
+      resolved.add(key);
+    } else if (round.round_type === "SETTLEMENT_ATTEMPT" && !resolved.has(key)) {
+      return {
+        hasProof: true,
+        attemptRound: round,
+        attemptRole: getActorRole(round, roles),
+        note: `Signed SETTLEMENT_ATTEMPT at round ${round.round_number} (${key}) has no confirmation or refund in LVSH`,
+      };
+    }
+  }
+
   return {
     hasProof: false,
-    note: "v4 transcript schema does not include signed attempt round types; infra exception not applicable"
+    note: "No unresolved signed SETTLEMENT_ATTEMPT in LVSH; infra exception not applicable"
   };
 }
 
 /**
  * Check if transcript is terminal success.
- * v4 success appears to end with ACCEPT (based on fixtures).
+ * Success is a last valid round of ACCEPT (no settlement rounds recorded),
+ * SETTLEMENT_CONFIRMED, or REFUND (settlement unwound cleanly).
  */
 function isTerminalSuccess(
   transcript: TranscriptV4,
@@ -427,15 +451,19 @@ function isTerminalSuccess(
 
   const lastRound = lvsh.validRounds[lvsh.validRounds.length - 1];
   
-  // v4 success ends with ACCEPT (no COMMIT/SETTLE in current schema)
-  return lastRound.round_type === "ACCEPT";
+  return (
+    lastRound.round_type === "ACCEPT" ||
+    lastRound.round_type === "SETTLEMENT_CONFIRMED" ||
+    lastRound.round_type === "REFUND"
+  );
 }
 
 /**
  * Determine who is responsible for settlement step after ACCEPT.
  */
 function getSettlementResponsible(
-  validRounds: TranscriptRound[]
+  validRounds: TranscriptRound[],
+  roles: RoleContext
 ): "BUYER" | "PROVIDER" | null {
   // Find the last ACCEPT
   const acceptRound = validRounds
@@ -447,7 +475,7 @@ function getSettlementResponsible(
     return null;
   }
 
-  const acceptRole = getActorRole(acceptRound);
+  const acceptRole = getActorRole(acceptRound, roles);
   
   if (acceptRole === "BUYER") {
     return "PROVIDER"; // Provider executes after buyer accepts
@@ -485,6 +513,19 @@ function collectTrustedEvidenceRefs(
     }
   }
 
+  // Include last SETTLEMENT_ATTEMPT round hash if it exists (proof-of-attempt)
+  const attemptRound = lvsh.validRounds
+    .slice()
+    .reverse()
+    .find((round) => round.round_type === "SETTLEMENT_ATTEMPT");
+
+  if (attemptRound) {
+    const attemptHash = getRoundHash(attemptRound);
+    if (attemptHash && !refs.includes(attemptHash)) {
+      refs.push(attemptHash);
+    }
+  }
+
   return refs;
 }
 
@@ -513,7 +554,7 @@ function collectTrustedEvidenceRefs(
  */
 export async function resolveBlameV1(
   transcriptPathOrObject: string | TranscriptV4,
-  options?: { sha256Async?: Sha256Async }
+  options?: Omit<ReplayOptions, "mode"> & RoleResolutionOptions
 ): Promise<JudgmentArtifact> {
   // Load transcript (path string only in Node; browser must pass transcript object so we never load node:fs)
   let transcript: TranscriptV4;
@@ -525,17 +566,24 @@ export async function resolveBlameV1(
   }
 
   // Use canonical replay verifier (single verification kernel)
-  const replayResult = await replayTranscriptV4(transcript, options);
+  const { strictRoles, ...replayOptions } = options ?? {};
+  const { arbiterDecisions, trustedArbiterKeys } = replayOptions;
+  const replayResult = await replayTranscriptV4(transcript, replayOptions);
 
   // Extract LVSH from replay result
   const lvsh = extractLVSH(transcript, replayResult);
 
   // Determine required next actor (may be null if roles cannot be determined)
-  const requiredNextActor = determineNextRequiredActor(lvsh.validRounds);
+  // Role bindings are only trusted from the signed INTENT round inside the LVSH
+  const roles: RoleContext = {
+    bindings: getRoleBindings(lvsh.validRounds),
+    options: { strictRoles },
+  };
+  const requiredNextActor = determineNextRequiredActor(lvsh.validRounds, roles);
 
-  // Check for integrity failure (hash chain broken)
+  // Check for integrity failure (hash chain broken, bad signature, or signed hash not matching its body)
   const hasIntegrityFailure = replayResult.errors.some(
-    (e) => e.type === "HASH_CHAIN_BROKEN" || e.type === "SIGNATURE_INVALID"
+    (e) => e.type === "HASH_CHAIN_BROKEN" || e.type === "SIGNATURE_INVALID" || e.type === "ENVELOPE_HASH_MISMATCH"
   );
 
   // Initialize base artifact with v2 fields (defaults to NONE)
@@ -564,6 +612,15 @@ export async function resolveBlameV1(
   // Collect trusted evidence refs (only signed LVSH hashes)
   artifact.evidenceRefs = collectTrustedEvidenceRefs(lvsh);
 
+  // Arbiter decision is reported alongside (not instead of) the DBL determination
+  if (arbiterDecisions && arbiterDecisions.length > 0) {
+    const arbiterDecision = await resolveArbiterDecision(transcript, arbiterDecisions, {
+      sha256Async: replayOptions.sha256Async,
+      trustedArbiterKeys,
+    });
+    if (arbiterDecision) artifact.arbiterDecision = arbiterDecision;
+  }
+
   // If FINAL_HASH_MISMATCH is present, add note and reduce confidence
   // Container integrity check failed, but rounds are still valid
   if (lvsh.hasFinalHashMismatch) {
@@ -863,9 +920,25 @@ export async function resolveBlameV1(
         artifact.recommendation = "Cannot determine required actor";
       }
     } else {
-      // Valid ACCEPT exists -> fault = party responsible for next settlement step
-      const settlementResponsible = getSettlementResponsible(lvsh.validRounds);
-      if (settlementResponsible === "BUYER") {
+      // Valid ACCEPT exists -> unresolved signed attempt shifts fault to that party's rail (Rule E),
+      // otherwise fault = party responsible for next settlement step
+      const attempt = hasProofOfAttempt(lvsh, roles);
+      const settlementResponsible = getSettlementResponsible(lvsh.validRounds, roles);
+      if (attempt.hasProof && attempt.attemptRole) {
+        artifact.dblDetermination = attempt.attemptRole === "BUYER" ? "BUYER_RAIL_AT_FAULT" : "PROVIDER_RAIL_AT_FAULT";
+        // Reduce confidence if final_hash mismatch (0.85 -> 0.80)
+        artifact.confidence = lvsh.hasFinalHashMismatch ? 0.80 : 0.85;
+        artifact.passportImpact = 0.0;
+        artifact.recommendation = "Settlement rail failed to confirm a signed settlement attempt";
+        artifact.notes = lvsh.hasFinalHashMismatch
+          ? `${attempt.note}. Container final hash mismatch; LVSH computed from signed rounds only.`
+          : attempt.note;
+      } else if (attempt.hasProof) {
+        artifact.dblDetermination = "INDETERMINATE";
+        artifact.confidence = 0.5;
+        artifact.passportImpact = 0.0;
+        artifact.recommendation = "Cannot determine which party's rail holds the settlement attempt";
+      } else if (settlementResponsible === "BUYER") {
         artifact.dblDetermination = "BUYER_AT_FAULT";
         // Reduce confidence if final_hash mismatch (0.85 -> 0.80)
         artifact.confidence = lvsh.hasFinalHashMismatch ? 0.80 : 0.85;
@@ -898,17 +971,26 @@ export async function resolveBlameV1(
 
   // Rule 7: PACT-505 (infrastructure/recursive failure)
   if (failureCode === "PACT-505") {
-    const proofCheck = hasProofOfAttempt(lvsh);
+    const proofCheck = hasProofOfAttempt(lvsh, roles);
 
-    // v4 schema does not support signed attempt types, so infra exception is not applicable
-    // Use continuity rule instead
-    if (requiredNextActor === "BUYER") {
+    // Infra exception: an unresolved signed SETTLEMENT_ATTEMPT attributes the failure to the attempting party's rail.
+    // Without proof-of-attempt, use continuity rule instead
+    if (proofCheck.hasProof && proofCheck.attemptRole) {
+      artifact.dblDetermination = proofCheck.attemptRole === "BUYER" ? "BUYER_RAIL_AT_FAULT" : "PROVIDER_RAIL_AT_FAULT";
+      // Reduce confidence if final_hash mismatch (0.8 -> 0.75)
+      artifact.confidence = lvsh.hasFinalHashMismatch ? 0.75 : 0.8;
+      artifact.passportImpact = 0.0;
+      artifact.recommendation = "Infrastructure failure after signed settlement attempt (infra exception)";
+      artifact.notes = lvsh.hasFinalHashMismatch 
+        ? `${proofCheck.note}. Container final hash mismatch; LVSH computed from signed rounds only.`
+        : proofCheck.note;
+    } else if (requiredNextActor === "BUYER") {
       artifact.dblDetermination = "BUYER_AT_FAULT";
       // Reduce confidence if final_hash mismatch (0.8 -> 0.75)
       artifact.confidence = lvsh.hasFinalHashMismatch ? 0.75 : 0.8;
       artifact.passportImpact = -0.05;
       artifact.recommendation = "Buyer failed to respond (continuity rule)";
-      const baseNote = proofCheck.note || "PACT-505 present but no signed Proof-of-Attempt types exist in v4 schema; infra exception not applicable";
+      const baseNote = proofCheck.note || "PACT-505 present but no signed Proof-of-Attempt in LVSH; infra exception not applicable";
       artifact.notes = lvsh.hasFinalHashMismatch 
         ? `${baseNote}. Container final hash mismatch; LVSH computed from signed rounds only.`
         : baseNote;
@@ -918,7 +1000,7 @@ export async function resolveBlameV1(
       artifact.confidence = lvsh.hasFinalHashMismatch ? 0.75 : 0.8;
       artifact.passportImpact = -0.05;
       artifact.recommendation = "Provider failed to respond (continuity rule)";
-      const baseNote = proofCheck.note || "PACT-505 present but no signed Proof-of-Attempt types exist in v4 schema; infra exception not applicable";
+      const baseNote = proofCheck.note || "PACT-505 present but no signed Proof-of-Attempt in LVSH; infra exception not applicable";
       artifact.notes = lvsh.hasFinalHashMismatch 
         ? `${baseNote}. Container final hash mismatch; LVSH computed from signed rounds only.`
         : baseNote;
@@ -955,6 +1037,13 @@ export async function resolveBlameV1(
     artifact.confidence = lvsh.hasFinalHashMismatch ? 0.65 : 0.7;
     artifact.passportImpact = -0.05;
     artifact.recommendation = "Provider failed to respond (continuity rule)";
+  } else if (requiredNextActor === "RAIL") {
+    // Signed settlement attempt still awaiting rail confirmation; no party has defaulted yet
+    artifact.status = "INDETERMINATE";
+    artifact.dblDetermination = "INDETERMINATE";
+    artifact.confidence = 0.5;
+    artifact.passportImpact = 0.0;
+    artifact.recommendation = "Settlement attempt awaiting rail confirmation or refund";
   } else {
     artifact.status = "INDETERMINATE";
     artifact.dblDetermination = "INDETERMINATE";
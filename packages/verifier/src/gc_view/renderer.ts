@@ -11,7 +11,18 @@ import type { Sha256Async } from "../util/replay.js";
 import { replayTranscriptV4 } from "../util/replay.js";
 import { resolveBlameV1 } from "../dbl/blame_resolver_v1.js";
 import { stableCanonicalize } from "../util/canonical_pure.js";
-import { isAcceptedConstitutionHash } from "../util/constitution_hashes.js";
+import type { RoleResolutionOptions } from "../util/actor_roles.js";
+import { explicitActorRole, findExplicitSigner, getRoleBindings } from "../util/actor_roles.js";
+import {
+  isAcceptedConstitutionHash,
+  getConstitutionEntry,
+  DEFAULT_CONSTITUTION,
+  type ConstitutionEntry,
+  type ConstitutionRuleTrigger,
+} from "../util/constitution_hashes.js";
+import type { PolicyEvaluationReport } from "../policy/evaluator.js";
+import type { ArbiterDecisionSummary } from "../arbiter/decision.js";
+import { evaluatePolicyForTranscript } from "../policy/evaluator.js";
 
 /** Human-readable description from FailureEvent (type has no message; use code/stage). */
 function failureEventDescription(f?: FailureEvent): string {
@@ -40,78 +51,45 @@ async function computeTranscriptHashAsync(
 
 /**
  * Determine which constitution rules are applied based on verification results.
- * Maps to rule IDs from Constitution v1: DET-1, INT-1, INT-2, INT-3, LVSH-1, EVD-1, EVD-2, DBL-1, DBL-2, PAS-1, GC-1
+ * Rule IDs and their triggers come from the constitution's registry entry (util/constitution_hashes.ts).
  */
 function determineRulesApplied(
+  constitution: ConstitutionEntry,
   integrity: GCView["integrity"],
   judgment: JudgmentArtifact | null,
   evidenceIndex: GCView["evidence_index"],
   _hasPolicy: boolean,
   passportGatingUsed: boolean
 ): string[] {
-  const rules: string[] = [];
-  
-  // DET-1: Determinism Rule - always applied (verification is deterministic)
-  rules.push("DET-1");
-  
-  // INT-1: Hash Chain Integrity - applied if hash chain is validated
-  if (integrity.hash_chain === "VALID" || integrity.hash_chain === "INVALID") {
-    rules.push("INT-1");
-  }
-  
-  // INT-2: Signature Verification - applied if signatures are verified
-  if (integrity.signatures_verified.total > 0) {
-    rules.push("INT-2");
-  }
-  
-  // INT-3: Final/Container Hash Validation - applied if final hash validation occurs
-  if (integrity.final_hash_validation === "MATCH" || 
-      integrity.final_hash_validation === "MISMATCH" || 
-      integrity.final_hash_validation === "UNVERIFIABLE") {
-    rules.push("INT-3");
-  }
-  
-  // LVSH-1: Last Valid Signed Hash - applied if judgment exists (LVSH computed)
-  if (judgment?.lastValidHash) {
-    rules.push("LVSH-1");
-  }
-  
-  // EVD-1: Trusted Evidence - applied if trusted evidence is used
-  if (evidenceIndex.trusted.length > 0) {
-    rules.push("EVD-1");
-  }
-  
-  // EVD-2: Claimed Evidence - applied if claimed evidence exists
-  if (evidenceIndex.claimed.length > 0) {
-    rules.push("EVD-2");
-  }
-  
-  // DBL-1: Default Blame Logic - applied if judgment exists
-  if (judgment) {
-    rules.push("DBL-1");
-  }
-  
-  // DBL-2: Required Next Actor - applied if judgment has requiredNextActor
-  if (judgment?.requiredNextActor) {
-    rules.push("DBL-2");
-  }
-  
-  // PAS-1: Passport & Reputation - applied if passport gating was used
-  if (passportGatingUsed) {
-    rules.push("PAS-1");
-  }
-  
-  // GC-1: GC View Interpretation - always applied (GC View is being generated)
-  rules.push("GC-1");
-  
+  const triggered: Record<ConstitutionRuleTrigger, boolean> = {
+    // Verification is deterministic and the GC View is being generated
+    ALWAYS: true,
+    HASH_CHAIN_CHECKED: integrity.hash_chain === "VALID" || integrity.hash_chain === "INVALID",
+    SIGNATURES_VERIFIED: integrity.signatures_verified.total > 0,
+    FINAL_HASH_CHECKED:
+      integrity.final_hash_validation === "MATCH" ||
+      integrity.final_hash_validation === "MISMATCH" ||
+      integrity.final_hash_validation === "UNVERIFIABLE",
+    LVSH_COMPUTED: !!judgment?.lastValidHash,
+    TRUSTED_EVIDENCE: evidenceIndex.trusted.length > 0,
+    CLAIMED_EVIDENCE: evidenceIndex.claimed.length > 0,
+    JUDGMENT: !!judgment,
+    REQUIRED_NEXT_ACTOR: !!judgment?.requiredNextActor,
+    PASSPORT_GATING: passportGatingUsed,
+  };
+
   // Sort for determinism
-  return rules.sort();
+  return constitution.rules
+    .filter((rule) => triggered[rule.applies_when])
+    .map((rule) => rule.id)
+    .sort();
 }
 
 export interface GCView {
   version: "gc_view/1.0";
   constitution: {
-    version: "constitution/1.0";
+    /** Version of the constitution the rules were applied under (registry entry for hash). */
+    version: string;
     hash: string;
     rules_applied: string[];
   };
@@ -168,6 +146,8 @@ export interface GCView {
       message: string;
       evidence_refs: string[];
     }>;
+    /** Rule-by-rule re-evaluation of a supplied pact-policy/4.0 document (only with --policy). */
+    evaluation?: PolicyEvaluationReport;
   };
   /** Optional audit tier metadata (informational only; default T1). Does not affect verification. */
   audit?: {
@@ -187,6 +167,8 @@ export interface GCView {
     };
     last_valid_signed_hash: string;
     blame_explanation: string;
+    /** Arbiter decision resolved from arbiter_decision_ref (only when supplied, e.g. from an auditor pack). */
+    arbiter_decision?: ArbiterDecisionSummary;
   };
   responsibility_trace: string[];
   evidence_index: {
@@ -210,10 +192,13 @@ export interface GCView {
 
 /**
  * Extract parties from transcript rounds.
+ * Explicit roles (round actor_role / INTENT role_bindings) win; otherwise roles are inferred
+ * from agent_id (skipped when strictRoles) and round type.
  */
-function extractParties(transcript: TranscriptV4): GCView["subject"]["parties"] {
+function extractParties(transcript: TranscriptV4, roleOptions: RoleResolutionOptions = {}): GCView["subject"]["parties"] {
   const parties: GCView["subject"]["parties"] = [];
   const seenSigners = new Set<string>();
+  const bindings = getRoleBindings(transcript.rounds);
   
   // Find buyer and provider from rounds
   for (const round of transcript.rounds) {
@@ -222,11 +207,15 @@ function extractParties(transcript: TranscriptV4): GCView["subject"]["parties"]
     
     seenSigners.add(signerKey);
     
-    // Determine role from agent_id or round type
+    // Determine role from explicit binding, agent_id or round type
     let role: "buyer" | "provider" = "buyer";
-    if (round.agent_id === "seller" || round.agent_id === "provider") {
+    const explicitRole = explicitActorRole(round, bindings);
+    const agentLabel = roleOptions.strictRoles ? undefined : round.agent_id;
+    if (explicitRole) {
+      role = explicitRole === "PROVIDER" ? "provider" : "buyer";
+    } else if (agentLabel === "seller" || agentLabel === "provider") {
       role = "provider";
-    } else if (round.round_type === "INTENT" && round.agent_id === "buyer") {
+    } else if (round.round_type === "INTENT" && agentLabel === "buyer") {
       role = "buyer";
     } else if (round.round_type === "ASK" || round.round_type === "BID") {
       // ASK is from provider, BID is from buyer
@@ -623,7 +612,7 @@ function generateGCTakeaways(
   integrity: GCView["integrity"],
   judgment: JudgmentArtifact | null,
   policyFailures: GCView["policy"]["policy_failures"],
-  constitution: { version: "constitution/1.0"; hash: string }
+  constitution: { version: string; hash: string }
 ): GCView["gc_takeaways"] {
   let approval_risk: "LOW" | "MEDIUM" | "HIGH" = "LOW";
   const why: string[] = [];
@@ -951,14 +940,29 @@ export async function renderGCView(
     constitutionContent?: string;
     /** When provided, passed to replay and used for hashing (no Node crypto). */
     sha256Async?: Sha256Async;
+    /** When true, party roles come only from actor_role / INTENT role_bindings and round type, never agent_id names. */
+    strictRoles?: boolean;
+    /** pact-policy/4.0 document to re-evaluate against the transcript (adds policy.evaluation). */
+    policy?: unknown;
+    /** Candidate pact-arbiter-decision/4.0 documents; the one matching arbiter_decision_ref is surfaced. */
+    arbiterDecisions?: unknown[];
+    /** Trusted arbiter public keys (base58); a surfaced decision is only verified when signed by one of them. */
+    trustedArbiterKeys?: string[];
   } = {}
 ): Promise<GCView> {
-  const replayOptions = options.sha256Async ? { sha256Async: options.sha256Async } : undefined;
+  const replayOptions = {
+    ...(options.sha256Async ? { sha256Async: options.sha256Async } : {}),
+    arbiterDecisions: options.arbiterDecisions,
+    trustedArbiterKeys: options.trustedArbiterKeys,
+  };
   const replayResult = await replayTranscriptV4(transcript as any, replayOptions);
 
   let judgment: JudgmentArtifact | null = null;
   try {
-    judgment = await resolveBlameV1(transcript, replayOptions);
+    judgment = await resolveBlameV1(transcript, {
+      ...replayOptions,
+      strictRoles: options.strictRoles,
+    });
   } catch (error) {
     // Judgment computation failed, continue without it
   }
@@ -967,7 +971,8 @@ export async function renderGCView(
   const status = determineStatus(transcript, replayResult);
   
   // Extract parties
-  const parties = extractParties(transcript);
+  const roleOptions: RoleResolutionOptions = { strictRoles: options.strictRoles };
+  const parties = extractParties(transcript, roleOptions);
   
   // Extract asset/amount
   const { asset, amount } = extractAssetAndAmount(transcript);
@@ -991,6 +996,11 @@ export async function renderGCView(
 
   const evidenceIndex = await extractEvidenceIndex(transcript, judgment, hashFn);
 
+  const policyEvaluation =
+    options.policy !== undefined
+      ? await evaluatePolicyForTranscript(transcript, options.policy, { sha256Async: options.sha256Async })
+      : null;
+
   const hashChainBroken = replayResult.errors.some((e) => e.type === "HASH_CHAIN_BROKEN");
   let finalHashValidation: "MATCH" | "MISMATCH" | "UNVERIFIABLE";
   let finalHashMismatch: boolean | null;
@@ -1024,20 +1034,27 @@ export async function renderGCView(
     notes: [...replayResult.warnings],
   };
 
-  let constitution: { version: "constitution/1.0"; hash: string };
+  let constitution: { version: string; hash: string };
   if (options.constitutionContent != null && options.sha256Async != null) {
     const canonicalContent = canonicalizeConstitutionContent(options.constitutionContent);
     const hash = await options.sha256Async(canonicalContent);
-    constitution = { version: "constitution/1.0", hash };
+    constitution = { version: (getConstitutionEntry(hash) ?? DEFAULT_CONSTITUTION).version, hash };
   } else {
     const { loadConstitution } = await import("../load_constitution_node.js");
     constitution = loadConstitution(options.constitutionPath);
   }
   
-  // Determine which rules are applied
+  // Determine which rules are applied (non-standard constitutions are evaluated under the default rule set)
   const hasPolicy = !!transcript.policy_hash;
   const passportGatingUsed = checkPassportGating(transcript);
-  const rulesApplied = determineRulesApplied(integrity, judgment, evidenceIndex, hasPolicy, passportGatingUsed);
+  const rulesApplied = determineRulesApplied(
+    getConstitutionEntry(constitution.hash) ?? DEFAULT_CONSTITUTION,
+    integrity,
+    judgment,
+    evidenceIndex,
+    hasPolicy,
+    passportGatingUsed
+  );
   
   // Build GC view
   const gcView: GCView = {
@@ -1073,6 +1090,7 @@ export async function renderGCView(
       passport_gating_used: checkPassportGating(transcript),
       passport_state_hashes: extractPassportStateHashes(transcript),
       policy_failures: policyFailures,
+      ...(policyEvaluation ? { evaluation: policyEvaluation } : {}),
     },
     ...(transcript.metadata?.audit_tier != null || transcript.metadata?.audit_sla != null
       ? {
@@ -1090,11 +1108,12 @@ export async function renderGCView(
         required_next_actor: judgment?.requiredNextActor || "NONE",
         required_action: judgment?.requiredAction || "NONE",
         terminal: judgment?.terminal ?? false,
-        responsible_signer_pubkey: judgment ? extractResponsibleSigner(transcript, judgment) : undefined,
+        responsible_signer_pubkey: judgment ? extractResponsibleSigner(transcript, judgment, roleOptions) : undefined,
         confidence: judgment?.confidence ?? 0,
       },
       last_valid_signed_hash: judgment?.lastValidHash || transcript.rounds[transcript.rounds.length - 1]?.round_hash || "",
       blame_explanation: judgment?.recommendation || "No judgment available",
+      ...(judgment?.arbiterDecision ? { arbiter_decision: judgment.arbiterDecision } : {}),
     },
     responsibility_trace: generateResponsibilityTrace(transcript, judgment, integrity),
     evidence_index: evidenceIndex,
@@ -1114,22 +1133,32 @@ export async function renderGCView(
 
 /**
  * Extract responsible signer pubkey from judgment.
+ * Explicit roles win; otherwise falls back to agent_id (unless strictRoles) and round type.
  */
-function extractResponsibleSigner(transcript: TranscriptV4, judgment: JudgmentArtifact): string | undefined {
+function extractResponsibleSigner(
+  transcript: TranscriptV4,
+  judgment: JudgmentArtifact,
+  roleOptions: RoleResolutionOptions = {}
+): string | undefined {
   // If judgment indicates buyer/provider fault, find their signer key
   if (judgment.dblDetermination === "BUYER_AT_FAULT" || judgment.dblDetermination === "BUYER_RAIL_AT_FAULT") {
+    const explicitSigner = findExplicitSigner(transcript.rounds, "BUYER");
+    if (explicitSigner) return explicitSigner;
     // Find buyer signer key
     for (const round of transcript.rounds) {
-      if (round.agent_id === "buyer" || round.round_type === "INTENT") {
+      if ((!roleOptions.strictRoles && round.agent_id === "buyer") || round.round_type === "INTENT") {
         return round.signature?.signer_public_key_b58 || round.public_key_b58;
       }
     }
   }
   
   if (judgment.dblDetermination === "PROVIDER_AT_FAULT" || judgment.dblDetermination === "PROVIDER_RAIL_AT_FAULT") {
+    const explicitSigner = findExplicitSigner(transcript.rounds, "PROVIDER");
+    if (explicitSigner) return explicitSigner;
     // Find provider signer key
     for (const round of transcript.rounds) {
-      if (round.agent_id === "seller" || round.agent_id === "provider" || round.round_type === "ASK") {
+      const named = !roleOptions.strictRoles && (round.agent_id === "seller" || round.agent_id === "provider");
+      if (named || round.round_type === "ASK") {
         return round.signature?.signer_public_key_b58 || round.public_key_b58;
       }
     }
@@ -7,6 +7,7 @@ import { readFileSync, existsSync } from "node:fs";
 import { join, dirname, resolve } from "node:path";
 import { fileURLToPath } from "node:url";
 import { sha256Hex } from "./util/sha256.js";
+import { constitutionVersionForHash } from "./util/constitution_hashes.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -48,7 +49,8 @@ export function getConstitutionContent(constitutionPath?: string): string {
   return readFileSync(getConstitutionPath(constitutionPath), "utf8");
 }
 
-export function loadConstitution(constitutionPath?: string): { version: "constitution/1.0"; hash: string } {
+/** Hash of the canonicalized constitution and its registry version. */
+export function loadConstitution(constitutionPath?: string): { version: string; hash: string } {
   const content = getConstitutionContent(constitutionPath);
   const canonicalContent = content
     .replace(/\r\n/g, "\n")
@@ -57,5 +59,5 @@ export function loadConstitution(constitutionPath?: string): { version: "constit
     .map((line) => line.replace(/\s+$/, ""))
     .join("\n");
   const hash = sha256Hex(canonicalContent);
-  return { version: "constitution/1.0", hash };
+  return { version: constitutionVersionForHash(hash), hash };
 }
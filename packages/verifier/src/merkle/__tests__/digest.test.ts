@@ -0,0 +1,97 @@
+/**
+ * Tests for pact-merkle-digest/1 (tree construction and inclusion proofs).
+ */
+
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "fs";
+import { resolve, dirname } from "path";
+import { fileURLToPath } from "url";
+import { createHash } from "node:crypto";
+import type { TranscriptV4 } from "../../util/transcript_types.js";
+import { computeTranscriptHash } from "../../util/replay.js";
+import {
+  buildMerkleDigest,
+  computeLeafHash,
+  computeRootFromProof,
+  inclusionProofFor,
+  verifyInclusionProof,
+} from "../digest.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const repoRoot = resolve(__dirname, "../../../../..");
+
+function loadFixture(fixturePath: string): TranscriptV4 {
+  return JSON.parse(readFileSync(resolve(repoRoot, fixturePath), "utf8"));
+}
+
+const sha256 = (s: string) => createHash("sha256").update(s, "utf8").digest("hex");
+
+/** Distinct transcripts differing only in transcript_id (content-derived leaves differ). */
+function batch(n: number): TranscriptV4[] {
+  const base = loadFixture("fixtures/success/SUCCESS-001-simple.json");
+  return Array.from({ length: n }, (_, i) => ({ ...base, transcript_id: `transcript-${String(i).padStart(4, "0")}` }));
+}
+
+describe("Merkle digest", () => {
+  it("uses computeTranscriptHash leaves, with or without an injected sha256", async () => {
+    const transcript = loadFixture("fixtures/success/SUCCESS-002-negotiated.json");
+    const leaf = await computeTranscriptHash(transcript);
+    expect(await computeLeafHash(transcript)).toBe(leaf);
+    expect(await computeLeafHash(transcript, async (s) => sha256(s))).toBe(leaf);
+  });
+
+  it("is independent of input order and collapses duplicate content", async () => {
+    const transcripts = batch(5);
+    const a = await buildMerkleDigest(transcripts, { dateUtc: "2026-01-31" });
+    const b = await buildMerkleDigest([...transcripts].reverse().concat(transcripts[2]), { dateUtc: "2026-01-31" });
+    expect(b).toEqual(a);
+    expect(a.tree_size).toBe(5);
+    const leafHashes = a.leaves.map((l) => l.leaf_hash);
+    expect(leafHashes).toEqual([...leafHashes].sort());
+  });
+
+  it("builds a single-leaf tree whose root is the leaf node", async () => {
+    const digest = await buildMerkleDigest(batch(1), { dateUtc: "2026-01-31" });
+    expect(digest.root).toBe(sha256(`leaf:${digest.leaves[0].leaf_hash}`));
+    expect(digest.leaves[0].proof).toEqual([]);
+  });
+
+  it("produces proofs that recompute the root for every leaf and tree size", async () => {
+    for (const n of [2, 3, 4, 5, 7, 8, 9]) {
+      const digest = await buildMerkleDigest(batch(n), { dateUtc: "2026-01-31" });
+      for (const leaf of digest.leaves) {
+        expect(await computeRootFromProof(leaf.leaf_hash, leaf.proof, leaf.leaf_index, n)).toBe(digest.root);
+      }
+    }
+  });
+
+  it("verifies inclusion against the transcript content and the held root", async () => {
+    const transcripts = batch(6);
+    const digest = await buildMerkleDigest(transcripts, { dateUtc: "2026-01-31", constitutionHash: "c".repeat(64) });
+    const proof = inclusionProofFor(digest, transcripts[3].transcript_id)!;
+
+    const ok = await verifyInclusionProof(proof, {
+      transcript: transcripts[3],
+      expectedRoot: digest.root,
+      expectedConstitutionHash: "c".repeat(64),
+    });
+    expect(ok).toMatchObject({ ok: true, leaf_hash_ok: true, proof_ok: true, root_ok: true, constitution_hash_ok: true });
+
+    const edited = { ...transcripts[3], intent_type: "art.acquisition" };
+    const wrongLeaf = await verifyInclusionProof(proof, { transcript: edited, expectedRoot: digest.root });
+    expect(wrongLeaf.ok).toBe(false);
+    expect(wrongLeaf.leaf_hash_ok).toBe(false);
+
+    const otherRoot = await verifyInclusionProof(proof, { transcript: transcripts[3], expectedRoot: "0".repeat(64) });
+    expect(otherRoot.ok).toBe(false);
+    expect(otherRoot.root_ok).toBe(false);
+
+    const badPath = await verifyInclusionProof({ ...proof, proof: [...proof.proof].reverse() }, { transcript: transcripts[3] });
+    expect(badPath.proof_ok).toBe(false);
+
+    const shortPath = await verifyInclusionProof({ ...proof, proof: proof.proof.slice(1) });
+    expect(shortPath.proof_ok).toBe(false);
+    expect(shortPath.errors[0]).toContain("does not fit");
+  });
+});
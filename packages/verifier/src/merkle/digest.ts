@@ -0,0 +1,300 @@
+/**
+ * Merkle digest over transcript batches (pact-merkle-digest/1), no Node deps at load time.
+ *
+ * - leaf_hash = computeTranscriptHash(transcript): sha256(stableCanonicalize(transcript without final_hash))
+ * - Leaves are de-duplicated and sorted by leaf_hash, so the root depends only on transcript content.
+ * - Leaf node = sha256("leaf:" + leaf_hash); interior node = sha256("node:" + left + right) (hex strings).
+ *   The prefixes keep a leaf from being replayed as an interior node.
+ * - An odd node at the end of a level is promoted unchanged (no duplication).
+ *
+ * An inclusion proof is the list of sibling hashes from leaf to root; sibling sides follow from
+ * leaf_index and tree_size, so proofs are plain string arrays.
+ */
+
+import type { TranscriptV4 } from "../util/transcript_types.js";
+import type { Sha256Async } from "../util/replay.js";
+import { computeTranscriptHash } from "../util/replay.js";
+import { stableCanonicalize } from "../util/canonical_pure.js";
+
+export const MERKLE_DIGEST_VERSION = "pact-merkle-digest/1";
+
+/** Pack path for a transcript's inclusion proof (reserved in ADDITIVE_FIELD_WHITELIST_v4x.md). */
+export const MERKLE_PROOF_PACK_PATH = "derived/merkle_digest.json";
+
+export type MerkleDigestLeaf = {
+  transcript_id: string;
+  leaf_hash: string;
+  leaf_index: number;
+  proof: string[];
+};
+
+/** Batch digest: the root a counterparty holds, plus every leaf with its proof. */
+export type MerkleDigestV1 = {
+  version: typeof MERKLE_DIGEST_VERSION;
+  date_utc: string;
+  root: string;
+  tree_size: number;
+  constitution_hash?: string;
+  leaves: MerkleDigestLeaf[];
+};
+
+/** Single-transcript inclusion proof (the shape stored at derived/merkle_digest.json). */
+export type MerkleInclusionProof = {
+  version: typeof MERKLE_DIGEST_VERSION;
+  date_utc: string;
+  root: string;
+  transcript_id: string;
+  leaf_hash: string;
+  proof: string[];
+  leaf_index: number;
+  tree_size: number;
+  constitution_hash?: string;
+};
+
+export type MerkleInclusionVerification = {
+  version: "merkle_inclusion_verify/1.0";
+  ok: boolean;
+  transcript_id: string | null;
+  /** Leaf recomputed from transcript content equals proof.leaf_hash (null when no transcript supplied). */
+  leaf_hash_ok: boolean | null;
+  /** Proof path recomputes proof.root. */
+  proof_ok: boolean;
+  /** proof.root equals the expected root (null when no expected root supplied). */
+  root_ok: boolean | null;
+  /** proof.constitution_hash equals the expected constitution hash (null when either is absent). */
+  constitution_hash_ok: boolean | null;
+  root: string | null;
+  errors: string[];
+};
+
+type Entry = { transcript_id: string; leaf_hash: string };
+
+async function defaultSha256(data: string): Promise<string> {
+  const crypto = await import("node:crypto");
+  return crypto.createHash("sha256").update(data, "utf8").digest("hex");
+}
+
+const HASH_RE = /^[a-f0-9]{64}$/;
+
+/**
+ * Content-derived leaf for a transcript. Same value as computeTranscriptHash; with sha256Async
+ * supplied it runs without node:crypto (browser).
+ */
+export async function computeLeafHash(transcript: TranscriptV4, sha256Async?: Sha256Async): Promise<string> {
+  if (!sha256Async) return computeTranscriptHash(transcript);
+  const { final_hash, ...withoutFinalHash } = transcript;
+  return sha256Async(stableCanonicalize(withoutFinalHash));
+}
+
+function hashLeaf(leafHash: string, sha256Async: Sha256Async): Promise<string> {
+  return sha256Async(`leaf:${leafHash}`);
+}
+
+function hashNode(left: string, right: string, sha256Async: Sha256Async): Promise<string> {
+  return sha256Async(`node:${left}${right}`);
+}
+
+/** All tree levels, leaf nodes first and [root] last. */
+async function buildLevels(sortedLeaves: string[], sha256Async: Sha256Async): Promise<string[][]> {
+  const levels: string[][] = [];
+  let level: string[] = [];
+  for (const leaf of sortedLeaves) level.push(await hashLeaf(leaf, sha256Async));
+  levels.push(level);
+  while (level.length > 1) {
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? await hashNode(level[i], level[i + 1], sha256Async) : level[i]);
+    }
+    levels.push(next);
+    level = next;
+  }
+  return levels;
+}
+
+function proofFor(levels: string[][], leafIndex: number): string[] {
+  const proof: string[] = [];
+  let index = leafIndex;
+  for (let depth = 0; depth < levels.length - 1; depth++) {
+    const level = levels[depth];
+    const sibling = index % 2 === 1 ? index - 1 : index + 1;
+    if (sibling < level.length) proof.push(level[sibling]);
+    index = Math.floor(index / 2);
+  }
+  return proof;
+}
+
+/**
+ * Build a digest over transcripts. Duplicate content (same leaf_hash) is included once; the
+ * lowest transcript_id is kept for it. Throws on an empty batch.
+ */
+export async function buildMerkleDigest(
+  transcripts: TranscriptV4[],
+  options: { dateUtc: string; constitutionHash?: string; sha256Async?: Sha256Async }
+): Promise<MerkleDigestV1> {
+  if (transcripts.length === 0) {
+    throw new Error("Merkle digest requires at least one transcript");
+  }
+  const sha256Async = options.sha256Async ?? defaultSha256;
+
+  const byLeaf = new Map<string, Entry>();
+  for (const transcript of transcripts) {
+    const leaf_hash = await computeLeafHash(transcript, options.sha256Async);
+    const existing = byLeaf.get(leaf_hash);
+    if (!existing || transcript.transcript_id < existing.transcript_id) {
+      byLeaf.set(leaf_hash, { transcript_id: transcript.transcript_id, leaf_hash });
+    }
+  }
+  const entries = [...byLeaf.values()].sort((a, b) => (a.leaf_hash < b.leaf_hash ? -1 : a.leaf_hash > b.leaf_hash ? 1 : 0));
+  const levels = await buildLevels(
+    entries.map((e) => e.leaf_hash),
+    sha256Async
+  );
+
+  return {
+    version: MERKLE_DIGEST_VERSION,
+    date_utc: options.dateUtc,
+    root: levels[levels.length - 1][0],
+    tree_size: entries.length,
+    ...(options.constitutionHash ? { constitution_hash: options.constitutionHash } : {}),
+    leaves: entries.map((e, leaf_index) => ({ ...e, leaf_index, proof: proofFor(levels, leaf_index) })),
+  };
+}
+
+/**
+ * Extract the standalone inclusion proof for one transcript from a digest.
+ */
+export function inclusionProofFor(digest: MerkleDigestV1, transcriptIdOrLeafHash: string): MerkleInclusionProof | null {
+  const leaf = digest.leaves.find((l) => l.transcript_id === transcriptIdOrLeafHash || l.leaf_hash === transcriptIdOrLeafHash);
+  if (!leaf) return null;
+  return {
+    version: digest.version,
+    date_utc: digest.date_utc,
+    root: digest.root,
+    transcript_id: leaf.transcript_id,
+    leaf_hash: leaf.leaf_hash,
+    proof: leaf.proof,
+    leaf_index: leaf.leaf_index,
+    tree_size: digest.tree_size,
+    ...(digest.constitution_hash ? { constitution_hash: digest.constitution_hash } : {}),
+  };
+}
+
+/**
+ * Recompute the root from a leaf and its proof. Returns null when the proof length does not fit
+ * leaf_index / tree_size.
+ */
+export async function computeRootFromProof(
+  leafHash: string,
+  proof: string[],
+  leafIndex: number,
+  treeSize: number,
+  sha256Async: Sha256Async = defaultSha256
+): Promise<string | null> {
+  if (!Number.isInteger(leafIndex) || !Number.isInteger(treeSize) || leafIndex < 0 || leafIndex >= treeSize) {
+    return null;
+  }
+  let node = await hashLeaf(leafHash, sha256Async);
+  let index = leafIndex;
+  let size = treeSize;
+  let used = 0;
+  while (size > 1) {
+    if (index % 2 === 1) {
+      if (used >= proof.length) return null;
+      node = await hashNode(proof[used++], node, sha256Async);
+    } else if (index + 1 < size) {
+      if (used >= proof.length) return null;
+      node = await hashNode(node, proof[used++], sha256Async);
+    }
+    index = Math.floor(index / 2);
+    size = Math.ceil(size / 2);
+  }
+  return used === proof.length ? node : null;
+}
+
+/**
+ * Verify an inclusion proof. With a transcript, the leaf is recomputed from its content; with
+ * expectedRoot (the digest root a counterparty holds), the proof's root must match it.
+ */
+export async function verifyInclusionProof(
+  proof: unknown,
+  options: {
+    transcript?: TranscriptV4;
+    expectedRoot?: string;
+    expectedConstitutionHash?: string;
+    sha256Async?: Sha256Async;
+  } = {}
+): Promise<MerkleInclusionVerification> {
+  const errors: string[] = [];
+  const result: MerkleInclusionVerification = {
+    version: "merkle_inclusion_verify/1.0",
+    ok: false,
+    transcript_id: null,
+    leaf_hash_ok: null,
+    proof_ok: false,
+    root_ok: null,
+    constitution_hash_ok: null,
+    root: null,
+    errors,
+  };
+
+  const p = proof as Partial<MerkleInclusionProof> | null;
+  if (
+    !p ||
+    typeof p !== "object" ||
+    p.version !== MERKLE_DIGEST_VERSION ||
+    typeof p.root !== "string" ||
+    !HASH_RE.test(p.root) ||
+    typeof p.leaf_hash !== "string" ||
+    !HASH_RE.test(p.leaf_hash) ||
+    !Array.isArray(p.proof) ||
+    !p.proof.every((h) => typeof h === "string" && HASH_RE.test(h)) ||
+    typeof p.leaf_index !== "number" ||
+    typeof p.tree_size !== "number"
+  ) {
+    errors.push(`Invalid inclusion proof: expected ${MERKLE_DIGEST_VERSION} with root, leaf_hash, proof, leaf_index, tree_size`);
+    return result;
+  }
+  result.root = p.root;
+  result.transcript_id = typeof p.transcript_id === "string" ? p.transcript_id : null;
+
+  if (options.transcript) {
+    const leafHash = await computeLeafHash(options.transcript, options.sha256Async);
+    result.leaf_hash_ok = leafHash === p.leaf_hash;
+    if (!result.leaf_hash_ok) {
+      errors.push(`leaf_hash mismatch: transcript content hashes to ${leafHash.substring(0, 16)}..., proof has ${p.leaf_hash.substring(0, 16)}...`);
+    }
+    if (result.transcript_id !== null && result.transcript_id !== options.transcript.transcript_id) {
+      errors.push(`transcript_id mismatch: proof is for ${result.transcript_id}, transcript is ${options.transcript.transcript_id}`);
+      result.leaf_hash_ok = false;
+    }
+  }
+
+  const computedRoot = await computeRootFromProof(p.leaf_hash, p.proof, p.leaf_index, p.tree_size, options.sha256Async);
+  result.proof_ok = computedRoot === p.root;
+  if (computedRoot === null) {
+    errors.push(`Proof length ${p.proof.length} does not fit leaf_index ${p.leaf_index} / tree_size ${p.tree_size}`);
+  } else if (!result.proof_ok) {
+    errors.push(`Proof recomputes root ${computedRoot.substring(0, 16)}..., proof claims ${p.root.substring(0, 16)}...`);
+  }
+
+  if (options.expectedRoot !== undefined) {
+    result.root_ok = options.expectedRoot === p.root;
+    if (!result.root_ok) {
+      errors.push(`Root ${p.root.substring(0, 16)}... is not the expected digest root ${options.expectedRoot.substring(0, 16)}...`);
+    }
+  }
+
+  if (options.expectedConstitutionHash !== undefined && typeof p.constitution_hash === "string") {
+    result.constitution_hash_ok = options.expectedConstitutionHash === p.constitution_hash;
+    if (!result.constitution_hash_ok) {
+      errors.push("constitution_hash in proof does not match the pack constitution");
+    }
+  }
+
+  result.ok =
+    result.proof_ok &&
+    result.leaf_hash_ok !== false &&
+    result.root_ok !== false &&
+    result.constitution_hash_ok !== false;
+  return result;
+}
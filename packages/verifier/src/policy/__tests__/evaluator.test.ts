@@ -0,0 +1,227 @@
+/**
+ * Tests for the pact-policy/4.0 evaluator.
+ */
+
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "fs";
+import { resolve, dirname } from "path";
+import { fileURLToPath } from "url";
+import { createHash } from "node:crypto";
+import { stableCanonicalize } from "../../util/canonical_pure.js";
+import type { TranscriptV4 } from "../../util/transcript_types.js";
+import {
+  validatePolicyV4,
+  computePolicyHash,
+  evaluateCondition,
+  evaluatePolicy,
+  buildPolicyContexts,
+  evaluatePolicyForTranscript,
+  type PactPolicyV4,
+} from "../evaluator.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const repoRoot = resolve(__dirname, "../../../../..");
+
+function loadFixture(fixturePath: string): TranscriptV4 {
+  return JSON.parse(readFileSync(resolve(repoRoot, fixturePath), "utf8"));
+}
+
+const maxPricePolicy: PactPolicyV4 = {
+  policy_version: "pact-policy/4.0",
+  policy_id: "policy-a1",
+  rules: [
+    { name: "max_price", condition: { field: "offer_price", operator: "<=", value: 0.05 } },
+    {
+      name: "weather_only",
+      condition: { OR: [{ field: "intent_type", operator: "==", value: "weather.data" }, { NOT: { field: "intent_type", operator: "IN", value: ["art.acquisition"] } }] },
+    },
+  ],
+};
+
+function policyHash(policy: unknown): string {
+  return createHash("sha256").update(stableCanonicalize(policy), "utf8").digest("hex");
+}
+
+/** Unsigned transcript (the evaluator reads content_summary only; integrity is checked elsewhere). */
+function transcriptWithPrices(
+  askPrice: number,
+  policy: unknown,
+  failureCode?: string,
+  askSummary: Record<string, unknown> = {}
+): TranscriptV4 {
+  const round = (round_number: number, round_type: string, agent_id: string, content_summary: Record<string, unknown>) => ({
+    round_number,
+    round_type,
+    message_hash: "0".repeat(64),
+    envelope_hash: "0".repeat(64),
+    signature: { signer_public_key_b58: agent_id, signature_b58: "", signed_at_ms: 0, scheme: "ed25519" },
+    timestamp_ms: 1000000000000 + round_number,
+    previous_round_hash: "0".repeat(64),
+    agent_id,
+    public_key_b58: agent_id,
+    content_summary,
+  });
+  return {
+    transcript_version: "pact-transcript/4.0",
+    transcript_id: "transcript-policy-test",
+    intent_id: "intent-policy-test",
+    intent_type: "weather.data",
+    created_at_ms: 1000000000000,
+    policy_hash: policyHash(policy),
+    strategy_hash: "",
+    identity_snapshot_hash: "",
+    rounds: [
+      round(0, "INTENT", "buyer", { intent_type: "weather.data" }),
+      round(1, "ASK", "seller", { price: askPrice, ...askSummary }),
+    ],
+    ...(failureCode
+      ? {
+          failure_event: {
+            code: failureCode,
+            stage: "negotiation",
+            fault_domain: "policy",
+            terminality: "terminal",
+            evidence_refs: [],
+            timestamp: 1000000000002,
+            transcript_hash: "0".repeat(64),
+          },
+        }
+      : {}),
+  } as unknown as TranscriptV4;
+}
+
+describe("Policy v4 evaluator", () => {
+  describe("validatePolicyV4", () => {
+    it("accepts a schema-conformant policy", () => {
+      expect(validatePolicyV4(maxPricePolicy)).toEqual([]);
+    });
+
+    it("accepts the shipped policy fixtures", () => {
+      for (const name of ["policy-001-max-price", "policy-002-require-passport", "policy-003-require-escrow"]) {
+        expect(validatePolicyV4(loadFixture(`fixtures/policy/${name}.json`))).toEqual([]);
+      }
+    });
+
+    it("rejects unknown fields, operators and malformed logical conditions", () => {
+      const errors = validatePolicyV4({
+        policy_version: "pact-policy/4.0",
+        policy_id: "Policy_001",
+        rules: [
+          { name: "a", condition: { field: "price", operator: "<=", value: 1 } },
+          { name: "b", condition: { field: "offer_price", operator: "~", value: 1 } },
+          { name: "c", condition: { AND: [], OR: [] } },
+          { name: "d", condition: { field: "intent_type", operator: "IN", value: "weather.data" } },
+        ],
+      });
+      expect(errors).toEqual([
+        "policy_id: must match ^policy-[a-z0-9]+(-[a-z0-9]+)*$ (min length 8)",
+        'rules[0].condition.field: unknown field "price"',
+        'rules[1].condition.operator: unknown operator "~"',
+        "rules[2].condition: logical condition must have exactly one of AND, OR, NOT",
+        "rules[3].condition.value: IN requires an array",
+      ]);
+    });
+  });
+
+  describe("computePolicyHash", () => {
+    it("is independent of key order and whitespace", async () => {
+      const reordered = JSON.parse(`{"rules": ${JSON.stringify(maxPricePolicy.rules)}, "policy_id": "policy-a1", "policy_version": "pact-policy/4.0"}`);
+      expect(await computePolicyHash(reordered)).toBe(await computePolicyHash(maxPricePolicy));
+      expect(await computePolicyHash(maxPricePolicy)).toBe(policyHash(maxPricePolicy));
+    });
+  });
+
+  describe("evaluateCondition", () => {
+    it("is UNDETERMINED when the field is absent and propagates through logical operators", () => {
+      const cond = { field: "offer_price" as const, operator: "<=" as const, value: 1 };
+      expect(evaluateCondition(cond, {})).toBe("UNDETERMINED");
+      expect(evaluateCondition({ NOT: cond }, {})).toBe("UNDETERMINED");
+      expect(evaluateCondition({ AND: [cond, { field: "intent_type", operator: "==", value: "x" }] }, { intent_type: "y" })).toBe("FAIL");
+      expect(evaluateCondition({ OR: [cond, { field: "intent_type", operator: "==", value: "x" }] }, { intent_type: "x" })).toBe("PASS");
+    });
+
+    it("treats array-valued fields as IN when any member matches", () => {
+      const cond = { field: "counterparty_recent_failures" as const, operator: "NOT IN" as const, value: ["PACT-101", "PACT-202"] };
+      expect(evaluateCondition(cond, { counterparty_recent_failures: ["PACT-404"] })).toBe("PASS");
+      expect(evaluateCondition(cond, { counterparty_recent_failures: ["PACT-404", "PACT-202"] })).toBe("FAIL");
+    });
+  });
+
+  describe("evaluatePolicy", () => {
+    it("maps violated rules to PACT-101 with policy section refs", () => {
+      const result = evaluatePolicy(maxPricePolicy, { offer_price: 0.1, intent_type: "weather.data" });
+      expect(result.allowed).toBe(false);
+      expect(result.mapped_failure_code).toBe("PACT-101");
+      expect(result.violated_rules.map((r) => r.rule_name)).toEqual(["max_price"]);
+      expect(result.evidence_refs).toEqual(["policy_section:rules/max_price"]);
+    });
+  });
+
+  describe("buildPolicyContexts", () => {
+    it("derives offer/bid prices from content_summary per round", () => {
+      const contexts = buildPolicyContexts(loadFixture("fixtures/success/SUCCESS-001-simple.json"));
+      expect(contexts).toHaveLength(3);
+      expect(contexts[0]).toEqual({ intent_type: "weather.data", transcript_created_at_ms: 1000000000000, negotiation_round: 0 });
+      expect(contexts[1].offer_price).toBe(0.00005);
+      expect(contexts[2]).toMatchObject({ offer_price: 0.00005, bid_price: 0.00005, negotiation_round: 2 });
+    });
+  });
+
+  describe("evaluatePolicyForTranscript", () => {
+    it("confirms a PACT-101 failure when the transcript state violates a rule", async () => {
+      const report = await evaluatePolicyForTranscript(transcriptWithPrices(0.2, maxPricePolicy, "PACT-101"), maxPricePolicy);
+      expect(report.policy_hash_match).toBe(true);
+      expect(report.status).toBe("VIOLATED");
+      expect(report.rules.map((r) => [r.name, r.result, r.failed_at_round])).toEqual([
+        ["max_price", "FAIL", 1],
+        ["weather_only", "PASS", null],
+      ]);
+      expect(report.mapped_failure_code).toBe("PACT-101");
+      expect(report.pact_101_confirmed).toBe(true);
+    });
+
+    it("does not confirm PACT-101 when every rule passes", async () => {
+      const report = await evaluatePolicyForTranscript(transcriptWithPrices(0.01, maxPricePolicy, "PACT-101"), maxPricePolicy);
+      expect(report.status).toBe("SATISFIED");
+      expect(report.pact_101_confirmed).toBe(false);
+      expect(report.notes).toContain("PACT-101 claimed but no rule is violated by transcript state (status SATISFIED)");
+    });
+
+    it("reports a hash mismatch when the policy is not the transcript's policy", async () => {
+      const other: PactPolicyV4 = { ...maxPricePolicy, policy_id: "policy-b2" };
+      const report = await evaluatePolicyForTranscript(transcriptWithPrices(0.2, maxPricePolicy, "PACT-101"), other);
+      expect(report.policy_hash_match).toBe(false);
+      expect(report.status).toBe("VIOLATED");
+      expect(report.pact_101_confirmed).toBe(false);
+    });
+
+    it("decides each shipped policy fixture", async () => {
+      const cases: Array<[string, number, Record<string, unknown>, string]> = [
+        ["policy-001-max-price", 0.04, {}, "SATISFIED"],
+        ["policy-001-max-price", 0.2, {}, "VIOLATED"],
+        ["policy-002-require-passport", 0.04, { counterparty_passport_score: 85, counterparty_passport_confidence: 0.9 }, "SATISFIED"],
+        ["policy-002-require-passport", 0.04, { counterparty_passport_score: 60, counterparty_passport_confidence: 0.9 }, "VIOLATED"],
+        ["policy-003-require-escrow", 0.04, { settlement_rail: "escrow" }, "SATISFIED"],
+        ["policy-003-require-escrow", 0.04, { settlement_rail: "stripe" }, "VIOLATED"],
+      ];
+      for (const [name, price, summary, status] of cases) {
+        const policy = loadFixture(`fixtures/policy/${name}.json`);
+        const report = await evaluatePolicyForTranscript(transcriptWithPrices(price, policy, undefined, summary), policy);
+        expect(report.schema_errors).toEqual([]);
+        expect(report.policy_hash_match).toBe(true);
+        expect({ name, status: report.status }).toEqual({ name, status });
+      }
+    });
+
+    it("leaves rules UNDETERMINED when the transcript lacks the referenced fields", async () => {
+      const report = await evaluatePolicyForTranscript(
+        loadFixture("fixtures/failures/PACT-101-policy-violation.json"),
+        maxPricePolicy
+      );
+      expect(report.rules[0]).toMatchObject({ name: "max_price", result: "UNDETERMINED", evaluated_rounds: [] });
+      expect(report.status).toBe("UNDETERMINED");
+      expect(report.pact_101_confirmed).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,422 @@
+/**
+ * Pact Policy v4 evaluator (pact-policy/4.0).
+ *
+ * Deterministic, side-effect free evaluation of policy rules against transcript state
+ * (docs/versions/v4/POLICY.md). Context is rebuilt from signed round content_summary only.
+ *
+ * Comparisons on fields absent from the context are UNDETERMINED; AND / OR / NOT use
+ * three-valued logic so a rule is only FAIL when the transcript proves the violation.
+ */
+
+import type { TranscriptV4, TranscriptRound } from "../util/transcript_types.js";
+import type { Sha256Async } from "../util/replay.js";
+import { stableCanonicalize } from "../util/canonical_pure.js";
+import { resolveActorRole, getRoleBindings } from "../util/actor_roles.js";
+
+export const POLICY_VERSION_V4 = "pact-policy/4.0";
+export const POLICY_EVALUATION_VERSION = "policy_eval/1.0";
+
+export const POLICY_FIELDS = [
+  "offer_price",
+  "bid_price",
+  "counterparty_passport_score",
+  "counterparty_passport_confidence",
+  "counterparty_recent_failures",
+  "settlement_mode",
+  "intent_type",
+  "negotiation_round",
+  "transcript_created_at_ms",
+] as const;
+
+export type PolicyField = (typeof POLICY_FIELDS)[number];
+
+export const POLICY_OPERATORS = ["==", "!=", "<", "<=", ">", ">=", "IN", "NOT IN"] as const;
+
+export type PolicyOperator = (typeof POLICY_OPERATORS)[number];
+
+export type PolicyValue = number | string | boolean | Array<number | string | boolean>;
+
+export type ComparisonCondition = {
+  field: PolicyField;
+  operator: PolicyOperator;
+  value: PolicyValue;
+};
+
+export type LogicalCondition =
+  | { AND: PolicyCondition[] }
+  | { OR: PolicyCondition[] }
+  | { NOT: PolicyCondition };
+
+export type PolicyCondition = ComparisonCondition | LogicalCondition;
+
+export type PolicyRule = {
+  name: string;
+  condition: PolicyCondition;
+};
+
+export type PactPolicyV4 = {
+  policy_version: typeof POLICY_VERSION_V4;
+  policy_id: string;
+  rules: PolicyRule[];
+};
+
+/** Evaluation context (POLICY.md §3.5). Absent fields evaluate to UNDETERMINED. */
+export type PolicyEvaluationContext = Partial<Record<PolicyField, PolicyValue>> & {
+  counterparty_agent_id?: string;
+};
+
+export type ConditionResult = "PASS" | "FAIL" | "UNDETERMINED";
+
+/** POLICY.md §5.1 result for a single context. */
+export type PolicyResult = {
+  allowed: boolean;
+  violated_rules: Array<{
+    rule_name: string;
+    condition: PolicyCondition;
+    failure_code?: "PACT-101";
+  }>;
+  mapped_failure_code?: "PACT-101";
+  evidence_refs: string[];
+};
+
+export type PolicyRuleReport = {
+  name: string;
+  result: ConditionResult;
+  /** Round index of the first context where the rule failed (null when it never failed). */
+  failed_at_round: number | null;
+  /** Round indexes where the rule could be decided (PASS or FAIL). */
+  evaluated_rounds: number[];
+  condition: PolicyCondition;
+};
+
+export type PolicyEvaluationReport = {
+  version: typeof POLICY_EVALUATION_VERSION;
+  policy_id: string | null;
+  /** sha256(stableCanonicalize(policy)) */
+  policy_hash: string;
+  transcript_policy_hash: string | null;
+  policy_hash_match: boolean;
+  schema_errors: string[];
+  /** SATISFIED: all rules PASS; VIOLATED: any rule FAIL; UNDETERMINED: otherwise (or policy invalid). */
+  status: "SATISFIED" | "VIOLATED" | "UNDETERMINED";
+  rules: PolicyRuleReport[];
+  violated_rules: string[];
+  mapped_failure_code: "PACT-101" | null;
+  /** Independent check of a PACT-101 failure_event (null when the transcript does not claim PACT-101). */
+  pact_101_confirmed: boolean | null;
+  notes: string[];
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isScalar(value: unknown): value is number | string | boolean {
+  return typeof value === "number" || typeof value === "string" || typeof value === "boolean";
+}
+
+function validateCondition(condition: unknown, path: string, errors: string[]): void {
+  if (!isObject(condition)) {
+    errors.push(`${path}: condition must be an object`);
+    return;
+  }
+  const keys = Object.keys(condition);
+  if ("field" in condition || "operator" in condition || "value" in condition) {
+    const extra = keys.filter((k) => k !== "field" && k !== "operator" && k !== "value");
+    if (extra.length > 0) errors.push(`${path}: unexpected keys ${extra.join(", ")}`);
+    if (!(POLICY_FIELDS as readonly unknown[]).includes(condition.field)) {
+      errors.push(`${path}.field: unknown field ${JSON.stringify(condition.field)}`);
+    }
+    if (!(POLICY_OPERATORS as readonly unknown[]).includes(condition.operator)) {
+      errors.push(`${path}.operator: unknown operator ${JSON.stringify(condition.operator)}`);
+    }
+    const value = condition.value;
+    if (!isScalar(value) && !Array.isArray(value)) {
+      errors.push(`${path}.value: must be number, string, boolean or array`);
+    } else if ((condition.operator === "IN" || condition.operator === "NOT IN") && !Array.isArray(value)) {
+      errors.push(`${path}.value: ${condition.operator} requires an array`);
+    }
+    return;
+  }
+  if (keys.length !== 1 || !["AND", "OR", "NOT"].includes(keys[0])) {
+    errors.push(`${path}: logical condition must have exactly one of AND, OR, NOT`);
+    return;
+  }
+  const op = keys[0];
+  if (op === "NOT") {
+    validateCondition(condition.NOT, `${path}.NOT`, errors);
+    return;
+  }
+  const items = condition[op];
+  if (!Array.isArray(items) || items.length === 0) {
+    errors.push(`${path}.${op}: must be a non-empty array`);
+    return;
+  }
+  items.forEach((item, i) => validateCondition(item, `${path}.${op}[${i}]`, errors));
+}
+
+/**
+ * Validate a policy document against schemas/pact_policy_v4.json. Returns one message per violation.
+ */
+export function validatePolicyV4(policy: unknown): string[] {
+  const errors: string[] = [];
+  if (!isObject(policy)) {
+    return ["policy: must be an object"];
+  }
+  const extra = Object.keys(policy).filter((k) => !["policy_version", "policy_id", "rules"].includes(k));
+  if (extra.length > 0) errors.push(`policy: unexpected keys ${extra.join(", ")}`);
+  if (policy.policy_version !== POLICY_VERSION_V4) {
+    errors.push(`policy_version: expected ${POLICY_VERSION_V4}`);
+  }
+  if (
+    typeof policy.policy_id !== "string" ||
+    policy.policy_id.length < 8 ||
+    !/^policy-[a-z0-9]+(-[a-z0-9]+)*$/.test(policy.policy_id)
+  ) {
+    errors.push("policy_id: must match ^policy-[a-z0-9]+(-[a-z0-9]+)*$ (min length 8)");
+  }
+  if (!Array.isArray(policy.rules) || policy.rules.length === 0) {
+    errors.push("rules: must be a non-empty array");
+    return errors;
+  }
+  policy.rules.forEach((rule, i) => {
+    if (!isObject(rule)) {
+      errors.push(`rules[${i}]: must be an object`);
+      return;
+    }
+    const ruleExtra = Object.keys(rule).filter((k) => k !== "name" && k !== "condition");
+    if (ruleExtra.length > 0) errors.push(`rules[${i}]: unexpected keys ${ruleExtra.join(", ")}`);
+    if (typeof rule.name !== "string" || rule.name.length === 0) {
+      errors.push(`rules[${i}].name: must be a non-empty string`);
+    }
+    validateCondition(rule.condition, `rules[${i}].condition`, errors);
+  });
+  return errors;
+}
+
+/**
+ * Policy hash: sha256 of canonical JSON (sorted keys, no whitespace), lowercase hex (POLICY.md §4.1).
+ */
+export async function computePolicyHash(policy: unknown, sha256Async?: Sha256Async): Promise<string> {
+  const canonical = stableCanonicalize(policy);
+  if (sha256Async) {
+    return sha256Async(canonical);
+  }
+  const crypto = await import("node:crypto");
+  return crypto.createHash("sha256").update(canonical, "utf8").digest("hex");
+}
+
+function compare(actual: PolicyValue, operator: PolicyOperator, expected: PolicyValue): boolean {
+  switch (operator) {
+    case "==":
+      return stableCanonicalize(actual) === stableCanonicalize(expected);
+    case "!=":
+      return stableCanonicalize(actual) !== stableCanonicalize(expected);
+    case "<":
+    case "<=":
+    case ">":
+    case ">=": {
+      if (typeof actual !== "number" || typeof expected !== "number") return false;
+      if (operator === "<") return actual < expected;
+      if (operator === "<=") return actual <= expected;
+      if (operator === ">") return actual > expected;
+      return actual >= expected;
+    }
+    case "IN":
+    case "NOT IN": {
+      const set = Array.isArray(expected) ? expected : [expected];
+      // Array-valued context fields (e.g. counterparty_recent_failures) are IN when any member is.
+      const members = Array.isArray(actual) ? actual : [actual];
+      const anyIn = members.some((m) => set.includes(m));
+      return operator === "IN" ? anyIn : !anyIn;
+    }
+  }
+}
+
+/**
+ * Evaluate a condition with three-valued logic (UNDETERMINED when a referenced field is absent).
+ */
+export function evaluateCondition(condition: PolicyCondition, context: PolicyEvaluationContext): ConditionResult {
+  if ("field" in condition) {
+    const actual = context[condition.field];
+    if (actual === undefined || actual === null) return "UNDETERMINED";
+    return compare(actual, condition.operator, condition.value) ? "PASS" : "FAIL";
+  }
+  if ("NOT" in condition) {
+    const inner = evaluateCondition(condition.NOT, context);
+    return inner === "UNDETERMINED" ? inner : inner === "PASS" ? "FAIL" : "PASS";
+  }
+  if ("AND" in condition) {
+    const results = condition.AND.map((c) => evaluateCondition(c, context));
+    if (results.includes("FAIL")) return "FAIL";
+    return results.includes("UNDETERMINED") ? "UNDETERMINED" : "PASS";
+  }
+  const results = condition.OR.map((c) => evaluateCondition(c, context));
+  if (results.includes("PASS")) return "PASS";
+  return results.includes("UNDETERMINED") ? "UNDETERMINED" : "FAIL";
+}
+
+/**
+ * Evaluate all rules against one context (POLICY.md §5.1). UNDETERMINED rules are not violations.
+ */
+export function evaluatePolicy(policy: PactPolicyV4, context: PolicyEvaluationContext): PolicyResult {
+  const violated = policy.rules.filter((rule) => evaluateCondition(rule.condition, context) === "FAIL");
+  const result: PolicyResult = {
+    allowed: violated.length === 0,
+    violated_rules: violated.map((rule) => ({
+      rule_name: rule.name,
+      condition: rule.condition,
+      failure_code: "PACT-101",
+    })),
+    evidence_refs: violated.map((rule) => `policy_section:rules/${rule.name}`),
+  };
+  if (!result.allowed) {
+    result.mapped_failure_code = "PACT-101";
+  }
+  return result;
+}
+
+function numberOf(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Apply one round's content_summary to the running context.
+ * Explicit context field names in content_summary take precedence over derived ones.
+ */
+function applyRound(
+  context: PolicyEvaluationContext,
+  round: TranscriptRound,
+  roundIndex: number,
+  role: "BUYER" | "PROVIDER" | null
+): PolicyEvaluationContext {
+  const next: PolicyEvaluationContext = { ...context, negotiation_round: roundIndex };
+  const summary = isObject(round.content_summary) ? round.content_summary : {};
+
+  const price = numberOf(summary.price);
+  if (price !== undefined) {
+    if (round.round_type === "ASK" || (round.round_type === "COUNTER" && role !== "BUYER")) {
+      next.offer_price = price;
+    } else if (round.round_type === "BID" || (round.round_type === "COUNTER" && role === "BUYER")) {
+      next.bid_price = price;
+    } else if (round.round_type === "ACCEPT") {
+      next.offer_price = price;
+      next.bid_price = price;
+    }
+  }
+  if (typeof summary.intent_type === "string") next.intent_type = summary.intent_type;
+  if (typeof summary.settlement_rail === "string") next.settlement_mode = summary.settlement_rail;
+
+  for (const field of POLICY_FIELDS) {
+    if (field === "negotiation_round" || field === "transcript_created_at_ms") continue;
+    const value = summary[field];
+    if (isScalar(value) || (Array.isArray(value) && value.every(isScalar))) {
+      next[field] = value as PolicyValue;
+    }
+  }
+  return next;
+}
+
+/**
+ * Build one evaluation context per round (cumulative state up to and including that round).
+ */
+export function buildPolicyContexts(transcript: TranscriptV4): PolicyEvaluationContext[] {
+  const bindings = getRoleBindings(transcript.rounds);
+  let context: PolicyEvaluationContext = {
+    intent_type: transcript.intent_type,
+    transcript_created_at_ms: transcript.created_at_ms,
+  };
+  const contexts: PolicyEvaluationContext[] = [];
+  transcript.rounds.forEach((round, i) => {
+    context = applyRound(context, round, i, resolveActorRole(round, bindings));
+    contexts.push(context);
+  });
+  return contexts;
+}
+
+/**
+ * Evaluate a policy document against a transcript: check policy_hash, re-evaluate every rule at
+ * every round, and independently confirm (or not) a PACT-101 failure_event.
+ */
+export async function evaluatePolicyForTranscript(
+  transcript: TranscriptV4,
+  policy: unknown,
+  options: { sha256Async?: Sha256Async } = {}
+): Promise<PolicyEvaluationReport> {
+  const schemaErrors = validatePolicyV4(policy);
+  const policyHash = await computePolicyHash(policy, options.sha256Async);
+  const transcriptPolicyHash = typeof transcript.policy_hash === "string" ? transcript.policy_hash : null;
+  const policyHashMatch = transcriptPolicyHash === policyHash;
+  const claimedCode = transcript.failure_event?.code ?? null;
+  const notes: string[] = [];
+
+  const report: PolicyEvaluationReport = {
+    version: POLICY_EVALUATION_VERSION,
+    policy_id: isObject(policy) && typeof policy.policy_id === "string" ? policy.policy_id : null,
+    policy_hash: policyHash,
+    transcript_policy_hash: transcriptPolicyHash,
+    policy_hash_match: policyHashMatch,
+    schema_errors: schemaErrors,
+    status: "UNDETERMINED",
+    rules: [],
+    violated_rules: [],
+    mapped_failure_code: null,
+    pact_101_confirmed: null,
+    notes,
+  };
+
+  if (!policyHashMatch) {
+    notes.push(
+      `Policy hash ${policyHash.substring(0, 16)}... does not match transcript policy_hash ${transcriptPolicyHash ? `${transcriptPolicyHash.substring(0, 16)}...` : "(none)"}`
+    );
+  }
+  if (schemaErrors.length > 0) {
+    notes.push("Policy does not conform to pact-policy/4.0; rules not evaluated");
+    if (claimedCode === "PACT-101") report.pact_101_confirmed = false;
+    return report;
+  }
+
+  const typedPolicy = policy as PactPolicyV4;
+  const contexts = buildPolicyContexts(transcript);
+
+  for (const rule of typedPolicy.rules) {
+    let failedAt: number | null = null;
+    const evaluatedRounds: number[] = [];
+    contexts.forEach((context, i) => {
+      const result = evaluateCondition(rule.condition, context);
+      if (result === "UNDETERMINED") return;
+      evaluatedRounds.push(i);
+      if (result === "FAIL" && failedAt === null) failedAt = i;
+    });
+    report.rules.push({
+      name: rule.name,
+      result: failedAt !== null ? "FAIL" : evaluatedRounds.length > 0 ? "PASS" : "UNDETERMINED",
+      failed_at_round: failedAt,
+      evaluated_rounds: evaluatedRounds,
+      condition: rule.condition,
+    });
+  }
+
+  report.violated_rules = report.rules.filter((r) => r.result === "FAIL").map((r) => r.name);
+  if (report.violated_rules.length > 0) {
+    report.status = "VIOLATED";
+    report.mapped_failure_code = "PACT-101";
+  } else if (report.rules.every((r) => r.result === "PASS")) {
+    report.status = "SATISFIED";
+  }
+
+  if (claimedCode === "PACT-101") {
+    report.pact_101_confirmed = policyHashMatch && report.status === "VIOLATED";
+    if (!report.pact_101_confirmed) {
+      notes.push(
+        policyHashMatch
+          ? `PACT-101 claimed but no rule is violated by transcript state (status ${report.status})`
+          : "PACT-101 claimed but the supplied policy is not the transcript's policy"
+      );
+    }
+  } else if (report.status === "VIOLATED") {
+    notes.push(`Rules violated without a PACT-101 failure_event: ${report.violated_rules.join(", ")}`);
+  }
+
+  return report;
+}
@@ -0,0 +1,113 @@
+/**
+ * Tests for insurer portfolio aggregation: verified design partner packs feed exposure, fault domain and
+ * concentration totals keyed by full public keys; tampered or unreadable packs are listed as failed and never
+ * counted, and further packs of an already counted transcript are listed as duplicates.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { copyFileSync, existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join, resolve, dirname } from "node:path";
+import { tmpdir } from "node:os";
+import { fileURLToPath } from "node:url";
+import JSZip from "jszip";
+import { getConstitutionContent } from "../../load_constitution_node.js";
+import { buildPortfolioReport, portfolioCsv, readPortfolioPack, type PortfolioPackEntry } from "../insurer_portfolio.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const repoRoot = resolve(__dirname, "../../../../..");
+const bundlePacks = join(repoRoot, "design_partner_bundle", "packs");
+
+describe("insurer portfolio", () => {
+  let tmpDir: string;
+  let entries: PortfolioPackEntry[];
+
+  beforeAll(async () => {
+    tmpDir = mkdtempSync(join(tmpdir(), "insurer-portfolio-"));
+    for (const name of ["auditor_pack_api_success.zip", "auditor_pack_art_success.zip", "auditor_pack_success.zip"]) {
+      copyFileSync(join(bundlePacks, name), join(tmpDir, name));
+    }
+
+    // Tamper the insurer summary of a valid pack (checksums now disagree)
+    const zip = await JSZip.loadAsync(readFileSync(join(bundlePacks, "auditor_pack_art_success.zip")));
+    const summary = JSON.parse(await zip.file("derived/insurer_summary.json")!.async("string"));
+    summary.coverage = "COVERED";
+    zip.file("derived/insurer_summary.json", JSON.stringify(summary, null, 2));
+    writeFileSync(join(tmpDir, "tampered.zip"), await zip.generateAsync({ type: "nodebuffer" }));
+    writeFileSync(join(tmpDir, "not_a_zip.zip"), "garbage");
+
+    const context = { constitutionContent: getConstitutionContent() };
+    entries = [];
+    for (const name of ["auditor_pack_api_success.zip", "auditor_pack_art_success.zip", "auditor_pack_success.zip", "not_a_zip.zip", "tampered.zip"]) {
+      entries.push(await readPortfolioPack(join(tmpDir, name), tmpDir, context));
+    }
+  }, 60000);
+
+  afterAll(() => {
+    if (tmpDir && existsSync(tmpDir)) {
+      rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  it("aggregates verified packs and lists failed ones", () => {
+    const report = buildPortfolioReport(entries);
+    expect(report.version).toBe("insurer_portfolio/1.0");
+    expect(report.packs).toBe(5);
+    expect(report.verified).toBe(3);
+    expect(report.failed).toBe(2);
+    expect(report.duplicates).toBe(0);
+
+    expect(report.exposure_by_coverage).toEqual({
+      COVERED_WITH_SURCHARGE: { packs: 3, amounts: { UNSPECIFIED: 0.00005, USD: 300012 } },
+    });
+    expect(report.fault_domains).toEqual({ NO_FAULT: 3 });
+    expect(report.provider_concentration).toHaveLength(3);
+    expect(report.provider_concentration.every((p) => p.packs === 1 && p.share === 0.3333)).toBe(true);
+    expect(report.worst_tier_counterparties.map((c) => c.tier)).toEqual(Array(6).fill("B"));
+    expect(buildPortfolioReport(entries, 2).worst_tier_counterparties).toHaveLength(2);
+
+    expect(report.failed_packs.map((p) => p.file)).toEqual(["not_a_zip.zip", "tampered.zip"]);
+    expect(report.failed_packs[0].errors[0]).toMatch(/^Failed to verify:/);
+    expect(report.failed_packs[1].transcript_id).toBe(entries[1].transcript_id);
+    expect(report.failed_packs[1].errors.length).toBeGreaterThan(0);
+  });
+
+  it("keys providers and counterparties on the full public key from the transcript", async () => {
+    const report = buildPortfolioReport(entries);
+    const zip = await JSZip.loadAsync(readFileSync(join(bundlePacks, "auditor_pack_api_success.zip")));
+    const summary = JSON.parse(await zip.file("derived/insurer_summary.json")!.async("string"));
+    const provider = entries[0].provider!.signer;
+
+    expect(provider).toMatch(/^[1-9A-HJ-NP-Za-km-z]{32,44}$/);
+    expect(summary.provider.signer).toBe(`${provider.substring(0, 12)}...`);
+    expect(report.provider_concentration.map((p) => p.provider)).toContain(provider);
+    expect(report.worst_tier_counterparties.every((c) => !c.signer.endsWith("..."))).toBe(true);
+  });
+
+  it("counts each transcript once, by transcript_id or transcript hash", async () => {
+    const copy = await readPortfolioPack(join(tmpDir, "auditor_pack_api_success.zip"), tmpDir, { constitutionContent: getConstitutionContent() });
+    const renamed = { ...entries[1], file: "renamed.zip", transcript_id: "transcript-renamed" };
+    const report = buildPortfolioReport([...entries, { ...copy, file: "copy.zip" }, renamed]);
+
+    expect(report).toMatchObject({ packs: 7, verified: 5, failed: 2, duplicates: 2 });
+    expect(report.duplicate_packs).toEqual([
+      { file: "copy.zip", transcript_id: entries[0].transcript_id, duplicate_of: "auditor_pack_api_success.zip" },
+      { file: "renamed.zip", transcript_id: "transcript-renamed", duplicate_of: "auditor_pack_art_success.zip" },
+    ]);
+    expect(report.exposure_by_coverage).toEqual(buildPortfolioReport(entries).exposure_by_coverage);
+    expect(report.provider_concentration.every((p) => p.packs === 1 && p.share === 0.3333)).toBe(true);
+  }, 60000);
+
+  it("is deterministic and emits one CSV row per pack", () => {
+    expect(JSON.stringify(buildPortfolioReport(entries))).toBe(JSON.stringify(buildPortfolioReport([...entries])));
+
+    const lines = portfolioCsv(entries).trimEnd().split("\n");
+    expect(lines[0]).toBe(
+      "file,status,transcript_id,intent_type,coverage,outcome,fault_domain,buyer,buyer_tier,provider,provider_tier,asset,amount,errors"
+    );
+    expect(lines).toHaveLength(6);
+    expect(lines[1]).toMatch(/^auditor_pack_api_success\.zip,VERIFIED,transcript-[a-f0-9]+,api\.procurement,COVERED_WITH_SURCHARGE,COMPLETED,NO_FAULT,.*,USD,12,$/);
+    expect(lines[3]).toMatch(/,UNSPECIFIED,0\.00005,$/);
+    expect(lines[5]).toMatch(/^tampered\.zip,FAILED,transcript-[a-f0-9]+,art\.acquisition,,,,,,,,,,.+$/);
+  });
+});
@@ -0,0 +1,321 @@
+/**
+ * Insurer portfolio: aggregate exposure over a directory of auditor packs for `pact-verifier insurer-portfolio`.
+ *
+ * Every pack is verified with verifyAuditorPackFromBytes (checksums, recompute, seal). Only verified packs
+ * contribute to the aggregates, read from their derived/insurer_summary.json; the others are listed as failed.
+ * Packs of a transcript already counted (same transcript_id or canonical transcript hash) are listed as
+ * duplicates and counted once. Parties are keyed by their full public key from the transcript.
+ * Output is deterministic: packs in sorted path order, object keys sorted, amounts rounded to 8 decimals.
+ */
+
+import { readFileSync } from "node:fs";
+import { relative } from "node:path";
+import { createHash } from "node:crypto";
+import JSZip from "jszip";
+import type { TranscriptV4 } from "../util/transcript_types.js";
+import { hashCanonicalHex } from "../util/canonical.js";
+import { verifyAuditorPackFromBytes } from "../verify_auditor_pack_core.js";
+import { extractInsurerSigners } from "../auditor_pack_verify_shared.js";
+import { DEFAULT_UNDERWRITING_RULEBOOK, RULEBOOK_PACK_PATH } from "../underwriting/rulebook.js";
+
+/** Asset key for amounts whose pack does not name an asset (e.g. ACCEPT price only). */
+const UNSPECIFIED_ASSET = "UNSPECIFIED";
+
+export interface PortfolioParty {
+  /** Full public key of the party (the insurer summary shows it truncated). */
+  signer: string;
+  tier: string;
+  /** Position of tier in the pack's rulebook tiers (higher = worse). */
+  tier_rank: number;
+  passport_score: number;
+}
+
+export interface PortfolioPackEntry {
+  file: string;
+  transcript_id: string | null;
+  /** sha256 of the canonical transcript. */
+  transcript_hash: string | null;
+  ok: boolean;
+  errors: string[];
+  coverage: string | null;
+  outcome: string | null;
+  fault_domain: string | null;
+  intent_type: string | null;
+  buyer: PortfolioParty | null;
+  provider: PortfolioParty | null;
+  asset: string | null;
+  amount: number | null;
+}
+
+export interface InsurerPortfolioReport {
+  version: "insurer_portfolio/1.0";
+  packs: number;
+  verified: number;
+  failed: number;
+  /** Verified packs of a transcript already counted; not counted again in the aggregates. */
+  duplicates: number;
+  /** Verified packs and insured amounts (per asset) by coverage decision. */
+  exposure_by_coverage: Record<string, { packs: number; amounts: Record<string, number> }>;
+  fault_domains: Record<string, number>;
+  /** Providers by number of verified packs (share of verified packs), most concentrated first. */
+  provider_concentration: Array<{ provider: string; packs: number; share: number; amounts: Record<string, number> }>;
+  /** Counterparties by worst tier seen, then lowest passport score. */
+  worst_tier_counterparties: Array<{ signer: string; role: "buyer" | "provider"; tier: string; passport_score: number; packs: number }>;
+  failed_packs: Array<{ file: string; transcript_id: string | null; errors: string[] }>;
+  duplicate_packs: Array<{ file: string; transcript_id: string | null; duplicate_of: string }>;
+}
+
+export interface PortfolioContext {
+  /** Standard constitution content for pack recompute (loaded once by the caller). */
+  constitutionContent: string;
+}
+
+function sha256Async(data: string | Uint8Array): Promise<string> {
+  const hash = createHash("sha256");
+  if (typeof data === "string") {
+    hash.update(data, "utf8");
+  } else {
+    hash.update(data);
+  }
+  return Promise.resolve(hash.digest("hex"));
+}
+
+function roundAmount(value: number): number {
+  return Math.round(value * 1e8) / 1e8;
+}
+
+function sortedRecord<T>(record: Record<string, T>): Record<string, T> {
+  return Object.fromEntries(Object.entries(record).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)));
+}
+
+function addAmount(amounts: Record<string, number>, entry: PortfolioPackEntry): void {
+  if (entry.amount === null) return;
+  const asset = entry.asset ?? UNSPECIFIED_ASSET;
+  amounts[asset] = roundAmount((amounts[asset] ?? 0) + entry.amount);
+}
+
+function readParty(value: unknown, publicKey: string | null, tiers: string[]): PortfolioParty | null {
+  if (typeof value !== "object" || value === null || publicKey === null) return null;
+  const p = value as Record<string, unknown>;
+  if (typeof p.signer !== "string" || typeof p.tier !== "string") return null;
+  return {
+    signer: publicKey,
+    tier: p.tier,
+    tier_rank: tiers.indexOf(p.tier),
+    passport_score: typeof p.passport_score === "number" ? p.passport_score : 0,
+  };
+}
+
+/**
+ * Insured amount: economic_details from the summary, else the price agreed in the last ACCEPT round.
+ */
+function readAmount(summary: Record<string, unknown>, transcript: TranscriptV4 | null): { asset: string | null; amount: number | null } {
+  const details = summary.economic_details as Record<string, unknown> | undefined;
+  if (details && typeof details.amount === "number") {
+    return { asset: typeof details.asset === "string" ? details.asset : null, amount: details.amount };
+  }
+  const accept = transcript ? [...transcript.rounds].reverse().find((r) => r.round_type === "ACCEPT") : undefined;
+  const price = (accept?.content_summary as Record<string, unknown> | undefined)?.price;
+  return { asset: null, amount: typeof price === "number" ? price : null };
+}
+
+/**
+ * Verify one pack and read its insurer summary. Never throws; errors make the entry not ok.
+ */
+export async function readPortfolioPack(filePath: string, baseDir: string, context: PortfolioContext): Promise<PortfolioPackEntry> {
+  const entry: PortfolioPackEntry = {
+    file: relative(baseDir, filePath),
+    transcript_id: null,
+    transcript_hash: null,
+    ok: false,
+    errors: [],
+    coverage: null,
+    outcome: null,
+    fault_domain: null,
+    intent_type: null,
+    buyer: null,
+    provider: null,
+    asset: null,
+    amount: null,
+  };
+  try {
+    const zipBytes = new Uint8Array(readFileSync(filePath));
+    const zip = await JSZip.loadAsync(zipBytes);
+    const transcriptFile = zip.file("input/transcript.json");
+    const transcript = transcriptFile ? (JSON.parse(await transcriptFile.async("string")) as TranscriptV4) : null;
+    entry.transcript_id = transcript?.transcript_id ?? null;
+    entry.transcript_hash = transcript ? hashCanonicalHex(transcript) : null;
+    entry.intent_type = transcript?.intent_type ?? null;
+
+    const report = await verifyAuditorPackFromBytes(zipBytes, {
+      sha256Async,
+      standardConstitutionContent: context.constitutionContent,
+    });
+    entry.errors.push(...report.mismatches);
+    if (!report.ok) {
+      return entry;
+    }
+
+    const summary = JSON.parse(await zip.file("derived/insurer_summary.json")!.async("string")) as Record<string, unknown>;
+    const rulebookFile = zip.file(RULEBOOK_PACK_PATH);
+    const tiers = (rulebookFile ? JSON.parse(await rulebookFile.async("string")) : DEFAULT_UNDERWRITING_RULEBOOK).tiers.map(
+      (t: { tier: string }) => t.tier
+    );
+    entry.coverage = typeof summary.coverage === "string" ? summary.coverage : null;
+    entry.outcome = typeof summary.outcome === "string" ? summary.outcome : null;
+    entry.fault_domain = typeof summary.fault_domain === "string" ? summary.fault_domain : null;
+    const signers = transcript ? extractInsurerSigners(transcript) : { buyer: null, provider: null };
+    entry.buyer = readParty(summary.buyer, signers.buyer, tiers);
+    entry.provider = readParty(summary.provider, signers.provider, tiers);
+    Object.assign(entry, readAmount(summary, transcript));
+    entry.ok = true;
+  } catch (error) {
+    entry.errors.push(`Failed to verify: ${error instanceof Error ? error.message : String(error)}`);
+    entry.ok = false;
+  }
+  return entry;
+}
+
+/**
+ * Aggregate pack entries (in input order) into the portfolio report. The first verified pack of a transcript
+ * counts; later packs with the same transcript_id or transcript hash are reported as duplicates.
+ */
+export function buildPortfolioReport(entries: PortfolioPackEntry[], top = 10): InsurerPortfolioReport {
+  const verified: PortfolioPackEntry[] = [];
+  const duplicates: InsurerPortfolioReport["duplicate_packs"] = [];
+  const seen = new Map<string, string>();
+  for (const e of entries.filter((entry) => entry.ok)) {
+    const keys = [e.transcript_id && `id:${e.transcript_id}`, e.transcript_hash && `hash:${e.transcript_hash}`].filter(
+      (k): k is string => !!k
+    );
+    const first = keys.map((k) => seen.get(k)).find((file) => file !== undefined);
+    if (first !== undefined) {
+      duplicates.push({ file: e.file, transcript_id: e.transcript_id, duplicate_of: first });
+      continue;
+    }
+    keys.forEach((k) => seen.set(k, e.file));
+    verified.push(e);
+  }
+
+  const exposure: InsurerPortfolioReport["exposure_by_coverage"] = {};
+  const faultDomains: Record<string, number> = {};
+  const providers = new Map<string, { packs: number; amounts: Record<string, number> }>();
+  const counterparties = new Map<string, { signer: string; role: "buyer" | "provider"; party: PortfolioParty; packs: number }>();
+
+  for (const e of verified) {
+    const coverage = e.coverage ?? "UNKNOWN";
+    exposure[coverage] ??= { packs: 0, amounts: {} };
+    exposure[coverage].packs++;
+    addAmount(exposure[coverage].amounts, e);
+
+    const faultDomain = e.fault_domain ?? "UNKNOWN";
+    faultDomains[faultDomain] = (faultDomains[faultDomain] ?? 0) + 1;
+
+    if (e.provider) {
+      const p = providers.get(e.provider.signer) ?? { packs: 0, amounts: {} };
+      p.packs++;
+      addAmount(p.amounts, e);
+      providers.set(e.provider.signer, p);
+    }
+
+    for (const [role, party] of [["buyer", e.buyer], ["provider", e.provider]] as const) {
+      if (!party) continue;
+      const key = `${role}:${party.signer}`;
+      const seen = counterparties.get(key);
+      if (!seen) {
+        counterparties.set(key, { signer: party.signer, role, party, packs: 1 });
+        continue;
+      }
+      seen.packs++;
+      const worse =
+        party.tier_rank > seen.party.tier_rank ||
+        (party.tier_rank === seen.party.tier_rank && party.passport_score < seen.party.passport_score);
+      if (worse) seen.party = party;
+    }
+  }
+
+  const providerConcentration = [...providers.entries()]
+    .map(([provider, p]) => ({
+      provider,
+      packs: p.packs,
+      share: Math.round((p.packs / verified.length) * 1e4) / 1e4,
+      amounts: sortedRecord(p.amounts),
+    }))
+    .sort((a, b) => b.packs - a.packs || (a.provider < b.provider ? -1 : a.provider > b.provider ? 1 : 0));
+
+  const worst = [...counterparties.values()]
+    .sort(
+      (a, b) =>
+        b.party.tier_rank - a.party.tier_rank ||
+        a.party.passport_score - b.party.passport_score ||
+        (a.signer < b.signer ? -1 : a.signer > b.signer ? 1 : 0) ||
+        (a.role < b.role ? -1 : a.role > b.role ? 1 : 0)
+    )
+    .slice(0, top)
+    .map((c) => ({ signer: c.signer, role: c.role, tier: c.party.tier, passport_score: c.party.passport_score, packs: c.packs }));
+
+  return {
+    version: "insurer_portfolio/1.0",
+    packs: entries.length,
+    verified: verified.length + duplicates.length,
+    failed: entries.filter((e) => !e.ok).length,
+    duplicates: duplicates.length,
+    exposure_by_coverage: sortedRecord(
+      Object.fromEntries(Object.entries(exposure).map(([k, v]) => [k, { packs: v.packs, amounts: sortedRecord(v.amounts) }]))
+    ),
+    fault_domains: sortedRecord(faultDomains),
+    provider_concentration: providerConcentration,
+    worst_tier_counterparties: worst,
+    failed_packs: entries.filter((e) => !e.ok).map((e) => ({ file: e.file, transcript_id: e.transcript_id, errors: e.errors })),
+    duplicate_packs: duplicates,
+  };
+}
+
+const CSV_COLUMNS = [
+  "file",
+  "status",
+  "transcript_id",
+  "intent_type",
+  "coverage",
+  "outcome",
+  "fault_domain",
+  "buyer",
+  "buyer_tier",
+  "provider",
+  "provider_tier",
+  "asset",
+  "amount",
+  "errors",
+] as const;
+
+function csvField(value: string | number | null): string {
+  const s = value === null ? "" : String(value);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/**
+ * One CSV row per pack (input order), header first. Failed packs carry their errors joined by "; ".
+ */
+export function portfolioCsv(entries: PortfolioPackEntry[]): string {
+  const rows = entries.map((e) =>
+    [
+      e.file,
+      e.ok ? "VERIFIED" : "FAILED",
+      e.transcript_id,
+      e.intent_type,
+      e.coverage,
+      e.outcome,
+      e.fault_domain,
+      e.buyer?.signer ?? null,
+      e.buyer?.tier ?? null,
+      e.provider?.signer ?? null,
+      e.provider?.tier ?? null,
+      e.amount === null ? null : e.asset ?? UNSPECIFIED_ASSET,
+      e.amount,
+      e.errors.join("; "),
+    ]
+      .map(csvField)
+      .join(",")
+  );
+  return [CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+}
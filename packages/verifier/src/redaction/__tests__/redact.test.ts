@@ -0,0 +1,204 @@
+/**
+ * Tests for transcript redaction, redaction policies and disclosures (redaction/redact.ts).
+ */
+
+import { describe, it, expect } from "vitest";
+import { createHash } from "crypto";
+import type { TranscriptV4, TranscriptRound } from "../../util/transcript_types.js";
+import { stableCanonicalize } from "../../util/canonical_pure.js";
+import { FIELD_COMMITMENTS_SCHEME, computeFieldCommitment, isRedactedField } from "../../util/field_commitments.js";
+import { checkDisclosure } from "../transcript_view.js";
+import {
+  DEFAULT_REDACTION_POLICY,
+  createDisclosure,
+  createTranscriptView,
+  newFieldSalts,
+  parseRedactionPolicy,
+  redactTranscript,
+  saltedPathsForPolicy,
+  validateRedactionPolicy,
+  type RedactionPolicy,
+} from "../redact.js";
+
+const sha256Async = async (data: string): Promise<string> => createHash("sha256").update(data, "utf8").digest("hex");
+
+const policy: RedactionPolicy = {
+  version: "pact-redaction-policy/1",
+  views: {
+    PARTNER: ["/rounds/*/content_summary/pricing_logic"],
+    AUDITOR: ["/policy_hash", "/rounds/*/content_summary"],
+  },
+};
+
+function askRound(): TranscriptRound {
+  return {
+    round_number: 0,
+    round_type: "ASK",
+    message_hash: "a".repeat(64),
+    envelope_hash: "a".repeat(64),
+    signature: {
+      signer_public_key_b58: "pubkey-123",
+      signature_b58: "sig-123",
+      signed_at_ms: 1_000_000_000_000,
+      scheme: "ed25519",
+    },
+    timestamp_ms: 1_000_000_000_000,
+    previous_round_hash: "0".repeat(64),
+    agent_id: "provider",
+    public_key_b58: "pubkey-123",
+    content_summary: { price: 0.05, pricing_logic: "cost-plus-12%", strategy_details: { floor: 0.04 } },
+  };
+}
+
+function legacyTranscript(): TranscriptV4 {
+  return {
+    transcript_version: "pact-transcript/4.0",
+    transcript_id: `transcript-${"ab".repeat(32)}`,
+    intent_id: "intent-test-123",
+    intent_type: "weather.data",
+    created_at_ms: 1_000_000_000_000,
+    policy_hash: "policy-hash-abc123",
+    strategy_hash: "strategy-hash-def456",
+    identity_snapshot_hash: "",
+    rounds: [{ ...askRound(), round_hash: "b".repeat(64) }],
+    failure_event: {
+      code: "PACT-101",
+      stage: "negotiation",
+      fault_domain: "policy",
+      terminality: "terminal",
+      evidence_refs: ["policy_rule:max_price"],
+      timestamp: 1_000_000_001_000,
+      transcript_hash: `transcript-${"ab".repeat(32)}`,
+    },
+    arbiter_decision_ref: null,
+  };
+}
+
+/** field-commitments/1 transcript salted for saltedPolicy, as the SDK's createTranscriptV4 builds it. */
+async function committedTranscript(saltedPolicy: RedactionPolicy): Promise<TranscriptV4> {
+  const transcript: TranscriptV4 = {
+    transcript_version: "pact-transcript/4.0",
+    transcript_id: `transcript-${"cd".repeat(32)}`,
+    intent_id: "intent-test-456",
+    intent_type: "weather.data",
+    created_at_ms: 1_000_000_000_000,
+    policy_hash: "policy-hash-abc123",
+    strategy_hash: "strategy-hash-def456",
+    identity_snapshot_hash: "",
+    rounds: [askRound()],
+    arbiter_decision_ref: null,
+    hash_scheme: FIELD_COMMITMENTS_SCHEME,
+    salted_paths: saltedPathsForPolicy(saltedPolicy),
+  };
+  transcript.field_salts = newFieldSalts(transcript, transcript.salted_paths!);
+  const salts = transcript.field_salts as Record<string, string>;
+  transcript.rounds[0].round_hash = await computeFieldCommitment(transcript.rounds[0], sha256Async, salts, "/rounds/0");
+  return transcript;
+}
+
+describe("redactTranscript", () => {
+  it("returns the transcript unchanged for the INTERNAL view", async () => {
+    const transcript = legacyTranscript();
+    expect(await redactTranscript(transcript, "INTERNAL")).toEqual(transcript);
+  });
+
+  it("replaces the fields of the default policy and keeps identity, signatures and failure taxonomy", async () => {
+    const transcript = legacyTranscript();
+    const partner = await redactTranscript(transcript, "PARTNER");
+    const auditor = await redactTranscript(transcript, "AUDITOR");
+
+    const summary = partner.rounds[0].content_summary as Record<string, unknown>;
+    expect(summary.pricing_logic).toEqual({
+      redacted: true,
+      hash: await sha256Async(stableCanonicalize("cost-plus-12%")),
+      view: "PARTNER",
+    });
+    expect(isRedactedField(summary.strategy_details)).toBe(true);
+    expect(summary.price).toBe(0.05);
+    expect(isRedactedField(partner.strategy_hash)).toBe(true);
+    expect(partner.policy_hash).toBe(transcript.policy_hash);
+
+    expect(isRedactedField(auditor.policy_hash)).toBe(true);
+    expect(isRedactedField(auditor.rounds[0].content_summary)).toBe(true);
+
+    for (const redacted of [partner, auditor]) {
+      expect(redacted.transcript_id).toBe(transcript.transcript_id);
+      expect(redacted.rounds[0].signature).toEqual(transcript.rounds[0].signature);
+      expect(redacted.rounds[0].round_hash).toBe(transcript.rounds[0].round_hash);
+      expect(redacted.failure_event).toEqual(transcript.failure_event);
+    }
+    expect(JSON.stringify(await redactTranscript(legacyTranscript(), "PARTNER"))).toBe(JSON.stringify(partner));
+  });
+
+  it("keeps round_hash equal to the round's field commitment under field-commitments/1", async () => {
+    const transcript = await committedTranscript(DEFAULT_REDACTION_POLICY);
+    const salts = transcript.field_salts as Record<string, string>;
+    for (const view of ["PARTNER", "AUDITOR"] as const) {
+      const { round_hash, ...round } = (await redactTranscript(transcript, view)).rounds[0];
+      expect(round_hash).toBe(transcript.rounds[0].round_hash);
+      expect(await computeFieldCommitment(round, sha256Async, salts, "/rounds/0")).toBe(round_hash);
+    }
+  });
+
+  it("salts fields with a custom policy and hides the salts of redacted fields", async () => {
+    const transcript = await committedTranscript(policy);
+    const path = "/rounds/0/content_summary/pricing_logic";
+    expect(Object.keys(transcript.field_salts!).sort()).toEqual(["/policy_hash", "/rounds/0/content_summary", path]);
+
+    const view = await createTranscriptView(transcript, "PARTNER", policy);
+    const marker = (view.transcript!.rounds[0].content_summary as Record<string, unknown>).pricing_logic;
+    expect(marker).toMatchObject({ redacted: true, view: "PARTNER", salted: true });
+    expect(isRedactedField(view.transcript!.field_salts![path])).toBe(true);
+    expect(view.transcript!.field_salts!["/policy_hash"]).toBe(transcript.field_salts!["/policy_hash"]);
+    expect(view.transcript!.strategy_hash).toBe(transcript.strategy_hash);
+    expect(view).toMatchObject({ kind: "view", view: "PARTNER", source_transcript_hash: transcript.transcript_id });
+  });
+
+  it("refuses invalid policies and fields without a salt", async () => {
+    const transcript = await committedTranscript(policy);
+    const invalid = { version: "pact-redaction-policy/1", views: { PARTNER: ["/transcript_id"] } } as RedactionPolicy;
+    await expect(redactTranscript(transcript, "PARTNER", invalid)).rejects.toThrow("Invalid redaction policy");
+
+    // strategy_hash is not in the policy the transcript was salted for
+    const wider: RedactionPolicy = { ...policy, views: { ...policy.views, PARTNER: ["/strategy_hash"] } };
+    await expect(redactTranscript(transcript, "PARTNER", wider)).rejects.toThrow("Cannot redact /strategy_hash: field has no salt");
+  });
+});
+
+describe("redaction policies", () => {
+  it("validates policy files", () => {
+    expect(validateRedactionPolicy(DEFAULT_REDACTION_POLICY)).toEqual([]);
+    expect(parseRedactionPolicy(JSON.stringify(policy))).toEqual(policy);
+    expect(validateRedactionPolicy({ version: "pact-redaction-policy/1", views: { PARTNER: ["pricing_logic"] } })).toEqual([
+      'views.PARTNER: "pricing_logic" is not a JSON pointer',
+    ]);
+    expect(validateRedactionPolicy({ ...policy, views: { INTERNAL: [], AUDITOR: ["/rounds/*/signature"] } })).toEqual([
+      "views.INTERNAL: only PARTNER and AUDITOR can be redacted",
+      "views.AUDITOR: /rounds/*/signature is required in the clear for verification",
+    ]);
+    expect(() => parseRedactionPolicy({ ...policy, views: { AUDITOR: ["/transcript_id"] } })).toThrow("Invalid redaction policy");
+  });
+});
+
+describe("createDisclosure", () => {
+  it("opens selected fields of a view with the salts of the field and its salted children", async () => {
+    const transcript = await committedTranscript(policy);
+    const view = await createTranscriptView(transcript, "AUDITOR", policy);
+    const disclosure = createDisclosure(transcript, { recipient: "insurer-1", paths: ["/rounds/*/content_summary"] });
+
+    expect(disclosure.fields).toHaveLength(1);
+    expect(Object.keys(disclosure.fields[0].salts ?? {}).sort()).toEqual([
+      "/rounds/0/content_summary",
+      "/rounds/0/content_summary/pricing_logic",
+    ]);
+    expect(await checkDisclosure(view, disclosure)).toEqual({
+      recipient: "insurer-1",
+      ok: true,
+      fields: [{ path: "/rounds/0/content_summary", ok: true }],
+    });
+
+    const forged = { ...disclosure, fields: [{ ...disclosure.fields[0], value: { price: 0.01, pricing_logic: "cost-plus-12%" } }] };
+    expect((await checkDisclosure(view, forged)).ok).toBe(false);
+    expect((await checkDisclosure(view, { ...disclosure, source_transcript_hash: "transcript-other" })).ok).toBe(false);
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Tests for pact-transcript-view/1 verification: redacted views of field-commitments/1 transcripts
+ * keep signatures and the hash chain verifiable; legacy transcripts are reported as unverifiable.
+ */
+
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "fs";
+import { resolve, dirname } from "path";
+import { fileURLToPath } from "url";
+import { createHash } from "crypto";
+import nacl from "tweetnacl";
+import bs58 from "bs58";
+import type { TranscriptV4, TranscriptRound } from "../../util/transcript_types.js";
+import { stableCanonicalize } from "../../util/canonical_pure.js";
+import { replayTranscriptV4 } from "../../util/replay.js";
+import { FIELD_COMMITMENTS_SCHEME, computeFieldCommitment, getAtPointer } from "../../util/field_commitments.js";
+import { verifyTranscriptView, validateTranscriptViewSchema } from "../transcript_view.js";
+import { createDisclosure, createTranscriptView, type RedactionPolicy } from "../redact.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const repoRoot = resolve(__dirname, "../../../../..");
+
+const sha256Async = async (data: string): Promise<string> => createHash("sha256").update(data, "utf8").digest("hex");
+const commit = (value: unknown, salts?: Record<string, string>, path?: string) =>
+  computeFieldCommitment(value, sha256Async, salts, path);
+
+const buyer = nacl.sign.keyPair.fromSeed(new Uint8Array(32).fill(1));
+const provider = nacl.sign.keyPair.fromSeed(new Uint8Array(32).fill(2));
+
+async function signedRound(
+  transcript: TranscriptV4,
+  roundType: TranscriptRound["round_type"],
+  keyPair: nacl.SignKeyPair,
+  agentId: string,
+  contentSummary: Record<string, unknown>
+): Promise<TranscriptRound> {
+  const roundNumber = transcript.rounds.length;
+  const timestamp = transcript.created_at_ms + roundNumber * 1000;
+  const envelopeHash = await sha256Async(stableCanonicalize({ roundType, roundNumber, contentSummary }));
+  const publicKey = bs58.encode(keyPair.publicKey);
+  const round: TranscriptRound = {
+    round_number: roundNumber,
+    round_type: roundType,
+    message_hash: envelopeHash,
+    envelope_hash: envelopeHash,
+    signature: {
+      signer_public_key_b58: publicKey,
+      signature_b58: bs58.encode(nacl.sign.detached(Buffer.from(envelopeHash, "hex"), keyPair.secretKey)),
+      signed_at_ms: timestamp,
+      scheme: "ed25519",
+    },
+    timestamp_ms: timestamp,
+    previous_round_hash:
+      roundNumber === 0
+        ? await sha256Async(`${transcript.intent_id}:${transcript.created_at_ms}`)
+        : transcript.rounds[roundNumber - 1].round_hash!,
+    agent_id: agentId,
+    public_key_b58: publicKey,
+    content_summary: contentSummary,
+  };
+  round.round_hash = await commit(round, transcript.field_salts as Record<string, string> | undefined, `/rounds/${roundNumber}`);
+  return round;
+}
+
+async function buildTranscript(fieldSalts?: Record<string, string>): Promise<TranscriptV4> {
+  const transcript: TranscriptV4 = {
+    transcript_version: "pact-transcript/4.0",
+    transcript_id: `transcript-${"ab".repeat(32)}`,
+    intent_id: "intent-view-1",
+    intent_type: "weather.data",
+    created_at_ms: 1_700_000_000_000,
+    policy_hash: "c".repeat(64),
+    strategy_hash: "d".repeat(64),
+    identity_snapshot_hash: "",
+    rounds: [],
+    arbiter_decision_ref: null,
+    hash_scheme: FIELD_COMMITMENTS_SCHEME,
+    ...(fieldSalts ? { salted_paths: ["/rounds/*/content_summary/pricing_logic"], field_salts: fieldSalts } : {}),
+  };
+  transcript.rounds.push(await signedRound(transcript, "INTENT", buyer, "buyer", { intent_type: "weather.data" }));
+  transcript.rounds.push(
+    await signedRound(transcript, "ASK", provider, "provider", { price: 0.05, pricing_logic: "cost-plus-12%", strategy_details: { floor: 0.04 } })
+  );
+  transcript.rounds.push(await signedRound(transcript, "ACCEPT", buyer, "buyer", { price: 0.05 }));
+  const { final_hash: _f, ...rest } = transcript;
+  transcript.final_hash = await commit(rest, fieldSalts);
+  return transcript;
+}
+
+/** Unsalted field-commitment markers, built by hand: redactTranscript refuses to redact unsalted fields. */
+async function redactedField(value: unknown, view: "PARTNER" | "AUDITOR") {
+  return { redacted: true as const, hash: await commit(value), view };
+}
+
+async function auditorView(transcript: TranscriptV4) {
+  const redacted: TranscriptV4 = JSON.parse(JSON.stringify(transcript));
+  (redacted as any).policy_hash = await redactedField(transcript.policy_hash, "AUDITOR");
+  (redacted as any).strategy_hash = await redactedField(transcript.strategy_hash, "AUDITOR");
+  for (const round of redacted.rounds) {
+    (round as any).content_summary = await redactedField(round.content_summary, "AUDITOR");
+  }
+  return { kind: "view", source_transcript_hash: transcript.transcript_id, view: "AUDITOR", transcript: redacted };
+}
+
+describe("pact-transcript-view/1", () => {
+  it("verifies an AUDITOR view through redacted content_summary and policy/strategy hashes", async () => {
+    const transcript = await buildTranscript();
+    expect((await replayTranscriptV4(transcript)).integrity_status).toBe("VALID");
+
+    const result = await verifyTranscriptView(await auditorView(transcript));
+    expect(result.errors).toEqual([]);
+    expect(result).toMatchObject({
+      ok: true,
+      view: "AUDITOR",
+      hash_scheme: FIELD_COMMITMENTS_SCHEME,
+      integrity_status: "VALID",
+      signature_verifications: 3,
+      hash_chain_verifications: 3,
+      rounds_verified: 3,
+    });
+    expect(result.redacted_fields.map((f) => f.path)).toEqual([
+      "/policy_hash",
+      "/rounds/0/content_summary",
+      "/rounds/1/content_summary",
+      "/rounds/2/content_summary",
+      "/strategy_hash",
+    ]);
+  });
+
+  it("verifies a PARTNER view with nested redactions", async () => {
+    const transcript = await buildTranscript();
+    const redacted: TranscriptV4 = JSON.parse(JSON.stringify(transcript));
+    const summary = redacted.rounds[1].content_summary as Record<string, unknown>;
+    summary.pricing_logic = await redactedField(summary.pricing_logic, "PARTNER");
+    summary.strategy_details = await redactedField(summary.strategy_details, "PARTNER");
+    const view = { kind: "view", source_transcript_hash: transcript.transcript_id, view: "PARTNER", transcript: redacted };
+
+    const result = await verifyTranscriptView(view);
+    expect(result.ok).toBe(true);
+    expect(result.redacted_fields.map((f) => f.path)).toEqual([
+      "/rounds/1/content_summary/pricing_logic",
+      "/rounds/1/content_summary/strategy_details",
+    ]);
+  });
+
+  it("detects a forged commitment and fields that must stay in the clear", async () => {
+    const transcript = await buildTranscript();
+    const forged = await auditorView(transcript);
+    (forged.transcript.rounds[1] as any).content_summary.hash = "0".repeat(64);
+    const forgedResult = await verifyTranscriptView(forged);
+    expect(forgedResult.ok).toBe(false);
+    expect(forgedResult.integrity_status).toBe("TAMPERED");
+
+    const hidden = await auditorView(transcript);
+    (hidden.transcript.rounds[0] as any).signature = await redactedField(transcript.rounds[0].signature, "AUDITOR");
+    (hidden.transcript.rounds[2] as any).content_summary.view = "PARTNER";
+    const hiddenResult = await verifyTranscriptView(hidden);
+    expect(hiddenResult.ok).toBe(false);
+    expect(hiddenResult.errors).toContain("Redacted field /rounds/0/signature is required in the clear for verification");
+    expect(hiddenResult.errors).toContain("Redacted field /rounds/2/content_summary is marked for view PARTNER, document view is AUDITOR");
+  });
+
+  it("rejects redacted views of legacy transcripts and malformed documents", async () => {
+    const legacy: TranscriptV4 = JSON.parse(readFileSync(resolve(repoRoot, "fixtures/success/SUCCESS-001-simple.json"), "utf8"));
+    const redacted: TranscriptV4 = JSON.parse(JSON.stringify(legacy));
+    (redacted.rounds[0] as any).content_summary = await redactedField(legacy.rounds[0].content_summary, "AUDITOR");
+    const result = await verifyTranscriptView({ kind: "view", source_transcript_hash: legacy.transcript_id, view: "AUDITOR", transcript: redacted });
+    expect(result.ok).toBe(false);
+    expect(result.errors[0]).toContain(`Redacted fields require hash_scheme ${FIELD_COMMITMENTS_SCHEME}`);
+    expect((await replayTranscriptV4(redacted)).warnings[0]).toContain("contains redacted fields");
+
+    expect(validateTranscriptViewSchema({ kind: "transcript", source_transcript_hash: "x", view: "PUBLIC" })).toHaveLength(3);
+    const mismatched = await verifyTranscriptView({ ...(await auditorView(await buildTranscript())), source_transcript_hash: legacy.transcript_id });
+    expect(mismatched.errors[0]).toContain("does not match source_transcript_hash");
+  });
+
+  it("verifies salted commitments and opens them only through a matching disclosure", async () => {
+    const path = "/rounds/1/content_summary/pricing_logic";
+    const salt = "5a".repeat(32);
+    const transcript = await buildTranscript({ [path]: salt });
+    expect((await replayTranscriptV4(transcript)).integrity_status).toBe("VALID");
+
+    const policy: RedactionPolicy = { version: "pact-redaction-policy/1", views: { PARTNER: [path] } };
+    const view = await createTranscriptView(transcript, "PARTNER", policy, { sha256Async });
+    expect(getAtPointer(view.transcript, path)).toEqual({
+      redacted: true,
+      hash: await commit("cost-plus-12%", { [path]: salt }, path),
+      view: "PARTNER",
+      salted: true,
+    });
+    expect(view.transcript!.field_salts![path]).toEqual(await redactedField(salt, "PARTNER"));
+    expect((await verifyTranscriptView(view)).ok).toBe(true);
+
+    const disclosure = createDisclosure(transcript, { recipient: "insurer-1", paths: [path] });
+    expect(disclosure.fields).toEqual([{ path, value: "cost-plus-12%", salts: { [path]: salt } }]);
+    const opened = await verifyTranscriptView(view, { disclosure });
+    expect(opened.ok).toBe(true);
+    expect(opened.disclosure).toEqual({ recipient: "insurer-1", ok: true, fields: [{ path, ok: true }] });
+
+    // Without the salt the value cannot be confirmed, even when it is right
+    const unsalted = await verifyTranscriptView(view, { disclosure: { ...disclosure, fields: [{ path, value: "cost-plus-12%" }] } });
+    expect(unsalted.ok).toBe(false);
+    const wrong = await verifyTranscriptView(view, {
+      disclosure: { ...disclosure, fields: [{ path, value: "cost-plus-5%", salts: { [path]: salt } }] },
+    });
+    expect(wrong.ok).toBe(false);
+    expect(wrong.errors).toContain(`Disclosure ${path}: Disclosed value does not match the redacted hash`);
+  });
+});
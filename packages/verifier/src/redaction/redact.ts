@@ -0,0 +1,335 @@
+/**
+ * Redaction of v4 transcripts into pact-transcript-view/1 documents, and selective disclosures.
+ *
+ * The construction verifyTranscriptView / checkDisclosure check: fields listed by a redaction policy
+ * (schemas/pact_redaction_policy_v1.json) are replaced with { redacted: true, hash, view } markers whose
+ * hash is the field commitment, so signatures, the round hash chain and final_hash still verify.
+ * The SDK re-exports this module (packages/sdk/src/transcript/v4/redaction.ts).
+ * Pure: hashing goes through options.sha256Async when provided (browser), else node:crypto.
+ */
+
+import type { TranscriptV4 } from "../util/transcript_types.js";
+import type { Sha256Async } from "../util/replay.js";
+import { stableCanonicalize } from "../util/canonical_pure.js";
+import {
+  FIELD_COMMITMENTS_SCHEME,
+  computeFieldCommitment,
+  getAtPointer,
+  isRedactedField,
+  type FieldSalts,
+  type RedactedFieldMarker,
+} from "../util/field_commitments.js";
+import { defaultSha256, type DisclosureV1, type TranscriptViewName, type TranscriptViewV1 } from "./transcript_view.js";
+
+export const REDACTION_POLICY_VERSION = "pact-redaction-policy/1";
+export const DISCLOSURE_VERSION = "pact-disclosure/1";
+
+/**
+ * Declarative redaction policy. Each view lists JSON pointers (RFC 6901) to redact; a "*" token
+ * matches every key or array index. INTERNAL never redacts.
+ */
+export interface RedactionPolicy {
+  version: "pact-redaction-policy/1";
+  views: {
+    PARTNER?: string[];
+    AUDITOR?: string[];
+  };
+}
+
+/**
+ * Default policy (the original hard-coded PARTNER / AUDITOR views).
+ */
+export const DEFAULT_REDACTION_POLICY: RedactionPolicy = {
+  version: REDACTION_POLICY_VERSION,
+  views: {
+    PARTNER: ["/strategy_hash", "/rounds/*/content_summary/pricing_logic", "/rounds/*/content_summary/strategy_details"],
+    AUDITOR: ["/policy_hash", "/strategy_hash", "/rounds/*/content_summary"],
+  },
+};
+
+/** Fields replay needs in the clear; a policy may not redact them. */
+const PROTECTED_TRANSCRIPT_FIELDS = [
+  "transcript_version",
+  "transcript_id",
+  "intent_id",
+  "created_at_ms",
+  "hash_scheme",
+  "final_hash",
+  "field_salts",
+  "salted_paths",
+];
+const PROTECTED_ROUND_FIELDS = [
+  "round_number",
+  "round_type",
+  "timestamp_ms",
+  "previous_round_hash",
+  "round_hash",
+  "envelope_hash",
+  "signature",
+  "public_key_b58",
+];
+
+function escapePointerToken(token: string): string {
+  return token.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function parsePointer(pointer: string): string[] {
+  if (pointer === "") {
+    return [];
+  }
+  if (!pointer.startsWith("/")) {
+    throw new Error(`Invalid JSON pointer: "${pointer}"`);
+  }
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+function setAtPointer(root: unknown, pointer: string, value: unknown): void {
+  const parent = getAtPointer(root, pointer.slice(0, pointer.lastIndexOf("/")));
+  if (typeof parent !== "object" || parent === null) {
+    throw new Error(`Cannot set JSON pointer: ${pointer}`);
+  }
+  const tokens = parsePointer(pointer);
+  (parent as Record<string, unknown>)[tokens[tokens.length - 1]] = value;
+}
+
+/** Whether pointer is path itself or a field below it. */
+function isAtOrBelow(pointer: string, path: string): boolean {
+  return pointer === path || pointer.startsWith(`${path}/`);
+}
+
+/**
+ * Resolve a policy pointer pattern to the concrete pointers present in doc.
+ * A "*" token matches every key or array index; redacted markers are not descended into.
+ */
+export function resolvePointerPattern(doc: unknown, pattern: string): string[] {
+  const resolved: string[] = [];
+  const walk = (node: unknown, tokens: string[], at: string): void => {
+    if (tokens.length === 0) {
+      resolved.push(at);
+      return;
+    }
+    if (typeof node !== "object" || node === null || isRedactedField(node)) {
+      return;
+    }
+    const [head, ...rest] = tokens;
+    const keys = head === "*" ? Object.keys(node) : head in node ? [head] : [];
+    for (const key of keys) {
+      walk((node as Record<string, unknown>)[key], rest, `${at}/${escapePointerToken(key)}`);
+    }
+  };
+  walk(doc, parsePointer(pattern), "");
+  return resolved;
+}
+
+/**
+ * Validate a redaction policy. Returns error messages (empty when valid).
+ */
+export function validateRedactionPolicy(policy: unknown): string[] {
+  if (typeof policy !== "object" || policy === null || Array.isArray(policy)) {
+    return ["Redaction policy must be a JSON object"];
+  }
+  const { version, views } = policy as Record<string, unknown>;
+  const errors: string[] = [];
+  if (version !== REDACTION_POLICY_VERSION) {
+    errors.push(`version must be "${REDACTION_POLICY_VERSION}"`);
+  }
+  if (typeof views !== "object" || views === null || Array.isArray(views)) {
+    errors.push("views must be an object");
+    return errors;
+  }
+  for (const [view, paths] of Object.entries(views)) {
+    if (view !== "PARTNER" && view !== "AUDITOR") {
+      errors.push(`views.${view}: only PARTNER and AUDITOR can be redacted`);
+      continue;
+    }
+    if (!Array.isArray(paths)) {
+      errors.push(`views.${view} must be an array of JSON pointers`);
+      continue;
+    }
+    for (const path of paths) {
+      if (typeof path !== "string" || !path.startsWith("/")) {
+        errors.push(`views.${view}: ${JSON.stringify(path)} is not a JSON pointer`);
+        continue;
+      }
+      const tokens = parsePointer(path);
+      const protectedField =
+        PROTECTED_TRANSCRIPT_FIELDS.includes(tokens[0]) ||
+        (tokens[0] === "rounds" && (tokens.length <= 2 || PROTECTED_ROUND_FIELDS.includes(tokens[2])));
+      if (protectedField) {
+        errors.push(`views.${view}: ${path} is required in the clear for verification`);
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Parse and validate a redaction policy file (JSON text or parsed object).
+ */
+export function parseRedactionPolicy(input: unknown): RedactionPolicy {
+  const policy = typeof input === "string" ? JSON.parse(input) : input;
+  const errors = validateRedactionPolicy(policy);
+  if (errors.length > 0) {
+    throw new Error(`Invalid redaction policy: ${errors.join("; ")}`);
+  }
+  return policy as RedactionPolicy;
+}
+
+/**
+ * Pointer patterns that get a per-field salt at transcript creation: every path any view may redact.
+ */
+export function saltedPathsForPolicy(policy: RedactionPolicy): string[] {
+  const paths = new Set<string>([...(policy.views.PARTNER ?? []), ...(policy.views.AUDITOR ?? [])]);
+  return [...paths].sort();
+}
+
+/**
+ * Fresh random salt for one field (32 bytes, hex).
+ */
+export function generateFieldSalt(): string {
+  const bytes = globalThis.crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Fresh salts for the fields of doc at or below prefix matched by the salted path patterns.
+ */
+export function newFieldSalts(doc: unknown, saltedPaths: string[], prefix = ""): Record<string, string> {
+  const salts: Record<string, string> = {};
+  for (const pattern of saltedPaths) {
+    for (const pointer of resolvePointerPattern(doc, pattern)) {
+      if (prefix === "" || isAtOrBelow(pointer, prefix)) {
+        salts[pointer] = generateFieldSalt();
+      }
+    }
+  }
+  return salts;
+}
+
+/**
+ * Redacted marker replacing original.
+ * With an opening (FIELD_COMMITMENTS_SCHEME) the hash is the field commitment at opening.path; otherwise
+ * the canonical content hash.
+ */
+export async function createRedactedField(
+  original: unknown,
+  view: TranscriptViewName,
+  opening?: { salts: FieldSalts; path: string },
+  sha256Async: Sha256Async = defaultSha256
+): Promise<RedactedFieldMarker> {
+  const hash = opening
+    ? await computeFieldCommitment(original, sha256Async, opening.salts, opening.path)
+    : await sha256Async(stableCanonicalize(original));
+  return {
+    redacted: true,
+    hash,
+    view,
+    ...(opening && typeof opening.salts[opening.path] === "string" ? { salted: true as const } : {}),
+  };
+}
+
+/**
+ * Redact transcript according to view.
+ *
+ * Deterministic (same transcript + view + policy → same output), keeps transcript_id and signatures,
+ * and replaces the fields the policy lists for the view with redacted markers (parents before children:
+ * a field inside an already redacted one is covered by the parent's hash).
+ * Under FIELD_COMMITMENTS_SCHEME every redacted field must have a salt (see salted_paths), since an
+ * unsalted commitment of a small value could be recovered by hashing candidates. The salts of a hidden
+ * field are hidden with it.
+ *
+ * @throws If the policy is invalid or a field to redact has no salt
+ */
+export async function redactTranscript(
+  transcript: TranscriptV4,
+  view: TranscriptViewName,
+  policy: RedactionPolicy = DEFAULT_REDACTION_POLICY,
+  options?: { sha256Async?: Sha256Async }
+): Promise<TranscriptV4> {
+  parseRedactionPolicy(policy);
+  if (view === "INTERNAL") {
+    return transcript;
+  }
+  const sha256Async = options?.sha256Async ?? defaultSha256;
+  const commitments = transcript.hash_scheme === FIELD_COMMITMENTS_SCHEME;
+  const salts = (commitments ? transcript.field_salts ?? {} : {}) as FieldSalts;
+  const redacted: TranscriptV4 = JSON.parse(JSON.stringify(transcript));
+
+  const pointers = [...new Set((policy.views[view] ?? []).flatMap((pattern) => resolvePointerPattern(transcript, pattern)))];
+  pointers.sort((a, b) => parsePointer(a).length - parsePointer(b).length || (a < b ? -1 : a > b ? 1 : 0));
+  const applied: string[] = [];
+
+  for (const pointer of pointers) {
+    if (applied.some((parent) => pointer.startsWith(`${parent}/`))) {
+      continue;
+    }
+    const original = getAtPointer(transcript, pointer);
+    // Absent or empty fields are left as-is
+    if (original === undefined || original === null || original === "") {
+      continue;
+    }
+    if (commitments && typeof salts[pointer] !== "string") {
+      throw new Error(`Cannot redact ${pointer}: field has no salt (not covered by the transcript's salted_paths)`);
+    }
+    const opening = commitments ? { salts, path: pointer } : undefined;
+    setAtPointer(redacted, pointer, await createRedactedField(original, view, opening, sha256Async));
+    applied.push(pointer);
+
+    // Salts are random, so the plain hash of a hidden salt is safe to publish
+    for (const [saltPath, salt] of Object.entries(salts)) {
+      if (isAtOrBelow(saltPath, pointer) && typeof salt === "string") {
+        redacted.field_salts![saltPath] = await createRedactedField(salt, view, undefined, sha256Async);
+      }
+    }
+  }
+  return redacted;
+}
+
+/**
+ * Build a pact-transcript-view/1 document: the redacted transcript plus the transcript_id it was
+ * derived from. Only transcripts using FIELD_COMMITMENTS_SCHEME keep a verifiable hash chain once
+ * fields are redacted.
+ */
+export async function createTranscriptView(
+  transcript: TranscriptV4,
+  view: TranscriptViewName,
+  policy: RedactionPolicy = DEFAULT_REDACTION_POLICY,
+  options?: { sha256Async?: Sha256Async }
+): Promise<TranscriptViewV1> {
+  return {
+    kind: "view",
+    source_transcript_hash: transcript.transcript_id,
+    view,
+    transcript: await redactTranscript(transcript, view, policy, options),
+  };
+}
+
+/**
+ * Build a disclosure revealing the fields at paths (pointers or patterns) to recipient, with the salts
+ * of each field and every salted field below it (needed to open their commitments).
+ */
+export function createDisclosure(transcript: TranscriptV4, params: { recipient: string; paths: string[] }): DisclosureV1 {
+  const salts = transcript.field_salts ?? {};
+  const pointers = [...new Set(params.paths.flatMap((pattern) => resolvePointerPattern(transcript, pattern)))].sort();
+  return {
+    version: DISCLOSURE_VERSION,
+    source_transcript_hash: transcript.transcript_id,
+    recipient: params.recipient,
+    fields: pointers.map((path) => {
+      const fieldSalts: Record<string, string> = {};
+      for (const [saltPath, salt] of Object.entries(salts)) {
+        if (isAtOrBelow(saltPath, path) && typeof salt === "string") {
+          fieldSalts[saltPath] = salt;
+        }
+      }
+      return {
+        path,
+        value: getAtPointer(transcript, path),
+        ...(Object.keys(fieldSalts).length > 0 ? { salts: fieldSalts } : {}),
+      };
+    }),
+  };
+}
@@ -0,0 +1,243 @@
+/**
+ * pact-transcript-view/1 verification (schemas/pact_transcript_view_v1.json).
+ *
+ * A view wraps a transcript redacted by the SDK's redactTranscript: fields are replaced with
+ * { redacted: true, hash, view } markers. When the source transcript uses hash_scheme
+ * "field-commitments/1", each marker's hash is the field commitment, so signatures, the round hash
+ * chain and final_hash verify on the view exactly as on the original.
+ * Pure: hashing goes through options.sha256Async when provided (browser), else node:crypto.
+ */
+
+import type { TranscriptV4, ReplayResult } from "../util/transcript_types.js";
+import { replayTranscriptV4, type Sha256Async } from "../util/replay.js";
+import { stableCanonicalize } from "../util/canonical_pure.js";
+import {
+  FIELD_COMMITMENTS_SCHEME,
+  computeFieldCommitment,
+  findRedactedFields,
+  getAtPointer,
+  isRedactedField,
+} from "../util/field_commitments.js";
+
+export const TRANSCRIPT_VIEWS = ["INTERNAL", "PARTNER", "AUDITOR"] as const;
+export type TranscriptViewName = (typeof TRANSCRIPT_VIEWS)[number];
+
+export interface TranscriptViewV1 {
+  kind: "view";
+  /** transcript_id of the unredacted source transcript. */
+  source_transcript_hash: string;
+  view: TranscriptViewName;
+  /** Redacted transcript (fields may be { redacted: true, hash, view } markers). */
+  transcript?: TranscriptV4;
+}
+
+/**
+ * pact-disclosure/1: reveals chosen redacted fields (value + salts) of a transcript to one recipient
+ * (SDK createDisclosure).
+ */
+export interface DisclosureV1 {
+  version: "pact-disclosure/1";
+  source_transcript_hash: string;
+  recipient: string;
+  fields: Array<{ path: string; value: unknown; salts?: Record<string, string> }>;
+}
+
+export interface DisclosureCheck {
+  recipient: string | null;
+  ok: boolean;
+  fields: Array<{ path: string; ok: boolean; error?: string }>;
+}
+
+export interface TranscriptViewVerification {
+  version: "transcript_view_verify/1.0";
+  ok: boolean;
+  view: string | null;
+  source_transcript_hash: string | null;
+  hash_scheme: string | null;
+  /** JSON pointers into the transcript with the committed hash. */
+  redacted_fields: Array<{ path: string; hash: string }>;
+  integrity_status: ReplayResult["integrity_status"] | null;
+  signature_verifications: number;
+  hash_chain_verifications: number;
+  rounds_verified: number;
+  /** Present when a disclosure was checked against the view's redacted fields. */
+  disclosure?: DisclosureCheck;
+  errors: string[];
+  warnings: string[];
+}
+
+/** Fields replay needs in the clear: identity, genesis, chain links and signatures. */
+const CLEAR_TRANSCRIPT_FIELDS = ["transcript_version", "transcript_id", "intent_id", "created_at_ms", "hash_scheme", "final_hash", "rounds"];
+const CLEAR_ROUND_FIELDS = [
+  "round_number",
+  "round_type",
+  "timestamp_ms",
+  "previous_round_hash",
+  "round_hash",
+  "envelope_hash",
+  "signature",
+  "public_key_b58",
+];
+
+const TRANSCRIPT_ID_PATTERN = /^transcript-[a-f0-9]{64}$/;
+
+/**
+ * Structural validation against schemas/pact_transcript_view_v1.json. Returns error messages (empty when valid).
+ */
+export function validateTranscriptViewSchema(doc: unknown): string[] {
+  if (typeof doc !== "object" || doc === null || Array.isArray(doc)) {
+    return ["View must be a JSON object"];
+  }
+  const v = doc as Record<string, unknown>;
+  const errors: string[] = [];
+  if (v.kind !== "view") {
+    errors.push(`kind must be "view", got ${JSON.stringify(v.kind)}`);
+  }
+  if (typeof v.source_transcript_hash !== "string" || !TRANSCRIPT_ID_PATTERN.test(v.source_transcript_hash)) {
+    errors.push("source_transcript_hash must match ^transcript-[a-f0-9]{64}$");
+  }
+  if (typeof v.view !== "string" || !(TRANSCRIPT_VIEWS as readonly string[]).includes(v.view)) {
+    errors.push(`view must be one of ${TRANSCRIPT_VIEWS.join(", ")}`);
+  }
+  return errors;
+}
+
+function isClearFieldPath(path: string): boolean {
+  const parts = path.split("/").slice(1);
+  if (parts.length === 1) return CLEAR_TRANSCRIPT_FIELDS.includes(parts[0]);
+  if (parts[0] === "rounds" && parts.length === 2) return true;
+  if (parts[0] === "rounds" && parts.length >= 3) return CLEAR_ROUND_FIELDS.includes(parts[2]);
+  return false;
+}
+
+/** node:crypto sha256 (hex), used when the caller passes no sha256Async. */
+export async function defaultSha256(data: string): Promise<string> {
+  const crypto = await import("node:crypto");
+  return crypto.createHash("sha256").update(data, "utf8").digest("hex");
+}
+
+/**
+ * Open each disclosed field against the redacted marker at its path in the view.
+ * A disclosed value matches when its field commitment (salted with the disclosed salts) equals the marker
+ * hash; unsalted markers of legacy transcripts also accept the plain canonical hash.
+ */
+export async function checkDisclosure(
+  view: TranscriptViewV1,
+  disclosure: unknown,
+  sha256Async: Sha256Async = defaultSha256
+): Promise<DisclosureCheck> {
+  const d = disclosure as Partial<DisclosureV1> | null;
+  const check: DisclosureCheck = { recipient: typeof d?.recipient === "string" ? d.recipient : null, ok: false, fields: [] };
+  if (!d || d.version !== "pact-disclosure/1" || !Array.isArray(d.fields) || typeof d.recipient !== "string") {
+    check.fields.push({ path: "", ok: false, error: "Not a pact-disclosure/1 document" });
+    return check;
+  }
+  if (d.source_transcript_hash !== view.source_transcript_hash) {
+    check.fields.push({ path: "", ok: false, error: `Disclosure is for ${String(d.source_transcript_hash)}, view is ${view.source_transcript_hash}` });
+    return check;
+  }
+  for (const field of d.fields) {
+    const marker = getAtPointer(view.transcript, field.path);
+    if (!isRedactedField(marker)) {
+      check.fields.push({ path: field.path, ok: false, error: "Field is not redacted in this view" });
+      continue;
+    }
+    const opened = await computeFieldCommitment(field.value, sha256Async, field.salts ?? {}, field.path);
+    const legacy = !marker.salted && (await sha256Async(stableCanonicalize(field.value))) === marker.hash;
+    check.fields.push(
+      opened === marker.hash || legacy
+        ? { path: field.path, ok: true }
+        : { path: field.path, ok: false, error: "Disclosed value does not match the redacted hash" }
+    );
+  }
+  check.ok = check.fields.length > 0 && check.fields.every((f) => f.ok);
+  return check;
+}
+
+/**
+ * Verify a pact-transcript-view/1 document: schema, binding to source_transcript_hash, marker views,
+ * and a full replay (signatures + hash chain + final_hash) through the redacted fields.
+ * With options.disclosure, also opens the disclosed fields against the view.
+ */
+export async function verifyTranscriptView(
+  doc: unknown,
+  options?: { sha256Async?: Sha256Async; disclosure?: unknown }
+): Promise<TranscriptViewVerification> {
+  const result: TranscriptViewVerification = {
+    version: "transcript_view_verify/1.0",
+    ok: false,
+    view: null,
+    source_transcript_hash: null,
+    hash_scheme: null,
+    redacted_fields: [],
+    integrity_status: null,
+    signature_verifications: 0,
+    hash_chain_verifications: 0,
+    rounds_verified: 0,
+    errors: [],
+    warnings: [],
+  };
+
+  result.errors.push(...validateTranscriptViewSchema(doc));
+  if (result.errors.length > 0) {
+    return result;
+  }
+  const view = doc as TranscriptViewV1;
+  result.view = view.view;
+  result.source_transcript_hash = view.source_transcript_hash;
+
+  const transcript = view.transcript;
+  if (typeof transcript !== "object" || transcript === null) {
+    result.errors.push("View has no transcript");
+    return result;
+  }
+  result.hash_scheme = typeof transcript.hash_scheme === "string" ? transcript.hash_scheme : null;
+  if (transcript.transcript_id !== view.source_transcript_hash) {
+    result.errors.push(
+      `transcript.transcript_id (${String(transcript.transcript_id)}) does not match source_transcript_hash (${view.source_transcript_hash})`
+    );
+  }
+
+  const redacted = findRedactedFields(transcript);
+  result.redacted_fields = redacted.map(({ path, field }) => ({ path, hash: field.hash }));
+  for (const { path, field } of redacted) {
+    if (field.view !== view.view) {
+      result.errors.push(`Redacted field ${path} is marked for view ${field.view}, document view is ${view.view}`);
+    }
+    if (!/^[a-f0-9]{64}$/.test(field.hash)) {
+      result.errors.push(`Redacted field ${path} hash is not a sha256 hex digest`);
+    }
+    if (isClearFieldPath(path)) {
+      result.errors.push(`Redacted field ${path} is required in the clear for verification`);
+    }
+  }
+  if (redacted.length > 0 && view.view === "INTERNAL") {
+    result.errors.push("INTERNAL view must not contain redacted fields");
+  }
+  if (redacted.length > 0 && transcript.hash_scheme !== FIELD_COMMITMENTS_SCHEME) {
+    result.errors.push(
+      `Redacted fields require hash_scheme ${FIELD_COMMITMENTS_SCHEME} (got ${result.hash_scheme ?? "none"}); round hashes cannot be verified through redaction`
+    );
+  }
+  if (result.errors.length > 0) {
+    return result;
+  }
+
+  const replay = await replayTranscriptV4(transcript, { sha256Async: options?.sha256Async });
+  result.integrity_status = replay.integrity_status;
+  result.signature_verifications = replay.signature_verifications;
+  result.hash_chain_verifications = replay.hash_chain_verifications;
+  result.rounds_verified = replay.rounds_verified;
+  result.errors.push(...replay.errors.map((e) => `${e.type}: ${e.message}`));
+  result.warnings.push(...replay.warnings);
+  result.ok = replay.ok && result.errors.length === 0;
+
+  if (options?.disclosure !== undefined) {
+    result.disclosure = await checkDisclosure(view, options.disclosure, options.sha256Async);
+    for (const field of result.disclosure.fields.filter((f) => !f.ok)) {
+      result.errors.push(`Disclosure ${field.path || "(document)"}: ${field.error}`);
+    }
+    result.ok = result.ok && result.disclosure.ok;
+  }
+  return result;
+}
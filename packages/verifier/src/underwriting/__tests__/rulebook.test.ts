@@ -0,0 +1,153 @@
+/**
+ * Tests for underwriting rulebook evaluation: the default rulebook keeps the auditor pack decisions,
+ * custom rulebooks key on failure code and intent type, and malformed rulebooks are rejected.
+ */
+
+import { describe, it, expect } from "vitest";
+import { createHash } from "crypto";
+import { readFileSync } from "fs";
+import { resolve, dirname } from "path";
+import { fileURLToPath } from "url";
+import {
+  DEFAULT_UNDERWRITING_RULEBOOK,
+  computeRulebookHash,
+  evaluateRulebook,
+  tierForScore,
+  validateRulebook,
+  type UnderwritingFacts,
+  type UnderwritingRulebookV1,
+} from "../rulebook.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+const sha256Async = async (data: string): Promise<string> => createHash("sha256").update(data, "utf8").digest("hex");
+
+const completed: UnderwritingFacts = {
+  integrity: "VALID",
+  outcome: "COMPLETED",
+  fault_domain: "NO_FAULT",
+  failure_code: null,
+  intent_type: "weather.data",
+  confidence: 1,
+  audit_tier: null,
+  double_commit: false,
+  nonstandard_constitution: false,
+  buyer_score: 0.25,
+  provider_score: 0.3,
+};
+
+describe("underwriting rulebook", () => {
+  it("default rulebook reproduces the decisions auditor packs derive without a sealed rulebook", () => {
+    expect(validateRulebook(DEFAULT_UNDERWRITING_RULEBOOK)).toEqual([]);
+    expect([0.2, 0.01, -0.1, -0.11].map((s) => tierForScore(DEFAULT_UNDERWRITING_RULEBOOK, s))).toEqual(["A", "B", "B", "C"]);
+
+    expect(evaluateRulebook(DEFAULT_UNDERWRITING_RULEBOOK, completed)).toEqual({
+      buyer_tier: "A",
+      provider_tier: "A",
+      risk_factors: [],
+      surcharges: [],
+      exclusions: [],
+      coverage: "COVERED",
+    });
+
+    // Tier B requires a surcharge even when no surcharge rule matches
+    const unreachable = evaluateRulebook(DEFAULT_UNDERWRITING_RULEBOOK, {
+      ...completed,
+      outcome: "FAILED_PROVIDER_UNREACHABLE",
+      fault_domain: "PROVIDER_AT_FAULT",
+      confidence: 0.7,
+      audit_tier: "T2",
+      buyer_score: 0.01,
+    });
+    expect(unreachable.risk_factors).toEqual(["FAILED_PROVIDER_UNREACHABLE", "PROVIDER_AT_FAULT", "TIER_T2"]);
+    expect(unreachable.surcharges).toEqual([]);
+    expect(unreachable.coverage).toBe("COVERED_WITH_SURCHARGE");
+    expect(evaluateRulebook(DEFAULT_UNDERWRITING_RULEBOOK, { ...completed, confidence: 0.5 }).surcharges).toEqual(["LOW_CONFIDENCE"]);
+
+    expect(evaluateRulebook(DEFAULT_UNDERWRITING_RULEBOOK, { ...completed, provider_score: -0.2 }).coverage).toBe("ESCROW_REQUIRED");
+    const invalid = evaluateRulebook(DEFAULT_UNDERWRITING_RULEBOOK, { ...completed, integrity: "INVALID", provider_score: -0.2 });
+    expect(invalid.exclusions).toEqual(["INTEGRITY_FAILURE"]);
+    expect(invalid.coverage).toBe("EXCLUDED");
+  });
+
+  it("shipped pact-extended rulebook keeps the named risk factors, surcharges and exclusions", () => {
+    const extended: UnderwritingRulebookV1 = JSON.parse(readFileSync(resolve(__dirname, "../../../resources/rulebooks/pact-extended-1.0.json"), "utf8"));
+    expect(validateRulebook(extended)).toEqual([]);
+
+    const timeout = evaluateRulebook(extended, {
+      ...completed,
+      outcome: "FAILED_TIMEOUT",
+      fault_domain: "PROVIDER_AT_FAULT",
+      confidence: 0.8,
+      buyer_score: 0.01,
+    });
+    expect(timeout.risk_factors).toEqual(["SLA_TIMEOUT", "PROVIDER_FAULT"]);
+    expect(timeout.surcharges).toEqual(["SLA", "REDUCED_CONFIDENCE_25PCT", "TIER_B_PARTY"]);
+    expect(timeout.coverage).toBe("COVERED_WITH_SURCHARGE");
+
+    expect(evaluateRulebook(extended, { ...completed, provider_score: -0.2 }).coverage).toBe("ESCROW_REQUIRED");
+    const doubleCommit = evaluateRulebook(extended, { ...completed, double_commit: true, provider_score: -0.2 });
+    expect(doubleCommit.exclusions).toEqual(["DOUBLE_COMMIT"]);
+    expect(doubleCommit.coverage).toBe("EXCLUDED");
+  });
+
+  it("evaluates custom tiers and rules keyed on failure code and intent type", async () => {
+    const rulebook: UnderwritingRulebookV1 = {
+      version: "pact-underwriting-rulebook/1",
+      rulebook_id: "acme-cyber/2.3",
+      tiers: [
+        { tier: "PREFERRED", min_score: 0.5 },
+        { tier: "STANDARD", min_score: 0 },
+        { tier: "SUBSTANDARD", min_score: null },
+      ],
+      risk_factors: [
+        { id: "SETTLEMENT_TIMEOUT", when: { failure_code: ["PACT-404"] } },
+        { id: "ART_MARKET", when: { intent_type: ["art.acquisition"] } },
+      ],
+      surcharges: [{ id: "ART_PREMIUM", when: { risk_factor: ["ART_MARKET"] } }],
+      exclusions: [{ id: "NO_ART_TIMEOUTS", when: { risk_factor: ["ART_MARKET"], failure_code: ["PACT-404"] } }],
+      escrow: [{ id: "SUBSTANDARD_PARTY", when: { party_tier: ["SUBSTANDARD"] } }],
+    };
+    expect(validateRulebook(rulebook)).toEqual([]);
+
+    const art = { ...completed, intent_type: "art.acquisition" };
+    expect(evaluateRulebook(rulebook, art)).toMatchObject({
+      buyer_tier: "STANDARD",
+      risk_factors: ["ART_MARKET"],
+      surcharges: ["ART_PREMIUM"],
+      coverage: "COVERED_WITH_SURCHARGE",
+    });
+    const artTimeout = evaluateRulebook(rulebook, { ...art, outcome: "FAILED_TIMEOUT", failure_code: "PACT-404" });
+    expect(artTimeout.risk_factors).toEqual(["SETTLEMENT_TIMEOUT", "ART_MARKET"]);
+    expect(artTimeout.coverage).toBe("EXCLUDED");
+    expect(evaluateRulebook(rulebook, { ...completed, failure_code: "PACT-404", buyer_score: -0.01 }).coverage).toBe("ESCROW_REQUIRED");
+
+    // The hash binds the exact rules: any change yields a different hash
+    const hash = await computeRulebookHash(rulebook, sha256Async);
+    expect(hash).toMatch(/^[a-f0-9]{64}$/);
+    expect(await computeRulebookHash(JSON.parse(JSON.stringify(rulebook)), sha256Async)).toBe(hash);
+    expect(await computeRulebookHash({ ...rulebook, escrow: [] }, sha256Async)).not.toBe(hash);
+  });
+
+  it("rejects malformed rulebooks", () => {
+    expect(validateRulebook([])).toEqual(["Rulebook must be a JSON object"]);
+    const errors = validateRulebook({
+      ...DEFAULT_UNDERWRITING_RULEBOOK,
+      version: "pact-underwriting-rulebook/2",
+      tiers: [
+        { tier: "A", min_score: 0, coverage: "MAYBE" },
+        { tier: "B", min_score: 0.5 },
+        { tier: "C", min_score: -1 },
+      ],
+      exclusions: [{ id: "X", when: { outcome: "FAILED_TIMEOUT", weather: ["rain"] } }],
+    });
+    expect(errors).toEqual([
+      'version must be "pact-underwriting-rulebook/1", got "pact-underwriting-rulebook/2"',
+      "tiers[0].coverage must be one of COVERED, COVERED_WITH_SURCHARGE, ESCROW_REQUIRED, EXCLUDED",
+      "tiers[1].min_score must be lower than tiers[0].min_score",
+      "tiers[2].min_score must be null (catch-all tier)",
+      "exclusions[0].when.outcome must be an array of strings",
+      "exclusions[0].when.weather is not a known condition",
+    ]);
+  });
+});
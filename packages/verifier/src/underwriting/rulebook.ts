@@ -0,0 +1,285 @@
+/**
+ * Underwriting rulebook (pact-underwriting-rulebook/1), no Node deps.
+ *
+ * A rulebook declares an insurer's appetite as data: passport tier thresholds, and ordered rules that raise
+ * risk factors, surcharges, exclusions and escrow requirements. Each rule matches underwriting facts derived
+ * from one transcript (outcome, fault domain, failure code, intent type, confidence, party tiers, ...).
+ *
+ * Coverage: EXCLUDED if any exclusion matches, else ESCROW_REQUIRED if any escrow rule matches, else
+ * COVERED_WITH_SURCHARGE if any surcharge applies, else COVERED; raised to the coverage of a party's tier
+ * when that is stricter.
+ *
+ * rulebook_hash = sha256(stableCanonicalize(rulebook)); summaries record it so a decision can be re-derived
+ * under the exact rulebook it was made with (auditor packs seal it at underwriting/rulebook.json).
+ */
+
+import type { TranscriptV4 } from "../util/transcript_types.js";
+import { stableCanonicalize } from "../util/canonical_pure.js";
+
+export const UNDERWRITING_RULEBOOK_VERSION = "pact-underwriting-rulebook/1";
+
+/** Pack path of the rulebook an insurer summary was derived under. */
+export const RULEBOOK_PACK_PATH = "underwriting/rulebook.json";
+
+export type CoverageDecision = "COVERED" | "COVERED_WITH_SURCHARGE" | "ESCROW_REQUIRED" | "EXCLUDED";
+
+/**
+ * Rule condition: every present key must hold ({} always matches). List-valued keys match any listed value.
+ */
+export interface RuleCondition {
+  integrity?: Array<"VALID" | "INVALID">;
+  outcome?: string[];
+  fault_domain?: string[];
+  /** transcript.failure_event.code, e.g. "PACT-404". */
+  failure_code?: string[];
+  intent_type?: string[];
+  audit_tier?: string[];
+  /** Buyer or provider tier. */
+  party_tier?: string[];
+  /** Any of these risk factors was raised (by an earlier risk rule, when used in risk_factors). */
+  risk_factor?: string[];
+  double_commit?: boolean;
+  nonstandard_constitution?: boolean;
+  confidence_below?: number;
+  confidence_at_least?: number;
+}
+
+export interface UnderwritingRule {
+  id: string;
+  when: RuleCondition;
+}
+
+export interface UnderwritingRulebookV1 {
+  version: typeof UNDERWRITING_RULEBOOK_VERSION;
+  /** Insurer-chosen name and revision, e.g. "pact-default/2.0". */
+  rulebook_id: string;
+  /**
+   * Highest threshold first; the first tier whose min_score the score reaches applies. Last entry: min_score null.
+   * coverage: the least coverage a transaction with a party in this tier gets (e.g. ESCROW_REQUIRED).
+   */
+  tiers: Array<{ tier: string; min_score: number | null; coverage?: CoverageDecision }>;
+  risk_factors: UnderwritingRule[];
+  surcharges: UnderwritingRule[];
+  exclusions: UnderwritingRule[];
+  escrow: UnderwritingRule[];
+}
+
+/** Facts about one transcript that rules are evaluated against. */
+export interface UnderwritingFacts {
+  integrity: "VALID" | "INVALID";
+  outcome: string;
+  fault_domain: string;
+  failure_code: string | null;
+  intent_type: string | null;
+  confidence: number;
+  audit_tier: string | null;
+  double_commit: boolean;
+  nonstandard_constitution: boolean;
+  /** Passport scores; null when the party could not be identified. */
+  buyer_score: number | null;
+  provider_score: number | null;
+}
+
+export interface UnderwritingDecision {
+  buyer_tier: string | null;
+  provider_tier: string | null;
+  risk_factors: string[];
+  surcharges: string[];
+  exclusions: string[];
+  coverage: CoverageDecision;
+}
+
+/**
+ * Built-in rulebook, applied when none is given or sealed: the decisions auditor packs have always derived.
+ * Failed outcomes and fault domains are raised under their own names, confidence below 0.7 is surcharged,
+ * tier B parties require a surcharge and tier C parties escrow, and a broken hash chain is excluded.
+ */
+export const DEFAULT_UNDERWRITING_RULEBOOK: UnderwritingRulebookV1 = {
+  version: UNDERWRITING_RULEBOOK_VERSION,
+  rulebook_id: "pact-default/2.0",
+  tiers: [
+    { tier: "A", min_score: 0.2 },
+    { tier: "B", min_score: -0.1, coverage: "COVERED_WITH_SURCHARGE" },
+    { tier: "C", min_score: null, coverage: "ESCROW_REQUIRED" },
+  ],
+  risk_factors: [
+    { id: "FAILED_TIMEOUT", when: { outcome: ["FAILED_TIMEOUT"] } },
+    { id: "FAILED_INTEGRITY", when: { outcome: ["FAILED_INTEGRITY"] } },
+    { id: "FAILED_PROVIDER_UNREACHABLE", when: { outcome: ["FAILED_PROVIDER_UNREACHABLE"] } },
+    { id: "FAILED_PROVIDER_API_MISMATCH", when: { outcome: ["FAILED_PROVIDER_API_MISMATCH"] } },
+    { id: "BUYER_AT_FAULT", when: { fault_domain: ["BUYER_AT_FAULT"] } },
+    { id: "PROVIDER_AT_FAULT", when: { fault_domain: ["PROVIDER_AT_FAULT"] } },
+    { id: "BUYER_RAIL_AT_FAULT", when: { fault_domain: ["BUYER_RAIL_AT_FAULT"] } },
+    { id: "PROVIDER_RAIL_AT_FAULT", when: { fault_domain: ["PROVIDER_RAIL_AT_FAULT"] } },
+    { id: "INDETERMINATE", when: { fault_domain: ["INDETERMINATE"] } },
+    { id: "INDETERMINATE_TAMPER", when: { fault_domain: ["INDETERMINATE_TAMPER"] } },
+    { id: "TIER_T2", when: { audit_tier: ["T2"] } },
+    { id: "TIER_T3", when: { audit_tier: ["T3"] } },
+  ],
+  surcharges: [{ id: "LOW_CONFIDENCE", when: { confidence_below: 0.7 } }],
+  exclusions: [{ id: "INTEGRITY_FAILURE", when: { integrity: ["INVALID"] } }],
+  escrow: [],
+};
+
+const RULE_LISTS = ["risk_factors", "surcharges", "exclusions", "escrow"] as const;
+
+/** Least to most restrictive. */
+const COVERAGE_ORDER: CoverageDecision[] = ["COVERED", "COVERED_WITH_SURCHARGE", "ESCROW_REQUIRED", "EXCLUDED"];
+
+const CONDITION_KEYS: Record<keyof RuleCondition, "list" | "boolean" | "number"> = {
+  integrity: "list",
+  outcome: "list",
+  fault_domain: "list",
+  failure_code: "list",
+  intent_type: "list",
+  audit_tier: "list",
+  party_tier: "list",
+  risk_factor: "list",
+  double_commit: "boolean",
+  nonstandard_constitution: "boolean",
+  confidence_below: "number",
+  confidence_at_least: "number",
+};
+
+/**
+ * Structural validation against schemas/pact_underwriting_rulebook_v1.json. Returns error messages (empty when valid).
+ */
+export function validateRulebook(doc: unknown): string[] {
+  if (typeof doc !== "object" || doc === null || Array.isArray(doc)) {
+    return ["Rulebook must be a JSON object"];
+  }
+  const r = doc as Record<string, unknown>;
+  const errors: string[] = [];
+  if (r.version !== UNDERWRITING_RULEBOOK_VERSION) {
+    errors.push(`version must be "${UNDERWRITING_RULEBOOK_VERSION}", got ${JSON.stringify(r.version)}`);
+  }
+  if (typeof r.rulebook_id !== "string" || r.rulebook_id.length === 0) {
+    errors.push("rulebook_id must be a non-empty string");
+  }
+  const tiers = r.tiers;
+  if (!Array.isArray(tiers) || tiers.length === 0) {
+    errors.push("tiers must be a non-empty array");
+  } else {
+    tiers.forEach((t, i) => {
+      const last = i === tiers.length - 1;
+      if (typeof t?.tier !== "string") errors.push(`tiers[${i}].tier must be a string`);
+      if (t?.coverage !== undefined && !COVERAGE_ORDER.includes(t.coverage)) {
+        errors.push(`tiers[${i}].coverage must be one of ${COVERAGE_ORDER.join(", ")}`);
+      }
+      if (last ? t?.min_score !== null : typeof t?.min_score !== "number") {
+        errors.push(last ? `tiers[${i}].min_score must be null (catch-all tier)` : `tiers[${i}].min_score must be a number`);
+      }
+      if (!last && i > 0 && typeof t?.min_score === "number" && typeof tiers[i - 1]?.min_score === "number" && t.min_score >= tiers[i - 1].min_score) {
+        errors.push(`tiers[${i}].min_score must be lower than tiers[${i - 1}].min_score`);
+      }
+    });
+  }
+  for (const list of RULE_LISTS) {
+    const rules = r[list];
+    if (!Array.isArray(rules)) {
+      errors.push(`${list} must be an array`);
+      continue;
+    }
+    rules.forEach((rule, i) => {
+      if (typeof rule?.id !== "string" || rule.id.length === 0) errors.push(`${list}[${i}].id must be a non-empty string`);
+      if (typeof rule?.when !== "object" || rule.when === null || Array.isArray(rule.when)) {
+        errors.push(`${list}[${i}].when must be an object`);
+        return;
+      }
+      for (const [key, value] of Object.entries(rule.when as Record<string, unknown>)) {
+        const kind = CONDITION_KEYS[key as keyof RuleCondition];
+        if (!kind) {
+          errors.push(`${list}[${i}].when.${key} is not a known condition`);
+        } else if (kind === "list" ? !Array.isArray(value) || !value.every((v) => typeof v === "string") : typeof value !== kind) {
+          errors.push(`${list}[${i}].when.${key} must be ${kind === "list" ? "an array of strings" : `a ${kind}`}`);
+        }
+      }
+    });
+  }
+  return errors;
+}
+
+/**
+ * sha256 of the canonical rulebook.
+ */
+export async function computeRulebookHash(
+  rulebook: UnderwritingRulebookV1,
+  sha256Async: (data: string) => Promise<string>
+): Promise<string> {
+  return sha256Async(stableCanonicalize(rulebook));
+}
+
+/**
+ * Tier for a passport score: the first tier whose min_score the score reaches (last tier otherwise).
+ */
+export function tierForScore(rulebook: UnderwritingRulebookV1, score: number): string {
+  const match = rulebook.tiers.find((t) => t.min_score === null || score >= t.min_score);
+  return (match ?? rulebook.tiers[rulebook.tiers.length - 1]).tier;
+}
+
+/**
+ * Contention indicator for a single transcript: PACT-331 failure, or a "double" evidence ref.
+ */
+export function detectDoubleCommit(transcript: TranscriptV4): boolean {
+  if (transcript.failure_event?.code === "PACT-331") {
+    return true;
+  }
+  const evidenceRefs = transcript.failure_event?.evidence_refs || [];
+  return evidenceRefs.some((ref) => typeof ref === "string" && ref.toLowerCase().includes("double"));
+}
+
+function matchesCondition(
+  when: RuleCondition,
+  facts: UnderwritingFacts,
+  partyTiers: Array<string | null>,
+  riskFactors: string[]
+): boolean {
+  const inList = (list: string[] | undefined, value: string | null) => list === undefined || (value !== null && list.includes(value));
+  return (
+    inList(when.integrity, facts.integrity) &&
+    inList(when.outcome, facts.outcome) &&
+    inList(when.fault_domain, facts.fault_domain) &&
+    inList(when.failure_code, facts.failure_code) &&
+    inList(when.intent_type, facts.intent_type) &&
+    inList(when.audit_tier, facts.audit_tier) &&
+    (when.party_tier === undefined || partyTiers.some((t) => t !== null && when.party_tier!.includes(t))) &&
+    (when.risk_factor === undefined || riskFactors.some((f) => when.risk_factor!.includes(f))) &&
+    (when.double_commit === undefined || when.double_commit === facts.double_commit) &&
+    (when.nonstandard_constitution === undefined || when.nonstandard_constitution === facts.nonstandard_constitution) &&
+    (when.confidence_below === undefined || facts.confidence < when.confidence_below) &&
+    (when.confidence_at_least === undefined || facts.confidence >= when.confidence_at_least)
+  );
+}
+
+/**
+ * Evaluate a rulebook against one transcript's facts. Rules apply in order; each id is reported once.
+ */
+export function evaluateRulebook(rulebook: UnderwritingRulebookV1, facts: UnderwritingFacts): UnderwritingDecision {
+  const buyerTier = facts.buyer_score === null ? null : tierForScore(rulebook, facts.buyer_score);
+  const providerTier = facts.provider_score === null ? null : tierForScore(rulebook, facts.provider_score);
+  const partyTiers = [buyerTier, providerTier];
+
+  const riskFactors: string[] = [];
+  for (const rule of rulebook.risk_factors) {
+    if (!riskFactors.includes(rule.id) && matchesCondition(rule.when, facts, partyTiers, riskFactors)) {
+      riskFactors.push(rule.id);
+    }
+  }
+  const matching = (rules: UnderwritingRule[]) => [
+    ...new Set(rules.filter((rule) => matchesCondition(rule.when, facts, partyTiers, riskFactors)).map((rule) => rule.id)),
+  ];
+  const surcharges = matching(rulebook.surcharges);
+  const exclusions = matching(rulebook.exclusions);
+  const escrow = matching(rulebook.escrow);
+
+  let coverage: CoverageDecision = "COVERED";
+  if (exclusions.length > 0) coverage = "EXCLUDED";
+  else if (escrow.length > 0) coverage = "ESCROW_REQUIRED";
+  else if (surcharges.length > 0) coverage = "COVERED_WITH_SURCHARGE";
+  for (const tier of partyTiers) {
+    const floor = rulebook.tiers.find((t) => t.tier === tier)?.coverage;
+    if (floor && COVERAGE_ORDER.indexOf(floor) > COVERAGE_ORDER.indexOf(coverage)) coverage = floor;
+  }
+
+  return { buyer_tier: buyerTier, provider_tier: providerTier, risk_factors: riskFactors, surcharges, exclusions, coverage };
+}
@@ -10,8 +10,12 @@ import { readFileSync } from "fs";
 import { resolve } from "path";
 import { fileURLToPath } from "url";
 import { dirname } from "path";
+import { createHash } from "node:crypto";
+import nacl from "tweetnacl";
+import bs58 from "bs58";
 import { replayTranscriptV4, computeInitialHash } from "../replay.js";
-import type { TranscriptV4 } from "../transcript_types.js";
+import { stableCanonicalize } from "../canonical_pure.js";
+import type { TranscriptV4, TranscriptRound, EnvelopeSidecar } from "../transcript_types.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -108,4 +112,190 @@ describe("v4 Transcript Replay", () => {
       expect(transcript.rounds[2].previous_round_hash).toBe(transcript.rounds[1].round_hash);
     });
   });
+
+  describe("Exhaustive mode", () => {
+    function tamperTwice(): TranscriptV4 {
+      const transcript = loadFixture("fixtures/success/SUCCESS-001-simple.json");
+      // Round 1: content altered after signing (round_hash no longer matches)
+      transcript.rounds[1].content_summary = { price: 0.00001 };
+      // Round 2: signature swapped for round 0's signature, round_hash recomputed to hide it
+      transcript.rounds[2].signature = {
+        ...transcript.rounds[2].signature,
+        signature_b58: transcript.rounds[0].signature.signature_b58,
+      };
+      const { round_hash: _r, ...round2 } = transcript.rounds[2];
+      transcript.rounds[2].round_hash = createHash("sha256").update(stableCanonicalize(round2), "utf8").digest("hex");
+      return transcript;
+    }
+
+    it("default mode stops at the first broken round", async () => {
+      const result = await replayTranscriptV4(tamperTwice());
+
+      expect(result.integrity_status).toBe("TAMPERED");
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0]).toMatchObject({ type: "HASH_CHAIN_BROKEN", round_number: 1 });
+      expect(result.rounds_verified).toBe(1);
+      expect(result.round_statuses).toBeUndefined();
+    });
+
+    it("reports every error and per-round status", async () => {
+      const result = await replayTranscriptV4(tamperTwice(), { mode: "exhaustive" });
+
+      expect(result.ok).toBe(false);
+      expect(result.integrity_status).toBe("TAMPERED");
+      const roundErrors = result.errors.filter((e) => e.round_number !== undefined);
+      expect(roundErrors.map((e) => [e.type, e.round_number])).toEqual([
+        ["HASH_CHAIN_BROKEN", 1],
+        ["SIGNATURE_INVALID", 2],
+      ]);
+      expect(result.errors.some((e) => e.type === "FINAL_HASH_MISMATCH")).toBe(true);
+
+      expect(result.round_statuses).toEqual([
+        { round_number: 0, round_type: "INTENT", signature_ok: true, round_hash_ok: true, chain_link_ok: true },
+        { round_number: 1, round_type: "ASK", signature_ok: true, round_hash_ok: false, chain_link_ok: true },
+        { round_number: 2, round_type: "ACCEPT", signature_ok: false, round_hash_ok: true, chain_link_ok: true },
+      ]);
+    });
+
+    it("keeps LVSH prefix semantics for rounds_verified", async () => {
+      const result = await replayTranscriptV4(tamperTwice(), { mode: "exhaustive" });
+
+      expect(result.rounds_verified).toBe(1);
+      expect(result.signature_verifications).toBe(2);
+      expect(result.hash_chain_verifications).toBe(2);
+    });
+
+    it("matches default mode on a valid transcript", async () => {
+      const transcript = loadFixture("fixtures/success/SUCCESS-001-simple.json");
+      const lvsh = await replayTranscriptV4(transcript);
+      const exhaustive = await replayTranscriptV4(transcript, { mode: "exhaustive" });
+
+      const { round_statuses, ...rest } = exhaustive;
+      expect(rest).toEqual(lvsh);
+      expect(round_statuses?.every((r) => r.signature_ok && r.round_hash_ok && r.chain_link_ok)).toBe(true);
+    });
+  });
+
+  describe("Envelope body verification", () => {
+    const sha256 = (data: string) => createHash("sha256").update(data, "utf8").digest("hex");
+    const keypair = nacl.sign.keyPair.fromSeed(createHash("sha256").update("envelope-test-seed").digest());
+    const pubKey = bs58.encode(keypair.publicKey);
+
+    const bodies = [
+      { envelope: { type: "INTENT", intent_id: "intent-env-test" }, message: { intent_type: "weather.data" } },
+      { envelope: { type: "ASK", intent_id: "intent-env-test", price: 0.00005 }, message: { price: 0.00005 } },
+    ];
+
+    /** Build a signed transcript; inline=false leaves bodies out of the rounds (sidecar case). */
+    function buildTranscript(inline: boolean): TranscriptV4 {
+      const intentId = "intent-env-test";
+      const createdAt = 1000000000000;
+      const rounds: TranscriptRound[] = [];
+      let previous = sha256(`${intentId}:${createdAt}`);
+      bodies.forEach((body, i) => {
+        const envelopeHash = sha256(stableCanonicalize(body.envelope));
+        const round: TranscriptRound = {
+          round_number: i,
+          round_type: i === 0 ? "INTENT" : "ASK",
+          message_hash: sha256(stableCanonicalize(body.message)),
+          envelope_hash: envelopeHash,
+          signature: {
+            signer_public_key_b58: pubKey,
+            signature_b58: bs58.encode(nacl.sign.detached(Buffer.from(envelopeHash, "hex"), keypair.secretKey)),
+            signed_at_ms: createdAt + i,
+            scheme: "ed25519",
+          },
+          timestamp_ms: createdAt + i,
+          previous_round_hash: previous,
+          agent_id: "buyer",
+          public_key_b58: pubKey,
+          ...(inline ? { envelope: body.envelope, message: body.message } : {}),
+        };
+        round.round_hash = sha256(stableCanonicalize(round));
+        previous = round.round_hash;
+        rounds.push(round);
+      });
+      return {
+        transcript_version: "pact-transcript/4.0",
+        transcript_id: "transcript-env-test",
+        intent_id: intentId,
+        intent_type: "weather.data",
+        created_at_ms: createdAt,
+        policy_hash: sha256("policy"),
+        strategy_hash: sha256("strategy"),
+        identity_snapshot_hash: sha256("identity"),
+        rounds,
+      };
+    }
+
+    function sidecar(overrides: Partial<EnvelopeSidecar> = {}): EnvelopeSidecar {
+      return {
+        version: "pact-envelopes/1",
+        transcript_id: "transcript-env-test",
+        rounds: bodies.map((b, i) => ({ round_number: i, ...b })),
+        ...overrides,
+      };
+    }
+
+    it("does not re-hash bodies unless requested", async () => {
+      const result = await replayTranscriptV4(buildTranscript(true));
+
+      expect(result.ok).toBe(true);
+      expect(result.envelope_verifications).toBeUndefined();
+    });
+
+    it("verifies inline envelope and message bodies", async () => {
+      const result = await replayTranscriptV4(buildTranscript(true), { verifyEnvelopes: true });
+
+      expect(result.ok).toBe(true);
+      expect(result.envelope_verifications).toBe(2);
+    });
+
+    it("verifies bodies supplied by a sidecar", async () => {
+      const result = await replayTranscriptV4(buildTranscript(false), { envelopeSidecar: sidecar() });
+
+      expect(result.ok).toBe(true);
+      expect(result.envelope_verifications).toBe(2);
+    });
+
+    it("reports ENVELOPE_HASH_MISMATCH when a validly signed hash does not match its body", async () => {
+      const tampered = sidecar();
+      tampered.rounds[1].envelope = { type: "ASK", intent_id: "intent-env-test", price: 0.00009 };
+
+      const result = await replayTranscriptV4(buildTranscript(false), { envelopeSidecar: tampered });
+
+      expect(result.ok).toBe(false);
+      expect(result.integrity_status).toBe("TAMPERED");
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0]).toMatchObject({ type: "ENVELOPE_HASH_MISMATCH", round_number: 1 });
+      expect(result.errors[0].message).toContain("envelope_hash mismatch");
+      expect(result.signature_verifications).toBe(2);
+      expect(result.rounds_verified).toBe(1);
+    });
+
+    it("reports message_hash mismatches and per-round status in exhaustive mode", async () => {
+      const tampered = sidecar();
+      tampered.rounds[0].message = { intent_type: "other.data" };
+
+      const result = await replayTranscriptV4(buildTranscript(false), {
+        envelopeSidecar: tampered,
+        mode: "exhaustive",
+      });
+
+      expect(result.errors.map((e) => [e.type, e.round_number])).toEqual([["ENVELOPE_HASH_MISMATCH", 0]]);
+      expect(result.errors[0].message).toContain("message_hash mismatch");
+      expect(result.round_statuses?.map((r) => r.envelope_hash_ok)).toEqual([false, true]);
+      expect(result.rounds_verified).toBe(0);
+    });
+
+    it("ignores a sidecar for a different transcript with a warning", async () => {
+      const result = await replayTranscriptV4(buildTranscript(false), {
+        envelopeSidecar: sidecar({ transcript_id: "transcript-other" }),
+      });
+
+      expect(result.ok).toBe(true);
+      expect(result.envelope_verifications).toBe(0);
+      expect(result.warnings.some((w) => w.includes("sidecar ignored"))).toBe(true);
+    });
+  });
 });
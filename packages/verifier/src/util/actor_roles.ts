@@ -0,0 +1,119 @@
+/**
+ * Actor role resolution for v4 transcript rounds (no Node deps).
+ *
+ * Precedence:
+ * 1. round.envelope.actor_role (explicit; the inline envelope body hashes to the signed envelope_hash, which
+ *    replayTranscriptV4 checks). round.actor_role is an unsigned copy: ignored unless it matches.
+ * 2. INTENT round content_summary.role_bindings[signer pubkey] (signed by the intent author)
+ * 3. agent_id name inference ("buyer" / "seller" / "provider" substrings) — skipped when strictRoles is set
+ *
+ * If (1) and (2) both exist and disagree, the role cannot be determined (null).
+ */
+
+import type { TranscriptRound } from "./transcript_types.js";
+
+export type ActorRole = "BUYER" | "PROVIDER";
+
+/** Map of signer pubkey (base58) to role, declared in the INTENT round. */
+export type RoleBindings = Record<string, ActorRole>;
+
+export type RoleResolutionOptions = {
+  /** When true, never infer roles from agent_id names. */
+  strictRoles?: boolean;
+};
+
+function isActorRole(value: unknown): value is ActorRole {
+  return value === "BUYER" || value === "PROVIDER";
+}
+
+/**
+ * Role the signer declared in its signed envelope body. Null when none is declared, or when round.actor_role
+ * disagrees with it (replay reports that round as tampered).
+ */
+export function signedActorRole(round: TranscriptRound): ActorRole | null {
+  const signed = round.envelope?.actor_role;
+  if (!isActorRole(signed) || (round.actor_role !== undefined && round.actor_role !== signed)) {
+    return null;
+  }
+  return signed;
+}
+
+function signerKeyOf(round: TranscriptRound): string | undefined {
+  return round.signature?.signer_public_key_b58 || round.public_key_b58 || undefined;
+}
+
+/**
+ * Read role bindings from the first INTENT round. Entries with unknown roles are ignored.
+ * Returns null when no INTENT round or no bindings are present.
+ */
+export function getRoleBindings(rounds: TranscriptRound[]): RoleBindings | null {
+  const intentRound = rounds.find((r) => r.round_type === "INTENT");
+  const raw = intentRound?.content_summary?.role_bindings;
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return null;
+  }
+  const bindings: RoleBindings = {};
+  for (const [pubkey, role] of Object.entries(raw as Record<string, unknown>)) {
+    if (isActorRole(role)) {
+      bindings[pubkey] = role;
+    }
+  }
+  return Object.keys(bindings).length > 0 ? bindings : null;
+}
+
+/**
+ * Role from explicit sources only (signed actor_role, role binding). Null when absent or conflicting.
+ */
+export function explicitActorRole(round: TranscriptRound, bindings: RoleBindings | null): ActorRole | null {
+  const declared = signedActorRole(round);
+  const signerKey = signerKeyOf(round);
+  const bound = bindings && signerKey ? bindings[signerKey] ?? null : null;
+  if (declared && bound && declared !== bound) {
+    return null;
+  }
+  return declared ?? bound;
+}
+
+/**
+ * Legacy name-based inference (fixture compatibility).
+ */
+export function inferRoleFromAgentId(agentId: string | undefined): ActorRole | null {
+  const id = (agentId ?? "").toLowerCase();
+  if (id.includes("buyer")) {
+    return "BUYER";
+  }
+  if (id.includes("seller") || id.includes("provider")) {
+    return "PROVIDER";
+  }
+  return null;
+}
+
+/**
+ * Resolve a round's actor role: explicit sources first, then (unless strictRoles) agent_id inference.
+ */
+export function resolveActorRole(
+  round: TranscriptRound,
+  bindings: RoleBindings | null,
+  options: RoleResolutionOptions = {}
+): ActorRole | null {
+  const signerKey = signerKeyOf(round);
+  const hasExplicitSource =
+    round.envelope?.actor_role !== undefined || (bindings !== null && signerKey !== undefined && signerKey in bindings);
+  if (hasExplicitSource) {
+    return explicitActorRole(round, bindings);
+  }
+  return options.strictRoles ? null : inferRoleFromAgentId(round.agent_id);
+}
+
+/**
+ * First signer key whose round explicitly resolves to the given role, or null.
+ */
+export function findExplicitSigner(rounds: TranscriptRound[], role: ActorRole): string | null {
+  const bindings = getRoleBindings(rounds);
+  for (const round of rounds) {
+    if (explicitActorRole(round, bindings) === role) {
+      return signerKeyOf(round) ?? null;
+    }
+  }
+  return null;
+}
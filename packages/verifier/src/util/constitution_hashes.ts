@@ -1,35 +1,113 @@
 /**
- * Accepted Constitution Hashes
- * 
- * This module defines the list of accepted constitution hashes that are recognized
- * as standard. Any transcript or auditor pack using a non-standard constitution
- * hash will trigger warnings or failures depending on the verification context.
+ * Constitution Registry
+ *
+ * Maps every accepted constitution hash to its version and machine-readable rule metadata.
+ * Any transcript or auditor pack using a constitution hash not in the registry is non-standard
+ * and will trigger warnings or failures depending on the verification context.
+ *
+ * Adding a constitution version (e.g. constitution/1.1) means adding an entry here; older
+ * entries stay so packs sealed under them keep verifying under their own rules.
  */
 
 /**
- * Accepted constitution hashes for constitution/1.0
- * 
- * These are SHA-256 hashes of the canonicalized CONSTITUTION_v1.md content.
- * Only hashes in this list are considered standard and safe for production use.
+ * Condition under which a rule is reported in gc_view.constitution.rules_applied.
  */
-export const ACCEPTED_CONSTITUTION_HASHES: readonly string[] = [
-  // Constitution v1.0 (standard)
-  "a0ea6fe329251b8c92112fd7518976a031eb8db76433e8c99c77060fc76d7d9d",
-] as const;
+export type ConstitutionRuleTrigger =
+  | "ALWAYS"
+  | "HASH_CHAIN_CHECKED"
+  | "SIGNATURES_VERIFIED"
+  | "FINAL_HASH_CHECKED"
+  | "LVSH_COMPUTED"
+  | "TRUSTED_EVIDENCE"
+  | "CLAIMED_EVIDENCE"
+  | "JUDGMENT"
+  | "REQUIRED_NEXT_ACTOR"
+  | "PASSPORT_GATING";
+
+export interface ConstitutionRule {
+  /** Rule ID as written in the constitution ("Rule ID: DET-1"). */
+  id: string;
+  title: string;
+  /** Section number in the constitution document. */
+  section: string;
+  applies_when: ConstitutionRuleTrigger;
+}
+
+export interface ConstitutionEntry {
+  /** e.g. "constitution/1.0" */
+  version: string;
+  /** SHA-256 of the canonicalized constitution document (LF, trailing whitespace trimmed). */
+  hash: string;
+  rules: readonly ConstitutionRule[];
+}
+
+const CONSTITUTION_V1_0: ConstitutionEntry = {
+  version: "constitution/1.0",
+  hash: "a0ea6fe329251b8c92112fd7518976a031eb8db76433e8c99c77060fc76d7d9d",
+  rules: [
+    { id: "DET-1", title: "Determinism Rule", section: "3", applies_when: "ALWAYS" },
+    { id: "INT-1", title: "Hash Chain Integrity", section: "4.1", applies_when: "HASH_CHAIN_CHECKED" },
+    { id: "INT-2", title: "Signature Verification", section: "4.2", applies_when: "SIGNATURES_VERIFIED" },
+    { id: "INT-3", title: "Final / Container Hash Validation", section: "4.3", applies_when: "FINAL_HASH_CHECKED" },
+    { id: "EVD-1", title: "Trusted Evidence", section: "5.1", applies_when: "TRUSTED_EVIDENCE" },
+    { id: "EVD-2", title: "Claimed Evidence", section: "5.2", applies_when: "CLAIMED_EVIDENCE" },
+    { id: "LVSH-1", title: "Last Valid Signed Hash (LVSH)", section: "6", applies_when: "LVSH_COMPUTED" },
+    { id: "DBL-1", title: "Default Blame Logic (DBL)", section: "8", applies_when: "JUDGMENT" },
+    { id: "DBL-2", title: "Required Next Actor", section: "9", applies_when: "REQUIRED_NEXT_ACTOR" },
+    { id: "PAS-1", title: "Passport & Reputation Rule", section: "10", applies_when: "PASSPORT_GATING" },
+    { id: "GC-1", title: "GC View Interpretation Rule", section: "11", applies_when: "ALWAYS" },
+  ],
+};
+
+/**
+ * Accepted constitutions keyed by hash.
+ */
+export const CONSTITUTION_REGISTRY: Readonly<Record<string, ConstitutionEntry>> = {
+  [CONSTITUTION_V1_0.hash]: CONSTITUTION_V1_0,
+};
+
+/**
+ * Constitution the verifier ships (resources/CONSTITUTION_v1.md). Its rules are also applied when
+ * a non-standard constitution is explicitly allowed.
+ */
+export const DEFAULT_CONSTITUTION: ConstitutionEntry = CONSTITUTION_V1_0;
+
+/**
+ * Accepted constitution hashes (registry keys, in registration order).
+ */
+export const ACCEPTED_CONSTITUTION_HASHES: readonly string[] = Object.keys(CONSTITUTION_REGISTRY);
+
+/**
+ * Look up an accepted constitution by hash
+ *
+ * @param hash - The constitution hash
+ * @returns The registry entry, or null for a non-standard hash
+ */
+export function getConstitutionEntry(hash: string): ConstitutionEntry | null {
+  return Object.prototype.hasOwnProperty.call(CONSTITUTION_REGISTRY, hash) ? CONSTITUTION_REGISTRY[hash] : null;
+}
+
+/**
+ * Version applied for a constitution hash: the registry version, or the default version for non-standard hashes
+ * (which are only evaluated when explicitly allowed).
+ */
+export function constitutionVersionForHash(hash: string): string {
+  return (getConstitutionEntry(hash) ?? DEFAULT_CONSTITUTION).version;
+}
 
 /**
  * Check if a constitution hash is accepted (standard)
- * 
+ *
  * @param hash - The constitution hash to check
- * @returns true if the hash is in the accepted list, false otherwise
+ * @returns true if the hash is in the registry, false otherwise
  */
 export function isAcceptedConstitutionHash(hash: string): boolean {
-  return ACCEPTED_CONSTITUTION_HASHES.includes(hash);
+  return getConstitutionEntry(hash) !== null;
 }
 
 /**
  * Get the list of accepted constitution hashes
- * 
+ *
  * @returns Array of accepted hashes
  */
 export function getAcceptedConstitutionHashes(): readonly string[] {
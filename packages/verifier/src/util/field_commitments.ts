@@ -0,0 +1,103 @@
+/**
+ * Field commitments (hash_scheme "field-commitments/1").
+ *
+ * Same construction as the SDK's computeFieldCommitment (packages/sdk/src/transcript/v4/redaction.ts):
+ * objects and arrays commit to their children's commitments, scalars to their canonical hash, and a
+ * redacted marker { redacted: true, hash, view } to its hash. Round and final hashes computed this way
+ * stay verifiable after any field is replaced by its commitment. A field whose JSON pointer has an entry in
+ * transcript.field_salts commits to sha256(canonical({ commitment, salt })).
+ * Pure: hashing goes through the caller's sha256Async.
+ */
+
+import { stableCanonicalize } from "./canonical_pure.js";
+
+export const FIELD_COMMITMENTS_SCHEME = "field-commitments/1";
+
+export type RedactedFieldMarker = {
+  redacted: true;
+  hash: string;
+  view: "INTERNAL" | "PARTNER" | "AUDITOR";
+  /** Hash is a salted commitment; only a disclosure (value + salt) can open it. */
+  salted?: true;
+};
+
+/** Per-field salts keyed by JSON pointer; salts of redacted fields are themselves redacted in views. */
+export type FieldSalts = Record<string, string | RedactedFieldMarker>;
+
+function escapePointerToken(token: string): string {
+  return token.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+export function isRedactedField(value: unknown): value is RedactedFieldMarker {
+  if (typeof value !== "object" || value === null) return false;
+  const v = value as Record<string, unknown>;
+  return v.redacted === true && typeof v.hash === "string" && typeof v.view === "string";
+}
+
+/**
+ * Field commitment of value located at path (JSON pointer; only matters when salts are given).
+ */
+export async function computeFieldCommitment(
+  value: unknown,
+  sha256Async: (data: string) => Promise<string>,
+  salts?: FieldSalts,
+  path = ""
+): Promise<string> {
+  if (isRedactedField(value)) {
+    return value.hash;
+  }
+  let commitment: string;
+  if (Array.isArray(value)) {
+    const items: string[] = [];
+    for (let i = 0; i < value.length; i++) {
+      items.push(await computeFieldCommitment(value[i], sha256Async, salts, `${path}/${i}`));
+    }
+    commitment = await sha256Async(stableCanonicalize(items));
+  } else if (typeof value === "object" && value !== null) {
+    const committed: Record<string, string> = {};
+    for (const [key, child] of Object.entries(value)) {
+      if (child !== undefined) {
+        committed[key] = await computeFieldCommitment(child, sha256Async, salts, `${path}/${escapePointerToken(key)}`);
+      }
+    }
+    commitment = await sha256Async(stableCanonicalize(committed));
+  } else {
+    commitment = await sha256Async(stableCanonicalize(value));
+  }
+  const salt = salts?.[path];
+  return typeof salt === "string" ? sha256Async(stableCanonicalize({ commitment, salt })) : commitment;
+}
+
+/**
+ * Value at a JSON pointer, or undefined when the path does not exist.
+ */
+export function getAtPointer(root: unknown, pointer: string): unknown {
+  if (pointer === "") return root;
+  let node: unknown = root;
+  for (const raw of pointer.slice(1).split("/")) {
+    const token = raw.replace(/~1/g, "/").replace(/~0/g, "~");
+    if (typeof node !== "object" || node === null || !(token in node)) {
+      return undefined;
+    }
+    node = (node as Record<string, unknown>)[token];
+  }
+  return node;
+}
+
+/**
+ * JSON pointers (RFC 6901, e.g. "/rounds/0/content_summary") of every redacted marker in value (object keys sorted).
+ */
+export function findRedactedFields(value: unknown, path = ""): Array<{ path: string; field: RedactedFieldMarker }> {
+  if (isRedactedField(value)) {
+    return [{ path, field: value }];
+  }
+  const found: Array<{ path: string; field: RedactedFieldMarker }> = [];
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => found.push(...findRedactedFields(item, `${path}/${i}`)));
+  } else if (typeof value === "object" && value !== null) {
+    for (const key of Object.keys(value).sort()) {
+      found.push(...findRedactedFields((value as Record<string, unknown>)[key], `${path}/${escapePointerToken(key)}`));
+    }
+  }
+  return found;
+}
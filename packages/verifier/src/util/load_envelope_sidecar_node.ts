@@ -0,0 +1,28 @@
+/**
+ * Load envelope sidecar from file path (Node only).
+ * Sidecar convention: <transcript>.json -> <transcript>.envelopes.json in the same directory.
+ * Do not import this from browser code.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import type { EnvelopeSidecar } from "./transcript_types.js";
+
+export function envelopeSidecarPathFor(transcriptPath: string): string {
+  return transcriptPath.endsWith(".json")
+    ? `${transcriptPath.slice(0, -".json".length)}.envelopes.json`
+    : `${transcriptPath}.envelopes.json`;
+}
+
+export function loadEnvelopeSidecar(path: string): EnvelopeSidecar {
+  const parsed = JSON.parse(readFileSync(path, "utf-8")) as EnvelopeSidecar;
+  if (parsed.version !== "pact-envelopes/1" || !Array.isArray(parsed.rounds)) {
+    throw new Error(`Invalid envelope sidecar (expected version pact-envelopes/1): ${path}`);
+  }
+  return parsed;
+}
+
+/** Returns the sidecar next to a transcript if one exists, otherwise undefined. */
+export function findEnvelopeSidecar(transcriptPath: string): EnvelopeSidecar | undefined {
+  const sidecarPath = envelopeSidecarPathFor(transcriptPath);
+  return existsSync(sidecarPath) ? loadEnvelopeSidecar(sidecarPath) : undefined;
+}
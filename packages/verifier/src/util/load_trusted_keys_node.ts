@@ -0,0 +1,26 @@
+/**
+ * Load trusted public key lists from CLI flags and/or a JSON file (Node only).
+ * Used for --trusted-packer(s) and --trusted-arbiter(s).
+ * Do not import this from browser code.
+ */
+
+import { readFileSync } from "node:fs";
+import { resolve, isAbsolute } from "node:path";
+
+/**
+ * Keys from repeated flags plus an optional JSON array file (base58 public keys).
+ * Returns undefined when neither is given (no trust check).
+ */
+export function loadTrustedKeys(keys: string[] | undefined, file: string | undefined, label: string): string[] | undefined {
+  if (!keys && !file) return undefined;
+  const out = [...(keys ?? [])];
+  if (file) {
+    const path = isAbsolute(file) ? file : resolve(process.cwd(), file);
+    const parsed = JSON.parse(readFileSync(path, "utf8"));
+    if (!Array.isArray(parsed) || !parsed.every((k) => typeof k === "string")) {
+      throw new Error(`Trusted ${label} file must be a JSON array of base58 public keys: ${file}`);
+    }
+    out.push(...parsed);
+  }
+  return out;
+}
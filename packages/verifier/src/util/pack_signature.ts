@@ -0,0 +1,121 @@
+/**
+ * Auditor pack seal: detached Ed25519 signature over the pack manifest (no Node deps).
+ *
+ * manifest.sig.json binds:
+ * - manifest_hash:  sha256(stableCanonicalize(manifest.json))
+ * - checksums_hash: sha256(checksums.sha256 bytes as stored in the pack)
+ *
+ * The signature covers stableCanonicalize(seal without signature_b58), UTF-8 encoded
+ * (same scheme as registry attestations). manifest.sig.json is not listed in
+ * checksums.sha256; it is verified separately.
+ */
+
+import nacl from "tweetnacl";
+import bs58 from "bs58";
+import { stableCanonicalize } from "./canonical_pure.js";
+import { keyPairFromB58 } from "./signing_key.js";
+
+export const PACK_SIGNATURE_PATH = "manifest.sig.json";
+export const PACK_SIGNATURE_VERSION = "pact-pack-signature/1";
+
+export type PackSignature = {
+  version: typeof PACK_SIGNATURE_VERSION;
+  scheme: "ed25519";
+  signer_public_key_b58: string;
+  manifest_hash: string;
+  checksums_hash: string;
+  signature_b58: string;
+};
+
+export type PackSealStatus = {
+  /** manifest.sig.json present in the pack. */
+  signed: boolean;
+  signer_public_key_b58?: string;
+  /** Signature valid and manifest/checksums hashes match the pack contents. */
+  signature_ok?: boolean;
+  /** Signer is in the trusted packer key list (only set when a list was supplied). */
+  trusted?: boolean;
+};
+
+/**
+ * Sign a pack manifest. checksumsContent must be the exact checksums.sha256 text written to the pack.
+ */
+export async function signPackManifest(
+  manifest: unknown,
+  checksumsContent: string,
+  keyB58: string,
+  sha256Async: (data: string) => Promise<string>
+): Promise<PackSignature> {
+  const keypair = keyPairFromB58(keyB58);
+  const payload: Omit<PackSignature, "signature_b58"> = {
+    version: PACK_SIGNATURE_VERSION,
+    scheme: "ed25519",
+    signer_public_key_b58: bs58.encode(keypair.publicKey),
+    manifest_hash: await sha256Async(stableCanonicalize(manifest)),
+    checksums_hash: await sha256Async(checksumsContent),
+  };
+  const msg = new TextEncoder().encode(stableCanonicalize(payload));
+  const sig = nacl.sign.detached(msg, keypair.secretKey);
+  return { ...payload, signature_b58: bs58.encode(sig) };
+}
+
+/**
+ * Verify a pack seal against the pack's manifest and checksums content.
+ * Returns the seal status plus one message per failed check.
+ */
+export async function verifyPackSignature(
+  seal: PackSignature,
+  manifest: unknown,
+  checksumsContent: string,
+  sha256Async: (data: string) => Promise<string>,
+  trustedPackerKeys?: string[]
+): Promise<{ status: PackSealStatus; errors: string[] }> {
+  const errors: string[] = [];
+  const status: PackSealStatus = { signed: true, signer_public_key_b58: seal?.signer_public_key_b58 };
+
+  if (
+    !seal ||
+    seal.version !== PACK_SIGNATURE_VERSION ||
+    seal.scheme !== "ed25519" ||
+    typeof seal.signer_public_key_b58 !== "string" ||
+    typeof seal.signature_b58 !== "string"
+  ) {
+    errors.push(`Invalid ${PACK_SIGNATURE_PATH}: expected ${PACK_SIGNATURE_VERSION} with ed25519 scheme`);
+    status.signature_ok = false;
+  } else {
+    const { signature_b58, ...payload } = seal;
+    let sigValid = false;
+    try {
+      const msg = new TextEncoder().encode(stableCanonicalize(payload));
+      sigValid = nacl.sign.detached.verify(msg, bs58.decode(signature_b58), bs58.decode(seal.signer_public_key_b58));
+    } catch {
+      sigValid = false;
+    }
+    if (!sigValid) {
+      errors.push(`Pack signature invalid for signer ${seal.signer_public_key_b58}`);
+    }
+
+    const manifestHash = await sha256Async(stableCanonicalize(manifest));
+    if (manifestHash !== seal.manifest_hash) {
+      errors.push(
+        `Pack signature manifest_hash mismatch: signed ${String(seal.manifest_hash).substring(0, 16)}..., manifest.json has ${manifestHash.substring(0, 16)}...`
+      );
+    }
+    const checksumsHash = await sha256Async(checksumsContent);
+    if (checksumsHash !== seal.checksums_hash) {
+      errors.push(
+        `Pack signature checksums_hash mismatch: signed ${String(seal.checksums_hash).substring(0, 16)}..., checksums.sha256 has ${checksumsHash.substring(0, 16)}...`
+      );
+    }
+    status.signature_ok = errors.length === 0;
+  }
+
+  if (trustedPackerKeys) {
+    status.trusted = status.signer_public_key_b58 !== undefined && trustedPackerKeys.includes(status.signer_public_key_b58);
+    if (!status.trusted) {
+      errors.push(`Pack signer ${status.signer_public_key_b58 ?? "(unknown)"} is not a trusted packer`);
+    }
+  }
+
+  return { status, errors };
+}
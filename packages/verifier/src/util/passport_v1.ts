@@ -7,6 +7,7 @@
 
 import type { TranscriptV4, TranscriptRound } from "./transcript_types.js";
 import { stableCanonicalize, hashMessageSync } from "./canonical.js";
+import { findExplicitSigner } from "./actor_roles.js";
 
 // ============================================================================
 // Types
@@ -129,17 +130,21 @@ export function getTranscriptSigners(transcript: TranscriptV4): string[] {
 
 /**
  * Extract transcript summary from a TranscriptV4.
+ * Buyer/seller identities come from explicit roles (actor_role / INTENT role_bindings) when present,
+ * otherwise from protocol position (INTENT signer = buyer, first other negotiating signer = seller).
  */
 export function extractTranscriptSummary(transcript: TranscriptV4): TranscriptSummary {
   const intentRound = transcript.rounds.find((r) => r.round_type === "INTENT");
-  const buyerKey = intentRound ? getRoundSignerKey(intentRound) : null;
+  const buyerKey =
+    findExplicitSigner(transcript.rounds, "BUYER") ?? (intentRound ? getRoundSignerKey(intentRound) : null);
   
   const sellerRound = transcript.rounds.find((r) => {
     const roundKey = getRoundSignerKey(r);
     return roundKey && roundKey !== buyerKey && 
            (r.round_type === "ASK" || r.round_type === "COUNTER" || r.round_type === "ACCEPT");
   });
-  const sellerKey = sellerRound ? getRoundSignerKey(sellerRound) : null;
+  const sellerKey =
+    findExplicitSigner(transcript.rounds, "PROVIDER") ?? (sellerRound ? getRoundSignerKey(sellerRound) : null);
   
   let outcome: "success" | "abort" | "timeout" | "dispute" | "failure";
   let failureCode: string | undefined;
@@ -329,10 +334,11 @@ export function getTranscriptStableId(transcript: TranscriptV4): string {
 
 /**
  * Recompute passport state from transcripts.
+ * With opts.judgments, each transcript's delta uses its DBL judgment (missing entries count as no judgment).
  */
 export function recomputeFromTranscripts(
   transcripts: TranscriptV4[],
-  opts?: { forSigner?: string }
+  opts?: { forSigner?: string; judgments?: Map<TranscriptV4, JudgmentArtifact | null> }
 ): PassportState {
   if (transcripts.length === 0) {
     throw new Error("Cannot recompute passport from empty transcript list");
@@ -418,7 +424,7 @@ export function recomputeFromTranscripts(
     const summary = extractTranscriptSummary(transcript);
     const delta = computePassportDelta({
       transcript_summary: summary,
-      dbl_judgment: null,
+      dbl_judgment: opts?.judgments?.get(transcript) ?? null,
       agent_id: targetSigner,
     });
     state = applyDelta(state, delta);
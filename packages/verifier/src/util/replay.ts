@@ -10,10 +10,13 @@
 import bs58 from "bs58";
 import nacl from "tweetnacl";
 import { stableCanonicalize } from "./canonical_pure.js";
-import type { TranscriptV4, Signature, ReplayResult } from "./transcript_types.js";
+import { validateSettlementRounds } from "./settlement_rounds.js";
+import { FIELD_COMMITMENTS_SCHEME, computeFieldCommitment, findRedactedFields, type FieldSalts } from "./field_commitments.js";
+import type { TranscriptV4, TranscriptRound, Signature, ReplayResult, EnvelopeSidecar } from "./transcript_types.js";
+import { resolveArbiterDecision } from "../arbiter/decision.js";
 
 // Re-export types for consumers
-export type { TranscriptV4, TranscriptRound, Signature, FailureEvent, ReplayResult } from "./transcript_types.js";
+export type { TranscriptV4, TranscriptRound, Signature, FailureEvent, ReplayResult, ReplayRoundStatus, EnvelopeSidecar } from "./transcript_types.js";
 
 export type Sha256Async = (data: string) => Promise<string>;
 
@@ -83,18 +86,128 @@ function verifySignature(
   }
 }
 
+/**
+ * Replay mode.
+ * - "lvsh" (default): stop at the first failing check; rounds_verified is the last valid
+ *   signed hash-linked prefix that DBL relies on.
+ * - "exhaustive": keep checking every round and report every error plus per-round status.
+ *   rounds_verified keeps LVSH prefix semantics so DBL results are identical in both modes.
+ */
+export type ReplayMode = "lvsh" | "exhaustive";
+
+export type ReplayOptions = {
+  sha256Async?: Sha256Async;
+  mode?: ReplayMode;
+  /**
+   * Recompute envelope_hash / message_hash from signed bodies (inline round.envelope / round.message,
+   * else envelopeSidecar). Rounds with no body available are skipped. Implied when envelopeSidecar is set.
+   */
+  verifyEnvelopes?: boolean;
+  envelopeSidecar?: EnvelopeSidecar;
+  /**
+   * Candidate pact-arbiter-decision/4.0 documents. A final_hash sealed before arbiter_decision_ref was set
+   * is only accepted when the ref resolves to one of them that verifies against trustedArbiterKeys.
+   */
+  arbiterDecisions?: unknown[];
+  /** Trusted arbiter public keys (base58). */
+  trustedArbiterKeys?: string[];
+};
+
+type ArbiterReplayOptions = Pick<ReplayOptions, "arbiterDecisions" | "trustedArbiterKeys">;
+
+type RoundBodies = { envelope?: Record<string, unknown>; message?: Record<string, unknown> };
+
+/**
+ * Collect envelope/message bodies per round (inline bodies win over sidecar).
+ * A sidecar for a different transcript_id is ignored with a warning.
+ */
+function collectRoundBodies(
+  transcript: TranscriptV4,
+  sidecar: EnvelopeSidecar | undefined,
+  result: ReplayResult
+): Map<number, RoundBodies> {
+  const bodies = new Map<number, RoundBodies>();
+  if (sidecar) {
+    if (sidecar.transcript_id !== transcript.transcript_id) {
+      result.warnings.push(
+        `Envelope sidecar transcript_id (${sidecar.transcript_id}) does not match transcript (${transcript.transcript_id}); sidecar ignored.`
+      );
+    } else {
+      for (const entry of sidecar.rounds ?? []) {
+        bodies.set(entry.round_number, { envelope: entry.envelope, message: entry.message });
+      }
+    }
+  }
+  for (const round of transcript.rounds) {
+    const fromSidecar = bodies.get(round.round_number) ?? {};
+    bodies.set(round.round_number, {
+      envelope: round.envelope ?? fromSidecar.envelope,
+      message: round.message ?? fromSidecar.message,
+    });
+  }
+  return bodies;
+}
+
+/**
+ * Re-hash available bodies for a round. Returns null when no body was available,
+ * otherwise the list of mismatch messages (empty when all present bodies match).
+ */
+async function checkRoundBodies(
+  round: TranscriptRound,
+  bodies: RoundBodies | undefined,
+  sha256Async: Sha256Async
+): Promise<string[] | null> {
+  if (!bodies || (bodies.envelope === undefined && bodies.message === undefined)) {
+    return null;
+  }
+  const mismatches: string[] = [];
+  if (bodies.envelope !== undefined) {
+    const computed = await sha256Async(stableCanonicalize(bodies.envelope));
+    if (computed !== round.envelope_hash) {
+      mismatches.push(`envelope_hash mismatch at round ${round.round_number}: body hashes to ${computed}, recorded ${round.envelope_hash}`);
+    }
+  }
+  if (bodies.message !== undefined) {
+    const computed = await sha256Async(stableCanonicalize(bodies.message));
+    if (computed !== round.message_hash) {
+      mismatches.push(`message_hash mismatch at round ${round.round_number}: body hashes to ${computed}, recorded ${round.message_hash}`);
+    }
+  }
+  return mismatches;
+}
+
+/**
+ * A round's actor_role is only trusted as declared in its inline signed envelope body (round.envelope.actor_role).
+ * Re-hashes that body against envelope_hash (unless envelope verification already did) and checks that
+ * round.actor_role, when set, is the same role. Returns mismatch messages (empty when no role is signed).
+ */
+async function checkSignedActorRole(round: TranscriptRound, rehash: boolean, sha256Async: Sha256Async): Promise<string[]> {
+  const signedRole = round.envelope?.actor_role;
+  if (signedRole === undefined) {
+    return [];
+  }
+  const mismatches = rehash ? (await checkRoundBodies(round, { envelope: round.envelope }, sha256Async)) ?? [] : [];
+  if (round.actor_role !== undefined && round.actor_role !== signedRole) {
+    mismatches.push(
+      `actor_role mismatch at round ${round.round_number}: round declares ${round.actor_role}, signed envelope declares ${String(signedRole)}`
+    );
+  }
+  return mismatches;
+}
+
 /**
  * Replay and verify a v4 transcript.
  * When options.sha256Async is provided (e.g. browser WebCrypto), hashing is async and Node crypto is not used.
  *
  * @param transcript - Transcript to verify
- * @param options - Optional sha256Async for browser/runtime-agnostic hashing
+ * @param options - Optional sha256Async for browser/runtime-agnostic hashing; optional mode (default "lvsh")
  * @returns ReplayResult with verification details
  */
 export async function replayTranscriptV4(
   transcript: TranscriptV4,
-  options?: { sha256Async?: Sha256Async }
+  options?: ReplayOptions
 ): Promise<ReplayResult> {
+  const exhaustive = options?.mode === "exhaustive";
   const result: ReplayResult = {
     ok: true,
     integrity_status: "VALID",
@@ -134,7 +247,7 @@ export async function replayTranscriptV4(
         round_number: i,
         message: `Round sequence invalid: expected round_number ${i}, got ${transcript.rounds[i].round_number}`,
       });
-      return result;
+      if (!exhaustive) return result;
     }
   }
 
@@ -147,33 +260,85 @@ export async function replayTranscriptV4(
         round_number: i,
         message: `Timestamp non-monotonic: round ${i} timestamp (${transcript.rounds[i].timestamp_ms}) < round ${i - 1} timestamp (${transcript.rounds[i - 1].timestamp_ms})`,
       });
-      return result;
+      if (!exhaustive) return result;
     }
   }
 
-  const sha256Async = options?.sha256Async;
-  if (sha256Async) {
-    return replayHashChainAsync(transcript, result, sha256Async);
+  for (const issue of validateSettlementRounds(transcript.rounds)) {
+    result.ok = false;
+    result.integrity_status = "INVALID";
+    result.errors.push({
+      type: "INVALID_STRUCTURE",
+      round_number: issue.round_number,
+      message: issue.message,
+    });
+    if (!exhaustive) return result;
+  }
+
+  let sha256Async = options?.sha256Async;
+  if (!sha256Async) {
+    // Sync path: load node:crypto only here so browser never pulls it in (viewer uses sha256Async path).
+    const nodeCrypto = await import("node:crypto");
+    sha256Async = async (data: string): Promise<string> => {
+      const hash = nodeCrypto.createHash("sha256");
+      hash.update(data, "utf8");
+      return hash.digest("hex");
+    };
   }
 
-  // Sync path: load node:crypto only here so browser never pulls it in (viewer uses sha256Async path).
-  const nodeCrypto = await import("node:crypto");
-  const sha256Sync = (data: string): string => {
-    const hash = nodeCrypto.createHash("sha256");
-    hash.update(data, "utf8");
-    return hash.digest("hex");
-  };
+  const verifyEnvelopes = options?.verifyEnvelopes === true || options?.envelopeSidecar !== undefined;
+  const roundBodies = verifyEnvelopes
+    ? collectRoundBodies(transcript, options?.envelopeSidecar, result)
+    : undefined;
 
+  return replayHashChain(transcript, result, sha256Async, exhaustive, roundBodies, {
+    arbiterDecisions: options?.arbiterDecisions,
+    trustedArbiterKeys: options?.trustedArbiterKeys,
+  });
+}
+
+/** Hash chain, signature and container checks (shared by Node and browser hashing). */
+async function replayHashChain(
+  transcript: TranscriptV4,
+  result: ReplayResult,
+  sha256Async: Sha256Async,
+  exhaustive: boolean,
+  roundBodies?: Map<number, RoundBodies>,
+  arbiterOptions: ArbiterReplayOptions = {}
+): Promise<ReplayResult> {
+  // Sequence/timestamp/structure errors found before the chain walk end the LVSH prefix at that round.
+  const prefixLimit = result.errors.reduce(
+    (min, e) => (e.round_number !== undefined && e.round_number < min ? e.round_number : min),
+    transcript.rounds.length
+  );
+  let prefixIntact = true;
   let previousHash: string | undefined = undefined;
+  if (exhaustive) {
+    result.round_statuses = [];
+  }
+  if (roundBodies) {
+    result.envelope_verifications = 0;
+  }
+  // Under field-commitments/1, round and final hashes are commitments and verify through redacted fields.
+  const commitments = transcript.hash_scheme === FIELD_COMMITMENTS_SCHEME;
+  const salts = commitments ? (transcript.field_salts as FieldSalts | undefined) : undefined;
+  const hashValue = (value: unknown, path = ""): Promise<string> =>
+    commitments ? computeFieldCommitment(value, sha256Async, salts, path) : sha256Async(stableCanonicalize(value));
+  if (!commitments && findRedactedFields(transcript).length > 0) {
+    result.warnings.push(
+      `Transcript contains redacted fields but hash_scheme is not ${FIELD_COMMITMENTS_SCHEME}; hashes cannot be verified through redaction.`
+    );
+  }
 
   for (let i = 0; i < transcript.rounds.length; i++) {
     const round = transcript.rounds[i];
     const expectedPreviousHash =
       i === 0
-        ? sha256Sync(`${transcript.intent_id}:${transcript.created_at_ms}`)
-        : previousHash;
+        ? await sha256Async(`${transcript.intent_id}:${transcript.created_at_ms}`)
+        : previousHash!;
 
-    if (round.previous_round_hash !== expectedPreviousHash) {
+    const chainLinkOk = round.previous_round_hash === expectedPreviousHash;
+    if (!chainLinkOk) {
       result.ok = false;
       result.integrity_status = "TAMPERED";
       result.errors.push({
@@ -181,13 +346,15 @@ export async function replayTranscriptV4(
         round_number: i,
         message: `Hash chain broken at round ${i}: expected previous_round_hash ${expectedPreviousHash}, got ${round.previous_round_hash}`,
       });
-      return result;
+      if (!exhaustive) return result;
     }
 
     const { round_hash: _r, ...roundWithoutHash } = round;
-    const computedRoundHash = sha256Sync(stableCanonicalize(roundWithoutHash));
+    const computedRoundHash = await hashValue(roundWithoutHash, `/rounds/${i}`);
+    let roundHashOk: boolean | null = null;
     if (round.round_hash) {
-      if (round.round_hash !== computedRoundHash) {
+      roundHashOk = round.round_hash === computedRoundHash;
+      if (!roundHashOk) {
         result.ok = false;
         result.integrity_status = "TAMPERED";
         result.errors.push({
@@ -195,13 +362,14 @@ export async function replayTranscriptV4(
           round_number: i,
           message: `Round hash mismatch at round ${i}: expected ${computedRoundHash}, got ${round.round_hash}`,
         });
-        return result;
+        if (!exhaustive) return result;
+      } else {
+        result.hash_chain_verifications++;
       }
-      result.hash_chain_verifications++;
     }
 
-    const signatureValid = verifySignature(round.envelope_hash, round.signature, round.public_key_b58);
-    if (!signatureValid) {
+    const signatureOk = verifySignature(round.envelope_hash, round.signature, round.public_key_b58);
+    if (!signatureOk) {
       result.ok = false;
       result.integrity_status = "TAMPERED";
       result.errors.push({
@@ -209,117 +377,105 @@ export async function replayTranscriptV4(
         round_number: i,
         message: `Signature verification failed for round ${i} (${round.round_type})`,
       });
-      return result;
-    }
-    result.signature_verifications++;
-
-    previousHash = round.round_hash || computedRoundHash;
-    result.rounds_verified++;
-  }
-
-  if (transcript.final_hash) {
-    const { final_hash: _f, ...transcriptWithoutHash } = transcript;
-    const computedFinalHash = sha256Sync(stableCanonicalize(transcriptWithoutHash));
-    if (transcript.final_hash !== computedFinalHash) {
-      result.ok = false;
-      result.integrity_status = "TAMPERED";
-      result.errors.push({
-        type: "FINAL_HASH_MISMATCH",
-        message: `Final hash mismatch: expected ${computedFinalHash}, got ${transcript.final_hash}`,
-      });
-      return result;
+      if (!exhaustive) return result;
+    } else {
+      result.signature_verifications++;
     }
-  }
 
-  if (transcript.failure_event) {
-    const { failure_event, final_hash, ...transcriptUpToFailure } = transcript;
-    const computedFailureHash = sha256Sync(stableCanonicalize(transcriptUpToFailure));
-    if (transcript.failure_event.transcript_hash !== computedFailureHash) {
-      result.warnings.push(
-        `Claimed failure-event transcript_hash did not match computed transcript hash (claimed: ${transcript.failure_event.transcript_hash}, computed: ${computedFailureHash}).`
-      );
+    // A valid signature only covers envelope_hash; re-hash the signed bodies when available.
+    let envelopeHashOk: boolean | null = null;
+    if (roundBodies) {
+      const mismatches = await checkRoundBodies(round, roundBodies.get(round.round_number), sha256Async);
+      if (mismatches !== null) {
+        envelopeHashOk = mismatches.length === 0;
+        if (!envelopeHashOk) {
+          result.ok = false;
+          result.integrity_status = "TAMPERED";
+          for (const message of mismatches) {
+            result.errors.push({ type: "ENVELOPE_HASH_MISMATCH", round_number: i, message });
+          }
+          if (!exhaustive) return result;
+        } else {
+          result.envelope_verifications!++;
+        }
+      }
     }
-  }
 
-  return result;
-}
-
-/** Async hash chain path (uses sha256Async; no Node crypto). */
-async function replayHashChainAsync(
-  transcript: TranscriptV4,
-  result: ReplayResult,
-  sha256Async: Sha256Async
-): Promise<ReplayResult> {
-  let previousHash: string | undefined = undefined;
-
-  for (let i = 0; i < transcript.rounds.length; i++) {
-    const round = transcript.rounds[i];
-    const expectedPreviousHash =
-      i === 0
-        ? await sha256Async(`${transcript.intent_id}:${transcript.created_at_ms}`)
-        : previousHash!;
-
-    if (round.previous_round_hash !== expectedPreviousHash) {
+    // Signed roles are checked on every replay: name-free role resolution depends on them.
+    const roleMismatches = await checkSignedActorRole(round, envelopeHashOk === null, sha256Async);
+    if (roleMismatches.length > 0) {
+      envelopeHashOk = false;
       result.ok = false;
       result.integrity_status = "TAMPERED";
-      result.errors.push({
-        type: "HASH_CHAIN_BROKEN",
-        round_number: i,
-        message: `Hash chain broken at round ${i}: expected previous_round_hash ${expectedPreviousHash}, got ${round.previous_round_hash}`,
-      });
-      return result;
-    }
-
-    const { round_hash: _r, ...roundWithoutHash } = round;
-    const computedRoundHash = await sha256Async(stableCanonicalize(roundWithoutHash));
-    if (round.round_hash) {
-      if (round.round_hash !== computedRoundHash) {
-        result.ok = false;
-        result.integrity_status = "TAMPERED";
-        result.errors.push({
-          type: "HASH_CHAIN_BROKEN",
-          round_number: i,
-          message: `Round hash mismatch at round ${i}: expected ${computedRoundHash}, got ${round.round_hash}`,
-        });
-        return result;
+      for (const message of roleMismatches) {
+        result.errors.push({ type: "ENVELOPE_HASH_MISMATCH", round_number: i, message });
       }
-      result.hash_chain_verifications++;
+      if (!exhaustive) return result;
+    } else if (round.actor_role !== undefined && round.envelope?.actor_role === undefined) {
+      result.warnings.push(`actor_role at round ${i} is not declared in a signed envelope and is ignored`);
     }
 
-    const signatureValid = verifySignature(round.envelope_hash, round.signature, round.public_key_b58);
-    if (!signatureValid) {
-      result.ok = false;
-      result.integrity_status = "TAMPERED";
-      result.errors.push({
-        type: "SIGNATURE_INVALID",
+    if (result.round_statuses) {
+      result.round_statuses.push({
         round_number: i,
-        message: `Signature verification failed for round ${i} (${round.round_type})`,
+        round_type: round.round_type,
+        signature_ok: signatureOk,
+        round_hash_ok: roundHashOk,
+        chain_link_ok: chainLinkOk,
+        ...(roundBodies ? { envelope_hash_ok: envelopeHashOk } : {}),
       });
-      return result;
     }
-    result.signature_verifications++;
 
+    // Chain continues from the recorded hash so a single altered round is localized, not cascaded.
     previousHash = round.round_hash || computedRoundHash;
-    result.rounds_verified++;
+    prefixIntact =
+      prefixIntact && i < prefixLimit && chainLinkOk && roundHashOk !== false && signatureOk && envelopeHashOk !== false;
+    if (prefixIntact) {
+      result.rounds_verified++;
+    }
   }
 
   if (transcript.final_hash) {
     const { final_hash: _f, ...rest } = transcript;
-    const computedFinalHash = await sha256Async(stableCanonicalize(rest));
-    if (transcript.final_hash !== computedFinalHash) {
+    const computedFinalHash = await hashValue(rest);
+    // arbiter_decision_ref is attached after the terminal failure_event (ARBITRATION.md §4.2);
+    // final_hash was sealed while it was still null or absent. Only a decision signed by a trusted
+    // arbiter may change the container after sealing.
+    let arbiterRefAppended = false;
+    if (transcript.final_hash !== computedFinalHash && rest.arbiter_decision_ref) {
+      const { arbiter_decision_ref: _ref, ...withoutRef } = rest;
+      const sealedBeforeRef =
+        transcript.final_hash === (await hashValue({ ...withoutRef, arbiter_decision_ref: null })) ||
+        transcript.final_hash === (await hashValue(withoutRef));
+      if (sealedBeforeRef) {
+        const arbiterDecision = await resolveArbiterDecision(transcript, arbiterOptions.arbiterDecisions ?? [], {
+          sha256Async,
+          trustedArbiterKeys: arbiterOptions.trustedArbiterKeys,
+        });
+        arbiterRefAppended = arbiterDecision?.verified === true;
+        if (arbiterRefAppended) {
+          result.warnings.push("final_hash verified with arbiter_decision_ref appended after sealing.");
+        } else {
+          result.warnings.push(
+            "arbiter_decision_ref was appended after sealing but does not resolve to a decision from a trusted arbiter."
+          );
+        }
+      }
+    }
+    if (transcript.final_hash !== computedFinalHash && !arbiterRefAppended) {
       result.ok = false;
       result.integrity_status = "TAMPERED";
       result.errors.push({
         type: "FINAL_HASH_MISMATCH",
         message: `Final hash mismatch: expected ${computedFinalHash}, got ${transcript.final_hash}`,
       });
-      return result;
+      if (!exhaustive) return result;
     }
   }
 
   if (transcript.failure_event) {
     const { failure_event, final_hash, ...transcriptUpToFailure } = transcript;
-    const computedFailureHash = await sha256Async(stableCanonicalize(transcriptUpToFailure));
+    const computedFailureHash = await hashValue(transcriptUpToFailure);
     if (transcript.failure_event.transcript_hash !== computedFailureHash) {
       result.warnings.push(
         `Claimed failure-event transcript_hash did not match computed transcript hash (claimed: ${transcript.failure_event.transcript_hash}, computed: ${computedFailureHash}).`
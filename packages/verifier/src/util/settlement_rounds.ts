@@ -0,0 +1,73 @@
+/**
+ * Settlement round structure (no Node deps).
+ *
+ * Post-ACCEPT settlement rounds:
+ * - SETTLEMENT_ATTEMPT: a party submitted settlement to a rail (signed proof-of-attempt)
+ * - SETTLEMENT_CONFIRMED: the rail settled the attempt
+ * - REFUND: the attempt was reversed back to the payer
+ *
+ * Each carries a settlement rail reference ({ rail, rail_ref }). CONFIRMED and REFUND
+ * must reuse the rail/rail_ref of an earlier SETTLEMENT_ATTEMPT.
+ */
+
+import type { TranscriptRound } from "./transcript_types.js";
+
+export const SETTLEMENT_ROUND_TYPES = ["SETTLEMENT_ATTEMPT", "SETTLEMENT_CONFIRMED", "REFUND"] as const;
+
+export type SettlementRoundType = (typeof SETTLEMENT_ROUND_TYPES)[number];
+
+export function isSettlementRoundType(roundType: string): roundType is SettlementRoundType {
+  return (SETTLEMENT_ROUND_TYPES as readonly string[]).includes(roundType);
+}
+
+function railKey(round: TranscriptRound): string {
+  return `${round.settlement?.rail}:${round.settlement?.rail_ref}`;
+}
+
+/**
+ * Check settlement round structure. Returns one issue per offending round (in round order).
+ */
+export function validateSettlementRounds(
+  rounds: TranscriptRound[]
+): Array<{ round_number: number; message: string }> {
+  const issues: Array<{ round_number: number; message: string }> = [];
+  let acceptSeen = false;
+  const attempts = new Set<string>();
+
+  for (let i = 0; i < rounds.length; i++) {
+    const round = rounds[i];
+    if (round.round_type === "ACCEPT") {
+      acceptSeen = true;
+      continue;
+    }
+    if (!isSettlementRoundType(round.round_type)) {
+      continue;
+    }
+
+    const settlement = round.settlement;
+    if (
+      !settlement ||
+      typeof settlement.rail !== "string" ||
+      settlement.rail.length === 0 ||
+      typeof settlement.rail_ref !== "string" ||
+      settlement.rail_ref.length === 0
+    ) {
+      issues.push({ round_number: i, message: `${round.round_type} round ${i} is missing settlement rail reference` });
+      continue;
+    }
+    if (!acceptSeen) {
+      issues.push({ round_number: i, message: `${round.round_type} round ${i} precedes ACCEPT` });
+      continue;
+    }
+    if (round.round_type === "SETTLEMENT_ATTEMPT") {
+      attempts.add(railKey(round));
+    } else if (!attempts.has(railKey(round))) {
+      issues.push({
+        round_number: i,
+        message: `${round.round_type} round ${i} references unknown settlement attempt ${railKey(round)}`,
+      });
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,22 @@
+/**
+ * Ed25519 signing key loading (no Node deps).
+ */
+
+import nacl from "tweetnacl";
+import bs58 from "bs58";
+
+/**
+ * Keypair from a base58 64-byte secret key or base58 32-byte seed (surrounding whitespace ignored).
+ */
+export function keyPairFromB58(keyB58: string): nacl.SignKeyPair {
+  const bytes = bs58.decode(keyB58.trim());
+  if (bytes.length === nacl.sign.secretKeyLength) {
+    return nacl.sign.keyPair.fromSecretKey(bytes);
+  }
+  if (bytes.length === nacl.sign.seedLength) {
+    return nacl.sign.keyPair.fromSeed(bytes);
+  }
+  throw new Error(
+    `Invalid signing key: expected ${nacl.sign.secretKeyLength}-byte secret key or ${nacl.sign.seedLength}-byte seed (base58), got ${bytes.length} bytes`
+  );
+}
@@ -16,12 +16,35 @@ export type Signature = {
   scheme?: "ed25519";
 };
 
+/**
+ * Settlement rail reference carried by post-ACCEPT settlement rounds.
+ * Covered by round_hash, so the reference is bound to the signed hash chain.
+ */
+export type SettlementRailRef = {
+  /** Rail identifier (e.g. "stripe", "x402", "escrow"). */
+  rail: string;
+  /** Rail-side transaction or handle id. SETTLEMENT_CONFIRMED / REFUND reuse the attempt's rail_ref. */
+  rail_ref: string;
+  amount?: number;
+  asset?: string;
+};
+
 /**
  * A single round in a transcript
  */
 export type TranscriptRound = {
   round_number: number;
-  round_type: "INTENT" | "ASK" | "BID" | "COUNTER" | "ACCEPT" | "REJECT" | "ABORT";
+  round_type:
+    | "INTENT"
+    | "ASK"
+    | "BID"
+    | "COUNTER"
+    | "ACCEPT"
+    | "REJECT"
+    | "ABORT"
+    | "SETTLEMENT_ATTEMPT"
+    | "SETTLEMENT_CONFIRMED"
+    | "REFUND";
   message_hash: string;
   envelope_hash: string;
   signature: Signature;
@@ -30,11 +53,35 @@ export type TranscriptRound = {
   round_hash?: string;
   agent_id: string;
   public_key_b58: string;
+  /** Copy of the party role declared in the signed envelope (envelope.actor_role); not trusted on its own. */
+  actor_role?: "BUYER" | "PROVIDER";
   content_summary?: Record<string, unknown> & {
     contention_key?: string;
     contention_scope?: "EXCLUSIVE" | "NON_EXCLUSIVE";
     contention_window_ms?: number;
+    /** INTENT round only: signer pubkey (base58) -> party role. */
+    role_bindings?: Record<string, "BUYER" | "PROVIDER">;
   };
+  /** Required on SETTLEMENT_ATTEMPT / SETTLEMENT_CONFIRMED / REFUND rounds. */
+  settlement?: SettlementRailRef;
+  /** Optional inline signed envelope body; canonical SHA-256 MUST equal envelope_hash. May declare actor_role. */
+  envelope?: Record<string, unknown>;
+  /** Optional inline protocol message body; canonical SHA-256 MUST equal message_hash. */
+  message?: Record<string, unknown>;
+};
+
+/**
+ * Envelope sidecar: signed envelope/message bodies stored next to a transcript
+ * (e.g. transcript.envelopes.json) when they are not inlined in the rounds.
+ */
+export type EnvelopeSidecar = {
+  version: "pact-envelopes/1";
+  transcript_id: string;
+  rounds: Array<{
+    round_number: number;
+    envelope?: Record<string, unknown>;
+    message?: Record<string, unknown>;
+  }>;
 };
 
 /**
@@ -66,6 +113,12 @@ export type TranscriptV4 = {
   failure_event?: FailureEvent;
   final_hash?: string;
   arbiter_decision_ref?: string | null;
+  /** "field-commitments/1": round_hash / final_hash are field commitments, so redacted views still verify. */
+  hash_scheme?: "field-commitments/1";
+  /** Pointer patterns salted at creation (from the redaction policy). */
+  salted_paths?: string[];
+  /** Per-field salts keyed by JSON pointer (field-commitments/1); redacted entries in views. */
+  field_salts?: Record<string, unknown>;
   metadata?: Record<string, unknown> & {
     contention_key?: string;
     contention_scope?: "EXCLUSIVE" | "NON_EXCLUSIVE";
@@ -76,6 +129,20 @@ export type TranscriptV4 = {
   };
 };
 
+/**
+ * Per-round verification status (reported by exhaustive replay).
+ * round_hash_ok is null when the round carries no round_hash to check.
+ */
+export type ReplayRoundStatus = {
+  round_number: number;
+  round_type: TranscriptRound["round_type"];
+  signature_ok: boolean;
+  round_hash_ok: boolean | null;
+  chain_link_ok: boolean;
+  /** Present only when envelope verification ran; null when no body was available for the round. */
+  envelope_hash_ok?: boolean | null;
+};
+
 /**
  * Replay result from transcript verification
  */
@@ -83,7 +150,7 @@ export type ReplayResult = {
   ok: boolean;
   integrity_status: "VALID" | "TAMPERED" | "INVALID" | "PARTIAL";
   errors: Array<{
-    type: "SIGNATURE_INVALID" | "HASH_CHAIN_BROKEN" | "FINAL_HASH_MISMATCH" | "TIMESTAMP_NON_MONOTONIC" | "ROUND_SEQUENCE_INVALID" | "INVALID_STRUCTURE";
+    type: "SIGNATURE_INVALID" | "HASH_CHAIN_BROKEN" | "FINAL_HASH_MISMATCH" | "TIMESTAMP_NON_MONOTONIC" | "ROUND_SEQUENCE_INVALID" | "INVALID_STRUCTURE" | "ENVELOPE_HASH_MISMATCH";
     round_number?: number;
     message: string;
   }>;
@@ -91,4 +158,8 @@ export type ReplayResult = {
   signature_verifications: number;
   hash_chain_verifications: number;
   rounds_verified: number;
+  /** Present only when envelope verification ran: rounds whose bodies were re-hashed and matched. */
+  envelope_verifications?: number;
+  /** Present only when replay ran with mode "exhaustive". */
+  round_statuses?: ReplayRoundStatus[];
 };
@@ -3,6 +3,7 @@
  * 
  * This is a verifier-local utility to avoid SDK dependencies.
  * Performs basic structure validation without full signature/hash verification.
+ * For integrity decisions use replayTranscriptV4 (util/replay.ts).
  */
 
 export type TranscriptV4 = {
@@ -23,7 +24,17 @@ export type TranscriptV4 = {
 
 export type TranscriptRound = {
   round_number: number;
-  round_type: "INTENT" | "ASK" | "BID" | "COUNTER" | "ACCEPT" | "REJECT" | "ABORT";
+  round_type:
+    | "INTENT"
+    | "ASK"
+    | "BID"
+    | "COUNTER"
+    | "ACCEPT"
+    | "REJECT"
+    | "ABORT"
+    | "SETTLEMENT_ATTEMPT"
+    | "SETTLEMENT_CONFIRMED"
+    | "REFUND";
   message_hash: string;
   envelope_hash: string;
   signature: Signature;
@@ -66,6 +77,7 @@ export type ReplayResult = {
  * 
  * @param transcript - Transcript to verify
  * @returns ReplayResult with basic validation results
+ * @deprecated Does not check signatures or the hash chain; use replayTranscriptV4.
  */
 export async function verifyTranscriptV4(transcript: unknown): Promise<ReplayResult> {
   const result: ReplayResult = {
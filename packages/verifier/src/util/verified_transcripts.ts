@@ -0,0 +1,150 @@
+/**
+ * Verified transcript loading for passport computations (passport-v1-recompute, insurer-summary).
+ *
+ * Every transcript is replayed with replayTranscriptV4 (signatures + hash chain + final_hash).
+ * Only VALID transcripts are returned; the rest are quarantined as ExcludedTranscript with reasons.
+ */
+
+import { readdir, readFileSync, statSync } from "node:fs";
+import { resolve, isAbsolute, join, dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+import { promisify } from "node:util";
+import { replayTranscriptV4 } from "./replay.js";
+import type { TranscriptV4, ReplayResult } from "./transcript_types.js";
+import { getTranscriptStableId } from "./passport_v1.js";
+import { hashCanonicalHex } from "./canonical.js";
+
+const readdirAsync = promisify(readdir);
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const repoRoot = resolve(__dirname, "../../../..");
+
+/** Transcript quarantined from scoring (unreadable or not VALID under replay). */
+export interface ExcludedTranscript {
+  source_dir: string;
+  file: string;
+  transcript_id: string | null;
+  integrity_status: ReplayResult["integrity_status"] | "UNREADABLE";
+  reasons: string[];
+}
+
+/** Transcript that passed replay, with the hash of its replay result. */
+export interface LoadedTranscript {
+  transcript: TranscriptV4;
+  replayResultHash: string;
+}
+
+/** Directory as reported in outputs: relative to the repo root or cwd when under them. */
+export function normalizeDir(d: string): string {
+  if (!isAbsolute(d)) return d;
+  if (d.startsWith(repoRoot + "/")) return d.slice(repoRoot.length + 1);
+  if (d.startsWith(process.cwd() + "/")) return d.slice(process.cwd().length + 1);
+  return d;
+}
+
+/**
+ * sha256 of the canonical replay result: binds a history entry to the exact verification outcome it was scored on.
+ */
+function computeReplayResultHash(result: ReplayResult): string {
+  return hashCanonicalHex(result);
+}
+
+async function loadTranscripts(dir: string): Promise<{ transcripts: LoadedTranscript[]; excluded: ExcludedTranscript[] }> {
+  const transcripts: LoadedTranscript[] = [];
+  const excluded: ExcludedTranscript[] = [];
+  const resolvedDir = isAbsolute(dir) ? dir : resolve(process.cwd(), dir);
+
+  if (!statSync(resolvedDir).isDirectory()) {
+    throw new Error(`Not a directory: ${resolvedDir}`);
+  }
+
+  const files = await readdirAsync(resolvedDir);
+  const jsonFiles = files.filter((f) => f.endsWith(".json")).sort(); // Sort for deterministic order
+
+  for (const file of jsonFiles) {
+    const filePath = join(resolvedDir, file);
+    let transcript: TranscriptV4;
+    try {
+      transcript = JSON.parse(readFileSync(filePath, "utf-8")) as TranscriptV4;
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      // Warning to stderr only (not stdout)
+      console.error(`Warning: Skipping ${file} - ${reason}`);
+      excluded.push({ source_dir: normalizeDir(dir), file, transcript_id: null, integrity_status: "UNREADABLE", reasons: [reason] });
+      continue;
+    }
+
+    // Full cryptographic verification: a forged or tampered transcript must not move any score
+    let replayResult: ReplayResult;
+    try {
+      replayResult = await replayTranscriptV4(transcript);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      console.error(`Warning: Skipping ${file} - ${reason}`);
+      excluded.push({
+        source_dir: normalizeDir(dir),
+        file,
+        transcript_id: typeof transcript?.transcript_id === "string" ? transcript.transcript_id : null,
+        integrity_status: "INVALID",
+        reasons: [reason],
+      });
+      continue;
+    }
+    if (replayResult.integrity_status !== "VALID") {
+      const reasons = replayResult.errors.map((e) => `${e.type}: ${e.message}`);
+      console.error(`Warning: Skipping ${file} - integrity ${replayResult.integrity_status}: ${reasons.join("; ")}`);
+      excluded.push({
+        source_dir: normalizeDir(dir),
+        file,
+        transcript_id: typeof transcript.transcript_id === "string" ? transcript.transcript_id : null,
+        integrity_status: replayResult.integrity_status,
+        reasons,
+      });
+      continue;
+    }
+
+    transcripts.push({ transcript, replayResultHash: computeReplayResultHash(replayResult) });
+  }
+
+  return { transcripts, excluded };
+}
+
+/**
+ * Load transcripts from multiple directories, merge deterministically, and detect duplicates.
+ * If the same transcript (by stable ID) appears in more than one directory, a warning is emitted
+ * and the first occurrence (by order of dirs, then by stable ID) is kept.
+ */
+export async function loadTranscriptsFromMultipleDirs(
+  dirs: string[],
+  human: boolean
+): Promise<{ transcripts: LoadedTranscript[]; excluded: ExcludedTranscript[]; duplicateWarnings: string[] }> {
+  const duplicateWarnings: string[] = [];
+  const excluded: ExcludedTranscript[] = [];
+  const byStableId = new Map<string, { transcript: LoadedTranscript; sourceDir: string }>();
+
+  for (const dir of dirs) {
+    if (human) {
+      console.error(`Loading transcripts from: ${dir}`);
+    }
+    const fromDir = await loadTranscripts(dir);
+    excluded.push(...fromDir.excluded);
+
+    for (const transcript of fromDir.transcripts) {
+      const stableId = getTranscriptStableId(transcript.transcript);
+      const existing = byStableId.get(stableId);
+      if (existing) {
+        duplicateWarnings.push(
+          `Duplicate transcript ${stableId} (also in ${existing.sourceDir}); keeping first occurrence, skipping from ${dir}`
+        );
+        continue;
+      }
+      byStableId.set(stableId, { transcript, sourceDir: dir });
+    }
+  }
+
+  // Deterministic order: sort by stable ID
+  const stableIds = Array.from(byStableId.keys()).sort();
+  const transcripts = stableIds.map((id) => byStableId.get(id)!.transcript);
+  excluded.sort((a, b) => a.source_dir.localeCompare(b.source_dir) || a.file.localeCompare(b.file));
+  return { transcripts, excluded, duplicateWarnings };
+}
@@ -9,8 +9,16 @@ import type { TranscriptV4 } from "./util/transcript_types.js";
 import { stableCanonicalize } from "./util/canonical_pure.js";
 import { renderGCView } from "./gc_view/renderer.js";
 import { resolveBlameV1 } from "./dbl/blame_resolver_v1.js";
-import { stripNondeterministic, generateInsurerSummary } from "./auditor_pack_verify_shared.js";
-import { isAcceptedConstitutionHash, getAcceptedConstitutionHashes } from "./util/constitution_hashes.js";
+import { stripNondeterministic, generateInsurerSummary, type SealedRulebook } from "./auditor_pack_verify_shared.js";
+import { getConstitutionEntry, getAcceptedConstitutionHashes } from "./util/constitution_hashes.js";
+import {
+  PACK_SIGNATURE_PATH,
+  verifyPackSignature,
+  type PackSignature,
+  type PackSealStatus,
+} from "./util/pack_signature.js";
+import { MERKLE_PROOF_PACK_PATH, verifyInclusionProof } from "./merkle/digest.js";
+import { RULEBOOK_PACK_PATH, computeRulebookHash, validateRulebook } from "./underwriting/rulebook.js";
 
 const PACKAGE_VERSION = "auditor_pack_verify/1.0";
 const VERIFIER_VERSION = "0.2.1";
@@ -24,6 +32,9 @@ const REQUIRED_FILES = [
   "derived/insurer_summary.json",
 ];
 
+/** Optional arbiter decision; when present it is passed to the DBL / GC view recompute. */
+const ARBITER_DECISION_PATH = "input/arbiter_decision.json";
+
 /** Expected constitution paths (primary first, optional fallbacks). Match against normalized names. */
 const CONSTITUTION_CANDIDATE_PATHS = [
   "constitution/CONSTITUTION_v1.md",
@@ -85,14 +96,44 @@ export interface VerifyReport {
   recompute_ok: boolean;
   mismatches: string[];
   tool_version: string;
+  /** Constitution sealed in the pack; derived artifacts are re-derived under it when accepted. */
+  constitution?: {
+    hash: string;
+    /** Registry version for hash (null when non-standard). */
+    version: string | null;
+    accepted: boolean;
+  };
+  /** Underwriting rulebook sealed in the pack (derived/insurer_summary.json is re-derived under it). */
+  rulebook?: {
+    id: string;
+    hash: string;
+  };
+  /** Packer seal status (present when the pack is signed or a trusted packer list / signature was required). */
+  seal?: PackSealStatus;
+  /** Merkle inclusion proof status (present when the pack carries derived/merkle_digest.json). */
+  merkle?: {
+    root: string | null;
+    date_utc?: string;
+    leaf_hash_ok: boolean | null;
+    proof_ok: boolean;
+  };
 }
 
 export interface VerifyAuditorPackOptions {
   /** Async SHA-256 (string or Uint8Array -> hex). Required for browser/runtime-agnostic. */
   sha256Async: (data: string | Uint8Array) => Promise<string>;
-  /** Standard constitution content (canonicalized in-core). Required for recompute. */
+  /**
+   * Standard constitution content (canonicalized in-core). Packs sealed under an accepted constitution are
+   * re-derived under their own; this is used for non-standard packs when allowNonstandard is set.
+   */
   standardConstitutionContent: string;
   allowNonstandard?: boolean;
+  /** Trusted packer public keys (base58). When set, the pack must be sealed by one of them. */
+  trustedPackerKeys?: string[];
+  /** Fail verification when the pack has no manifest.sig.json. */
+  requireSignature?: boolean;
+  /** Trusted arbiter public keys (base58). An included arbiter decision only re-derives as verified when signed by one. */
+  trustedArbiterKeys?: string[];
 }
 
 function canonicalizeConstitution(content: string): string {
@@ -121,7 +162,14 @@ export async function verifyAuditorPackFromBytes(
     tool_version: `@pact/verifier ${VERIFIER_VERSION}`,
   };
 
-  const { sha256Async, standardConstitutionContent, allowNonstandard = false } = options;
+  const {
+    sha256Async,
+    standardConstitutionContent,
+    allowNonstandard = false,
+    trustedPackerKeys,
+    requireSignature = false,
+    trustedArbiterKeys,
+  } = options;
 
   try {
     const zip = await JSZip.loadAsync(zipBytes);
@@ -150,6 +198,7 @@ export async function verifyAuditorPackFromBytes(
     const checksumsContent = await checksumsFile.async("string");
     const checksumLines = checksumsContent.trim().split("\n");
     const checksumMismatches: string[] = [];
+    const listedPaths = new Set<string>();
     for (const line of checksumLines) {
       const match = line.match(/^([a-f0-9]{64})\s+(.+)$/);
       if (!match) {
@@ -157,6 +206,7 @@ export async function verifyAuditorPackFromBytes(
         continue;
       }
       const [, expectedHash, relativePath] = match;
+      listedPaths.add(normalizeZipEntryName(relativePath.trim()));
       const file = getFileByNormalizedName(fileMap, relativePath.trim());
       if (!file) {
         checksumMismatches.push(`File in checksums not found in ZIP: ${relativePath.trim()}`);
@@ -170,12 +220,43 @@ export async function verifyAuditorPackFromBytes(
         );
       }
     }
+    // Every other entry must be sealed by checksums.sha256; only the checksums file and the detached seal are not
+    for (const entryName of fileMap.keys()) {
+      if (entryName !== "checksums.sha256" && entryName !== PACK_SIGNATURE_PATH && !listedPaths.has(entryName)) {
+        checksumMismatches.push(`File in ZIP not listed in checksums: ${entryName}`);
+      }
+    }
     report.checksums_ok = checksumMismatches.length === 0;
+    // Optional inputs are only read when sealed; an unlisted copy is ignored (and already fails the pack)
+    const getSealedFile = (path: string) =>
+      listedPaths.has(normalizeZipEntryName(path)) ? getFileByNormalizedName(fileMap, path) : undefined;
     if (!report.checksums_ok) report.mismatches.push(...checksumMismatches);
 
     const manifestFile = getFileByNormalizedName(fileMap, "manifest.json")!;
     const manifestContent = await manifestFile.async("string");
     const manifest = JSON.parse(manifestContent);
+
+    let seal_ok = true;
+    const sealFile = getFileByNormalizedName(fileMap, PACK_SIGNATURE_PATH);
+    if (sealFile) {
+      const seal = JSON.parse(await sealFile.async("string")) as PackSignature;
+      const { status, errors } = await verifyPackSignature(
+        seal,
+        manifest,
+        checksumsContent,
+        (s) => sha256Async(s),
+        trustedPackerKeys
+      );
+      report.seal = status;
+      seal_ok = errors.length === 0;
+      report.mismatches.push(...errors);
+    } else if (requireSignature || trustedPackerKeys) {
+      // A trusted packer list implies a signature is required
+      report.seal = { signed: false };
+      seal_ok = false;
+      report.mismatches.push(`Missing ${PACK_SIGNATURE_PATH}: pack signature required`);
+    }
+
     if (!manifest.constitution_version) {
       report.mismatches.push("Missing constitution_version in manifest.json");
       return report;
@@ -189,11 +270,17 @@ export async function verifyAuditorPackFromBytes(
     const canonicalPackConstitution = canonicalizeConstitution(packConstitutionContent);
     const computedConstitutionHash = await sha256Async(canonicalPackConstitution);
 
-    const isConstitutionHashAccepted = isAcceptedConstitutionHash(computedConstitutionHash);
+    const sealedConstitution = getConstitutionEntry(computedConstitutionHash);
+    const isConstitutionHashAccepted = sealedConstitution !== null;
+    report.constitution = {
+      hash: computedConstitutionHash,
+      version: sealedConstitution?.version ?? null,
+      accepted: isConstitutionHashAccepted,
+    };
     let constitution_ok = isConstitutionHashAccepted;
     if (!isConstitutionHashAccepted) {
       const acceptedHashes = getAcceptedConstitutionHashes();
-      const expectedHash = acceptedHashes[0] || "unknown";
+      const expectedHash = acceptedHashes.join(" or ") || "unknown";
       report.mismatches.push(
         `NON_STANDARD_RULES: constitution hash mismatch (got ${computedConstitutionHash}, expected ${expectedHash})`
       );
@@ -206,12 +293,43 @@ export async function verifyAuditorPackFromBytes(
     const transcriptContent = await transcriptFile.async("string");
     const transcript: TranscriptV4 = JSON.parse(transcriptContent);
 
+    const arbiterDecisionFile = getSealedFile(ARBITER_DECISION_PATH);
+    const arbiterDecisions = arbiterDecisionFile ? [JSON.parse(await arbiterDecisionFile.async("string"))] : undefined;
+
     const sha256AsyncStr: (s: string) => Promise<string> = (s) => sha256Async(s);
+
+    // Optional inclusion proof: leaf must be this transcript's content hash and the path must reach the root
+    let merkle_ok = true;
+    const merkleFile = getSealedFile(MERKLE_PROOF_PACK_PATH);
+    if (merkleFile) {
+      const proof = JSON.parse(await merkleFile.async("string"));
+      const inclusion = await verifyInclusionProof(proof, {
+        transcript,
+        expectedConstitutionHash: manifest.constitution_hash,
+        sha256Async: sha256AsyncStr,
+      });
+      report.merkle = {
+        root: inclusion.root,
+        ...(typeof proof?.date_utc === "string" ? { date_utc: proof.date_utc } : {}),
+        leaf_hash_ok: inclusion.leaf_hash_ok,
+        proof_ok: inclusion.proof_ok,
+      };
+      merkle_ok = inclusion.ok;
+      report.mismatches.push(...inclusion.errors.map((e) => `${MERKLE_PROOF_PACK_PATH}: ${e}`));
+    }
+
+    // Re-derive under the constitution sealed in the pack, so packs from older accepted versions keep verifying
     const recomputedGcView = await renderGCView(transcript, {
-      constitutionContent: standardConstitutionContent,
+      constitutionContent: sealedConstitution ? packConstitutionContent : standardConstitutionContent,
       sha256Async: sha256AsyncStr,
+      arbiterDecisions,
+      trustedArbiterKeys,
+    });
+    const recomputedJudgment = await resolveBlameV1(transcript, {
+      sha256Async: sha256AsyncStr,
+      arbiterDecisions,
+      trustedArbiterKeys,
     });
-    const recomputedJudgment = await resolveBlameV1(transcript, { sha256Async: sha256AsyncStr });
 
     const recomputeMismatches: string[] = [];
     const manifestConstitutionHash = manifest.constitution_hash;
@@ -286,7 +404,20 @@ export async function verifyAuditorPackFromBytes(
       );
     }
 
-    const recomputedInsurerSummary = await generateInsurerSummary(transcript, recomputedGcView, recomputedJudgment);
+    // Re-derive the insurer summary under the sealed underwriting rulebook, if any
+    let sealedRulebook: SealedRulebook | undefined;
+    const rulebookFile = getSealedFile(RULEBOOK_PACK_PATH);
+    if (rulebookFile) {
+      const rulebook = JSON.parse(await rulebookFile.async("string"));
+      const rulebookErrors = validateRulebook(rulebook);
+      if (rulebookErrors.length > 0) {
+        report.mismatches.push(...rulebookErrors.map((e) => `${RULEBOOK_PACK_PATH}: ${e}`));
+        return report;
+      }
+      sealedRulebook = { rulebook, hash: await computeRulebookHash(rulebook, sha256AsyncStr) };
+      report.rulebook = { id: rulebook.rulebook_id, hash: sealedRulebook.hash };
+    }
+    const recomputedInsurerSummary = await generateInsurerSummary(transcript, recomputedGcView, recomputedJudgment, sealedRulebook);
     const originalInsurerSummaryFile = getFileByNormalizedName(fileMap, "derived/insurer_summary.json")!;
     const originalInsurerSummaryContent = await originalInsurerSummaryFile.async("string");
     const strippedRecomputedInsurerSummary = stripNondeterministic(
@@ -308,7 +439,7 @@ export async function verifyAuditorPackFromBytes(
     if (!report.recompute_ok) report.mismatches.push(...recomputeMismatches);
 
     const constitutionCheckPasses = constitution_ok || allowNonstandard;
-    report.ok = report.checksums_ok && report.recompute_ok && constitutionCheckPasses;
+    report.ok = report.checksums_ok && report.recompute_ok && constitutionCheckPasses && seal_ok && merkle_ok;
     return report;
   } catch (error) {
     report.mismatches.push(`Error: ${error instanceof Error ? error.message : String(error)}`);
@@ -0,0 +1,73 @@
+#!/usr/bin/env node
+/**
+ * Prove possession of a demo subject key for POST /v1/anchors/issue.
+ * Requests a challenge from the registry (POST /v1/anchors/challenge), signs it with the subject key and prints
+ * the possession_proof JSON on stdout.
+ *
+ * The subject secret comes from SUBJECT_SECRET_KEY_B58, or is re-derived from the deterministic seeds of
+ * scripts/generate-api-fixture.mjs (the keys that signed design_partner_bundle/packs/auditor_pack_api_success.zip).
+ *
+ * Usage: node scripts/demo_possession_proof.mjs <subject_pubkey_b58>
+ * Env: REGISTRY_URL (default http://localhost:3100), REGISTRY_API_KEY (default dev-api-key), SUBJECT_SECRET_KEY_B58
+ */
+
+import { createRequire } from "module";
+
+const requireRoot = createRequire(import.meta.url);
+const crypto = requireRoot("crypto");
+const nacl = requireRoot("tweetnacl");
+const bs58 = requireRoot("bs58");
+
+// Same seeds as scripts/generate-api-fixture.mjs
+const DEMO_SEEDS = ["api-buyer-v1", "api-provider-a-v1", "api-provider-b-v1", "api-verifier-v1"];
+
+function stableCanonicalize(obj) {
+  if (obj === null || obj === undefined) return JSON.stringify(obj);
+  if (typeof obj === "string" || typeof obj === "number" || typeof obj === "boolean")
+    return JSON.stringify(obj);
+  if (Array.isArray(obj)) return "[" + obj.map((item) => stableCanonicalize(item)).join(",") + "]";
+  if (typeof obj === "object") {
+    const keys = Object.keys(obj).sort();
+    return "{" + keys.map((key) => JSON.stringify(key) + ":" + stableCanonicalize(obj[key])).join(",") + "}";
+  }
+  return JSON.stringify(obj);
+}
+
+function deriveKeypair(seed) {
+  const hash = crypto.createHash("sha256").update(seed).digest();
+  return nacl.sign.keyPair.fromSeed(new Uint8Array(hash));
+}
+
+function subjectKeypair(subject) {
+  if (process.env.SUBJECT_SECRET_KEY_B58) {
+    return nacl.sign.keyPair.fromSecretKey(bs58.decode(process.env.SUBJECT_SECRET_KEY_B58));
+  }
+  return DEMO_SEEDS.map(deriveKeypair).find((kp) => bs58.encode(Buffer.from(kp.publicKey)) === subject);
+}
+
+const subject = process.argv[2];
+if (!subject) {
+  console.error("Usage: node scripts/demo_possession_proof.mjs <subject_pubkey_b58>");
+  process.exit(1);
+}
+const keypair = subjectKeypair(subject);
+if (!keypair || bs58.encode(Buffer.from(keypair.publicKey)) !== subject) {
+  console.error(`No secret key for ${subject}: not a demo fixture key; set SUBJECT_SECRET_KEY_B58 to the subject's secret key`);
+  process.exit(1);
+}
+
+const registryUrl = process.env.REGISTRY_URL || "http://localhost:3100";
+const res = await fetch(`${registryUrl}/v1/anchors/challenge`, {
+  method: "POST",
+  headers: { "Content-Type": "application/json", "x-api-key": process.env.REGISTRY_API_KEY || "dev-api-key" },
+  body: JSON.stringify({ subject_signer_public_key_b58: subject }),
+});
+const body = await res.json().catch(() => ({}));
+if (res.status !== 201 || !body.challenge) {
+  console.error(`Registry returned ${res.status} for the possession challenge: ${JSON.stringify(body)}`);
+  process.exit(1);
+}
+
+const msg = new TextEncoder().encode(stableCanonicalize(body.challenge));
+const signature = nacl.sign.detached(msg, keypair.secretKey);
+console.log(JSON.stringify({ challenge: body.challenge, signature_b58: bs58.encode(Buffer.from(signature)) }));
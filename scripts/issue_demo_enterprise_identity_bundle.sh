@@ -4,7 +4,9 @@
 # For clean anchors with real fingerprints, set before running:
 #   EVIDENCE_FINGERPRINT="sha256:<64 hex>"   # Provider B service account
 #   ASSERTION_FINGERPRINT="sha256:<64 hex>"  # Buyer OIDC
-# Prereqs: Registry running (e.g. PORT=3100 pnpm -C packages/registry dev), .env.registry or REGISTRY_* set.
+# Prereqs: Registry running, e.g.
+#   PORT=3100 pnpm -C packages/registry dev
+# and .env.registry or REGISTRY_* set.
 
 set -e
 REPO_ROOT="$(cd "$(dirname "$0")/.." && pwd)"
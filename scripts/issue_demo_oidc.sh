@@ -5,7 +5,10 @@
 #   ASSERTION_FINGERPRINT="sha256:<64 hex chars>" ./scripts/issue_demo_oidc.sh
 # Omit ASSERTION_FINGERPRINT to use a deterministic demo fingerprint (oidc:id_token:demo:buyer).
 # Writes /tmp/issued_oidc_anchor.json in Boxer anchors format.
-# Prereqs: Registry running (e.g. PORT=3100 pnpm -C packages/registry dev), .env.registry or REGISTRY_* set.
+# Proves possession of the pack key with scripts/demo_possession_proof.mjs (deterministic fixture seed).
+# Prereqs: Registry running, e.g.
+#   PORT=3100 pnpm -C packages/registry dev
+# and .env.registry or REGISTRY_* set.
 
 set -e
 REPO_ROOT="$(cd "$(dirname "$0")/.." && pwd)"
@@ -44,7 +47,7 @@ else
 fi
 
 ISSUED_JSON="/tmp/issued_oidc_anchor.json"
-PAYLOAD_JSON=$(node -e "
+PAYLOAD_JSON=$(FP="$ASSERTION_FINGERPRINT" node -e "
 console.log(JSON.stringify({
   issuer: 'https://acme.okta.com',
   subject: 'buyer-demo',
@@ -54,18 +57,22 @@ console.log(JSON.stringify({
   email: 'buyer@acme.com',
   scope: ['procurement', 'settlement']
 }));
-" FP="$ASSERTION_FINGERPRINT")
+")
 
-BODY=$(node -e "
+# Sign a registry challenge with the buyer key (proof of possession)
+PROOF_JSON=$(REGISTRY_URL="$REGISTRY_URL" REGISTRY_API_KEY="$API_KEY" node "$REPO_ROOT/scripts/demo_possession_proof.mjs" "$BUYER_PUBKEY")
+
+BODY=$(PAYLOAD="$PAYLOAD_JSON" PROOF="$PROOF_JSON" node -e "
 console.log(JSON.stringify({
   subject_signer_public_key_b58: '$BUYER_PUBKEY',
   anchor_type: 'oidc_verified',
   verification_method: 'oidc',
   payload: JSON.parse(process.env.PAYLOAD),
+  possession_proof: JSON.parse(process.env.PROOF),
   display_name: 'Buyer (OIDC)',
   evidence_refs: ['oidc:id_token:demo:buyer']
 }));
-" PAYLOAD="$PAYLOAD_JSON")
+")
 
 echo "Issuing oidc_verified anchor for buyer $BUYER_PUBKEY..."
 RESP=$(curl -s -w "\n%{http_code}" -X POST "$REGISTRY_URL/v1/anchors/issue" \
@@ -81,7 +88,7 @@ if [ "$HTTP_CODE" != "201" ]; then
 fi
 
 # Write Boxer-compatible anchors format
-ATT=$(node -e "
+ATT=$(BODY="$HTTP_BODY" node -e "
 const r = JSON.parse(process.env.BODY);
 const a = r.anchor_attestation;
 if (!a) process.exit(1);
@@ -98,7 +105,7 @@ console.log(JSON.stringify({
     anchor_id: a.anchor_id
   }]
 }));
-" BODY="$HTTP_BODY")
+")
 echo "$ATT" > "$ISSUED_JSON"
 echo "Wrote $ISSUED_JSON (Boxer anchors format)."
 echo "Buyer pubkey: $BUYER_PUBKEY"
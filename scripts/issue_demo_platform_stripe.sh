@@ -2,7 +2,10 @@
 # Issue a Stripe platform_verified anchor for the API Procurement provider.
 # Extracts provider pubkey from design_partner_bundle/packs/auditor_pack_api_success.zip (ASK signer),
 # builds payload with hashed account id fingerprint, POSTs to registry, writes /tmp/issued_stripe_anchor.json.
-# Prereqs: Registry running (e.g. PORT=3100 pnpm -C packages/registry start), .env.registry or REGISTRY_* set.
+# Proves possession of the pack key with scripts/demo_possession_proof.mjs (deterministic fixture seed).
+# Prereqs: Registry running, e.g.
+#   PORT=3100 pnpm -C packages/registry start
+# and .env.registry or REGISTRY_* set.
 
 set -e
 REPO_ROOT="$(cd "$(dirname "$0")/.." && pwd)"
@@ -37,7 +40,7 @@ ACCOUNT_ID_FINGERPRINT=$(node -e "const c=require('crypto');console.log('sha256:
 
 # Optional: load registry keys from .env.registry for display (script uses API only; issuance is server-side)
 ISSUED_JSON="/tmp/issued_stripe_anchor.json"
-PAYLOAD_JSON=$(node -e "
+PAYLOAD_JSON=$(FP="$ACCOUNT_ID_FINGERPRINT" node -e "
 console.log(JSON.stringify({
   platform: 'stripe',
   account_type: 'merchant',
@@ -46,17 +49,21 @@ console.log(JSON.stringify({
   region: 'US',
   linked_at_ms: Date.now()
 }));
-" FP="$ACCOUNT_ID_FINGERPRINT")
+")
 
-BODY=$(node -e "
+# Sign a registry challenge with the provider key (proof of possession)
+PROOF_JSON=$(REGISTRY_URL="$REGISTRY_URL" REGISTRY_API_KEY="$API_KEY" node "$REPO_ROOT/scripts/demo_possession_proof.mjs" "$PROVIDER_PUBKEY")
+
+BODY=$(PAYLOAD="$PAYLOAD_JSON" PROOF="$PROOF_JSON" node -e "
 console.log(JSON.stringify({
   subject_signer_public_key_b58: '$PROVIDER_PUBKEY',
   anchor_type: 'platform_verified',
   verification_method: 'stripe',
   payload: JSON.parse(process.env.PAYLOAD),
+  possession_proof: JSON.parse(process.env.PROOF),
   display_name: 'Acme Data LLC (Stripe)'
 }));
-" PAYLOAD="$PAYLOAD_JSON")
+")
 
 echo "Issuing platform_verified (stripe) anchor for provider $PROVIDER_PUBKEY..."
 RESP=$(curl -s -w "\n%{http_code}" -X POST "$REGISTRY_URL/v1/anchors/issue" \
@@ -72,7 +79,7 @@ if [ "$HTTP_CODE" != "201" ]; then
 fi
 
 # Write Boxer-compatible anchors format
-ATT=$(node -e "
+ATT=$(BODY="$HTTP_BODY" node -e "
 const r = JSON.parse(process.env.BODY);
 const a = r.anchor_attestation;
 if (!a) process.exit(1);
@@ -89,7 +96,7 @@ console.log(JSON.stringify({
     anchor_id: a.anchor_id
   }]
 }));
-" BODY="$HTTP_BODY")
+")
 echo "$ATT" > "$ISSUED_JSON"
 echo "Wrote $ISSUED_JSON (Boxer anchors format)."
 echo "Provider pubkey: $PROVIDER_PUBKEY"
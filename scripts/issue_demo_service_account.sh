@@ -5,7 +5,10 @@
 #   EVIDENCE_FINGERPRINT="sha256:<64 hex chars>" ./scripts/issue_demo_service_account.sh
 # Omit EVIDENCE_FINGERPRINT to use a deterministic demo fingerprint (gcp:workload_identity:demo:provider_b).
 # Writes /tmp/issued_service_account_anchor.json in Boxer anchors format.
-# Prereqs: Registry running (e.g. PORT=3100 pnpm -C packages/registry dev), .env.registry or REGISTRY_* set.
+# Proves possession of the pack key with scripts/demo_possession_proof.mjs (deterministic fixture seed).
+# Prereqs: Registry running, e.g.
+#   PORT=3100 pnpm -C packages/registry dev
+# and .env.registry or REGISTRY_* set.
 
 set -e
 REPO_ROOT="$(cd "$(dirname "$0")/.." && pwd)"
@@ -44,7 +47,7 @@ else
 fi
 
 ISSUED_JSON="/tmp/issued_service_account_anchor.json"
-PAYLOAD_JSON=$(node -e "
+PAYLOAD_JSON=$(FP="$EVIDENCE_FINGERPRINT" node -e "
 console.log(JSON.stringify({
   cloud: 'gcp',
   service_account: 'svc-demo-provider-b@project.iam.gserviceaccount.com',
@@ -53,18 +56,22 @@ console.log(JSON.stringify({
   scope: ['signing', 'data_access'],
   region: 'US'
 }));
-" FP="$EVIDENCE_FINGERPRINT")
+")
 
-BODY=$(node -e "
+# Sign a registry challenge with the provider key (proof of possession)
+PROOF_JSON=$(REGISTRY_URL="$REGISTRY_URL" REGISTRY_API_KEY="$API_KEY" node "$REPO_ROOT/scripts/demo_possession_proof.mjs" "$PROVIDER_PUBKEY")
+
+BODY=$(PAYLOAD="$PAYLOAD_JSON" PROOF="$PROOF_JSON" node -e "
 console.log(JSON.stringify({
   subject_signer_public_key_b58: '$PROVIDER_PUBKEY',
   anchor_type: 'service_account_verified',
   verification_method: 'service_account',
   payload: JSON.parse(process.env.PAYLOAD),
+  possession_proof: JSON.parse(process.env.PROOF),
   display_name: 'Provider B (Service Account)',
   evidence_refs: ['gcp:workload_identity:demo:provider_b']
 }));
-" PAYLOAD="$PAYLOAD_JSON")
+")
 
 echo "Issuing service_account_verified anchor for provider $PROVIDER_PUBKEY..."
 RESP=$(curl -s -w "\n%{http_code}" -X POST "$REGISTRY_URL/v1/anchors/issue" \
@@ -80,7 +87,7 @@ if [ "$HTTP_CODE" != "201" ]; then
 fi
 
 # Write Boxer-compatible anchors format
-ATT=$(node -e "
+ATT=$(BODY="$HTTP_BODY" node -e "
 const r = JSON.parse(process.env.BODY);
 const a = r.anchor_attestation;
 if (!a) process.exit(1);
@@ -97,7 +104,7 @@ console.log(JSON.stringify({
     anchor_id: a.anchor_id
   }]
 }));
-" BODY="$HTTP_BODY")
+")
 echo "$ATT" > "$ISSUED_JSON"
 echo "Wrote $ISSUED_JSON (Boxer anchors format)."
 echo "Provider pubkey: $PROVIDER_PUBKEY"
@@ -71,23 +71,18 @@ if (existsSync(examplesDir) && existsSync(examplesEntry)) {
   console.log("\n=== Examples ===\nℹ️  examples/ missing or incomplete (e.g. basic-happy/run.ts), skipping\n");
 }
 
-// Step 7: Verify transcripts (strict + terminal-only); skip if no transcripts or no SDK
+// Step 7: Verify transcripts (strict + terminal-only); skip if no transcripts
 const transcriptsDir = join(repoRoot, ".pact", "transcripts");
-const sdkDir = join(repoRoot, "packages", "sdk");
 const hasTranscripts =
   existsSync(transcriptsDir) &&
   readdirSync(transcriptsDir).some((f) => f.endsWith(".json"));
-const hasSdk = existsSync(sdkDir);
-if (hasTranscripts && hasSdk) {
+if (hasTranscripts) {
   runCommand(
     "node packages/verifier/dist/cli/replay_verify.js --strict --terminal-only -- .pact/transcripts",
     "Transcript Verification"
   );
 } else {
-  const reason = !hasSdk
-    ? "packages/sdk absent (e.g. protocol export)"
-    : ".pact/transcripts missing or no .json files";
-  console.log("\n=== Transcript Verification ===\nℹ️  " + reason + ", skipping\n");
+  console.log("\n=== Transcript Verification ===\nℹ️  .pact/transcripts missing or no .json files, skipping\n");
 }
 
 console.log("\n✅ Release Gate: All checks passed!");
@@ -58,7 +58,7 @@ async function replayLatest() {
     // Run replay_v4.ts on the latest transcript
     // Using the same pattern as the existing replay:v4 script
     execSync(
-      `pnpm --filter @pact/sdk exec tsx src/cli/replay_v4.ts "${latestTranscript}"`,
+      `pnpm exec tsx packages/verifier/src/cli/replay_v4.ts "${latestTranscript}"`,
       {
         cwd: REPO_ROOT,
         stdio: "inherit",